@@ -6,6 +6,7 @@ import CustomButton from "@/components/ui/Button/Button";
 import { Ionicons } from "@expo/vector-icons";
 import { loginAPI, googleLoginAPI, resetPasswordAPI, forgotPasswordAPI } from "@/utils/authAPI";
 import authService from "@/services/auth"; // Sử dụng service mới
+import deepLinks from "@/services/DeepLinkService";
 import Logo from "@/components/Logo/Logo";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
@@ -77,7 +78,8 @@ const LoginScreen: React.FC = () => {
         const isAuthenticated = await authService.checkAuthStatus();
         
         if (isAuthenticated) {
-          router.replace("/(tabs)/profile");
+          // Continue to the link that sent the user here, if any
+          if (!(await deepLinks.resumePendingLink())) router.replace("/(tabs)/profile");
         } else {
         }
       } catch (error) {
@@ -136,7 +138,7 @@ const LoginScreen: React.FC = () => {
       await authService.removeToken();
       
       try {
-        const { token } = await loginAPI(email, password);
+        const { token, refreshToken } = await loginAPI(email, password);
         
         if (!token) {
           throw new Error("Login failed");
@@ -144,10 +146,10 @@ const LoginScreen: React.FC = () => {
         
   
         // Use AuthService to store token
-        const success = await authService.setToken(token);
+        const success = await authService.setToken(token, refreshToken);
         
         if (success) {
-          router.replace("/(tabs)/profile");
+          if (!(await deepLinks.resumePendingLink())) router.replace("/(tabs)/profile");
         } else {
           Alert.alert("Login Error", "Failed to persist authentication");
         }
@@ -194,11 +196,11 @@ const LoginScreen: React.FC = () => {
         
         await authService.removeToken();
         
-        const success = await authService.setToken(authToken);
+        const success = await authService.setToken(authToken, loginResponse.refreshToken);
         
         if (success) {
           console.log("🟢 Token successfully stored, redirecting to profile");
-          router.replace("/(tabs)/profile");
+          if (!(await deepLinks.resumePendingLink())) router.replace("/(tabs)/profile");
         } else {
           throw new Error("Failed to store authentication token");
         }
@@ -14,6 +14,10 @@ import { getContactsAPI } from "@/utils/contactAPI";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 import { signalRService } from "@/services/SignalRService";
+import chatHistoryStore from "@/services/ChatHistoryService";
+import { IChatSearchResult } from "@/utils/chatHistory";
+import { CHAT_CARD_LABELS, parseChatMessage } from "@/utils/chatCards";
+import { useChatPresence } from "@/hooks/useChatPresence";
 
 // Define proper interface for consistency
 interface Contact {
@@ -83,6 +87,8 @@ const processMessageContent = (message: string | undefined): string => {
 export default function ChatListScreen() {
   const [searchText, setSearchText] = useState("");
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const presence = useChatPresence();
+  const [messageResults, setMessageResults] = useState<IChatSearchResult[]>([]);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
   const { theme } = useTheme();
@@ -158,6 +164,8 @@ export default function ChatListScreen() {
     setLoading(true);
     try {
       const data = await getContactsAPI();
+      // Online state and unread counts as of now; chatHub keeps them current from here
+      signalRService.presence.applyContacts(Array.isArray(data) ? data : []);
       if (Array.isArray(data) && data.length > 0) {
         // Process data to mark messages as images or text
         const processedData = data.map(contact => {
@@ -208,6 +216,10 @@ export default function ChatListScreen() {
   useFocusEffect(
     React.useCallback(() => {
       fetchContacts();
+      // Presence, typing and new messages come over chatHub
+      signalRService.startConnection().catch((error) => {
+        console.error("Failed to connect to SignalR hub:", error);
+      });
       
       return () => {
         // Cleanup if needed
@@ -285,12 +297,8 @@ export default function ChatListScreen() {
       }
     };
 
-    signalRService.onMessageReceived(handleNewMessage);
-
-    // Cleanup function
-    return () => {
-      signalRService.offMessageReceived(handleNewMessage);
-    };
+    // The hub sends the contact fields along with the message; unsubscribed on cleanup
+    return signalRService.onMessageReceived((message) => handleNewMessage(message as Message));
   }, []);
 
   // Handle navigation to the chat page of a selected contact
@@ -326,6 +334,53 @@ export default function ChatListScreen() {
     );
   }, [contacts, searchText]);
 
+  // Search the conversations stored on the device, once typing pauses
+  useEffect(() => {
+    const query = searchText.trim();
+    if (!query) {
+      setMessageResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      chatHistoryStore
+        .search(query)
+        .then((results) => {
+          if (!cancelled) setMessageResults(results);
+        })
+        .catch((error) => console.error("Error searching messages:", error));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchText]);
+
+  // Name of the contact a search result belongs to, from the contact list when it's there
+  const getResultContactName = useCallback((result: IChatSearchResult) => {
+    const contact = contacts.find(c => c.contactId === result.contactId);
+    const fromContact = result.message.senderId === result.contactId;
+    return contact?.contactName
+      || (fromContact ? result.message.senderName : result.message.receiverName)
+      || `Contact ${result.contactId}`;
+  }, [contacts]);
+
+  // Open the conversation a search result belongs to
+  const handleMessageResultClick = useCallback((result: IChatSearchResult) => {
+    const contact = contacts.find(c => c.contactId === result.contactId);
+
+    router.push({
+      pathname: `/chat/[userId]`,
+      params: {
+        userId: String(result.contactId),
+        contactName: getResultContactName(result),
+        contactEmail: contact?.email || ''
+      }
+    });
+  }, [contacts, router, getResultContactName]);
+
   // Enhanced key extractor that won't fail
   const keyExtractor = useCallback((item: Contact, index: number) => {
     if (!item) return `contact-${index}-${Date.now()}`;
@@ -382,14 +437,19 @@ export default function ChatListScreen() {
     const cleanedMessage = processMessageContent(item.message);
     
     // Determine message display text
+    const { cards, isCard } = parseChatMessage(cleanedMessage);
     let messageDisplay = "No messages yet";
     if (item.isImage) {
       messageDisplay = "Sent a photo";
     } else if (cleanedMessage === "Contacts retrieved successfully") {
       messageDisplay = "New contact"; // Replace API message with user-friendly text
+    } else if (isCard) {
+      messageDisplay = `${CHAT_CARD_LABELS[cards[0].type]}: ${cards[0].title}`;
     } else if (cleanedMessage) {
       messageDisplay = cleanedMessage;
     }
+    const typing = item.contactId in presence.typing;
+    const unread = presence.unread[item.contactId] ?? 0;
     
     return (
       <TouchableOpacity
@@ -397,24 +457,75 @@ export default function ChatListScreen() {
         onPress={() => handleConversationClick(item)}
       >
         {/* Contact Avatar */}
-        <Image
-          source={item.avatar ? { uri: item.avatar } : require("@/assets/images/default-avatar.png")}
-          style={styles.avatar}
-        />
+        <View style={styles.avatarContainer}>
+          <Image
+            source={item.avatar ? { uri: item.avatar } : require("@/assets/images/default-avatar.png")}
+            style={styles.avatar}
+          />
+          {presence.online[item.contactId] && (
+            <View style={[styles.onlineDot, { borderColor: colors.card }]} testID={`contact-online-${item.contactId}`} />
+          )}
+        </View>
         <View style={styles.textContainer}>
           <Text style={[styles.contactName, { color: colors.text }]}>
             {item.contactName || `Contact ${item.contactId}`}
           </Text>
-          <Text style={[styles.lastMessage, { color: colors.icon }]} numberOfLines={1}>
-            {messageDisplay}
+          <Text
+            style={[
+              styles.lastMessage,
+              { color: typing ? colors.primary : unread > 0 ? colors.text : colors.icon },
+              unread > 0 && !typing && styles.unreadMessage,
+            ]}
+            numberOfLines={1}
+          >
+            {typing ? "typing…" : messageDisplay}
+          </Text>
+        </View>
+        <View style={styles.metaContainer}>
+          <Text style={[styles.timeText, { color: colors.icon }]}>
+            {formatTimeDisplay(item.lastMessageTime)}
           </Text>
+          {unread > 0 && (
+            <View style={[styles.unreadBadge, { backgroundColor: colors.primary }]} testID={`contact-unread-${item.contactId}`}>
+              <Text style={styles.unreadBadgeText}>{unread > 99 ? "99+" : unread}</Text>
+            </View>
+          )}
         </View>
-        <Text style={[styles.timeText, { color: colors.icon }]}>
-          {formatTimeDisplay(item.lastMessageTime)}
-        </Text>
       </TouchableOpacity>
     );
-  }, [colors, handleConversationClick, formatTimeDisplay]);
+  }, [colors, handleConversationClick, formatTimeDisplay, presence]);
+
+  // Matching messages below the matching contacts
+  const renderMessageResults = () => {
+    if (!searchText.trim() || messageResults.length === 0) return null;
+
+    return (
+      <View testID="chat-message-results">
+        <Text style={[styles.sectionTitle, { color: colors.textSecondary || "#999" }]}>Messages</Text>
+        {messageResults.map((result) => {
+          const fromContact = result.message.senderId === result.contactId;
+
+          return (
+            <TouchableOpacity
+              key={`${result.contactId}-${result.message.id}`}
+              style={[styles.contactContainer, { backgroundColor: colors.card }]}
+              onPress={() => handleMessageResultClick(result)}
+            >
+              <View style={styles.textContainer}>
+                <Text style={[styles.contactName, { color: colors.text }]}>{getResultContactName(result)}</Text>
+                <Text style={[styles.lastMessage, { color: colors.icon }]} numberOfLines={2}>
+                  {fromContact ? result.snippet : `You: ${result.snippet}`}
+                </Text>
+              </View>
+              <Text style={[styles.timeText, { color: colors.icon }]}>
+                {formatTimeDisplay(result.message.sentTime)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -422,7 +533,7 @@ export default function ChatListScreen() {
       <View style={styles.searchContainer}>
         <TextInput
           style={[styles.searchInput, { backgroundColor: colors.card, color: colors.text }]}
-          placeholder="Search by Receiver Name"
+          placeholder="Search contacts and messages"
           placeholderTextColor={colors.inputPlaceholder}
           value={searchText}
           onChangeText={(text) => {
@@ -442,11 +553,11 @@ export default function ChatListScreen() {
           <ActivityIndicator size="large" color="#5fc1f1" />
           <Text style={[styles.messageText, { color: colors.text }]}>Loading conversations...</Text>
         </View>
-      ) : filteredContacts.length === 0 && searchText !== "" ? (
+      ) : filteredContacts.length === 0 && messageResults.length === 0 && searchText !== "" ? (
         <View style={styles.centerContent}>
-          <Text style={[styles.messageText, { color: colors.text }]}>No contacts found</Text>
+          <Text style={[styles.messageText, { color: colors.text }]}>No contacts or messages found</Text>
         </View>
-      ) : filteredContacts.length === 0 ? (
+      ) : filteredContacts.length === 0 && searchText === "" ? (
         <View style={styles.centerContent}>
           <Text style={[styles.messageText, { color: colors.text }]}>
             You don't have any conversations yet
@@ -468,12 +579,13 @@ export default function ChatListScreen() {
           keyExtractor={keyExtractor}
           renderItem={renderContactItem}
           style={styles.contactsList}
+          ListFooterComponent={renderMessageResults()}
           // Handle empty data gracefully
-          ListEmptyComponent={
+          ListEmptyComponent={messageResults.length === 0 ? (
             <View style={styles.centerContent}>
               <Text style={[styles.messageText, { color: colors.text }]}>No conversations found</Text>
             </View>
-          }
+          ) : null}
         />
       )}
     </View>
@@ -501,6 +613,13 @@ const styles = StyleSheet.create({
   contactsList: {
     flex: 1,
   },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginTop: 10,
+    marginBottom: 8,
+  },
   contactContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -512,11 +631,23 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     borderRadius: 12,
   },
+  avatarContainer: {
+    marginRight: 15,
+  },
   avatar: {
     width: 50,
     height: 50,
     borderRadius: 25,
-    marginRight: 15,
+  },
+  onlineDot: {
+    position: "absolute",
+    right: 1,
+    bottom: 1,
+    width: 13,
+    height: 13,
+    borderRadius: 7,
+    borderWidth: 2,
+    backgroundColor: "#34C759",
   },
   textContainer: {
     flex: 1,
@@ -529,10 +660,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 3,
   },
+  unreadMessage: {
+    fontWeight: "600",
+  },
+  metaContainer: {
+    alignItems: "flex-end",
+    alignSelf: "stretch",
+    justifyContent: "space-between",
+    paddingLeft: 10,
+  },
   timeText: {
     fontSize: 12,
-    paddingLeft: 10,
-    alignSelf: "flex-end",
+  },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 6,
+  },
+  unreadBadgeText: {
+    color: "#fff",
+    fontSize: 11,
+    fontWeight: "700",
   },
   centerContent: {
     flex: 1,
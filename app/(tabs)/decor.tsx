@@ -1,9 +1,8 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { 
   View, 
   Text, 
   ActivityIndicator, 
-  FlatList, 
   StyleSheet, 
   TouchableOpacity, 
   Image,
@@ -12,16 +11,32 @@ import {
   TextInput,
   StatusBar,
   ScrollView,
-  RefreshControl,
-  Modal
+  Modal,
+  Share
 } from "react-native";
-import { useRouter, useFocusEffect } from "expo-router";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import * as Linking from "expo-linking";
 import { 
-  getDecorServicesAPI, 
   searchDecorServicesAPI, 
   IDecor
 } from "@/utils/decorserviceAPI";
 import { getSeasonsAPI } from "@/utils/seasonAPI";
+import {
+  DecorSearchFilters,
+  DEFAULT_DECOR_FILTERS,
+  applyDecorFilters,
+  countActiveDecorFilters,
+  hasServerSideFilters,
+  parseDecorFilters,
+  serializeDecorFilters,
+  toDecorSearchParams,
+  toDecorShareParams,
+} from "@/utils/decorSearch";
+import { suggestUpcomingSeasons } from "@/utils/seasonalHolidays";
+import { useFavoriteServices } from "@/hooks/useFavoriteQueries";
+import { flattenPages, useInfiniteDecorServices } from "@/hooks/useCatalogQueries";
+import DecorFilterSheet from "@/components/DecorFilterSheet";
+import InfiniteList from "@/components/InfiniteList";
 import Ionicons from "react-native-vector-icons/Ionicons";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
@@ -76,20 +91,61 @@ const getSeasonServiceCount = (seasonName: string, decorServices: IDecor[]): num
 };
 
 const DecorListScreen = () => {
-  const [decorServices, setDecorServices] = useState<IDecor[]>([]);
-  const [filteredServices, setFilteredServices] = useState<IDecor[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [searchResults, setSearchResults] = useState<IDecor[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [searching, setSearching] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [selectedSeason, setSelectedSeason] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [searchInputText, setSearchInputText] = useState("");
   const [seasons, setSeasons] = useState<ApiSeason[]>([]);
   const [loadingSeasons, setLoadingSeasons] = useState(true);
   const [seasonDropdownVisible, setSeasonDropdownVisible] = useState(false);
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
   
   const router = useRouter();
+  const params = useLocalSearchParams();
+
+  // Filters are restored from the route so shared links open the same search
+  const [filters, setFilters] = useState<DecorSearchFilters>(() => parseDecorFilters(params));
+  const [searchInputText, setSearchInputText] = useState(filters.query);
+  const lastRouteParams = useRef<string | null>(null);
+
+  const selectedSeason = filters.season;
+  const searchQuery = filters.query;
+  const activeFilterCount = countActiveDecorFilters(filters);
+
+  const setSelectedSeason = (season: string | null) => {
+    setFilters(current => ({ ...current, season }));
+  };
+
+  const setSearchQuery = (query: string) => {
+    setFilters(current => ({ ...current, query }));
+  };
+
+  const favoriteServicesQuery = useFavoriteServices(filters.favoritesOnly);
+  const favoriteServiceIds = useMemo(() => {
+    const ids = (favoriteServicesQuery.data ?? [])
+      .map((item: any) => item?.decorServiceDetails?.id ?? item?.decorService?.id ?? item?.decorServiceId)
+      .filter((id: any): id is number => typeof id === 'number');
+    return new Set<number>(ids);
+  }, [favoriteServicesQuery.data]);
+
+  // Browsing pages through the whole catalogue; narrowing filters switch to the search endpoint
+  const isBrowsing = !hasServerSideFilters(filters);
+  const decorPages = useInfiniteDecorServices({ sortBy: toDecorSearchParams(filters).sortBy }, isBrowsing);
+  const decorServices = useMemo(() => flattenPages(decorPages.data), [decorPages.data]);
+
+  const filteredServices = isBrowsing
+    ? applyDecorFilters(decorServices, filters, favoriteServiceIds)
+    : searchResults;
+  const loading = isBrowsing && decorPages.isLoading;
+  const error = isBrowsing && decorPages.error ? decorPages.error.message || "Failed to fetch decor services." : null;
+
+  // Next holiday whose booking window is open, when the catalogue has services for it
+  const seasonSuggestion = useMemo(() => {
+    if (selectedSeason) return null;
+    const seasonNames = seasons
+      .map(season => season.seasonName)
+      .filter(name => getSeasonServiceCount(name, decorServices) > 0);
+    return suggestUpcomingSeasons(seasonNames)[0] ?? null;
+  }, [selectedSeason, seasons, decorServices]);
 
   const { theme } = useTheme();
   const validTheme = theme as "light" | "dark";
@@ -132,33 +188,31 @@ const DecorListScreen = () => {
 
   // Initial load
   useEffect(() => {
-    fetchDecorServices();
     fetchSeasons();
   }, []);
 
-  // Refresh when screen is focused
-  useFocusEffect(
-    useCallback(() => {
-      // Only refresh if the screen has been out of focus for a while
-      // or if we haven't loaded data yet
-      const shouldRefresh = decorServices.length === 0;
-      
-      if (shouldRefresh) {
-        fetchDecorServices();
-      }
-      
-      return () => {
-        // Cleanup if needed
-      };
-    }, [decorServices.length])
-  );
+  // Keep the route query in sync so the current search can be shared or restored
+  useEffect(() => {
+    const routeParams = serializeDecorFilters(filters);
+    lastRouteParams.current = JSON.stringify(toDecorShareParams(filters));
+    router.setParams(routeParams);
+  }, [filters]);
+
+  // A link opened while the tab is mounted (e.g. a shared search) replaces the current filters
+  useEffect(() => {
+    const incoming = parseDecorFilters(params);
+    if (JSON.stringify(toDecorShareParams(incoming)) === lastRouteParams.current) return;
+
+    setFilters(incoming);
+    setSearchInputText(incoming.query);
+  }, [JSON.stringify(params)]);
 
-  // Apply filters whenever selectedSeason or searchQuery changes
+  // Re-run the search whenever the filters change
   useEffect(() => {
-    if (decorServices.length > 0) {
+    if (!isBrowsing) {
       filterServices();
     }
-  }, [selectedSeason, searchQuery]);
+  }, [filters, favoriteServiceIds]);
 
   // Debounced search function with longer delay
   const debouncedSearch = useCallback(
@@ -176,10 +230,32 @@ const DecorListScreen = () => {
 
   // Clear search
   const clearSearch = () => {
+    debouncedSearch.cancel();
     setSearchInputText("");
     setSearchQuery("");
   };
 
+  const resetFilters = () => {
+    debouncedSearch.cancel();
+    setSearchInputText("");
+    setFilters(DEFAULT_DECOR_FILTERS);
+  };
+
+  const handleApplyFilters = (next: DecorSearchFilters) => {
+    setFilters(next);
+    setFilterSheetVisible(false);
+  };
+
+  // Share the current search as a deep link into this tab
+  const handleShareSearch = async () => {
+    const url = Linking.createURL('/decor', { queryParams: toDecorShareParams(filters) });
+    try {
+      await Share.share({ message: url, url });
+    } catch (err) {
+      console.error("Error sharing search:", err);
+    }
+  };
+
   // Fetch all seasons from API
   const fetchSeasons = async () => {
     try {
@@ -200,78 +276,30 @@ const DecorListScreen = () => {
     }
   };
 
-  const fetchDecorServices = async () => {
+  // Handler for pull-to-refresh
+  const onRefresh = async () => {
+    setRefreshing(true);
     try {
-      if (!refreshing) {
-        setLoading(true);
-      }
-      setError(null);
-      
-      // Add a small delay to make the refresh animation more visible
-      if (refreshing) {
-        await new Promise(resolve => setTimeout(resolve, 800));
-      }
-      
-      const data = await getDecorServicesAPI();
-      
-      if (Array.isArray(data)) {
-        setDecorServices(data);
-        setFilteredServices(data);
+      if (isBrowsing) {
+        await decorPages.refetch();
       } else {
-        setError("Invalid data format received.");
+        await filterServices();
       }
-    } catch (err: any) {
-      setError(err.message || "Failed to fetch decor services.");
     } finally {
-      setLoading(false);
       setRefreshing(false);
     }
   };
 
-  // Handler for pull-to-refresh
-  const onRefresh = useCallback(() => {
-    setRefreshing(true);
-    fetchDecorServices();
-  }, []);
-
-  // API-based filtering
+  // API-based filtering; price, rating, province and provider are re-checked locally
+  // because older backends ignore those search parameters
   const filterServices = async () => {
     try {
-      // Determine if we should use search API
-      const hasFilters = selectedSeason || searchQuery.trim().length > 0;
-      
-      if (hasFilters) {
-        setSearching(true);
-        
-        // Prepare search parameters
-        const searchParams: {
-          style?: string;
-          sublocation?: string;
-          categoryName?: string;
-          seasonNames?: string[];
-        } = {};
-        
-        // Add search query to style parameter if present
-        if (searchQuery.trim()) {
-          searchParams.style = searchQuery.trim();
-        }
-        
-        // Add selected season if present
-        if (selectedSeason) {
-          searchParams.seasonNames = [selectedSeason];
-        }
-        
-        // Call the search API with our parameters
-        const results = await searchDecorServicesAPI(searchParams);
-        
-        setFilteredServices(results);
-      } else {
-        // No filters active, show all services
-        setFilteredServices(decorServices);
-      }
+      setSearching(true);
+      const results = await searchDecorServicesAPI(toDecorSearchParams(filters));
+      setSearchResults(applyDecorFilters(results, filters, favoriteServiceIds));
     } catch (err: any) {
-      // Don't show error to user, just fallback to showing all services
-      setFilteredServices(decorServices);
+      // Don't show error to user, just fallback to filtering the loaded services locally
+      setSearchResults(applyDecorFilters(decorServices, filters, favoriteServiceIds));
     } finally {
       setSearching(false);
     }
@@ -487,16 +515,13 @@ const DecorListScreen = () => {
       </Text>
       <Text style={[styles.emptyText, { color: colors.textSecondary || '#666' }]}>
         {selectedSeason 
-          ? `No decor services available for "${selectedSeason}"${searchQuery ? ' matching your search' : ''}` 
+          ? `No decor services available for "${selectedSeason}"${searchQuery || activeFilterCount > 0 ? ' matching your filters' : ''}` 
           : "No decor services match your search criteria"}
       </Text>
       <View style={styles.emptyActionButtons}>
         <TouchableOpacity 
           style={[styles.resetButton, { backgroundColor: PRIMARY_COLOR }]}
-          onPress={() => {
-            setSelectedSeason(null);
-            clearSearch();
-          }}
+          onPress={resetFilters}
         >
           <Text style={styles.resetButtonText}>Reset Filters</Text>
         </TouchableOpacity>
@@ -540,10 +565,13 @@ const DecorListScreen = () => {
       <StatusBar barStyle={validTheme === 'dark' ? 'light-content' : 'dark-content'} />
       
       {/* Header */}
-      <View style={styles.header}>
+      <View style={[styles.header, styles.headerRow]}>
         <Text style={[styles.headerTitle, { color: colors.text }]}>
           <Ionicons name="brush-outline" size={24} color={PRIMARY_COLOR} /> Decor Services
         </Text>
+        <TouchableOpacity onPress={handleShareSearch} testID="share-search-button">
+          <Ionicons name="share-social-outline" size={22} color={PRIMARY_COLOR} />
+        </TouchableOpacity>
       </View>
       
       {/* Search Bar and Season Filter */}
@@ -572,7 +600,49 @@ const DecorListScreen = () => {
 
         {/* Season Dropdown */}
         <SeasonDropdown />
+
+        {/* Filter sheet toggle */}
+        <TouchableOpacity 
+          style={[styles.filterButton, { backgroundColor: colors.card }]}
+          onPress={() => setFilterSheetVisible(true)}
+          testID="filter-button"
+        >
+          <Ionicons name="options-outline" size={20} color={PRIMARY_COLOR} />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
       </View>
+
+      <DecorFilterSheet
+        isVisible={filterSheetVisible}
+        filters={filters}
+        onClose={() => setFilterSheetVisible(false)}
+        onApply={handleApplyFilters}
+      />
+
+      {/* Upcoming season suggestion */}
+      {seasonSuggestion && (
+        <TouchableOpacity
+          style={[styles.seasonSuggestion, { backgroundColor: `${PRIMARY_COLOR}15` }]}
+          onPress={() => setSelectedSeason(seasonSuggestion.seasonName)}
+          testID="season-suggestion"
+        >
+          <Ionicons name={getSeasonIcon(seasonSuggestion.seasonName) as any} size={20} color={PRIMARY_COLOR} />
+          <View style={styles.seasonSuggestionTextContainer}>
+            <Text style={[styles.seasonSuggestionTitle, { color: colors.text }]}>
+              {seasonSuggestion.holiday.localName}{' '}
+              {seasonSuggestion.daysUntil === 0 ? 'is today' : `in ${seasonSuggestion.daysUntil} day${seasonSuggestion.daysUntil === 1 ? '' : 's'}`}
+            </Text>
+            <Text style={[styles.seasonSuggestionSubtitle, { color: colors.textSecondary || '#666' }]}>
+              Browse {seasonSuggestion.seasonName} decor services
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color={PRIMARY_COLOR} />
+        </TouchableOpacity>
+      )}
       
       {/* Search Status Indicator */}
       {searching && (
@@ -596,34 +666,28 @@ const DecorListScreen = () => {
           <Text style={styles.errorText}>{error}</Text>
           <TouchableOpacity 
             style={[styles.retryButton, { backgroundColor: PRIMARY_COLOR }]}
-            onPress={fetchDecorServices}
+            onPress={() => decorPages.refetch()}
             testID="retry-button"
           >
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
       ) : (
-        <FlatList
+        <InfiniteList
           data={filteredServices}
           keyExtractor={(item) => item.id.toString()}
           renderItem={renderDecorCard}
-          ListEmptyComponent={EmptyState}
+          ListEmptyComponent={searching || decorPages.isFetching ? null : EmptyState}
           numColumns={2}
           columnWrapperStyle={styles.row}
           contentContainerStyle={styles.list}
           showsVerticalScrollIndicator={false}
-          refreshControl={
-            <RefreshControl
-              refreshing={refreshing}
-              onRefresh={onRefresh}
-              colors={[PRIMARY_COLOR]}
-              tintColor={PRIMARY_COLOR}
-              title="Pull down to refresh..."
-              titleColor={colors.textSecondary || '#666'}
-              testID="refresh-control"
-            />
-          }
-          onEndReachedThreshold={0.5}
+          hasNextPage={isBrowsing && decorPages.hasNextPage}
+          isFetchingNextPage={decorPages.isFetchingNextPage}
+          fetchNextPage={decorPages.fetchNextPage}
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          restoreKey={`decor:${JSON.stringify(toDecorShareParams(filters))}`}
           testID="decor-list"
         />
       )}
@@ -639,6 +703,32 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 12,
   },
+  seasonSuggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  seasonSuggestionTextContainer: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  seasonSuggestionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  seasonSuggestionSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -665,7 +755,29 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
   },
   dropdownContainer: {
-    width: '35%',
+    width: '32%',
+  },
+  filterButton: {
+    marginLeft: 8,
+    padding: 9,
+    borderRadius: 8,
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#FF4D4F',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
   },
   dropdownButton: {
     flexDirection: 'row',
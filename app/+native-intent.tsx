@@ -0,0 +1,10 @@
+import deepLinks from '@/services/DeepLinkService';
+
+// Every link opened from outside the app (emails, payment returns, shared links) goes
+// through the deep link registry before expo-router sees it
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  return deepLinks.redirectSystemPath(path).catch((error) => {
+    console.error('🔴 Error resolving deep link:', error);
+    return path;
+  });
+}
@@ -22,9 +22,18 @@ import { useFonts } from "expo-font";
 import { usePathname } from "expo-router";
 import React from "react";
 import { CartProvider, useCart } from "@/constants/CartContext";
-import { setCartDebugLogging } from '@/services/CartService';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { queryClient, setupQueryClientListeners } from '@/hooks/queryClient';
+import offlineQueue from '@/services/OfflineQueueService';
+import { loadApiProfileOverride } from '@/config/apiConfig';
 import * as Linking from 'expo-linking';
+import { resolveDeepLink } from '@/utils/deepLinks';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { filterVisibleNotifications } from '@/utils/notificationPreferences';
 import { NotificationProvider, useNotificationContext } from '@/services/NotificationHubContext';
+import { useBookingReminders } from '@/hooks/useBookingReminders';
+import { getToken } from '@/services/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 SplashScreen.preventAutoHideAsync();
@@ -39,110 +48,48 @@ const getUserId = async (): Promise<string | null> => {
   }
 };
 
-// Improved DeepLinkHandler component that combines functionality from both files
+// Navigation for incoming links happens in app/+native-intent.tsx through the deep link
+// registry; this only reports the outcome of contract signing on top of the Bookings screen
 function DeepLinkHandler() {
-  const router = useRouter();
-
   useEffect(() => {
-    
-    // Test URL to see if app can handle it
-    Linking.canOpenURL('com.baymaxphan.seasondecormobileapp://signature_success?token=test');
-     
-    // Handle initial URL (app opened from link)
-    const handleInitialURL = async () => {
-      try {
-        const initialURL = await Linking.getInitialURL();
-        if (initialURL) {
-          processURL(initialURL);
-        }
-      } catch (error) {
-      }
-    };
-
-    // Handle URLs when app is already open
-    const handleURLEvent = (event: { url: string }) => {
-      processURL(event.url);
-    };
+    const processURL = (url: string | null) => {
+      const match = url ? resolveDeepLink(url) : null;
+      if (match?.name !== 'signatureResult') return;
 
-    // Process deep link URLs
-    const processURL = (url: string) => {
-      if (!url) return;
-      
-      try {
-        // Parse the URL
-        const parsedURL = Linking.parse(url);
-        
-        // Check for signature_success in any part of the URL
-        if (url.includes('signature_success')) {
-          
-          // Check if this is a verification request with a token
-          if (parsedURL.queryParams?.token) {
-            // Token from email
-            const token = parsedURL.queryParams.token;
-            
-            // Navigate to signature screen with a small delay to ensure navigation works
-            setTimeout(() => {
-              router.replace({
-                pathname: '/signature_success',
-                params: { token }
-              });
-            }, 500);
-          } 
-          // Check if this is a return from verification
-          else if (parsedURL.queryParams?.verified || parsedURL.queryParams?.success) {
-            // Result from verification page
-            const success = parsedURL.queryParams?.success === 'true' || parsedURL.queryParams?.verified === 'true';
-            const contractCode = parsedURL.queryParams?.contractCode as string;
-            const error = parsedURL.queryParams?.error as string;
-            
-            // Show result alert
-            if (success) {
-              Alert.alert(
-                'Verification Successful',
-                'Your contract has been successfully signed.',
-                [
-                  {
-                    text: 'OK',
-                    onPress: () => {
-                      // Navigate to bookings
-                      router.push('/screens/Bookings');
-                    }
-                  }
-                ]
-              );
-            } else {
-              Alert.alert(
-                'Verification Failed',
-                error || 'There was an issue with verification.',
-                [
-                  {
-                    text: 'OK',
-                    onPress: () => {
-                      // Navigate home
-                      router.push('/');
-                    }
-                  }
-                ]
-              );
-            }
-          }
-        }
-      } catch (error) {
+      if (match.params.success === 'true') {
+        Alert.alert('Verification Successful', 'Your contract has been successfully signed.');
+      } else {
+        Alert.alert('Verification Failed', match.params.error || 'There was an issue with verification.');
       }
     };
 
-    // Set up deep link handlers
-    handleInitialURL();
-    const subscription = Linking.addEventListener('url', handleURLEvent);
+    Linking.getInitialURL().then(processURL).catch(() => {});
+    const subscription = Linking.addEventListener('url', (event) => processURL(event.url));
 
     return () => {
       subscription.remove();
     };
-  }, [router]);
+  }, []);
 
   return null; // This component doesn't render anything
 }
 
+// Schedules local survey / payment / review reminders while a customer is logged in.
+// Login state is re-checked on navigation, since login and logout both change screens.
+function BookingReminderSync() {
+  const pathname = usePathname();
+  const [loggedIn, setLoggedIn] = useState(false);
+
+  useEffect(() => {
+    getToken()
+      .then((token) => setLoggedIn(!!token))
+      .catch(() => setLoggedIn(false));
+  }, [pathname]);
+
+  useBookingReminders(loggedIn);
+  return null;
+}
+
 // NotificationInitializer component to handle notification connections
 // Enhanced NotificationInitializer component with better connection management
 function NotificationInitializer() {
@@ -307,24 +254,47 @@ function NotificationInitializer() {
 
 export default function RootLayout() {
   const router = useRouter();
+  // Debug builds may point at another backend (developer menu); resolve it before the first request
+  const [apiProfileReady, setApiProfileReady] = useState(!__DEV__);
+
+  useEffect(() => {
+    if (apiProfileReady) return;
+    loadApiProfileOverride().finally(() => setApiProfileReady(true));
+  }, []);
   
-  // Turn off debug logging for CartService
+  // Refetch stale queries when the app is foregrounded or reconnects
   useEffect(() => {
-    setCartDebugLogging(false);
+    setupQueryClientListeners();
   }, []);
 
+  // Load the offline outbox and replay anything queued in a previous session
+  useEffect(() => {
+    if (!apiProfileReady) return;
+    offlineQueue.init();
+  }, [apiProfileReady]);
+
+  if (!apiProfileReady) {
+    return null;
+  }
+
   return (
-    <ThemeProvider>
-      <CartProvider>
-        <NotificationProvider>
-          {/* Add the notification initializer */}
-          <NotificationInitializer />
-          {/* Add the improved DeepLinkHandler component */}
-          <DeepLinkHandler />
-          <ThemedStack />
-        </NotificationProvider>
-      </CartProvider>
-    </ThemeProvider>
+    // Needed by swipeable rows (notifications)
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <QueryClientProvider client={queryClient}>
+        <ThemeProvider>
+          <CartProvider>
+            <NotificationProvider>
+              {/* Add the notification initializer */}
+              <NotificationInitializer />
+              {/* Add the improved DeepLinkHandler component */}
+              <DeepLinkHandler />
+              <BookingReminderSync />
+              <ThemedStack />
+            </NotificationProvider>
+          </CartProvider>
+        </ThemeProvider>
+      </QueryClientProvider>
+    </GestureHandlerRootView>
   );
 }
 
@@ -334,6 +304,7 @@ function ThemedStack() {
   const pathname = usePathname();
   const { cartItemCount, refreshCartCount } = useCart();
   const { unreadNotifications, connect, isConnected } = useNotificationContext();
+  const { preferences: notificationPreferences } = useNotificationPreferences();
   const [refreshing, setRefreshing] = useState(false);
   
   // Track app state changes with ref to avoid unnecessary re-renders
@@ -387,10 +358,15 @@ function ThemedStack() {
     "/screens/Reviews",
     "/screens/Bookings",
     "/screens/Favorites",
+    "/screens/DeveloperMenu",
+    "/screens/SurveyDrafts",
+    "/screens/NotificationSettings",
     "/booking/tracking-view",
     "/booking/rate-booking",
     "/quotation/quotation-detail/[code]",
     "/quotation/list",
+    "/quotation/revisions/[code]",
+    "/quotation/compare",
     "/booking/[id]",
     "/booking/survey-form",
     "/booking/review",
@@ -400,7 +376,7 @@ function ThemedStack() {
     "/booking/cancel-request",
     "/screens/review/product-review",
     "/support/[id]",
-  ].includes(pathname) || pathname.includes("/quotation/quotation-detail/") || pathname.includes("/quotation/contract/");
+  ].includes(pathname) || pathname.includes("/quotation/quotation-detail/") || pathname.includes("/quotation/contract/") || pathname.includes("/quotation/revisions/");
 
   // Only enable pull-to-refresh on specific screens
   const enablePullToRefresh = [
@@ -479,8 +455,10 @@ function ThemedStack() {
     router.push("/");
   };
 
-  // Calculate notification count
-  const notificationCount = unreadNotifications ? unreadNotifications.length : 0;
+  // Calculate notification count, leaving out muted types
+  const notificationCount = unreadNotifications
+    ? filterVisibleNotifications(notificationPreferences, unreadNotifications).length
+    : 0;
 
   return (
     <View style={{ flex: 1, backgroundColor: theme === "dark" ? "#151718" : "#ffffff" }}>
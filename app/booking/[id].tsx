@@ -19,6 +19,17 @@ import { Colors } from "@/constants/Colors";
 import { getAddressesAPI, IAddress } from "@/utils/AddressAPI";
 import { getToken } from "@/services/auth";
 import CalendarPicker from "@/components/CalendarPicker";
+import TimePicker from "@/components/ui/TimePicker";
+import { useServiceAvailability } from "@/hooks/useBookingQueries";
+import calendarExport from "@/services/CalendarExportService";
+import { BookingStatus } from "@/utils/bookingStatus";
+import {
+  DAY_STATUS_LABELS,
+  getDayAvailability,
+  getTimeSlots,
+  isDaySelectable,
+  toDateKey,
+} from "@/utils/surveyAvailability";
 import { initApiClient } from "@/config/axiosConfig";
 
 // Get screen dimensions for responsive design
@@ -79,6 +90,9 @@ const BookingScreen = () => {
     return tomorrow;
   });
   const [showDatePicker, setShowDatePicker] = useState(false);
+  // Survey start time ("HH:mm") picked from the provider's free slots
+  const [surveyTime, setSurveyTime] = useState<string | null>(null);
+  const [showTimePicker, setShowTimePicker] = useState(false);
   const [loading, setLoading] = useState(false);
   const [quickBookingLoading, setQuickBookingLoading] = useState(false);
   const [addressesRefreshKey, setAddressesRefreshKey] = useState(0);
@@ -93,6 +107,15 @@ const BookingScreen = () => {
     return tomorrow;
   })();
 
+  // Availability covers the next four months of survey dates
+  const availabilityFrom = toDateKey(minDate);
+  const availabilityTo = toDateKey(new Date(minDate.getFullYear(), minDate.getMonth() + 4, minDate.getDate()));
+  const availabilityQuery = useServiceAvailability(Number(serviceId) || undefined, availabilityFrom, availabilityTo);
+  const availabilitySource = { availability: availabilityQuery.data };
+  // Without the provider's slots any survey time can be suggested
+  const availabilityKnown = !!availabilityQuery.data;
+  const surveyDayInfo = getDayAvailability(surveyDate, availabilitySource, minDate);
+
   // Format date with text month (e.g., "May 7, 2025")
   const formatDateWithTextMonth = (date: Date) => {
     const options: Intl.DateTimeFormatOptions = { 
@@ -260,11 +283,23 @@ const BookingScreen = () => {
         0, 0, 0, 0
       );
       setSurveyDate(normalizedDate);
+
+      // Keep the time only if that slot is still free on the new day
+      const { freeSlots } = getDayAvailability(normalizedDate, availabilitySource, minDate);
+      if (surveyTime && availabilityKnown && !freeSlots.includes(surveyTime)) {
+        setSurveyTime(null);
+      }
     }
     
     setShowDatePicker(false);
   };
 
+  const onTimeChange = (time: Date) => {
+    setSurveyTime(`${String(time.getHours()).padStart(2, '0')}:${String(time.getMinutes()).padStart(2, '0')}`);
+    setError(null);
+    setShowTimePicker(false);
+  };
+
   // Save service info when navigating to address screen
   const handleSelectAddress = () => {
     setError(null);
@@ -325,11 +360,26 @@ const BookingScreen = () => {
       return null;
     }
 
+    // Dates the provider would reject anyway
+    if (!isDaySelectable(surveyDayInfo)) {
+      setError(`${surveyDayInfo.holiday || DAY_STATUS_LABELS[surveyDayInfo.status]} on this day. Please choose another survey date.`);
+      return null;
+    }
+
+    // The survey time is optional, but a chosen one must still be free
+    if (surveyTime && availabilityKnown && !surveyDayInfo.freeSlots.includes(surveyTime)) {
+      setError("That survey time is already taken. Please choose another free slot or leave it empty.");
+      return null;
+    }
+
+    // The backend only takes the survey date; the preferred time goes to the provider in the note
+    const bookingNote = [surveyTime && `Preferred survey time: ${surveyTime}`, note.trim()].filter(Boolean).join("\n");
+
     return {
       decorServiceId: Number(currentServiceId),
       addressId: Number(selectedAddress),
       surveyDate: formatDateForAPI(surveyDate),
-      note: note.trim() || undefined,
+      note: bookingNote || undefined,
       serviceName: serviceName,
       selectedAddressDetails: getSelectedAddressObject()
     };
@@ -357,11 +407,52 @@ const BookingScreen = () => {
         addressId: bookingData.addressId.toString(),
         surveyDate: bookingData.surveyDate,
         serviceName: serviceName,
-        note: note || ""
+        note: bookingData.note || ""
       }
     });
   };
 
+  // Share the new booking's survey date as an .ics file, e.g. for a family calendar
+  const handleAddSurveyToCalendar = async (bookingCode?: string) => {
+    const date = surveyTime ? `${formatDateForAPI(surveyDate)}T${surveyTime}:00` : formatDateForAPI(surveyDate);
+    const address = getSelectedAddressObject();
+
+    try {
+      await calendarExport.shareBookings(
+        [
+          {
+            bookingCode: bookingCode || `SURVEY-${date}`,
+            status: BookingStatus.Pending,
+            surveyDate: date,
+            address: address ? formatAddress(address) : undefined,
+            decorService: { style: serviceName },
+          },
+        ],
+        `survey-${bookingCode || formatDateForAPI(surveyDate)}`
+      );
+    } catch (error: any) {
+      Alert.alert("Calendar Export Failed", error?.message || "Could not export the survey date.");
+    }
+    router.replace('/screens/Bookings');
+  };
+
+  const showBookingSuccess = (bookingCode?: string) => {
+    Alert.alert(
+      "🎉 Booking Successful!", 
+      `Your booking has been confirmed!\n\n• Service: ${serviceName}\n• Date: ${formatDateWithTextMonth(surveyDate)}\n• Quick booking completed\n\nOur team will contact you within 24 hours to confirm details.`,
+      [
+        {
+          text: "Add to Calendar",
+          onPress: () => handleAddSurveyToCalendar(bookingCode)
+        },
+        {
+          text: "View My Bookings",
+          onPress: () => router.replace('/screens/Bookings')
+        }
+      ]
+    );
+  };
+
   // Quick booking without detailed survey - direct API call
   const handleQuickBooking = async () => {
     setError(null);
@@ -403,16 +494,7 @@ const BookingScreen = () => {
         if (apiResponse && apiResponse.success) {
           console.log('✅ Success with createBookingAPI');
           
-          Alert.alert(
-            "🎉 Booking Successful!", 
-            `Your booking has been confirmed!\n\n• Service: ${serviceName}\n• Date: ${formatDateWithTextMonth(surveyDate)}\n• Quick booking completed\n\nOur team will contact you within 24 hours to confirm details.`,
-            [
-              {
-                text: "View My Bookings",
-                onPress: () => router.replace('/screens/Bookings')
-              }
-            ]
-          );
+          showBookingSuccess(apiResponse.data?.bookingCode);
           return; // Exit successfully
         }
       } catch (apiError) {
@@ -478,16 +560,7 @@ const BookingScreen = () => {
       if (response.ok) {
         console.log('🎉 Quick booking successful!');
         
-        Alert.alert(
-          "🎉 Booking Successful!", 
-          `Your booking has been confirmed!\n\n• Service: ${serviceName}\n• Date: ${formatDateWithTextMonth(surveyDate)}\n• Quick booking completed\n\nOur team will contact you within 24 hours to confirm details.`,
-          [
-            {
-              text: "View My Bookings",
-              onPress: () => router.replace('/screens/Bookings')
-            }
-          ]
-        );
+        showBookingSuccess(result?.data?.bookingCode);
       } else {
         const errorMessage = result?.title || result?.errors || "Booking failed. Please try again.";
         console.error("❌ Quick booking API error:", result);
@@ -730,7 +803,64 @@ const BookingScreen = () => {
                   isVisible={showDatePicker}
                   onClose={() => setShowDatePicker(false)}
                   minDate={minDate}
+                  availability={availabilitySource}
+                  availabilityLoading={availabilityQuery.isLoading}
+                  showLunar
                 />
+
+                {/* Free slots / why the day can't be booked */}
+                <Text style={[
+                  styles.availabilityText,
+                  { color: isDaySelectable(surveyDayInfo) ? colors.textSecondary : colors.error }
+                ]}>
+                  {!isDaySelectable(surveyDayInfo)
+                    ? surveyDayInfo.holiday || DAY_STATUS_LABELS[surveyDayInfo.status]
+                    : availabilityKnown
+                      ? `${surveyDayInfo.freeSlots.length} of ${surveyDayInfo.totalSlots} survey slots free`
+                      : "The provider will confirm the survey time"}
+                </Text>
+              </View>
+
+              {/* Survey Time */}
+              <View style={styles.formGroup}>
+                <Text style={[styles.label, { color: colors.text }]}>
+                  <Ionicons name="time-outline" size={18} color={colors.primary} /> 
+                  {" "}Survey Time (optional)
+                </Text>
+                <TouchableOpacity 
+                  style={[styles.dateInput, { 
+                    borderColor: colors.border,
+                    backgroundColor: `${colors.primary}10`,
+                  }]}
+                  onPress={() => setShowTimePicker(true)}
+                  disabled={!isDaySelectable(surveyDayInfo)}
+                >
+                  <Ionicons 
+                    name="time" 
+                    size={20} 
+                    color={colors.primary} 
+                    style={styles.inputIcon}
+                  />
+                  <Text style={[styles.dateText, { color: surveyTime ? colors.text : colors.textSecondary }]}>
+                    {surveyTime || (availabilityKnown ? "Choose a time slot" : "Any time")}
+                  </Text>
+                  <Ionicons 
+                    name="chevron-down" 
+                    size={20} 
+                    color={colors.primary} 
+                  />
+                </TouchableOpacity>
+
+                {showTimePicker && (
+                  <TimePicker
+                    visible
+                    title="Survey time"
+                    slots={availabilityKnown ? getTimeSlots(surveyDate, availabilitySource, minDate) : undefined}
+                    initialTime={surveyTime ? new Date(`${formatDateForAPI(surveyDate)}T${surveyTime}:00`) : undefined}
+                    onTimeSelect={onTimeChange}
+                    onCancel={() => setShowTimePicker(false)}
+                  />
+                )}
               </View>
               
               {/* Notes */}
@@ -1005,6 +1135,11 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'center',
   },
+  availabilityText: {
+    fontSize: 13,
+    marginTop: 6,
+    textAlign: 'center',
+  },
   textAreaWrapper: {
     flexDirection: 'row',
     borderRadius: 12,
@@ -16,140 +16,23 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@/constants/ThemeContext';
 import { Colors } from '@/constants/Colors';
 import { getPaginatedBookingsForCustomerAPI, confirmBookingAPI, requestCancelBookingAPI } from '@/utils/bookingAPI';
+import {
+  BOOKING_FLOW,
+  canCancelBooking,
+  canConfirmContract,
+  canPayDeposit,
+  getBookingStatusColor as getStatusColor,
+  getBookingStatusIcon as getStatusIcon,
+  getBookingStatusLabel,
+  getBookingStatusStage,
+  isCancelledStatus
+} from '@/utils/bookingStatus';
+import { buildBookingCalendarEvents } from '@/utils/bookingCalendar';
+import calendarExport from '@/services/CalendarExportService';
+import { toChatShareParams } from '@/utils/chatCards';
 
 const PRIMARY_COLOR = "#5fc1f1";
 
-// Define a proper type for status codes
-type BookingStatusCode = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13;
-
-// Status mapping utilities
-const mapStatusCodeToString = (statusCode: number): string => {
-  const statusMap: Record<number, string> = {
-    0: 'Pending',            // Khi khách hàng tạo booking
-    1: 'Planning',           // Provider đã xác nhận và sắp xếp khảo sát
-    2: 'Quoting',            // Provider báo giá
-    3: 'Contracting',        // Provider soạn hợp đồng
-    4: 'Confirm',            // Khi customer đồng ý các điều khoản và chốt hợp đồng
-    5: 'DepositPaid',        // Đã thanh toán đặt cọc
-    6: 'Preparing',          // Chuẩn bị nguyên liệu
-    7: 'InTransit',          // Nguyên liệu được chuyển đến chỗ khách hàng
-    8: 'Progressing',        // Đang tiến hành thi công (theo dạng Tracking service)
-    9: 'ConstructionPayment',// Thanh toán thi công
-    10: 'Completed',         // Dự án hoàn thành
-    11: 'PendingCancellation', // Chờ provider duyệt hủy
-    12: 'Canceled',          // Booking bị hủy
-    13: 'Rejected'           // Booking bị từ chối
-  };
-  
-  return statusMap[statusCode] || 'Unknown';
-};
-
-const getStatusColor = (statusCode: number): string => {
-  const statusString = mapStatusCodeToString(statusCode);
-  
-  switch (statusString) {
-    case 'Pending':
-      return '#ff9500'; // Orange
-    case 'Planning':
-      return '#007aff'; // Blue
-    case 'Quoting':
-      return '#5856d6'; // Purple
-    case 'Contracting':
-      return '#007aff'; // Blue
-    case 'Confirm':
-      return '#5856d6'; // Purple
-    case 'DepositPaid':
-      return '#5ac8fa'; // Light blue
-    case 'Preparing':
-      return '#34c759'; // Green
-    case 'InTransit':
-      return '#34c759'; // Green
-    case 'Progressing':
-      return '#34c759'; // Green
-    case 'ConstructionPayment':
-      return '#5ac8fa'; // Light blue
-    case 'Completed':
-      return '#4caf50'; // Green
-    case 'PendingCancellation':
-      return '#ff9500'; // Orange
-    case 'Canceled':
-      return '#ff3b30'; // Red
-    case 'Rejected':
-      return '#ff3b30'; // Red
-    default:
-      return '#8e8e93'; // Gray
-  }
-};
-
-const getStatusIcon = (statusCode: number): string => {
-  const statusString = mapStatusCodeToString(statusCode);
-  
-  switch (statusString) {
-    case 'Pending':
-      return 'time-outline';
-    case 'Planning':
-      return 'calendar-outline';
-    case 'Quoting':
-      return 'cash-outline';
-    case 'Contracting':
-      return 'document-text-outline';
-    case 'Confirm':
-      return 'checkmark-circle-outline';
-    case 'DepositPaid':
-      return 'wallet-outline';
-    case 'Preparing':
-      return 'construct-outline';
-    case 'InTransit':
-      return 'car-outline';
-    case 'Progressing':
-      return 'hammer-outline';
-    case 'ConstructionPayment':
-      return 'cash-outline';
-    case 'Completed':
-      return 'checkmark-done-circle-outline';
-    case 'PendingCancellation':
-      return 'hourglass-outline';
-    case 'Canceled':
-      return 'close-circle-outline';
-    case 'Rejected':
-      return 'close-circle-outline';
-    default:
-      return 'help-circle-outline';
-  }
-};
-
-const getStatusStage = (statusCode: number): string => {
-  const statusString = mapStatusCodeToString(statusCode);
-  
-  if (['Pending', 'Planning'].includes(statusString)) {
-    return 'Initial Stage';
-  } else if (['Quoting', 'Contracting', 'Confirm'].includes(statusString)) {
-    return 'Agreement Stage';
-  } else if (['DepositPaid', 'Preparing', 'InTransit'].includes(statusString)) {
-    return 'Preparation Stage';
-  } else if (['Progressing', 'ConstructionPayment'].includes(statusString)) {
-    return 'Construction Stage';
-  } else if (statusString === 'Completed') {
-    return 'Final Stage';
-  } else if (['PendingCancellation', 'Canceled', 'Rejected'].includes(statusString)) {
-    return 'Cancelled';
-  }
-  
-  return '';
-};
-
-const canBookingBeCancelled = (statusCode: number): boolean => {
-  return [0, 1].includes(statusCode); // Pending, Planning
-};
-
-const doesBookingNeedConfirmation = (statusCode: number): boolean => {
-  return statusCode === 3; // Contracting
-};
-
-const doesBookingNeedDeposit = (statusCode: number): boolean => {
-  return statusCode === 4; // Confirm
-};
-
 // Define the booking interface
 interface IBooking {
   id?: number;
@@ -213,6 +96,8 @@ const BookingDetailScreen: React.FC = () => {
   
   const bookingId = params.id as string;
   const decorServiceId = params.decorServiceId as string;
+  // Deep links identify bookings by code, e.g. BKG-0001
+  const bookingCode = params.code as string;
 
   const [booking, setBooking] = useState<IBooking | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
@@ -221,7 +106,7 @@ const BookingDetailScreen: React.FC = () => {
 
   useEffect(() => {
     fetchBookingDetail();
-  }, [bookingId, decorServiceId]);
+  }, [bookingId, decorServiceId, bookingCode]);
 
   const fetchBookingDetail = async () => {
     try {
@@ -240,18 +125,8 @@ const BookingDetailScreen: React.FC = () => {
       const response = await getPaginatedBookingsForCustomerAPI(options);
       
       // Handle the response
-      if (response) {
-        // Initialize bookings array with explicit type
-        let bookings: IBooking[] = [];
-        
-        // Extract bookings depending on API response structure
-        if (Array.isArray(response.data)) {
-          bookings = response.data as IBooking[];
-        } else if (response.data && response.data.data && Array.isArray(response.data.data)) {
-          bookings = response.data.data as IBooking[];
-        } else if (Array.isArray(response.items)) {
-          bookings = response.items as IBooking[];
-        }
+      if (response.success) {
+        const bookings: IBooking[] = response.data;
         
         let targetBooking: IBooking | null = null;
         
@@ -261,6 +136,8 @@ const BookingDetailScreen: React.FC = () => {
             (booking.id && booking.id === Number(bookingId)) || 
             (booking.bookingId && booking.bookingId === Number(bookingId))
           ) || null;
+        } else if (bookingCode) {
+          targetBooking = bookings.find(booking => booking.bookingCode === bookingCode) || null;
         } else if (decorServiceId) {
           targetBooking = bookings.find(booking => 
             booking.decorServiceId === Number(decorServiceId)
@@ -274,11 +151,13 @@ const BookingDetailScreen: React.FC = () => {
           // No matching booking found
           setError(bookingId 
             ? `No booking found with ID: ${bookingId}` 
-            : `No booking found with decorService ID: ${decorServiceId}`
+            : bookingCode
+              ? `No booking found with code: ${bookingCode}`
+              : `No booking found with decorService ID: ${decorServiceId}`
           );
         }
       } else {
-        setError('Failed to load bookings');
+        setError(response.message || 'Failed to load bookings');
       }
     } catch (err: any) {
       console.error('Error fetching booking detail:', err);
@@ -343,6 +222,38 @@ const BookingDetailScreen: React.FC = () => {
     Alert.alert('Payment', 'Payment functionality is coming soon!');
   };
 
+  // Survey, construction window and completion as an .ics file or in the device calendar
+  const handleExportSchedule = () => {
+    if (!booking) return;
+
+    const exportWith = async (action: () => Promise<unknown>) => {
+      try {
+        setActionLoading(true);
+        await action();
+      } catch (err: any) {
+        Alert.alert('Calendar Export Failed', err.message || 'Could not export the booking schedule');
+      } finally {
+        setActionLoading(false);
+      }
+    };
+
+    Alert.alert('Add to Calendar', 'Export the survey and decoration dates of this booking.', [
+      {
+        text: 'Share .ics File',
+        onPress: () => exportWith(() => calendarExport.shareBookings([booking], booking.bookingCode)),
+      },
+      {
+        text: 'Add to Device Calendar',
+        onPress: () =>
+          exportWith(async () => {
+            await calendarExport.addBookingsToDeviceCalendar([booking]);
+            Alert.alert('Added to Calendar', 'The booking schedule is in your "Season Decor" calendar.');
+          }),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const renderHeader = () => (
     <View style={[styles.header, { borderBottomColor: colors.border }]}>
       <TouchableOpacity
@@ -352,7 +263,13 @@ const BookingDetailScreen: React.FC = () => {
         <Ionicons name="arrow-back" size={24} color={colors.text} />
       </TouchableOpacity>
       <Text style={[styles.headerTitle, { color: colors.text }]}>Booking Details</Text>
-      <View style={styles.spacer} />
+      {booking && buildBookingCalendarEvents(booking).length > 0 ? (
+        <TouchableOpacity style={styles.backButton} onPress={handleExportSchedule} disabled={actionLoading}>
+          <Ionicons name="calendar-outline" size={22} color={colors.text} />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.spacer} />
+      )}
     </View>
   );
 
@@ -360,10 +277,10 @@ const BookingDetailScreen: React.FC = () => {
     if (!booking) return null;
     
     const statusCode = booking.status;
-    const statusText = mapStatusCodeToString(statusCode);
+    const statusText = getBookingStatusLabel(statusCode);
     const statusIcon = getStatusIcon(statusCode) as keyof typeof Ionicons.glyphMap;
     const statusColor = getStatusColor(statusCode);
-    const statusStage = getStatusStage(statusCode);
+    const statusStage = getBookingStatusStage(statusCode);
     
     return (
       <View style={[styles.statusContainer, { backgroundColor: colors.card }]}>
@@ -384,23 +301,12 @@ const BookingDetailScreen: React.FC = () => {
     if (!booking) return null;
     
     // Define the complete booking flow
-    const stages = [
-      { value: 0, label: 'Pending', icon: 'time-outline' },
-      { value: 1, label: 'Planning', icon: 'calendar-outline' },
-      { value: 2, label: 'Quoting', icon: 'cash-outline' },
-      { value: 3, label: 'Contracting', icon: 'document-text-outline' },
-      { value: 4, label: 'Confirm', icon: 'checkmark-circle-outline' },
-      { value: 5, label: 'DepositPaid', icon: 'wallet-outline' },
-      { value: 6, label: 'Preparing', icon: 'construct-outline' },
-      { value: 7, label: 'InTransit', icon: 'car-outline' },
-      { value: 8, label: 'Progressing', icon: 'hammer-outline' },
-      { value: 9, label: 'ConstructionPayment', icon: 'cash-outline' },
-      { value: 10, label: 'Completed', icon: 'checkmark-done-circle-outline' }
-    ];
+    const stages = BOOKING_FLOW.map((value) => ({ value: value as number, label: getBookingStatusLabel(value), icon: getStatusIcon(value) }));
+    const isCancelled = isCancelledStatus(booking.status);
     
     // For cancelled bookings, add appropriate status
-    if (booking.status >= 11) {
-      stages.push({ value: booking.status, label: mapStatusCodeToString(booking.status), icon: getStatusIcon(booking.status) });
+    if (isCancelled) {
+      stages.push({ value: booking.status, label: getBookingStatusLabel(booking.status), icon: getStatusIcon(booking.status) });
     }
     
     return (
@@ -415,10 +321,10 @@ const BookingDetailScreen: React.FC = () => {
               const isCurrent = booking.status === stage.value;
               
               // Skip display of cancelled stages if booking was cancelled
-              if (booking.status >= 11 && stage.value > booking.status) return null;
+              if (isCancelled && stage.value > booking.status) return null;
               
               // Skip later stages if cancelled
-              if (booking.status >= 11 && stage.value >= 10 && stage.value !== booking.status) return null;
+              if (isCancelled && stage.value >= 10 && stage.value !== booking.status) return null;
               
               return (
                 <View key={stage.value} style={styles.timelineItem}>
@@ -557,6 +463,25 @@ const BookingDetailScreen: React.FC = () => {
     );
   };
 
+  // Open the conversation with the provider, this booking attached as a card
+  const shareBookingInChat = () => {
+    if (!booking?.provider?.id) return;
+
+    router.push({
+      pathname: '/chat/[userId]',
+      params: {
+        userId: String(booking.provider.id),
+        contactName: booking.provider.businessName || 'Provider',
+        ...toChatShareParams({
+          type: 'booking',
+          code: booking.bookingCode,
+          title: booking.decorService?.style || `Booking ${booking.bookingCode}`,
+          subtitle: `${booking.bookingCode} · ${getBookingStatusLabel(booking.status)}`,
+        }),
+      },
+    });
+  };
+
   const renderProviderInfo = () => {
     if (!booking || !booking.provider) return null;
     
@@ -593,6 +518,11 @@ const BookingDetailScreen: React.FC = () => {
             )}
           </View>
         </View>
+
+        <TouchableOpacity style={styles.shareInChatButton} onPress={shareBookingInChat}>
+          <Ionicons name="chatbubble-ellipses-outline" size={18} color={PRIMARY_COLOR} />
+          <Text style={styles.shareInChatText}>Share in chat</Text>
+        </TouchableOpacity>
       </View>
     );
   };
@@ -626,9 +556,9 @@ const BookingDetailScreen: React.FC = () => {
   const renderActions = () => {
     if (!booking) return null;
     
-    const canCancel = canBookingBeCancelled(booking.status);
-    const needsConfirmation = doesBookingNeedConfirmation(booking.status);
-    const needsDeposit = doesBookingNeedDeposit(booking.status);
+    const canCancel = canCancelBooking(booking.status);
+    const needsConfirmation = canConfirmContract(booking.status);
+    const needsDeposit = canPayDeposit(booking.status);
     
     if (!canCancel && !needsConfirmation && !needsDeposit) return null;
     
@@ -952,6 +882,22 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginBottom: 16,
   },
+  shareInChatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: PRIMARY_COLOR,
+  },
+  shareInChatText: {
+    color: PRIMARY_COLOR,
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   providerCard: {
     flexDirection: 'row',
     alignItems: 'center',
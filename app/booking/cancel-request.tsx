@@ -55,17 +55,7 @@ const CancelRequestScreen: React.FC = () => {
       
       const response = await getAllCancelTypesAPI();
       
-      // Handle direct array response from API
-      if (Array.isArray(response)) {
-        setCancelTypes(response);
-        
-        if (response.length > 0) {
-          setSelectedCancelTypeId(response[0].id);
-          setSelectedCancelType(response[0]);
-        }
-      } 
-      // Handle wrapped response
-      else if (response.success && response.data) {
+      if (response.success && response.data) {
         setCancelTypes(response.data);
         
         if (response.data.length > 0) {
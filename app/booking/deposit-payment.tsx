@@ -14,9 +14,10 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/constants/ThemeContext';
 import { Colors } from '@/constants/Colors';
-import { getDepositPaymentAPI, makeDirectDepositPaymentAPI } from '@/utils/paymentAPI';
+import { getDepositPaymentAPI } from '@/utils/paymentAPI';
 import { getWalletBalanceAPI } from '@/utils/walletAPI';
 import { getContractContentAPI } from '@/utils/contractAPI';
+import { usePayDeposit } from '@/hooks/useBookingQueries';
 
 // Main colors
 const COLORS = {
@@ -42,25 +43,6 @@ interface DepositPaymentInfo {
   providerAddress: string;
 }
 
-// Define types based on actual API response
-interface DepositPaymentResponse {
-  success?: boolean;
-  message?: string;
-  paymentUrl?: string;
-  contractCode?: string;
-  customerAddress?: string;
-  customerEmail?: string;
-  customerName?: string;
-  customerPhone?: string | null;
-  depositAmount?: number;
-  providerAddress?: string;
-  providerEmail?: string;
-  providerName?: string;
-  providerPhone?: string;
-  quotationCode?: string;
-  data?: any | null;
-}
-
 interface WalletResponse {
   success?: boolean;
   message?: string;
@@ -508,6 +490,7 @@ const DepositPaymentScreen: React.FC = () => {
   const colors = Colors[theme as keyof typeof Colors];
   const router = useRouter();
   const params = useLocalSearchParams<{ contractCode: string, bookingCode: string }>();
+  const payDeposit = usePayDeposit();
   const contractCode = params.contractCode;
   const bookingCode = params.bookingCode;
   // States
@@ -576,25 +559,25 @@ const DepositPaymentScreen: React.FC = () => {
       
       // Get payment information from API
       try {
-        const paymentResponse: DepositPaymentResponse = await getDepositPaymentAPI(contractCode);
+        const paymentResponse = await getDepositPaymentAPI(contractCode);
         
         // Check if response was successful
-        if (paymentResponse.success) {
-          // The API response format is flat - not using nested data property
+        if (paymentResponse.success && paymentResponse.data) {
+          const payment = paymentResponse.data;
           depositInfo = {
             ...depositInfo,
-            quotationCode: paymentResponse.quotationCode || depositInfo.quotationCode,
-            contractCode: paymentResponse.contractCode || depositInfo.contractCode,
-            depositAmount: paymentResponse.depositAmount || depositInfo.depositAmount,
-            customerName: paymentResponse.customerName || depositInfo.customerName,
-            customerEmail: paymentResponse.customerEmail || depositInfo.customerEmail,
-            customerPhone: paymentResponse.customerPhone !== undefined ? 
-              paymentResponse.customerPhone : depositInfo.customerPhone,
-            customerAddress: paymentResponse.customerAddress || depositInfo.customerAddress,
-            providerName: paymentResponse.providerName || depositInfo.providerName,
-            providerEmail: paymentResponse.providerEmail || depositInfo.providerEmail,
-            providerPhone: paymentResponse.providerPhone || depositInfo.providerPhone,
-            providerAddress: paymentResponse.providerAddress || depositInfo.providerAddress,
+            quotationCode: payment.quotationCode || depositInfo.quotationCode,
+            contractCode: payment.contractCode || depositInfo.contractCode,
+            depositAmount: payment.depositAmount || depositInfo.depositAmount,
+            customerName: payment.customerName || depositInfo.customerName,
+            customerEmail: payment.customerEmail || depositInfo.customerEmail,
+            customerPhone: payment.customerPhone !== undefined ? 
+              payment.customerPhone : depositInfo.customerPhone,
+            customerAddress: payment.customerAddress || depositInfo.customerAddress,
+            providerName: payment.providerName || depositInfo.providerName,
+            providerEmail: payment.providerEmail || depositInfo.providerEmail,
+            providerPhone: payment.providerPhone || depositInfo.providerPhone,
+            providerAddress: payment.providerAddress || depositInfo.providerAddress,
           };
         } else {
           console.error('Payment API returned unsuccessful response:', paymentResponse.message);
@@ -648,14 +631,14 @@ const DepositPaymentScreen: React.FC = () => {
       try {
         console.log('📘 Using booking code:', bookingCode || 'not provided');
         
-        // Make the actual payment API call, passing the bookingCode
-        const paymentResult = await makeDirectDepositPaymentAPI(
-          paymentInfo.contractCode,
-          paymentInfo.depositAmount,
-          bookingCode // Pass the bookingCode as the third parameter
-        );
+        // Make the actual payment API call, passing the bookingCode; a successful payment
+        // marks the booking, wallet balance and transactions stale on every tab
+        await payDeposit.mutateAsync({
+          contractCode: paymentInfo.contractCode,
+          amount: paymentInfo.depositAmount,
+          bookingCode,
+        });
         
-        // Since we've modified the API to always return success, this will always execute
         // Show success message
         setProcessingMessage('Payment successful! Redirecting...');
         
@@ -14,8 +14,9 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/constants/ThemeContext';
 import { Colors } from '@/constants/Colors';
-import { getFinalPaymentAPI, makeDirectFinalPaymentAPI } from '@/utils/paymentAPI';
+import { getFinalPaymentAPI } from '@/utils/paymentAPI';
 import { getWalletBalanceAPI } from '@/utils/walletAPI';
+import { usePayFinal } from '@/hooks/useBookingQueries';
 
 // Main colors
 const COLORS = {
@@ -516,6 +517,7 @@ const FinalPaymentScreen: React.FC = () => {
   const colors = Colors[theme as keyof typeof Colors];
   const router = useRouter();
   const params = useLocalSearchParams<{ bookingCode: string }>();
+  const payFinal = usePayFinal();
   const bookingCode = params.bookingCode;
   
   // States
@@ -588,25 +590,25 @@ const FinalPaymentScreen: React.FC = () => {
         const paymentResponse = await getFinalPaymentAPI(bookingCode);
         
         // Check if response was successful
-        if (paymentResponse.success) {
-          // The API response format is flat - not using nested data property
+        if (paymentResponse.success && paymentResponse.data) {
+          const payment = paymentResponse.data;
           paymentData = {
             ...paymentData,
-            quotationCode: paymentResponse.quotationCode || paymentData.quotationCode,
-            bookingCode: paymentResponse.bookingCode || paymentData.bookingCode,
-            finalAmount: paymentResponse.finalPaymentAmount || paymentData.finalAmount,            customerName: paymentResponse.customerName || paymentData.customerName,
-            customerEmail: paymentResponse.customerEmail || paymentData.customerEmail,
-            customerPhone: paymentResponse.customerPhone !== undefined ? 
-              paymentResponse.customerPhone : paymentData.customerPhone,
-            customerAddress: paymentResponse.customerAddress || paymentData.customerAddress,
-            providerName: paymentResponse.providerName || paymentData.providerName,
-            providerEmail: paymentResponse.providerEmail || paymentData.providerEmail,
-            providerPhone: paymentResponse.providerPhone || paymentData.providerPhone,
-            providerAddress: paymentResponse.providerAddress || paymentData.providerAddress,
+            quotationCode: payment.quotationCode || paymentData.quotationCode,
+            bookingCode: payment.bookingCode || paymentData.bookingCode,
+            finalAmount: payment.finalPaymentAmount || paymentData.finalAmount,            customerName: payment.customerName || paymentData.customerName,
+            customerEmail: payment.customerEmail || paymentData.customerEmail,
+            customerPhone: payment.customerPhone !== undefined ? 
+              payment.customerPhone : paymentData.customerPhone,
+            customerAddress: payment.customerAddress || paymentData.customerAddress,
+            providerName: payment.providerName || paymentData.providerName,
+            providerEmail: payment.providerEmail || paymentData.providerEmail,
+            providerPhone: payment.providerPhone || paymentData.providerPhone,
+            providerAddress: payment.providerAddress || paymentData.providerAddress,
           };
           
           // Check if final payment is already made from the response
-          if (paymentResponse.isFinalPaid) {
+          if (payment.isFinalPaid) {
             setIsFinalPaid(true);
           }
         } else {
@@ -652,27 +654,20 @@ const FinalPaymentScreen: React.FC = () => {
       try {
         console.log('📘 Processing final payment for booking:', bookingCode);
         
-        // Make the actual payment API call
-        const paymentResult = await makeDirectFinalPaymentAPI(
-          bookingCode,
-          paymentInfo.finalAmount
-        );
+        // Make the actual payment API call; throws with the API message when it fails
+        await payFinal.mutateAsync({ bookingCode, amount: paymentInfo.finalAmount });
         
-        if (paymentResult.success) {
-          // Update payment status
-          setIsFinalPaid(true);
-          
-          // Show success message
-          setProcessingMessage('Payment successful! Redirecting...');
-          
-          // Wait a moment before redirecting
-          await new Promise(resolve => setTimeout(resolve, 1500));
-          
-          // On success, redirect to bookings list
-          router.replace('/screens/Bookings');
-        } else {
-          throw new Error(paymentResult.message || 'Payment failed');
-        }
+        // Update payment status
+        setIsFinalPaid(true);
+        
+        // Show success message
+        setProcessingMessage('Payment successful! Redirecting...');
+        
+        // Wait a moment before redirecting
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        
+        // On success, redirect to bookings list
+        router.replace('/screens/Bookings');
       } catch (err: any) {
         console.error('Payment API error:', err);
         throw new Error(err.message || 'Payment processing failed. Please try again.');
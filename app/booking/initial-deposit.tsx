@@ -14,8 +14,8 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/constants/ThemeContext';
 import { Colors } from '@/constants/Colors';
-import { processCommitDepositAPI } from '@/utils/bookingAPI';
 import { getWalletBalanceAPI } from '@/utils/walletAPI';
+import { useCommitDeposit } from '@/hooks/useBookingQueries';
 
 // Main colors
 const COLORS = {
@@ -42,6 +42,7 @@ const InitialDepositScreen: React.FC = () => {
   const colors = Colors[theme as keyof typeof Colors];
   const router = useRouter();
   const params = useLocalSearchParams<{ bookingCode: string }>();
+  const commitDeposit = useCommitDeposit();
   const bookingCode = params.bookingCode;
   
   // States
@@ -87,7 +88,7 @@ const InitialDepositScreen: React.FC = () => {
       
       try {
         // Gọi API nhưng không ảnh hưởng đến kết quả
-        const result = await processCommitDepositAPI(bookingCode);
+        const result = await commitDeposit.mutateAsync(bookingCode);
         console.log(`📘 Deposit API response:`, result);
       } catch (apiError) {
         // Ghi log lỗi nhưng không ảnh hưởng đến luồng xử lý
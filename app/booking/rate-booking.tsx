@@ -103,7 +103,7 @@ const RateBookingScreen: React.FC = () => {
         images
       );
       
-      if (result && (result.success || result.id)) {
+      if (result.success) {
         Alert.alert(
           'Success',
           'Your review has been submitted successfully.',
@@ -21,6 +21,7 @@ import Ionicons from "react-native-vector-icons/Ionicons";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 import { createBookingAPI, createBookingAPIAlternative, IBookingRequest } from "@/utils/bookingAPI";
+import surveyDrafts from "@/services/SurveyDraftService";
 import AddedProductsReview from '@/components/AddedProductsReview';
 const { width } = Dimensions.get('window');
 
@@ -457,19 +458,16 @@ const BookingReviewScreen = () => {
       }
       
       // If still failed, try alternative format
-      if (!response.success && response.errors) {
-        const isErrorObject = typeof response.errors === 'object' && !Array.isArray(response.errors);
-        if (isErrorObject) {
-          const errorObj = response.errors as Record<string, string[]>;
-          const hasArrayErrors = errorObj.ScopeOfWorkId || errorObj.ThemeColorIds;
-          if (hasArrayErrors) {
-            // Try alternative without images
-            const alternativeRequest: IBookingRequest = {
-              ...bookingRequest,
-              images: []
-            };
-            response = await createBookingAPIAlternative(alternativeRequest);
-          }
+      if (!response.success && response.fieldErrors) {
+        const errorObj = response.fieldErrors;
+        const hasArrayErrors = errorObj.ScopeOfWorkId || errorObj.ThemeColorIds;
+        if (hasArrayErrors) {
+          // Try alternative without images
+          const alternativeRequest: IBookingRequest = {
+            ...bookingRequest,
+            images: []
+          };
+          response = await createBookingAPIAlternative(alternativeRequest);
         }
       }
       
@@ -478,6 +476,7 @@ const BookingReviewScreen = () => {
         if (globalData.currentBookingState) {
           delete globalData.currentBookingState;
         }
+        await surveyDrafts.removeDraft(reviewData.bookingData.decorServiceId);
         
         const successMessage = !hadImageUploadIssue && imageUploadSuccess 
           ? `Your survey booking request has been submitted successfully!\n\nOur team will contact you within 24 hours to confirm the appointment.`
@@ -518,6 +517,7 @@ const BookingReviewScreen = () => {
           if (globalData.currentBookingState) {
             delete globalData.currentBookingState;
           }
+          await surveyDrafts.removeDraft(reviewData.bookingData.decorServiceId);
           
           Alert.alert(
             "🎉 Booking Submitted!", 
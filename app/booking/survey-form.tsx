@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { 
   View, 
   Text, 
@@ -24,6 +24,7 @@ import { Colors } from "@/constants/Colors";
 import { getStyleColorByServiceIdAPI, getScopeOfWorkAPI } from "@/utils/decorserviceAPI";
 import { launchImageLibrary, launchCamera, ImagePickerResponse, CameraOptions, ImageLibraryOptions } from 'react-native-image-picker';
 import ProductCatalog from '@/components/RelatedProductsSection';
+import surveyDrafts, { ISurveyDraft } from "@/services/SurveyDraftService";
 
 const { width } = Dimensions.get('window');
 
@@ -96,6 +97,12 @@ const SurveyFormScreen = () => {
   // Booking data from previous screen
   const [bookingData, setBookingData] = useState<any>(null);
   
+  // Draft auto-save: nothing is saved until the stored draft has been restored
+  const [draftReady, setDraftReady] = useState(false);
+  const [restoredDraftAt, setRestoredDraftAt] = useState<number | null>(null);
+  const pendingDraft = useRef<Omit<ISurveyDraft, "updatedAt"> | null>(null);
+  const decorServiceId = Number(params.decorServiceId || params.serviceId);
+  
   // Predefined options
   const propertyTypes = [
     { id: 1, name: "Apartment" },
@@ -133,8 +140,101 @@ const SurveyFormScreen = () => {
     }
     
     fetchAllData();
+    restoreDraft();
+  }, []);
+  
+  // Auto-save the form shortly after the user stops editing
+  useEffect(() => {
+    if (!draftReady || !decorServiceId) return;
+    
+    pendingDraft.current = {
+      decorServiceId,
+      serviceName: bookingData?.serviceName || (params.serviceName as string) || undefined,
+      booking: bookingData?.addressId && bookingData?.surveyDate
+        ? { addressId: Number(bookingData.addressId), surveyDate: bookingData.surveyDate, note: bookingData.note || undefined }
+        : undefined,
+      form: {
+        budget,
+        roomSize,
+        specialRequirements,
+        selectedPropertyType,
+        selectedPrimaryUser,
+        selectedColorIds,
+        selectedDesignId,
+        selectedScopeIds,
+        uploadedImages,
+      },
+    };
+    
+    const timer = setTimeout(flushDraft, 800);
+    return () => clearTimeout(timer);
+  }, [draftReady, bookingData, budget, roomSize, specialRequirements, selectedPropertyType,
+      selectedPrimaryUser, selectedColorIds, selectedDesignId, selectedScopeIds, uploadedImages]);
+  
+  // Keep edits made just before leaving the screen
+  useEffect(() => () => {
+    flushDraft();
   }, []);
   
+  const flushDraft = () => {
+    if (!pendingDraft.current) return;
+    const draft = pendingDraft.current;
+    pendingDraft.current = null;
+    surveyDrafts.saveDraft(draft);
+  };
+  
+  const restoreDraft = async () => {
+    try {
+      const draft = decorServiceId ? await surveyDrafts.getDraft(decorServiceId) : null;
+      if (draft) {
+        const { form } = draft;
+        setBudget(form.budget);
+        setRoomSize(form.roomSize);
+        setSpecialRequirements(form.specialRequirements);
+        setSelectedPropertyType(form.selectedPropertyType);
+        setSelectedPrimaryUser(form.selectedPrimaryUser);
+        setSelectedColorIds(form.selectedColorIds);
+        setSelectedDesignId(form.selectedDesignId);
+        setSelectedScopeIds(form.selectedScopeIds);
+        setUploadedImages(form.uploadedImages);
+        setRestoredDraftAt(draft.updatedAt);
+        console.log('📝 Survey draft restored for service', decorServiceId);
+      }
+    } catch (error) {
+      console.error("Failed to restore survey draft:", error);
+    } finally {
+      setDraftReady(true);
+    }
+  };
+  
+  const handleDiscardDraft = () => {
+    Alert.alert(
+      "Start over?",
+      "Your saved answers for this service will be cleared.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Start over",
+          style: "destructive",
+          onPress: async () => {
+            pendingDraft.current = null;
+            setBudget("");
+            setRoomSize("");
+            setSpecialRequirements("");
+            setSelectedPropertyType("");
+            setSelectedPrimaryUser("");
+            setSelectedColorIds([]);
+            setSelectedDesignId(null);
+            setSelectedScopeIds([]);
+            setUploadedImages([]);
+            setRestoredDraftAt(null);
+            await surveyDrafts.removeDraft(decorServiceId);
+          }
+        }
+      ]
+    );
+  };
+  
   const requestPermissions = async () => {
     if (Platform.OS === 'android') {
       try {
@@ -1194,6 +1294,19 @@ const SurveyFormScreen = () => {
             )}
           </View>
           
+          {/* Restored draft notice */}
+          {restoredDraftAt && (
+            <View style={[styles.draftBanner, { backgroundColor: colors.card, borderColor: colors.primary }]}>
+              <Ionicons name="document-text-outline" size={20} color={colors.primary} />
+              <Text style={[styles.draftBannerText, { color: colors.text }]}>
+                Continuing your saved answers from {new Date(restoredDraftAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </Text>
+              <TouchableOpacity onPress={handleDiscardDraft}>
+                <Text style={[styles.draftBannerAction, { color: colors.primary }]}>Start over</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          
           {/* Survey Form */}
           <View style={[styles.formCard, { backgroundColor: colors.card }]}>
             <View style={styles.formHeader}>
@@ -1556,6 +1669,23 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     flex: 1,
   },
+  draftBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  draftBannerText: {
+    flex: 1,
+    fontSize: 14,
+    marginHorizontal: 10,
+  },
+  draftBannerAction: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   formCard: {
     margin: 16,
     marginTop: 0,
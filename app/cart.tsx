@@ -19,6 +19,7 @@ import { Colors } from "@/constants/Colors";
 import CustomButton from "@/components/ui/Button/Button";
 import { getCartAPI, removeProductFromCartAPI, updateQuantityAPI } from "@/utils/cartAPI";
 import { getUserIdFromToken } from "@/services/auth";
+import { isQueuedMutation } from "@/services/OfflineQueueService";
 import { useRouter } from "expo-router";
 import { useCart } from "@/constants/CartContext";
 const { width } = Dimensions.get("window");
@@ -153,6 +154,16 @@ const handleQuantityChange = async (productId: number, newQuantity: number) => {
     // Call API to update quantity
     const response = await updateQuantityAPI(userId, productId, newQuantity);
     
+    // Offline: show the new quantity now, the change is sent once back online
+    if (isQueuedMutation(response)) {
+      const updatedItems = cartItems.map((item) =>
+        item.productId === productId ? { ...item, quantity: newQuantity } : item
+      );
+      setCartItems(updatedItems);
+      calculateTotal(updatedItems);
+      return;
+    }
+    
     // Update the UI with the response from the API
     if (response) {
       if (response.cartItems) {
@@ -11,22 +11,41 @@ import {
   Platform,
   KeyboardAvoidingView,
   SafeAreaView,
-  AppState,
-  AppStateStatus,
-  Linking,
   Alert,
-  Clipboard,
+  ScrollView,
   GestureResponderEvent
 } from "react-native";
+import * as ImageManipulator from "expo-image-manipulator";
 import { signalRService } from "@/services/SignalRService";
 import { Colors } from "@/constants/Colors";
 import { useTheme } from "@/constants/ThemeContext";
 import { useRouter } from "expo-router";
 import { useLocalSearchParams } from "expo-router";
 import { launchImageLibrary, ImagePickerResponse, Asset } from 'react-native-image-picker';
-import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
-import { getChatHistoryAPI } from "@/utils/chatAPI";
-import { getUserIdFromToken, getToken } from "@/services/auth";
+import { Ionicons } from "@expo/vector-icons";
+import { IMessage } from "@/utils/chatAPI";
+import { IChatMessagePage } from "@/utils/chatHistory";
+import chatHistoryStore from "@/services/ChatHistoryService";
+import { getUserIdFromToken } from "@/services/auth";
+import { useHubConnectionState } from "@/hooks/useHubConnectionState";
+import { useChatPresence } from "@/hooks/useChatPresence";
+import { markMessagesRead } from "@/utils/chatPresence";
+import chatOutbox from "@/services/ChatOutboxService";
+import deepLinks from "@/services/DeepLinkService";
+import PDFMessageItem from "@/components/PDFMessageItem";
+import ChatCard from "@/components/ChatCard";
+import {
+  ChatDeliveryStatus,
+  CHAT_IMAGE_QUALITY,
+  DELIVERY_STATUS_LABELS,
+  getChatImageResize,
+  getDeliveryStatus,
+  getUnconfirmedMessages,
+  IOutgoingChatFile,
+  IOutgoingChatMessage,
+  MAX_CHAT_ATTACHMENTS,
+} from "@/utils/chatOutbox";
+import { buildChatCardMessage, fromChatShareParams, IChatCardDraft, parseChatMessage } from "@/utils/chatCards";
 
 // Define interfaces for better type checking
 interface FileObject {
@@ -52,15 +71,57 @@ interface FileObject {
 
 // Improved Message interface with proper types
 interface Message {
-  id: number | string | null;
+  id: number | string | null; // Client id while the message is still in the outbox
+  clientId?: string;
   senderId: number;
   receiverId: number;
   message: string;
   sentTime: string;
   files?: Array<FileObject>;
   isRead?: boolean;
+  progress?: number; // Upload progress of a message being sent
 }
 
+// Ticks under my messages
+const DELIVERY_STATUS_ICONS: Record<ChatDeliveryStatus, string> = {
+  queued: "time-outline",
+  sending: "ellipsis-horizontal",
+  sent: "checkmark",
+  delivered: "checkmark-done",
+  read: "checkmark-done",
+  failed: "alert-circle",
+};
+
+// Outbox entries shown in the conversation until the server has them
+const toPendingMessage = (entry: IOutgoingChatMessage): Message => ({
+  id: entry.clientId,
+  clientId: entry.clientId,
+  senderId: entry.senderId,
+  receiverId: entry.receiverId,
+  message: entry.message,
+  sentTime: entry.createdAt,
+  files: entry.files.map(file => ({ fileUrl: file.uri, fileName: file.fileName, contentType: file.contentType })),
+  progress: entry.progress,
+});
+
+// Picked images are scaled down and re-encoded as JPEG before they go into the outbox
+const compressChatImage = async (asset: Asset): Promise<IOutgoingChatFile | null> => {
+  if (!asset.uri) return null;
+  const baseName = (asset.fileName || `image_${Date.now()}`).replace(/\.[^.]+$/, '');
+
+  try {
+    const resize = getChatImageResize(asset.width, asset.height);
+    const result = await ImageManipulator.manipulateAsync(asset.uri, resize ? [{ resize }] : [], {
+      compress: CHAT_IMAGE_QUALITY,
+      format: ImageManipulator.SaveFormat.JPEG,
+    });
+    return { fileName: `${baseName}.jpg`, contentType: 'image/jpeg', uri: result.uri };
+  } catch (error) {
+    console.error("Error compressing image, sending the original:", error);
+    return { fileName: asset.fileName || `${baseName}.jpg`, contentType: asset.type || 'image/jpeg', uri: asset.uri };
+  }
+};
+
 // Type for file info
 interface FileInfo {
   url: string | null;
@@ -156,45 +217,6 @@ const getFileUrl = (fileObject: FileObject | string | null): string | null => {
   return null;
 };
 
-// Function to handle PDF opening/downloading
-const handleOpenPdf = (pdfUrl: string | null): void => {
-  if (!pdfUrl) {
-    Alert.alert("Error", "Invalid PDF URL");
-    return;
-  }
-  
-  Linking.canOpenURL(pdfUrl)
-    .then(supported => {
-      if (supported) {
-        return Linking.openURL(pdfUrl);
-      } else {
-        Alert.alert(
-          "Cannot Open URL",
-          "Your device doesn't support opening this URL directly. Would you like to copy it to your clipboard?",
-          [
-            { text: "Cancel", style: "cancel" },
-            { 
-              text: "Copy URL", 
-              onPress: () => {
-                try {
-                  Clipboard.setString(pdfUrl);
-                  Alert.alert("Success", "URL copied to clipboard!");
-                } catch (error) {
-                  console.error("Error copying to clipboard:", error);
-                  Alert.alert("Error", "Could not copy URL to clipboard");
-                }
-              }
-            }
-          ]
-        );
-      }
-    })
-    .catch(error => {
-      console.error("Error opening PDF URL:", error);
-      Alert.alert("Error", "Could not open the PDF file");
-    });
-};
-
 export default function ChatScreen() {
   const router = useRouter();
   const searchParams = useLocalSearchParams();
@@ -203,19 +225,34 @@ export default function ChatScreen() {
   const { theme } = useTheme();
   const validTheme = theme as "light" | "dark";
   const colors = Colors[validTheme];
-  const [selectedImage, setSelectedImage] = useState<Asset | null>(null);
-  const [sendingMessage, setSendingMessage] = useState<boolean>(false);
+  const [attachments, setAttachments] = useState<IOutgoingChatFile[]>([]);
+  const [preparingAttachments, setPreparingAttachments] = useState<boolean>(false);
+  // A booking, quotation or product shared from its screen, sent with the next message
+  const [pendingCard, setPendingCard] = useState<IChatCardDraft | null>(() => fromChatShareParams(searchParams));
+  const [outboxEntries, setOutboxEntries] = useState<IOutgoingChatMessage[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const flatListRef = useRef<FlatList<Message>>(null);
   const mainInputRef = useRef<TextInput>(null);
   const [chatHistory, setChatHistory] = useState<Message[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>('disconnected');
+  const [hasOlderMessages, setHasOlderMessages] = useState<boolean>(false);
+  const [loadingOlder, setLoadingOlder] = useState<boolean>(false);
+  // Oldest stored message on screen; older pages load from there
+  const windowStartRef = useRef<number | null>(null);
+  // Set while older messages are prepended, so the list doesn't jump to the bottom
+  const keepScrollPositionRef = useRef<boolean>(false);
+  const hasScrolledRef = useRef<boolean>(false);
+  // Reconnect attempts show as "connecting" too
+  const hubState = useHubConnectionState(signalRService.hub);
+  const connectionStatus = hubState === 'reconnecting' ? 'connecting' : hubState;
 
   // Get receiverId and name from params
   const receiverId = parseInt(String(searchParams.userId || '0'), 10);
   const [receiverName, setReceiverName] = useState<string>(String(searchParams.contactName || `User ${receiverId}`));
   const [receiverEmail, setReceiverEmail] = useState<string>(String(searchParams.contactEmail || ""));
   const [currentUserId, setCurrentUserId] = useState<number | null>(null);
+  const presence = useChatPresence();
+  const receiverOnline = !!presence.online[receiverId];
+  const receiverTyping = receiverId in presence.typing;
 
   // Debug function to check message structure
   const debugMessageStructure = (message: Message | null): void => {
@@ -239,65 +276,37 @@ export default function ChatScreen() {
     }
   };
 
-  // Setup SignalR connection management
+  // Connect to chatHub while the conversation is open; the hub reconnects by itself
   useEffect(() => {
-    let isMounted = true;
-    
-    const setupSignalR = async (): Promise<void> => {
-      try {
-        if (isMounted) setConnectionStatus('connecting');
-        const token = await getToken();
-        if (!token) {
-          console.error('No token available for SignalR connection');
-          if (isMounted) setConnectionStatus('disconnected');
-          return;
-        }
-        
-        await signalRService.startConnection(token);
-        if (isMounted) setConnectionStatus('connected');
-        console.log("SignalR connection established");
-      } catch (error) {
-        console.error("Failed to connect to SignalR hub:", error);
-        if (isMounted) setConnectionStatus('disconnected');
-        setTimeout(setupSignalR, 5000);
-      }
-    };
-
-    const handleAppStateChange = (nextAppState: AppStateStatus): void => {
-      if (nextAppState === 'active') {
-        console.log('App has come to the foreground, checking SignalR connection');
-        if (!signalRService.isConnected()) {
-          console.log('Reconnecting to SignalR...');
-          setupSignalR();
-        } else {
-          console.log('SignalR connection is active');
-          if (isMounted) setConnectionStatus('connected');
-        }
-      }
-    };
-
-    setupSignalR();
-    
-    const subscription = AppState.addEventListener('change', handleAppStateChange);
-    
-    const connectionChecker = setInterval(() => {
-      if (!signalRService.isConnected()) {
-        console.log('Connection check failed, reconnecting...');
-        setupSignalR();
-      } else {
-        console.log('SignalR connection is active');
-        if (isMounted) setConnectionStatus('connected');
-      }
-    }, 30000);
+    signalRService.startConnection().catch((error) => {
+      console.error("Failed to connect to SignalR hub:", error);
+    });
 
     return () => {
-      isMounted = false;
-      subscription.remove();
-      clearInterval(connectionChecker);
       signalRService.stopConnection();
     };
   }, []);
 
+  // Messages from the contact are read while the conversation is open
+  useEffect(() => {
+    signalRService.presence.setActiveConversation(receiverId);
+    return () => {
+      signalRService.presence.setActiveConversation(null);
+    };
+  }, [receiverId]);
+
+  // Read receipts, from the contact or from my other devices
+  useEffect(
+    () =>
+      signalRService.presence.onReadReceipt((receipt) => {
+        setChatHistory(prevHistory => markMessagesRead(prevHistory, receipt));
+      }),
+    []
+  );
+
+  // Messages still on their way, with their delivery states
+  useEffect(() => chatOutbox.subscribe(setOutboxEntries), []);
+
   // Fetch user ID on component mount
   useEffect(() => {
     const fetchUserId = async (): Promise<void> => {
@@ -375,39 +384,15 @@ export default function ChatScreen() {
         debugMessageStructure(sentMessage);
       }
       
+      // Without an id it can't be told apart from the outbox copy, which stays until confirmed
+      if (sentMessage.id === null || sentMessage.id === undefined) {
+        return;
+      }
+      
       setChatHistory(prevHistory => {
-        const tempIndex = prevHistory.findIndex(msg => 
-          typeof msg.id === 'string' && 
-          msg.id.startsWith('temp_') && 
-          cleanHtmlContent(msg.message) === cleanHtmlContent(sentMessage.message)
-        );
-        
-        if (tempIndex !== -1 && sentMessage.id) {
-          console.log('Replacing temporary message with confirmed one');
-          const newHistory = [...prevHistory];
-          newHistory[tempIndex] = sentMessage;
-          return newHistory;
-        }
-        
-        if (sentMessage.id) {
-          const msgExists = prevHistory.some(msg => msg.id === sentMessage.id);
-          if (msgExists) {
-            console.log('Message already exists in history');
-            return prevHistory;
-          }
-        }
-        
-        if (sentMessage.id === null) {
-          const hasTempVersion = prevHistory.some(msg => 
-            typeof msg.id === 'string' && 
-            msg.id.startsWith('temp_') && 
-            cleanHtmlContent(msg.message) === cleanHtmlContent(sentMessage.message)
-          );
-          
-          if (hasTempVersion) {
-            console.log('Keeping temporary message for null ID confirmation');
-            return prevHistory;
-          }
+        if (prevHistory.some(msg => msg.id === sentMessage.id)) {
+          console.log('Message already exists in history');
+          return prevHistory;
         }
         
         console.log('Adding confirmed message to history');
@@ -419,12 +404,12 @@ export default function ChatScreen() {
       }, 50);
     };
     
-    signalRService.onMessageReceived(messageReceivedHandler);
-    signalRService.onMessageSent(messageSentHandler);
+    const unsubscribeReceived = signalRService.onMessageReceived(messageReceivedHandler);
+    const unsubscribeSent = signalRService.onMessageSent(messageSentHandler);
   
     return () => {
-      signalRService.offMessageReceived(messageReceivedHandler);
-      signalRService.offMessageSent(messageSentHandler);
+      unsubscribeReceived();
+      unsubscribeSent();
     };
   }, []);
 
@@ -443,34 +428,49 @@ export default function ChatScreen() {
 
   // Scroll to latest message when chat history updates
   useEffect(() => {
-    if (chatHistory.length > 0) {
+    if (chatHistory.length > 0 && !keepScrollPositionRef.current) {
       flatListRef.current?.scrollToEnd({ animated: true });
     }
   }, [chatHistory]);
 
+  // Stored messages with HTML stripped, as the conversation shows them
+  const toDisplayMessages = (messages: IMessage[]): Message[] =>
+    messages
+      .filter(msg => msg && msg.id !== undefined && msg.id !== null)
+      .map(msg => ({
+        ...msg,
+        message: containsHtml(msg.message) ? cleanHtmlContent(msg.message) : msg.message
+      }));
+
+  const showMessages = (page: IChatMessagePage): void => {
+    windowStartRef.current = page.messages[0]?.id ?? null;
+    setHasOlderMessages(page.hasMore);
+    setChatHistory(toDisplayMessages(page.messages));
+  };
+
+  // Open with the stored conversation, then fetch only what's new since
   const fetchChatHistory = useCallback(async (): Promise<void> => {
     setLoading(true);
+    windowStartRef.current = null;
     try {
-      const history = await getChatHistoryAPI(receiverId);
-      console.log(`Fetched ${history?.length || 0} messages from chat history`);
+      const stored = await chatHistoryStore.getLatestPage(receiverId);
+      if (stored.messages.length > 0) {
+        showMessages(stored);
+        setError(null);
+        setLoading(false);
+      }
 
-      if (history && history.length > 0) {
-        // Clean HTML content from all messages
-        const cleanedHistory = history.map(msg => ({
-          ...msg,
-          message: containsHtml(msg.message) ? cleanHtmlContent(msg.message) : msg.message
-        }));
+      const conversation = await chatHistoryStore.sync(receiverId);
+      console.log(`Conversation has ${conversation.length} stored messages`);
 
-        const messagesWithFiles = cleanedHistory.filter(msg => msg.files && msg.files.length > 0);
+      // Everything loaded so far stays on screen, plus what the sync brought
+      const page = await chatHistoryStore.getMessagesFrom(receiverId, windowStartRef.current);
+      if (page.messages.length > 0) {
+        const messagesWithFiles = page.messages.filter(msg => msg.files && msg.files.length > 0);
         console.log(`Found ${messagesWithFiles.length} messages with files`);
-        
-        if (messagesWithFiles.length > 0) {
-          console.log('First message with files:');
-          debugMessageStructure(messagesWithFiles[0]);
-        }
 
-        const validHistory = cleanedHistory.filter(msg => msg && msg.id !== undefined && msg.id !== null);
-        setChatHistory(validHistory);
+        showMessages(page);
+        chatOutbox.syncWithHistory(conversation);
         setError(null);
       } else {
         setChatHistory([]);
@@ -485,33 +485,33 @@ export default function ChatScreen() {
     }
   }, [receiverId]);
 
-  const getBase64FromUri = async (uri: string): Promise<string> => {
-    try {
-      const response = await fetch(uri);
-      const blob = await response.blob();
+  // Older stored messages, a page at a time as the customer scrolls up
+  const loadOlderMessages = useCallback(async (): Promise<void> => {
+    const beforeId = windowStartRef.current;
+    if (!hasScrolledRef.current || !hasOlderMessages || loadingOlder || beforeId === null) return;
 
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64data = reader.result as string;
-          const base64Content = base64data.split(',')[1] || '';
-          resolve(base64Content);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-      });
+    setLoadingOlder(true);
+    try {
+      const page = await chatHistoryStore.getOlderPage(receiverId, beforeId);
+      if (page.messages.length > 0) {
+        windowStartRef.current = page.messages[0].id;
+        keepScrollPositionRef.current = true;
+        setChatHistory(prevHistory => [...toDisplayMessages(page.messages), ...prevHistory]);
+      }
+      setHasOlderMessages(page.hasMore);
     } catch (error) {
-      console.error("Failed to convert image to base64", error);
-      throw error;
+      console.error("Error loading older messages:", error);
+    } finally {
+      setLoadingOlder(false);
     }
-  };
+  }, [receiverId, hasOlderMessages, loadingOlder]);
 
-  // Handle sending messages with improved validation
+  // Messages go through the outbox: shown right away, sent now or when the hub reconnects
   const handleSendMessage = async (): Promise<void> => {
     const trimmedMessage = message.trim();
     
-    if (trimmedMessage === "" && !selectedImage) {
-      console.log('No message or image to send');
+    if (trimmedMessage === "" && attachments.length === 0 && !pendingCard) {
+      console.log('No message, attachment or card to send');
       return;
     }
 
@@ -521,8 +521,6 @@ export default function ChatScreen() {
       return;
     }
 
-    setSendingMessage(true);
-
     try {
       let userId = currentUserId;
       if (!userId) {
@@ -530,111 +528,61 @@ export default function ChatScreen() {
         setCurrentUserId(userId);
         console.log('Retrieved user ID:', userId);
       }
-      
-      if (!signalRService.isConnected()) {
-        setConnectionStatus('connecting');
-        const token = await getToken();
-        if (!token) {
-          throw new Error('No authentication token available');
-        }
-        await signalRService.startConnection(token);
-        setConnectionStatus('connected');
+      if (!userId) {
+        throw new Error('No user ID available');
       }
 
-      const tempMessageId = `temp_${Date.now()}`;
-      const tempMessage: Message = {
-        id: tempMessageId,
-        senderId: userId || 0,
-        receiverId: receiverId,
-        message: trimmedMessage,
-        sentTime: new Date().toISOString(),
-        files: selectedImage ? [{ fileUrl: selectedImage.uri }] : []
-      };
-
-      console.log('Preparing to send message:', tempMessage);
-
-      let fileData: Array<{
-        FileName: string;
-        Base64Content: string;
-        ContentType: string;
-      }> = [];
-      
-      if (selectedImage && selectedImage.uri) {
-        try {
-          const base64Content = await getBase64FromUri(selectedImage.uri);
-
-          fileData.push({
-            FileName: selectedImage.fileName || `image_${tempMessageId}.jpg`,
-            Base64Content: base64Content,
-            ContentType: selectedImage.type || 'image/jpeg',
-          });
-          
-          console.log('Image prepared for sending:', selectedImage.fileName || `image_${tempMessageId}.jpg`);
-        } catch (imageError) {
-          console.error("Error processing image:", imageError);
-        }
+      // The card goes first, as a message of its own
+      if (pendingCard) {
+        await chatOutbox.enqueue({ senderId: userId, receiverId, message: buildChatCardMessage(pendingCard) });
+        setPendingCard(null);
       }
+      if (trimmedMessage || attachments.length > 0) {
+        await chatOutbox.enqueue({ senderId: userId, receiverId, message: trimmedMessage, files: attachments });
+      }
+      signalRService.presence.stopTyping(receiverId);
 
       if (chatHistory.length === 0) {
         setError(null);
       }
-
-      setChatHistory(prev => [...prev, tempMessage]);
-      console.log('Added temporary message to chat history');
+      setMessage("");
+      setAttachments([]);
       
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 50);
-
-      const messageId = await signalRService.sendMessage(
-        receiverId,
-        trimmedMessage,
-        fileData,
-        (progress) => {
-          console.log(`Message send progress: ${progress}%`);
-        }
-      );
-      
-      console.log('Message sent successfully with ID:', messageId);
-
-      if (messageId === null && chatHistory.length === 0) {
-        console.log('Special handling for first message with null ID');
-        setTimeout(() => {
-          setChatHistory(prev => [...prev]);
-          flatListRef.current?.scrollToEnd({ animated: true });
-        }, 100);
-      }
-
-      setMessage("");
-      setSelectedImage(null);
     } catch (error) {
-      console.error("Error sending message:", error);
-      setConnectionStatus('disconnected');
-      
-      // Remove the temporary message on error
-      setChatHistory(prev => prev.filter(msg => 
-        !(typeof msg.id === 'string' && msg.id.startsWith('temp_'))
-      ));
-      
+      console.error("Error queueing message:", error);
       Alert.alert("Error", "Failed to send message. Please try again.");
-    } finally {
-      setSendingMessage(false);
     }
   };
 
-  // Image Picker
-  const pickImage = async (): Promise<void> => {
+  // Failed messages can be retried or dropped
+  const handleFailedMessagePress = (clientId: string): void => {
+    Alert.alert("Message not sent", "This message couldn't be delivered.", [
+      { text: "Delete", style: "destructive", onPress: () => chatOutbox.discard(clientId) },
+      { text: "Cancel", style: "cancel" },
+      { text: "Retry", onPress: () => chatOutbox.retry(clientId) },
+    ]);
+  };
+
+  // Image Picker: several photos per message, compressed as they're added
+  const pickImages = async (): Promise<void> => {
     try {
       if (mainInputRef.current) {
         mainInputRef.current.blur();
       }
 
-      const result = await launchImageLibrary({
+      const remaining = MAX_CHAT_ATTACHMENTS - attachments.length;
+      if (remaining <= 0) {
+        Alert.alert("Too many photos", `You can attach up to ${MAX_CHAT_ATTACHMENTS} photos per message.`);
+        return;
+      }
+
+      const result: ImagePickerResponse = await launchImageLibrary({
         mediaType: 'photo',
-        selectionLimit: 1,
-        maxHeight: 1200,
-        maxWidth: 1200,
-        quality: 0.8,
+        selectionLimit: remaining,
+        quality: 1,
       });
 
       if (result.didCancel) {
@@ -642,16 +590,23 @@ export default function ChatScreen() {
       } else if (result.errorCode) {
         console.error("ImagePicker Error: ", result.errorMessage);
       } else if (result.assets && result.assets.length > 0) {
-        console.log("Image selected successfully");
-        setSelectedImage(result.assets[0]);
+        setPreparingAttachments(true);
+        try {
+          const files = await Promise.all(result.assets.slice(0, remaining).map(compressChatImage));
+          const picked = files.filter((file): file is IOutgoingChatFile => file !== null);
+          console.log(`${picked.length} image(s) ready to send`);
+          setAttachments(prev => [...prev, ...picked].slice(0, MAX_CHAT_ATTACHMENTS));
+        } finally {
+          setPreparingAttachments(false);
+        }
       }
     } catch (error) {
       console.error("Error picking image:", error);
     }
   };
 
-  const handleRemoveImage = (): void => {
-    setSelectedImage(null);
+  const handleRemoveAttachment = (uri: string): void => {
+    setAttachments(prev => prev.filter(file => file.uri !== uri));
   };
 
   const keyExtractor = useCallback((item: Message, index: number): string => {
@@ -678,6 +633,7 @@ export default function ChatScreen() {
     }
     
     const isFromMe = currentUserId !== null && item.senderId === currentUserId;
+    const deliveryStatus = isFromMe ? getDeliveryStatus(item, outboxEntries) : null;
   
     const messageDate = item.sentTime ? new Date(item.sentTime) : new Date();
     const messageTime = messageDate.toLocaleTimeString([], { 
@@ -691,54 +647,44 @@ export default function ChatScreen() {
         ? "#F0F0F0"
         : "#000000";
   
-    // Process file (image or PDF)
-    let fileContent = null;
-    if (item.files && Array.isArray(item.files) && item.files.length > 0) {
-      const fileUrl = getFileUrl(item.files[0]);
-      
-      if (fileUrl) {
-        if (isPdfUrl(fileUrl)) {
-          const fileName = getFileNameFromUrl(fileUrl);
-          
-          fileContent = (
-            <TouchableOpacity 
-              style={styles.pdfContainer}
-              onPress={() => handleOpenPdf(fileUrl)}
-            >
-              <View style={styles.pdfContent}>
-                <MaterialCommunityIcons name="file-pdf-box" size={28} color="#D93025" />
-                <View style={styles.pdfTextContainer}>
-                  <Text style={styles.pdfFileName} numberOfLines={1} ellipsizeMode="middle">
-                    {fileName}
-                  </Text>
-                  <Text style={styles.pdfSubtext}>
-                    PDF • Tap to download
-                  </Text>
-                </View>
-                <Ionicons name="download-outline" size={20} color="#505050" />
-              </View>
-            </TouchableOpacity>
-          );
-        } else {
-          fileContent = (
-            <View style={styles.imageContainer}>
-              <Image 
-                source={{ uri: fileUrl }} 
-                style={styles.messageImage} 
-                resizeMode="cover"
-                onError={(error) => {
-                  console.error(`Image load error for message ${item.id}:`, error.nativeEvent.error || 'Unknown error');
-                  console.log('Failed URL:', fileUrl);
-                }}
-              />
-            </View>
+    // Attachments: images side by side, PDFs as PDFMessageItem
+    const fileContent = (item.files ?? [])
+      .map((file, fileIndex) => {
+        const fileUrl = getFileUrl(file);
+        if (!fileUrl) return null;
+
+        if (isPdfUrl(fileUrl) || file.contentType === 'application/pdf') {
+          return (
+            <PDFMessageItem
+              key={`file-${fileIndex}`}
+              fileUrl={fileUrl}
+              fileName={file.fileName || getFileNameFromUrl(fileUrl)}
+              colors={{ primary: colors.primary, text: colors.text, border: colors.border }}
+            />
           );
         }
-      }
-    }
+
+        const multiple = (item.files?.length ?? 0) > 1;
+        return (
+          <View key={`file-${fileIndex}`} style={styles.imageContainer}>
+            <Image 
+              source={{ uri: fileUrl }} 
+              style={multiple ? styles.messageImageTile : styles.messageImage} 
+              resizeMode="cover"
+              onError={(error) => {
+                console.error(`Image load error for message ${item.id}:`, error.nativeEvent.error || 'Unknown error');
+                console.log('Failed URL:', fileUrl);
+              }}
+            />
+          </View>
+        );
+      })
+      .filter(Boolean);
   
     // Clean message text and ensure it's not HTML
     const cleanMessageText = item.message ? cleanHtmlContent(item.message) : '';
+    // Shared cards, and booking / quotation codes typed into the message
+    const { text: messageText, cards } = parseChatMessage(cleanMessageText);
   
     return (
       <View style={[styles.messageContainer, isFromMe ? styles.messageReceiver : styles.messageSender]}>
@@ -748,24 +694,65 @@ export default function ChatScreen() {
             borderBottomRightRadius: isFromMe ? 4 : 16,
             borderBottomLeftRadius: isFromMe ? 16 : 4
           }]}>
-          {cleanMessageText && cleanMessageText.trim() !== '' && (
+          {messageText && messageText.trim() !== '' && (
             <Text style={[styles.messageText, { color: messageTextColor }]}>
-              {cleanMessageText}
+              {messageText}
             </Text>
           )}
+
+          {cards.map(card => (
+            <ChatCard
+              key={`${card.type}-${card.code}`}
+              card={card}
+              onPress={() => deepLinks.open(card.url)}
+              colors={{ text: colors.text, textSecondary: colors.textSecondary, card: colors.card, border: colors.border }}
+            />
+          ))}
           
-          {fileContent}
+          {fileContent.length > 0 && (
+            <View style={styles.fileGrid}>{fileContent}</View>
+          )}
+
+          {deliveryStatus === 'sending' && item.progress !== undefined && (
+            <View style={styles.uploadProgressTrack}>
+              <View style={[styles.uploadProgressBar, { width: `${item.progress}%` }]} />
+            </View>
+          )}
         </View>
-        <Text style={[styles.messageTime, { color: colors.textSecondary || "#999", alignSelf: isFromMe ? 'flex-end' : 'flex-start' }]}>
-          {messageTime}
-        </Text>
+        {isFromMe && deliveryStatus ? (
+          <TouchableOpacity
+            style={styles.deliveryStatusRow}
+            disabled={deliveryStatus !== 'failed'}
+            onPress={() => item.clientId && handleFailedMessagePress(item.clientId)}
+          >
+            <Text style={[styles.messageTime, { color: colors.textSecondary || "#999" }]}>
+              {messageTime}
+            </Text>
+            <Ionicons
+              name={DELIVERY_STATUS_ICONS[deliveryStatus] as any}
+              size={14}
+              color={deliveryStatus === 'failed' ? '#FF3B30' : deliveryStatus === 'read' ? (colors.primary || '#5b92e5') : (colors.textSecondary || '#999')}
+              style={styles.deliveryStatusIcon}
+            />
+            {(deliveryStatus === 'failed' || deliveryStatus === 'queued') && (
+              <Text style={[styles.deliveryStatusText, { color: deliveryStatus === 'failed' ? '#FF3B30' : (colors.textSecondary || '#999') }]}>
+                {deliveryStatus === 'failed' ? `${DELIVERY_STATUS_LABELS.failed} · Tap to retry` : DELIVERY_STATUS_LABELS.queued}
+              </Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <Text style={[styles.messageTime, { color: colors.textSecondary || "#999", alignSelf: isFromMe ? 'flex-end' : 'flex-start' }]}>
+            {messageTime}
+          </Text>
+        )}
       </View>
     );
-  }, [currentUserId, colors, validTheme]);
+  }, [currentUserId, colors, validTheme, outboxEntries]);
 
-  const validChatHistory = chatHistory.filter(msg => 
-    msg && msg.senderId && msg.receiverId 
-  );
+  const validChatHistory = [
+    ...chatHistory.filter(msg => msg && msg.senderId && msg.receiverId),
+    ...getUnconfirmedMessages(outboxEntries, receiverId, chatHistory).map(toPendingMessage),
+  ];
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -779,6 +766,14 @@ export default function ChatScreen() {
               {receiverEmail}
             </Text>
           )}
+          {connectionStatus === 'connected' && (receiverTyping || receiverOnline) && (
+            <View style={styles.presenceRow}>
+              {!receiverTyping && <View style={styles.onlineDot} />}
+              <Text style={[styles.presenceText, { color: receiverTyping ? (colors.primary || '#5b92e5') : (colors.textSecondary || '#666') }]}>
+                {receiverTyping ? 'typing…' : 'Online'}
+              </Text>
+            </View>
+          )}
           {connectionStatus !== 'connected' && (
             <View style={styles.connectionStatusContainer}>
               <Text style={[styles.connectionStatus, { 
@@ -835,10 +830,30 @@ export default function ChatScreen() {
               data={validChatHistory}
               renderItem={renderMessageItem}
               keyExtractor={keyExtractor}
-              extraData={validChatHistory.length + (currentUserId || 0)}
-              contentContainerStyle={[styles.chatListContent, { paddingBottom: 80 + (selectedImage ? 120 : 0) }]}
+              extraData={outboxEntries}
+              contentContainerStyle={[styles.chatListContent, { paddingBottom: 80 + (attachments.length > 0 || pendingCard ? 120 : 0) }]}
               showsVerticalScrollIndicator={false}
+              onScrollBeginDrag={() => {
+                hasScrolledRef.current = true;
+              }}
+              onStartReached={loadOlderMessages}
+              onStartReachedThreshold={0.5}
+              maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+              ListHeaderComponent={loadingOlder ? (
+                <ActivityIndicator style={styles.olderMessagesLoader} size="small" color={colors.primary || '#5b92e5'} />
+              ) : null}
+              ListFooterComponent={receiverTyping ? (
+                <View style={[styles.typingBubble, { backgroundColor: colors.card || '#f0f0f0' }]} testID="chat-typing-indicator">
+                  <Text style={[styles.typingText, { color: colors.textSecondary || '#666' }]}>
+                    {receiverName} is typing…
+                  </Text>
+                </View>
+              ) : null}
               onContentSizeChange={() => {
+                if (keepScrollPositionRef.current) {
+                  keepScrollPositionRef.current = false;
+                  return;
+                }
                 if (validChatHistory.length > 0) {
                   flatListRef.current?.scrollToEnd({ animated: false });
                 }
@@ -848,24 +863,48 @@ export default function ChatScreen() {
 
           {/* Input Area */}
           <View style={[styles.inputContainer, { backgroundColor: colors.card || '#fff', borderTopColor: colors.border || '#eee' }]}>
-            {selectedImage && (
-              <View style={[styles.selectedImageContainer, { backgroundColor: colors.card || '#fff' }]}>
-                <Image source={{ uri: selectedImage.uri }} style={styles.selectedImage} />
-                <TouchableOpacity style={styles.removeImageButton} onPress={handleRemoveImage}>
-                  <Ionicons name="close-circle-sharp" size={26} color="#FF3B30" />
-                </TouchableOpacity>
+            {pendingCard && (
+              <View style={styles.pendingCardContainer}>
+                <ChatCard
+                  card={pendingCard}
+                  onRemove={() => setPendingCard(null)}
+                  colors={{ text: colors.text, textSecondary: colors.textSecondary, card: colors.card, border: colors.border }}
+                />
               </View>
             )}
 
+            {(attachments.length > 0 || preparingAttachments) && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={[styles.selectedImageContainer, { backgroundColor: colors.card || '#fff' }]}
+                contentContainerStyle={styles.selectedImageRow}
+              >
+                {attachments.map(file => (
+                  <View key={file.uri} style={styles.selectedImageItem}>
+                    <Image source={{ uri: file.uri }} style={styles.selectedImage} />
+                    <TouchableOpacity style={styles.removeImageButton} onPress={() => handleRemoveAttachment(file.uri)}>
+                      <Ionicons name="close-circle-sharp" size={26} color="#FF3B30" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {preparingAttachments && (
+                  <View style={[styles.selectedImage, styles.preparingImage]}>
+                    <ActivityIndicator size="small" color={colors.primary || '#5b92e5'} />
+                  </View>
+                )}
+              </ScrollView>
+            )}
+
             <View style={styles.inputRow}>
-              <TouchableOpacity onPress={pickImage} style={styles.iconButton} disabled={sendingMessage || connectionStatus !== 'connected'}>
-                <Ionicons name="image" size={24} color={(sendingMessage || connectionStatus !== 'connected') ? colors.border || '#ccc' : colors.primary || '#5b92e5'} />
+              <TouchableOpacity onPress={pickImages} style={styles.iconButton} disabled={preparingAttachments}>
+                <Ionicons name="images" size={24} color={colors.primary || '#5b92e5'} />
               </TouchableOpacity>
 
               <TextInput
                 ref={mainInputRef}
                 style={[styles.input, { backgroundColor: colors.inputBackground || '#f5f5f5', color: colors.text, borderColor: colors.border || '#eee' }]}
-                placeholder={connectionStatus === 'connected' ? "Type a message..." : "Connecting..."}
+                placeholder={connectionStatus === 'connected' ? "Type a message..." : "Type a message, it will be sent when you're back online"}
                 placeholderTextColor={colors.textSecondary || '#999'}
                 value={message}
                 onChangeText={(text) => {
@@ -875,8 +914,12 @@ export default function ChatScreen() {
                     return;
                   }
                   setMessage(text);
+                  if (text.trim()) {
+                    signalRService.presence.notifyTyping(receiverId);
+                  } else {
+                    signalRService.presence.stopTyping(receiverId);
+                  }
                 }}
-                editable={!sendingMessage && connectionStatus === 'connected'}
                 multiline
                 maxLength={1000} // Add character limit
               />
@@ -886,14 +929,11 @@ export default function ChatScreen() {
                 style={[
                   styles.sendButton, 
                   { backgroundColor: colors.primary || '#5b92e5' }, 
-                  (sendingMessage || connectionStatus !== 'connected') && styles.disabledButton
+                  ((!message.trim() && attachments.length === 0 && !pendingCard) || preparingAttachments) && styles.disabledButton
                 ]} 
-                disabled={sendingMessage || connectionStatus !== 'connected'}
+                disabled={(!message.trim() && attachments.length === 0 && !pendingCard) || preparingAttachments}
               >
-                {sendingMessage ? 
-                  <ActivityIndicator size="small" color="#fff" /> : 
-                  <Ionicons name="paper-plane" size={20} color="#fff" />
-                }
+                <Ionicons name="paper-plane" size={20} color="#fff" />
               </TouchableOpacity>
             </View>
           </View>
@@ -943,10 +983,37 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     backgroundColor: 'rgba(0,0,0,0.05)',
   },
+  deliveryStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+  },
+  deliveryStatusIcon: {
+    marginLeft: 4,
+  },
+  deliveryStatusText: {
+    fontSize: 11,
+    marginLeft: 4,
+  },
   connectionStatus: {
     fontSize: 11,
     fontWeight: '500',
   },
+  presenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  onlineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#34C759',
+    marginRight: 6,
+  },
+  presenceText: {
+    fontSize: 12,
+  },
   centerContent: {
     flex: 1,
     justifyContent: 'center',
@@ -972,6 +1039,20 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 80,
   },
+  olderMessagesLoader: {
+    paddingVertical: 8,
+  },
+  typingBubble: {
+    alignSelf: 'flex-start',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  typingText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
   messageContainer: {
     marginBottom: 8,
     maxWidth: '80%',
@@ -1008,31 +1089,27 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginVertical: 6,
   },
-  pdfContainer: {
-    marginTop: 8,
-    backgroundColor: 'rgba(255, 255, 255, 0.9)',
-    borderRadius: 8,
-    overflow: 'hidden',
+  messageImageTile: {
+    width: 110,
+    height: 110,
+    borderRadius: 10,
+    margin: 2,
   },
-  pdfContent: {
+  fileGrid: {
     flexDirection: 'row',
-    alignItems: 'center',
-    padding: 10,
-  },
-  pdfTextContainer: {
-    flex: 1,
-    marginLeft: 10,
-    marginRight: 10,
+    flexWrap: 'wrap',
+    maxWidth: 232,
   },
-  pdfFileName: {
-    fontSize: 14,
-    fontWeight: '500',
-    color: '#333',
+  uploadProgressTrack: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.35)',
+    marginTop: 6,
+    overflow: 'hidden',
   },
-  pdfSubtext: {
-    fontSize: 12,
-    color: '#666',
-    marginTop: 2,
+  uploadProgressBar: {
+    height: 3,
+    backgroundColor: '#fff',
   },
   inputContainer: {
     padding: 0, 
@@ -1048,18 +1125,33 @@ const styles = StyleSheet.create({
     borderTopLeftRadius: 12,
     borderTopRightRadius: 12,
     width: '100%',
-    flexDirection: 'row',
-    justifyContent: 'flex-start',
     shadowColor: "#000",
     shadowOffset: { width: 0, height: -2 },
     shadowOpacity: 0.1,
     shadowRadius: 3,
   },
+  selectedImageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  selectedImageItem: {
+    marginRight: 10,
+    paddingTop: 5,
+  },
   selectedImage: {
     width: 100,
     height: 70,
     borderRadius: 8,
   },
+  preparingImage: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  pendingCardContainer: {
+    paddingHorizontal: 10,
+    paddingTop: 6,
+  },
   removeImageButton: {
     position: 'absolute',
     top: -5,
@@ -20,6 +20,8 @@ import CustomButton from "@/components/ui/Button/Button";
 import { addFavoriteServiceAPI } from "@/utils/favoriteAPI";
 import { getUserIdFromToken } from "@/services/auth";
 import { getReviewByServiceIdAPI, IReview } from "@/utils/reviewAPI";
+import { useSurveyDraft } from "@/hooks/useSurveyDrafts";
+import surveyDrafts, { getSurveyDraftProgress } from "@/services/SurveyDraftService";
 const { width } = Dimensions.get("window");
 
 // Define proper interfaces based on actual API response
@@ -122,6 +124,8 @@ const [reviewsError, setReviewsError] = useState<string | null>(null);
   const { theme } = useTheme();
   const validTheme = theme as "light" | "dark";
   const colors = Colors[validTheme];
+  const { draft } = useSurveyDraft(Number(id));
+  const draftProgress = draft ? getSurveyDraftProgress(draft.form) : null;
   const handleAddToFavorite = async () => {
     if (!decorDetail) return;
   
@@ -210,11 +214,7 @@ const fetchReviews = async (serviceId: number) => {
     setReviewsError(null);
     
     const reviewsData = await getReviewByServiceIdAPI(serviceId);
-    if (reviewsData) {
-      setReviews(Array.isArray(reviewsData) ? reviewsData : []);
-    } else {
-      setReviews([]);
-    }
+    setReviews(reviewsData);
   } catch (error: any) {
     console.error("Failed to fetch reviews:", error.message);
     setReviewsError("Failed to load reviews");
@@ -330,6 +330,58 @@ const handleBooking = () => {
   }
 };
 
+  // Pick up a saved survey form: straight to the survey if its date is still bookable,
+  // otherwise through the booking step to choose a new date (answers are restored there too)
+  const handleResumeDraft = () => {
+    if (!draft || !decorDetail) return;
+
+    const now = new Date();
+    const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    const earliestDate = `${tomorrow.getFullYear()}-${String(tomorrow.getMonth() + 1).padStart(2, '0')}-${String(tomorrow.getDate()).padStart(2, '0')}`;
+
+    if (!draft.booking || draft.booking.surveyDate < earliestDate) {
+      handleBooking();
+      return;
+    }
+
+    const bookingData = {
+      decorServiceId: decorDetail.id,
+      addressId: draft.booking.addressId,
+      surveyDate: draft.booking.surveyDate,
+      note: draft.booking.note,
+      serviceName: draft.serviceName || decorDetail.style,
+    };
+    const globalData = globalThis as any;
+    globalData.currentBookingState = {
+      serviceId: String(decorDetail.id),
+      style: decorDetail.style || "",
+      bookingData,
+    };
+
+    router.push({
+      pathname: "/booking/survey-form",
+      params: {
+        decorServiceId: String(decorDetail.id),
+        addressId: String(bookingData.addressId),
+        surveyDate: bookingData.surveyDate,
+        serviceName: bookingData.serviceName,
+        note: bookingData.note || "",
+      },
+    });
+  };
+
+  const handleDiscardDraft = () => {
+    if (!draft) return;
+    Alert.alert(
+      "Discard saved request?",
+      "Your saved survey answers for this service will be deleted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => surveyDrafts.removeDraft(draft.decorServiceId) },
+      ]
+    );
+  };
+
   const toggleDescription = () => {
     setShowFullDescription(!showFullDescription);
   };
@@ -458,6 +510,29 @@ const handleBooking = () => {
             <Text style={styles.statusText}>{decorDetail.status === 0 ? 'Active' : 'Pending'}</Text>
           </View>
         </View>
+
+        {/* Resume saved booking request */}
+        {draft && draftProgress && (
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: PRIMARY_COLOR }]}>
+            <View style={styles.draftHeader}>
+              <Ionicons name="document-text-outline" size={22} color={PRIMARY_COLOR} />
+              <View style={styles.draftInfo}>
+                <Text style={[styles.draftTitle, { color: colors.text }]}>Resume your booking request</Text>
+                <Text style={[styles.draftSubtitle, { color: colors.textSecondary }]}>
+                  {draftProgress.answered} of {draftProgress.total} answered · saved {formatDate(new Date(draft.updatedAt).toISOString())}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.draftActions}>
+              <TouchableOpacity style={styles.draftDiscardButton} onPress={handleDiscardDraft}>
+                <Text style={[styles.draftDiscardText, { color: colors.textSecondary }]}>Discard</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.draftResumeButton, { backgroundColor: PRIMARY_COLOR }]} onPress={handleResumeDraft}>
+                <Text style={styles.draftResumeText}>Resume</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
 {/* Basic Info Card - Touchable */}
 <TouchableOpacity 
   activeOpacity={0.8}
@@ -884,6 +959,46 @@ const styles = StyleSheet.create({
   spacer: { width: 40 },
 
   // Status badge
+  draftHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  draftInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  draftTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  draftSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  draftActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  draftDiscardButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    marginRight: 8,
+  },
+  draftDiscardText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  draftResumeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+  },
+  draftResumeText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   statusContainer: {
     position: 'absolute',
     top: 70,
@@ -1,9 +1,9 @@
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   Platform,
   StatusBar,
@@ -15,9 +15,23 @@ import { useTheme } from '@/constants/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useIsFocused } from '@react-navigation/native';
-import { initApiClient } from "@/config/axiosConfig";
+import Swipeable, { SwipeableMethods } from 'react-native-gesture-handler/ReanimatedSwipeable';
 import { notificationService, Notification } from "@/services/NotificationHubService";
+import { useHubConnectionState } from "@/hooks/useHubConnectionState";
+import { invalidateAfter } from '@/hooks/queryClient';
+import { updateCachedNotifications, useNotifications } from '@/hooks/useNotificationQueries';
 import { getToken } from '@/services/auth';
+import deepLinks from '@/services/DeepLinkService';
+import { resolveDeepLink } from '@/utils/deepLinks';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { filterVisibleNotifications } from '@/utils/notificationPreferences';
+import {
+  buildNotificationSections,
+  getNotificationActions,
+  INotificationAction,
+  INotificationGroup
+} from '@/utils/notificationCenter';
+import { deleteNotificationAPI } from '@/utils/notificationsAPI';
 
 export default function NotificationsScreen() {
   const { theme } = useTheme();
@@ -25,87 +39,40 @@ export default function NotificationsScreen() {
   const isFocused = useIsFocused(); // Hook to detect when screen is focused
 
   // State
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
   const [filterType, setFilterType] = useState<'all' | 'unread'>('all');
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>(
-    notificationService.isConnected() ? 'connected' : 'disconnected'
-  );
+  // Reconnect attempts show as "connecting" too
+  const hubState = useHubConnectionState(notificationService.hub);
+  const connectionStatus = hubState === 'reconnecting' ? 'connecting' : hubState;
   const [userId, setUserId] = useState<string | null>(null);
-  const [lastTabChangeTime, setLastTabChangeTime] = useState<number>(Date.now());
-  
-  // Reference to store last active state
-  const wasActiveRef = useRef<boolean>(true);
+
+  // Danh sách thông báo được cache theo bộ lọc; chỉ tải khi màn hình đang hiển thị
+  const notificationsQuery = useNotifications(filterType, isFocused);
+  const { preferences } = useNotificationPreferences();
+  const allNotifications = notificationsQuery.data ?? [];
+  // Muted types are left out; the banner below the filter says how many
+  const notifications = useMemo(
+    () => filterVisibleNotifications(preferences, allNotifications),
+    [preferences, allNotifications]
+  );
+  const hiddenCount = allNotifications.length - notifications.length;
+
+  // Notifications about the same booking / quotation / contract are grouped, by day
+  const sections = useMemo(() => buildNotificationSections(notifications), [notifications]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+  const selectionMode = selectedKeys.size > 0;
+  const loading = notificationsQuery.isLoading;
+  const error = connectionError ?? (notificationsQuery.isError ? notificationsQuery.error.message : null);
 
   // Define callback functions first to avoid "used before declaration" errors
   
   // Fetch notifications from API
   const fetchNotifications = useCallback(async () => {
     if (!isFocused) return; // Don't fetch if screen is not focused
-    
-    setLoading(prevLoading => !refreshing && prevLoading);
-    setError(null);
-
-    try {
-      // Verify authentication
-      const token = await getToken();
-      
-      if (!token) {
-        console.warn("⚠️ User not logged in when fetching notifications. Redirecting.");
-        router.replace('/(auth)/login');
-        setLoading(false);
-        return;
-      }
-
-      // Determine API endpoint based on filter type
-      const url = filterType === 'all'
-        ? `/api/Notification/getAllNotifications`
-        : `/api/Notification/getUnreadNotification`;  // Use the original endpoint name
-
-      console.log(`🔍 Fetching ${filterType} notifications from:`, url);
-
-      const apiClient = await initApiClient();
-      const response = await apiClient.get(url);
-
-      console.log("📡 API response status:", response.status);
-
-      if (response.data && (response.data.success === true || response.data.Success === true) && Array.isArray(response.data.data || response.data.Data)) {
-        // Handle both camelCase and PascalCase response formats
-        const data = response.data.data || response.data.Data;
-        console.log(`✅ Successfully retrieved ${data.length} ${filterType} notifications`);
-        setNotifications(data);
-      } else if (Array.isArray(response.data)) {
-        // Handle case where API returns array directly
-        console.log(`✅ Successfully retrieved ${response.data.length} ${filterType} notifications (direct array)`);
-        setNotifications(response.data);
-      } else {
-        console.error("❌ Unexpected API response format or empty data:", response.data);
-        setError(`Unable to load ${filterType} notifications. Please try again later.`);
-        setNotifications([]); // Clear old data on error
-      }
-    } catch (error: any) {
-      console.error(`❌ Error fetching ${filterType} notifications:`, error);
-      
-      // Check for specific errors
-      if (error.response && error.response.status === 401) {
-        console.warn("🔐 Authentication error when fetching notifications. Redirecting.");
-        router.replace('/(auth)/login');
-      } else if (error.response && error.response.status === 404 && filterType === 'unread') {
-        // Handle 404 for unread notifications - show a user-friendly message
-        console.warn("⚠️ Unread notifications endpoint not found. Showing empty state.");
-        setNotifications([]);
-        setError("You have no unread notifications.");
-      } else {
-        setError("Connection error or error loading notification data.");
-        setNotifications([]); // Clear old data
-      }
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [filterType, router, isFocused, refreshing]);
+    await notificationsQuery.refetch();
+  }, [isFocused, notificationsQuery.refetch]);
 
   // Format time helper function
   const formatTime = useCallback((dateString?: string) => {
@@ -142,11 +109,11 @@ export default function NotificationsScreen() {
   const handleNewNotification = useCallback((notification: Notification) => {
     console.log("📱 New notification received:", notification.title);
     
-    // Add new notification to the list (at the beginning)
-    setNotifications(prevNotifications => {
+    // Add new notification to the cached lists (at the beginning)
+    updateCachedNotifications((prevNotifications, filter) => {
       // Check if notification already exists
       const exists = prevNotifications.some(n => n.id === notification.id);
-      if (exists) return prevNotifications;
+      if (exists || (filter === 'unread' && notification.isRead)) return prevNotifications;
       
       // Add the new notification at the beginning
       return [notification, ...prevNotifications];
@@ -157,8 +124,8 @@ export default function NotificationsScreen() {
   const handleNotificationRead = useCallback((notificationId: string) => {
     console.log("✅ Notification marked as read:", notificationId);
     
-    // Update local state to reflect read status
-    setNotifications(prevNotifications => 
+    // Update cached lists to reflect read status
+    updateCachedNotifications(prevNotifications => 
       prevNotifications.map(notif => 
         notif.id === notificationId ? { ...notif, isRead: true } : notif
       )
@@ -169,9 +136,9 @@ export default function NotificationsScreen() {
   const handleNotificationsUpdated = useCallback(() => {
     console.log("🔄 All notifications have been updated");
     
-    // Refresh notifications from API
-    fetchNotifications();
-  }, [fetchNotifications]);
+    // Refresh every cached notification list from API
+    invalidateAfter('notificationChange');
+  }, []);
 
   // Handle notification press
   const handleNotificationPress = useCallback((notification: Notification) => {
@@ -189,58 +156,105 @@ export default function NotificationsScreen() {
         });
         
       // Immediately update UI
-      setNotifications(prevNotifications =>
+      updateCachedNotifications(prevNotifications =>
         prevNotifications.map(notif =>
           notif.id === notification.id ? { ...notif, isRead: true } : notif
         )
       );
     }
 
-    // Handle navigation based on URL
-    if (notification.url) {
-      const urlPath = notification.url.startsWith('/') ? notification.url : `/${notification.url}`;
+    // Handle navigation based on URL; routes are defined in utils/deepLinks.ts
+    const match = notification.url ? resolveDeepLink(notification.url) : null;
 
-      if (urlPath.startsWith('http')) {
-        // External link
-        Alert.alert(notification.title, `Link: ${notification.url}`);
-        // You could use Linking.openURL(notification.url) here
-      } else {
-        // Internal link
-        const pathStr = urlPath.split('?')[0];
-        console.log("🔗 Internal navigation to:", urlPath);
-
-        // Route handling
-        if (pathStr === '/cart') {
-          router.push('/cart');
-        }
-        else if (pathStr === '/notifications') {
-          // Already on notifications page, do nothing or scroll to top
-        }
-        else if (pathStr.startsWith('/product/product-detail/')) {
-          const id = pathStr.split('/').pop() || '';
-          if (id) router.push(`/product/product-detail/${id}`);
-        }
-        else if (pathStr.startsWith('/quotation/list')) {
-          router.push('/quotation/list');
-        }
-        else if (pathStr.startsWith('/quotation/contract/')) {
-          const code = pathStr.split('/').pop() || '';
-          if (code) router.push(`/quotation/contract/${code}`);
-        }
-        // Add other routes as needed
-        else if (pathStr.startsWith('/screens/') || pathStr.startsWith('/booking/request')) {
-          router.push(urlPath as any);
-        }
-        else {
-          // Undefined route - just show content
-          Alert.alert(notification.title, notification.content.replace(/<[^>]*>?/gm, ''));
-        }
+    if (match) {
+      // Already on the notifications page, nothing to open
+      if (match.name !== 'notifications') {
+        deepLinks.open(match.url);
       }
+    } else if (notification.url && /^https?:\/\//i.test(notification.url)) {
+      // External link
+      Alert.alert(notification.title, `Link: ${notification.url}`);
     } else {
-      // No URL - just show notification content
+      // No URL or unknown route - just show notification content
       Alert.alert(notification.title, notification.content.replace(/<[^>]*>?/gm, ''));
     }
-  }, [router]);
+  }, []);
+
+  // Mark several notifications as read, e.g. a whole group or the current selection
+  const markNotificationsRead = useCallback(async (items: Notification[]) => {
+    const unread = items.filter(item => !item.isRead);
+    if (unread.length === 0) return;
+
+    const ids = new Set(unread.map(item => item.id));
+    updateCachedNotifications(prevNotifications =>
+      prevNotifications.map(notif => (ids.has(notif.id) ? { ...notif, isRead: true } : notif))
+    );
+
+    const results = await Promise.all(unread.map(item => notificationService.markAsRead(item.id)));
+    if (results.some(success => !success)) {
+      console.warn("⚠️ Could not mark some notifications as read");
+    }
+  }, []);
+
+  const deleteNotifications = useCallback((items: Notification[], onDone?: () => void) => {
+    const label = items.length === 1 ? 'this notification' : `${items.length} notifications`;
+
+    Alert.alert('Delete notifications', `Delete ${label}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const results = await Promise.all(items.map(item => deleteNotificationAPI(item.id)));
+          const deleted = new Set(items.filter((_, index) => results[index]).map(item => item.id));
+
+          updateCachedNotifications(prevNotifications => prevNotifications.filter(notif => !deleted.has(notif.id)));
+          onDone?.();
+
+          if (deleted.size < items.length) {
+            Alert.alert('Delete failed', `${items.length - deleted.size} notification(s) could not be deleted. Please try again.`);
+          }
+        }
+      }
+    ]);
+  }, []);
+
+  const handleActionPress = useCallback((group: INotificationGroup<Notification>, action: INotificationAction) => {
+    markNotificationsRead(group.notifications);
+    router.push({ pathname: action.pathname, params: action.params } as any);
+  }, [markNotificationsRead, router]);
+
+  const toggleKey = (setKeys: React.Dispatch<React.SetStateAction<Set<string>>>, key: string) => {
+    setKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const selectedNotifications = useMemo(
+    () => sections.flatMap(section => section.data)
+      .filter(group => selectedKeys.has(group.key))
+      .flatMap(group => group.notifications),
+    [sections, selectedKeys]
+  );
+
+  const handleSelectAll = () => {
+    setSelectedKeys(new Set(sections.flatMap(section => section.data.map(group => group.key))));
+  };
+
+  const handleBulkMarkRead = async () => {
+    await markNotificationsRead(selectedNotifications);
+    setSelectedKeys(new Set());
+  };
+
+  const handleBulkDelete = () => {
+    deleteNotifications(selectedNotifications, () => setSelectedKeys(new Set()));
+  };
 
   // Get notification icon based on type
   const getNotificationIcon = useCallback((type: string | undefined) => {
@@ -277,17 +291,15 @@ export default function NotificationsScreen() {
       }
     }
     
-    setConnectionStatus('connecting');
     try {
       await notificationService.startConnection(userId!);
-      setConnectionStatus('connected');
+      setConnectionError(null);
       console.log("✅ Successfully reconnected to NotificationHub");
       
       // Refresh notifications after reconnect
       fetchNotifications();
     } catch (error) {
       console.error("❌ Error reconnecting to NotificationHub:", error);
-      setConnectionStatus('disconnected');
     }
   }, [userId, fetchNotifications]);
 
@@ -299,7 +311,7 @@ export default function NotificationsScreen() {
       const success = await notificationService.markAllAsRead();
       if (success) {
         // Update all notifications as read
-        setNotifications(prevNotifications =>
+        updateCachedNotifications(prevNotifications =>
           prevNotifications.map(notif => ({ ...notif, isRead: true }))
         );
         console.log("✅ All notifications marked as read");
@@ -309,12 +321,16 @@ export default function NotificationsScreen() {
     } catch (error) {
       console.error("❌ Error marking all notifications as read:", error);
     }
-  }, [notifications]);
+  }, [notifications.length]);
 
   // Handle pull-to-refresh
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await fetchNotifications();
+    try {
+      await fetchNotifications();
+    } finally {
+      setRefreshing(false);
+    }
   }, [fetchNotifications]);
 
   // Initialize notification service and check auth status
@@ -337,30 +353,21 @@ export default function NotificationsScreen() {
           
           // Initialize SignalR connection if not connected
           if (!notificationService.isConnected()) {
-            setConnectionStatus('connecting');
             try {
               await notificationService.startConnection(uid);
-              setConnectionStatus('connected');
               console.log("✅ NotificationHub connection successful");
             } catch (error) {
               console.error("❌ Error connecting to NotificationHub:", error);
-              setConnectionStatus('disconnected');
-              setError("Unable to connect to notification service. Please try again later.");
+              setConnectionError("Unable to connect to notification service. Please try again later.");
             }
-          } else {
-            setConnectionStatus('connected');
           }
         } catch (error) {
           console.warn("⚠️ Could not get user ID:", error);
-          setError("Unable to identify current user");
+          setConnectionError("Unable to identify current user");
         }
-
-        // Fetch initial notifications
-        fetchNotifications();
       } catch (error) {
         console.error("❌ Initialization error:", error);
-        setError("App initialization error. Please try again later.");
-        setLoading(false);
+        setConnectionError("App initialization error. Please try again later.");
       }
     };
 
@@ -368,71 +375,19 @@ export default function NotificationsScreen() {
 
     // No cleanup needed here - will be handled in other effects
     return () => {};
-  }, [router, fetchNotifications]);
-
-  // Detect application coming to foreground (tab switching)
-  useEffect(() => {
-    // This will handle app state changes (background/foreground)
-    const handleAppStateChange = () => {
-      // If app becomes active and was previously inactive, refresh
-      if (isFocused) {
-        const wasActive = wasActiveRef.current;
-        wasActiveRef.current = true;
-
-        // Only refresh if coming from background or it's been at least 1 minute since last refresh
-        const now = Date.now();
-        const timeSinceLastRefresh = now - lastTabChangeTime;
-        const shouldRefresh = !wasActive || timeSinceLastRefresh > 60000; // 1 minute threshold
-        
-        if (shouldRefresh) {
-          console.log("📱 App came to foreground or tab switched - refreshing notifications");
-          setLastTabChangeTime(now);
-          fetchNotifications();
-        }
-      } else {
-        // Mark as inactive when navigating away
-        wasActiveRef.current = false;
-      }
-    };
-
-    // Initial check
-    handleAppStateChange();
-
-    // Return cleanup function
-    return () => {};
-  }, [isFocused, fetchNotifications, lastTabChangeTime]);
-
-  // Refresh notifications when the screen is focused
-  useEffect(() => {
-    if (isFocused) {
-      console.log("📱 Screen focused - refreshing notifications");
-      fetchNotifications();
-    }
-  }, [isFocused, fetchNotifications]);
+  }, [router]);
 
-  // Register for real-time notifications
+  // Register for real-time notifications; the hub keeps handlers across reconnects
   useEffect(() => {
-    if (connectionStatus === 'connected') {
-      // Register event handlers for real-time updates
-      notificationService.onNotificationReceived(handleNewNotification);
-      notificationService.onNotificationRead(handleNotificationRead);
-      notificationService.onNotificationsUpdated(handleNotificationsUpdated);
-    }
+    const unsubscribers = [
+      notificationService.onNotificationReceived(handleNewNotification),
+      notificationService.onNotificationRead(handleNotificationRead),
+      notificationService.onNotificationsUpdated(handleNotificationsUpdated),
+    ];
 
-    return () => {
-      // Clean up listeners when component unmounts or connectionStatus changes
-      notificationService.offNotificationReceived(handleNewNotification);
-      notificationService.offNotificationRead(handleNotificationRead);
-      notificationService.offNotificationsUpdated(handleNotificationsUpdated);
-    };
-  }, [connectionStatus, handleNewNotification, handleNotificationRead, handleNotificationsUpdated]);
-
-  // Effects to refresh when filterType changes
-  useEffect(() => {
-    if (!loading && !refreshing) {
-      fetchNotifications();
-    }
-  }, [filterType, fetchNotifications, loading, refreshing]);
+    // Clean up listeners when the component unmounts or a handler changes
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [handleNewNotification, handleNotificationRead, handleNotificationsUpdated]);
 
   // Filter toggle component
   const FilterToggle = () => (
@@ -520,42 +475,146 @@ export default function NotificationsScreen() {
     </View>
   );
 
-  // FlatList item renderer
-  const renderItem = useCallback(({ item }: { item: Notification }) => (
-    <TouchableOpacity
-      style={[
-        styles.notificationItem,
-        { backgroundColor: item.isRead
-          ? (theme === 'dark' ? '#252525' : '#fff')
-          : (theme === 'dark' ? '#353535' : '#f0f9ff')
-        }
-      ]}
-      onPress={() => handleNotificationPress(item)}
-    >
-      <View style={[
-        styles.iconContainer,
-        { backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)' }
-      ]}>
-        {getNotificationIcon(item.type)}
-      </View>
-      <View style={styles.contentContainer}>
-        <Text style={[styles.title, { color: theme === 'dark' ? '#fff' : '#000' }]}>
-          {item.title}
-        </Text>
-        <Text
-          style={[styles.content, { color: theme === 'dark' ? '#ccc' : '#555' }]}
-          numberOfLines={2}
+  const textColor = theme === 'dark' ? '#fff' : '#000';
+  const secondaryColor = theme === 'dark' ? '#999' : '#888';
+
+  // Swipe left on a group to mark it read or delete it
+  const renderSwipeActions = (group: INotificationGroup<Notification>, swipeable: SwipeableMethods) => (
+    <View style={styles.swipeActions}>
+      {group.unreadCount > 0 && (
+        <TouchableOpacity
+          style={[styles.swipeAction, { backgroundColor: '#5fc1f1' }]}
+          onPress={() => {
+            swipeable.close();
+            markNotificationsRead(group.notifications);
+          }}
         >
-          {/* Remove HTML tags */}
-          {item.content ? item.content.replace(/<[^>]*>?/gm, '') : ''}
-        </Text>
-        <Text style={[styles.time, { color: theme === 'dark' ? '#999' : '#888' }]}>
-          {formatTime(item.notifiedAt || item.createdAt)}
-        </Text>
-      </View>
-      {!item.isRead && <View style={styles.unreadIndicator} />}
-    </TouchableOpacity>
-  ), [theme, handleNotificationPress, getNotificationIcon, formatTime]);
+          <Ionicons name="checkmark-done-outline" size={22} color="#fff" />
+          <Text style={styles.swipeActionText}>Read</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={[styles.swipeAction, { backgroundColor: '#F44336' }]}
+        onPress={() => deleteNotifications(group.notifications, () => swipeable.close())}
+      >
+        <Ionicons name="trash-outline" size={22} color="#fff" />
+        <Text style={styles.swipeActionText}>Delete</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // SectionList renderer: one card per group, showing its newest notification
+  const renderGroup = ({ item: group }: { item: INotificationGroup<Notification> }) => {
+    const { latest, target } = group;
+    const selected = selectedKeys.has(group.key);
+    const expanded = expandedKeys.has(group.key);
+    const older = group.notifications.slice(1);
+    const actions = getNotificationActions(latest);
+
+    const card = (
+      <TouchableOpacity
+        style={[
+          styles.notificationItem,
+          { backgroundColor: group.unreadCount > 0
+            ? (theme === 'dark' ? '#353535' : '#f0f9ff')
+            : (theme === 'dark' ? '#252525' : '#fff')
+          },
+          selected && styles.selectedItem
+        ]}
+        onPress={() => (selectionMode ? toggleKey(setSelectedKeys, group.key) : handleNotificationPress(latest))}
+        onLongPress={() => toggleKey(setSelectedKeys, group.key)}
+        delayLongPress={300}
+      >
+        <View style={[
+          styles.iconContainer,
+          { backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)' }
+        ]}>
+          {selectionMode ? (
+            <Ionicons
+              name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+              size={24}
+              color={selected ? '#5fc1f1' : secondaryColor}
+            />
+          ) : getNotificationIcon(latest.type)}
+        </View>
+        <View style={styles.contentContainer}>
+          <Text style={[styles.title, { color: textColor }]}>
+            {latest.title}
+          </Text>
+          <Text
+            style={[styles.content, { color: theme === 'dark' ? '#ccc' : '#555' }]}
+            numberOfLines={2}
+          >
+            {/* Remove HTML tags */}
+            {latest.content ? latest.content.replace(/<[^>]*>?/gm, '') : ''}
+          </Text>
+          <View style={styles.metaRow}>
+            <Text style={[styles.time, { color: secondaryColor }]}>
+              {formatTime(latest.notifiedAt || latest.createdAt)}
+            </Text>
+            {target && (
+              <Text style={[styles.targetChip, { color: secondaryColor, borderColor: secondaryColor }]}>
+                {target.code}
+              </Text>
+            )}
+            {older.length > 0 && (
+              <TouchableOpacity onPress={() => toggleKey(setExpandedKeys, group.key)}>
+                <Text style={styles.moreText}>
+                  {expanded ? 'Hide earlier' : `${older.length} earlier ${older.length === 1 ? 'update' : 'updates'}`}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {expanded && older.map(item => (
+            <TouchableOpacity
+              key={item.id}
+              style={styles.olderItem}
+              onPress={() => handleNotificationPress(item)}
+              disabled={selectionMode}
+            >
+              <View style={[styles.olderDot, { backgroundColor: item.isRead ? 'transparent' : '#5fc1f1' }]} />
+              <Text style={[styles.olderTitle, { color: textColor }]} numberOfLines={1}>
+                {item.title}
+              </Text>
+              <Text style={[styles.time, { color: secondaryColor }]}>
+                {formatTime(item.notifiedAt || item.createdAt)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          {!selectionMode && actions.length > 0 && (
+            <View style={styles.actionsRow}>
+              {actions.map(action => (
+                <TouchableOpacity
+                  key={action.key}
+                  style={styles.actionButton}
+                  onPress={() => handleActionPress(group, action)}
+                >
+                  <Ionicons name={action.icon as any} size={14} color="#5fc1f1" />
+                  <Text style={styles.actionText}>{action.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+        {group.unreadCount > 0 && <View style={styles.unreadIndicator} />}
+      </TouchableOpacity>
+    );
+
+    if (selectionMode) return card;
+
+    return (
+      <Swipeable
+        friction={2}
+        rightThreshold={40}
+        overshootRight={false}
+        renderRightActions={(_progress, _drag, swipeable) => renderSwipeActions(group, swipeable)}
+      >
+        {card}
+      </Swipeable>
+    );
+  };
 
   // Empty state component
   const EmptyState = useCallback(() => (
@@ -592,23 +651,37 @@ export default function NotificationsScreen() {
         backgroundColor={theme === 'dark' ? '#151718' : '#ffffff'}
       />
 
-      {/* Fixed Header */}
+      {/* Fixed Header; shows the selection count while selecting */}
       <View style={[styles.header, { backgroundColor: theme === 'dark' ? '#151718' : '#ffffff' }]}>
         <TouchableOpacity
           style={styles.backButton}
-          onPress={() => router.back()}
+          onPress={() => (selectionMode ? setSelectedKeys(new Set()) : router.back())}
         >
           <Ionicons
-            name="arrow-back"
+            name={selectionMode ? 'close' : 'arrow-back'}
             size={24}
-            color={theme === 'dark' ? '#fff' : '#000'}
+            color={textColor}
           />
         </TouchableOpacity>
-        <Text style={[styles.headerTitle, { color: theme === 'dark' ? '#fff' : '#000' }]}>
-          Notifications
+        <Text style={[styles.headerTitle, { color: textColor }]}>
+          {selectionMode ? `${selectedKeys.size} selected` : 'Notifications'}
         </Text>
-        {/* Right space for balance */}
-        <View style={styles.headerRightSpace} />
+        {selectionMode ? (
+          <TouchableOpacity style={styles.headerRightButton} onPress={handleSelectAll}>
+            <Text style={styles.selectAllText}>All</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.headerRightButton}
+            onPress={() => router.push('/screens/NotificationSettings')}
+          >
+            <Ionicons
+              name="settings-outline"
+              size={22}
+              color={textColor}
+            />
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Connection status indicator */}
@@ -617,6 +690,18 @@ export default function NotificationsScreen() {
       {/* Filter toggle */}
       <FilterToggle />
 
+      {hiddenCount > 0 && (
+        <TouchableOpacity
+          style={styles.hiddenBanner}
+          onPress={() => router.push('/screens/NotificationSettings')}
+        >
+          <Ionicons name="notifications-off-outline" size={16} color={theme === 'dark' ? '#aaa' : '#777'} />
+          <Text style={[styles.hiddenBannerText, { color: theme === 'dark' ? '#aaa' : '#777' }]}>
+            {hiddenCount} muted {hiddenCount === 1 ? 'notification' : 'notifications'} hidden · Settings
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Conditional rendering based on loading, error, or data */}
       {loading ? (
         <View style={styles.loadingContainer}>
@@ -626,11 +711,21 @@ export default function NotificationsScreen() {
         // Show EmptyState if no notifications and not loading
         <EmptyState />
       ) : (
-        // Show notification list
-        <FlatList
-          data={notifications}
-          renderItem={renderItem}
-          keyExtractor={item => item.id.toString()}
+        // Show grouped notifications by day
+        <SectionList
+          sections={sections}
+          renderItem={renderGroup}
+          renderSectionHeader={({ section }) => (
+            <Text style={[
+              styles.sectionHeader,
+              { color: secondaryColor, backgroundColor: theme === 'dark' ? '#151718' : '#f8f9fa' }
+            ]}>
+              {section.title}
+            </Text>
+          )}
+          keyExtractor={group => group.key}
+          extraData={{ selectedKeys, expandedKeys }}
+          stickySectionHeadersEnabled
           contentContainerStyle={styles.listContainer}
           showsVerticalScrollIndicator={false}
           refreshControl={
@@ -643,6 +738,26 @@ export default function NotificationsScreen() {
           }
         />
       )}
+
+      {/* Bulk actions for the selected groups */}
+      {selectionMode && (
+        <View style={[
+          styles.bulkBar,
+          {
+            backgroundColor: theme === 'dark' ? '#252525' : '#fff',
+            borderTopColor: theme === 'dark' ? '#353535' : '#e0e0e0'
+          }
+        ]}>
+          <TouchableOpacity style={styles.bulkButton} onPress={handleBulkMarkRead}>
+            <Ionicons name="checkmark-done-outline" size={20} color="#5fc1f1" />
+            <Text style={[styles.bulkButtonText, { color: '#5fc1f1' }]}>Mark as read</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.bulkButton} onPress={handleBulkDelete}>
+            <Ionicons name="trash-outline" size={20} color="#F44336" />
+            <Text style={[styles.bulkButtonText, { color: '#F44336' }]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 }
@@ -680,8 +795,20 @@ const styles = StyleSheet.create({
     width: 40,
     alignItems: 'flex-start',
   },
-  headerRightSpace: {
+  headerRightButton: {
+    padding: 8,
     width: 40,
+    alignItems: 'flex-end',
+  },
+  hiddenBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  hiddenBannerText: {
+    fontSize: 13,
   },
   connectionStatusContainer: {
     flexDirection: 'row',
@@ -808,6 +935,105 @@ const styles = StyleSheet.create({
   time: {
     fontSize: 12,
   },
+  selectedItem: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#5fc1f1',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  targetChip: {
+    fontSize: 11,
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
+  moreText: {
+    fontSize: 12,
+    color: '#5fc1f1',
+    fontWeight: '500',
+  },
+  olderItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  olderDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  olderTitle: {
+    flex: 1,
+    fontSize: 13,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#5fc1f1',
+  },
+  actionText: {
+    fontSize: 12,
+    color: '#5fc1f1',
+    fontWeight: '500',
+  },
+  swipeActions: {
+    flexDirection: 'row',
+  },
+  swipeAction: {
+    width: 76,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  swipeActionText: {
+    color: '#fff',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '600',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  selectAllText: {
+    color: '#5fc1f1',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  bulkBar: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    paddingVertical: 10,
+    paddingBottom: Platform.OS === 'ios' ? 24 : 10,
+  },
+  bulkButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  bulkButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
   unreadIndicator: {
     position: 'absolute',
     top: 16,
@@ -2,6 +2,7 @@ import React, { useEffect } from 'react';
 import { View, ActivityIndicator, StyleSheet, Text } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import deepLinks from '@/services/DeepLinkService';
 
 export default function OAuthRedirect() {
   const router = useRouter();
@@ -15,9 +16,9 @@ export default function OAuthRedirect() {
         const token = await AsyncStorage.getItem('@app_token');
         
         if (token) {
-          // If token exists, redirect to profile
-          setTimeout(() => {
-            router.replace("/(tabs)/profile");
+          // If token exists, continue to a pending deep link or the profile
+          setTimeout(async () => {
+            if (!(await deepLinks.resumePendingLink())) router.replace("/(tabs)/profile");
           }, 1000);
         } else {
           // If no token found, return to login page
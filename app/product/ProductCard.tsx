@@ -4,6 +4,7 @@ import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 import { Ionicons } from "@expo/vector-icons";
 import { addToCartAPI } from "@/utils/cartAPI";
+import { isQueuedMutation } from "@/services/OfflineQueueService";
 import { getUserIdFromToken } from "@/services/auth";
 
 const { width } = Dimensions.get("window");
@@ -51,7 +52,12 @@ const ProductCard: React.FC<ProductProps> = ({ product, onAddToCart }) => {
       console.log(`Adding product ${product.id} to cart for account ${accountId}`);
       
       // Call the API with correct parameters
-      await addToCartAPI(accountId, product.id, 1);
+      const result = await addToCartAPI(accountId, product.id, 1);
+      
+      if (isQueuedMutation(result)) {
+        Alert.alert("Saved Offline", `${product.productName} will be added to your cart when you are back online.`);
+        return;
+      }
       
       Alert.alert("Success", `${product.productName} added to your cart!`);
     } catch (error) {
@@ -12,6 +12,8 @@ import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 import { getReviewByProductIdAPI, IReview } from "@/utils/reviewAPI";
 import { addFavoriteProductAPI } from "@/utils/favoriteAPI";
+import { isQueuedMutation } from "@/services/OfflineQueueService";
+import { toChatShareParams } from "@/utils/chatCards";
 
 const { width } = Dimensions.get("window");
 
@@ -127,7 +129,10 @@ const ProductDetailScreen = () => {
       setIsFavorite(true);
       
       // Hiển thị thông báo thành công
-      Alert.alert("Success", "Product saved to your favorites!");
+      Alert.alert(
+        "Success",
+        isQueuedMutation(response) ? response.message : "Product saved to your favorites!"
+      );
       
     } catch (error: any) {
       console.error("Error saving product:", error);
@@ -150,30 +155,14 @@ const ProductDetailScreen = () => {
       setReviewsLoading(true);
       const response = await getReviewByProductIdAPI(productId);
       
-      // Kiểm tra cấu trúc dữ liệu và gán giá trị đúng
-      if (response) {
-        let reviewsData: any[] = [];
-        
-        if (Array.isArray(response)) {
-          reviewsData = response;
-        } else if (response.data && Array.isArray(response.data)) {
-          reviewsData = response.data;
-        } else {
-          console.log("❌ Không thể xác định cấu trúc dữ liệu review:", response);
-          reviewsData = [];
-        }
-        
-        // Clean HTML content from reviews
-        const cleanedReviews = reviewsData.map(review => ({
-          ...review,
-          comment: processTextContent(review.comment),
-          userName: processTextContent(review.userName)
-        }));
-        
-        setReviews(cleanedReviews);
-      } else {
-        setReviews([]);
-      }
+      // Clean HTML content from reviews
+      const cleanedReviews = response.data.map(review => ({
+        ...review,
+        comment: processTextContent(review.comment),
+        userName: processTextContent(review.userName)
+      }));
+      
+      setReviews(cleanedReviews);
     } catch (error) {
       console.error("❌ Error fetching reviews:", error);
       setReviews([]);
@@ -235,10 +224,13 @@ const ProductDetailScreen = () => {
       console.log(`Adding product ID ${product.id} to cart for user ID ${userId} with quantity ${quantity}`);
       
       // Call API with correct parameters
-      await addToCartAPI(userId, product.id, quantity);
+      const result = await addToCartAPI(userId, product.id, quantity);
       
       // Show success message
-      Alert.alert("✅ Success", "Product added to cart!");
+      Alert.alert(
+        "✅ Success",
+        isQueuedMutation(result) ? "You are offline. The product will be added to your cart when you reconnect." : "Product added to cart!"
+      );
     } catch (error) {
       // Error handling
       const errorMessage = error instanceof Error ? error.message : "Failed to add product to cart.";
@@ -491,6 +483,28 @@ const ProductDetailScreen = () => {
               <Ionicons name="chevron-forward" size={16} color={colors.primary} />
             </TouchableOpacity>
           )}
+
+          {product.provider?.id && (
+            <TouchableOpacity 
+              style={styles.viewProfileButton}
+              onPress={() => router.push({
+                pathname: "/chat/[userId]",
+                params: {
+                  userId: String(product.provider?.id),
+                  contactName: product.provider?.businessName || "Provider",
+                  ...toChatShareParams({
+                    type: "product",
+                    code: String(product.id),
+                    title: product.productName,
+                    subtitle: `${product.productPrice.toLocaleString()} ₫`,
+                  }),
+                },
+              })}
+            >
+              <Ionicons name="chatbubble-ellipses-outline" size={16} color={colors.primary} />
+              <Text style={[styles.viewProfileText, styles.askProviderText, { color: colors.primary }]}>Ask about this product</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -973,6 +987,9 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     paddingVertical: 10,
   },
+  askProviderText: {
+    marginLeft: 6,
+  },
   viewProfileText: {
     fontSize: 15,
     fontWeight: "500",
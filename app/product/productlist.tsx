@@ -1,25 +1,25 @@
-import React, { useEffect, useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   View,
   Text,
   ActivityIndicator,
-  FlatList,
   StyleSheet,
   TouchableOpacity,
   Dimensions
 } from "react-native";
 import { useRouter } from "expo-router";
-import { getProductsAPI, IProduct } from "@/utils/productAPI";
 import ProductCard from "@/app/product/ProductCard";
+import InfiniteList from "@/components/InfiniteList";
+import { flattenPages, useInfiniteProducts } from "@/hooks/useCatalogQueries";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 
 const { width } = Dimensions.get("window");
 
 const ProductListScreen = () => {
-  const [products, setProducts] = useState<IProduct[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
+  const productPages = useInfiniteProducts();
+  const products = useMemo(() => flattenPages(productPages.data), [productPages.data]);
+  const [refreshing, setRefreshing] = useState(false);
   const router = useRouter();
 
   // Access current theme
@@ -27,27 +27,17 @@ const ProductListScreen = () => {
   const validTheme = theme as "light" | "dark";
   const colors = Colors[validTheme];
 
-  useEffect(() => {
-    fetchProducts();
-  }, []);
-
-  const fetchProducts = async () => {
+  const onRefresh = async () => {
+    setRefreshing(true);
     try {
-      const data = await getProductsAPI();
-      if (Array.isArray(data)) {
-        setProducts(data);
-      } else {
-        setError("Invalid data format received.");
-      }
-    } catch (err: any) {
-      setError(err.message);
+      await productPages.refetch();
     } finally {
-      setLoading(false);
+      setRefreshing(false);
     }
   };
 
-  if (loading) return <ActivityIndicator size="large" color={colors.primary} />;
-  if (error) return <Text style={[styles.errorText, { color: colors.text }]}>{error}</Text>;
+  if (productPages.isLoading) return <ActivityIndicator size="large" color={colors.primary} />;
+  if (productPages.error) return <Text style={[styles.errorText, { color: colors.text }]}>{productPages.error.message}</Text>;
   if (products.length === 0) return <Text style={[styles.noProductText, { color: colors.text }]}>No products available.</Text>;
 
   return (
@@ -60,7 +50,7 @@ const ProductListScreen = () => {
         </Text>
       </View>
       
-      <FlatList
+      <InfiniteList
         data={products}
         keyExtractor={(item) => item.id.toString()}
         numColumns={2}
@@ -80,6 +70,12 @@ const ProductListScreen = () => {
         contentContainerStyle={styles.productList}
         columnWrapperStyle={styles.columnWrapper}
         showsVerticalScrollIndicator={false}
+        hasNextPage={productPages.hasNextPage}
+        isFetchingNextPage={productPages.isFetchingNextPage}
+        fetchNextPage={productPages.fetchNextPage}
+        refreshing={refreshing}
+        onRefresh={onRefresh}
+        restoreKey="productlist"
       />
     </View>
   );
@@ -42,6 +42,7 @@ import { IDecor } from "@/utils/decorserviceAPI";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 import { initApiClient } from "@/config/axiosConfig";
+import { normalizeApiResponse } from "@/utils/apiResult";
 import { addContactAPI } from "@/utils/contactAPI";
 
 // Constants
@@ -217,20 +218,10 @@ const ProviderDetailScreen: React.FC = () => {
       const apiClient = await initApiClient();
       const response = await apiClient.get("/api/follow/followings");
       
-      let following = false;
-      
-      // Check for various possible response formats
-      if (response?.data?.data && Array.isArray(response.data.data)) {
-        // API returns {data: {data: []}} format
-        following = response.data.data.some(
-          (user: any) => user.accountId === provider.id || user.id === provider.id
-        );
-      } else if (response?.data && Array.isArray(response.data)) {
-        // API returns {data: []} format
-        following = response.data.some(
-          (user: any) => user.accountId === provider.id || user.id === provider.id
-        );
-      }
+      const followings = normalizeApiResponse<any[]>(response).data;
+      const following = Array.isArray(followings) && followings.some(
+        (user: any) => user.accountId === provider.id || user.id === provider.id
+      );
       
       console.log(`Determined follow status: ${following}`);
       
@@ -0,0 +1,351 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  StatusBar
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTheme } from '@/constants/ThemeContext';
+import { Colors } from '@/constants/Colors';
+import { getQuotationDetailByCustomerAPI } from '@/utils/quotationsAPI';
+import { getPaginatedBookingsForCustomerAPI } from '@/utils/bookingAPI';
+import {
+  buildQuotationComparison,
+  CompareRowFormat,
+  IQuotationCompareInput,
+  MAX_COMPARE_QUOTATIONS,
+  MIN_COMPARE_QUOTATIONS
+} from '@/utils/quotationCompare';
+
+const QUOTATION_COLOR = "#34c759";
+const LABEL_COLUMN_WIDTH = 110;
+const VALUE_COLUMN_WIDTH = 150;
+
+const formatCompareValue = (format: CompareRowFormat, value: number | undefined): string => {
+  if (value === undefined) return '—';
+  switch (format) {
+    case 'currency':
+      return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+    case 'rating':
+      return `★ ${value.toFixed(1)}`;
+    case 'date':
+      return new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  }
+};
+
+const QuotationCompareScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme as "light" | "dark"];
+  const router = useRouter();
+  const { codes } = useLocalSearchParams();
+
+  // Selected quotations arrive as ?codes=QUO-1,QUO-2
+  const quotationCodes = useMemo(() => {
+    const raw = Array.isArray(codes) ? codes.join(',') : codes || '';
+    return Array.from(new Set(raw.split(',').map(code => code.trim()).filter(Boolean))).slice(0, MAX_COMPARE_QUOTATIONS);
+  }, [codes]);
+
+  const [inputs, setInputs] = useState<IQuotationCompareInput[]>([]);
+  const [failedCodes, setFailedCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      setLoading(true);
+
+      const [details, bookingsResponse] = await Promise.all([
+        Promise.allSettled(quotationCodes.map(code => getQuotationDetailByCustomerAPI(code))),
+        getPaginatedBookingsForCustomerAPI({ PageSize: 100 })
+      ]);
+
+      // Ratings and dates come from the booking each quotation was made for
+      const bookings = bookingsResponse.success ? bookingsResponse.data : [];
+      const loaded: IQuotationCompareInput[] = [];
+      const failed: string[] = [];
+
+      details.forEach((result, index) => {
+        if (result.status === 'fulfilled' && result.value) {
+          const quotation = result.value;
+          const booking = bookings.find((item: any) =>
+            item.quotationCode === quotation.quotationCode ||
+            (quotation.bookingCode && item.bookingCode === quotation.bookingCode)
+          );
+          loaded.push({ quotation, booking });
+        } else {
+          failed.push(quotationCodes[index]);
+        }
+      });
+
+      setInputs(loaded);
+      setFailedCodes(failed);
+      setLoading(false);
+    };
+
+    fetchComparison();
+  }, [quotationCodes]);
+
+  const comparison = useMemo(() => buildQuotationComparison(inputs), [inputs]);
+
+  const renderHeader = () => (
+    <View style={[styles.header, { borderBottomColor: colors.border }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <Ionicons name="arrow-back" size={24} color={colors.text} />
+      </TouchableOpacity>
+      <Text style={[styles.headerTitle, { color: colors.text }]}>Compare Quotations</Text>
+      <View style={styles.spacer} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={QUOTATION_COLOR} />
+          <Text style={[styles.loadingText, { color: colors.textSecondary }]}>Loading quotations...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (comparison.columns.length < MIN_COMPARE_QUOTATIONS) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+        {renderHeader()}
+        <View style={styles.centered}>
+          <Ionicons name="git-compare-outline" size={60} color={colors.border} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>Not enough quotations</Text>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            Select at least {MIN_COMPARE_QUOTATIONS} quotations to compare.
+            {failedCodes.length > 0 ? ` Could not load ${failedCodes.join(', ')}.` : ''}
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      {renderHeader()}
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {failedCodes.length > 0 && (
+          <View style={styles.warningBanner}>
+            <Ionicons name="warning-outline" size={18} color="#ff9500" />
+            <Text style={styles.warningText}>Could not load {failedCodes.join(', ')}</Text>
+          </View>
+        )}
+
+        <View style={[styles.table, { backgroundColor: colors.card }]}>
+          {/* Labels stay in place while the quotation columns scroll */}
+          <View style={{ width: LABEL_COLUMN_WIDTH }}>
+            <View style={[styles.columnHeaderCell, { borderBottomColor: colors.border }]} />
+            {comparison.rows.map(row => (
+              <View key={row.key} style={[styles.cell, { borderBottomColor: colors.border }]}>
+                <Text style={[styles.rowLabel, { color: colors.textSecondary }]}>{row.label}</Text>
+              </View>
+            ))}
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {comparison.columns.map((column, columnIndex) => (
+              <View key={column.quotationCode} style={[styles.valueColumn, { borderLeftColor: colors.border }]}>
+                <TouchableOpacity
+                  style={[styles.columnHeaderCell, { borderBottomColor: colors.border }]}
+                  onPress={() => router.push({
+                    pathname: "/quotation/quotation-detail/[code]",
+                    params: { code: column.quotationCode }
+                  })}
+                >
+                  <Text style={[styles.providerName, { color: colors.text }]} numberOfLines={2}>
+                    {column.providerName}
+                  </Text>
+                  <Text style={[styles.quotationCode, { color: QUOTATION_COLOR }]}>{column.quotationCode}</Text>
+                  {column.style ? (
+                    <Text style={[styles.caption, { color: colors.textSecondary }]} numberOfLines={1}>
+                      {column.style}
+                    </Text>
+                  ) : null}
+                </TouchableOpacity>
+
+                {comparison.rows.map(row => {
+                  const isBest = row.bestIndexes.includes(columnIndex);
+                  const caption = row.captions?.[columnIndex];
+                  return (
+                    <View
+                      key={row.key}
+                      style={[
+                        styles.cell,
+                        { borderBottomColor: colors.border },
+                        isBest && styles.bestCell
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.value,
+                          { color: isBest ? QUOTATION_COLOR : colors.text },
+                          row.key === 'totalCost' && styles.totalValue
+                        ]}
+                      >
+                        {formatCompareValue(row.format, row.values[columnIndex])}
+                      </Text>
+                      {caption ? (
+                        <Text style={[styles.caption, { color: colors.textSecondary }]}>{caption}</Text>
+                      ) : null}
+                    </View>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+
+        <View style={styles.legend}>
+          <View style={[styles.legendSwatch, styles.bestCell]} />
+          <Text style={[styles.legendText, { color: colors.textSecondary }]}>
+            Lowest price, earliest date or highest rating
+          </Text>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: StatusBar.currentHeight || 0,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  spacer: {
+    width: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 12,
+    backgroundColor: '#ff950020',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#ff9500',
+    flex: 1,
+  },
+  table: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+  valueColumn: {
+    width: VALUE_COLUMN_WIDTH,
+    borderLeftWidth: 1,
+  },
+  columnHeaderCell: {
+    height: 84,
+    padding: 10,
+    justifyContent: 'center',
+    borderBottomWidth: 1,
+  },
+  providerName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  quotationCode: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  cell: {
+    height: 58,
+    paddingHorizontal: 10,
+    justifyContent: 'center',
+    borderBottomWidth: 1,
+  },
+  bestCell: {
+    backgroundColor: `${QUOTATION_COLOR}20`,
+  },
+  rowLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  value: {
+    fontSize: 14,
+  },
+  totalValue: {
+    fontWeight: '700',
+  },
+  caption: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  legendSwatch: {
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  legendText: {
+    fontSize: 13,
+  },
+});
+
+export default QuotationCompareScreen;
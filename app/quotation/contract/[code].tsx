@@ -18,40 +18,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useTheme } from '@/constants/ThemeContext';
 import { Colors } from '@/constants/Colors';
-import { getContractFileAPI, requestSignatureAPI } from '@/utils/contractAPI';
+import { getContractFileAPI, IContractDetail, requestSignatureAPI } from '@/utils/contractAPI';
 import { WebView } from 'react-native-webview';
 import ContractCancellation from '@/components/ContractCancellation';
+import documentCache, { ICachedDocument } from '@/services/DocumentCacheService';
+import { createPdfViewerHtml } from '@/utils/pdfViewerHtml';
 
 const CONTRACT_COLOR = "#4caf50"; // Green color for contract elements
 
-// Interface matching the API response
-interface IContractDetail {
-  contractCode: string;
-  quotationCode: string;
-  status: number;
-  isSigned: boolean;
-  isDeposited: boolean;
-  isFinalPaid: boolean;
-  isTerminatable: boolean;
-  fileUrl: string;
-  bookingCode: string;
-  note?: string;
-  surveyDate: string;
-  constructionDate: string;
-  signedDate: string;
-  cancelDate?: string;
-  completeDate?: string;
-  totalPrice: number;
-  depositAmount: number;
-  customerName: string;
-  customerEmail: string;
-  customerPhone: string;
-  businessName: string;
-  providerName: string;
-  providerEmail: string;
-  providerPhone: string;
-}
-
 // Status mapping utilities
 const mapStatusCodeToString = (statusCode: number): string => {
   const statusMap: Record<number, string> = {
@@ -94,6 +68,9 @@ const ContractScreen: React.FC = () => {
   const [showPdfModal, setShowPdfModal] = useState<boolean>(false);
   const [pdfLoading, setPdfLoading] = useState<boolean>(true);
   const [showCancellationModal, setShowCancellationModal] = useState<boolean>(false);
+  const [cachedDocument, setCachedDocument] = useState<ICachedDocument | null>(null);
+  const [isOfflineCopy, setIsOfflineCopy] = useState<boolean>(false);
+  const [viewerHtml, setViewerHtml] = useState<string | null>(null);
 
   // ==================== EFFECTS ====================
   useEffect(() => {
@@ -115,17 +92,52 @@ const ContractScreen: React.FC = () => {
       
       if (response && response.success && response.data) {
         setContract(response.data);
-      } else {
+        setIsOfflineCopy(false);
+        saveContractForOffline(response.data);
+      } else if (!(await loadOfflineCopy())) {
         setError(response.message || 'Failed to load contract details');
       }
     } catch (err: any) {
       console.error('❌ Error fetching contract details:', err);
-      setError('Failed to load contract details. Please try again.');
+      if (!(await loadOfflineCopy())) {
+        setError('Failed to load contract details. Please try again.');
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  // Keep the PDF, contract details and signature status on the device for poor signal on-site
+  const saveContractForOffline = async (contractDetail: IContractDetail) => {
+    if (!quotationCode || !contractDetail.fileUrl) return;
+
+    try {
+      const saved = await documentCache.saveDocument('contract', quotationCode, contractDetail.fileUrl, {
+        metadata: contractDetail,
+        isSigned: contractDetail.isSigned,
+        signedAt: contractDetail.signedDate,
+      });
+      setCachedDocument(saved);
+    } catch (err) {
+      console.log('🟡 Could not cache contract document:', err);
+      await documentCache.setSignatureStatus('contract', quotationCode, contractDetail.isSigned, contractDetail.signedDate);
+      setCachedDocument(await documentCache.getDocument('contract', quotationCode));
+    }
+  };
+
+  const loadOfflineCopy = async (): Promise<boolean> => {
+    if (!quotationCode) return false;
+
+    const cached = await documentCache.getDocument('contract', quotationCode);
+    if (!cached?.metadata) return false;
+
+    console.log('📄 Showing offline copy of contract for', quotationCode);
+    setContract(cached.metadata);
+    setCachedDocument(cached);
+    setIsOfflineCopy(true);
+    return true;
+  };
+
   // ==================== UTILITY FUNCTIONS ====================
   const formatDateWithTextMonth = (dateString: string): string => {
     if (!dateString) return '';
@@ -261,302 +273,20 @@ const ContractScreen: React.FC = () => {
   };
 
   // ==================== PDF FUNCTIONS ====================
-  const openContractFile = () => {
+  const openContractFile = async () => {
     if (!contract || !contract.fileUrl) return;
+    setViewerHtml(null);
     setShowPdfModal(true);
     setPdfLoading(true);
-  };
 
-  const createPdfHtml = (pdfUrl: string) => {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=yes" />
-        <style>
-          body, html { 
-            top: 50;
-            margin: 0; 
-            padding: 0; 
-            width: 100%; 
-            height: 100%; 
-            background-color: #f5f5f5; 
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
-          }
-          header {
-            position: fixed;
-            top: 50px;
-            left: 0;
-            right: 0;
-            height: 60px;
-            background-color: white;
-            display: flex;
-            align-items: center;
-            justify-content: space-between;
-            padding: 0 15px;
-            border-bottom: 1px solid #e1e1e1;
-            z-index: 1000;
-          }
-          .header-title {
-            font-size: 18px;
-            font-weight: 600;
-            text-align: center;
-            flex: 1;
-          }
-          .close-btn {
-            color: #000;
-            font-size: 24px;
-            font-weight: 400;
-            background: transparent;
-            border: none;
-            padding: 8px;
-            cursor: pointer;
-          }
-          .download-btn {
-            padding: 8px 12px;
-            color: #34c759;
-            text-decoration: none;
-            font-weight: 500;
-            font-size: 16px;
-            display: flex;
-            align-items: center;
-          }
-          .download-icon {
-            margin-right: 5px;
-          }
-          #pdfViewer { 
-            width: 100%; 
-            padding-top: 70px;
-            display: flex;
-            flex-direction: column;
-            align-items: center;
-          }
-          canvas {
-            margin: 0 auto;
-            max-width: 100% !important;
-            height: auto !important;
-            box-shadow: 0 2px 5px rgba(0,0,0,0.2);
-            margin-bottom: 10px;
-            background-color: white;
-          }
-          .error-message {
-            color: red;
-            padding: 20px;
-            text-align: center;
-          }
-          .page {
-            margin-bottom: 10px;
-            box-shadow: 0 2px 5px rgba(0,0,0,0.2);
-            background-color: white;
-          }
-          .controls {
-            position: fixed;
-            bottom: 20px;
-            left: 50%;
-            transform: translateX(-50%);
-            background: rgba(0,0,0,0.7);
-            padding: 8px 15px;
-            border-radius: 20px;
-            display: flex;
-            align-items: center;
-            z-index: 100;
-          }
-          .controls button {
-            background: transparent;
-            border: none;
-            color: white;
-            font-size: 18px;
-            margin: 0 10px;
-            cursor: pointer;
-            padding: 5px 10px;
-          }
-          .controls button:disabled {
-            opacity: 0.5;
-          }
-          .pageNum {
-            color: white;
-            margin: 0 10px;
-            font-size: 16px;
-          }
-          .loading {
-            display: flex;
-            justify-content: center;
-            align-items: center;
-            height: 100px;
-            width: 100%;
-            margin-top: 80px;
-          }
-        </style>
-        <script src="https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.min.js"></script>
-      </head>
-      <body>
-        <header>
-          <button class="close-btn" id="closeBtn">×</button>
-          <div class="header-title">Contract Document</div>
-          <a href="${pdfUrl}" download class="download-btn" id="downloadBtn">
-            <span class="download-icon">⬇️</span> Download
-          </a>
-        </header>
-        
-        <div id="pdfViewer"></div>
-        
-        <div class="controls" id="controls" style="display:none;">
-          <button id="prev">◀</button>
-          <span class="pageNum" id="pageNum">1</span>
-          <button id="next">▶</button>
-          <button id="zoomIn">+</button>
-          <button id="zoomOut">-</button>
-        </div>
-        
-        <script>
-          pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.worker.min.js';
-          
-          const pdfUrl = "${pdfUrl}";
-          const container = document.getElementById('pdfViewer');
-          const controls = document.getElementById('controls');
-          const pageNumSpan = document.getElementById('pageNum');
-          const prevButton = document.getElementById('prev');
-          const nextButton = document.getElementById('next');
-          const zoomInButton = document.getElementById('zoomIn');
-          const zoomOutButton = document.getElementById('zoomOut');
-          const closeBtn = document.getElementById('closeBtn');
-          
-          let currentPage = 1;
-          let pageCount = 0;
-          let scale = 1.0;
-          let pdf = null;
-          
-          const loadingDiv = document.createElement('div');
-          loadingDiv.className = 'loading';
-          loadingDiv.innerHTML = 'Loading document...';
-          container.appendChild(loadingDiv);
-          
-          closeBtn.addEventListener('click', function() {
-            window.ReactNativeWebView.postMessage('close_modal');
-          });
-          
-          async function renderPage(pageNumber) {
-            if (!pdf) return;
-            
-            const existingPage = document.getElementById('page-' + currentPage);
-            if (existingPage) {
-              existingPage.style.display = 'none';
-            }
-            
-            let pageDiv = document.getElementById('page-' + pageNumber);
-            if (!pageDiv) {
-              try {
-                const page = await pdf.getPage(pageNumber);
-                const viewport = page.getViewport({ scale });
-                
-                pageDiv = document.createElement('div');
-                pageDiv.className = 'page';
-                pageDiv.id = 'page-' + pageNumber;
-                container.appendChild(pageDiv);
-                
-                const canvas = document.createElement('canvas');
-                pageDiv.appendChild(canvas);
-                
-                const context = canvas.getContext('2d');
-                canvas.height = viewport.height;
-                canvas.width = viewport.width;
-                
-                await page.render({
-                  canvasContext: context,
-                  viewport: viewport
-                }).promise;
-              } catch (error) {
-                console.error('Error rendering page:', error);
-                pageDiv = document.createElement('div');
-                pageDiv.className = 'page';
-                pageDiv.id = 'page-' + pageNumber;
-                pageDiv.innerHTML = '<div class="error-message">Error loading page ' + pageNumber + '</div>';
-                container.appendChild(pageDiv);
-              }
-            } else {
-              pageDiv.style.display = 'block';
-            }
-            
-            currentPage = pageNumber;
-            pageNumSpan.textContent = currentPage;
-            
-            prevButton.disabled = currentPage <= 1;
-            nextButton.disabled = currentPage >= pageCount;
-            
-            pageDiv.scrollIntoView({ behavior: 'smooth', block: 'start' });
-          }
-          
-          function zoom(delta) {
-            scale += delta;
-            scale = Math.max(0.5, Math.min(3, scale));
-            
-            for (let i = 1; i <= pageCount; i++) {
-              const pageDiv = document.getElementById('page-' + i);
-              if (pageDiv) {
-                container.removeChild(pageDiv);
-              }
-            }
-            
-            renderPage(currentPage);
-          }
-          
-          async function loadPDF() {
-            try {
-              pdf = await pdfjsLib.getDocument(pdfUrl).promise;
-              pageCount = pdf.numPages;
-              
-              controls.style.display = 'flex';
-              container.removeChild(loadingDiv);
-              
-              await renderPage(1);
-              
-              if (pageCount > 1) {
-                setTimeout(() => {
-                  for (let i = 2; i <= Math.min(3, pageCount); i++) {
-                    renderPage(i);
-                  }
-                }, 500);
-              }
-            } catch (error) {
-              console.error('Error loading PDF:', error);
-              container.innerHTML = '<div class="error-message">Could not load PDF document. Error: ' + error.message + '</div>';
-            }
-          }
-          
-          prevButton.addEventListener('click', function() {
-            if (currentPage > 1) {
-              renderPage(currentPage - 1);
-            }
-          });
-          
-          nextButton.addEventListener('click', function() {
-            if (currentPage < pageCount) {
-              renderPage(currentPage + 1);
-            }
-          });
-          
-          zoomInButton.addEventListener('click', function() { zoom(0.2); });
-          zoomOutButton.addEventListener('click', function() { zoom(-0.2); });
-          
-          function makeTouchable(element) {
-            element.addEventListener('touchstart', function(e) {
-              e.target.click();
-              e.preventDefault();
-              e.stopPropagation();
-            }, false);
-          }
-          
-          makeTouchable(prevButton);
-          makeTouchable(nextButton);
-          makeTouchable(zoomInButton);
-          makeTouchable(zoomOutButton);
-          makeTouchable(closeBtn);
-          
-          loadPDF();
-        </script>
-      </body>
-      </html>
-    `;
+    // Prefer the saved copy: it opens instantly and works without signal
+    const useCachedCopy = cachedDocument && (isOfflineCopy || cachedDocument.remoteUrl === contract.fileUrl);
+    const [base64, scripts] = await Promise.all([
+      useCachedCopy ? documentCache.readAsBase64(cachedDocument).catch(() => null) : null,
+      documentCache.getPdfViewerScripts(),
+    ]);
+
+    setViewerHtml(createPdfViewerHtml({ title: 'Contract Document', url: contract.fileUrl, base64, scripts }));
   };
 
   // ==================== RENDER FUNCTIONS ====================
@@ -617,10 +347,10 @@ const ContractScreen: React.FC = () => {
             </View>
           )}
           
-          {contract && contract.fileUrl && (
+          {viewerHtml && (
             <WebView
               originWhitelist={['*']}
-              source={{ html: createPdfHtml(contract.fileUrl) }}
+              source={{ html: viewerHtml }}
               style={styles.webView}
               onLoadStart={() => setPdfLoading(true)}
               onLoadEnd={() => setPdfLoading(false)}
@@ -691,6 +421,15 @@ const ContractScreen: React.FC = () => {
       {renderHeader()}
       
       <ScrollView contentContainerStyle={styles.scrollContent}>
+        {isOfflineCopy && cachedDocument && (
+          <View style={styles.offlineBanner}>
+            <Ionicons name="cloud-offline-outline" size={18} color="#ff9500" />
+            <Text style={styles.offlineBannerText}>
+              Couldn't reach the server. Showing the copy saved on {new Date(cachedDocument.cachedAt).toLocaleDateString()}.
+            </Text>
+          </View>
+        )}
+
         {/* Contract Header Section */}
         <View style={[styles.section, { backgroundColor: colors.card }]}>
           <View style={styles.contractHeader}>
@@ -710,6 +449,26 @@ const ContractScreen: React.FC = () => {
             </View>
           </View>
 
+          {cachedDocument && (
+            <View style={styles.savedCopyRow}>
+              <View style={[styles.savedCopyBadge, cachedDocument.isSigned && styles.signedCopyBadge]}>
+                <Ionicons
+                  name={cachedDocument.isSigned ? 'shield-checkmark-outline' : 'download-outline'}
+                  size={14}
+                  color={cachedDocument.isSigned ? CONTRACT_COLOR : colors.textSecondary}
+                />
+                <Text
+                  style={[
+                    styles.savedCopyText,
+                    { color: cachedDocument.isSigned ? CONTRACT_COLOR : colors.textSecondary }
+                  ]}
+                >
+                  {cachedDocument.isSigned ? 'Signed copy' : 'Saved for offline'} · v{cachedDocument.version}
+                </Text>
+              </View>
+            </View>
+          )}
+
           <View style={styles.infoContainer}>
             <View style={styles.detailRow}>
               <Ionicons name="business-outline" size={20} color={CONTRACT_COLOR} />
@@ -919,6 +678,21 @@ const styles = StyleSheet.create({
     elevation: 3,
   },
   
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 15,
+    backgroundColor: '#ff950020',
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    color: '#ff9500',
+    flex: 1,
+  },
+  
   // Contract Header Styles
   contractHeader: {
     flexDirection: 'row',
@@ -937,6 +711,27 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
     borderRadius: 12,
   },
+  savedCopyRow: {
+    flexDirection: 'row',
+    marginTop: -5,
+    marginBottom: 15,
+  },
+  savedCopyBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(142,142,147,0.15)',
+  },
+  signedCopyBadge: {
+    backgroundColor: `${CONTRACT_COLOR}20`,
+  },
+  savedCopyText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
   statusIcon: {
     marginRight: 4,
   },
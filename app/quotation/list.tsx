@@ -19,6 +19,7 @@ import {
   getPaginatedQuotationsForCustomerAPI, 
   confirmQuotationAPI
 } from '@/utils/quotationsAPI';
+import { MAX_COMPARE_QUOTATIONS, MIN_COMPARE_QUOTATIONS } from '@/utils/quotationCompare';
 
 const PRIMARY_COLOR = "#5fc1f1";
 const QUOTATION_COLOR = "#34c759"; // Green color for quotation elements
@@ -137,6 +138,8 @@ const QuotationListScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
   const [selectedStatus, setSelectedStatus] = useState<number | undefined>(undefined);
+  const [compareMode, setCompareMode] = useState<boolean>(false);
+  const [compareCodes, setCompareCodes] = useState<string[]>([]);
 
   // Updated filter options with new status codes
   const statusFilterOptions = [
@@ -165,7 +168,7 @@ const QuotationListScreen: React.FC = () => {
       // Call the API without any parameters since that works based on debug logs
       const response = await getPaginatedQuotationsForCustomerAPI();
       
-      if (response && response.data) {
+      if (response.success) {
         // Sort quotations by date (newest first)
         const sortedData = [...response.data].sort((a, b) => {
           return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
@@ -192,6 +195,32 @@ const QuotationListScreen: React.FC = () => {
     }
   };
 
+  const toggleCompareMode = (): void => {
+    setCompareMode(!compareMode);
+    setCompareCodes([]);
+  };
+
+  const toggleCompareSelection = (quotationCode: string): void => {
+    if (compareCodes.includes(quotationCode)) {
+      setCompareCodes(compareCodes.filter(code => code !== quotationCode));
+      return;
+    }
+
+    if (compareCodes.length >= MAX_COMPARE_QUOTATIONS) {
+      Alert.alert('Compare Quotations', `You can compare up to ${MAX_COMPARE_QUOTATIONS} quotations at a time.`);
+      return;
+    }
+
+    setCompareCodes([...compareCodes, quotationCode]);
+  };
+
+  const handleOpenComparison = (): void => {
+    router.push({
+      pathname: "/quotation/compare",
+      params: { codes: compareCodes.join(',') }
+    });
+  };
+
   const handleRefresh = (): void => {
     fetchQuotations(true);
   };
@@ -218,11 +247,11 @@ const QuotationListScreen: React.FC = () => {
               setLoading(true);
               const result = await confirmQuotationAPI(quotationCode);
               
-              if (result && result.success) {
+              if (result.success) {
                 Alert.alert('Success', 'Quotation confirmed successfully');
                 fetchQuotations(true);
               } else {
-                Alert.alert('Error', (result && result.message) || 'Failed to confirm quotation');
+                Alert.alert('Error', result.message || 'Failed to confirm quotation');
               }
             } catch (err: any) {
               console.error('Error confirming quotation:', err);
@@ -244,8 +273,16 @@ const QuotationListScreen: React.FC = () => {
       >
         <Ionicons name="arrow-back" size={24} color={colors.text} />
       </TouchableOpacity>
-      <Text style={[styles.headerTitle, { color: colors.text }]}>My Quotations</Text>
-      <View style={styles.spacer} />
+      <Text style={[styles.headerTitle, { color: colors.text }]}>
+        {compareMode ? 'Select to Compare' : 'My Quotations'}
+      </Text>
+      <TouchableOpacity style={styles.backButton} onPress={toggleCompareMode}>
+        <Ionicons
+          name={compareMode ? 'close' : 'git-compare-outline'}
+          size={24}
+          color={compareMode ? colors.text : QUOTATION_COLOR}
+        />
+      </TouchableOpacity>
     </View>
   );
 
@@ -286,19 +323,36 @@ const QuotationListScreen: React.FC = () => {
     const canConfirm = canQuotationBeConfirmed(statusCode);
     const showViewContract = statusCode === QuotationStatusCode.Confirmed && item.isContractExisted === true;
     const totalPrice = (item.materialCost || 0) + (item.constructionCost || 0);
+    const isSelectedForCompare = compareCodes.includes(item.quotationCode);
     
     return (
       <TouchableOpacity
-        style={[styles.quotationCard, { backgroundColor: colors.card }]}
-        onPress={() => router.push({
-          pathname: "/quotation/quotation-detail/[code]",
-          params: { code: item.quotationCode }
-        })}
+        style={[
+          styles.quotationCard,
+          { backgroundColor: colors.card },
+          isSelectedForCompare && styles.selectedCard
+        ]}
+        onPress={() => compareMode
+          ? toggleCompareSelection(item.quotationCode)
+          : router.push({
+            pathname: "/quotation/quotation-detail/[code]",
+            params: { code: item.quotationCode }
+          })}
       >
         <View style={styles.quotationHeader}>
-          <Text style={[styles.quotationCode, { color: colors.text }]}>
-            {item.quotationCode}
-          </Text>
+          <View style={styles.quotationCodeRow}>
+            {compareMode && (
+              <Ionicons
+                name={isSelectedForCompare ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={isSelectedForCompare ? QUOTATION_COLOR : colors.textSecondary}
+                style={styles.compareCheckbox}
+              />
+            )}
+            <Text style={[styles.quotationCode, { color: colors.text }]}>
+              {item.quotationCode}
+            </Text>
+          </View>
           <View style={[styles.statusBadge, { backgroundColor: `${statusColor}20` }]}>
             <Ionicons name={statusIcon} size={14} color={statusColor} style={styles.statusIcon} />
             <Text style={[styles.statusText, { color: statusColor }]}>
@@ -438,12 +492,30 @@ const QuotationListScreen: React.FC = () => {
         }
       />
       
-      <TouchableOpacity
-        style={styles.floatingButton}
-        onPress={() => router.push('/screens/Bookings')}
-      >
-        <Ionicons name="add" size={24} color="#FFFFFF" />
-      </TouchableOpacity>
+      {compareMode ? (
+        <View style={[styles.compareBar, { backgroundColor: colors.card, borderTopColor: colors.border }]}>
+          <Text style={[styles.compareBarText, { color: colors.textSecondary }]}>
+            {compareCodes.length} of {MAX_COMPARE_QUOTATIONS} selected
+          </Text>
+          <TouchableOpacity
+            style={[
+              styles.compareButton,
+              compareCodes.length < MIN_COMPARE_QUOTATIONS && styles.compareButtonDisabled
+            ]}
+            disabled={compareCodes.length < MIN_COMPARE_QUOTATIONS}
+            onPress={handleOpenComparison}
+          >
+            <Text style={styles.compareButtonText}>Compare</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.floatingButton}
+          onPress={() => router.push('/screens/Bookings')}
+        >
+          <Ionicons name="add" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
     </SafeAreaView>
   );
 };
@@ -469,9 +541,6 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'center',
   },
-  spacer: {
-    width: 40,
-  },
   filterContainer: {
     paddingVertical: 10,
     borderBottomWidth: 1,
@@ -522,6 +591,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  quotationCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  compareCheckbox: {
+    marginRight: 8,
+  },
+  selectedCard: {
+    borderWidth: 2,
+    borderColor: QUOTATION_COLOR,
+  },
   statusBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -647,6 +727,31 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowRadius: 3,
   },
+  compareBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
+  compareBarText: {
+    fontSize: 14,
+  },
+  compareButton: {
+    backgroundColor: QUOTATION_COLOR,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  compareButtonDisabled: {
+    opacity: 0.5,
+  },
+  compareButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
   viewContractButton: {
     backgroundColor: '#2196F3', // Blue color for contract button
     paddingVertical: 6,
@@ -24,6 +24,11 @@ import { getQuotationDetailByCustomerAPI, confirmQuotationAPI,removeProductFromQ
 import { WebView } from 'react-native-webview';
 
 import QuotationRejectScreen from '@/components/QuotationRejectScreen';
+import quotationHistory, { IQuotationRevision } from '@/services/QuotationHistoryService';
+import { diffQuotations, summarizeQuotationDiff } from '@/utils/quotationDiff';
+import documentCache, { ICachedDocument } from '@/services/DocumentCacheService';
+import { createPdfViewerHtml } from '@/utils/pdfViewerHtml';
+import { toChatShareParams } from '@/utils/chatCards';
 
 const PRIMARY_COLOR = "#5fc1f1";
 const QUOTATION_COLOR = "#34c759"; // Green color for quotation elements
@@ -234,6 +239,10 @@ const QuotationDetailScreen: React.FC = () => {
   // const [showRejectReasonModal, setShowRejectReasonModal] = useState<boolean>(false);
   const [rejectReason, setRejectReason] = useState<string>('');
   const [showRejectModal, setShowRejectModal] = useState<boolean>(false);
+  const [revisions, setRevisions] = useState<IQuotationRevision[]>([]);
+  const [cachedDocument, setCachedDocument] = useState<ICachedDocument | null>(null);
+  const [isOfflineCopy, setIsOfflineCopy] = useState<boolean>(false);
+  const [viewerHtml, setViewerHtml] = useState<string | null>(null);
 
   useEffect(() => {
     fetchQuotationDetails();
@@ -296,13 +305,20 @@ const QuotationDetailScreen: React.FC = () => {
         
         console.log('📘 Processed quotation data successfully');
         setQuotation(processedQuotation);
+        setIsOfflineCopy(false);
+        saveQuotationForOffline(processedQuotation);
+        
+        // Keep this revision so later changes from the provider can be compared
+        setRevisions(await quotationHistory.recordRevision(processedQuotation));
       } else {
         console.log('📘 No usable data found, setting error');
         setError('Failed to load quotation details');
       }
     } catch (err: any) {
       console.error('❌ Error fetching quotation details:', err);
-      setError('Failed to load quotation details. Please try again.');
+      if (!(await loadOfflineCopy())) {
+        setError('Failed to load quotation details. Please try again.');
+      }
     } finally {
       setLoading(false);
       if (isRefresh) {
@@ -311,6 +327,33 @@ const QuotationDetailScreen: React.FC = () => {
     }
   };
 
+  // Keep the quotation PDF and details on the device so they open without signal
+  const saveQuotationForOffline = async (quotationDetail: IQuotationDetail) => {
+    if (!quotationCode || !quotationDetail.filePath) return;
+
+    try {
+      setCachedDocument(
+        await documentCache.saveDocument('quotation', quotationCode, quotationDetail.filePath, { metadata: quotationDetail })
+      );
+    } catch (err) {
+      console.log('🟡 Could not cache quotation document:', err);
+    }
+  };
+
+  const loadOfflineCopy = async (): Promise<boolean> => {
+    if (!quotationCode) return false;
+
+    const cached = await documentCache.getDocument('quotation', quotationCode);
+    if (!cached?.metadata) return false;
+
+    console.log('📄 Showing offline copy of quotation', quotationCode);
+    setQuotation(cached.metadata);
+    setCachedDocument(cached);
+    setIsOfflineCopy(true);
+    setRevisions(await quotationHistory.getRevisions(quotationCode));
+    return true;
+  };
+
   // Pull-to-refresh handler
   const onRefresh = React.useCallback(() => {
     setRefreshing(true);
@@ -350,7 +393,8 @@ const QuotationDetailScreen: React.FC = () => {
               
               const result = await removeProductFromQuotationAPI(quotation.quotationCode, product.productId);
               
-              if (result && result.removedProduct) {
+              if (result.success && result.data?.removedProduct) {
+                const productChange = result.data;
                 console.log("🟢 Product removal successful, updating UI");
                 
                 setQuotation(prevQuotation => {
@@ -360,8 +404,8 @@ const QuotationDetailScreen: React.FC = () => {
                     p => p.productId !== product.productId
                   );
                   
-                  const newProductCost = typeof result.productCost === 'number' 
-                    ? result.productCost
+                  const newProductCost = typeof productChange.productCost === 'number' 
+                    ? productChange.productCost
                     : updatedProducts.reduce((sum, p) => sum + p.totalPrice, 0);
                   
                   return {
@@ -425,299 +469,7 @@ const QuotationDetailScreen: React.FC = () => {
     setSelectedImage(null);
   };
   
-  const createPdfHtml = (pdfUrl: string) => {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=yes" />
-        <style>
-          body, html { 
-           top: 50;
-            margin: 0; 
-            padding: 0; 
-            width: 100%; 
-            height: 100%; 
-            background-color: #f5f5f5; 
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
-          }
-          header {
-            position: fixed;
-            top: 50px;
-            left: 0;
-            right: 0;
-            height: 60px;
-            background-color: white;
-            display: flex;
-            align-items: center;
-            justify-content: space-between;
-            padding: 0 15px;
-            border-bottom: 1px solid #e1e1e1;
-            z-index: 1000;
-          }
-          .header-title {
-            font-size: 18px;
-            font-weight: 600;
-            text-align: center;
-            flex: 1;
-          }
-          .close-btn {
-            color: #000;
-            font-size: 24px;
-            font-weight: 400;
-            background: transparent;
-            border: none;
-            padding: 8px;
-            cursor: pointer;
-          }
-          .download-btn {
-            padding: 8px 12px;
-            color: #34c759;
-            text-decoration: none;
-            font-weight: 500;
-            font-size: 16px;
-            display: flex;
-            align-items: center;
-          }
-          .download-icon {
-            margin-right: 5px;
-          }
-          #pdfViewer { 
-            width: 100%; 
-            padding-top: 70px;
-            display: flex;
-            flex-direction: column;
-            align-items: center;
-          }
-          canvas {
-            margin: 0 auto;
-            max-width: 100% !important;
-            height: auto !important;
-            box-shadow: 0 2px 5px rgba(0,0,0,0.2);
-            margin-bottom: 10px;
-            background-color: white;
-          }
-          .error-message {
-            color: red;
-            padding: 20px;
-            text-align: center;
-          }
-          .page {
-            margin-bottom: 10px;
-            box-shadow: 0 2px 5px rgba(0,0,0,0.2);
-            background-color: white;
-          }
-          .controls {
-            position: fixed;
-            bottom: 20px;
-            left: 50%;
-            transform: translateX(-50%);
-            background: rgba(0,0,0,0.7);
-            padding: 8px 15px;
-            border-radius: 20px;
-            display: flex;
-            align-items: center;
-            z-index: 100;
-          }
-          .controls button {
-            background: transparent;
-            border: none;
-            color: white;
-            font-size: 18px;
-            margin: 0 10px;
-            cursor: pointer;
-            padding: 5px 10px;
-          }
-          .controls button:disabled {
-            opacity: 0.5;
-          }
-          .pageNum {
-            color: white;
-            margin: 0 10px;
-            font-size: 16px;
-          }
-          .loading {
-            display: flex;
-            justify-content: center;
-            align-items: center;
-            height: 100px;
-            width: 100%;
-            margin-top: 80px;
-          }
-        </style>
-        <script src="https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.min.js"></script>
-      </head>
-      <body>
-        <header>
-          <button class="close-btn" id="closeBtn">×</button>
-          <div class="header-title">Quotation Document</div>
-          <a href="${pdfUrl}" download class="download-btn" id="downloadBtn">
-            <span class="download-icon">⬇️</span> Download
-          </a>
-        </header>
-        
-        <div id="pdfViewer"></div>
-        
-        <div class="controls" id="controls" style="display:none;">
-          <button id="prev">◀</button>
-          <span class="pageNum" id="pageNum">1</span>
-          <button id="next">▶</button>
-          <button id="zoomIn">+</button>
-          <button id="zoomOut">-</button>
-        </div>
-        
-        <script>
-          pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.worker.min.js';
-          
-          const pdfUrl = "${pdfUrl}";
-          const container = document.getElementById('pdfViewer');
-          const controls = document.getElementById('controls');
-          const pageNumSpan = document.getElementById('pageNum');
-          const prevButton = document.getElementById('prev');
-          const nextButton = document.getElementById('next');
-          const zoomInButton = document.getElementById('zoomIn');
-          const zoomOutButton = document.getElementById('zoomOut');
-          const closeBtn = document.getElementById('closeBtn');
-          
-          let currentPage = 1;
-          let pageCount = 0;
-          let scale = 1.0;
-          let pdf = null;
-          
-          const loadingDiv = document.createElement('div');
-          loadingDiv.className = 'loading';
-          loadingDiv.innerHTML = 'Loading document...';
-          container.appendChild(loadingDiv);
-          
-          closeBtn.addEventListener('click', function() {
-            window.ReactNativeWebView.postMessage('close_modal');
-          });
-          
-          async function renderPage(pageNumber) {
-            if (!pdf) return;
-            
-            const existingPage = document.getElementById('page-' + currentPage);
-            if (existingPage) {
-              existingPage.style.display = 'none';
-            }
-            
-            let pageDiv = document.getElementById('page-' + pageNumber);
-            if (!pageDiv) {
-              try {
-                const page = await pdf.getPage(pageNumber);
-                const viewport = page.getViewport({ scale });
-                
-                pageDiv = document.createElement('div');
-                pageDiv.className = 'page';
-                pageDiv.id = 'page-' + pageNumber;
-                container.appendChild(pageDiv);
-                
-                const canvas = document.createElement('canvas');
-                pageDiv.appendChild(canvas);
-                
-                const context = canvas.getContext('2d');
-                canvas.height = viewport.height;
-                canvas.width = viewport.width;
-                
-                await page.render({
-                  canvasContext: context,
-                  viewport: viewport
-                }).promise;
-              } catch (error) {
-                console.error('Error rendering page:', error);
-                pageDiv = document.createElement('div');
-                pageDiv.className = 'page';
-                pageDiv.id = 'page-' + pageNumber;
-                pageDiv.innerHTML = '<div class="error-message">Error loading page ' + pageNumber + '</div>';
-                container.appendChild(pageDiv);
-              }
-            } else {
-              pageDiv.style.display = 'block';
-            }
-            
-            currentPage = pageNumber;
-            pageNumSpan.textContent = currentPage;
-            
-            prevButton.disabled = currentPage <= 1;
-            nextButton.disabled = currentPage >= pageCount;
-            
-            pageDiv.scrollIntoView({ behavior: 'smooth', block: 'start' });
-          }
-          
-          function zoom(delta) {
-            scale += delta;
-            scale = Math.max(0.5, Math.min(3, scale));
-            
-            for (let i = 1; i <= pageCount; i++) {
-              const pageDiv = document.getElementById('page-' + i);
-              if (pageDiv) {
-                container.removeChild(pageDiv);
-              }
-            }
-            
-            renderPage(currentPage);
-          }
-          
-          async function loadPDF() {
-            try {
-              pdf = await pdfjsLib.getDocument(pdfUrl).promise;
-              pageCount = pdf.numPages;
-              
-              controls.style.display = 'flex';
-              container.removeChild(loadingDiv);
-              
-              await renderPage(1);
-              
-              if (pageCount > 1) {
-                setTimeout(() => {
-                  for (let i = 2; i <= Math.min(3, pageCount); i++) {
-                    renderPage(i);
-                  }
-                }, 500);
-              }
-            } catch (error) {
-              console.error('Error loading PDF:', error);
-              container.innerHTML = '<div class="error-message">Could not load PDF document. Error: ' + error.message + '</div>';
-            }
-          }
-          
-          prevButton.addEventListener('click', function() {
-            if (currentPage > 1) {
-              renderPage(currentPage - 1);
-            }
-          });
-          
-          nextButton.addEventListener('click', function() {
-            if (currentPage < pageCount) {
-              renderPage(currentPage + 1);
-            }
-          });
-          
-          zoomInButton.addEventListener('click', function() { zoom(0.2); });
-          zoomOutButton.addEventListener('click', function() { zoom(-0.2); });
-          
-          function makeTouchable(element) {
-            element.addEventListener('touchstart', function(e) {
-              e.target.click();
-              e.preventDefault();
-              e.stopPropagation();
-            }, false);
-          }
-          
-          makeTouchable(prevButton);
-          makeTouchable(nextButton);
-          makeTouchable(zoomInButton);
-          makeTouchable(zoomOutButton);
-          makeTouchable(closeBtn);
-          
-          loadPDF();
-        </script>
-      </body>
-      </html>
-    `;
-  };
-  
-  const openQuotationFile = () => {
+  const openQuotationFile = async () => {
     const pdfPath = quotation?.filePath || quotation?.quotationFilePath;
     
     if (!quotation || !pdfPath) {
@@ -725,8 +477,18 @@ const QuotationDetailScreen: React.FC = () => {
       return;
     }
     
+    setViewerHtml(null);
     setShowPdfModal(true);
     setPdfLoading(true);
+
+    // Prefer the saved copy: it opens instantly and works without signal
+    const useCachedCopy = cachedDocument && (isOfflineCopy || cachedDocument.remoteUrl === pdfPath);
+    const [base64, scripts] = await Promise.all([
+      useCachedCopy ? documentCache.readAsBase64(cachedDocument).catch(() => null) : null,
+      documentCache.getPdfViewerScripts(),
+    ]);
+
+    setViewerHtml(createPdfViewerHtml({ title: 'Quotation Document', url: pdfPath, base64, scripts }));
   };
   
   const handleConfirmQuotation = async (): Promise<void> => {
@@ -827,12 +589,10 @@ const QuotationDetailScreen: React.FC = () => {
             </View>
           )}
           
-          {quotation && (quotation.filePath || quotation.quotationFilePath) && (
+          {viewerHtml && (
             <WebView
               originWhitelist={['*']}
-              source={{ 
-                html: createPdfHtml(quotation.filePath || quotation.quotationFilePath || '') 
-              }}
+              source={{ html: viewerHtml }}
               style={styles.webView}
               onLoadStart={() => setPdfLoading(true)}
               onLoadEnd={() => setPdfLoading(false)}
@@ -906,6 +666,13 @@ const QuotationDetailScreen: React.FC = () => {
                     (quotation.productCost || 0));
   const depositAmount = totalCost * (quotation.depositPercentage / 100);
   const canConfirm = canQuotationBeConfirmed(quotation.status);
+  const latestRevision = revisions[revisions.length - 1];
+  const previousRevision = revisions[revisions.length - 2];
+  const revisionDiff = latestRevision && previousRevision
+    ? diffQuotations(previousRevision.snapshot, latestRevision.snapshot)
+    : null;
+  const revisionSummary = revisionDiff ? summarizeQuotationDiff(revisionDiff) : null;
+  const totalDelta = revisionDiff?.totals.find(total => total.field === 'totalCost')?.delta ?? 0;
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -925,6 +692,15 @@ const QuotationDetailScreen: React.FC = () => {
           />
         }
       >
+        {isOfflineCopy && cachedDocument && (
+          <View style={styles.offlineBanner}>
+            <Ionicons name="cloud-offline-outline" size={18} color="#ff9500" />
+            <Text style={styles.offlineBannerText}>
+              Couldn't reach the server. Showing the copy saved on {new Date(cachedDocument.cachedAt).toLocaleDateString()}.
+            </Text>
+          </View>
+        )}
+
         {/* Quotation header section */}
         <View style={[styles.section, { backgroundColor: colors.card }]}>
           <View style={styles.quotationHeader}>
@@ -1019,6 +795,33 @@ const QuotationDetailScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Revision history - shown once the provider has revised this quotation */}
+        {revisionSummary && (
+          <TouchableOpacity
+            style={[styles.section, { backgroundColor: colors.card }]}
+            onPress={() => router.push({
+              pathname: '/quotation/revisions/[code]',
+              params: { code: quotation.quotationCode }
+            })}
+          >
+            <View style={styles.revisionHeader}>
+              <Text style={[styles.sectionTitle, styles.revisionTitle, { color: colors.text }]}>
+                Revision {latestRevision.revision}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </View>
+            <Text style={[styles.revisionSummaryText, { color: colors.textSecondary }]}>
+              Since revision {previousRevision.revision}: {revisionSummary.added} added · {revisionSummary.removed} removed · {revisionSummary.changed} changed
+            </Text>
+            {totalDelta !== 0 && (
+              <Text style={[styles.revisionDelta, { color: totalDelta > 0 ? '#ff3b30' : QUOTATION_COLOR }]}>
+                Total {totalDelta > 0 ? '+' : '-'}{new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(Math.abs(totalDelta))}
+              </Text>
+            )}
+            <Text style={[styles.revisionLink, { color: PRIMARY_COLOR }]}>View changes</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Materials section */}
         <View style={[styles.section, { backgroundColor: colors.card }]}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Materials</Text>
@@ -1274,9 +1077,19 @@ const QuotationDetailScreen: React.FC = () => {
                 { 
                   text: "Message", 
                   onPress: () => {
+                    // Opens the conversation with this quotation ready to send as a card
                     router.push({
-                      pathname: "/chat",
-                      params: { providerId: quotation.provider.id.toString() }
+                      pathname: "/chat/[userId]",
+                      params: {
+                        userId: quotation.provider.id.toString(),
+                        contactName: quotation.provider.businessName,
+                        ...toChatShareParams({
+                          type: 'quotation',
+                          code: quotation.quotationCode,
+                          title: quotation.style || `Quotation ${quotation.quotationCode}`,
+                          subtitle: `${quotation.quotationCode} · ${new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(totalCost)}`,
+                        }),
+                      }
                     });
                   }
                 }
@@ -1404,6 +1217,41 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 10,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 15,
+    backgroundColor: '#ff950020',
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    color: '#ff9500',
+    flex: 1,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  revisionTitle: {
+    marginBottom: 4,
+  },
+  revisionSummaryText: {
+    fontSize: 14,
+  },
+  revisionDelta: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  revisionLink: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 8,
+  },
   costLabel: {
     fontSize: 14,
   },
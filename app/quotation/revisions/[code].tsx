@@ -0,0 +1,442 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  StatusBar,
+  Switch
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTheme } from '@/constants/ThemeContext';
+import { Colors } from '@/constants/Colors';
+import quotationHistory, { IQuotationRevision } from '@/services/QuotationHistoryService';
+import { diffQuotations, IFieldChange, ILineDiff, LineChangeStatus } from '@/utils/quotationDiff';
+
+const PRIMARY_COLOR = "#5fc1f1";
+const QUOTATION_COLOR = "#34c759";
+
+const STATUS_STYLES: Record<LineChangeStatus, { label: string; color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  added: { label: 'Added', color: QUOTATION_COLOR, icon: 'add-circle-outline' },
+  removed: { label: 'Removed', color: '#ff3b30', icon: 'remove-circle-outline' },
+  changed: { label: 'Changed', color: '#ff9500', icon: 'swap-horizontal-outline' },
+  unchanged: { label: 'Unchanged', color: '#8e8e93', icon: 'ellipse-outline' },
+};
+
+// Fields holding money amounts; everything else is shown as-is
+const CURRENCY_FIELDS = ['cost', 'totalCost', 'unitPrice', 'totalPrice', 'materialCost', 'constructionCost', 'productCost'];
+
+const formatCurrency = (value: number): string =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+const formatValue = (field: string, value: number | string | undefined): string => {
+  if (value === undefined || value === '') return '—';
+  if (typeof value === 'number' && CURRENCY_FIELDS.includes(field)) return formatCurrency(value);
+  return String(value);
+};
+
+const formatReceivedAt = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const QuotationRevisionsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme as "light" | "dark"];
+  const router = useRouter();
+  const { code } = useLocalSearchParams();
+  const quotationCode = Array.isArray(code) ? code[0] : code;
+
+  const [revisions, setRevisions] = useState<IQuotationRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    if (!quotationCode) {
+      setLoading(false);
+      return;
+    }
+
+    quotationHistory.getRevisions(quotationCode).then((stored) => {
+      setRevisions(stored);
+      // Default to the latest change: previous revision against the newest
+      if (stored.length >= 2) {
+        setFromRevision(stored[stored.length - 2].revision);
+        setToRevision(stored[stored.length - 1].revision);
+      }
+      setLoading(false);
+    });
+  }, [quotationCode]);
+
+  const diff = useMemo(() => {
+    const from = revisions.find(item => item.revision === fromRevision);
+    const to = revisions.find(item => item.revision === toRevision);
+    return from && to ? diffQuotations(from.snapshot, to.snapshot) : null;
+  }, [revisions, fromRevision, toRevision]);
+
+  // The base revision always stays older than the one it is compared with
+  const renderRevisionChips = (label: string, selected: number | null, isDisabled: (revision: number) => boolean, onSelect: (revision: number) => void) => (
+    <View style={styles.chipRow}>
+      <Text style={[styles.chipRowLabel, { color: colors.textSecondary }]}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {revisions.map(item => {
+          const isSelected = item.revision === selected;
+          const disabled = isDisabled(item.revision);
+          return (
+            <TouchableOpacity
+              key={item.revision}
+              disabled={disabled}
+              style={[
+                styles.chip,
+                { borderColor: isSelected ? PRIMARY_COLOR : colors.border },
+                isSelected && { backgroundColor: `${PRIMARY_COLOR}20` },
+                disabled && styles.chipDisabled
+              ]}
+              onPress={() => onSelect(item.revision)}
+            >
+              <Text style={[styles.chipText, { color: isSelected ? PRIMARY_COLOR : colors.text }]}>
+                Rev {item.revision}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
+  const renderHeader = () => (
+    <View style={[styles.header, { borderBottomColor: colors.border }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <Ionicons name="arrow-back" size={24} color={colors.text} />
+      </TouchableOpacity>
+      <Text style={[styles.headerTitle, { color: colors.text }]}>Quotation Changes</Text>
+      <View style={styles.spacer} />
+    </View>
+  );
+
+  const renderFieldChange = (change: IFieldChange) => (
+    <View key={change.field} style={styles.fieldChangeRow}>
+      <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>{change.label}</Text>
+      <Text style={[styles.fieldBefore, { color: colors.textSecondary }]}>
+        {formatValue(change.field, change.before)}
+      </Text>
+      <Ionicons name="arrow-forward" size={14} color={colors.textSecondary} />
+      <Text style={[styles.fieldAfter, { color: colors.text }]}>
+        {formatValue(change.field, change.after)}
+      </Text>
+    </View>
+  );
+
+  const renderLineSection = (title: string, lines: ILineDiff[]) => {
+    const visible = showUnchanged ? lines : lines.filter(line => line.status !== 'unchanged');
+
+    return (
+      <View style={[styles.section, { backgroundColor: colors.card }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>{title}</Text>
+        {visible.length === 0 ? (
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No changes</Text>
+        ) : (
+          visible.map(line => {
+            const status = STATUS_STYLES[line.status];
+            return (
+              <View key={line.key} style={[styles.lineRow, { borderBottomColor: colors.border }]}>
+                <View style={styles.lineHeader}>
+                  <Ionicons name={status.icon} size={18} color={status.color} />
+                  <Text
+                    style={[
+                      styles.lineName,
+                      { color: colors.text },
+                      line.status === 'removed' && styles.removedText
+                    ]}
+                    numberOfLines={2}
+                  >
+                    {line.name || 'Unnamed item'}
+                  </Text>
+                  <Text style={[styles.statusLabel, { color: status.color }]}>{status.label}</Text>
+                </View>
+                {line.changes.map(renderFieldChange)}
+              </View>
+            );
+          })
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={QUOTATION_COLOR} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      {renderHeader()}
+
+      {revisions.length < 2 ? (
+        <View style={styles.centered}>
+          <Ionicons name="git-compare-outline" size={60} color={colors.border} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>No revisions yet</Text>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            When the provider updates {quotationCode}, the changes will appear here.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {/* Revision picker */}
+          <View style={[styles.section, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Revisions of {quotationCode}</Text>
+            {[...revisions].reverse().map(item => (
+              <View key={item.revision} style={[styles.revisionRow, { borderBottomColor: colors.border }]}>
+                <View style={styles.revisionInfo}>
+                  <Text style={[styles.revisionName, { color: colors.text }]}>Revision {item.revision}</Text>
+                  <Text style={[styles.revisionMeta, { color: colors.textSecondary }]}>
+                    Received {formatReceivedAt(item.receivedAt)}
+                  </Text>
+                </View>
+                <Text style={[styles.revisionTotal, { color: colors.text }]}>
+                  {formatCurrency(item.snapshot.totals.totalCost)}
+                </Text>
+              </View>
+            ))}
+            {renderRevisionChips('From', fromRevision, revision => toRevision !== null && revision >= toRevision, setFromRevision)}
+            {renderRevisionChips('To', toRevision, revision => fromRevision !== null && revision <= fromRevision, setToRevision)}
+          </View>
+
+          {diff && (
+            <>
+              {/* Totals */}
+              <View style={[styles.section, { backgroundColor: colors.card }]}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  Totals · revision {fromRevision} → {toRevision}
+                </Text>
+                {diff.totals
+                  .filter(total => total.field !== 'productCost' || total.before > 0 || total.after > 0)
+                  .map(total => (
+                    <View key={total.field} style={styles.totalRow}>
+                      <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>{total.label}</Text>
+                      <Text style={[styles.totalValue, { color: colors.text }]}>{formatValue(total.field, total.after)}</Text>
+                      <Text
+                        style={[
+                          styles.totalDelta,
+                          { color: total.delta > 0 ? '#ff3b30' : total.delta < 0 ? QUOTATION_COLOR : colors.textSecondary }
+                        ]}
+                      >
+                        {total.delta === 0
+                          ? '—'
+                          : `${total.delta > 0 ? '+' : '-'}${formatValue(total.field, Math.abs(total.delta))}`}
+                      </Text>
+                    </View>
+                  ))}
+              </View>
+
+              <View style={styles.toggleRow}>
+                <Text style={[styles.toggleLabel, { color: colors.text }]}>Show unchanged items</Text>
+                <Switch
+                  value={showUnchanged}
+                  onValueChange={setShowUnchanged}
+                  trackColor={{ false: colors.border, true: PRIMARY_COLOR }}
+                />
+              </View>
+
+              {renderLineSection('Materials', diff.materials)}
+              {renderLineSection('Construction', diff.construction)}
+              {(diff.products.length > 0) && renderLineSection('Products', diff.products)}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: StatusBar.currentHeight || 0,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  spacer: {
+    width: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  revisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  revisionTotal: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  chipRowLabel: {
+    fontSize: 13,
+    width: 44,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  chipDisabled: {
+    opacity: 0.35,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  totalLabel: {
+    flex: 1,
+    fontSize: 14,
+  },
+  totalValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginRight: 10,
+  },
+  totalDelta: {
+    fontSize: 13,
+    fontWeight: '600',
+    minWidth: 90,
+    textAlign: 'right',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 4,
+    marginBottom: 15,
+  },
+  toggleLabel: {
+    fontSize: 14,
+  },
+  lineRow: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  lineName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    marginHorizontal: 8,
+  },
+  removedText: {
+    textDecorationLine: 'line-through',
+  },
+  statusLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  fieldChangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+    marginLeft: 26,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    width: 80,
+  },
+  fieldBefore: {
+    fontSize: 13,
+    textDecorationLine: 'line-through',
+    marginRight: 6,
+  },
+  fieldAfter: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
+
+export default QuotationRevisionsScreen;
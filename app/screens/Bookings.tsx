@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -16,174 +16,26 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useTheme } from '@/constants/ThemeContext';
 import { Colors } from '@/constants/Colors';
-import { 
-  getPaginatedBookingsForCustomerAPI,
-  requestCancelBookingAPI,
-  confirmBookingAPI,
-  IBookingFilterOptions
-} from '@/utils/bookingAPI';
+import { useBookings, useConfirmBooking } from '@/hooks/useBookingQueries';
+import calendarExport from '@/services/CalendarExportService';
+import { getPaginatedBookingsForCustomerAPI } from '@/utils/bookingAPI';
+import { isActiveCalendarBooking } from '@/utils/bookingCalendar';
+import {
+  canCancelBooking,
+  canMakeCommitDeposit,
+  canOpenTracking,
+  canPayFinal,
+  canRateBooking,
+  canViewQuotation,
+  getBookingStatusCategory,
+  getBookingStatusColor,
+  getBookingStatusIcon,
+  getBookingStatusLabel,
+  getBookingStatusStage
+} from '@/utils/bookingStatus';
 
 const PRIMARY_COLOR = "#5fc1f1";
 
-// Define a proper type for status codes to avoid 'any' type errors
-type BookingStatusCode = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14;
-
-// Define the status category type
-type StatusCategory = 'initial' | 'agreement' | 'construction' | 'completed' | 'cancelled' | 'unknown';
-
-// Status mapping utilities with proper typing
-const mapStatusCodeToString = (statusCode: number): string => {
-  const statusMap: Record<number, string> = {
-    0: 'Pending',            // Khi khách hàng tạo booking
-    1: 'Planning',           // Provider đã xác nhận và sắp xếp khảo sát
-    2: 'Quoting',            // Provider báo giá
-    3: 'Contracting',        // Provider soạn hợp đồng
-    4: 'Confirm',            // Khi customer đồng ý các điều khoản và chốt hợp đồng
-    5: 'DepositPaid',        // Đã thanh toán đặt cọc
-    6: 'Preparing',          // Chuẩn bị nguyên liệu
-    7: 'InTransit',          // Nguyên liệu được chuyển đến chỗ khách hàng
-    8: 'Progressing',        // Đang tiến hành thi công (theo dạng Tracking service)
-    9: 'AllDone',            // Đã thi công xong
-    10: 'FinalPaid',         // Thanh toán thi công
-    11: 'Completed',         // Dự án hoàn thành
-    12: 'PendingCancel',     // Chờ provider duyệt hủy
-    13: 'Canceled',          // Booking bị hủy
-    14: 'Rejected'           // Booking bị từ chối
-  };
-  
-  return statusMap[statusCode] || 'Unknown';
-};
-
-const getStatusColor = (statusCode: number): string => {
-  const statusString = mapStatusCodeToString(statusCode);
-  
-  switch (statusString) {
-    case 'Pending':
-      return '#ff9500'; // Orange
-    case 'Planning':
-      return '#007aff'; // Blue
-    case 'Quoting':
-      return '#5856d6'; // Purple
-    case 'Contracting':
-      return '#007aff'; // Blue
-    case 'Confirm':
-      return '#5856d6'; // Purple
-    case 'DepositPaid':
-      return '#5ac8fa'; // Light blue
-    case 'Preparing':
-      return '#34c759'; // Green
-    case 'InTransit':
-      return '#34c759'; // Green
-    case 'Progressing':
-      return '#34c759'; // Green
-    case 'AllDone':
-      return '#34c759'; // Green
-    case 'FinalPaid':
-      return '#5ac8fa'; // Light blue
-    case 'Completed':
-      return '#4caf50'; // Green
-    case 'PendingCancel':
-      return '#ff9500'; // Orange
-    case 'Canceled':
-      return '#ff3b30'; // Red
-    case 'Rejected':
-      return '#ff3b30'; // Red
-    default:
-      return '#8e8e93'; // Gray
-  }
-};
-
-const getStatusIcon = (statusCode: number): string => {
-  const statusString = mapStatusCodeToString(statusCode);
-  
-  switch (statusString) {
-    case 'Pending':
-      return 'time-outline';
-    case 'Planning':
-      return 'calendar-outline';
-    case 'Quoting':
-      return 'cash-outline';
-    case 'Contracting':
-      return 'document-text-outline';
-    case 'Confirm':
-      return 'checkmark-circle-outline';
-    case 'DepositPaid':
-      return 'wallet-outline';
-    case 'Preparing':
-      return 'construct-outline';
-    case 'InTransit':
-      return 'car-outline';
-    case 'Progressing':
-      return 'hammer-outline';
-    case 'AllDone':
-      return 'checkmark-outline';
-    case 'FinalPaid':
-      return 'cash-outline';
-    case 'Completed':
-      return 'checkmark-done-circle-outline';
-    case 'PendingCancel':
-      return 'hourglass-outline';
-    case 'Canceled':
-      return 'close-circle-outline';
-    case 'Rejected':
-      return 'close-circle-outline';
-    default:
-      return 'help-circle-outline';
-  }
-};
-
-const getStatusStage = (statusCode: number): string => {
-  const statusString = mapStatusCodeToString(statusCode);
-  
-  if (['Pending', 'Planning'].includes(statusString)) {
-    return 'Initial Stage';
-  } else if (['Quoting', 'Contracting', 'Confirm'].includes(statusString)) {
-    return 'Agreement Stage';
-  } else if (['DepositPaid', 'Preparing', 'InTransit', 'Progressing', 'AllDone'].includes(statusString)) {
-    return 'Construction Stage';
-  } else if (['FinalPaid', 'Completed'].includes(statusString)) {
-    return 'Final Stage';
-  } else if (['PendingCancel', 'Canceled', 'Rejected'].includes(statusString)) {
-    return 'Cancelled';
-  }
-  
-  return '';
-};
-
-const canBookingBeCancelled = (statusCode: number): boolean => {
-  return [0, 1].includes(statusCode); // Pending, Planning
-};
-
-// const doesBookingNeedConfirmation = (statusCode: number): boolean => {
-//   return statusCode === 3; // Contracting
-// };
-
-// const doesBookingNeedDeposit = (statusCode: number): boolean => {
-//   return statusCode === 4; // Confirm
-// };
-const canShowQuotationActions = (statusCode: number): boolean => {
-  // Only show quotation actions for status codes 0, 1, and 2
-  return  statusCode === 2 || statusCode === 3|| statusCode === 4 || statusCode === 5 || statusCode === 6|| statusCode === 7;
-};
-// Check if booking is in progress (status=8) to show tracking button
-const hasTrackingAvailable = (statusCode: number): boolean => {
-  return statusCode === 8 || statusCode === 9 || statusCode === 10 || statusCode === 11; // Progressing or statusCode 9
-};
-const doesBookingNeedFinalPayment = (statusCode: number): boolean => {
-  return statusCode === 9; // AllDone status
-};
-// Updated function to check if booking allows early deposit
-const canMakeEarlyDeposit = (booking: IBooking): boolean => {
-  // Chỉ hiển thị nút đặt cọc sớm khi booking có status = 1 (Planning)
-  // và chưa thanh toán đặt cọc sớm (isCommitDepositPaid = false)
-  return booking.status === 1 && booking.isCommitDepositPaid === false;
-};
-// Update the function to check if booking allows rating
-const canRateBooking = (booking: any): boolean => {
-  // Chỉ cho phép đánh giá khi booking có status code là 11 (Completed) 
-  // và chưa được đánh giá (isReviewed === false)
-  return booking.status === 11 && booking.isReviewed === false;
-};
 // Define the booking interface with proper typing
 interface IBooking {
   id?: number;
@@ -245,133 +97,64 @@ const BookingListScreen: React.FC = () => {
   const colors = Colors[theme as "light" | "dark"];
   const router = useRouter();
 
-  const [bookings, setBookings] = useState<IBooking[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string>('');
   const [currentPage, setCurrentPage] = useState<number>(1);
-  const [totalPages, setTotalPages] = useState<number>(1);
   const [selectedCategory, setSelectedCategory] = useState<string | undefined>(undefined);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [calendarExporting, setCalendarExporting] = useState<boolean>(false);
 
   // Group statuses for the filter tabs to create a better user experience
   const filterGroupOptions: FilterOption[] = [
     { label: 'All', value: undefined },
     { label: 'Initial', value: 'initial' },     // 0-1: Pending, Planning
     { label: 'Agreement', value: 'agreement' }, // 2-4: Quoting, Contracting, Confirm
-    { label: 'Construction', value: 'construction' }, // 5-9: DepositPaid through AllDone
-    { label: 'Completed', value: 'completed' }, // 10-11: FinalPaid, Completed
-    { label: 'Cancelled', value: 'cancelled' }  // 12-14: PendingCancel, Canceled, Rejected
+    { label: 'Construction', value: 'construction' }, // 5-9: DepositPaid through ConstructionPayment
+    { label: 'Completed', value: 'completed' }, // 10: Completed
+    { label: 'Cancelled', value: 'cancelled' }  // 11-13: PendingCancellation, Canceled, Rejected
   ];
 
-  useEffect(() => {
-    fetchBookings();
-  }, [currentPage, selectedCategory]); // Fetch bookings when page or category changes
+  // Let's not filter on the server side for now, we'll filter client-side instead
+  // This avoids potential API parameter type issues
+  const bookingsQuery = useBookings({
+    PageIndex: currentPage,
+    PageSize: 10,
+    SortBy: "createdAt",
+    Descending: true
+  });
+  const confirmBookingMutation = useConfirmBooking();
 
   // Helper function to determine if a booking belongs to the selected category
   const bookingMatchesCategory = (booking: IBooking, category?: string): boolean => {
     if (!category) return true; // All bookings match "All" category
     
-    const status = booking.status;
-    
-    switch(category) {
-      case 'initial':
-        return status <= 1;
-      case 'agreement':
-        return status >= 2 && status <= 4;
-      case 'construction':
-        return status >= 5 && status <= 9;
-      case 'completed':
-        return status >= 10 && status <= 11;
-      case 'cancelled':
-        return status >= 12;
-      default:
-        return true;
-    }
+    return getBookingStatusCategory(booking.status) === category;
   };
 
+  const responseItems: IBooking[] = bookingsQuery.data?.data ?? [];
+
+  // Apply client-side category filtering
+  const bookings = selectedCategory 
+    ? responseItems.filter(item => bookingMatchesCategory(item, selectedCategory))
+    : responseItems;
+
+  // Calculate total pages based on totalCount
+  const totalPages = Math.max(1, Math.ceil((bookingsQuery.data?.pagination?.totalCount ?? 0) / 10));
+  const loading = bookingsQuery.isFetching || confirmBookingMutation.isPending;
+  const error = bookingsQuery.isError ? 'Failed to load bookings. Please try again.' : '';
+
   const fetchBookings = async (refresh = false) => {
-    try {
-      
-      if (refresh) {
+    if (refresh) {
+      setRefreshing(true);
+      if (currentPage !== 1) {
+        // Đổi trang sẽ tự động tải lại qua query key mới
         setCurrentPage(1);
-        setRefreshing(true);
-      } else if (!refreshing) {
-        setLoading(true);
+        setRefreshing(false);
+        return;
       }
-      
-      setError('');
-      
-      // Create the API options object with PascalCase parameter names
-      const apiOptions: IBookingFilterOptions = {
-        PageIndex: refresh ? 1 : currentPage,
-        PageSize: 10,
-        SortBy: "createdAt",
-        Descending: true
-      };
+    }
 
-      // Let's not filter on the server side for now, we'll filter client-side instead
-      // This avoids potential API parameter type issues
-      
-      
-      const response = await getPaginatedBookingsForCustomerAPI(apiOptions);
-      
-      
-      // Handle the nested data structure correctly
-      let responseItems: IBooking[] = [];
-      let totalItemCount = 0;
-      
-      // Extract data using the correct structure from your API
-      if (response && response.data) {
-        if (Array.isArray(response.data)) {
-          // Direct array in data property
-          responseItems = response.data;
-        } else if (response.data.data && Array.isArray(response.data.data)) {
-          // Nested data.data structure
-          responseItems = response.data.data;
-        }
-        
-        // Check for totalCount in different possible locations
-        if (response.totalCount !== undefined) {
-          totalItemCount = response.totalCount;
-        } else if (response.data.totalCount !== undefined) {
-          totalItemCount = response.data.totalCount;
-        }
-      } else if (response && response.items && Array.isArray(response.items)) {
-        // Alternative format with items array
-        responseItems = response.items;
-        totalItemCount = response.totalCount || 0;
-      }
-      
-      
-      // Log each booking item details for debugging
-      responseItems.forEach((item, index) => {
-        const id = item.id || item.bookingId;
-        console.log(`📘 Booking ${index + 1}: ID ${id}, Code ${item.bookingCode}, Status ${item.status} (${mapStatusCodeToString(item.status)})`);
-      });
-      
-      // Apply client-side category filtering
-      const filteredItems = selectedCategory 
-        ? responseItems.filter(item => bookingMatchesCategory(item, selectedCategory))
-        : responseItems;
-        
-      console.log(`📘 After category filtering: ${filteredItems.length} items`);
-      
-      setBookings(filteredItems);
-      
-      // Calculate total pages based on totalCount
-      const estimatedTotalPages = Math.max(1, Math.ceil(totalItemCount / 10));
-      setTotalPages(estimatedTotalPages);
-      console.log('📘 Estimated total pages:', estimatedTotalPages);
-      
-    } catch (err: any) {
-      console.error('❌ Error fetching bookings:', err);
-      if (err.response) {
-        console.error('❌ API Error Response:', err.response.status, err.response.data);
-      }
-      setError('Failed to load bookings. Please try again.');
+    try {
+      await bookingsQuery.refetch();
     } finally {
-      console.log('📘 Finished fetching bookings, setting loading states to false');
-      setLoading(false);
       setRefreshing(false);
     }
   };
@@ -403,7 +186,7 @@ const handleRateBooking = (booking: IBooking): void => {
       id: booking.id || booking.bookingId,
       code: booking.bookingCode,
       status: booking.status,
-      statusText: mapStatusCodeToString(booking.status)
+      statusText: getBookingStatusLabel(booking.status)
     });
     
     // Navigate to cancel request screen
@@ -445,27 +228,13 @@ const handleRateBooking = (booking: IBooking): void => {
           onPress: async () => {
             try {
               console.log('📘 Confirming booking:', booking.bookingCode);
-              setLoading(true);
-              
-              const result = await confirmBookingAPI(booking.bookingCode);
-              console.log('📘 Confirmation result:', result);
               
-              if (result.success) {
-                console.log('📘 Booking confirmation successful');
-                Alert.alert('Success', 'Booking confirmed successfully');
-                fetchBookings(true);
-              } else {
-                console.error('❌ Booking confirmation failed:', result.message);
-                Alert.alert('Error', result.message || 'Failed to confirm booking');
-              }
+              await confirmBookingMutation.mutateAsync(booking.bookingCode);
+              console.log('📘 Booking confirmation successful');
+              Alert.alert('Success', 'Booking confirmed successfully');
             } catch (err: any) {
               console.error('❌ Error in booking confirmation:', err);
-              if (err.response) {
-                console.error('❌ API Error Response:', err.response.status, err.response.data);
-              }
-              Alert.alert('Error', 'Failed to confirm booking');
-            } finally {
-              setLoading(false);
+              Alert.alert('Error', err?.message || 'Failed to confirm booking');
             }
           }
         }
@@ -481,7 +250,7 @@ const handleRateBooking = (booking: IBooking): void => {
       id: booking.id || booking.bookingId,
       code: booking.bookingCode,
       status: booking.status,
-      statusText: mapStatusCodeToString(booking.status),
+      statusText: getBookingStatusLabel(booking.status),
       totalPrice: booking.totalPrice
     });
     
@@ -515,6 +284,53 @@ const handleRateBooking = (booking: IBooking): void => {
     });
   };
 
+  // Every active booking, not only the page on screen, goes to the calendar
+  const handleExportActiveBookings = (): void => {
+    // An empty device calendar sync still clears events of bookings that ended
+    const exportWith = async (action: (bookings: IBooking[]) => Promise<string>, allowEmpty = false) => {
+      setCalendarExporting(true);
+      try {
+        const response = await getPaginatedBookingsForCustomerAPI({ PageIndex: 1, PageSize: 50 });
+        if (!response.success) throw new Error(response.message || 'Failed to fetch bookings');
+
+        const active = (response.data as IBooking[]).filter(isActiveCalendarBooking);
+        if (active.length === 0 && !allowEmpty) {
+          Alert.alert('No Active Bookings', 'There are no upcoming bookings to add to your calendar.');
+          return;
+        }
+        const message = await action(active);
+        if (message) Alert.alert('Added to Calendar', message);
+      } catch (error: any) {
+        Alert.alert('Calendar Export Failed', error?.message || 'Could not export your bookings');
+      } finally {
+        setCalendarExporting(false);
+      }
+    };
+
+    Alert.alert('Add Bookings to Calendar', 'Export survey and decoration dates of all active bookings.', [
+      {
+        text: 'Add to Device Calendar',
+        onPress: () =>
+          exportWith(async (bookings) => {
+            // Cancelled and completed bookings are left out, so their events are removed
+            const { added, updated, removed } = await calendarExport.addBookingsToDeviceCalendar(bookings, {
+              replaceAll: true,
+            });
+            return `${added} added, ${updated} updated and ${removed} removed in your "Season Decor" calendar.`;
+          }, true),
+      },
+      {
+        text: 'Share .ics File',
+        onPress: () =>
+          exportWith(async (bookings) => {
+            await calendarExport.shareBookings(bookings, 'season-decor-bookings');
+            return '';
+          }),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
    const renderHeader = (): React.ReactElement => (
     <View style={[styles.header, { borderBottomColor: colors.border }]}>
       <TouchableOpacity
@@ -525,6 +341,17 @@ const handleRateBooking = (booking: IBooking): void => {
       </TouchableOpacity>
       <Text style={[styles.headerTitle, { color: colors.text }]}>My Bookings</Text>
       <View style={styles.headerRightButtons}>
+        <TouchableOpacity
+          style={styles.headerIconButton}
+          onPress={handleExportActiveBookings}
+          disabled={calendarExporting}
+        >
+          {calendarExporting ? (
+            <ActivityIndicator size="small" color={colors.text} />
+          ) : (
+            <Ionicons name="calendar-outline" size={24} color={colors.text} />
+          )}
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.headerIconButton}
           onPress={() => router.push('/(tabs)/home')}
@@ -572,20 +399,18 @@ const handleRateBooking = (booking: IBooking): void => {
   
   const renderBookingItem = ({ item }: { item: IBooking }): React.ReactElement => {
     const statusCode = item.status;
-    const statusText = mapStatusCodeToString(statusCode);
+    const statusText = getBookingStatusLabel(statusCode);
     // We need to cast the statusIcon to Ionicons name type to fix the type error
-    const statusIcon = getStatusIcon(statusCode) as keyof typeof Ionicons.glyphMap;
-    const statusColor = getStatusColor(statusCode);
-    const statusStage = getStatusStage(statusCode);
+    const statusIcon = getBookingStatusIcon(statusCode) as keyof typeof Ionicons.glyphMap;
+    const statusColor = getBookingStatusColor(statusCode);
+    const statusStage = getBookingStatusStage(statusCode);
     
-    const canCancel = canBookingBeCancelled(statusCode);
-    // const needsConfirmation = doesBookingNeedConfirmation(statusCode);
-    // const needsDeposit = doesBookingNeedDeposit(statusCode);
-    const hasTracking = hasTrackingAvailable(statusCode);
-    const needsFinalPayment = doesBookingNeedFinalPayment(statusCode);
+    const canCancel = canCancelBooking(statusCode);
+    const hasTracking = canOpenTracking(statusCode);
+    const needsFinalPayment = canPayFinal(statusCode);
     // Check if booking has a quotation code
-    const hasQuotationActions = canShowQuotationActions(statusCode);
-    const allowEarlyDeposit = canMakeEarlyDeposit(item);
+    const hasQuotationActions = canViewQuotation(statusCode);
+    const allowEarlyDeposit = canMakeCommitDeposit(item);
     // Use either id or bookingId depending on which is available
     const bookingId = item.id || item.bookingId;
     const canRate = canRateBooking(item);
@@ -681,7 +506,7 @@ const handleRateBooking = (booking: IBooking): void => {
   Booked on {formatDateWithTextMonth(item.createdAt)}
 </Text>
           <View style={styles.actionButtonsContainer}>
-            {/* View Tracking button - Only show for status 8 (Progressing) */}
+            {/* View Tracking button - Only show once construction has started */}
             {hasTracking && (
               <TouchableOpacity
                 style={styles.trackingButton}
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { useTheme } from "@/constants/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import {
+  API_PROFILES,
+  ApiProfileName,
+  BUILD_API_PROFILE,
+  getActiveApiProfile,
+  setApiProfile,
+  subscribeApiProfile,
+  testApiConnection,
+} from "@/config/apiConfig";
+import { queryClient } from "@/hooks/queryClient";
+import offlineQueue from "@/services/OfflineQueueService";
+import { removeToken } from "@/services/auth";
+
+const PRIMARY_COLOR = "#5fc1f1";
+
+type ConnectionCheck = "idle" | "checking" | "ok" | "failed";
+
+// Debug builds only: pick which backend the app talks to without editing source
+const DeveloperMenuScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme as "light" | "dark"];
+  const router = useRouter();
+
+  const [activeProfile, setActiveProfile] = useState<ApiProfileName>(getActiveApiProfile().name);
+  const [connectionCheck, setConnectionCheck] = useState<ConnectionCheck>("idle");
+
+  useEffect(() => subscribeApiProfile((profile) => setActiveProfile(profile.name)), []);
+
+  // Release builds never reach this screen, but guard deep links anyway
+  if (!__DEV__) {
+    return null;
+  }
+
+  const switchProfile = async (name: ApiProfileName | null) => {
+    // Cached data, queued mutations and the session all belong to the previous backend
+    await setApiProfile(name);
+    queryClient.clear();
+    await offlineQueue.clear();
+    await removeToken();
+    setConnectionCheck("idle");
+    router.replace("/(auth)/login");
+  };
+
+  const handleSelectProfile = (name: ApiProfileName) => {
+    if (name === activeProfile) return;
+
+    Alert.alert(
+      "Switch backend",
+      `Use ${API_PROFILES[name].label} (${API_PROFILES[name].baseUrl})? You will be signed out.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Switch", style: "destructive", onPress: () => switchProfile(name) },
+      ]
+    );
+  };
+
+  const handleTestConnection = async () => {
+    setConnectionCheck("checking");
+    const isReachable = await testApiConnection();
+    setConnectionCheck(isReachable ? "ok" : "failed");
+  };
+
+  const renderConnectionStatus = () => {
+    switch (connectionCheck) {
+      case "checking":
+        return <ActivityIndicator size="small" color={PRIMARY_COLOR} />;
+      case "ok":
+        return <Text style={[styles.statusText, { color: "#4CAF50" }]}>Reachable</Text>;
+      case "failed":
+        return <Text style={[styles.statusText, { color: colors.error }]}>Unreachable</Text>;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar barStyle={theme === "dark" ? "light-content" : "dark-content"} />
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Developer Menu</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>API environment</Text>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          Build profile: {API_PROFILES[BUILD_API_PROFILE].label}
+        </Text>
+
+        {(Object.keys(API_PROFILES) as ApiProfileName[]).map((name) => {
+          const profile = API_PROFILES[name];
+          const isActive = name === activeProfile;
+
+          return (
+            <TouchableOpacity
+              key={name}
+              style={[
+                styles.profileRow,
+                { backgroundColor: colors.card, borderColor: isActive ? PRIMARY_COLOR : colors.border },
+              ]}
+              onPress={() => handleSelectProfile(name)}
+            >
+              <Ionicons
+                name={isActive ? "radio-button-on" : "radio-button-off"}
+                size={22}
+                color={isActive ? PRIMARY_COLOR : colors.icon}
+              />
+              <View style={styles.profileInfo}>
+                <Text style={[styles.profileLabel, { color: colors.text }]}>{profile.label}</Text>
+                <Text style={[styles.profileUrl, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {profile.baseUrl}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={styles.actionsRow}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleTestConnection}>
+            <Text style={styles.actionButtonText}>Test connection</Text>
+          </TouchableOpacity>
+          {renderConnectionStatus()}
+        </View>
+
+        {activeProfile !== BUILD_API_PROFILE && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.resetButton]}
+            onPress={() => switchProfile(null)}
+          >
+            <Text style={[styles.actionButtonText, { color: PRIMARY_COLOR }]}>Reset to build profile</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    marginTop: StatusBar.currentHeight,
+  },
+  backButton: {
+    padding: 8,
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    flex: 1,
+    textAlign: "center",
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  profileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  profileUrl: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    backgroundColor: PRIMARY_COLOR,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  actionButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  resetButton: {
+    marginTop: 16,
+    backgroundColor: "transparent",
+    borderWidth: 1,
+    borderColor: PRIMARY_COLOR,
+    alignSelf: "flex-start",
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
+
+export default DeveloperMenuScreen;
@@ -18,11 +18,11 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { getUserIdFromToken } from '@/services/auth';
 import { 
-  getFavoriteProductListAPI, 
-  removeFavoriteProductAPI,
-  getFavoriteServiceListAPI,
-  removeFavoriteServiceAPI
-} from '@/utils/favoriteAPI';
+  useFavoriteProducts,
+  useFavoriteServices,
+  useRemoveFavoriteProduct,
+  useRemoveFavoriteService
+} from '@/hooks/useFavoriteQueries';
 import { IProduct } from '@/utils/productAPI';
 
 const PRIMARY_COLOR = "#5fc1f1";
@@ -65,100 +65,49 @@ const FavoriteScreen = () => {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState('products');
   
-  const [favoriteProducts, setFavoriteProducts] = useState<FavoriteProductItem[]>([]);
-  const [favoriteServices, setFavoriteServices] = useState<FavoriteServiceItem[]>([]);
-  
-  const [loadingProducts, setLoadingProducts] = useState(false);
-  const [loadingServices, setLoadingServices] = useState(false);
-  
   const [refreshing, setRefreshing] = useState(false);
   
   const { theme } = useTheme();
   const colors = Colors[theme as "light" | "dark"];
 
-  useEffect(() => {
-    fetchFavorites();
-  }, [activeTab]);
+  // Each tab loads on first visit; React Query keeps both lists cached afterwards
+  const productsQuery = useFavoriteProducts(activeTab === 'products');
+  const servicesQuery = useFavoriteServices(activeTab === 'services');
+  const removeProductMutation = useRemoveFavoriteProduct();
+  const removeServiceMutation = useRemoveFavoriteService();
 
-  const fetchFavorites = async () => {
-    try {
-      const userId = await getUserIdFromToken();
-      if (!userId) {
-        Alert.alert("Error", "Please log in to view your favorites");
-        return;
-      }
-      
-      if (activeTab === 'products' || refreshing) {
-        fetchFavoriteProducts();
-      }
-      
-      if (activeTab === 'services' || refreshing) {
-        fetchFavoriteServices();
-      }
-    } catch (error) {
-      console.error('Error fetching favorites:', error);
-    }
-  };
+  // Filter out any invalid items
+  const favoriteProducts: FavoriteProductItem[] = (productsQuery.data ?? []).filter(item => 
+    item && typeof item === 'object' && item.id && item.productDetail
+  );
 
-  const fetchFavoriteProducts = async () => {
-    try {
-      setLoadingProducts(true);
-      const data = await getFavoriteProductListAPI();
-      console.log("Fetched favorite products:", data);
-      
-      if (data && Array.isArray(data)) {
-        // Filter out any invalid items
-        const validItems = data.filter(item => 
-          item && typeof item === 'object' && item.id && item.productDetail
-        );
-        setFavoriteProducts(validItems);
-      } else {
-        console.warn("Received invalid data format for favorite products:", data);
-        setFavoriteProducts([]);
-      }
-    } catch (error) {
-      console.error('Error fetching favorite products:', error);
-      setFavoriteProducts([]);
-    } finally {
-      setLoadingProducts(false);
+  // Current API response seems to be array of { decorServiceDetails, favoriteId }
+  const favoriteServices: FavoriteServiceItem[] = (servicesQuery.data ?? []).map(item => {
+    // Handle both possible API response formats
+    if (item.decorServiceDetails) {
+      return item; // Already in expected format
+    } else if (item.favoriteId && item.decorService) {
+      // Transform old format to new format if needed
+      return {
+        favoriteId: item.favoriteId,
+        decorServiceDetails: item.decorService
+      };
     }
-  };
+    return null;
+  }).filter(Boolean); // Filter out any null items
 
-  const fetchFavoriteServices = async () => {
-    try {
-      setLoadingServices(true);
-      const data = await getFavoriteServiceListAPI();
-      console.log("Fetched favorite services:", data);
-      
-      if (data && Array.isArray(data)) {
-        // Map the data to our expected format if needed
-        // Current API response seems to be array of { decorServiceDetails, favoriteId }
-        const formattedItems = data.map(item => {
-          // Handle both possible API response formats
-          if (item.decorServiceDetails) {
-            return item; // Already in expected format
-          } else if (item.favoriteId && item.decorService) {
-            // Transform old format to new format if needed
-            return {
-              favoriteId: item.favoriteId,
-              decorServiceDetails: item.decorService
-            };
-          }
-          return null;
-        }).filter(Boolean); // Filter out any null items
-        
-        setFavoriteServices(formattedItems);
-      } else {
-        console.warn("Received invalid data format for favorite services:", data);
-        setFavoriteServices([]);
+  const loadingProducts = productsQuery.isLoading;
+  const loadingServices = servicesQuery.isLoading;
+
+  useEffect(() => {
+    const checkLogin = async () => {
+      const userId = await getUserIdFromToken();
+      if (!userId) {
+        Alert.alert("Error", "Please log in to view your favorites");
       }
-    } catch (error) {
-      console.error('Error fetching favorite services:', error);
-      setFavoriteServices([]);
-    } finally {
-      setLoadingServices(false);
-    }
-  };
+    };
+    checkLogin();
+  }, []);
 
   const handleRemoveFavoriteProduct = async (favoriteId: number) => {
     if (favoriteId === undefined || favoriteId === null) {
@@ -167,9 +116,8 @@ const FavoriteScreen = () => {
     }
     
     try {
-      await removeFavoriteProductAPI(favoriteId);
-      // Update the list after removal
-      setFavoriteProducts(prev => prev.filter(p => p.id !== favoriteId));
+      // The favorites list refetches once the mutation succeeds
+      await removeProductMutation.mutateAsync(favoriteId);
       Alert.alert("Success", "Product removed from favorites");
     } catch (error) {
       console.error('Error removing product from favorites:', error);
@@ -184,9 +132,7 @@ const FavoriteScreen = () => {
     }
     
     try {
-      await removeFavoriteServiceAPI(favoriteId);
-      // Update the list after removal
-      setFavoriteServices(prev => prev.filter(s => s.favoriteId !== favoriteId));
+      await removeServiceMutation.mutateAsync(favoriteId);
       Alert.alert("Success", "Service removed from favorites");
     } catch (error) {
       console.error('Error removing service from favorites:', error);
@@ -196,7 +142,7 @@ const FavoriteScreen = () => {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchFavorites();
+    await (activeTab === 'products' ? productsQuery.refetch() : servicesQuery.refetch());
     setRefreshing(false);
   };
 
@@ -15,6 +15,7 @@ import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 import Ionicons from "react-native-vector-icons/Ionicons";
 import { initApiClient } from "@/config/axiosConfig";
+import { normalizeApiResponse } from "@/utils/apiResult";
 import { StatusBar } from "expo-status-bar";
 
 const PRIMARY_COLOR = "#5fc1f1";
@@ -34,11 +35,10 @@ const fetchFollowingsDirectly = async (userId?: number): Promise<IFollowingUser[
   try {
     const response = await apiClient.get(url);
     
-    // Check response structure
-    if (response && response.data && Array.isArray(response.data.data)) {
-      return response.data.data;
-    } else if (response && Array.isArray(response.data)) {
-      return response.data;
+    const result = normalizeApiResponse<IFollowingUser[]>(response);
+    
+    if (result.success && Array.isArray(result.data)) {
+      return result.data;
     } else {
       throw new Error("Invalid response format from the server.");
     }
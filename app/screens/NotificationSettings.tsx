@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { useTheme } from "@/constants/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import TimePicker from "@/components/ui/TimePicker";
+import { useNotificationPreferences } from "@/hooks/useNotificationPreferences";
+import notificationPreferences from "@/services/NotificationPreferencesService";
+import {
+  NOTIFICATION_TYPES,
+  NotificationDelivery,
+  NotificationType,
+} from "@/utils/notificationPreferences";
+
+const PRIMARY_COLOR = "#5fc1f1";
+
+const DELIVERY_OPTIONS: { value: NotificationDelivery; label: string }[] = [
+  { value: "all", label: "Always" },
+  { value: "quietHours", label: "Not at night" },
+  { value: "muted", label: "Muted" },
+];
+
+const toDate = (time: string): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const toTime = (date: Date): string =>
+  `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+
+// Which notification types pop up, stay silent at night or are hidden entirely
+const NotificationSettingsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme as "light" | "dark"];
+  const router = useRouter();
+  const { preferences, loading } = useNotificationPreferences();
+  const [editingTime, setEditingTime] = useState<"start" | "end" | null>(null);
+
+  const { quietHours } = preferences;
+
+  const handleDeliveryChange = (type: NotificationType, delivery: NotificationDelivery) => {
+    notificationPreferences.updatePreferences({ types: { ...preferences.types, [type]: delivery } });
+  };
+
+  const handleTimeSelect = (date: Date) => {
+    if (editingTime) {
+      notificationPreferences.updatePreferences({ quietHours: { ...quietHours, [editingTime]: toTime(date) } });
+    }
+    setEditingTime(null);
+  };
+
+  const handleReset = () => {
+    Alert.alert("Reset preferences", "Show every notification type again and turn off quiet hours?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Reset", style: "destructive", onPress: () => notificationPreferences.reset() },
+    ]);
+  };
+
+  const renderTimeRow = (field: "start" | "end", label: string) => (
+    <TouchableOpacity
+      style={[styles.row, { borderTopColor: colors.border }]}
+      disabled={!quietHours.enabled}
+      onPress={() => setEditingTime(field)}
+    >
+      <Text style={[styles.rowLabel, { color: quietHours.enabled ? colors.text : colors.textSecondary }]}>{label}</Text>
+      <View style={styles.timeValue}>
+        <Text style={[styles.timeText, { color: quietHours.enabled ? PRIMARY_COLOR : colors.textSecondary }]}>
+          {quietHours[field]}
+        </Text>
+        <Ionicons name="chevron-forward" size={16} color={colors.textSecondary} />
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar barStyle={theme === "dark" ? "light-content" : "dark-content"} />
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Notification Settings</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY_COLOR} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>QUIET HOURS</Text>
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={[styles.rowLabel, { color: colors.text }]}>Quiet hours</Text>
+                <Text style={[styles.rowDescription, { color: colors.textSecondary }]}>
+                  Types set to "Not at night" still arrive in your list, without popping up
+                </Text>
+              </View>
+              <Switch
+                value={quietHours.enabled}
+                onValueChange={(enabled) => {
+                  notificationPreferences.updatePreferences({ quietHours: { ...quietHours, enabled } });
+                }}
+                trackColor={{ false: colors.border, true: PRIMARY_COLOR }}
+              />
+            </View>
+            {renderTimeRow("start", "From")}
+            {renderTimeRow("end", "Until")}
+          </View>
+
+          <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>NOTIFICATION TYPES</Text>
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            {NOTIFICATION_TYPES.map(({ type, label, description }, index) => (
+              <View key={type} style={[styles.typeRow, index > 0 && { borderTopWidth: 1, borderTopColor: colors.border }]}>
+                <Text style={[styles.rowLabel, { color: colors.text }]}>{label}</Text>
+                <Text style={[styles.rowDescription, { color: colors.textSecondary }]}>{description}</Text>
+                <View style={[styles.segmented, { borderColor: colors.border }]}>
+                  {DELIVERY_OPTIONS.map((option) => {
+                    const selected = preferences.types[type] === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.segment, selected && { backgroundColor: PRIMARY_COLOR }]}
+                        onPress={() => handleDeliveryChange(type, option.value)}
+                      >
+                        <Text style={[styles.segmentText, { color: selected ? "#fff" : colors.textSecondary }]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {!quietHours.enabled && Object.values(preferences.types).includes("quietHours") && (
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>
+              Turn on quiet hours for "Not at night" to take effect.
+            </Text>
+          )}
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={[styles.resetText, { color: colors.error }]}>Reset to defaults</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      {editingTime && (
+        <TimePicker
+          visible
+          initialTime={toDate(quietHours[editingTime])}
+          onTimeSelect={handleTimeSelect}
+          onCancel={() => setEditingTime(null)}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    marginTop: StatusBar.currentHeight,
+  },
+  backButton: {
+    padding: 8,
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    flex: 1,
+    textAlign: "center",
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 16,
+    overflow: "hidden",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  rowDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  timeValue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  timeText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  typeRow: {
+    padding: 14,
+  },
+  segmented: {
+    flexDirection: "row",
+    borderWidth: 1,
+    borderRadius: 8,
+    marginTop: 10,
+    overflow: "hidden",
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  hint: {
+    fontSize: 13,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  resetButton: {
+    alignItems: "center",
+    padding: 12,
+  },
+  resetText: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+});
+
+export default NotificationSettingsScreen;
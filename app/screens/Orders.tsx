@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -13,7 +13,9 @@ import Ionicons from 'react-native-vector-icons/Ionicons';
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
 import { useRouter } from 'expo-router';
-import { getOrderListAPI } from '@/utils/orderAPI';
+import { useQueryClient } from '@tanstack/react-query';
+import { useOrders } from '@/hooks/useOrderQueries';
+import { queryKeys } from '@/hooks/queryKeys';
 
 // Define Order interface
 interface Order {
@@ -40,12 +42,12 @@ const OrderListScreen = () => {
   const colors = Colors[theme as "light" | "dark"];
   const router = useRouter();
 
-  // State initialization with empty array
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
+  // Orders are cached by React Query and shared with other screens
+  const { data, isLoading: loading } = useOrders();
+  const orders: Order[] = data ?? [];
   const [refreshing, setRefreshing] = useState(false);
   const [selectedStatus, setSelectedStatus] = useState<number | null>(null);
+  const queryClient = useQueryClient();
 
   // Status filter options - simplified
   const statusFilters = [
@@ -56,46 +58,12 @@ const OrderListScreen = () => {
     { label: "Cancelled", value: 5 }
   ];
 
-  // Fetch orders on mount
-  useEffect(() => {
-    console.log("Component mounted, fetching orders");
-    fetchOrders();
-  }, []);
-
+  // Pull-to-refresh and the header button force a refetch
   const fetchOrders = async () => {
     try {
-      setLoading(true);
-      console.log("Fetching orders...");
-      
-      // Call API
-      const response = await getOrderListAPI();
-      console.log("API response received");
-      
-      // Process data from API - check response structure
-      if (response) {
-        // Case 1: API returns array directly (as current log)
-        if (Array.isArray(response)) {
-          console.log(`Found ${response.length} orders from API (array)`);
-          setOrders(response);
-        } 
-        // Case 2: API returns structure {success, message, errors, data}
-        else if (response.success === true && Array.isArray(response.data)) {
-          console.log(`Found ${response.data.length} orders from API (object)`);
-          setOrders(response.data);
-        }
-        // Case: Unknown structure
-        else {
-          console.log("Unknown response structure:", response);
-          setError("Invalid response format");
-        }
-      } else {
-        setError("No response from server");
-      }
-    } catch (err: any) {
-      console.error("Error in fetchOrders:", err);
-      setError(err.message || "Failed to load orders");
+      setRefreshing(true);
+      await queryClient.refetchQueries({ queryKey: queryKeys.orders.list() });
     } finally {
-      setLoading(false);
       setRefreshing(false);
     }
   };
@@ -156,10 +124,7 @@ const OrderListScreen = () => {
       
       <TouchableOpacity 
         style={styles.refreshButton}
-        onPress={() => {
-          setRefreshing(true);
-          fetchOrders();
-        }}
+        onPress={fetchOrders}
         disabled={loading}
       >
         <Ionicons 
@@ -82,21 +82,7 @@ const ReviewScreen = () => {
       setError(null);
       
       // Get reviews using direct API call
-      const response = await getReviewByAccountDirectAPI();
-      
-      // Initialize reviewsArray
-      let reviewsArray = [];
-      
-      // Try to extract reviews from response in various possible formats
-      if (Array.isArray(response)) {
-        reviewsArray = response;
-      } 
-      else if (response && Array.isArray(response.data)) {
-        reviewsArray = response.data;
-      }
-      else if (response && response.data && Array.isArray(response.data.data)) {
-        reviewsArray = response.data.data;
-      }
+      const reviewsArray = await getReviewByAccountDirectAPI();
       
       // Map the reviews to add default properties if missing
       const mappedReviews = reviewsArray.map((item: any) => ({
@@ -28,6 +28,7 @@ import {
   IPaginatedSupportTickets
 } from "@/utils/supportAPI";
 import { getPaginatedBookingsForCustomerAPI, IBookingFilterOptions, IBooking } from "@/utils/bookingAPI";
+import { BookingStatus } from "@/utils/bookingStatus";
 import Ionicons from "react-native-vector-icons/Ionicons";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
@@ -176,21 +177,13 @@ const SupportScreen = () => {
     try {
       if (!isRefresh && page === 0) setLoading(true);
       
-      const response: any = await getPaginatedSupportTicketsAPI({
+      const response = await getPaginatedSupportTicketsAPI({
         pageIndex: page,
         pageSize: CONFIG.pagination.pageSize,
         descending: true
       });
       
-      let ticketsData: any[] = [];
-      
-      if (response?.success && response?.data?.data) {
-        ticketsData = response.data.data;
-      } else if (response?.data && Array.isArray(response.data)) {
-        ticketsData = response.data;
-      } else if (Array.isArray(response)) {
-        ticketsData = response;
-      }
+      const ticketsData: any[] = [...response.data];
       
       // Sort by ID descending
       ticketsData.sort((a, b) => (b.id || 0) - (a.id || 0));
@@ -226,20 +219,15 @@ const SupportScreen = () => {
   const loadBookingOptions = async () => {
     try {
       const response = await getPaginatedBookingsForCustomerAPI({
-        Status: 11,
+        Status: BookingStatus.Completed,
         PageIndex: 1,
         PageSize: 50,
         SortBy: 'createdAt',
         Descending: true
       });
       
-      let bookingsData: any[] = [];
-      if (response?.data && Array.isArray(response.data)) {
-        bookingsData = response.data;
-      }
-      
-      const options = bookingsData
-        .filter(booking => booking.bookingCode && booking.status === 11)
+      const options = response.data
+        .filter(booking => booking.bookingCode && booking.status === BookingStatus.Completed)
         .map(booking => ({
           id: booking.bookingId?.toString() || booking.id?.toString() || '',
           bookingCode: booking.bookingCode,
@@ -0,0 +1,208 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  FlatList,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { useTheme } from "@/constants/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import { useSurveyDrafts } from "@/hooks/useSurveyDrafts";
+import surveyDrafts, { getSurveyDraftProgress, ISurveyDraft } from "@/services/SurveyDraftService";
+
+const PRIMARY_COLOR = "#5fc1f1";
+
+const formatSavedAt = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Unfinished survey forms, resumed from the decor service page
+const SurveyDraftsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const colors = Colors[theme as "light" | "dark"];
+  const router = useRouter();
+  const { drafts, loading } = useSurveyDrafts();
+
+  const handleOpenDraft = (draft: ISurveyDraft) => {
+    router.push({
+      pathname: "/decor/[id]",
+      params: { id: String(draft.decorServiceId) },
+    });
+  };
+
+  const handleDeleteDraft = (draft: ISurveyDraft) => {
+    Alert.alert(
+      "Delete draft",
+      `Delete your saved request for ${draft.serviceName || "this service"}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: () => surveyDrafts.removeDraft(draft.decorServiceId) },
+      ]
+    );
+  };
+
+  const renderDraft = ({ item }: { item: ISurveyDraft }) => {
+    const { answered, total } = getSurveyDraftProgress(item.form);
+
+    return (
+      <TouchableOpacity
+        style={[styles.draftCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() => handleOpenDraft(item)}
+      >
+        <View style={styles.draftIcon}>
+          <Ionicons name="document-text-outline" size={24} color={PRIMARY_COLOR} />
+        </View>
+        <View style={styles.draftInfo}>
+          <Text style={[styles.draftTitle, { color: colors.text }]} numberOfLines={1}>
+            {item.serviceName || `Decor service #${item.decorServiceId}`}
+          </Text>
+          <Text style={[styles.draftMeta, { color: colors.textSecondary }]}>
+            {answered} of {total} answered
+            {item.booking?.surveyDate ? ` · survey ${item.booking.surveyDate}` : ""}
+          </Text>
+          <Text style={[styles.draftMeta, { color: colors.textSecondary }]}>Saved {formatSavedAt(item.updatedAt)}</Text>
+          <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+            <View style={[styles.progressFill, { width: `${(answered / total) * 100}%` }]} />
+          </View>
+        </View>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteDraft(item)}>
+          <Ionicons name="trash-outline" size={20} color={colors.error} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar barStyle={theme === "dark" ? "light-content" : "dark-content"} />
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Booking Drafts</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY_COLOR} />
+        </View>
+      ) : (
+        <FlatList
+          data={drafts}
+          keyExtractor={(item) => item.decorServiceId.toString()}
+          renderItem={renderDraft}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Ionicons name="document-outline" size={64} color={colors.border} />
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>No saved drafts</Text>
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                Survey answers are saved automatically while you fill in a booking request.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    marginTop: StatusBar.currentHeight,
+  },
+  backButton: {
+    padding: 8,
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    flex: 1,
+    textAlign: "center",
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  draftCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  draftIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: `${PRIMARY_COLOR}20`,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  draftInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  draftTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  draftMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 8,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: PRIMARY_COLOR,
+  },
+  deleteButton: {
+    padding: 6,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 6,
+  },
+});
+
+export default SurveyDraftsScreen;
@@ -216,34 +216,15 @@ const AddAddressScreen = () => {
     try {
       const response = await createAddressAPI(newAddress);
       
-      
-      // Type guard to check if response is address object by checking for typical address properties
-      const isAddressResponse = (obj: any): obj is IAddress => {
-        return obj && typeof obj === 'object' && 'phone' in obj && 'fullName' in obj;
-      };
-      
-      // First check if response is a direct address object
-      if (isAddressResponse(response)) {
-        // Trở về trang trước đó sau khi thêm địa chỉ thành công
-        Alert.alert(
-          "Success", 
-          "Address added successfully!",
-          [{ text: "OK", onPress: () => router.back() }]
-        );
-      } 
-      // Otherwise check if it's a standard API response with success flag
-      else if (response && 'success' in response && response.success === true) {
+      if (response.success) {
         // Trở về trang trước đó sau khi thêm địa chỉ thành công
         Alert.alert(
           "Success", 
           "Address added successfully!",
           [{ text: "OK", onPress: () => router.back() }]
         );
-      } 
-      // Handle error case
-      else {
-        const msg = (response && 'message' in response) ? response.message : "Failed to add address. Please try again.";
-        Alert.alert("Failed", msg);
+      } else {
+        Alert.alert("Failed", response.message || "Failed to add address. Please try again.");
       }
     } catch (error) {
       console.error("Error creating address:", error);
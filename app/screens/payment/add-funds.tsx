@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import {
   View,
   Text,
@@ -29,7 +29,6 @@ const AddFundsScreen = () => {
   const [isCustomAmount, setIsCustomAmount] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [linkingInitialized, setLinkingInitialized] = useState<boolean>(false);
 
   // Handle predefined amount selection
   const handlePredefinedAmount = (value: number) => {
@@ -51,54 +50,9 @@ const AddFundsScreen = () => {
     return parseInt(value).toLocaleString() + " VND";
   };
 
-  // Handle successful payment completion
-  const handlePaymentSuccess = () => {
-    console.log("Payment successful - redirecting to success page");
-    router.push("/screens/payment/success");
-  };
+  // The VNPay return link is routed to the success / failure screen by the deep link
+  // registry (utils/deepLinks.ts), so this screen only opens the payment page
 
-  // Handle deep linking for payment responses
-  useEffect(() => {
-    if (linkingInitialized) return;
-  
-    const handleDeepLink = (event: { url: string }) => {
-      try {
-        const { url } = event;
-        console.log("Received deep link URL:", url);
-  
-        // Check if this is a success URL
-        if (url.includes('success') || 
-            (url.includes('vnp_ResponseCode=00') && url.includes('vnp_TransactionStatus=00'))) {
-          console.log("Success detected in deep link");
-          handlePaymentSuccess();
-        } else if (url.includes('vnp_ResponseCode')) {
-          // Payment was completed but not successful
-          console.log("Payment completed but not successful");
-          setError("Payment was not successful. Please try again.");
-        }
-      } catch (error) {
-        console.error("Error handling deep link:", error);
-      }
-    };
-  
-    const subscription = Linking.addEventListener('url', handleDeepLink);
-  
-    Linking.getInitialURL().then((url) => {
-      if (url) {
-        console.log("Initial URL on mount:", url);
-        handleDeepLink({ url });
-      }
-    }).catch(err => {
-      console.error("Error getting initial URL:", err);
-    });
-  
-    setLinkingInitialized(true);
-  
-    return () => {
-      subscription.remove();
-    };
-  }, [router, linkingInitialized]);
-  
   // Handle adding funds
   const handleAddFunds = async () => {
     if (!amount || parseInt(amount) <= 0) {
@@ -114,20 +68,8 @@ const AddFundsScreen = () => {
       const response = await topUpWalletAPI(parseInt(amount));
       console.log("Payment API response:", response);
 
-      // Extract payment URL - UPDATED LOGIC
-      let paymentUrl = "";
-      
-      if (typeof response === 'object' && response !== null) {
-        // Check if paymentUrl is at the root level
-        if (response.paymentUrl) {
-          paymentUrl = response.paymentUrl;
-        }
-        // Or check if it's in the data object as originally expected
-        else if (response.data && typeof response.data === 'object' && response.data.paymentUrl) {
-          paymentUrl = response.data.paymentUrl;
-        }
-        console.log("Found payment URL:", paymentUrl);
-      }
+      const paymentUrl = response.data?.paymentUrl || "";
+      console.log("Found payment URL:", paymentUrl);
 
       if (paymentUrl) {
         // Open the payment URL in the default browser
@@ -58,17 +58,10 @@ const AddedProductsReview: React.FC<AddedProductsReviewProps> = ({ serviceId })
       
       console.log('🟢 Added products result:', result);
       
-      if (result && result.success !== false) {
-        if (Array.isArray(result)) {
-          setProducts(result);
-        } else if (result.data && Array.isArray(result.data)) {
-          setProducts(result.data);
-        } else {
-          console.warn('⚠️ Unexpected data structure:', result);
-          setProducts([]);
-        }
+      if (result.success) {
+        setProducts(Array.isArray(result.data) ? result.data : []);
       } else {
-        setError(result?.message || "Failed to load added products");
+        setError(result.message || "Failed to load added products");
         setProducts([]);
       }
     } catch (err: any) {
@@ -11,6 +11,15 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from "@/constants/ThemeContext";
 import { Colors } from "@/constants/Colors";
+import {
+  DAY_STATUS_LABELS,
+  getDayAvailability,
+  IAvailabilitySource,
+  IDayAvailability,
+  isDaySelectable,
+} from "@/utils/surveyAvailability";
+import { formatLunarDay, getLunarYearName, toLunarDate } from "@/utils/lunarCalendar";
+import { getHolidayOccurrences } from "@/utils/seasonalHolidays";
 
 // Props for CalendarPicker component
 type CalendarPickerProps = {
@@ -19,6 +28,38 @@ type CalendarPickerProps = {
   isVisible: boolean;
   onClose: () => void;
   minDate?: Date; // Add minDate prop
+  // Provider busy days, booked slots and holidays; days that can't be booked are disabled
+  availability?: IAvailabilitySource;
+  availabilityLoading?: boolean;
+  // Lunar day under each date, plus the month's seasonal holidays under the grid
+  showLunar?: boolean;
+};
+
+const LIMITED_COLOR = "#f39c12";
+const HOLIDAY_COLOR = "#e74c3c";
+const UNAVAILABLE_COLOR = "#bbb";
+const SEASONAL_COLOR = "#9b59b6";
+
+// Legend entries shown under the grid when availability is known
+const AVAILABILITY_LEGEND = [
+  { color: "#5fc1f1", label: DAY_STATUS_LABELS.available },
+  { color: LIMITED_COLOR, label: DAY_STATUS_LABELS.limited },
+  { color: UNAVAILABLE_COLOR, label: "Booked / day off" },
+  { color: HOLIDAY_COLOR, label: "Holiday" },
+];
+
+const getStatusDotColor = (info: IDayAvailability | null): string | null => {
+  switch (info?.status) {
+    case "limited":
+      return LIMITED_COLOR;
+    case "holiday":
+      return HOLIDAY_COLOR;
+    case "full":
+    case "busy":
+      return UNAVAILABLE_COLOR;
+    default:
+      return null;
+  }
 };
 
 // Get current date in Vietnam timezone (GMT+7)
@@ -119,7 +160,10 @@ const CalendarPicker = ({
   onSelectDate, 
   isVisible, 
   onClose,
-  minDate // Add minDate prop
+  minDate, // Add minDate prop
+  availability,
+  availabilityLoading,
+  showLunar = false
 }: CalendarPickerProps) => {
   const { theme } = useTheme();
   const validTheme = theme as "light" | "dark";
@@ -155,6 +199,11 @@ const CalendarPicker = ({
     "July", "August", "September", "October", "November", "December"
   ];
 
+  // Holidays (solar and lunar) falling in the displayed month
+  const monthHolidays = showLunar
+    ? getHolidayOccurrences(currentYear).filter((occurrence) => Number(occurrence.date.slice(5, 7)) === currentMonth + 1)
+    : [];
+
   const getDaysInMonth = (month: number, year: number) => {
     return new Date(year, month + 1, 0).getDate();
   };
@@ -190,6 +239,11 @@ const CalendarPicker = ({
       // Don't allow selection of dates before minDate
       return;
     }
+
+    // Nor days the provider can't take
+    if (availability && !isDaySelectable(getDayAvailability(selectedDate, availability, minDate))) {
+      return;
+    }
     
     // Create a new date using the selected calendar date
     // but convert to Vietnam timezone
@@ -264,14 +318,19 @@ const CalendarPicker = ({
         currentMonth === todayMonth && 
         currentYear === todayYear;
       
-      // Check if this day is disabled (before minDate)
-      const isDisabled = minDate && isDateBefore(date, minDate);
+      // Check if this day is disabled (before minDate, or the provider can't take it)
+      const dayInfo = availability ? getDayAvailability(date, availability, minDate) : null;
+      const isDisabled = (minDate && isDateBefore(date, minDate)) || (dayInfo !== null && !isDaySelectable(dayInfo));
+      const dotColor = getStatusDotColor(dayInfo);
+      const lunarLabel = showLunar ? formatLunarDay(toLunarDate(date)) : null;
+      const isSeasonalHoliday = monthHolidays.some((occurrence) => Number(occurrence.date.slice(8)) === day);
       
       days.push(
         <TouchableOpacity
           key={`day-${day}`}
           style={[
             styles.calendarCell,
+            showLunar && styles.lunarCalendarCell,
             isSelected && [styles.selectedCalendarCell, { backgroundColor: "#5fc1f1" }],
             isDisabled && styles.disabledCalendarCell
           ]}
@@ -288,11 +347,24 @@ const CalendarPicker = ({
               { color: isSelected ? '#fff' : colors.text },
               isSelected && styles.selectedCalendarDay,
               isToday && !isSelected && styles.todayCalendarDay,
-              isDisabled && styles.disabledCalendarDay
+              isDisabled && styles.disabledCalendarDay,
+              dayInfo?.status === "holiday" && { color: HOLIDAY_COLOR }
             ]}>
               {day}
             </Text>
           </View>
+          {lunarLabel && (
+            <Text style={[
+              styles.lunarDay,
+              { color: isSelected ? '#fff' : colors.textSecondary },
+              isSeasonalHoliday && !isSelected && { color: SEASONAL_COLOR, fontWeight: 'bold' }
+            ]}>
+              {lunarLabel}
+            </Text>
+          )}
+          {dotColor && !isSelected && (
+            <View style={[styles.availabilityDot, showLunar && styles.availabilityDotCorner, { backgroundColor: dotColor }]} />
+          )}
         </TouchableOpacity>
       );
       
@@ -349,6 +421,11 @@ const CalendarPicker = ({
                         {months[currentMonth]} {currentYear}
                       </Text>
                       <Ionicons name="chevron-down" size={18} color={colors.text} style={{marginLeft: 5}} />
+                      {showLunar && (
+                        <Text style={[styles.lunarYearText, { color: colors.textSecondary }]}>
+                          {getLunarYearName(toLunarDate(new Date(currentYear, currentMonth, 15)).year)}
+                        </Text>
+                      )}
                     </TouchableOpacity>
                     <View style={styles.calendarNavigation}>
                       <TouchableOpacity onPress={goToPreviousMonth} style={styles.calendarNavButton}>
@@ -364,6 +441,39 @@ const CalendarPicker = ({
                     {renderCalendarDays()}
                   </View>
                   
+                  {monthHolidays.length > 0 && (
+                    <View style={[styles.holidayList, { borderTopColor: colors.border }]}>
+                      {monthHolidays.map((occurrence) => (
+                        <View key={occurrence.holiday.key} style={styles.holidayRow}>
+                          <Text style={[styles.holidayDate, { color: SEASONAL_COLOR }]}>
+                            {Number(occurrence.date.slice(8))}/{currentMonth + 1}
+                          </Text>
+                          <Text style={[styles.holidayName, { color: colors.text }]} numberOfLines={1}>
+                            {occurrence.holiday.localName}
+                            {occurrence.lunar ? ` (${occurrence.lunar.day}/${occurrence.lunar.month} âm lịch)` : ''}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {availability && (
+                    <View style={styles.legendContainer}>
+                      {AVAILABILITY_LEGEND.map((item) => (
+                        <View key={item.label} style={styles.legendItem}>
+                          <View style={[styles.legendDot, { backgroundColor: item.color }]} />
+                          <Text style={[styles.legendText, { color: colors.textSecondary }]}>{item.label}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {availabilityLoading && (
+                    <Text style={[styles.minDateInfoText, styles.availabilityLoadingText, { color: colors.textSecondary }]}>
+                      Checking provider availability...
+                    </Text>
+                  )}
+
                   {/* Display minimum date info if provided */}
                   {minDate && (
                     <View style={styles.minDateInfoContainer}>
@@ -462,6 +572,17 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center'
   },
+  lunarCalendarCell: {
+    height: 46
+  },
+  lunarDay: {
+    fontSize: 9,
+    marginTop: -2
+  },
+  lunarYearText: {
+    fontSize: 12,
+    marginLeft: 8
+  },
   selectedCalendarCell: {
     borderRadius: 20
   },
@@ -496,6 +617,63 @@ const styles = StyleSheet.create({
     borderColor: '#ccc',
     backgroundColor: 'transparent'
   },
+  availabilityDot: {
+    position: 'absolute',
+    bottom: 3,
+    width: 5,
+    height: 5,
+    borderRadius: 2.5
+  },
+  // The lunar label takes the bottom of the cell
+  availabilityDotCorner: {
+    bottom: undefined,
+    top: 4,
+    right: 6
+  },
+  holidayList: {
+    marginTop: 10,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth
+  },
+  holidayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 2
+  },
+  holidayDate: {
+    width: 44,
+    fontSize: 12,
+    fontWeight: 'bold'
+  },
+  holidayName: {
+    flex: 1,
+    fontSize: 12
+  },
+  legendContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 10
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 6,
+    marginVertical: 2
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4
+  },
+  legendText: {
+    fontSize: 11
+  },
+  availabilityLoadingText: {
+    textAlign: 'center',
+    marginTop: 6
+  },
   minDateInfoContainer: {
     alignItems: 'center',
     marginTop: 8,
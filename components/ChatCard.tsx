@@ -0,0 +1,107 @@
+// ChatCard.tsx - Tappable preview of a booking, quotation or product shared in chat
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { CHAT_CARD_LABELS, ChatCardType, IChatCardDraft } from "@/utils/chatCards";
+
+const CARD_ICONS: Record<ChatCardType, string> = {
+  booking: "calendar-outline",
+  quotation: "document-text-outline",
+  product: "pricetag-outline",
+};
+
+const CARD_COLORS: Record<ChatCardType, string> = {
+  booking: "#5fc1f1",
+  quotation: "#f39c12",
+  product: "#27ae60",
+};
+
+// Props interface for the component
+interface ChatCardProps {
+  card: IChatCardDraft;
+  onPress?: () => void;
+  // Shown in the composer before the card is sent
+  onRemove?: () => void;
+  colors?: {
+    text?: string;
+    textSecondary?: string;
+    card?: string;
+    border?: string;
+  };
+}
+
+const ChatCard: React.FC<ChatCardProps> = ({ card, onPress, onRemove, colors = {} }) => {
+  const accent = CARD_COLORS[card.type];
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, { backgroundColor: colors.card || "#fff", borderColor: colors.border || "#e5e5e5" }]}
+      onPress={onPress}
+      disabled={!onPress}
+      activeOpacity={0.7}
+      testID={`chat-card-${card.type}`}
+    >
+      <View style={[styles.iconContainer, { backgroundColor: `${accent}20` }]}>
+        <Ionicons name={CARD_ICONS[card.type] as any} size={22} color={accent} />
+      </View>
+      <View style={styles.content}>
+        <Text style={[styles.label, { color: accent }]}>{CHAT_CARD_LABELS[card.type]}</Text>
+        <Text style={[styles.title, { color: colors.text || "#000" }]} numberOfLines={2}>
+          {card.title}
+        </Text>
+        {!!card.subtitle && (
+          <Text style={[styles.subtitle, { color: colors.textSecondary || "#666" }]} numberOfLines={2}>
+            {card.subtitle}
+          </Text>
+        )}
+      </View>
+      {onRemove ? (
+        <TouchableOpacity onPress={onRemove} hitSlop={8} testID="chat-card-remove">
+          <Ionicons name="close-circle" size={22} color={colors.textSecondary || "#999"} />
+        </TouchableOpacity>
+      ) : onPress ? (
+        <Ionicons name="chevron-forward" size={18} color={colors.textSecondary || "#999"} />
+      ) : null}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+    marginVertical: 4,
+    minWidth: 220,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 10,
+  },
+  content: {
+    flex: 1,
+    marginRight: 6,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: "700",
+    textTransform: "uppercase",
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  subtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default ChatCard;
@@ -100,7 +100,7 @@ const ContractCancellation: React.FC<ContractCancellationProps> = ({
     try {
       const result = await requestTerminationOtpAPI(contractCode);
       
-      if (result && result.success !== false) {
+      if (result.success) {
         setStep('otp');
         setCountdown(60); // 60 second countdown
         setResendAvailable(false);
@@ -110,7 +110,7 @@ const ContractCancellation: React.FC<ContractCancellationProps> = ({
           [{ text: 'OK' }]
         );
       } else {
-        Alert.alert('Error', result?.message || 'Failed to send OTP. Please try again.');
+        Alert.alert('Error', result.message || 'Failed to send OTP. Please try again.');
       }
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to request OTP. Please try again.');
@@ -127,12 +127,12 @@ const ContractCancellation: React.FC<ContractCancellationProps> = ({
     try {
       const result = await requestTerminationOtpAPI(contractCode);
       
-      if (result && result.success !== false) {
+      if (result.success) {
         setCountdown(60);
         setResendAvailable(false);
         Alert.alert('OTP Resent', 'A new verification code has been sent to your email.');
       } else {
-        Alert.alert('Error', result?.message || 'Failed to resend OTP.');
+        Alert.alert('Error', result.message || 'Failed to resend OTP.');
       }
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to resend OTP.');
@@ -153,7 +153,7 @@ const ContractCancellation: React.FC<ContractCancellationProps> = ({
     try {
       const result = await terminateContractAPI(contractCode, otp);
       
-      if (result && result.success !== false) {
+      if (result.success) {
         Alert.alert(
           'Contract Cancelled Successfully',
           `Your contract has been cancelled. The cancellation compensation of ${new Intl.NumberFormat('vi-VN', { 
@@ -172,7 +172,7 @@ const ContractCancellation: React.FC<ContractCancellationProps> = ({
         );
       } else {
         setStep('otp');
-        Alert.alert('Error', result?.message || 'Failed to cancel contract. Please check your OTP and try again.');
+        Alert.alert('Error', result.message || 'Failed to cancel contract. Please check your OTP and try again.');
       }
     } catch (error: any) {
       setStep('otp');
@@ -0,0 +1,343 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Colors } from "@/constants/Colors";
+import { useTheme } from "@/constants/ThemeContext";
+import { locations } from "@/data/provincesData";
+import { getProvidersAPI, IProvider } from "@/utils/providerAPI";
+import {
+  DecorSearchFilters,
+  DECOR_RATING_OPTIONS,
+  DECOR_SORT_OPTIONS,
+  DEFAULT_DECOR_FILTERS,
+} from "@/utils/decorSearch";
+
+const PRIMARY_COLOR = "#5fc1f1";
+
+type DecorFilterSheetProps = {
+  isVisible: boolean;
+  filters: DecorSearchFilters;
+  onClose: () => void;
+  onApply: (filters: DecorSearchFilters) => void;
+};
+
+const parsePrice = (text: string): number | undefined => {
+  const digits = text.replace(/[^\d]/g, "");
+  return digits ? Number(digits) : undefined;
+};
+
+const DecorFilterSheet = ({ isVisible, filters, onClose, onApply }: DecorFilterSheetProps) => {
+  const { theme } = useTheme();
+  const validTheme = theme as "light" | "dark";
+  const colors = Colors[validTheme];
+
+  // Draft copy so closing the sheet without applying keeps the current results
+  const [draft, setDraft] = useState<DecorSearchFilters>(filters);
+  const [provinceSearch, setProvinceSearch] = useState("");
+  const [providers, setProviders] = useState<IProvider[]>([]);
+  const [loadingProviders, setLoadingProviders] = useState(false);
+
+  useEffect(() => {
+    if (isVisible) {
+      setDraft(filters);
+      setProvinceSearch("");
+    }
+  }, [isVisible]);
+
+  // Provider list only needs loading once per screen
+  useEffect(() => {
+    if (!isVisible || providers.length > 0) return;
+
+    setLoadingProviders(true);
+    getProvidersAPI()
+      .then(setProviders)
+      .catch(() => setProviders([]))
+      .finally(() => setLoadingProviders(false));
+  }, [isVisible]);
+
+  const visibleProvinces = useMemo(() => {
+    const keyword = provinceSearch.trim().toLowerCase();
+    if (!keyword) return locations;
+    return locations.filter((location) => location.label.toLowerCase().includes(keyword));
+  }, [provinceSearch]);
+
+  const updateDraft = (changes: Partial<DecorSearchFilters>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+  };
+
+  const handleApply = () => {
+    const { minPrice, maxPrice } = draft;
+    // Swap a reversed range instead of returning no results
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      onApply({ ...draft, minPrice: maxPrice, maxPrice: minPrice });
+    } else {
+      onApply(draft);
+    }
+  };
+
+  // Search text and season have their own controls on the list screen, so keep them
+  const handleReset = () => {
+    setDraft({ ...DEFAULT_DECOR_FILTERS, query: draft.query, season: draft.season });
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void, key?: string | number) => (
+    <TouchableOpacity
+      key={key ?? label}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? PRIMARY_COLOR : colors.border },
+        isSelected && { backgroundColor: `${PRIMARY_COLOR}20` },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? PRIMARY_COLOR : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={isVisible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.sheet, { backgroundColor: colors.card }]}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <TouchableOpacity onPress={onClose} testID="filter-sheet-close">
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Filters</Text>
+            <TouchableOpacity onPress={handleReset} testID="filter-sheet-reset">
+              <Text style={styles.resetText}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {/* Sort */}
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Sort by</Text>
+            <View style={styles.chipRow}>
+              {DECOR_SORT_OPTIONS.map((option) =>
+                renderChip(option.label, draft.sort === option.value, () => updateDraft({ sort: option.value }), option.value)
+              )}
+            </View>
+
+            {/* Price range */}
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Price range (VND)</Text>
+            <View style={styles.priceRow}>
+              <TextInput
+                style={[styles.priceInput, { color: colors.text, borderColor: colors.border }]}
+                placeholder="Min"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="numeric"
+                value={draft.minPrice?.toString() ?? ""}
+                onChangeText={(text) => updateDraft({ minPrice: parsePrice(text) })}
+                testID="filter-min-price"
+              />
+              <Text style={[styles.priceSeparator, { color: colors.textSecondary }]}>-</Text>
+              <TextInput
+                style={[styles.priceInput, { color: colors.text, borderColor: colors.border }]}
+                placeholder="Max"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="numeric"
+                value={draft.maxPrice?.toString() ?? ""}
+                onChangeText={(text) => updateDraft({ maxPrice: parsePrice(text) })}
+                testID="filter-max-price"
+              />
+            </View>
+
+            {/* Rating */}
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Minimum rating</Text>
+            <View style={styles.chipRow}>
+              {renderChip("Any", draft.minRating === undefined, () => updateDraft({ minRating: undefined }))}
+              {DECOR_RATING_OPTIONS.map((rating) =>
+                renderChip(`${rating}+ ★`, draft.minRating === rating, () => updateDraft({ minRating: rating }), rating)
+              )}
+            </View>
+
+            {/* Favorites */}
+            <View style={styles.switchRow}>
+              <Text style={[styles.sectionTitle, styles.switchLabel, { color: colors.text }]}>Favorites only</Text>
+              <Switch
+                value={draft.favoritesOnly}
+                onValueChange={(value) => updateDraft({ favoritesOnly: value })}
+                trackColor={{ false: colors.border, true: PRIMARY_COLOR }}
+                testID="filter-favorites-only"
+              />
+            </View>
+
+            {/* Provider */}
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Provider</Text>
+            {loadingProviders ? (
+              <ActivityIndicator size="small" color={PRIMARY_COLOR} style={styles.loader} />
+            ) : (
+              <View style={styles.chipRow}>
+                {renderChip("All providers", draft.providerId === undefined, () => updateDraft({ providerId: undefined }))}
+                {providers.map((provider) =>
+                  renderChip(
+                    provider.businessName || provider.name,
+                    draft.providerId === provider.id,
+                    () => updateDraft({ providerId: provider.id }),
+                    provider.id
+                  )
+                )}
+              </View>
+            )}
+
+            {/* Province */}
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Province</Text>
+            <View style={[styles.searchBox, { borderColor: colors.border }]}>
+              <Ionicons name="search" size={16} color={colors.textSecondary} />
+              <TextInput
+                style={[styles.searchInput, { color: colors.text }]}
+                placeholder="Search province..."
+                placeholderTextColor={colors.textSecondary}
+                value={provinceSearch}
+                onChangeText={setProvinceSearch}
+                autoCorrect={false}
+              />
+            </View>
+            <View style={styles.chipRow}>
+              {renderChip("All provinces", !draft.province, () => updateDraft({ province: undefined }))}
+              {visibleProvinces.map((location) =>
+                renderChip(
+                  location.label,
+                  draft.province === location.value,
+                  () => updateDraft({ province: location.value }),
+                  location.value
+                )
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={[styles.footer, { borderTopColor: colors.border }]}>
+            <TouchableOpacity style={styles.applyButton} onPress={handleApply} testID="filter-sheet-apply">
+              <Text style={styles.applyButtonText}>Show results</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    maxHeight: "85%",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  resetText: {
+    color: PRIMARY_COLOR,
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  priceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  priceInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  priceSeparator: {
+    marginHorizontal: 8,
+    fontSize: 16,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  switchLabel: {
+    marginBottom: 0,
+    marginTop: 0,
+  },
+  loader: {
+    alignSelf: "flex-start",
+    marginVertical: 8,
+  },
+  searchBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    marginBottom: 10,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 6,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+  },
+  applyButton: {
+    backgroundColor: PRIMARY_COLOR,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  applyButtonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+});
+
+export default DecorFilterSheet;
@@ -0,0 +1,115 @@
+import React, { useCallback, useRef } from "react";
+import {
+  View,
+  FlatList,
+  FlatListProps,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from "react-native";
+
+const PRIMARY_COLOR = "#5fc1f1";
+
+// Last offset per list, kept for the app session so a list that remounts after
+// returning from a detail screen opens where the user left it
+const scrollPositions = new Map<string, number>();
+
+export const clearScrollPosition = (restoreKey: string) => {
+  scrollPositions.delete(restoreKey);
+};
+
+type InfiniteListProps<T> = Omit<FlatListProps<T>, "onEndReached" | "refreshControl" | "ListFooterComponent"> & {
+  hasNextPage?: boolean;
+  isFetchingNextPage?: boolean;
+  fetchNextPage: () => unknown;
+  refreshing?: boolean;
+  onRefresh?: () => void;
+  // Screens of content left below the viewport when the next page is requested
+  prefetchScreens?: number;
+  // Stable key for scroll position restoration; include anything that changes the list contents
+  restoreKey?: string;
+};
+
+/**
+ * FlatList for paginated queries: loads the next page ahead of the end of the list,
+ * shows a footer spinner while it arrives, supports pull-to-refresh and restores
+ * the scroll position when the screen remounts.
+ */
+const InfiniteList = <T,>({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+  refreshing = false,
+  onRefresh,
+  prefetchScreens = 1.5,
+  restoreKey,
+  onScroll,
+  onContentSizeChange,
+  ...listProps
+}: InfiniteListProps<T>) => {
+  const listRef = useRef<FlatList<T>>(null);
+  const pendingOffset = useRef(restoreKey ? scrollPositions.get(restoreKey) ?? 0 : 0);
+
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage && !refreshing) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, refreshing, fetchNextPage]);
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (restoreKey) {
+      scrollPositions.set(restoreKey, event.nativeEvent.contentOffset.y);
+    }
+    onScroll?.(event);
+  };
+
+  // Restore once enough rows are laid out to reach the saved offset
+  const handleContentSizeChange = (width: number, height: number) => {
+    if (pendingOffset.current > 0 && height >= pendingOffset.current) {
+      listRef.current?.scrollToOffset({ offset: pendingOffset.current, animated: false });
+      pendingOffset.current = 0;
+    }
+    onContentSizeChange?.(width, height);
+  };
+
+  const renderFooter = () =>
+    isFetchingNextPage ? (
+      <View style={styles.footer}>
+        <ActivityIndicator size="small" color={PRIMARY_COLOR} />
+      </View>
+    ) : null;
+
+  return (
+    <FlatList
+      ref={listRef}
+      {...listProps}
+      onEndReached={handleEndReached}
+      onEndReachedThreshold={prefetchScreens}
+      onScroll={handleScroll}
+      scrollEventThrottle={100}
+      onContentSizeChange={handleContentSizeChange}
+      ListFooterComponent={renderFooter}
+      refreshControl={
+        onRefresh ? (
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[PRIMARY_COLOR]}
+            tintColor={PRIMARY_COLOR}
+          />
+        ) : undefined
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  footer: {
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+});
+
+export default InfiniteList;
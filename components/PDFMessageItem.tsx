@@ -12,8 +12,8 @@ import {
 } from 'react-native';
 import { Ionicons } from "@expo/vector-icons";
 import * as FileSystem from 'expo-file-system';
-import RNFS from 'react-native-fs';
 import { Linking } from 'react-native';
+import documentCache from '@/services/DocumentCacheService';
 // Import PDF component safely
 const PDFView = require('react-native-pdf');
 
@@ -32,6 +32,7 @@ interface PDFMessageItemProps {
 const PDFMessageItem: React.FC<PDFMessageItemProps> = ({ fileUrl, fileName, colors = {} }) => {
   const [pdfDownloading, setPdfDownloading] = useState<boolean>(false);
   const [previewVisible, setPreviewVisible] = useState<boolean>(false);
+  const [localUri, setLocalUri] = useState<string | null>(null);
   
   // Function to open PDF file
   const openPDFFile = async (fileUri: string): Promise<void> => {
@@ -39,21 +40,9 @@ const PDFMessageItem: React.FC<PDFMessageItemProps> = ({ fileUrl, fileName, colo
       // On iOS, use QuickLook to preview the PDF
       await Linking.openURL(fileUri);
     } else {
-      // On Android, try to share the file
-      try {
-        // Android - copy to downloads folder for easy access
-        const destFileName = fileUri.substring(fileUri.lastIndexOf('/') + 1);
-        const destPath = `${RNFS.DownloadDirectoryPath}/${destFileName}`;
-        await RNFS.copyFile(fileUri, destPath);
-        Alert.alert('File Saved', `File saved to Downloads folder as ${destFileName}`);
-        
-        // Try to open the file
-        await Linking.openURL(`file://${destPath}`);
-      } catch (error) {
-        console.error('Error handling file:', error);
-        // Fallback to direct opening
-        await Linking.openURL(fileUri);
-      }
+      // Android does not allow file:// URIs to be shared with other apps
+      const contentUri = await FileSystem.getContentUriAsync(fileUri);
+      await Linking.openURL(contentUri);
     }
   };
 
@@ -63,45 +52,11 @@ const PDFMessageItem: React.FC<PDFMessageItemProps> = ({ fileUrl, fileName, colo
       // Show loading indicator
       setPdfDownloading(true);
       
-      // Create file directory if needed
-      const directory = FileSystem.documentDirectory + 'Downloads/';
-      const dirInfo = await FileSystem.getInfoAsync(directory);
-      if (!dirInfo.exists) {
-        await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
-      }
-      
-      // Generate local file path
-      const localFilePath = directory + fileName;
-      const fileInfo = await FileSystem.getInfoAsync(localFilePath);
-      
-      // If file already exists, open it directly
-      if (fileInfo.exists) {
-        console.log('File already exists locally, opening...');
-        await openPDFFile(localFilePath);
-        setPdfDownloading(false);
-        return;
-      }
-      
-      // Download the file
-      console.log(`Downloading file from ${fileUrl} to ${localFilePath}`);
-      const downloadResumable = FileSystem.createDownloadResumable(
-        fileUrl,
-        localFilePath,
-        {},
-        (downloadProgress) => {
-          const progress = downloadProgress.totalBytesWritten / downloadProgress.totalBytesExpectedToWrite;
-          console.log(`Download progress: ${progress * 100}%`);
-        }
-      );
-      
-      const result = await downloadResumable.downloadAsync();
-      console.log('Download complete:', result);
-      
-      if (result && result.uri) {
-        await openPDFFile(result.uri);
-      } else {
-        Alert.alert('Error', 'Failed to download the file');
-      }
+      // Shared document cache: only downloads when this file isn't saved yet, so it also opens offline.
+      // Keyed by URL, since different chats can send files with the same name
+      const document = await documentCache.saveDocument('attachment', fileUrl, fileUrl);
+      setLocalUri(document.localUri);
+      await openPDFFile(document.localUri);
     } catch (error) {
       console.error('Error handling PDF file:', error);
       Alert.alert('Error', 'Failed to download or open the file');
@@ -165,7 +120,7 @@ const PDFMessageItem: React.FC<PDFMessageItemProps> = ({ fileUrl, fileName, colo
           <View style={styles.pdfContainer}>
             {PDFView && (
               <PDFView
-                source={{ uri: fileUrl }}
+                source={{ uri: localUri ?? fileUrl }}
                 style={styles.pdfView}
                 onLoadComplete={(numberOfPages: number) => {
                   console.log(`PDF loaded with ${numberOfPages} pages`);
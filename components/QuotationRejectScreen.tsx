@@ -128,18 +128,7 @@ const QuotationRejectScreen: React.FC<QuotationRejectScreenProps> = ({
       setLoadingCancelTypes(true);
       const response = await getAllCancelTypesAPI();
       
-      // Handle different response formats
-      let types: ICancelType[] = [];
-      
-      if (Array.isArray(response)) {
-        // Direct array response
-        types = response;
-      } else if (response && typeof response === 'object' && 'data' in response && Array.isArray(response.data)) {
-        // Response with data wrapper
-        types = response.data;
-      } else {
-        types = [];
-      }
+      const types: ICancelType[] = response.success && Array.isArray(response.data) ? response.data : [];
       
       // Clean HTML content from cancel types
       const cleanedTypes = types.map(cancelType => ({
@@ -186,66 +175,6 @@ const QuotationRejectScreen: React.FC<QuotationRejectScreenProps> = ({
     setErrors({});
   };
 
-  // Helper function to check if API response indicates success
-  const isApiResponseSuccessful = (result: any): boolean => {
-    // If result is null or undefined, it's not successful
-    if (!result) {
-      return false;
-    }
-    
-    // If result is a boolean true, it's successful
-    if (result === true) {
-      return true;
-    }
-    
-    // If result is an object, check for success indicators
-    if (typeof result === 'object') {
-      // Check for explicit success property
-      if ('success' in result && result.success === true) {
-        return true;
-      }
-      
-      // Check for HTTP status codes indicating success
-      if ('status' in result && typeof result.status === 'number' && result.status >= 200 && result.status < 300) {
-        return true;
-      }
-      
-      // Check for common success indicators in message
-      if ('message' in result && typeof result.message === 'string') {
-        const messageText = result.message.toLowerCase();
-        if (messageText.includes('success') || 
-            messageText.includes('submitted') || 
-            messageText.includes('completed') ||
-            messageText.includes('awaiting') ||
-            messageText.includes('approved')) {
-          return true;
-        }
-      }
-      
-      // Check for errors property being empty/null
-      if ('errors' in result && (result.errors === null || (Array.isArray(result.errors) && result.errors.length === 0))) {
-        return true;
-      }
-      
-      // If no explicit success/error indicators and it's an object, assume success
-      if (!('success' in result) && !('error' in result) && !('message' in result)) {
-        return true;
-      }
-      
-      return false;
-    }
-    
-    return false;
-  };
-
-  // Helper function to extract message from API response
-  const getMessageFromResponse = (result: any, defaultMessage: string): string => {
-    if (result && typeof result === 'object' && 'message' in result && typeof result.message === 'string') {
-      return result.message;
-    }
-    return defaultMessage;
-  };
-
   const handleSubmit = async () => {
     if (!validateForm()) {
       return;
@@ -261,11 +190,8 @@ const QuotationRejectScreen: React.FC<QuotationRejectScreenProps> = ({
         // Submit change request
         const result = await requestToChangeQuotationAPI(quotationCode, cleanedComments);
         
-        if (isApiResponseSuccessful(result)) {
-          const successMessage = getMessageFromResponse(
-            result, 
-            'Your change request has been submitted. The provider will review and update the quotation.'
-          );
+        if (result.success) {
+          const successMessage = result.message || 'Your change request has been submitted. The provider will review and update the quotation.';
             
           Alert.alert(
             'Success',
@@ -281,7 +207,7 @@ const QuotationRejectScreen: React.FC<QuotationRejectScreenProps> = ({
             ]
           );
         } else {
-          const errorMessage = getMessageFromResponse(result, 'Failed to submit change request');
+          const errorMessage = result.message || 'Failed to submit change request';
           Alert.alert('Error', errorMessage);
         }
       } else {
@@ -294,11 +220,8 @@ const QuotationRejectScreen: React.FC<QuotationRejectScreenProps> = ({
           cleanedComments
         );
         
-        if (isApiResponseSuccessful(result)) {
-          const successMessage = getMessageFromResponse(
-            result,
-            'Your cancellation request has been submitted and will be reviewed.'
-          );
+        if (result.success) {
+          const successMessage = result.message || 'Your cancellation request has been submitted and will be reviewed.';
             
           Alert.alert(
             'Success',
@@ -314,7 +237,7 @@ const QuotationRejectScreen: React.FC<QuotationRejectScreenProps> = ({
             ]
           );
         } else {
-          const errorMessage = getMessageFromResponse(result, 'Failed to submit cancellation request');
+          const errorMessage = result.message || 'Failed to submit cancellation request';
           Alert.alert('Error', errorMessage);
         }
       }
@@ -192,20 +192,10 @@ const ProductCatalog: React.FC<ProductCatalogProps> = ({
       if (!isLoadingRef.current) return;
       
       
-      if (result && result.success !== false) {
-        // Handle the specific API response structure
-        if (result.data && Array.isArray(result.data)) {
-          setProducts(result.data);
-        } else if (Array.isArray(result)) {
-          setProducts(result);
-        } else if (result.items && Array.isArray(result.items)) {
-          setProducts(result.items);
-        } else {
-          console.warn('⚠️ Unexpected data structure, setting empty array:', result);
-          setProducts([]);
-        }
+      if (result.success) {
+        setProducts(result.data || []);
       } else {
-        setError(result?.message || "Failed to load products");
+        setError(result.message || "Failed to load products");
         setProducts([]);
       }
     } catch (err: any) {
@@ -233,21 +223,10 @@ const ProductCatalog: React.FC<ProductCatalogProps> = ({
       const result = await getAddedProductAPI(serviceId);
       
       
-      if (result && result.success !== false) {
-        if (Array.isArray(result)) {
-          setAddedProducts(result);
-        } else if (result.data && Array.isArray(result.data)) {
-          setAddedProducts(result.data);
-        } else if (result.data && result.data.data && Array.isArray(result.data.data)) {
-          setAddedProducts(result.data.data);
-        } else if (result.items && Array.isArray(result.items)) {
-          setAddedProducts(result.items);
-        } else {
-          console.warn('⚠️ Unexpected added products data structure:', result);
-          setAddedProducts([]);
-        }
+      if (result.success) {
+        setAddedProducts(Array.isArray(result.data) ? result.data : []);
       } else {
-        console.warn('⚠️ Failed to load added products:', result?.message);
+        console.warn('⚠️ Failed to load added products:', result.message);
         setAddedProducts([]);
       }
     } catch (err: any) {
@@ -313,7 +292,7 @@ const ProductCatalog: React.FC<ProductCatalogProps> = ({
       const result = await addProductToServiceHolderAPI(serviceId, selectedProduct.id, parsedQuantity);
       
       
-      if (result && result.success !== false) {
+      if (result.success) {
         // Format the success message
         const productName = selectedProduct.productName;
         let message = `Added ${parsedQuantity} ${productName}`;
@@ -342,7 +321,7 @@ const ProductCatalog: React.FC<ProductCatalogProps> = ({
         // Refresh both product lists
         fetchAllData();
       } else {
-        Alert.alert("Error", result?.message || "Failed to add product to service");
+        Alert.alert("Error", result.message || "Failed to add product to service");
       }
     } catch (error: any) {
       console.error('🔴 Add product error:', error);
@@ -373,7 +352,7 @@ const ProductCatalog: React.FC<ProductCatalogProps> = ({
               
               console.log('🟢 Remove product result:', result);
               
-              if (result && result.success !== false) {
+              if (result.success) {
                 // Call parent callback
                 if (onRemoveProduct) {
                   onRemoveProduct(productId);
@@ -384,7 +363,7 @@ const ProductCatalog: React.FC<ProductCatalogProps> = ({
                 
                 Alert.alert("Success", "Product removed from service");
               } else {
-                Alert.alert("Error", result?.message || "Failed to remove product from service");
+                Alert.alert("Error", result.message || "Failed to remove product from service");
               }
             } catch (error: any) {
               console.error('🔴 Remove product error:', error);
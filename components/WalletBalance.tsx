@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import {
   View,
   Text,
@@ -9,7 +9,7 @@ import { Colors } from "@/constants/Colors";
 import { useTheme } from "@/constants/ThemeContext";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import { getWalletBalanceAPI } from "@/utils/walletAPI";
+import { useWalletBalance } from "@/hooks/useWalletQueries";
 
 // Simple wallet data interface
 interface WalletData {
@@ -23,40 +23,16 @@ const WalletBalance = () => {
   const validTheme = theme as "light" | "dark";
   const colors = Colors[validTheme];
 
-  const [walletData, setWalletData] = useState<WalletData | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<boolean>(false);
+  // Số dư dùng chung cache với các màn hình thanh toán
+  const walletQuery = useWalletBalance();
+  const walletData: WalletData | null = walletQuery.data
+    ? { walletId: 1, balance: walletQuery.data.balance }
+    : null;
+  const loading = walletQuery.isLoading;
+  const error = walletQuery.isError;
   // Set hideBalance to true initially so balance is hidden when first loaded
   const [hideBalance, setHideBalance] = useState<boolean>(true);
 
-  useEffect(() => {
-    const fetchWallet = async () => {
-      try {
-        setLoading(true);
-        setError(false);
-        
-        const response = await getWalletBalanceAPI();
-        
-        if (response.balance !== undefined) {
-          setWalletData({
-            walletId: 1, // Default value or from response if available
-            balance: response.balance
-          });
-          setError(false);
-        } else {
-          setError(true);
-        }
-      } catch (err) {
-        console.log("Wallet error:", err);
-        setError(true);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchWallet();
-  }, []);
-
   const handleAddFunds = () => {
     router.push("/screens/payment/add-funds");
   };
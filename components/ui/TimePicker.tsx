@@ -23,13 +23,18 @@ interface TimePickerProps {
   initialTime?: Date;
   onTimeSelect: (date: Date) => void;
   onCancel: () => void;
+  // Fixed start times ("HH:mm") instead of free hour/minute columns; unavailable ones are shown disabled
+  slots?: { time: string; available: boolean }[];
+  title?: string;
 }
 
 const TimePicker: React.FC<TimePickerProps> = ({ 
   visible, 
   initialTime = new Date(), 
   onTimeSelect, 
-  onCancel 
+  onCancel,
+  slots,
+  title = 'Chọn Giờ'
 }) => {
   const { theme } = useTheme();
   const validTheme = theme as "light" | "dark";
@@ -44,6 +49,51 @@ const TimePicker: React.FC<TimePickerProps> = ({
 
   const hours = generateHours();
   const minutes = generateMinutes();
+  const selectedTime = `${selectedHour}:${selectedMinute}`;
+  const selectedSlotAvailable = !slots || slots.some((slot) => slot.available && slot.time === selectedTime);
+
+  const selectSlot = (time: string) => {
+    const [hour, minute] = time.split(':');
+    setSelectedHour(hour);
+    setSelectedMinute(minute);
+  };
+
+  const renderSlots = (items: { time: string; available: boolean }[]) => (
+    <View style={styles.slotGrid}>
+      {items.length === 0 && (
+        <Text style={[styles.slotEmptyText, { color: colors.textSecondary }]}>Không còn khung giờ trống</Text>
+      )}
+      {items.map((slot) => {
+        const selected = slot.time === selectedTime;
+        return (
+          <TouchableOpacity
+            key={slot.time}
+            disabled={!slot.available}
+            style={[
+              styles.slotItem,
+              { borderColor: selected ? colors.primary : colors.border },
+              selected && { backgroundColor: colors.primary },
+              !slot.available && styles.slotItemDisabled,
+            ]}
+            onPress={() => selectSlot(slot.time)}
+          >
+            <Text
+              style={[
+                styles.pickerItemText,
+                { color: selected ? '#fff' : colors.text },
+                !slot.available && styles.slotTextDisabled,
+              ]}
+            >
+              {slot.time}
+            </Text>
+            {!slot.available && (
+              <Text style={[styles.slotCaption, { color: colors.textSecondary }]}>Đã kín</Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
 
   const handleTimeSelect = () => {
     const newTime = new Date();
@@ -102,7 +152,7 @@ const TimePicker: React.FC<TimePickerProps> = ({
           {/* Header */}
           <View style={styles.header}>
             <Text style={[styles.headerTitle, { color: colors.text }]}>
-              Chọn Giờ
+              {title}
             </Text>
             <TouchableOpacity onPress={onCancel}>
               <Ionicons 
@@ -114,6 +164,7 @@ const TimePicker: React.FC<TimePickerProps> = ({
           </View>
 
           {/* Time Selection */}
+          {slots ? renderSlots(slots) : (
           <View style={styles.pickerContainer}>
             <View style={styles.pickerColumn}>
               <Text style={[styles.pickerLabel, { color: colors.text }]}>Giờ</Text>
@@ -127,11 +178,13 @@ const TimePicker: React.FC<TimePickerProps> = ({
               {renderPickerItem(minutes, selectedMinute, setSelectedMinute)}
             </View>
           </View>
+          )}
 
           {/* Confirm Button */}
           <TouchableOpacity 
-            style={[styles.confirmButton, { backgroundColor: colors.primary }]}
+            style={[styles.confirmButton, { backgroundColor: colors.primary }, !selectedSlotAvailable && styles.slotItemDisabled]}
             onPress={handleTimeSelect}
+            disabled={!selectedSlotAvailable}
           >
             <Text style={styles.confirmButtonText}>Xác Nhận</Text>
           </TouchableOpacity>
@@ -199,6 +252,34 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  slotGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    padding: 16,
+    gap: 10,
+  },
+  slotItem: {
+    width: '30%',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  slotItemDisabled: {
+    opacity: 0.4,
+  },
+  slotTextDisabled: {
+    textDecorationLine: 'line-through',
+  },
+  slotCaption: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  slotEmptyText: {
+    fontSize: 14,
+    paddingVertical: 24,
+  },
   confirmButton: {
     marginHorizontal: 16,
     marginTop: 16,
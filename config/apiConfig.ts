@@ -1,51 +1,127 @@
 // // src/config/apiConfig.ts
 import Constants from "expo-constants";
 import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Named backends the app can talk to. The build picks one (app.json extra.apiProfile
+// or EXPO_PUBLIC_API_PROFILE from an eas.json build profile); debug builds can
+// override it at runtime from the developer menu.
+export type ApiProfileName = "production" | "staging" | "local-emulator" | "mock";
+
+export interface ApiProfile {
+  name: ApiProfileName;
+  label: string;
+  baseUrl: string;
+}
 
 // // API URLs
 const SEASON_DECOR_API = "https://seasondecor.azurewebsites.net";
-const TUNNEL_API = Constants.expoConfig?.extra?.apiUrl;
-const LOCALHOST = "http://localhost:5297";
-const LAN_IP = "http://10.0.2.2:5297"; // This is for Android Emulator
+const STAGING_API = Constants.expoConfig?.extra?.apiUrl || SEASON_DECOR_API;
+const LOCAL_API_PORT = "5297";
+const MOCK_API_PORT = process.env.EXPO_PUBLIC_MOCK_API_PORT || "4010";
+const MOCK_API_URL = process.env.EXPO_PUBLIC_MOCK_API_URL; // Physical devices: http://<LAN IP of dev machine>:4010
+
+const PROFILE_OVERRIDE_KEY = "@api_profile_override";
 
-// Determine the platform (web or mobile)
-const isWeb = Platform.OS === "web";
 const isProduction = !__DEV__; // Kiểm tra xem đây có phải môi trường production hay không
 
+// Android emulator reaches the host machine through 10.0.2.2, web and iOS simulator through localhost
+const hostMachineUrl = (port: string): string =>
+  Platform.OS === "android" ? `http://10.0.2.2:${port}` : `http://localhost:${port}`;
+
+export const API_PROFILES: Record<ApiProfileName, ApiProfile> = {
+  production: { name: "production", label: "Production", baseUrl: SEASON_DECOR_API },
+  staging: { name: "staging", label: "Staging", baseUrl: STAGING_API },
+  "local-emulator": { name: "local-emulator", label: "Local backend", baseUrl: hostMachineUrl(LOCAL_API_PORT) },
+  mock: { name: "mock", label: "Mock server", baseUrl: MOCK_API_URL || hostMachineUrl(MOCK_API_PORT) },
+};
+
+export const isApiProfileName = (value: unknown): value is ApiProfileName =>
+  typeof value === "string" && value in API_PROFILES;
+
+// Profile baked into the build: EAS env > app.json extra > legacy mock flag > production
+const resolveBuildProfile = (): ApiProfileName => {
+  const fromEnv = process.env.EXPO_PUBLIC_API_PROFILE;
+  if (isApiProfileName(fromEnv)) return fromEnv;
+
+  const fromExtra = Constants.expoConfig?.extra?.apiProfile;
+  if (isApiProfileName(fromExtra)) return fromExtra;
+
+  if (process.env.EXPO_PUBLIC_USE_MOCK_API === "true" || Constants.expoConfig?.extra?.useMockApi === true) {
+    return "mock";
+  }
+  return "production";
+};
+
+export const BUILD_API_PROFILE = resolveBuildProfile();
+
+let activeProfile: ApiProfileName = BUILD_API_PROFILE;
+const listeners = new Set<(profile: ApiProfile) => void>();
+
+export const getActiveApiProfile = (): ApiProfile => API_PROFILES[activeProfile];
+
 // Function to determine the API base URL dynamically
-export const getBaseUrl = (): string => {
-  // Trong môi trường production (APK), luôn sử dụng Season Decor API
-  if (isProduction) {
-    console.log("🌐 Production mode: Using Season Decor API:", SEASON_DECOR_API);
-    return SEASON_DECOR_API;
+export const getBaseUrl = (): string => getActiveApiProfile().baseUrl;
+
+/**
+ * Restore the developer-menu override saved by a previous session (debug builds only).
+ * Call once at startup before the first request.
+ */
+export const loadApiProfileOverride = async (): Promise<ApiProfile> => {
+  if (isProduction) return getActiveApiProfile();
+
+  try {
+    const saved = await AsyncStorage.getItem(PROFILE_OVERRIDE_KEY);
+    if (isApiProfileName(saved) && saved !== activeProfile) {
+      activeProfile = saved;
+      listeners.forEach((listener) => listener(API_PROFILES[saved]));
+    }
+  } catch (error) {
+    console.error("Error loading API profile override:", error);
   }
-  
-  // // Trong môi trường development
-  const useSeasonDecorApi = true;
-  
-  if (useSeasonDecorApi) {
-    console.log("🌐 Development mode: Using Season Decor API:", SEASON_DECOR_API);
-    return SEASON_DECOR_API;
+
+  console.log(`🌐 API profile: ${activeProfile} (${getBaseUrl()})`);
+  return getActiveApiProfile();
+};
+
+/**
+ * Switch backend at runtime from the developer menu. Pass null to go back to the build profile.
+ */
+export const setApiProfile = async (name: ApiProfileName | null): Promise<ApiProfile> => {
+  if (isProduction) {
+    console.warn("⚠️ API profile can only be changed in debug builds");
+    return getActiveApiProfile();
   }
-  
-  if (TUNNEL_API) {
-    return TUNNEL_API; // Use the URL from the Expo config
+
+  const next = name ?? BUILD_API_PROFILE;
+  if (name) {
+    await AsyncStorage.setItem(PROFILE_OVERRIDE_KEY, name);
+  } else {
+    await AsyncStorage.removeItem(PROFILE_OVERRIDE_KEY);
   }
-  
-  if (isWeb) {
-    return LOCALHOST; // For web use localhost
+
+  if (next !== activeProfile) {
+    activeProfile = next;
+    console.log(`🌐 Switched API profile to ${next} (${getBaseUrl()})`);
+    listeners.forEach((listener) => listener(API_PROFILES[next]));
   }
-  
-  return LAN_IP; // For mobile apps, use LAN_IP for Android Emulator
+  return getActiveApiProfile();
 };
 
-// Export BASE_URL dynamically
-export const BASE_URL = getBaseUrl();
+/**
+ * Listen for profile switches; returns an unsubscribe function
+ */
+export const subscribeApiProfile = (listener: (profile: ApiProfile) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
 
 // Kiểm tra kết nối đến API
-export const testApiConnection = async (): Promise<boolean> => {
+export const testApiConnection = async (baseUrl: string = getBaseUrl()): Promise<boolean> => {
   try {
-    const response = await fetch(`${BASE_URL}/api/health`, { 
+    const response = await fetch(`${baseUrl}/api/health`, {
       method: 'GET',
       headers: { 'Content-Type': 'application/json' },
       // Tránh cache
@@ -57,47 +133,3 @@ export const testApiConnection = async (): Promise<boolean> => {
     return false;
   }
 };
-
-// src/config/apiConfig.ts
-// import Constants from "expo-constants";
-// import { Platform } from "react-native";
-
-// // API URLs
-// const TUNNEL_API = Constants.expoConfig?.extra?.apiUrl;
-// const LOCALHOST = "http://10.0.2.2:5297";
-// const LAN_IP = "http://10.0.2.2:5297"; // This is for Android Emulator
-
-// // Determine the platform (web or mobile)
-// const isWeb = Platform.OS === "web";
-// const isProduction = !__DEV__; // Kiểm tra xem đây có phải môi trường production hay không
-
-// // Function to determine the API base URL dynamically
-// export const getBaseUrl = (): string => {
-//   // Even in production, use localhost for now
-//   if (isWeb) {
-//     console.log("🌐 Using localhost:", LOCALHOST);
-//     return LOCALHOST;
-//   } else {
-//     console.log("🌐 Using LAN IP for mobile:", LAN_IP);
-//     return LAN_IP; // For Android Emulator
-//   }
-// };
-
-// // Export BASE_URL dynamically
-// export const BASE_URL = getBaseUrl();
-
-// // Kiểm tra kết nối đến API
-// export const testApiConnection = async (): Promise<boolean> => {
-//   try {
-//     const response = await fetch(`${BASE_URL}/api/health`, {
-//       method: 'GET',
-//       headers: { 'Content-Type': 'application/json' },
-//       // Tránh cache
-//       cache: 'no-cache',
-//     });
-//     return response.ok;
-//   } catch (error) {
-//     console.error('API connection test failed:', error);
-//     return false;
-//   }
-// };
\ No newline at end of file
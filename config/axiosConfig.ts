@@ -1,22 +1,11 @@
 // api-client.ts
 import axios, { AxiosInstance } from "axios";
 import { getToken } from "@/services/auth"; // Token handling
-import { Platform } from "react-native";
-import { getUniqueId } from "react-native-device-info";
-
-// API URL configurations
-const SEASON_DECOR_API = "https://seasondecor.azurewebsites.net";
-const TUNNEL_API = process.env.REACT_APP_API_URL;
-const LAN_IP = process.env.REACT_APP_LAN_IP || "http://10.0.2.2:5297";
-const EMULATOR_IP = process.env.REACT_APP_EMULATOR_IP || "http://10.0.2.2:5297";
-const LOCALHOST = process.env.REACT_APP_LOCALHOST_URL || "http://10.0.2.2:5297";
-
-const isWeb = Platform.OS === "web";
-const isProduction = !__DEV__; // Check for production environment
+import { isTokenRefreshError, retryWithTokenRefresh, shouldRefreshToken, waitForTokenRefresh } from "@/services/tokenRefresh";
+import { getBaseUrl, subscribeApiProfile } from "./apiConfig";
 
 // Track Google authentication state to prevent error alerts
 let isProcessingGoogleAuth = false;
-let isHandlingSessionExpiry = false;
 
 // Utility function to set Google auth processing state
 export const setGoogleAuthProcessing = (isProcessing: boolean) => {
@@ -31,44 +20,30 @@ export const setGoogleAuthProcessing = (isProcessing: boolean) => {
   }
 };
 
-// Check if running on an emulator
-const isEmulator = async (): Promise<boolean> => {
-  try {
-    const uniqueId = await getUniqueId();
-    return uniqueId.includes("emulator") || uniqueId.includes("genymotion");
-  } catch (error) {
-    console.error("Error checking for emulator:", error);
-    return false;
-  }
-};
+let apiClient: AxiosInstance | null = null;
 
-// Set up the base URL for API requests
-const setupBaseUrl = async (): Promise<string> => {
-  // Logic for development environment
-  let BASE_URL = SEASON_DECOR_API;
-  // SEASON_DECOR_API
-  if (LOCALHOST) {
-    BASE_URL = SEASON_DECOR_API;
-  } else if (isWeb) {
-    BASE_URL = LOCALHOST;
-  } else if (await isEmulator()) {
-    BASE_URL = EMULATOR_IP;
-  } else {
-    BASE_URL = LAN_IP;
-  }
-  
-  console.log("🌐 API BASE URL:", BASE_URL);
-  return BASE_URL;
-};
+// Rejections carry the response body; keep the HTTP status on it so callers can
+// tell e.g. a missing endpoint (404) apart from other failures
+const withStatus = (body: unknown, status: number) =>
+  body && typeof body === "object"
+    ? { ...body, status }
+    : { message: typeof body === "string" && body ? body : `Server error (${status})`, status };
 
-let apiClient: AxiosInstance | null = null;
+// Follow developer-menu profile switches without recreating the client
+subscribeApiProfile((profile) => {
+  if (apiClient) {
+    apiClient.defaults.baseURL = profile.baseUrl;
+    console.log("🌐 API BASE URL:", profile.baseUrl);
+  }
+});
 
 // Initialize Axios client
 export const initApiClient = async (): Promise<AxiosInstance> => {
   if (apiClient) return apiClient;
   
   try {
-    const baseURL = await setupBaseUrl();
+    // Base URL comes from the active environment profile (config/apiConfig.ts)
+    const baseURL = getBaseUrl();
     
     apiClient = axios.create({
       baseURL,
@@ -83,6 +58,8 @@ export const initApiClient = async (): Promise<AxiosInstance> => {
     apiClient.interceptors.request.use(
       async (config) => {
         try {
+          // Hold the request while an expired token is being refreshed
+          await waitForTokenRefresh();
           const token = await getToken();
           if (token) {
             config.headers["Authorization"] = `Bearer ${token}`;
@@ -119,37 +96,32 @@ export const initApiClient = async (): Promise<AxiosInstance> => {
           // Skip session expired handling if processing Google auth
           if (isProcessingGoogleAuth) {
             console.log("Suppressing 401 error during Google authentication");
-            return Promise.reject(data);
+            return Promise.reject(withStatus(data, status));
           }
           
-          // Prevent multiple session expired handlers
-          if (!isHandlingSessionExpiry) {
-            isHandlingSessionExpiry = true;
-            
+          // Refresh the token once and replay the request; only a failed refresh logs the user out
+          if (shouldRefreshToken(error.config)) {
             try {
-              // await handleSessionExpired();
-            } finally {
-              // Reset flag after delay
-              setTimeout(() => {
-                isHandlingSessionExpiry = false;
-              }, 3000);
+              return await retryWithTokenRefresh(apiClient!, error.config);
+            } catch (retryError) {
+              if (!isTokenRefreshError(retryError)) {
+                return Promise.reject(retryError);
+              }
             }
-          } else {
           }
         }
         
         // Meaningful error message for bad requests
-        if (status === 400 && data.message) {
+        if (status === 400 && data?.message) {
           return Promise.reject({
             message: data.message || "Invalid request",
-            errors: data.errors || []
+            errors: data.errors || [],
+            status
           });
         }
         
         // Return standardized error format
-        return Promise.reject(data || { 
-          message: `Server error (${status})` 
-        });
+        return Promise.reject(withStatus(data, status));
       }
     );
     
@@ -4,9 +4,13 @@ export const menuItems: { icon: keyof typeof Ionicons.glyphMap; label: string; r
   { icon: "person-outline", label: "Account", route: "/screens/Account" },
   { icon: "location-outline", label: "Address", route: "/screens/Addresses" },
   { icon: "book-outline", label: "Bookings", route: "/screens/Bookings" },
+  { icon: "document-text-outline", label: "Booking Drafts", route: "/screens/SurveyDrafts" },
   { icon: "cart-outline", label: "Orders", route: "/screens/Orders" },
   { icon: "heart-outline", label: "Favorites", route: "/screens/Favorites" },
   { icon: "heart-outline", label: "Following", route: "/screens/Following" },
   { icon: "star-outline", label: "Reviews", route: "/screens/Reviews" },
+  { icon: "notifications-outline", label: "Notifications", route: "/screens/NotificationSettings" },
   { icon: "help-circle-outline", label: "Support", route: "/screens/Support" },
+  // API environment switcher, debug builds only
+  ...(__DEV__ ? [{ icon: "construct-outline" as const, label: "Developer", route: "/screens/DeveloperMenu" }] : []),
 ];
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { initApiClient } from '@/config/axiosConfig';
+import { ApiPaginatedResult, slicePage } from '@/utils/apiResult';
+import { getPaginatedDecorServicesAPI } from '@/utils/decorserviceAPI';
+import { getPaginatedProductsAPI } from '@/utils/productAPI';
+import { flattenPages, getNextPageIndex } from '../useCatalogQueries';
+
+const { createMockAdapter } = require('../../mock-server/adapter');
+const { handleMockRequest, resetMockState } = require('../../mock-server/routes');
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// productAPI.ts silences LogBox on import, which the jest preset leaves out
+jest.mock('react-native/Libraries/LogBox/LogBox', () => ({
+  __esModule: true,
+  default: { ignoreLogs: jest.fn() },
+}));
+// Guest requests: no token, nothing to refresh
+jest.mock('@/services/auth', () => ({
+  __esModule: true,
+  getToken: jest.fn().mockResolvedValue(null),
+  default: {},
+}));
+
+const page = (ids: number[], pageIndex: number, totalPages: number): ApiPaginatedResult<{ id: number }> => ({
+  success: true,
+  message: '',
+  errors: [],
+  data: ids.map((id) => ({ id })),
+  pagination: { totalCount: totalPages * 2, pageIndex, pageSize: 2, totalPages },
+});
+
+// The live backend has no paginated catalogue endpoints and answers them with an empty 404
+const mockBackend = createMockAdapter();
+const withoutPaginatedEndpoints = async (config: InternalAxiosRequestConfig) => {
+  if (config.url?.includes('getPaginatedList')) {
+    const response = { data: '', status: 404, statusText: 'Not Found', headers: {}, config };
+    throw new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, config, {}, response);
+  }
+  return mockBackend(config);
+};
+
+const fullList = (path: string) => handleMockRequest({ method: 'GET', path, query: {} }).body.data;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  resetMockState();
+  (await initApiClient()).defaults.adapter = withoutPaginatedEndpoints;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getNextPageIndex', () => {
+  it('moves on until the last page', () => {
+    expect(getNextPageIndex(page([1, 2], 1, 3))).toBe(2);
+    expect(getNextPageIndex(page([5], 3, 3))).toBeUndefined();
+  });
+
+  it('stops at an empty page', () => {
+    expect(getNextPageIndex(page([], 2, 5))).toBeUndefined();
+  });
+});
+
+describe('flattenPages', () => {
+  it('joins pages and drops items shifted onto the next page', () => {
+    const data = { pages: [page([1, 2], 1, 3), page([2, 3], 2, 3), page([4], 3, 3)], pageParams: [1, 2, 3] };
+    expect(flattenPages(data).map((item) => item.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('is empty before the first page loads', () => {
+    expect(flattenPages(undefined)).toEqual([]);
+  });
+});
+
+describe('paginated catalogue fallback', () => {
+  it('pages the full decor service list when the paginated endpoint is missing', async () => {
+    const services = fullList('/api/DecorService');
+
+    const result = await getPaginatedDecorServicesAPI({ pageIndex: 1, pageSize: 2 });
+
+    expect(result.data.map((service) => service.id)).toEqual(services.slice(0, 2).map((service: any) => service.id));
+    expect(result.pagination).toEqual(slicePage(services, 1, 2).pagination);
+  });
+
+  it('pages the full product list when the paginated endpoint is missing', async () => {
+    const products = fullList('/api/Product/getList');
+
+    const result = await getPaginatedProductsAPI(2, 1);
+
+    expect(result.data.map((product) => product.id)).toEqual([products[1].id]);
+    expect(result.pagination).toEqual({ totalCount: products.length, pageIndex: 2, pageSize: 1, totalPages: products.length });
+  });
+
+  it('keeps reporting other server errors', async () => {
+    (await initApiClient()).defaults.adapter = async (config) => {
+      const response = { data: { message: 'Database unavailable' }, status: 500, statusText: 'Error', headers: {}, config };
+      throw new AxiosError('Request failed with status code 500', AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+    };
+
+    await expect(getPaginatedDecorServicesAPI()).rejects.toThrow('Database unavailable');
+  });
+});
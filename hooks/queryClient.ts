@@ -0,0 +1,66 @@
+// Shared React Query client and the invalidation rules tied to mutations
+import { AppState, AppStateStatus, Platform } from "react-native";
+import NetInfo from "@react-native-community/netinfo";
+import { focusManager, onlineManager, QueryClient, QueryKey } from "@tanstack/react-query";
+import { subscribeLogout } from "@/services/auth";
+import { queryKeys } from "./queryKeys";
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60000, // 1 phút, same TTL the hand-rolled caches used
+      retry: 1,
+    },
+  },
+});
+
+// Cached bookings, wallet, orders and favorites belong to the signed-in account
+subscribeLogout(() => queryClient.clear());
+
+// What each mutation makes stale
+export const MUTATION_INVALIDATIONS = {
+  depositPayment: [queryKeys.bookings.all, queryKeys.quotations.all, queryKeys.payments.all, queryKeys.wallet.balance(), queryKeys.wallet.transactions()],
+  finalPayment: [queryKeys.bookings.all, queryKeys.payments.all, queryKeys.wallet.balance(), queryKeys.wallet.transactions()],
+  walletTopUp: [queryKeys.wallet.balance(), queryKeys.wallet.transactions()],
+  bookingChange: [queryKeys.bookings.all, queryKeys.availability.all],
+  quotationChange: [queryKeys.quotations.all, queryKeys.bookings.all],
+  cartChange: [queryKeys.cart.all],
+  orderChange: [queryKeys.orders.all, queryKeys.cart.all, queryKeys.wallet.balance(), queryKeys.wallet.transactions()],
+  favoriteProductChange: [queryKeys.favorites.products()],
+  favoriteServiceChange: [queryKeys.favorites.services()],
+  notificationChange: [queryKeys.notifications.all],
+} satisfies Record<string, readonly QueryKey[]>;
+
+export type MutationKind = keyof typeof MUTATION_INVALIDATIONS;
+
+/**
+ * Mark everything a mutation touched as stale so every tab refetches it
+ */
+export const invalidateAfter = (kind: MutationKind) =>
+  Promise.all(MUTATION_INVALIDATIONS[kind].map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+
+let listenersReady = false;
+
+/**
+ * Teach React Query about app focus and connectivity on native.
+ * Refetches stale queries when the app returns to the foreground or reconnects.
+ */
+export const setupQueryClientListeners = () => {
+  if (listenersReady) return;
+  listenersReady = true;
+
+  onlineManager.setEventListener((setOnline) =>
+    NetInfo.addEventListener((state) => {
+      setOnline(!!state.isConnected);
+    })
+  );
+
+  if (Platform.OS !== "web") {
+    focusManager.setEventListener((handleFocus) => {
+      const subscription = AppState.addEventListener("change", (status: AppStateStatus) => {
+        handleFocus(status === "active");
+      });
+      return () => subscription.remove();
+    });
+  }
+};
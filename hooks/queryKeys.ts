@@ -0,0 +1,61 @@
+// Query key catalogue for React Query.
+// Every hook builds its key here so invalidation rules can target a whole
+// domain (e.g. queryKeys.bookings.all) without knowing the exact filters.
+import type { IBookingFilterOptions } from "@/utils/bookingAPI";
+import type { IDecorPageParams } from "@/utils/decorserviceAPI";
+import type { PaginationParams as IQuotationListParams } from "@/utils/quotationsAPI";
+
+export type NotificationFilter = "all" | "unread";
+
+export const queryKeys = {
+  decorServices: {
+    all: ["decorServices"] as const,
+    infinite: (params: Omit<IDecorPageParams, "pageIndex"> = {}) => ["decorServices", "infinite", params] as const,
+  },
+  products: {
+    all: ["products"] as const,
+    infinite: (pageSize: number) => ["products", "infinite", pageSize] as const,
+  },
+  bookings: {
+    all: ["bookings"] as const,
+    list: (filters: IBookingFilterOptions = {}) => ["bookings", "list", filters] as const,
+  },
+  availability: {
+    all: ["availability"] as const,
+    service: (decorServiceId: number, fromDate: string, toDate: string) =>
+      ["availability", decorServiceId, fromDate, toDate] as const,
+  },
+  quotations: {
+    all: ["quotations"] as const,
+    list: (params: IQuotationListParams = {}) => ["quotations", "list", params] as const,
+    detail: (quotationCode: string) => ["quotations", "detail", quotationCode] as const,
+  },
+  payments: {
+    all: ["payments"] as const,
+    deposit: (contractCode: string) => ["payments", "deposit", contractCode] as const,
+    final: (bookingCode: string) => ["payments", "final", bookingCode] as const,
+  },
+  wallet: {
+    all: ["wallet"] as const,
+    balance: () => ["wallet", "balance"] as const,
+    transactions: () => ["wallet", "transactions"] as const,
+  },
+  cart: {
+    all: ["cart"] as const,
+    detail: (userId: number | null) => ["cart", userId] as const,
+  },
+  orders: {
+    all: ["orders"] as const,
+    list: () => ["orders", "list"] as const,
+    detail: (orderId: number) => ["orders", "detail", orderId] as const,
+  },
+  favorites: {
+    all: ["favorites"] as const,
+    products: () => ["favorites", "products"] as const,
+    services: () => ["favorites", "services"] as const,
+  },
+  notifications: {
+    all: ["notifications"] as const,
+    list: (filter: NotificationFilter) => ["notifications", "list", filter] as const,
+  },
+};
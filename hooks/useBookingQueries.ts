@@ -0,0 +1,112 @@
+// Booking, quotation and payment queries built on the existing *API.ts functions
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { assertApiSuccess, unwrapApiResult } from "@/utils/apiResult";
+import {
+  confirmBookingAPI,
+  getPaginatedBookingsForCustomerAPI,
+  IBookingFilterOptions,
+  processCommitDepositAPI,
+  requestCancelBookingAPI,
+} from "@/utils/bookingAPI";
+import {
+  confirmQuotationAPI,
+  getPaginatedQuotationsForCustomerAPI,
+  getQuotationDetailByCustomerAPI,
+  PaginationParams,
+} from "@/utils/quotationsAPI";
+import {
+  getDepositPaymentAPI,
+  getFinalPaymentAPI,
+  makeDirectDepositPaymentAPI,
+  makeDirectFinalPaymentAPI,
+} from "@/utils/paymentAPI";
+import { getServiceAvailabilityAPI } from "@/utils/decorserviceAPI";
+import { invalidateAfter } from "./queryClient";
+import { queryKeys } from "./queryKeys";
+
+export const useBookings = (filters: IBookingFilterOptions = {}, options: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.bookings.list(filters),
+    queryFn: async () => assertApiSuccess(await getPaginatedBookingsForCustomerAPI(filters), "Failed to fetch bookings"),
+    enabled: options.enabled ?? true,
+  });
+
+// Provider survey availability for the booking calendar; fresh enough for a booking session
+export const useServiceAvailability = (decorServiceId: number | undefined, fromDate: string, toDate: string) =>
+  useQuery({
+    queryKey: queryKeys.availability.service(decorServiceId ?? 0, fromDate, toDate),
+    queryFn: async () =>
+      unwrapApiResult(await getServiceAvailabilityAPI(decorServiceId!, fromDate, toDate), "Failed to load provider availability"),
+    enabled: !!decorServiceId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const useQuotations = (params: PaginationParams = {}) =>
+  useQuery({
+    queryKey: queryKeys.quotations.list(params),
+    queryFn: async () => assertApiSuccess(await getPaginatedQuotationsForCustomerAPI(params), "Failed to retrieve quotations."),
+  });
+
+export const useQuotation = (quotationCode?: string) =>
+  useQuery({
+    queryKey: queryKeys.quotations.detail(quotationCode ?? ""),
+    queryFn: () => getQuotationDetailByCustomerAPI(quotationCode!),
+    enabled: !!quotationCode,
+  });
+
+export const useDepositPayment = (contractCode?: string) =>
+  useQuery({
+    queryKey: queryKeys.payments.deposit(contractCode ?? ""),
+    queryFn: async () => unwrapApiResult(await getDepositPaymentAPI(contractCode!), "Failed to retrieve payment information"),
+    enabled: !!contractCode,
+  });
+
+export const useFinalPayment = (bookingCode?: string) =>
+  useQuery({
+    queryKey: queryKeys.payments.final(bookingCode ?? ""),
+    queryFn: async () => unwrapApiResult(await getFinalPaymentAPI(bookingCode!), "Failed to retrieve payment information"),
+    enabled: !!bookingCode,
+  });
+
+// Payment APIs report failures in the result; only a successful payment invalidates
+export const usePayDeposit = () =>
+  useMutation({
+    mutationFn: async ({ contractCode, amount, bookingCode }: { contractCode: string; amount: number; bookingCode?: string }) =>
+      assertApiSuccess(await makeDirectDepositPaymentAPI(contractCode, amount, bookingCode), "Payment processing failed"),
+    onSuccess: () => invalidateAfter("depositPayment"),
+  });
+
+// The commitment deposit is settled by the backend even when the call reports an error
+export const useCommitDeposit = () =>
+  useMutation({
+    mutationFn: (bookingCode: string) => processCommitDepositAPI(bookingCode),
+    onSettled: () => invalidateAfter("depositPayment"),
+  });
+
+export const usePayFinal = () =>
+  useMutation({
+    mutationFn: async ({ bookingCode, amount }: { bookingCode: string; amount: number }) =>
+      assertApiSuccess(await makeDirectFinalPaymentAPI(bookingCode, amount), "Payment failed"),
+    onSuccess: () => invalidateAfter("finalPayment"),
+  });
+
+export const useCancelBooking = () =>
+  useMutation({
+    mutationFn: async ({ bookingCode, cancelTypeId, cancelReason }: { bookingCode: string; cancelTypeId: number; cancelReason: string }) =>
+      assertApiSuccess(await requestCancelBookingAPI(bookingCode, cancelTypeId, cancelReason), "Failed to request cancellation"),
+    onSuccess: () => invalidateAfter("bookingChange"),
+  });
+
+export const useConfirmBooking = () =>
+  useMutation({
+    mutationFn: async (bookingCode: string) =>
+      assertApiSuccess(await confirmBookingAPI(bookingCode), "Failed to confirm booking"),
+    onSuccess: () => invalidateAfter("bookingChange"),
+  });
+
+export const useConfirmQuotation = () =>
+  useMutation({
+    mutationFn: async (quotationCode: string) =>
+      assertApiSuccess(await confirmQuotationAPI(quotationCode), "Failed to confirm quotation"),
+    onSuccess: () => invalidateAfter("quotationChange"),
+  });
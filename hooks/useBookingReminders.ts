@@ -0,0 +1,36 @@
+// Keeps local booking reminders (BookingReminderService) in step with the customer's bookings
+// and opens the booking when a reminder is tapped
+import { useEffect } from "react";
+import * as Notifications from "expo-notifications";
+import bookingReminders from "@/services/BookingReminderService";
+import deepLinks from "@/services/DeepLinkService";
+import { useBookings } from "./useBookingQueries";
+
+// Reminders cover active bookings, which are the most recent ones
+const REMINDER_BOOKINGS_FILTER = { PageIndex: 1, PageSize: 50, SortBy: "createdAt", Descending: true };
+
+export const useBookingReminders = (loggedIn: boolean) => {
+  const bookingsQuery = useBookings(REMINDER_BOOKINGS_FILTER, { enabled: loggedIn });
+  const bookings = bookingsQuery.data?.data;
+
+  // Every refetch (pull-to-refresh, foregrounding, a status change mutation) re-syncs
+  useEffect(() => {
+    if (loggedIn && bookings) {
+      bookingReminders.syncBookings(bookings);
+    }
+  }, [loggedIn, bookings]);
+
+  useEffect(() => {
+    // Reminders also show while the app is open
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({ shouldShowAlert: true, shouldPlaySound: true, shouldSetBadge: false }),
+    });
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      const url = response.notification.request.content.data?.url;
+      if (typeof url === "string") {
+        deepLinks.open(url);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+};
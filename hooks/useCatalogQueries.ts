@@ -0,0 +1,51 @@
+// Infinite-scroll catalogue queries built on decorserviceAPI.ts and productAPI.ts
+import { InfiniteData, useInfiniteQuery } from "@tanstack/react-query";
+import { getPaginatedDecorServicesAPI, IDecorPageParams } from "@/utils/decorserviceAPI";
+import { getPaginatedProductsAPI } from "@/utils/productAPI";
+import { ApiPaginatedResult } from "@/utils/apiResult";
+import { queryKeys } from "./queryKeys";
+
+export const CATALOG_PAGE_SIZE = 10;
+
+// The next page to load, or undefined once the last page is in
+export const getNextPageIndex = <T>(lastPage: ApiPaginatedResult<T>): number | undefined => {
+  const { pageIndex, totalPages } = lastPage.pagination;
+  // An empty page means the server ran out even if totalPages says otherwise
+  return lastPage.data.length > 0 && pageIndex < totalPages ? pageIndex + 1 : undefined;
+};
+
+/**
+ * Flatten loaded pages into one list, dropping items repeated across page
+ * boundaries when new records shift the server-side offsets
+ */
+export const flattenPages = <T extends { id: number }>(data?: InfiniteData<ApiPaginatedResult<T>>): T[] => {
+  const seen = new Set<number>();
+  return (data?.pages ?? []).flatMap((page) =>
+    page.data.filter((item) => {
+      if (seen.has(item.id)) return false;
+      seen.add(item.id);
+      return true;
+    })
+  );
+};
+
+export const useInfiniteDecorServices = (
+  params: Omit<IDecorPageParams, "pageIndex"> = {},
+  enabled = true
+) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.decorServices.infinite(params),
+    queryFn: ({ pageParam }) =>
+      getPaginatedDecorServicesAPI({ pageSize: CATALOG_PAGE_SIZE, ...params, pageIndex: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam: getNextPageIndex,
+    enabled,
+  });
+
+export const useInfiniteProducts = (pageSize = CATALOG_PAGE_SIZE) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.products.infinite(pageSize),
+    queryFn: ({ pageParam }) => getPaginatedProductsAPI(pageParam, pageSize),
+    initialPageParam: 1,
+    getNextPageParam: getNextPageIndex,
+  });
@@ -0,0 +1,9 @@
+// Live presence, typing indicators and unread counts from chatHub, for contact lists and chat headers
+import { useSyncExternalStore } from "react";
+import { signalRService } from "@/services/SignalRService";
+import { IChatPresenceState } from "@/utils/chatPresence";
+
+const { presence } = signalRService;
+
+export const useChatPresence = (): IChatPresenceState =>
+  useSyncExternalStore(presence.subscribe, presence.getSnapshot);
@@ -0,0 +1,56 @@
+// Favorite product/service queries built on favoriteAPI.ts
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  addFavoriteProductAPI,
+  addFavoriteServiceAPI,
+  getFavoriteProductListAPI,
+  getFavoriteServiceListAPI,
+  removeFavoriteProductAPI,
+  removeFavoriteServiceAPI,
+} from "@/utils/favoriteAPI";
+import { invalidateAfter } from "./queryClient";
+import { queryKeys } from "./queryKeys";
+
+export const useFavoriteProducts = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.favorites.products(),
+    queryFn: async () => {
+      const favorites = await getFavoriteProductListAPI();
+      return Array.isArray(favorites) ? favorites : [];
+    },
+    enabled,
+  });
+
+export const useFavoriteServices = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.favorites.services(),
+    queryFn: async () => {
+      const favorites = await getFavoriteServiceListAPI();
+      return Array.isArray(favorites) ? favorites : [];
+    },
+    enabled,
+  });
+
+export const useAddFavoriteProduct = () =>
+  useMutation({
+    mutationFn: (productId: number) => addFavoriteProductAPI(productId),
+    onSuccess: () => invalidateAfter("favoriteProductChange"),
+  });
+
+export const useRemoveFavoriteProduct = () =>
+  useMutation({
+    mutationFn: (productId: number) => removeFavoriteProductAPI(productId),
+    onSuccess: () => invalidateAfter("favoriteProductChange"),
+  });
+
+export const useAddFavoriteService = () =>
+  useMutation({
+    mutationFn: (decorServiceId: number) => addFavoriteServiceAPI(decorServiceId),
+    onSuccess: () => invalidateAfter("favoriteServiceChange"),
+  });
+
+export const useRemoveFavoriteService = () =>
+  useMutation({
+    mutationFn: (decorServiceId: number) => removeFavoriteServiceAPI(decorServiceId),
+    onSuccess: () => invalidateAfter("favoriteServiceChange"),
+  });
@@ -0,0 +1,6 @@
+// Live connection state of a SignalR hub, for connection badges and disabling send buttons
+import { useSyncExternalStore } from "react";
+import { HubConnectionManager, HubConnectionStatus } from "@/services/HubConnectionManager";
+
+export const useHubConnectionState = (hub: HubConnectionManager<any>): HubConnectionStatus =>
+  useSyncExternalStore(hub.subscribeState, hub.getState);
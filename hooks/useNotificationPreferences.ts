@@ -0,0 +1,20 @@
+// Notification preferences from NotificationPreferencesService, kept in sync across screens
+import { useEffect, useState } from "react";
+import notificationPreferences from "@/services/NotificationPreferencesService";
+import { DEFAULT_NOTIFICATION_PREFERENCES, INotificationPreferences } from "@/utils/notificationPreferences";
+
+export const useNotificationPreferences = () => {
+  const [preferences, setPreferences] = useState<INotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = notificationPreferences.subscribe(setPreferences);
+    notificationPreferences
+      .getPreferences()
+      .then(setPreferences)
+      .finally(() => setLoading(false));
+    return unsubscribe;
+  }, []);
+
+  return { preferences, loading };
+};
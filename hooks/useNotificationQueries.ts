@@ -0,0 +1,26 @@
+// Notification queries; SignalR events patch the cached lists in place
+import { useQuery } from "@tanstack/react-query";
+import type { Notification } from "@/services/NotificationHubService";
+import { getNotificationsAPI } from "@/utils/notificationsAPI";
+import { queryClient } from "./queryClient";
+import { NotificationFilter, queryKeys } from "./queryKeys";
+
+export const useNotifications = (filter: NotificationFilter, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.notifications.list(filter),
+    queryFn: () => getNotificationsAPI(filter),
+    enabled,
+  });
+
+/**
+ * Apply a realtime change to every cached notification list (all + unread)
+ */
+export const updateCachedNotifications = (
+  updater: (notifications: Notification[], filter: NotificationFilter) => Notification[]
+) => {
+  (["all", "unread"] as NotificationFilter[]).forEach((filter) => {
+    queryClient.setQueryData<Notification[]>(queryKeys.notifications.list(filter), (current) =>
+      current ? updater(current, filter) : current
+    );
+  });
+};
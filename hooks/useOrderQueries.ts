@@ -0,0 +1,33 @@
+// Order queries built on orderAPI.ts
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { cancelOrderAPI, getOrderByIdAPI, getOrderListAPI, payOrderWithWalletAPI } from "@/utils/orderAPI";
+import { invalidateAfter } from "./queryClient";
+import { queryKeys } from "./queryKeys";
+
+export const useOrders = () =>
+  useQuery({
+    queryKey: queryKeys.orders.list(),
+    queryFn: async () => {
+      const orders = await getOrderListAPI();
+      return Array.isArray(orders) ? orders : [];
+    },
+  });
+
+export const useOrder = (orderId?: number) =>
+  useQuery({
+    queryKey: queryKeys.orders.detail(orderId ?? 0),
+    queryFn: () => getOrderByIdAPI(orderId!),
+    enabled: !!orderId,
+  });
+
+export const useCancelOrder = () =>
+  useMutation({
+    mutationFn: (orderId: number) => cancelOrderAPI(orderId),
+    onSuccess: () => invalidateAfter("orderChange"),
+  });
+
+export const usePayOrderWithWallet = () =>
+  useMutation({
+    mutationFn: (orderId: number) => payOrderWithWalletAPI(orderId),
+    onSuccess: () => invalidateAfter("orderChange"),
+  });
@@ -0,0 +1,25 @@
+// Survey form drafts from SurveyDraftService, kept in sync across screens
+import { useEffect, useState } from "react";
+import surveyDrafts, { ISurveyDraft } from "@/services/SurveyDraftService";
+
+export const useSurveyDrafts = () => {
+  const [drafts, setDrafts] = useState<ISurveyDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = surveyDrafts.subscribe(setDrafts);
+    surveyDrafts
+      .getDrafts()
+      .then(setDrafts)
+      .finally(() => setLoading(false));
+    return unsubscribe;
+  }, []);
+
+  return { drafts, loading };
+};
+
+export const useSurveyDraft = (decorServiceId?: number) => {
+  const { drafts, loading } = useSurveyDrafts();
+  const draft = drafts.find((item) => item.decorServiceId === decorServiceId) ?? null;
+  return { draft, loading };
+};
@@ -0,0 +1,33 @@
+// Wallet queries built on walletAPI.ts / paymentAPI.ts
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { unwrapApiResult } from "@/utils/apiResult";
+import { getTransactionsDetailsAPI, getWalletBalanceAPI } from "@/utils/walletAPI";
+import { topUpWalletAPI } from "@/utils/paymentAPI";
+import { invalidateAfter } from "./queryClient";
+import { queryKeys } from "./queryKeys";
+
+export const useWalletBalance = () =>
+  useQuery({
+    queryKey: queryKeys.wallet.balance(),
+    queryFn: async () => {
+      const balance = await getWalletBalanceAPI();
+      if (!balance.success) {
+        throw new Error(balance.message || "Failed to retrieve balance information");
+      }
+      return balance;
+    },
+  });
+
+export const useTransactions = () =>
+  useQuery({
+    queryKey: queryKeys.wallet.transactions(),
+    // The API reports "no transactions" and failures alike as an empty list
+    queryFn: async () => (await getTransactionsDetailsAPI()).transactions,
+  });
+
+export const useTopUpWallet = () =>
+  useMutation({
+    mutationFn: async (amount: number) => unwrapApiResult(await topUpWalletAPI(amount), "Failed to create top-up payment"),
+    // The balance changes once the payment gateway redirects back
+    onSettled: () => invalidateAfter("walletTopUp"),
+  });
@@ -0,0 +1,122 @@
+/* eslint-env node, jest */
+const axios = require("axios");
+const { createMockAdapter } = require("../adapter");
+const { handleMockRequest, resetMockState } = require("../routes");
+const { normalizeApiResponse, toPaginatedResult } = require("../../utils/apiResult");
+
+// Same shape as initApiClient: the interceptor hands utils the response body
+const createClient = () => {
+  const client = axios.create({ baseURL: "http://mock.local", adapter: createMockAdapter() });
+  client.interceptors.response.use(
+    (response) => response.data,
+    (error) => Promise.reject(error.response?.data ?? { message: error.message })
+  );
+  return client;
+};
+
+describe("mock backend", () => {
+  let client;
+
+  beforeEach(() => {
+    resetMockState();
+    client = createClient();
+  });
+
+  it("filters decor services by season and style", async () => {
+    const response = await client.get("/api/DecorService/search?SeasonNames=Tết&Style=living");
+    const result = normalizeApiResponse(response);
+
+    expect(result.success).toBe(true);
+    expect(result.data.map((service) => service.id)).toEqual([1]);
+  });
+
+  it("repeats SeasonNames like ASP.NET query binding", () => {
+    const { body } = handleMockRequest({
+      method: "GET",
+      path: "/api/DecorService/search",
+      query: { SeasonNames: ["Winter", "Summer"] },
+    });
+
+    expect(body.data.map((service) => service.id)).toEqual([2, 3]);
+  });
+
+  it("applies price, rating and sort params on search", () => {
+    const { body } = handleMockRequest({
+      method: "GET",
+      path: "/api/DecorService/search",
+      query: { MinPrice: "4000000", MinRating: "4.5", SortBy: "mostFavorited" },
+    });
+
+    expect(body.data.map((service) => service.id)).toEqual([1, 2]);
+  });
+
+  it("reports provider availability in the requested range", () => {
+    const { body } = handleMockRequest({
+      method: "GET",
+      path: "/api/DecorService/getAvailability/1",
+      query: { FromDate: "2026-01-01", ToDate: "2026-01-31" },
+    });
+
+    expect(body.data.slotTimes).toEqual(["08:00", "10:00", "14:00", "16:00"]);
+    expect(body.data.busyDates).toEqual(["2026-01-12", "2026-01-13"]);
+    expect(body.data.bookedSlots).toEqual([{ date: "2026-01-10", time: "16:00" }]);
+  });
+
+  it("returns quotation detail by code and 404 for unknown codes", async () => {
+    const quotation = normalizeApiResponse(await client.get("/api/Quotation/getQuotationDetailByCustomer/QUO-0001"));
+    expect(quotation.data.quotationCode).toBe("QUO-0001");
+
+    await expect(client.get("/api/Quotation/getQuotationDetailByCustomer/NOPE")).rejects.toMatchObject({
+      success: false,
+      message: "Quotation not found",
+    });
+  });
+
+  it("paginates bookings with the envelope toPaginatedResult expects", async () => {
+    const response = await client.get("/api/Booking/getPaginatedBookingsForCustomer", {
+      params: { PageIndex: 1, PageSize: 2 },
+    });
+    const page = toPaginatedResult(normalizeApiResponse(response), 1, 2);
+
+    expect(page.data).toHaveLength(2);
+    expect(page.pagination).toMatchObject({ totalCount: 3, pageIndex: 1, pageSize: 2, totalPages: 2 });
+  });
+
+  it("pages decor services in the requested sort order", async () => {
+    const response = await client.get("/api/DecorService/getPaginatedList", {
+      params: { PageIndex: 2, PageSize: 2, SortBy: "newest", Descending: true },
+    });
+    const page = toPaginatedResult(normalizeApiResponse(response), 2, 2);
+
+    expect(page.data.map((service) => service.id)).toEqual([2]);
+    expect(page.pagination).toMatchObject({ totalCount: 3, pageIndex: 2, totalPages: 2 });
+  });
+
+  it("keeps state between requests until reset", async () => {
+    await client.post("/api/Order/payment/1");
+    expect(normalizeApiResponse(await client.get("/api/wallet/getWalletBalance")).data.balance).toBe(9680000);
+
+    resetMockState();
+    expect(normalizeApiResponse(await client.get("/api/wallet/getWalletBalance")).data.balance).toBe(10000000);
+  });
+
+  it("matches routes case-insensitively and reads tracking by booking code", async () => {
+    const response = await client.get("/api/tracking/getTrackingByBookingCode", { params: { bookingCode: "BKG-0002" } });
+
+    expect(normalizeApiResponse(response).data).toHaveLength(2);
+  });
+
+  it("deletes notifications and 404s for unknown ids", async () => {
+    expect(normalizeApiResponse(await client.delete("/api/Notification/3")).success).toBe(true);
+    expect(normalizeApiResponse(await client.get("/api/Notification/getAllNotifications")).data.map((item) => item.id)).not.toContain("3");
+    await expect(client.delete("/api/Notification/3")).rejects.toMatchObject({ success: false });
+  });
+
+  it("issues a token carrying the nameid claim on login", async () => {
+    const response = await client.post("/api/Auth/login", { email: "customer@seasondecor.test", password: "123456" });
+    const payload = JSON.parse(Buffer.from(response.token.split(".")[1], "base64").toString());
+
+    expect(payload.nameid).toBe("1");
+    expect(response.refreshToken).toBe("mock-refresh-1");
+  });
+});
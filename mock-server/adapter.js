@@ -0,0 +1,67 @@
+/* eslint-env node */
+// In-process axios adapter backed by the mock handler table.
+// Lets jest run utils/*API.ts against fixtures without opening a port:
+//
+//   apiClient.defaults.adapter = createMockAdapter();
+
+const { AxiosError } = require("axios");
+const { handleMockRequest } = require("./routes");
+
+const readQuery = (url, params = {}) => {
+  const search = new URL(url, "http://mock.local").searchParams;
+  const query = Array.from(search.keys()).reduce((acc, key) => {
+    const values = search.getAll(key);
+    return { ...acc, [key]: values.length > 1 ? values : values[0] };
+  }, {});
+
+  Object.keys(params).forEach((key) => {
+    const value = params[key];
+    if (value === undefined || value === null) return;
+    query[key] = Array.isArray(value) ? value.map(String) : String(value);
+  });
+  return query;
+};
+
+const readBody = (data) => {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const createMockAdapter = () => async (config) => {
+  const url = config.url || "";
+  const path = new URL(url, "http://mock.local").pathname;
+
+  const { status, body } = handleMockRequest({
+    method: config.method,
+    path,
+    query: readQuery(url, config.params),
+    body: readBody(config.data),
+  });
+
+  const response = {
+    data: body,
+    status,
+    statusText: status < 400 ? "OK" : "Error",
+    headers: { "content-type": "application/json" },
+    config,
+    request: {},
+  };
+
+  const validateStatus = config.validateStatus || ((code) => code >= 200 && code < 300);
+  if (!validateStatus(status)) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+  return response;
+};
+
+module.exports = { createMockAdapter };
@@ -0,0 +1,404 @@
+// Seeded data served by the mock backend (mock-server/server.js).
+// Shapes follow what the live API returns so utils/*API.ts parse them unchanged.
+
+const CUSTOMER_ID = 1;
+const PROVIDER_ID = 2;
+
+const provider = {
+  id: PROVIDER_ID,
+  businessName: "Tết Decor Studio",
+  avatar: "https://picsum.photos/seed/provider/200",
+  phone: "0901234567",
+  slug: "tet-decor-studio",
+  isProvider: true,
+  providerVerified: true,
+  providerStatus: 1,
+  followersCount: 128,
+  followingsCount: 3,
+  joinedDate: "2024-01-15T00:00:00Z",
+};
+
+const accounts = [
+  {
+    id: CUSTOMER_ID,
+    email: "customer@seasondecor.test",
+    password: "123456",
+    firstName: "Minh",
+    lastName: "Nguyen",
+    phone: "0912345678",
+    avatar: "https://picsum.photos/seed/customer/200",
+  },
+];
+
+const seasons = [
+  { id: 1, seasonName: "Spring" },
+  { id: 2, seasonName: "Summer" },
+  { id: 3, seasonName: "Autumn" },
+  { id: 4, seasonName: "Winter" },
+  { id: 5, seasonName: "Tết" },
+];
+
+const decorServices = [
+  {
+    id: 1,
+    style: "Tết Living Room Makeover",
+    basePrice: 5000000,
+    description: "Hoa mai, câu đối đỏ và đèn lồng cho phòng khách ngày Tết.",
+    province: "TP. Hồ Chí Minh",
+    sublocation: "Quận 1",
+    address: "12 Nguyễn Huệ, Quận 1",
+    createAt: "2025-01-02T08:00:00Z",
+    accountId: PROVIDER_ID,
+    decorCategoryId: 1,
+    categoryName: "Living Room",
+    favoriteCount: 42,
+    rate: 4.8,
+    totalRating: 25,
+    images: [
+      { id: 1, imageURL: "https://picsum.photos/seed/decor1a/600" },
+      { id: 2, imageURL: "https://picsum.photos/seed/decor1b/600" },
+    ],
+    seasons: [seasons[4], seasons[0]],
+    themeColors: [
+      { id: 1, colorCode: "#D62828" },
+      { id: 2, colorCode: "#FCBF49" },
+    ],
+    designs: [
+      { id: 1, name: "Traditional" },
+      { id: 2, name: "Modern" },
+    ],
+    offerings: [{ id: 1, name: "Free survey", description: "Khảo sát tận nơi miễn phí" }],
+    provider,
+  },
+  {
+    id: 2,
+    style: "Christmas Shopfront",
+    basePrice: 8000000,
+    description: "Cây thông, đèn LED và trang trí mặt tiền cửa hàng mùa Giáng Sinh.",
+    province: "Hà Nội",
+    sublocation: "Hoàn Kiếm",
+    address: "5 Hàng Bài, Hoàn Kiếm",
+    createAt: "2024-11-20T08:00:00Z",
+    accountId: PROVIDER_ID,
+    decorCategoryId: 2,
+    categoryName: "Shopfront",
+    favoriteCount: 17,
+    rate: 4.5,
+    totalRating: 9,
+    images: [{ id: 3, imageURL: "https://picsum.photos/seed/decor2a/600" }],
+    seasons: [seasons[3]],
+    themeColors: [{ id: 3, colorCode: "#2A9D8F" }],
+    designs: [{ id: 2, name: "Modern" }],
+    offerings: [],
+    provider,
+  },
+  {
+    id: 3,
+    style: "Summer Garden Party",
+    basePrice: 3500000,
+    description: "Trang trí sân vườn tông xanh mát cho tiệc mùa hè.",
+    province: "Đà Nẵng",
+    sublocation: "Sơn Trà",
+    address: "88 Võ Nguyên Giáp, Sơn Trà",
+    createAt: "2025-04-10T08:00:00Z",
+    accountId: PROVIDER_ID,
+    decorCategoryId: 3,
+    categoryName: "Garden",
+    favoriteCount: 5,
+    rate: 4.2,
+    totalRating: 4,
+    images: [{ id: 4, imageURL: "https://picsum.photos/seed/decor3a/600" }],
+    seasons: [seasons[1]],
+    themeColors: [{ id: 4, colorCode: "#90BE6D" }],
+    designs: [{ id: 3, name: "Rustic" }],
+    offerings: [],
+    provider,
+  },
+];
+
+const scopeOfWorks = [
+  { id: 1, workType: "Full Decorate", description: "Thi công trọn gói" },
+  { id: 2, workType: "Furniture Arrangement", description: "Sắp xếp nội thất" },
+];
+
+const products = [
+  {
+    id: 1,
+    productName: "Đèn lồng Hội An",
+    rate: 4.7,
+    totalRate: 30,
+    totalSold: 120,
+    description: "Đèn lồng lụa thủ công, đường kính 40cm.",
+    productPrice: 150000,
+    quantity: 50,
+    madeIn: "Việt Nam",
+    shipFrom: "Quảng Nam",
+    categoryId: 1,
+    categoryName: "Lighting",
+    imageUrls: ["https://picsum.photos/seed/product1/600"],
+    reviews: [],
+    items: [],
+    provider,
+  },
+  {
+    id: 2,
+    productName: "Cành mai giả",
+    rate: 4.4,
+    totalRate: 12,
+    totalSold: 64,
+    description: "Cành mai vàng 1m2, dùng được nhiều năm.",
+    productPrice: 320000,
+    quantity: 20,
+    madeIn: "Việt Nam",
+    shipFrom: "TP. Hồ Chí Minh",
+    categoryId: 2,
+    categoryName: "Flowers",
+    imageUrls: ["https://picsum.photos/seed/product2/600"],
+    reviews: [],
+    items: [],
+    provider,
+  },
+];
+
+const bookings = [
+  {
+    bookingId: 1,
+    bookingCode: "BKG-0001",
+    quotationCode: "QUO-0001",
+    decorServiceId: 1,
+    userId: CUSTOMER_ID,
+    addressId: 1,
+    address: "12 Nguyễn Huệ, Quận 1",
+    surveyDate: "2026-01-10T09:00:00Z",
+    status: 2, // Quoting
+    createdAt: "2025-12-20T08:00:00Z",
+    totalPrice: 5600000,
+    isQuoteExisted: true,
+    isContractSigned: false,
+    isCommitDepositPaid: true,
+    isReviewed: false,
+    decorService: decorServices[0],
+    provider,
+  },
+  {
+    bookingId: 2,
+    bookingCode: "BKG-0002",
+    quotationCode: "QUO-0002",
+    decorServiceId: 2,
+    userId: CUSTOMER_ID,
+    addressId: 1,
+    address: "12 Nguyễn Huệ, Quận 1",
+    surveyDate: "2025-11-25T14:00:00Z",
+    status: 10, // Completed
+    createdAt: "2025-11-01T08:00:00Z",
+    totalPrice: 8000000,
+    isQuoteExisted: true,
+    isContractSigned: true,
+    isCommitDepositPaid: true,
+    isReviewed: false,
+    decorService: decorServices[1],
+    provider,
+  },
+  {
+    bookingId: 3,
+    bookingCode: "BKG-0003",
+    decorServiceId: 3,
+    userId: CUSTOMER_ID,
+    addressId: 1,
+    address: "12 Nguyễn Huệ, Quận 1",
+    status: 0, // Pending
+    createdAt: "2026-01-05T08:00:00Z",
+    isQuoteExisted: false,
+    isContractSigned: false,
+    isCommitDepositPaid: false,
+    isReviewed: false,
+    decorService: decorServices[2],
+    provider,
+  },
+];
+
+// Survey slots offered by each provider (Vietnam time) and days they don't take surveys
+const providerSchedules = [
+  {
+    providerId: PROVIDER_ID,
+    slotTimes: ["08:00", "10:00", "14:00", "16:00"],
+    busyDates: ["2026-01-12", "2026-01-13", "2026-03-08"],
+  },
+];
+
+const quotations = [
+  {
+    id: 1,
+    quotationCode: "QUO-0001",
+    bookingCode: "BKG-0001",
+    status: 0,
+    isQuoteExisted: true,
+    isContractExisted: false,
+    materialCost: 3200000,
+    constructionCost: 2400000,
+    depositPercentage: 30,
+    createdAt: "2025-12-28T08:00:00Z",
+    constructionDate: "2026-01-20T08:00:00Z",
+    quotationFilePath: "https://picsum.photos/seed/quotation1/800",
+    materials: [
+      { id: 1, materialName: "Hoa mai", quantity: 4, cost: 500000, totalCost: 2000000 },
+      { id: 2, materialName: "Đèn lồng", quantity: 8, cost: 150000, totalCost: 1200000 },
+    ],
+    constructionTasks: [{ id: 1, taskName: "Lắp đặt", cost: 2400000, unit: "m2", area: 30 }],
+    productDetails: [],
+    style: decorServices[0].style,
+    provider,
+  },
+  {
+    id: 2,
+    quotationCode: "QUO-0002",
+    bookingCode: "BKG-0002",
+    status: 1,
+    isQuoteExisted: true,
+    isContractExisted: false,
+    materialCost: 4100000,
+    constructionCost: 1900000,
+    depositPercentage: 20,
+    createdAt: "2025-11-10T08:00:00Z",
+    constructionDate: "2025-12-01T08:00:00Z",
+    quotationFilePath: "https://picsum.photos/seed/quotation2/800",
+    materials: [
+      { id: 3, materialName: "Cây thông", quantity: 1, cost: 2500000, totalCost: 2500000 },
+      { id: 4, materialName: "Đèn LED", quantity: 20, cost: 80000, totalCost: 1600000 },
+    ],
+    constructionTasks: [{ id: 2, taskName: "Lắp đặt", cost: 1900000, unit: "m2", area: 25 }],
+    productDetails: [],
+    style: decorServices[1].style,
+    provider,
+  },
+];
+
+const contracts = [
+  {
+    contractCode: "CON-0001",
+    quotationCode: "QUO-0001",
+    bookingCode: "BKG-0001",
+    status: 0,
+    isSigned: false,
+    isDeposited: false,
+    content: "<h1>Hợp đồng trang trí</h1><p>Hợp đồng mẫu dùng cho môi trường mock.</p>",
+    fileUrl: "https://picsum.photos/seed/contract1/800",
+  },
+];
+
+const wallet = { walletId: 1, balance: 10000000 };
+
+const transactions = [
+  { id: 1, paymentTransactionId: 1001, amount: 10000000, transactionDate: "2025-12-01T08:00:00Z", transactionStatus: "Success", transactionType: "TopUp" },
+  { id: 2, paymentTransactionId: 1002, amount: 500000, transactionDate: "2025-12-21T08:00:00Z", transactionStatus: "Success", transactionType: "Deposit" },
+];
+
+const trackings = [
+  {
+    id: 1,
+    bookingCode: "BKG-0002",
+    task: "Khảo sát mặt bằng",
+    note: "Đã đo đạc mặt tiền.",
+    createdAt: "2025-11-25T15:00:00Z",
+    images: [{ id: 1, imageUrl: "https://picsum.photos/seed/tracking1/600" }],
+  },
+  {
+    id: 2,
+    bookingCode: "BKG-0002",
+    task: "Thi công hoàn tất",
+    note: "Bàn giao cho khách hàng.",
+    createdAt: "2025-12-02T17:00:00Z",
+    images: [],
+  },
+];
+
+const cart = {
+  id: 1,
+  accountId: CUSTOMER_ID,
+  totalItem: 1,
+  totalPrice: 300000,
+  cartItems: [
+    { id: 1, productId: 1, productName: "Đèn lồng Hội An", quantity: 2, unitPrice: 150000, image: products[0].imageUrls[0] },
+  ],
+};
+
+const orders = [
+  {
+    id: 1,
+    orderCode: "ORD-0001",
+    accountId: CUSTOMER_ID,
+    paymentMethod: "Wallet",
+    orderDate: "2025-12-15T08:00:00Z",
+    totalPrice: 320000,
+    status: 1,
+    orderDetails: [{ id: 1, productId: 2, productName: "Cành mai giả", quantity: 1, unitPrice: 320000 }],
+  },
+];
+
+const favoriteProducts = [{ id: 1, productId: 2, productDetail: products[1] }];
+const favoriteServices = [{ id: 1, decorServiceId: 1, decorServiceDetails: decorServices[0] }];
+
+const notifications = [
+  {
+    id: "1",
+    title: "Báo giá mới",
+    content: "Nhà cung cấp đã gửi báo giá cho booking BKG-0001.",
+    createdAt: "2025-12-28T08:05:00Z",
+    isRead: false,
+    url: "/quotation/list",
+    type: "QUOTATION",
+  },
+  {
+    id: "3",
+    title: "Hợp đồng đã được ký",
+    content: "Hợp đồng CON-0001 đã được ký. Vui lòng thanh toán đặt cọc.",
+    createdAt: "2025-12-29T09:00:00Z",
+    isRead: false,
+    url: "/quotation/contract/CON-0001",
+    type: "CONTRACT",
+  },
+  {
+    id: "4",
+    title: "Lịch khảo sát đã xác nhận",
+    content: "Lịch khảo sát cho booking BKG-0001 đã được xác nhận.",
+    createdAt: "2025-12-27T14:00:00Z",
+    isRead: true,
+    url: "/booking/booking-detail/BKG-0001",
+    type: "BOOKING",
+  },
+  {
+    id: "2",
+    title: "Đơn hàng đã giao",
+    content: "Đơn hàng ORD-0001 đã được giao thành công.",
+    createdAt: "2025-12-18T10:00:00Z",
+    isRead: true,
+    type: "ORDER",
+  },
+];
+
+const cancelTypes = [
+  { id: 1, type: "ChangedMind", name: "Changed my mind" },
+  { id: 2, type: "FoundAnotherProvider", name: "Found another provider" },
+];
+
+module.exports = {
+  CUSTOMER_ID,
+  accounts,
+  seasons,
+  decorServices,
+  scopeOfWorks,
+  products,
+  bookings,
+  providerSchedules,
+  quotations,
+  contracts,
+  wallet,
+  transactions,
+  trackings,
+  cart,
+  orders,
+  favoriteProducts,
+  favoriteServices,
+  notifications,
+  cancelTypes,
+};
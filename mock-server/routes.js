@@ -0,0 +1,564 @@
+/* eslint-env node */
+// Handler table for the mock backend.
+// Every handler answers with the same { success, message, errors, data } envelope
+// the live API uses, so utils/*API.ts go through normalizeApiResponse unchanged.
+// Used by mock-server/server.js (HTTP) and mock-server/adapter.js (in-process, for jest).
+
+const fixtures = require("./fixtures");
+
+// Bản sao dữ liệu có thể thay đổi; reset về fixtures mỗi khi khởi động hoặc giữa các test
+let db = null;
+
+const resetMockState = () => {
+  db = JSON.parse(JSON.stringify(fixtures));
+  return db;
+};
+
+const getMockState = () => db || resetMockState();
+
+const ok = (data, message = "") => ({ status: 200, body: { success: true, message, errors: [], data } });
+
+const fail = (status, message) => ({ status, body: { success: false, message, errors: [message], data: null } });
+
+const paginate = (items, query) => {
+  const pageIndex = Math.max(1, parseInt(query.PageIndex || query.pageIndex || "1", 10));
+  const pageSize = Math.max(1, parseInt(query.PageSize || query.pageSize || "10", 10));
+  const start = (pageIndex - 1) * pageSize;
+  return ok({
+    data: items.slice(start, start + pageSize),
+    totalCount: items.length,
+    pageIndex,
+    pageSize,
+    totalPages: Math.ceil(items.length / pageSize),
+  });
+};
+
+const toBase64Url = (value) =>
+  Buffer.from(JSON.stringify(value)).toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+
+// Unsigned JWT carrying the claims services/auth.ts reads (nameid, email, unique_name, exp)
+const createMockToken = (account, ttlSeconds = 3600) =>
+  [
+    toBase64Url({ alg: "none", typ: "JWT" }),
+    toBase64Url({
+      nameid: String(account.id),
+      sub: String(account.id),
+      email: account.email,
+      unique_name: `${account.firstName} ${account.lastName}`,
+      exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+    }),
+    "mock-signature",
+  ].join(".");
+
+const includesText = (value, search) =>
+  !search || (value || "").toLowerCase().includes(String(search).toLowerCase());
+
+const asArray = (value) => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+const decorSorters = {
+  newest: (a, b) => new Date(b.createAt) - new Date(a.createAt),
+  mostFavorited: (a, b) => b.favoriteCount - a.favoriteCount,
+  rating: (a, b) => b.rate - a.rate,
+};
+
+const sortDecorServices = (services, sortBy) =>
+  decorSorters[sortBy] ? services.sort(decorSorters[sortBy]) : services;
+
+const findBooking = (code) => getMockState().bookings.find((booking) => booking.bookingCode === code);
+
+const findQuotation = (code) => getMockState().quotations.find((quotation) => quotation.quotationCode === code);
+
+const loginResult = (account) => ({
+  status: 200,
+  body: {
+    success: true,
+    errors: [],
+    token: createMockToken(account),
+    refreshToken: `mock-refresh-${account.id}`,
+    requiresTwoFactor: false,
+  },
+});
+
+const mockRoutes = [
+  { method: "GET", path: "/api/health", handler: () => ok({ status: "Healthy" }) },
+
+  // ---- Auth ----
+  {
+    method: "POST",
+    path: "/api/Auth/login",
+    handler: ({ body }) => {
+      const account = getMockState().accounts.find(
+        (item) => item.email === body?.email && item.password === body?.password
+      );
+      return account ? loginResult(account) : fail(400, "Invalid email or password.");
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/Auth/google-login",
+    handler: () => loginResult(getMockState().accounts[0]),
+  },
+  {
+    method: "POST",
+    path: "/api/Auth/refresh-token",
+    handler: ({ body }) => {
+      const account = getMockState().accounts.find((item) => `mock-refresh-${item.id}` === body?.refreshToken);
+      return account ? loginResult(account) : fail(401, "Invalid refresh token");
+    },
+  },
+
+  // ---- Decor services ----
+  {
+    method: "GET",
+    path: "/api/DecorService",
+    handler: () => ok(getMockState().decorServices),
+  },
+  {
+    method: "GET",
+    path: "/api/DecorService/search",
+    handler: ({ query }) => {
+      const seasonNames = asArray(query.SeasonNames);
+      const results = getMockState().decorServices.filter(
+        (service) =>
+          includesText(service.style, query.Style) &&
+          includesText(service.sublocation, query.Sublocation) &&
+          includesText(service.categoryName, query.CategoryName) &&
+          includesText(service.province, query.Province) &&
+          (query.MinPrice === undefined || service.basePrice >= Number(query.MinPrice)) &&
+          (query.MaxPrice === undefined || service.basePrice <= Number(query.MaxPrice)) &&
+          (query.MinRating === undefined || service.rate >= Number(query.MinRating)) &&
+          (query.ProviderId === undefined || service.accountId === Number(query.ProviderId)) &&
+          (seasonNames.length === 0 ||
+            service.seasons.some((season) => seasonNames.includes(season.seasonName)))
+      );
+      return ok(sortDecorServices(results, query.SortBy));
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/DecorService/getPaginatedList",
+    handler: ({ query }) => paginate(sortDecorServices([...getMockState().decorServices], query.SortBy), query),
+  },
+  {
+    method: "GET",
+    path: "/api/DecorService/getStyleNColorByServiceId/:id",
+    handler: ({ params }) => {
+      const service = getMockState().decorServices.find((item) => item.id === Number(params.id));
+      return service
+        ? ok({ themeColors: service.themeColors, designs: service.designs })
+        : fail(404, "Decor service not found");
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/DecorService/getAvailability/:id",
+    handler: ({ params, query }) => {
+      const state = getMockState();
+      const service = state.decorServices.find((item) => item.id === Number(params.id));
+      if (!service) return fail(404, "Decor service not found");
+
+      const schedule = state.providerSchedules.find((item) => item.providerId === service.accountId) || {
+        slotTimes: [],
+        busyDates: [],
+      };
+      const inRange = (date) => (!query.FromDate || date >= query.FromDate) && (!query.ToDate || date <= query.ToDate);
+      const providerServiceIds = state.decorServices
+        .filter((item) => item.accountId === service.accountId)
+        .map((item) => item.id);
+
+      // Surveys of the provider's other bookings, converted to Vietnam time (UTC+7)
+      const bookedSlots = state.bookings
+        .filter((booking) => providerServiceIds.includes(booking.decorServiceId) && booking.surveyDate && booking.status < 11)
+        .map((booking) => {
+          const local = new Date(new Date(booking.surveyDate).getTime() + 7 * 60 * 60 * 1000).toISOString();
+          return { date: local.slice(0, 10), time: local.slice(11, 16) };
+        })
+        .filter((slot) => inRange(slot.date));
+
+      return ok({
+        decorServiceId: service.id,
+        slotTimes: schedule.slotTimes,
+        busyDates: schedule.busyDates.filter(inRange),
+        bookedSlots,
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/DecorService/:id",
+    handler: ({ params }) => {
+      const service = getMockState().decorServices.find((item) => item.id === Number(params.id));
+      return service ? ok(service) : fail(404, "Decor service not found");
+    },
+  },
+  { method: "GET", path: "/api/ScopeOfWork/getList", handler: () => ok(getMockState().scopeOfWorks) },
+  { method: "GET", path: "/api/Season", handler: () => ok(getMockState().seasons) },
+
+  // ---- Providers ----
+  { method: "GET", path: "/api/Provider/getAll", handler: () => ok([getMockState().decorServices[0].provider]) },
+
+  // ---- Products ----
+  { method: "GET", path: "/api/Product/getList", handler: () => ok(getMockState().products) },
+  { method: "GET", path: "/api/Product/getPaginatedList", handler: ({ query }) => paginate(getMockState().products, query) },
+  {
+    method: "GET",
+    path: "/api/Product/getById/:id",
+    handler: ({ params }) => {
+      const product = getMockState().products.find((item) => item.id === Number(params.id));
+      return product ? ok(product) : fail(404, "Product not found");
+    },
+  },
+
+  // ---- Bookings ----
+  {
+    method: "GET",
+    path: "/api/Booking/getPaginatedBookingsForCustomer",
+    handler: ({ query }) => {
+      const bookings = getMockState().bookings.filter(
+        (booking) => query.Status === undefined || booking.status === Number(query.Status)
+      );
+      return paginate(bookings, query);
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/Booking/confirm/:code",
+    handler: ({ params }) => {
+      const booking = findBooking(params.code);
+      if (!booking) return fail(404, "Booking not found");
+      booking.status = 4; // Confirm
+      return ok(booking, "Booking confirmed");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/Booking/requestCancel/:code",
+    handler: ({ params }) => {
+      const booking = findBooking(params.code);
+      if (!booking) return fail(404, "Booking not found");
+      booking.status = 11; // PendingCancellation
+      return ok(booking, "Cancellation requested");
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/Booking/processCommitDeposit/:code",
+    handler: ({ params }) => {
+      const booking = findBooking(params.code);
+      if (!booking) return fail(404, "Booking not found");
+      booking.isCommitDepositPaid = true;
+      return ok(booking, "Commit deposit paid");
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/Booking/deposit/:code",
+    handler: ({ params }) => {
+      const booking = findBooking(params.code);
+      if (!booking) return fail(404, "Booking not found");
+      booking.status = 5; // DepositPaid
+      return ok(booking, "Deposit payment successful");
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/Booking/payment/:code",
+    handler: ({ params }) => {
+      const booking = findBooking(params.code);
+      if (!booking) return fail(404, "Booking not found");
+      booking.status = 10; // Completed
+      return ok(booking, "Payment processed successfully");
+    },
+  },
+  { method: "GET", path: "/api/CancelType/getAllCancelType", handler: () => ok(getMockState().cancelTypes) },
+
+  // ---- Quotations & contracts ----
+  {
+    method: "GET",
+    path: "/api/Quotation/getPaginatedQuotationsForCustomer",
+    handler: ({ query }) => {
+      const quotations = getMockState().quotations.filter(
+        (quotation) =>
+          includesText(quotation.quotationCode, query.QuotationCode) &&
+          (query.Status === undefined || quotation.status === Number(query.Status))
+      );
+      return paginate(quotations, query);
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/Quotation/getQuotationDetailByCustomer/:code",
+    handler: ({ params }) => {
+      const quotation = findQuotation(params.code);
+      return quotation ? ok(quotation) : fail(404, "Quotation not found");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/Quotation/confirmQuotation/:code",
+    handler: ({ params }) => {
+      const quotation = findQuotation(params.code);
+      if (!quotation) return fail(404, "Quotation not found");
+      quotation.status = 1;
+      const booking = findBooking(quotation.bookingCode);
+      if (booking) booking.status = 3; // Contracting
+      return ok(quotation, "Quotation confirmed");
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/Contract/getContractFile/:code",
+    handler: ({ params }) => {
+      const contract = getMockState().contracts.find((item) => item.quotationCode === params.code);
+      return contract ? ok(contract) : fail(404, "Contract not found");
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/Contract/getContractContent/:code",
+    handler: ({ params }) => {
+      const contract = getMockState().contracts.find((item) => item.contractCode === params.code);
+      return contract ? ok(contract) : fail(404, "Contract not found");
+    },
+  },
+
+  // ---- Payments & wallet ----
+  {
+    method: "GET",
+    path: "/api/Payment/getDepositPayment/:code",
+    handler: ({ params }) => {
+      const contract = getMockState().contracts.find((item) => item.contractCode === params.code);
+      const quotation = contract && findQuotation(contract.quotationCode);
+      if (!contract || !quotation) return fail(404, "Contract not found");
+      const total = quotation.materialCost + quotation.constructionCost;
+      return ok({
+        contractCode: contract.contractCode,
+        quotationCode: quotation.quotationCode,
+        depositAmount: Math.round((total * quotation.depositPercentage) / 100),
+        customerName: "Minh Nguyen",
+        customerEmail: getMockState().accounts[0].email,
+        providerName: quotation.provider.businessName,
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/Payment/getFinalPayment/:code",
+    handler: ({ params }) => {
+      const booking = findBooking(params.code);
+      if (!booking) return fail(404, "Booking not found");
+      return ok({
+        bookingCode: booking.bookingCode,
+        quotationCode: booking.quotationCode,
+        finalPaymentAmount: Math.round((booking.totalPrice || 0) * 0.7),
+        isFinalPaid: booking.status === 10,
+        customerName: "Minh Nguyen",
+        providerName: booking.provider.businessName,
+      });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/Payment/top-up-mobile",
+    handler: ({ body }) => ok({ paymentUrl: "https://sandbox.vnpayment.vn/mock", customerId: body?.customerId }),
+  },
+  { method: "GET", path: "/api/wallet/getWalletBalance", handler: () => ok(getMockState().wallet) },
+  { method: "GET", path: "/api/wallet/getTransactionsDetails", handler: () => ok(getMockState().transactions) },
+
+  // ---- Tracking ----
+  {
+    method: "GET",
+    path: "/api/Tracking/getTrackingByBookingCode",
+    handler: ({ query }) =>
+      ok(getMockState().trackings.filter((tracking) => tracking.bookingCode === query.bookingCode)),
+  },
+
+  // ---- Cart & orders ----
+  { method: "GET", path: "/api/Cart/getCart/:userId", handler: () => ok(getMockState().cart) },
+  {
+    method: "POST",
+    path: "/api/Cart/addToCart/:userId",
+    handler: ({ query, body }) => {
+      const state = getMockState();
+      const product = state.products.find((item) => item.id === Number(query.productId ?? body?.productId));
+      if (!product) return fail(404, "Product not found");
+      const quantity = Number(query.quantity ?? body?.quantity ?? 1);
+      const existing = state.cart.cartItems.find((item) => item.productId === product.id);
+      if (existing) {
+        existing.quantity += quantity;
+      } else {
+        state.cart.cartItems.push({
+          id: state.cart.cartItems.length + 1,
+          productId: product.id,
+          productName: product.productName,
+          quantity,
+          unitPrice: product.productPrice,
+          image: product.imageUrls[0],
+        });
+      }
+      return ok(state.cart, "Added to cart");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/Cart/updateQuantity/:userId",
+    handler: ({ query, body }) => {
+      const cart = getMockState().cart;
+      const productId = Number(query.productId ?? body?.productId);
+      const item = cart.cartItems.find((cartItem) => cartItem.productId === productId);
+      if (!item) return fail(404, "Product not in cart");
+      item.quantity = Number(query.quantity ?? body?.quantity);
+      return ok(cart, "Quantity updated");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/Cart/removeProduct/:userId",
+    handler: ({ query, body }) => {
+      const cart = getMockState().cart;
+      const productId = Number(query.productId ?? body?.productId);
+      cart.cartItems = cart.cartItems.filter((item) => item.productId !== productId);
+      return ok(cart, "Removed from cart");
+    },
+  },
+  { method: "GET", path: "/api/Order/getList", handler: () => ok(getMockState().orders) },
+  { method: "GET", path: "/api/Order/getPaginatedList", handler: ({ query }) => paginate(getMockState().orders, query) },
+  {
+    method: "GET",
+    path: "/api/Order/getById/:id",
+    handler: ({ params }) => {
+      const order = getMockState().orders.find((item) => item.id === Number(params.id));
+      return order ? ok(order) : fail(404, "Order not found");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/Order/cancelorder/:id",
+    handler: ({ params }) => {
+      const order = getMockState().orders.find((item) => item.id === Number(params.id));
+      if (!order) return fail(404, "Order not found");
+      order.status = 2;
+      return ok(order, "Order cancelled");
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/Order/payment/:id",
+    handler: ({ params }) => {
+      const state = getMockState();
+      const order = state.orders.find((item) => item.id === Number(params.id));
+      if (!order) return fail(404, "Order not found");
+      if (state.wallet.balance < order.totalPrice) return fail(400, "Insufficient wallet balance");
+      state.wallet.balance -= order.totalPrice;
+      return ok(order, "Payment successful");
+    },
+  },
+
+  // ---- Favorites ----
+  { method: "GET", path: "/api/FavoriteProduct/productList", handler: () => ok(getMockState().favoriteProducts) },
+  {
+    method: "POST",
+    path: "/api/FavoriteProduct/:id",
+    handler: ({ params }) => {
+      const state = getMockState();
+      const product = state.products.find((item) => item.id === Number(params.id));
+      if (!product) return fail(404, "Product not found");
+      if (!state.favoriteProducts.some((item) => item.productId === product.id)) {
+        state.favoriteProducts.push({ id: Date.now(), productId: product.id, productDetail: product });
+      }
+      return ok(null, "Added to favorites");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/FavoriteProduct/:id",
+    handler: ({ params }) => {
+      const state = getMockState();
+      state.favoriteProducts = state.favoriteProducts.filter((item) => item.productId !== Number(params.id));
+      return ok(null, "Removed from favorites");
+    },
+  },
+  { method: "GET", path: "/api/FavoriteService/myFavorite", handler: () => ok(getMockState().favoriteServices) },
+  {
+    method: "POST",
+    path: "/api/FavoriteService/:id",
+    handler: ({ params }) => {
+      const state = getMockState();
+      const service = state.decorServices.find((item) => item.id === Number(params.id));
+      if (!service) return fail(404, "Decor service not found");
+      if (!state.favoriteServices.some((item) => item.decorServiceId === service.id)) {
+        state.favoriteServices.push({ id: Date.now(), decorServiceId: service.id, decorServiceDetails: service });
+      }
+      return ok(null, "Added to favorites");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/FavoriteService/:id",
+    handler: ({ params }) => {
+      const state = getMockState();
+      state.favoriteServices = state.favoriteServices.filter((item) => item.decorServiceId !== Number(params.id));
+      return ok(null, "Removed from favorites");
+    },
+  },
+
+  // ---- Notifications ----
+  { method: "GET", path: "/api/Notification/getAllNotifications", handler: () => ok(getMockState().notifications) },
+  {
+    method: "GET",
+    path: "/api/Notification/getUnreadNotification",
+    handler: () => ok(getMockState().notifications.filter((notification) => !notification.isRead)),
+  },
+  {
+    method: "DELETE",
+    path: "/api/Notification/:id",
+    handler: ({ params }) => {
+      const state = getMockState();
+      if (!state.notifications.some((notification) => notification.id === params.id)) {
+        return fail(404, "Notification not found");
+      }
+      state.notifications = state.notifications.filter((notification) => notification.id !== params.id);
+      return ok(null, "Notification deleted");
+    },
+  },
+];
+
+// "/api/DecorService/:id" -> /^\/api\/DecorService\/([^/]+)$/i ; ASP.NET routes are case-insensitive
+const compiledRoutes = mockRoutes.map((route) => {
+  const keys = [];
+  const pattern = route.path.replace(/:(\w+)/g, (_, key) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  return { ...route, keys, regex: new RegExp(`^${pattern}/?$`, "i") };
+});
+
+/**
+ * Resolve a request against the handler table.
+ * `query` values repeat as arrays for keys such as SeasonNames.
+ */
+const handleMockRequest = ({ method = "GET", path, query = {}, body }) => {
+  const upperMethod = method.toUpperCase();
+
+  for (const route of compiledRoutes) {
+    if (route.method !== upperMethod) continue;
+    const match = route.regex.exec(path);
+    if (!match) continue;
+
+    const params = route.keys.reduce(
+      (acc, key, index) => ({ ...acc, [key]: decodeURIComponent(match[index + 1]) }),
+      {}
+    );
+    return route.handler({ params, query, body });
+  }
+
+  return fail(404, `No mock handler for ${upperMethod} ${path}`);
+};
+
+module.exports = {
+  mockRoutes,
+  handleMockRequest,
+  resetMockState,
+  getMockState,
+  createMockToken,
+};
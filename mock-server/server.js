@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+/* eslint-env node */
+
+/**
+ * Local mock of the SeasonDecor backend for offline development.
+ *
+ *   npm run mock-server                 # http://localhost:4010
+ *   MOCK_API_PORT=5000 npm run mock-server
+ *   MOCK_API_DELAY=800 npm run mock-server   # simulate a slow network (ms)
+ *
+ * Point the app at it with EXPO_PUBLIC_USE_MOCK_API=true (see config/apiConfig.ts).
+ * State lives in memory and resets to mock-server/fixtures.js on restart.
+ */
+
+const http = require("http");
+const { handleMockRequest, resetMockState } = require("./routes");
+
+const PORT = Number(process.env.MOCK_API_PORT || 4010);
+const DELAY = Number(process.env.MOCK_API_DELAY || 0);
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type,Authorization,Idempotency-Key",
+};
+
+// Repeated keys (?SeasonNames=Tết&SeasonNames=Winter) become arrays, like ASP.NET binding
+const readQuery = (searchParams) =>
+  Array.from(searchParams.keys()).reduce((acc, key) => {
+    const values = searchParams.getAll(key);
+    return { ...acc, [key]: values.length > 1 ? values : values[0] };
+  }, {});
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      if (!raw) return resolve(undefined);
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        // multipart/form-data uploads are accepted but not parsed
+        resolve(raw);
+      }
+    });
+  });
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host || "localhost"}`);
+  const body = await readBody(req);
+
+  if (DELAY > 0) {
+    await new Promise((resolve) => setTimeout(resolve, DELAY));
+  }
+
+  const { status, body: responseBody } = handleMockRequest({
+    method: req.method,
+    path: url.pathname,
+    query: readQuery(url.searchParams),
+    body,
+  });
+
+  console.log(`🧪 ${req.method} ${url.pathname}${url.search} -> ${status}`);
+  res.writeHead(status, { "Content-Type": "application/json", ...CORS_HEADERS });
+  res.end(JSON.stringify(responseBody));
+});
+
+resetMockState();
+server.listen(PORT, () => {
+  console.log(`🧪 SeasonDecor mock API listening on http://localhost:${PORT}`);
+});
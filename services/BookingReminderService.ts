@@ -0,0 +1,183 @@
+// BookingReminderService.ts - Schedules local notifications for survey dates and payment
+// deadlines, kept in step with booking status (see utils/bookingReminders.ts)
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { IBooking } from "@/utils/bookingAPI";
+import { BookingStatus } from "@/utils/bookingStatus";
+import { getFinalPaymentAPI } from "@/utils/paymentAPI";
+import { subscribeLogout } from "./auth";
+import {
+  deriveBookingReminders,
+  IBookingReminder,
+  IReminderPaymentInfo,
+  planReminderChanges,
+} from "@/utils/bookingReminders";
+
+// Reminder id -> what was scheduled for it
+const INDEX_KEY = "@booking_reminders";
+const ANDROID_CHANNEL_ID = "booking-reminders";
+
+// Overdue reminders are delivered shortly after the sync instead of being dropped
+const OVERDUE_DELAY_MS = 5 * 1000;
+
+interface IScheduledReminder {
+  fingerprint: string;
+  notificationId: string;
+  triggerAt: number;
+}
+
+class BookingReminderService {
+  private index: Record<string, IScheduledReminder> = {};
+  private loadPromise: Promise<void> | null = null;
+  private syncQueue: Promise<void> = Promise.resolve();
+  private channelReady = false;
+
+  constructor() {
+    // Reminders are for the signed-in user's bookings; nothing should fire after logout
+    subscribeLogout(() => this.clear());
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(INDEX_KEY);
+          const parsed: Record<string, IScheduledReminder> = stored ? JSON.parse(stored) : {};
+          // Older versions stored reminders that were never scheduled; plan those again
+          this.index = Object.fromEntries(Object.entries(parsed).filter(([, entry]) => entry.notificationId));
+        } catch (error) {
+          console.error("🔴 Error loading booking reminders:", error);
+          this.index = {};
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.index));
+    } catch (error) {
+      console.error("🔴 Error saving booking reminders:", error);
+    }
+  }
+
+  /**
+   * Ask for notification permission the first time a reminder is needed
+   */
+  private async ensurePermission(): Promise<boolean> {
+    if (Platform.OS === "android" && !this.channelReady) {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: "Booking reminders",
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+      this.channelReady = true;
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  }
+
+  // Final payment amount and whether it was already paid
+  private async getPaymentInfo(bookings: IBooking[]): Promise<Record<string, IReminderPaymentInfo>> {
+    const waiting = bookings.filter((booking) => booking.status === BookingStatus.ConstructionPayment);
+    const results = await Promise.all(waiting.map((booking) => getFinalPaymentAPI(booking.bookingCode)));
+
+    const payments: Record<string, IReminderPaymentInfo> = {};
+    waiting.forEach((booking, index) => {
+      const result = results[index];
+      if (result.success && result.data) {
+        payments[booking.bookingCode] = {
+          finalPaymentAmount: result.data.finalPaymentAmount,
+          isFinalPaid: result.data.isFinalPaid,
+        };
+      }
+    });
+    return payments;
+  }
+
+  private async schedule(reminder: IBookingReminder): Promise<IScheduledReminder> {
+    const triggerAt = Math.max(reminder.triggerAt, Date.now() + OVERDUE_DELAY_MS);
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { url: reminder.url, reminderId: reminder.id },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: triggerAt,
+        channelId: ANDROID_CHANNEL_ID,
+      },
+    });
+    console.log(`⏰ Scheduled ${reminder.id} for ${new Date(triggerAt).toISOString()}`);
+    return { fingerprint: reminder.fingerprint, notificationId, triggerAt };
+  }
+
+  private async cancel(id: string): Promise<void> {
+    const entry = this.index[id];
+    if (entry) {
+      await Notifications.cancelScheduledNotificationAsync(entry.notificationId).catch(() => {});
+    }
+    delete this.index[id];
+  }
+
+  /**
+   * Bring scheduled reminders in line with the customer's bookings: new reminders are
+   * scheduled, reminders whose booking moved on are cancelled, changed ones rescheduled.
+   * Calls are serialized so overlapping refetches don't double-schedule.
+   */
+  syncBookings(bookings: IBooking[]): Promise<void> {
+    this.syncQueue = this.syncQueue
+      .then(() => this.runSync(bookings))
+      .catch((error) => console.error("🔴 Error syncing booking reminders:", error));
+    return this.syncQueue;
+  }
+
+  private async runSync(bookings: IBooking[]): Promise<void> {
+    await this.load();
+
+    const payments = await this.getPaymentInfo(bookings);
+    const wanted = bookings.flatMap((booking) => deriveBookingReminders(booking, payments[booking.bookingCode]));
+
+    const scheduled = Object.fromEntries(Object.entries(this.index).map(([id, entry]) => [id, entry.fingerprint]));
+    const plan = planReminderChanges(wanted, scheduled);
+    if (plan.schedule.length === 0 && plan.cancel.length === 0) return;
+
+    for (const id of plan.cancel) {
+      await this.cancel(id);
+    }
+
+    // Without permission nothing is recorded, so the next sync plans the reminders again
+    const allowed = plan.schedule.length > 0 && (await this.ensurePermission());
+    if (allowed) {
+      for (const reminder of plan.schedule) {
+        this.index[reminder.id] = await this.schedule(reminder);
+      }
+    } else if (plan.schedule.length > 0) {
+      console.log(`⏰ Notifications not allowed, ${plan.schedule.length} reminder(s) left unscheduled`);
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * Cancel every reminder; runs on logout
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    for (const id of Object.keys(this.index)) {
+      await this.cancel(id);
+    }
+    await this.persist();
+  }
+}
+
+// Create and export a singleton instance
+const bookingReminders = new BookingReminderService();
+export default bookingReminders;
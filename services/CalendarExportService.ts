@@ -0,0 +1,215 @@
+// CalendarExportService.ts - Booking schedules as shareable .ics files or events in the device calendar
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Calendar from "expo-calendar";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+import { getPaginatedQuotationsForCustomerAPI } from "@/utils/quotationsAPI";
+import {
+  buildBookingCalendarEvents,
+  IBookingCalendarEvent,
+  ICalendarBooking,
+  toICalendar,
+} from "@/utils/bookingCalendar";
+
+// Calendar created by the app and the device event id for each exported event uid
+const INDEX_KEY = "@calendar_export";
+const CALENDAR_TITLE = "Season Decor";
+const CALENDAR_COLOR = "#5fc1f1";
+
+interface ICalendarExportIndex {
+  calendarId: string | null;
+  events: Record<string, string>;
+}
+
+export interface IDeviceCalendarOptions {
+  // The bookings are the whole schedule: events of bookings not among them are removed too
+  replaceAll?: boolean;
+}
+
+export interface IDeviceCalendarResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+// Booking codes end up in file names
+const toSafeFileName = (value: string): string => value.replace(/[^a-zA-Z0-9_.-]/g, "_");
+
+class CalendarExportService {
+  private index: ICalendarExportIndex = { calendarId: null, events: {} };
+  private loadPromise: Promise<void> | null = null;
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(INDEX_KEY);
+          const parsed = stored ? JSON.parse(stored) : null;
+          this.index = {
+            calendarId: parsed?.calendarId ?? null,
+            events: parsed?.events && typeof parsed.events === "object" ? parsed.events : {},
+          };
+        } catch (error) {
+          console.error("🔴 Error loading calendar export index:", error);
+          this.index = { calendarId: null, events: {} };
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.index));
+    } catch (error) {
+      console.error("🔴 Error saving calendar export index:", error);
+    }
+  }
+
+  /**
+   * Construction start dates by booking code, taken from the customer's quotations.
+   * Exports still work without them; the window then only marks the completion day.
+   */
+  private async getConstructionDates(): Promise<Record<string, string>> {
+    try {
+      const result = await getPaginatedQuotationsForCustomerAPI({ pageSize: 100, sortBy: "createdAt", descending: true });
+      const dates: Record<string, string> = {};
+      (result.success ? result.data : []).forEach((quotation: any) => {
+        // Newest quotation wins
+        if (quotation?.bookingCode && quotation.constructionDate && !dates[quotation.bookingCode]) {
+          dates[quotation.bookingCode] = quotation.constructionDate;
+        }
+      });
+      return dates;
+    } catch (error) {
+      console.error("🔴 Error loading construction dates:", error);
+      return {};
+    }
+  }
+
+  private async buildEvents(bookings: ICalendarBooking[]): Promise<IBookingCalendarEvent[]> {
+    const constructionDates = await this.getConstructionDates();
+    return bookings.flatMap((booking) =>
+      buildBookingCalendarEvents(booking, { constructionDate: constructionDates[booking.bookingCode] })
+    );
+  }
+
+  /**
+   * Write the bookings' schedule to an .ics file and open the share sheet.
+   * Returns the number of exported events.
+   */
+  async shareBookings(bookings: ICalendarBooking[], fileName: string = "bookings"): Promise<number> {
+    const events = await this.buildEvents(bookings);
+    if (events.length === 0) {
+      throw new Error("There are no scheduled dates to export yet.");
+    }
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error("Sharing is not available on this device.");
+    }
+
+    const fileUri = `${FileSystem.cacheDirectory}${toSafeFileName(fileName)}.ics`;
+    await FileSystem.writeAsStringAsync(fileUri, toICalendar(events));
+
+    console.log(`📅 Sharing ${events.length} calendar events as ${fileUri}`);
+    await Sharing.shareAsync(fileUri, {
+      mimeType: "text/calendar",
+      UTI: "com.apple.ical.ics",
+      dialogTitle: "Add to calendar",
+    });
+    return events.length;
+  }
+
+  private async ensureCalendar(): Promise<string> {
+    const { granted } = await Calendar.requestCalendarPermissionsAsync();
+    if (!granted) {
+      throw new Error("Allow calendar access in Settings to add bookings to your calendar.");
+    }
+
+    const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+    const existing = calendars.find((calendar) => calendar.id === this.index.calendarId);
+    if (existing) return existing.id;
+
+    const source =
+      Platform.OS === "ios"
+        ? (await Calendar.getDefaultCalendarAsync()).source
+        : { isLocalAccount: true, name: CALENDAR_TITLE, type: Calendar.SourceType.LOCAL };
+
+    const calendarId = await Calendar.createCalendarAsync({
+      title: CALENDAR_TITLE,
+      name: CALENDAR_TITLE,
+      color: CALENDAR_COLOR,
+      entityType: Calendar.EntityTypes.EVENT,
+      sourceId: source.id,
+      source,
+      ownerAccount: "personal",
+      accessLevel: Calendar.CalendarAccessLevel.OWNER,
+    });
+
+    // Events of a deleted calendar are gone with it
+    this.index = { calendarId, events: {} };
+    return calendarId;
+  }
+
+  /**
+   * Add the bookings' schedule to a "Season Decor" calendar on the device. Events added
+   * before are updated in place, and events that no longer apply (e.g. the booking was
+   * cancelled) are removed.
+   */
+  async addBookingsToDeviceCalendar(
+    bookings: ICalendarBooking[],
+    options: IDeviceCalendarOptions = {}
+  ): Promise<IDeviceCalendarResult> {
+    await this.load();
+    const calendarId = await this.ensureCalendar();
+    const events = await this.buildEvents(bookings);
+    const result: IDeviceCalendarResult = { added: 0, updated: 0, removed: 0 };
+
+    for (const event of events) {
+      const details = {
+        title: event.title,
+        startDate: event.start,
+        endDate: event.end,
+        allDay: event.allDay,
+        location: event.location,
+        notes: `${event.notes}\n\n${event.url}`,
+        url: event.url,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+
+      const eventId = this.index.events[event.uid];
+      if (eventId) {
+        try {
+          await Calendar.updateEventAsync(eventId, details);
+          result.updated++;
+          continue;
+        } catch {
+          // Deleted from the calendar app; add it again
+        }
+      }
+
+      this.index.events[event.uid] = await Calendar.createEventAsync(calendarId, details);
+      result.added++;
+    }
+
+    // Unless replacing everything, only events of the exported bookings are touched
+    const exportedCodes = new Set(bookings.map((booking) => booking.bookingCode));
+    const wanted = new Set(events.map((event) => event.uid));
+    for (const [uid, eventId] of Object.entries(this.index.events)) {
+      const bookingCode = uid.replace(/-(survey|construction|completion)@.*$/, "");
+      if ((options.replaceAll || exportedCodes.has(bookingCode)) && !wanted.has(uid)) {
+        await Calendar.deleteEventAsync(eventId).catch(() => {});
+        delete this.index.events[uid];
+        result.removed++;
+      }
+    }
+
+    await this.persist();
+    console.log(`📅 Device calendar: ${result.added} added, ${result.updated} updated, ${result.removed} removed`);
+    return result;
+  }
+}
+
+// Create and export a singleton instance
+const calendarExport = new CalendarExportService();
+export default calendarExport;
@@ -0,0 +1,218 @@
+// ChatHistoryService.ts - Chat history stored on the device, per contact
+// A conversation opens from storage right away, then only messages newer than the stored
+// ones are fetched. Messages pushed by chatHub are stored as they arrive, and search runs
+// over every stored conversation. Paging and search live in utils/chatHistory.ts.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getChatHistoryAPI, IMessage } from "@/utils/chatAPI";
+import {
+  CHAT_PAGE_SIZE,
+  getMessagePage,
+  getMessagesFrom,
+  getSyncCursor,
+  IChatMessagePage,
+  IChatSearchResult,
+  mergeMessages,
+  searchConversations,
+} from "@/utils/chatHistory";
+import { IReadReceipt, markMessagesRead } from "@/utils/chatPresence";
+import { Message, signalRService } from "./SignalRService";
+import { getUserIdFromToken, subscribeLogout } from "./auth";
+
+// Storage keys
+const HISTORY_KEY_PREFIX = "@chat_history:";
+const INDEX_KEY = "@chat_history_index"; // Contact ids with a stored conversation
+
+const historyKey = (contactId: number) => `${HISTORY_KEY_PREFIX}${contactId}`;
+
+// Hub messages carry fewer fields than chat history; ones without a server id are skipped
+const fromHubMessage = (message: Message): IMessage | null => {
+  const id = Number(message?.id);
+  if (!message || !Number.isFinite(id)) return null;
+  return {
+    id,
+    senderId: message.senderId,
+    senderName: "",
+    receiverId: message.receiverId,
+    receiverName: "",
+    message: message.message ?? "",
+    sentTime: message.sentTime,
+    isRead: !!message.isRead,
+    files: (message.files ?? []) as IMessage["files"],
+  };
+};
+
+class ChatHistoryService {
+  private conversations = new Map<number, IMessage[]>();
+  private loadPromises = new Map<number, Promise<IMessage[]>>();
+  private syncPromises = new Map<number, Promise<IMessage[]>>();
+  private indexPromise: Promise<Set<number>> | null = null;
+
+  constructor() {
+    // Received messages belong to the sender's conversation, sent ones to the receiver's
+    signalRService.onMessageReceived((message) => {
+      this.addHubMessage(message.senderId, message);
+    });
+    signalRService.onMessageSent((message) => {
+      this.addHubMessage(message.receiverId, message);
+    });
+    // A receipt covers one conversation: the reader's, from the sender's side and vice versa
+    signalRService.presence.onReadReceipt((receipt) => {
+      this.applyReadReceipt(receipt);
+    });
+    // Stored conversations are the signed-in user's; the next account starts empty
+    subscribeLogout(() => this.clear());
+  }
+
+  private loadIndex(): Promise<Set<number>> {
+    if (!this.indexPromise) {
+      this.indexPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(INDEX_KEY);
+          const parsed = stored ? JSON.parse(stored) : [];
+          return new Set<number>(Array.isArray(parsed) ? parsed : []);
+        } catch (error) {
+          console.error("🔴 Error loading chat history index:", error);
+          return new Set<number>();
+        }
+      })();
+    }
+    return this.indexPromise;
+  }
+
+  private loadConversation(contactId: number): Promise<IMessage[]> {
+    let promise = this.loadPromises.get(contactId);
+    if (!promise) {
+      promise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(historyKey(contactId));
+          const parsed: IMessage[] = stored ? JSON.parse(stored) : [];
+          // Hub messages may have arrived while reading
+          const merged = mergeMessages(Array.isArray(parsed) ? parsed : [], this.conversations.get(contactId) ?? []);
+          this.conversations.set(contactId, merged);
+          return merged;
+        } catch (error) {
+          console.error(`🔴 Error loading chat history for contact ${contactId}:`, error);
+          return this.conversations.get(contactId) ?? [];
+        }
+      })();
+      this.loadPromises.set(contactId, promise);
+    }
+    return promise;
+  }
+
+  /**
+   * The newest messages of a conversation, as stored
+   */
+  async getLatestPage(contactId: number, limit: number = CHAT_PAGE_SIZE): Promise<IChatMessagePage> {
+    await this.loadConversation(contactId);
+    return getMessagePage(this.conversations.get(contactId) ?? [], limit);
+  }
+
+  /**
+   * Messages older than `beforeId`, for scrolling up
+   */
+  async getOlderPage(contactId: number, beforeId: number, limit: number = CHAT_PAGE_SIZE): Promise<IChatMessagePage> {
+    await this.loadConversation(contactId);
+    return getMessagePage(this.conversations.get(contactId) ?? [], limit, beforeId);
+  }
+
+  /**
+   * Messages from `fromId` on, to refresh what a screen has loaded after a sync
+   */
+  async getMessagesFrom(contactId: number, fromId: number | null): Promise<IChatMessagePage> {
+    await this.loadConversation(contactId);
+    return getMessagesFrom(this.conversations.get(contactId) ?? [], fromId);
+  }
+
+  /**
+   * Fetch what's new since the stored messages and store it. Resolves with the whole stored
+   * conversation; concurrent calls for a contact share one request.
+   */
+  sync(contactId: number): Promise<IMessage[]> {
+    let promise = this.syncPromises.get(contactId);
+    if (!promise) {
+      promise = this.syncInternal(contactId).finally(() => {
+        this.syncPromises.delete(contactId);
+      });
+      this.syncPromises.set(contactId, promise);
+    }
+    return promise;
+  }
+
+  private async syncInternal(contactId: number): Promise<IMessage[]> {
+    const stored = await this.loadConversation(contactId);
+    const afterMessageId = getSyncCursor(this.conversations.get(contactId) ?? stored, contactId);
+    const fetched = await getChatHistoryAPI(contactId, { afterMessageId });
+    console.log(`💬 Synced ${fetched.length} message(s) with contact ${contactId}`);
+    return this.addMessages(contactId, fetched);
+  }
+
+  /**
+   * Messages across all stored conversations containing every word of the query
+   */
+  async search(query: string): Promise<IChatSearchResult[]> {
+    const index = await this.loadIndex();
+    await Promise.all(Array.from(index).map((contactId) => this.loadConversation(contactId)));
+    return searchConversations(this.conversations, query);
+  }
+
+  // Drop every stored conversation on logout
+  async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    const keys = Array.from(new Set([...index, ...this.conversations.keys()])).map(historyKey);
+    this.conversations.clear();
+    this.loadPromises.clear();
+    this.syncPromises.clear();
+    this.indexPromise = Promise.resolve(new Set<number>());
+    try {
+      await AsyncStorage.multiRemove([...keys, INDEX_KEY]);
+    } catch (error) {
+      console.error("🔴 Error clearing chat history:", error);
+    }
+  }
+
+  private addHubMessage(contactId: number, message: Message) {
+    const stored = fromHubMessage(message);
+    if (stored && contactId) this.addMessages(contactId, [stored]);
+  }
+
+  private async applyReadReceipt(receipt: IReadReceipt) {
+    const currentUserId = await getUserIdFromToken().catch(() => null);
+    if (currentUserId === null) return;
+    const contactId = receipt.readerId === currentUserId ? receipt.senderId : receipt.readerId;
+
+    await this.loadConversation(contactId);
+    const messages = this.conversations.get(contactId) ?? [];
+    const updated = markMessagesRead(messages, receipt);
+    if (updated === messages) return;
+    this.conversations.set(contactId, updated);
+    await this.save(contactId, updated);
+  }
+
+  private async addMessages(contactId: number, messages: IMessage[]): Promise<IMessage[]> {
+    await this.loadConversation(contactId);
+    const merged = mergeMessages(this.conversations.get(contactId) ?? [], messages);
+    this.conversations.set(contactId, merged);
+    if (messages.length > 0) {
+      await this.save(contactId, merged);
+    }
+    return merged;
+  }
+
+  private async save(contactId: number, messages: IMessage[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(historyKey(contactId), JSON.stringify(messages));
+      const index = await this.loadIndex();
+      if (!index.has(contactId)) {
+        index.add(contactId);
+        await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(Array.from(index)));
+      }
+    } catch (error) {
+      console.error(`🔴 Error saving chat history for contact ${contactId}:`, error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const chatHistoryStore = new ChatHistoryService();
+export default chatHistoryStore;
@@ -0,0 +1,283 @@
+// ChatOutboxService.ts - Persistent outbox for chat messages
+// Every outgoing message gets a client id and is stored before it is sent, so messages
+// typed while the connection is down go out when chatHub reconnects and survive an app
+// restart. Delivery states follow utils/chatOutbox.ts.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import {
+  advanceDeliveryStatus,
+  applySendFailure,
+  ChatDeliveryStatus,
+  createClientMessageId,
+  findConfirmedEntry,
+  getSendProgress,
+  IChatMessageLike,
+  IOutgoingChatFile,
+  IOutgoingChatMessage,
+  pruneOutbox,
+} from "@/utils/chatOutbox";
+import { getUserIdFromToken, subscribeLogout } from "./auth";
+import { signalRService } from "./SignalRService";
+
+// Storage key
+const OUTBOX_KEY = "@chat_outbox";
+
+// chatHub's SendMessage takes attachments inline; read one at a time to report progress
+const toHubFiles = async (files: IOutgoingChatFile[], onFileRead: (count: number) => void) => {
+  const hubFiles = [];
+  for (const file of files) {
+    hubFiles.push({
+      FileName: file.fileName,
+      ContentType: file.contentType,
+      Base64Content: await FileSystem.readAsStringAsync(file.uri, { encoding: FileSystem.EncodingType.Base64 }),
+    });
+    onFileRead(hubFiles.length);
+  }
+  return hubFiles;
+};
+
+type OutboxListener = (entries: IOutgoingChatMessage[]) => void;
+
+export interface IChatDraft {
+  senderId: number;
+  receiverId: number;
+  message: string;
+  files?: IOutgoingChatFile[];
+}
+
+class ChatOutboxService {
+  private entries: IOutgoingChatMessage[] = [];
+  private listeners = new Set<OutboxListener>();
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+
+  constructor() {
+    // Whatever was typed offline goes out as soon as the hub is back
+    signalRService.hub.subscribeState((status) => {
+      if (status === "connected") this.flush();
+    });
+    // The hub echoes a message once it is stored and pushed to the receiver
+    signalRService.onMessageSent((message) => {
+      this.confirm(message, "delivered");
+    });
+    // The contact has read everything I sent them so far
+    signalRService.presence.onReadReceipt((receipt) => {
+      this.markReadBy(receipt.readerId);
+    });
+    // Unsent messages belong to the signed-in account and must not go out under the next one
+    subscribeLogout(() => this.clear());
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+          const parsed: IOutgoingChatMessage[] = stored ? JSON.parse(stored) : [];
+          // A send cut off by the app closing is retried; SendMessage has no idempotency
+          // key, so the receiver may rarely see it twice
+          const restored = (Array.isArray(parsed) ? parsed : []).map((entry) =>
+            entry.status === "sending" ? { ...entry, status: "queued" as ChatDeliveryStatus, progress: undefined } : entry
+          );
+          this.entries = pruneOutbox([...restored, ...this.entries]);
+          console.log(`📤 Chat outbox loaded with ${this.entries.length} message(s)`);
+        } catch (error) {
+          console.error("🔴 Error loading chat outbox:", error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  async getEntries(receiverId?: number): Promise<IOutgoingChatMessage[]> {
+    await this.load();
+    return receiverId === undefined ? this.entries : this.entries.filter((entry) => entry.receiverId === receiverId);
+  }
+
+  /**
+   * Listen for outbox changes; called right away with the current entries.
+   * Returns the unsubscribe function.
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => {
+      if (this.listeners.has(listener)) listener(this.entries);
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Store a message and send it when possible. Resolves with the stored entry, before the
+   * message is actually sent.
+   */
+  async enqueue(draft: IChatDraft): Promise<IOutgoingChatMessage> {
+    await this.load();
+    const now = Date.now();
+    const entry: IOutgoingChatMessage = {
+      clientId: createClientMessageId(now),
+      senderId: draft.senderId,
+      receiverId: draft.receiverId,
+      message: draft.message,
+      files: draft.files ?? [],
+      createdAt: new Date(now).toISOString(),
+      status: "queued",
+      attempts: 0,
+      updatedAt: now,
+    };
+    await this.save([...this.entries, entry]);
+    this.flush();
+    return entry;
+  }
+
+  // Try a failed message again
+  async retry(clientId: string): Promise<void> {
+    await this.load();
+    await this.update(clientId, (entry) => ({
+      ...entry,
+      status: advanceDeliveryStatus(entry.status, "queued"),
+      attempts: 0,
+      error: undefined,
+    }));
+    this.flush();
+  }
+
+  // Give up on a message that hasn't been sent
+  async discard(clientId: string): Promise<void> {
+    await this.load();
+    await this.save(this.entries.filter((entry) => entry.clientId !== clientId));
+  }
+
+  /**
+   * Apply what chat history says about messages already sent (isRead)
+   */
+  async syncWithHistory(history: IChatMessageLike[]): Promise<void> {
+    await this.load();
+    const read = history.filter((message) => message.isRead);
+    if (read.length === 0) return;
+    for (const message of read) {
+      await this.confirm(message, "read");
+    }
+  }
+
+  /**
+   * Send queued messages in order while the hub is connected. Concurrent calls share one run.
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.flushInternal().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async flushInternal(): Promise<void> {
+    await this.load();
+
+    // Only the signed-in user's messages are sent; anything left by another account is dropped
+    const userId = await getUserIdFromToken();
+    if (userId === null) return;
+    if (this.entries.some((entry) => entry.senderId !== userId)) {
+      await this.save(this.entries.filter((entry) => entry.senderId === userId));
+    }
+
+    // Messages queued while sending are picked up by the next pass
+    let next = this.nextQueued();
+    while (next && signalRService.isConnected()) {
+      const { clientId, files } = next;
+      await this.update(clientId, (entry) => ({ ...entry, status: "sending", progress: 0 }));
+
+      try {
+        const hubFiles = await toHubFiles(files, (read) => this.setProgress(clientId, getSendProgress(read, files.length)));
+        const serverId = await signalRService.sendMessage(next.receiverId, next.message, hubFiles, (hubProgress) =>
+          this.setProgress(clientId, getSendProgress(files.length, files.length, hubProgress))
+        );
+        await this.update(clientId, (entry) => ({
+          ...entry,
+          serverId: entry.serverId ?? serverId ?? undefined,
+          status: advanceDeliveryStatus(entry.status, "sent"),
+          error: undefined,
+          progress: undefined,
+        }));
+        console.log(`📤 Chat message ${clientId} sent`);
+      } catch (error: any) {
+        const connected = signalRService.isConnected();
+        await this.update(clientId, (entry) => ({
+          ...applySendFailure(entry, error?.message || "Failed to send message", connected),
+          progress: undefined,
+        }));
+        // Without a connection the rest waits for the reconnect
+        if (!connected) break;
+      }
+      next = this.nextQueued();
+    }
+  }
+
+  private nextQueued(): IOutgoingChatMessage | undefined {
+    return this.entries.find((entry) => entry.status === "queued");
+  }
+
+  private async confirm(message: IChatMessageLike, status: ChatDeliveryStatus): Promise<void> {
+    await this.load();
+    const entry = findConfirmedEntry(this.entries, message);
+    if (!entry) return;
+    await this.update(entry.clientId, (current) => ({
+      ...current,
+      serverId: current.serverId ?? message.id ?? undefined,
+      status: advanceDeliveryStatus(current.status, status),
+    }));
+  }
+
+  private async markReadBy(readerId: number): Promise<void> {
+    await this.load();
+    const unread = this.entries.filter(
+      (entry) => entry.receiverId === readerId && (entry.status === "sent" || entry.status === "delivered")
+    );
+    if (unread.length === 0) return;
+    const ids = new Set(unread.map((entry) => entry.clientId));
+    const now = Date.now();
+    await this.save(
+      this.entries.map((entry) =>
+        ids.has(entry.clientId) ? { ...entry, status: advanceDeliveryStatus(entry.status, "read"), updatedAt: now } : entry
+      )
+    );
+  }
+
+  // Drop everything on logout
+  async clear(): Promise<void> {
+    await this.load();
+    await this.save([]);
+  }
+
+  // Progress only matters while the message is on screen, so it isn't written to storage
+  private setProgress(clientId: string, progress: number) {
+    this.entries = this.entries.map((entry) => (entry.clientId === clientId ? { ...entry, progress } : entry));
+    this.listeners.forEach((listener) => listener(this.entries));
+  }
+
+  private async update(
+    clientId: string,
+    change: (entry: IOutgoingChatMessage) => IOutgoingChatMessage
+  ): Promise<void> {
+    const now = Date.now();
+    await this.save(
+      this.entries.map((entry) => (entry.clientId === clientId ? { ...change(entry), updatedAt: now } : entry))
+    );
+  }
+
+  private async save(entries: IOutgoingChatMessage[]): Promise<void> {
+    this.entries = pruneOutbox(entries);
+    this.listeners.forEach((listener) => listener(this.entries));
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error("🔴 Error saving chat outbox:", error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const chatOutbox = new ChatOutboxService();
+export default chatOutbox;
@@ -0,0 +1,196 @@
+// ChatPresenceService.ts - Presence, typing indicators and read receipts over chatHub
+// Listens to the hub's presence events, keeps unread counts per contact (also when a
+// conversation is read on another device) and sends my own typing and read state.
+// SignalRService creates the instance for chatHub; state changes follow utils/chatPresence.ts.
+import type { HubConnectionManager } from "./HubConnectionManager";
+import type { ChatHubEvents } from "./SignalRService";
+import type { IContact } from "@/utils/contactAPI";
+import {
+  applyContacts,
+  applyIncomingMessage,
+  applyReadReceipt,
+  EMPTY_PRESENCE,
+  IChatPresenceState,
+  IReadReceipt,
+  markConversationRead,
+  pruneTyping,
+  setOnline,
+  setTyping,
+  shouldSendTyping,
+  TYPING_IDLE_MS,
+} from "@/utils/chatPresence";
+
+export class ChatPresenceService {
+  private state: IChatPresenceState = EMPTY_PRESENCE;
+  private listeners = new Set<() => void>();
+  private receiptListeners = new Set<(receipt: IReadReceipt) => void>();
+  private activeContactId: number | null = null;
+  private typingExpiryTimer: ReturnType<typeof setTimeout> | null = null;
+  // My own typing state per contact: when "typing" was last sent and the idle timer
+  private typingSentAt = new Map<number, number>();
+  private typingIdleTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private readonly hub: HubConnectionManager<ChatHubEvents>,
+    private readonly getCurrentUserId: () => Promise<number | null>
+  ) {
+    hub.on("ReceiveMessage", (message) => {
+      this.handleIncomingMessage(message.senderId);
+    });
+    hub.on("MessagesRead", (receipt) => {
+      this.handleReadReceipt(receipt);
+    });
+    hub.on("UserTyping", (senderId, typing) => {
+      this.setState(setTyping(this.state, senderId, typing));
+    });
+    hub.on("UserOnline", (userId) => {
+      this.setState(setOnline(this.state, userId, true));
+    });
+    hub.on("UserOffline", (userId) => {
+      this.setState(setOnline(this.state, userId, false));
+    });
+    hub.on("ContactsUpdated", (contacts) => {
+      this.applyContacts(contacts);
+    });
+    // Typing and presence can't be trusted once the connection is gone
+    hub.subscribeState((status) => {
+      if (status === "connected") return;
+      this.typingSentAt.clear();
+      const { online, typing } = this.state;
+      if (Object.keys(online).length > 0 || Object.keys(typing).length > 0) {
+        this.setState({ ...this.state, online: {}, typing: {} });
+      }
+    });
+  }
+
+  public getSnapshot = (): IChatPresenceState => this.state;
+
+  /**
+   * Listen for state changes; returns the unsubscribe function
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Listen for read receipts; returns the unsubscribe function
+   */
+  public onReadReceipt(listener: (receipt: IReadReceipt) => void): () => void {
+    this.receiptListeners.add(listener);
+    return () => {
+      this.receiptListeners.delete(listener);
+    };
+  }
+
+  // Presence and unread counts from the contact list API
+  public applyContacts(contacts: IContact[]) {
+    this.setState(applyContacts(this.state, contacts));
+  }
+
+  /**
+   * The conversation on screen: its messages are read as they arrive. Pass null on leaving.
+   */
+  public setActiveConversation(contactId: number | null) {
+    if (this.activeContactId !== null && this.activeContactId !== contactId) {
+      this.stopTyping(this.activeContactId);
+    }
+    this.activeContactId = contactId;
+    if (contactId !== null) this.markAsRead(contactId);
+  }
+
+  /**
+   * Mark what a contact sent me as read, here and on the server
+   */
+  public async markAsRead(contactId: number): Promise<void> {
+    this.setState(markConversationRead(this.state, contactId));
+    if (!this.hub.isConnected()) return;
+    try {
+      await this.hub.invoke("MarkAsRead", contactId);
+    } catch (error) {
+      console.error(`🔴 Error marking conversation ${contactId} as read:`, error);
+    }
+  }
+
+  /**
+   * Call on every keystroke; "typing" goes out throttled and "stopped" after a pause
+   */
+  public notifyTyping(receiverId: number) {
+    const idleTimer = this.typingIdleTimers.get(receiverId);
+    if (idleTimer) clearTimeout(idleTimer);
+    this.typingIdleTimers.set(
+      receiverId,
+      setTimeout(() => this.stopTyping(receiverId), TYPING_IDLE_MS)
+    );
+
+    const now = Date.now();
+    if (!shouldSendTyping(this.typingSentAt.get(receiverId) ?? null, now)) return;
+    this.typingSentAt.set(receiverId, now);
+    this.sendTyping(receiverId, true);
+  }
+
+  // Call when the message is sent or the conversation is left
+  public stopTyping(receiverId: number) {
+    const idleTimer = this.typingIdleTimers.get(receiverId);
+    if (idleTimer) clearTimeout(idleTimer);
+    this.typingIdleTimers.delete(receiverId);
+
+    if (!this.typingSentAt.has(receiverId)) return;
+    this.typingSentAt.delete(receiverId);
+    this.sendTyping(receiverId, false);
+  }
+
+  private sendTyping(receiverId: number, typing: boolean) {
+    if (!this.hub.isConnected()) return;
+    this.hub.invoke("SendTyping", receiverId, typing).catch((error) => {
+      console.error("🔴 Error sending typing state:", error);
+    });
+  }
+
+  private async handleIncomingMessage(senderId: number) {
+    const currentUserId = await this.getCurrentUserId().catch(() => null);
+    if (!senderId || senderId === currentUserId) return;
+
+    const open = this.activeContactId === senderId;
+    this.setState(applyIncomingMessage(this.state, senderId, open));
+    if (open) this.markAsRead(senderId);
+  }
+
+  private async handleReadReceipt(receipt: IReadReceipt) {
+    if (!receipt) return;
+    const currentUserId = await this.getCurrentUserId().catch(() => null);
+    this.setState(applyReadReceipt(this.state, receipt, currentUserId));
+    this.receiptListeners.forEach((listener) => {
+      try {
+        listener(receipt);
+      } catch (error) {
+        console.error("🔴 Read receipt handler failed:", error);
+      }
+    });
+  }
+
+  private setState(next: IChatPresenceState) {
+    if (next === this.state) return;
+    this.state = next;
+    this.scheduleTypingExpiry();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // One timer for the earliest typing indicator to expire
+  private scheduleTypingExpiry() {
+    if (this.typingExpiryTimer) {
+      clearTimeout(this.typingExpiryTimer);
+      this.typingExpiryTimer = null;
+    }
+    const expiries = Object.values(this.state.typing);
+    if (expiries.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...expiries) - Date.now());
+    this.typingExpiryTimer = setTimeout(() => {
+      this.typingExpiryTimer = null;
+      this.setState(pruneTyping(this.state));
+    }, delay);
+  }
+}
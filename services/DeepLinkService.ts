@@ -0,0 +1,113 @@
+// DeepLinkService.ts - Opens links resolved by utils/deepLinks.ts, sending the user
+// through login first when the target needs an account
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Href, router } from "expo-router";
+import { checkAuthStatus } from "@/services/auth";
+import { IDeepLinkMatch, resolveDeepLink, toDeepLinkHref } from "@/utils/deepLinks";
+
+// Link waiting for the user to log in; kept in storage in case the app is restarted meanwhile
+const PENDING_LINK_KEY = "@pending_deep_link";
+
+// A stashed link older than this is no longer what the user is waiting for
+const PENDING_LINK_MAX_AGE_MS = 30 * 60 * 1000;
+
+interface IPendingDeepLink {
+  match: IDeepLinkMatch;
+  stashedAt: number;
+}
+
+class DeepLinkService {
+  /**
+   * Open a URL if the registry knows it. Returns the match (also when it was stashed
+   * for after login), or null so callers can fall back to their own handling.
+   */
+  async open(url: string, options: { replace?: boolean } = {}): Promise<IDeepLinkMatch | null> {
+    const match = resolveDeepLink(url);
+    if (!match) {
+      console.log("🔗 No deep link route for:", url);
+      return null;
+    }
+
+    if (match.requiresAuth && !(await checkAuthStatus())) {
+      console.log(`🔗 Login required for ${match.name}, keeping link for later`);
+      await this.stash(match);
+      router.push("/(auth)/login");
+      return match;
+    }
+
+    this.navigate(match, options.replace);
+    return match;
+  }
+
+  /**
+   * Rewrite a link delivered by the OS (see app/+native-intent.tsx). Unknown links are
+   * passed through to expo-router unchanged.
+   */
+  async redirectSystemPath(path: string): Promise<string> {
+    const match = resolveDeepLink(path);
+    if (!match) return path;
+
+    if (match.requiresAuth && !(await checkAuthStatus())) {
+      console.log(`🔗 Login required for ${match.name}, keeping link for later`);
+      await this.stash(match);
+      return "/login";
+    }
+
+    return toDeepLinkHref(match);
+  }
+
+  navigate(match: IDeepLinkMatch, replace = false): void {
+    console.log(`🔗 Deep link ${match.name} → ${match.pathname}`, match.params);
+    const href: Href = { pathname: match.pathname, params: match.params };
+    if (replace) {
+      router.replace(href);
+    } else {
+      router.push(href);
+    }
+  }
+
+  /**
+   * Continue to the link that was interrupted by login. Returns true when it
+   * navigated, so the login screen can skip its default redirect.
+   */
+  async resumePendingLink(): Promise<boolean> {
+    const pending = await this.takePending();
+    if (!pending) return false;
+
+    this.navigate(pending, true);
+    return true;
+  }
+
+  async clearPendingLink(): Promise<void> {
+    await AsyncStorage.removeItem(PENDING_LINK_KEY);
+  }
+
+  private async stash(match: IDeepLinkMatch): Promise<void> {
+    const pending: IPendingDeepLink = { match, stashedAt: Date.now() };
+    try {
+      await AsyncStorage.setItem(PENDING_LINK_KEY, JSON.stringify(pending));
+    } catch (error) {
+      console.error("🔴 Error saving pending deep link:", error);
+    }
+  }
+
+  private async takePending(): Promise<IDeepLinkMatch | null> {
+    try {
+      const stored = await AsyncStorage.getItem(PENDING_LINK_KEY);
+      if (!stored) return null;
+
+      await AsyncStorage.removeItem(PENDING_LINK_KEY);
+      const pending: IPendingDeepLink = JSON.parse(stored);
+      if (!pending?.match || Date.now() - pending.stashedAt > PENDING_LINK_MAX_AGE_MS) return null;
+
+      return pending.match;
+    } catch (error) {
+      console.error("🔴 Error reading pending deep link:", error);
+      return null;
+    }
+  }
+}
+
+// Create and export a singleton instance
+const deepLinks = new DeepLinkService();
+export default deepLinks;
@@ -0,0 +1,285 @@
+// DocumentCacheService.ts - Contract / quotation PDFs kept on the device so they open without signal
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import { subscribeLogout } from "./auth";
+
+// Index of cached documents; the files themselves live in DOCUMENTS_DIR
+const INDEX_KEY = "@document_cache_index";
+const DOCUMENTS_DIR = `${FileSystem.documentDirectory}documents/`;
+
+// pdf.js is normally loaded from the CDN by the viewer; a copy is kept for offline viewing
+const PDF_JS_VERSION = "3.4.120";
+const PDF_JS_FILES = {
+  library: `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${PDF_JS_VERSION}/pdf.min.js`,
+  worker: `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${PDF_JS_VERSION}/pdf.worker.min.js`,
+};
+
+export type CachedDocumentKind = "contract" | "quotation" | "attachment";
+
+export interface ICachedDocument {
+  key: string;
+  kind: CachedDocumentKind;
+  code: string;
+  remoteUrl: string;
+  localUri: string;
+  checksum: string; // md5 of the file contents
+  version: number; // bumped whenever the provider uploads a different file
+  size: number;
+  cachedAt: number;
+  // Signature status as last seen online (contracts only)
+  isSigned?: boolean;
+  signedAt?: string;
+  // Last API payload, so the detail screen can render offline
+  metadata?: any;
+}
+
+export interface ISaveDocumentOptions {
+  metadata?: any;
+  isSigned?: boolean;
+  signedAt?: string;
+}
+
+export interface IPdfViewerScripts {
+  library: string;
+  worker: string;
+}
+
+type DocumentListener = (documents: ICachedDocument[]) => void;
+
+const toDocumentKey = (kind: CachedDocumentKind, code: string): string => `${kind}:${code}`;
+
+// Codes and attachment names end up in file names
+const toSafeFileName = (value: string): string => value.replace(/[^a-zA-Z0-9_.-]/g, "_");
+
+// 53-bit string hash (cyrb53), enough to tell cached attachments apart
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Attachments are keyed by their full URL, which can exceed the file name length limit
+const toFileName = (kind: CachedDocumentKind, code: string): string =>
+  kind === "attachment" ? hashString(code) : toSafeFileName(code);
+
+class DocumentCacheService {
+  private index: Record<string, ICachedDocument> = {};
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<DocumentListener>();
+  private viewerScripts: IPdfViewerScripts | null = null;
+
+  constructor() {
+    // Contracts and quotations are the signed-in customer's; the next account starts empty
+    subscribeLogout(() => this.clear());
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(INDEX_KEY);
+          const parsed = stored ? JSON.parse(stored) : {};
+          this.index = parsed && typeof parsed === "object" ? parsed : {};
+        } catch (error) {
+          console.error("🔴 Error loading document cache index:", error);
+          this.index = {};
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async ensureDirectory(): Promise<void> {
+    const dirInfo = await FileSystem.getInfoAsync(DOCUMENTS_DIR);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(DOCUMENTS_DIR, { intermediates: true });
+    }
+  }
+
+  async getDocuments(): Promise<ICachedDocument[]> {
+    await this.load();
+    return Object.values(this.index).sort((a, b) => b.cachedAt - a.cachedAt);
+  }
+
+  /**
+   * Cached copy of a document, or null when it was never saved or the file is gone
+   */
+  async getDocument(kind: CachedDocumentKind, code: string): Promise<ICachedDocument | null> {
+    await this.load();
+    const document = this.index[toDocumentKey(kind, code)];
+    if (!document) return null;
+
+    const fileInfo = await FileSystem.getInfoAsync(document.localUri);
+    return fileInfo.exists ? document : null;
+  }
+
+  /**
+   * Download a document into the cache. The file is only fetched again when the
+   * remote URL changed; a new download with identical contents keeps its version.
+   */
+  async saveDocument(
+    kind: CachedDocumentKind,
+    code: string,
+    remoteUrl: string,
+    options: ISaveDocumentOptions = {}
+  ): Promise<ICachedDocument> {
+    await this.load();
+    await this.ensureDirectory();
+
+    const key = toDocumentKey(kind, code);
+    const existing = await this.getDocument(kind, code);
+
+    if (existing && existing.remoteUrl === remoteUrl) {
+      return this.updateDocument(key, { ...existing, ...this.pickDefined(options) });
+    }
+
+    const baseName = `${kind}-${toFileName(kind, code)}`;
+    const tempUri = `${DOCUMENTS_DIR}${baseName}.download`;
+    const result = await FileSystem.downloadAsync(remoteUrl, tempUri);
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(tempUri, { idempotent: true });
+      throw new Error(`Failed to download document (${result.status})`);
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(tempUri, { md5: true });
+    const checksum = fileInfo.exists ? fileInfo.md5 ?? "" : "";
+    const size = fileInfo.exists ? fileInfo.size : 0;
+
+    if (existing && existing.checksum === checksum) {
+      // Same file behind a new URL
+      await FileSystem.deleteAsync(tempUri, { idempotent: true });
+      return this.updateDocument(key, { ...existing, remoteUrl, ...this.pickDefined(options) });
+    }
+
+    const version = (existing?.version ?? 0) + 1;
+    const localUri = `${DOCUMENTS_DIR}${baseName}-v${version}.pdf`;
+    await FileSystem.moveAsync({ from: tempUri, to: localUri });
+    if (existing) {
+      await FileSystem.deleteAsync(existing.localUri, { idempotent: true });
+    }
+
+    console.log(`📄 Cached ${key} v${version}`);
+    return this.updateDocument(key, {
+      key,
+      kind,
+      code,
+      remoteUrl,
+      localUri,
+      checksum,
+      version,
+      size,
+      cachedAt: Date.now(),
+      isSigned: existing?.isSigned,
+      signedAt: existing?.signedAt,
+      metadata: existing?.metadata,
+      ...this.pickDefined(options),
+    });
+  }
+
+  /**
+   * Record the signature status seen online, even when the file itself is not cached yet
+   */
+  async setSignatureStatus(kind: CachedDocumentKind, code: string, isSigned: boolean, signedAt?: string): Promise<void> {
+    await this.load();
+    const key = toDocumentKey(kind, code);
+    const existing = this.index[key];
+    if (!existing) return;
+
+    await this.updateDocument(key, { ...existing, isSigned, signedAt: signedAt ?? existing.signedAt });
+  }
+
+  /**
+   * File contents for the WebView PDF viewer
+   */
+  async readAsBase64(document: ICachedDocument): Promise<string> {
+    return FileSystem.readAsStringAsync(document.localUri, { encoding: FileSystem.EncodingType.Base64 });
+  }
+
+  async removeDocument(kind: CachedDocumentKind, code: string): Promise<void> {
+    await this.load();
+    const key = toDocumentKey(kind, code);
+    const existing = this.index[key];
+    if (!existing) return;
+
+    await FileSystem.deleteAsync(existing.localUri, { idempotent: true });
+    delete this.index[key];
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await FileSystem.deleteAsync(DOCUMENTS_DIR, { idempotent: true });
+    this.index = {};
+    await this.persist();
+  }
+
+  /**
+   * pdf.js sources for rendering without network. Downloaded once; null while
+   * offline if they were never fetched, in which case the viewer uses the CDN.
+   */
+  async getPdfViewerScripts(): Promise<IPdfViewerScripts | null> {
+    if (this.viewerScripts) return this.viewerScripts;
+
+    try {
+      await this.ensureDirectory();
+      const scripts: Partial<IPdfViewerScripts> = {};
+
+      for (const [name, url] of Object.entries(PDF_JS_FILES) as [keyof IPdfViewerScripts, string][]) {
+        const localUri = `${DOCUMENTS_DIR}pdfjs-${PDF_JS_VERSION}-${name}.js`;
+        const fileInfo = await FileSystem.getInfoAsync(localUri);
+        if (!fileInfo.exists) {
+          const result = await FileSystem.downloadAsync(url, localUri);
+          if (result.status !== 200) {
+            await FileSystem.deleteAsync(localUri, { idempotent: true });
+            return null;
+          }
+        }
+        scripts[name] = await FileSystem.readAsStringAsync(localUri);
+      }
+
+      this.viewerScripts = scripts as IPdfViewerScripts;
+      return this.viewerScripts;
+    } catch (error) {
+      console.log("🟡 PDF viewer scripts unavailable offline:", error);
+      return null;
+    }
+  }
+
+  subscribe(listener: DocumentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private pickDefined(options: ISaveDocumentOptions): ISaveDocumentOptions {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+
+  private async updateDocument(key: string, document: ICachedDocument): Promise<ICachedDocument> {
+    this.index[key] = document;
+    await this.persist();
+    return document;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.index));
+    } catch (error) {
+      console.error("🔴 Error saving document cache index:", error);
+    }
+    const documents = Object.values(this.index);
+    this.listeners.forEach((listener) => listener(documents));
+  }
+}
+
+// Create and export a singleton instance
+const documentCache = new DocumentCacheService();
+export default documentCache;
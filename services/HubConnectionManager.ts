@@ -0,0 +1,285 @@
+// HubConnectionManager.ts - One SignalR hub connection with reconnect, typed events and state
+// chatHub and notificationHub both run on this: it builds the connection with a fresh
+// access token, reconnects with exponential backoff and jitter, re-attaches event
+// handlers after every reconnect and publishes its state for connection badges.
+import * as signalR from "@microsoft/signalr";
+import { AppState, AppStateStatus, NativeEventSubscription } from "react-native";
+
+export type HubConnectionStatus = "disconnected" | "connecting" | "connected" | "reconnecting";
+
+// Hub events and their argument lists, e.g. { ReceiveMessage: (message: Message) => void }
+export type HubEventMap = { [event: string]: (...args: any[]) => void };
+
+// The part of signalR.HubConnection the manager uses; tests pass a fake
+export interface IHubTransport {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  invoke<T = any>(method: string, ...args: any[]): Promise<T>;
+  on(event: string, handler: (...args: any[]) => void): void;
+  onclose(callback: (error?: Error) => void): void;
+}
+
+export type HubTransportFactory = (url: string, accessTokenFactory: () => Promise<string>) => IHubTransport;
+
+export interface IBackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: number; // 0..1, share of the delay randomised either way
+}
+
+export interface IHubConnectionOptions {
+  name: string; // For logs
+  hubPath: string; // e.g. "/chatHub"
+  getBaseUrl: () => string;
+  // Resolves a usable token (refreshed when expired) or null when signed out
+  getAccessToken: () => Promise<string | null>;
+  createTransport?: HubTransportFactory;
+  backoff?: Partial<IBackoffOptions>;
+  maxReconnectAttempts?: number;
+  connectTimeoutMs?: number;
+  // Retry after the app comes back to the foreground
+  reconnectOnForeground?: boolean;
+  random?: () => number;
+}
+
+export const DEFAULT_BACKOFF: IBackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.3,
+};
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based): exponential, capped, then spread by
+ * ±jitter so clients dropped together don't all come back in the same second
+ */
+export const computeBackoffDelay = (
+  attempt: number,
+  options: IBackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random
+): number => {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * Math.pow(options.multiplier, attempt - 1));
+  const spread = base * options.jitter * (2 * random() - 1);
+  return Math.max(0, Math.min(options.maxDelayMs, Math.round(base + spread)));
+};
+
+// Reconnects are ours (with jitter), so SignalR's own automatic reconnect is left off
+const createSignalRTransport: HubTransportFactory = (url, accessTokenFactory) =>
+  new signalR.HubConnectionBuilder()
+    .withUrl(url, {
+      skipNegotiation: false,
+      transport: signalR.HttpTransportType.WebSockets,
+      accessTokenFactory,
+    })
+    .configureLogging(signalR.LogLevel.Information)
+    .build();
+
+export class HubConnectionManager<TEvents extends HubEventMap> {
+  private transport: IHubTransport | null = null;
+  private status: HubConnectionStatus = "disconnected";
+  private handlers = new Map<string, Set<(...args: any[]) => void>>();
+  private stateListeners = new Set<(status: HubConnectionStatus) => void>();
+  private startPromise: Promise<void> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private stopped = true;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private readonly backoff: IBackoffOptions;
+
+  constructor(private readonly options: IHubConnectionOptions) {
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+  }
+
+  public getState = (): HubConnectionStatus => this.status;
+
+  public isConnected(): boolean {
+    return this.status === "connected";
+  }
+
+  /**
+   * Listen for state changes; returns the unsubscribe function
+   */
+  public subscribeState = (listener: (status: HubConnectionStatus) => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Listen for a hub event; handlers survive reconnects. Returns the unsubscribe function.
+   */
+  public on<K extends keyof TEvents & string>(event: K, handler: TEvents[K]): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+      this.transport?.on(event, (...args: any[]) => this.dispatch(event, args));
+    }
+    handlers.add(handler);
+    return () => {
+      handlers!.delete(handler);
+    };
+  }
+
+  /**
+   * Connect, or join the attempt already under way. Rejects when this attempt fails; unless
+   * signed out, a reconnect is scheduled then until stop() is called.
+   */
+  public start(): Promise<void> {
+    this.stopped = false;
+    this.watchAppState();
+    if (this.status === "connected") return Promise.resolve();
+    if (!this.startPromise) {
+      this.startPromise = this.connect().finally(() => {
+        this.startPromise = null;
+      });
+    }
+    return this.startPromise;
+  }
+
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    this.clearReconnectTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.reconnectAttempts = 0;
+
+    const transport = this.transport;
+    this.transport = null;
+    this.setStatus("disconnected");
+    if (transport) {
+      try {
+        await transport.stop();
+        console.log(`🔌 ${this.options.name} disconnected`);
+      } catch (error) {
+        console.error(`🔴 Error stopping ${this.options.name}:`, error);
+      }
+    }
+  }
+
+  public async invoke<T = any>(method: string, ...args: any[]): Promise<T> {
+    if (!this.transport || this.status !== "connected") {
+      throw new Error(`${this.options.name} is not connected`);
+    }
+    return this.transport.invoke<T>(method, ...args);
+  }
+
+  private async connect(): Promise<void> {
+    this.clearReconnectTimer();
+    this.setStatus(this.reconnectAttempts > 0 ? "reconnecting" : "connecting");
+
+    const token = await this.options.getAccessToken().catch(() => null);
+    if (!token) {
+      // Signed out: nothing to retry until someone starts the hub again
+      this.setStatus("disconnected");
+      throw new Error(`No authentication token available for ${this.options.name}`);
+    }
+
+    let transport: IHubTransport | null = null;
+    try {
+      // Asked again on every negotiate, so a refreshed token is picked up
+      const accessTokenFactory = async () => (await this.options.getAccessToken()) ?? token;
+      const createTransport = this.options.createTransport ?? createSignalRTransport;
+      transport = createTransport(`${this.options.getBaseUrl()}${this.options.hubPath}`, accessTokenFactory);
+
+      this.handlers.forEach((_, event) => {
+        transport!.on(event, (...args: any[]) => this.dispatch(event, args));
+      });
+      const current = transport;
+      transport.onclose((error) => this.handleClose(current, error));
+
+      this.transport = transport;
+      await this.withTimeout(transport.start());
+      if (this.stopped || this.transport !== transport) return;
+
+      console.log(`🟢 ${this.options.name} connected`);
+      this.reconnectAttempts = 0;
+      this.setStatus("connected");
+    } catch (error) {
+      console.error(`🔴 ${this.options.name} connection error:`, error);
+      if (transport && this.transport === transport) {
+        this.transport = null;
+        transport.stop().catch(() => undefined);
+      }
+      if (!this.stopped) this.scheduleReconnect();
+      throw error;
+    }
+  }
+
+  private handleClose(transport: IHubTransport, error?: Error) {
+    if (this.transport !== transport) return;
+    this.transport = null;
+    console.log(`🔌 ${this.options.name} connection closed`, error ?? "");
+    if (this.stopped) {
+      this.setStatus("disconnected");
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    this.clearReconnectTimer();
+    const maxAttempts = this.options.maxReconnectAttempts ?? 5;
+    if (this.reconnectAttempts >= maxAttempts) {
+      console.log(`⏸️ ${this.options.name}: giving up after ${maxAttempts} attempts until the app is foregrounded`);
+      this.reconnectAttempts = 0;
+      this.setStatus("disconnected");
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = computeBackoffDelay(this.reconnectAttempts, this.backoff, this.options.random);
+    console.log(`⏰ ${this.options.name} reconnect attempt ${this.reconnectAttempts} in ${delay}ms`);
+    this.setStatus("reconnecting");
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.start().catch(() => undefined);
+    }, delay);
+  }
+
+  private dispatch(event: string, args: any[]) {
+    this.handlers.get(event)?.forEach((handler) => {
+      try {
+        handler(...args);
+      } catch (error) {
+        console.error(`🔴 ${this.options.name} ${event} handler failed:`, error);
+      }
+    });
+  }
+
+  private setStatus(status: HubConnectionStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.stateListeners.forEach((listener) => listener(status));
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private withTimeout(promise: Promise<void>): Promise<void> {
+    const timeoutMs = this.options.connectTimeoutMs ?? 15000;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Connection timeout after ${timeoutMs / 1000} seconds`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private watchAppState() {
+    if (this.appStateSubscription || this.options.reconnectOnForeground === false) return;
+    this.appStateSubscription = AppState.addEventListener("change", this.handleAppStateChange);
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus) => {
+    if (nextAppState !== "active" || this.stopped || this.status !== "disconnected") return;
+    console.log(`📱 App is active, reconnecting ${this.options.name}`);
+    this.start().catch(() => undefined);
+  };
+}
@@ -222,12 +222,8 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     };
     
     // Register event handlers
-    notificationService.onNotificationReceived(handleNewNotification);
-    
-    // Clean up event handlers on unmount
-    return () => {
-      notificationService.offNotificationReceived(handleNewNotification);
-    };
+    // Unsubscribed on unmount
+    return notificationService.onNotificationReceived(handleNewNotification);
   }, []);
 
   // Handle app state changes (background to foreground)
@@ -298,19 +294,13 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     };
   }, [connect, fetchAllNotifications, fetchUnreadNotifications]);
 
-  // Periodically check connection status
+  // Follow the hub's connection state
   useEffect(() => {
-    const checkConnectionInterval = setInterval(() => {
-      const connectionStatus = notificationService.isConnected();
-      if (connectionStatus !== isConnected) {
-        setIsConnected(connectionStatus);
-      }
-    }, 5000);
-    
-    return () => {
-      clearInterval(checkConnectionInterval);
-    };
-  }, [isConnected]);
+    setIsConnected(notificationService.isConnected());
+    return notificationService.hub.subscribeState((status) => {
+      setIsConnected(status === "connected");
+    });
+  }, []);
 
   // Context value
   const contextValue: NotificationContextType = {
@@ -1,8 +1,8 @@
 // Import statements for NotificationService.ts
-import * as signalR from "@microsoft/signalr";
-import { BASE_URL } from "@/config/apiConfig";
-import { getFormattedToken } from "./auth";
-import { Platform } from 'react-native';
+import { getBaseUrl, subscribeApiProfile } from "@/config/apiConfig";
+import { acquireSignalRToken } from "./auth";
+import offlineQueue from "./OfflineQueueService";
+import { HubConnectionManager } from "./HubConnectionManager";
 
 export interface Notification {
   id: string;
@@ -15,168 +15,63 @@ export interface Notification {
   type: 'CONTRACT' | 'BOOKING' | 'QUOTATION' | 'GENERAL' | 'ORDER' | 'SYSTEM';
 }
 
+// notificationHub events
+export type NotificationHubEvents = {
+  ReceiveNotification: (notification: Notification) => void;
+  NotificationMarkedAsRead: (notificationId: string) => void;
+  AllNotificationsMarkedAsRead: () => void;
+};
+
 class NotificationService {
-  private _connection: signalR.HubConnection | null = null;
-  private callbacks: Map<string, Function[]> = new Map();
-  private reconnectTimer: NodeJS.Timeout | null = null;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
+  // Connection, reconnects and foreground handling live in the shared manager
+  public readonly hub = new HubConnectionManager<NotificationHubEvents>({
+    name: "NotificationHub",
+    hubPath: "/notificationHub",
+    getBaseUrl,
+    getAccessToken: acquireSignalRToken,
+  });
   
   constructor() {
-    this.callbacks.set("notificationReceived", []);
-    this.callbacks.set("notificationRead", []);
-    this.callbacks.set("notificationsUpdated", []);
+    // Read receipts made while disconnected are replayed once the hub is back
+    offlineQueue.registerReplayHandler("notification:markAsRead", async ({ notificationId }) => {
+      if (!this.isConnected()) return false;
+      await this.hub.invoke("MarkAsRead", notificationId);
+      return true;
+    });
+    offlineQueue.registerReplayHandler("notification:markAllAsRead", async () => {
+      if (!this.isConnected()) return false;
+      await this.hub.invoke("MarkAllAsRead");
+      return true;
+    });
+    this.hub.subscribeState((status) => {
+      if (status === "connected") offlineQueue.flush();
+    });
+    
+    // The hub belongs to the old backend after a profile switch; reconnect on next login
+    subscribeApiProfile(() => {
+      this.stopConnection();
+    });
     
     console.log("NotificationService initialized");
   }
 
   public isConnected(): boolean {
-    return this._connection !== null && 
-           this._connection.state === signalR.HubConnectionState.Connected;
+    return this.hub.isConnected();
   }
 
-  public async startConnection(userId: string): Promise<void> {
-    try {
-      // Don't reconnect if already connected
-      if (this._connection && this._connection.state === signalR.HubConnectionState.Connected) {
-        console.log("Already connected to NotificationHub");
-        return;
-      }
-      
-      // Cleanup any existing connection
-      if (this._connection) {
-        await this.stopConnection();
-      }
-
-      // Clear any existing reconnect timer
-      if (this.reconnectTimer) {
-        clearTimeout(this.reconnectTimer);
-        this.reconnectTimer = null;
-      }
-
-      // Get the auth token
-      const token = await getFormattedToken();
-      if (!token) {
-        throw new Error("No authentication token available for NotificationHub");
-      }
-
-      console.log("Connecting to NotificationHub at:", `${BASE_URL}/notificationHub`);
-      
-      // Create a new SignalR connection
-      this._connection = new signalR.HubConnectionBuilder()
-        .withUrl(`${BASE_URL}/notificationHub`, {
-          skipNegotiation: Platform.OS === 'web', // Only skip on web
-          transport: signalR.HttpTransportType.WebSockets,
-          accessTokenFactory: () => token,
-          headers: {
-            'Authorization': token
-          }
-        })
-        .withAutomaticReconnect([0, 2000, 10000, 30000]) // Reconnect every 0s, 2s, 10s, 30s
-        .configureLogging(signalR.LogLevel.Information)
-        .build();
-
-      // Set up event handlers
-      this._connection.onreconnecting((error) => {
-        console.log("NotificationHub reconnecting:", error);
-      });
-
-      this._connection.onreconnected((connectionId) => {
-        console.log("NotificationHub reconnected with ID:", connectionId);
-        this.reconnectAttempts = 0;
-      });
-
-      this._connection.onclose((error) => {
-        console.log("NotificationHub connection closed:", error);
-        this._connection = null;
-        
-        // Attempt to reconnect if there was an error
-        if (error) {
-          this.scheduleReconnect(userId);
-        }
-      });
-
-      // Set up notification handlers
-      this._connection.on("ReceiveNotification", (notification) => {
-        console.log("Notification received:", notification);
-        const callbacks = this.callbacks.get("notificationReceived") || [];
-        callbacks.forEach((callback) => callback(notification));
-      });
-
-      this._connection.on("NotificationMarkedAsRead", (notificationId) => {
-        console.log("Notification marked as read:", notificationId);
-        const callbacks = this.callbacks.get("notificationRead") || [];
-        callbacks.forEach((callback) => callback(notificationId));
-      });
-
-      this._connection.on("AllNotificationsMarkedAsRead", () => {
-        console.log("All notifications marked as read");
-        const callbacks = this.callbacks.get("notificationsUpdated") || [];
-        callbacks.forEach((callback) => callback());
-      });
-
-      // Start the connection
-      try {
-        await this._connection.start();
-        console.log("NotificationHub connected successfully");
-        this.reconnectAttempts = 0;
-      } catch (startError) {
-        console.error("Error starting NotificationHub connection:", startError);
-        this._connection = null;
-        throw startError;
-      }
-    } catch (error) {
-      console.error("NotificationHub connection error:", error);
-      this._connection = null;
-      throw error;
-    }
+  // The hub identifies the user from the token; userId is only logged
+  public async startConnection(userId?: string): Promise<void> {
+    console.log("Connecting to NotificationHub for user:", userId);
+    await this.hub.start();
   }
 
-  private scheduleReconnect(userId: string) {
-    // Only attempt to reconnect if we haven't reached the maximum number of attempts
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-      
-      console.log(`Scheduling reconnect attempt ${this.reconnectAttempts} in ${delay}ms`);
-      
-      this.reconnectTimer = setTimeout(async () => {
-        try {
-          await this.startConnection(userId);
-        } catch (error) {
-          console.error("Scheduled reconnect failed:", error);
-        }
-      }, delay);
-    } else {
-      console.log("Maximum reconnect attempts reached");
-      this.reconnectAttempts = 0;
-    }
-  }
-
-  public async stopConnection(): Promise<void> {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
-    }
-    
-    if (this._connection) {
-      try {
-        await this._connection.stop();
-        console.log("NotificationHub disconnected");
-      } catch (error) {
-        console.error("Error disconnecting from NotificationHub:", error);
-      }
-      this._connection = null;
-    }
+  public stopConnection(): Promise<void> {
+    return this.hub.stop();
   }
 
   // Mark notification as read
   public async markAsRead(notificationId: string): Promise<boolean> {
     try {
-      if (!this._connection || this._connection.state !== signalR.HubConnectionState.Connected) {
-        throw new Error("NotificationHub connection not established");
-      }
-
       // Convert string ID to number if needed (depending on your API)
       const numericId = parseInt(notificationId, 10);
       if (isNaN(numericId)) {
@@ -184,7 +79,13 @@ class NotificationService {
         return false;
       }
 
-      await this._connection.invoke("MarkAsRead", numericId);
+      // Queue it while disconnected; it is sent when the hub reconnects
+      if (!this.isConnected()) {
+        await offlineQueue.enqueue("notification:markAsRead", { notificationId: numericId }, `Mark notification ${numericId} as read`);
+        return true;
+      }
+
+      await this.hub.invoke("MarkAsRead", numericId);
       console.log(`Notification ${notificationId} marked as read`);
       return true;
     } catch (error) {
@@ -196,11 +97,13 @@ class NotificationService {
   // Mark all notifications as read
   public async markAllAsRead(): Promise<boolean> {
     try {
-      if (!this._connection || this._connection.state !== signalR.HubConnectionState.Connected) {
-        throw new Error("NotificationHub connection not established");
+      // Queue it while disconnected; it is sent when the hub reconnects
+      if (!this.isConnected()) {
+        await offlineQueue.enqueue("notification:markAllAsRead", null, "Mark all notifications as read");
+        return true;
       }
 
-      await this._connection.invoke("MarkAllAsRead");
+      await this.hub.invoke("MarkAllAsRead");
       console.log("All notifications marked as read");
       return true;
     } catch (error) {
@@ -209,53 +112,17 @@ class NotificationService {
     }
   }
 
-  // Callback registration
-  public onNotificationReceived(callback: (notification: Notification) => void): void {
-    const callbacks = this.callbacks.get("notificationReceived") || [];
-    if (!callbacks.includes(callback)) {
-      this.callbacks.set("notificationReceived", [...callbacks, callback]);
-    }
-  }
-
-  public offNotificationReceived(callback: (notification: Notification) => void): void {
-    const callbacks = this.callbacks.get("notificationReceived") || [];
-    const index = callbacks.indexOf(callback);
-    if (index !== -1) {
-      callbacks.splice(index, 1);
-      this.callbacks.set("notificationReceived", callbacks);
-    }
+  // Event subscriptions; each returns its unsubscribe function
+  public onNotificationReceived(callback: (notification: Notification) => void): () => void {
+    return this.hub.on("ReceiveNotification", callback);
   }
 
-  public onNotificationRead(callback: (notificationId: string) => void): void {
-    const callbacks = this.callbacks.get("notificationRead") || [];
-    if (!callbacks.includes(callback)) {
-      this.callbacks.set("notificationRead", [...callbacks, callback]);
-    }
+  public onNotificationRead(callback: (notificationId: string) => void): () => void {
+    return this.hub.on("NotificationMarkedAsRead", callback);
   }
 
-  public offNotificationRead(callback: (notificationId: string) => void): void {
-    const callbacks = this.callbacks.get("notificationRead") || [];
-    const index = callbacks.indexOf(callback);
-    if (index !== -1) {
-      callbacks.splice(index, 1);
-      this.callbacks.set("notificationRead", callbacks);
-    }
-  }
-
-  public onNotificationsUpdated(callback: () => void): void {
-    const callbacks = this.callbacks.get("notificationsUpdated") || [];
-    if (!callbacks.includes(callback)) {
-      this.callbacks.set("notificationsUpdated", [...callbacks, callback]);
-    }
-  }
-
-  public offNotificationsUpdated(callback: () => void): void {
-    const callbacks = this.callbacks.get("notificationsUpdated") || [];
-    const index = callbacks.indexOf(callback);
-    if (index !== -1) {
-      callbacks.splice(index, 1);
-      this.callbacks.set("notificationsUpdated", callbacks);
-    }
+  public onNotificationsUpdated(callback: () => void): () => void {
+    return this.hub.on("AllNotificationsMarkedAsRead", callback);
   }
 }
 
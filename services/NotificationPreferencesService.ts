@@ -0,0 +1,78 @@
+// NotificationPreferencesService.ts - Per-type muting and quiet hours, kept on the device
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  INotificationPreferences,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  normalizeNotificationPreferences,
+  shouldAlertNotification,
+} from "@/utils/notificationPreferences";
+
+const PREFERENCES_KEY = "@notification_preferences";
+
+type PreferencesListener = (preferences: INotificationPreferences) => void;
+
+class NotificationPreferencesService {
+  private preferences: INotificationPreferences = DEFAULT_NOTIFICATION_PREFERENCES;
+  private loadPromise: Promise<INotificationPreferences> | null = null;
+  private listeners = new Set<PreferencesListener>();
+
+  load(): Promise<INotificationPreferences> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+          this.preferences = normalizeNotificationPreferences(stored ? JSON.parse(stored) : null);
+        } catch (error) {
+          console.error("🔴 Error loading notification preferences:", error);
+          this.preferences = DEFAULT_NOTIFICATION_PREFERENCES;
+        }
+        return this.preferences;
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  // load() resolves with the preferences as first read; later updates replace the object
+  async getPreferences(): Promise<INotificationPreferences> {
+    await this.load();
+    return this.preferences;
+  }
+
+  async updatePreferences(changes: Partial<INotificationPreferences>): Promise<INotificationPreferences> {
+    await this.load();
+    this.preferences = normalizeNotificationPreferences({ ...this.preferences, ...changes });
+    this.listeners.forEach((listener) => listener(this.preferences));
+
+    try {
+      await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(this.preferences));
+    } catch (error) {
+      console.error("🔴 Error saving notification preferences:", error);
+    }
+    return this.preferences;
+  }
+
+  async reset(): Promise<INotificationPreferences> {
+    return this.updatePreferences(DEFAULT_NOTIFICATION_PREFERENCES);
+  }
+
+  /**
+   * Whether an incoming notification should be shown as an in-app alert right now
+   */
+  async shouldAlert(type?: string): Promise<boolean> {
+    return shouldAlertNotification(await this.getPreferences(), type);
+  }
+
+  /**
+   * Listen for preference changes; returns an unsubscribe function
+   */
+  subscribe(listener: PreferencesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Create and export a singleton instance
+const notificationPreferences = new NotificationPreferencesService();
+export default notificationPreferences;
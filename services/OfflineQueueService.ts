@@ -0,0 +1,310 @@
+// OfflineQueueService.ts - Persistent outbox for safe mutations made while offline
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
+import { initApiClient } from "@/config/axiosConfig";
+import { connectionStatus } from "@/services/apiClient";
+import { subscribeLogout } from "@/services/auth";
+
+// Storage key
+const OUTBOX_KEY = "@offline_outbox";
+
+// Header the backend uses to drop duplicate replays
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// Replays that keep failing while online are dropped after this many attempts
+const MAX_REPLAY_ATTEMPTS = 3;
+
+// Built-in action for plain HTTP mutations
+const HTTP_ACTION = "http";
+
+export type OutboxMethod = "post" | "put" | "patch" | "delete";
+
+export interface IOutboxRequest {
+  method: OutboxMethod;
+  url: string;
+  params?: Record<string, any>;
+  data?: any;
+}
+
+export interface IOutboxEntry {
+  id: string; // Also sent as the idempotency key
+  action: string;
+  payload: any;
+  label: string;
+  createdAt: number;
+  attempts: number;
+}
+
+// Marker returned by API functions when the mutation was saved for later
+export interface IQueuedMutation {
+  queued: true;
+  mutationId: string;
+}
+
+/**
+ * Replays one queued entry.
+ * Return false when the target is not ready yet (e.g. hub not connected)
+ * so the entry stays at the head of the queue.
+ */
+export type ReplayHandler = (payload: any, idempotencyKey: string) => Promise<boolean>;
+
+type SendResult<T> = { queued: false; response: T } | { queued: true; entry: IOutboxEntry };
+
+// Điều khiển logging
+let debugLogging = false;
+
+const logDebug = (message: string, ...args: any[]) => {
+  if (debugLogging) {
+    console.log(message, ...args);
+  }
+};
+
+const createIdempotencyKey = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isReachable = (state: NetInfoState): boolean =>
+  !!state.isConnected && state.isInternetReachable !== false;
+
+export const isQueuedMutation = (value: unknown): value is IQueuedMutation =>
+  !!value && typeof value === "object" && (value as any).queued === true;
+
+export class OfflineQueueService {
+  private entries: IOutboxEntry[] = [];
+  private handlers = new Map<string, ReplayHandler>();
+  private online = true;
+  private initPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  constructor() {
+    this.handlers.set(HTTP_ACTION, async (request: IOutboxRequest, idempotencyKey) => {
+      const apiClient = await initApiClient();
+      await apiClient.request({
+        method: request.method,
+        url: request.url,
+        params: request.params,
+        data: request.data,
+        headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+      });
+      return true;
+    });
+    // Queued mutations belong to the signed-in account and must not replay under the next one
+    subscribeLogout(() => this.clear());
+  }
+
+  /**
+   * Load the persisted outbox and start watching connectivity.
+   * Safe to call many times; every public method calls it lazily.
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this._initInternal();
+    }
+    return this.initPromise;
+  }
+
+  private async _initInternal(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      // Keep anything queued in memory before storage finished loading
+      this.entries = [...(Array.isArray(parsed) ? parsed : []), ...this.entries];
+      logDebug(`📦 Offline outbox loaded with ${this.entries.length} pending mutation(s)`);
+    } catch (error) {
+      console.error("🔴 Error loading offline outbox:", error);
+    }
+
+    try {
+      this.setOnline(isReachable(await NetInfo.fetch()));
+    } catch (error) {
+      console.error("🔴 Error reading network state:", error);
+    }
+
+    if (!this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+        const wasOnline = this.online;
+        this.setOnline(isReachable(state));
+        if (!wasOnline && this.online) {
+          logDebug("🌐 Back online, replaying offline outbox");
+          this.flush();
+        }
+      });
+    }
+
+    if (this.online) {
+      this.flush();
+    }
+  }
+
+  private setOnline(online: boolean) {
+    this.online = online;
+    connectionStatus.isConnected = online;
+    if (!online) {
+      connectionStatus.lastError = "No internet connection";
+    }
+  }
+
+  async isOnline(): Promise<boolean> {
+    await this.init();
+    return this.online;
+  }
+
+  async getPendingEntries(): Promise<IOutboxEntry[]> {
+    await this.init();
+    return [...this.entries];
+  }
+
+  /**
+   * Register how entries of a non-HTTP action (e.g. a SignalR invoke) are replayed
+   */
+  registerReplayHandler(action: string, handler: ReplayHandler): void {
+    this.handlers.set(action, handler);
+    // Entries for this action may have been waiting for the handler
+    if (this.online && this.entries.some((entry) => entry.action === action)) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Save a mutation to the outbox; it is replayed in order once back online
+   */
+  async enqueue(action: string, payload: any, label: string, id = createIdempotencyKey()): Promise<IOutboxEntry> {
+    const entry: IOutboxEntry = { id, action, payload, label, createdAt: Date.now(), attempts: 0 };
+    this.entries.push(entry);
+    await this.init();
+    await this.persist();
+    logDebug(`📦 Queued offline mutation: ${label}`, id);
+    return entry;
+  }
+
+  /**
+   * Send an HTTP mutation now, or queue it when the device is offline.
+   * The same idempotency key is used for the live attempt and any replay,
+   * so a request that reached the server before the connection dropped
+   * is not applied twice.
+   */
+  async sendOrQueue<T = any>(request: IOutboxRequest, label: string): Promise<SendResult<T>> {
+    const idempotencyKey = createIdempotencyKey();
+
+    if (!(await this.isOnline())) {
+      return { queued: true, entry: await this.enqueue(HTTP_ACTION, request, label, idempotencyKey) };
+    }
+
+    try {
+      const apiClient = await initApiClient();
+      const response: T = await apiClient.request({
+        method: request.method,
+        url: request.url,
+        params: request.params,
+        data: request.data,
+        headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+      });
+      return { queued: false, response };
+    } catch (error) {
+      // The connection dropped mid-request; anything else is a real server answer
+      if (!isReachable(await NetInfo.fetch())) {
+        this.setOnline(false);
+        return { queued: true, entry: await this.enqueue(HTTP_ACTION, request, label, idempotencyKey) };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replay queued mutations in order; an action that cannot go out yet waits for the next flush
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this._flushInternal().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async _flushInternal(): Promise<void> {
+    await this.init();
+
+    // An action that can't replay yet keeps its entries, in order, without holding back
+    // the others (e.g. hub read receipts waiting for their hub while HTTP mutations go out)
+    const waiting = new Set<string>();
+    let index = 0;
+    while (this.online && index < this.entries.length) {
+      const entry = this.entries[index];
+      if (waiting.has(entry.action)) {
+        index++;
+        continue;
+      }
+
+      const handler = this.handlers.get(entry.action);
+      if (!handler) {
+        logDebug(`⏸️ No replay handler for ${entry.action} yet, skipping it`);
+        waiting.add(entry.action);
+        continue;
+      }
+
+      try {
+        const done = await handler(entry.payload, entry.id);
+        if (!done) {
+          logDebug(`⏸️ ${entry.label} is not ready to replay, skipping ${entry.action}`);
+          waiting.add(entry.action);
+          continue;
+        }
+        logDebug(`✅ Replayed offline mutation: ${entry.label}`);
+        this.remove(entry);
+      } catch (error) {
+        if (!isReachable(await NetInfo.fetch())) {
+          this.setOnline(false);
+          return;
+        }
+
+        entry.attempts += 1;
+        console.error(`🔴 Replay failed for ${entry.label} (attempt ${entry.attempts}):`, error);
+        if (entry.attempts < MAX_REPLAY_ATTEMPTS) {
+          waiting.add(entry.action);
+        } else {
+          console.warn(`⚠️ Dropping offline mutation after ${MAX_REPLAY_ATTEMPTS} attempts: ${entry.label}`);
+          this.remove(entry);
+        }
+      }
+
+      await this.persist();
+    }
+  }
+
+  private remove(entry: IOutboxEntry): void {
+    this.entries = this.entries.filter((queued) => queued !== entry);
+  }
+
+  /**
+   * Drop every pending mutation (e.g. on logout)
+   */
+  async clear(): Promise<void> {
+    await this.init();
+    this.entries = [];
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error("🔴 Error saving offline outbox:", error);
+    }
+  }
+}
+
+// Create singleton instance
+const offlineQueue = new OfflineQueueService();
+
+export default offlineQueue;
+
+export const toQueuedMutation = (entry: IOutboxEntry): IQueuedMutation => ({
+  queued: true,
+  mutationId: entry.id,
+});
+
+// Helper to toggle debug logging
+export const setOfflineQueueDebugLogging = (enabled: boolean) => {
+  debugLogging = enabled;
+};
@@ -0,0 +1,89 @@
+// QuotationHistoryService.ts - Keeps every revision of a quotation the customer has received
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getSnapshotFingerprint, IQuotationSnapshot, toQuotationSnapshot } from "@/utils/quotationDiff";
+
+// Storage key prefix, one entry per quotationCode
+const HISTORY_KEY_PREFIX = "@quotation_revisions";
+
+// Oldest revisions are dropped beyond this many per quotation
+const MAX_REVISIONS = 20;
+
+export interface IQuotationRevision {
+  revision: number; // 1-based, in the order they were received
+  receivedAt: number;
+  snapshot: IQuotationSnapshot;
+}
+
+class QuotationHistoryService {
+  // In-memory cache so the detail screen and the history screen share one copy
+  private cache = new Map<string, IQuotationRevision[]>();
+
+  private storageKey(quotationCode: string): string {
+    return `${HISTORY_KEY_PREFIX}:${quotationCode}`;
+  }
+
+  async getRevisions(quotationCode: string): Promise<IQuotationRevision[]> {
+    const cached = this.cache.get(quotationCode);
+    if (cached) return cached;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(quotationCode));
+      const revisions: IQuotationRevision[] = stored ? JSON.parse(stored) : [];
+      this.cache.set(quotationCode, Array.isArray(revisions) ? revisions : []);
+    } catch (error) {
+      console.error("🔴 Error loading quotation revisions:", error);
+      this.cache.set(quotationCode, []);
+    }
+    return this.cache.get(quotationCode)!;
+  }
+
+  /**
+   * Store the quotation as a new revision when its line items or totals differ
+   * from the latest stored one. Returns all revisions, oldest first.
+   */
+  async recordRevision(quotation: any): Promise<IQuotationRevision[]> {
+    const snapshot = toQuotationSnapshot(quotation);
+    if (!snapshot.quotationCode) return [];
+
+    const revisions = await this.getRevisions(snapshot.quotationCode);
+    const latest = revisions[revisions.length - 1];
+
+    if (latest && getSnapshotFingerprint(latest.snapshot) === getSnapshotFingerprint(snapshot)) {
+      // Same numbers; only keep the newest status
+      if (latest.snapshot.status !== snapshot.status) {
+        const updated = [...revisions.slice(0, -1), { ...latest, snapshot }];
+        await this.persist(snapshot.quotationCode, updated);
+        return updated;
+      }
+      return revisions;
+    }
+
+    const next: IQuotationRevision = {
+      revision: (latest?.revision ?? 0) + 1,
+      receivedAt: Date.now(),
+      snapshot,
+    };
+    const updated = [...revisions, next].slice(-MAX_REVISIONS);
+    console.log(`🧾 Recorded revision ${next.revision} of quotation ${snapshot.quotationCode}`);
+    await this.persist(snapshot.quotationCode, updated);
+    return updated;
+  }
+
+  async clear(quotationCode: string): Promise<void> {
+    this.cache.delete(quotationCode);
+    await AsyncStorage.removeItem(this.storageKey(quotationCode));
+  }
+
+  private async persist(quotationCode: string, revisions: IQuotationRevision[]): Promise<void> {
+    this.cache.set(quotationCode, revisions);
+    try {
+      await AsyncStorage.setItem(this.storageKey(quotationCode), JSON.stringify(revisions));
+    } catch (error) {
+      console.error("🔴 Error saving quotation revisions:", error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const quotationHistory = new QuotationHistoryService();
+export default quotationHistory;
@@ -1,10 +1,12 @@
-import * as signalR from "@microsoft/signalr";
-import { getToken, getUserIdFromToken } from "./auth";
-import { BASE_URL } from "@/config/apiConfig";
-import { Platform, AppState, AppStateStatus } from 'react-native';
+import { getToken, getUserIdFromToken, acquireSignalRToken } from "./auth";
+import { getBaseUrl, subscribeApiProfile } from "@/config/apiConfig";
+import { HubConnectionManager } from "./HubConnectionManager";
+import { ChatPresenceService } from "./ChatPresenceService";
+import type { IContact } from "@/utils/contactAPI";
+import type { IReadReceipt } from "@/utils/chatPresence";
 
 // Message interface for better type safety
-interface Message {
+export interface Message {
   id: number | string;
   senderId: number;
   receiverId: number;
@@ -14,194 +16,50 @@ interface Message {
   isRead?: boolean;
 }
 
+// chatHub events
+export type ChatHubEvents = {
+  ReceiveMessage: (message: Message) => void;
+  MessageSent: (message: Message) => void;
+  MessagesRead: (receipt: IReadReceipt) => void;
+  UserTyping: (senderId: number, isTyping: boolean) => void;
+  UserOnline: (userId: number) => void;
+  UserOffline: (userId: number) => void;
+  ContactsUpdated: (contacts: IContact[]) => void;
+};
+
 class SignalRService {
-  private _connection: signalR.HubConnection | null = null;
-  private callbacks: Map<string, Function[]> = new Map();
-  private reconnectTimer: NodeJS.Timeout | null = null;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private isReconnecting = false;
+  // Connection, reconnects and foreground handling live in the shared manager
+  public readonly hub = new HubConnectionManager<ChatHubEvents>({
+    name: "ChatHub",
+    hubPath: "/chatHub",
+    getBaseUrl,
+    getAccessToken: acquireSignalRToken,
+  });
+
+  // Online state, typing indicators and unread counts per contact
+  public readonly presence = new ChatPresenceService(this.hub, getUserIdFromToken);
   
   constructor() {
-    // Initialize callback collections
-    this.callbacks.set("messageReceived", []);
-    this.callbacks.set("messageSent", []);
-    
-    // Listen for app state changes to manage connection
-    this.setupAppStateListener();
+    // Drop the chat hub of the previous backend when the API profile changes
+    subscribeApiProfile(() => {
+      this.stopConnection();
+    });
     
     console.log("SignalR service initialized");
   }
 
-  private setupAppStateListener() {
-    AppState.addEventListener('change', this.handleAppStateChange);
-  }
-
-  private handleAppStateChange = async (nextAppState: AppStateStatus) => {
-    if (nextAppState === 'active') {
-      console.log('App has come to the foreground, checking SignalR connection');
-      if (!this.isConnected()) {
-        console.log('App is active. Reconnecting to SignalR...');
-        try {
-          const token = await getToken();
-          if (token) {
-            await this.startConnection(token);
-          }
-        } catch (error) {
-          console.error('Failed to reconnect to SignalR:', error);
-        }
-      }
-    } else if (nextAppState === 'background') {
-      console.log('App moved to background');
-    }
-  }
-
   public isConnected(): boolean {
-    return this._connection !== null && 
-           this._connection.state === signalR.HubConnectionState.Connected;
-  }
-
-  // Safe getter for connection
-  private get connection(): signalR.HubConnection {
-    if (!this._connection) {
-      throw new Error("SignalR connection not initialized");
-    }
-    return this._connection;
-  }
-
-  // Initialize SignalR connection
-  public async startConnection(token: string): Promise<void> {
-    try {
-      // Prevent duplicate connections
-      if (this._connection && this._connection.state === signalR.HubConnectionState.Connected) {
-        console.log("Already connected to SignalR");
-        return;
-      }
-
-      // Clear any existing reconnect timer
-      if (this.reconnectTimer) {
-        clearTimeout(this.reconnectTimer);
-        this.reconnectTimer = null;
-      }
-
-      console.log("Initializing SignalR");
-      
-      // Make sure token is properly formatted
-      const formattedToken = token.startsWith("Bearer ") ? token : `Bearer ${token}`;
-      
-      // Configure SignalR connection
-     // Trong phương thức startConnection
-this._connection = new signalR.HubConnectionBuilder()
-.withUrl(`${BASE_URL}/chatHub`, {
-  skipNegotiation: false,
-  transport: signalR.HttpTransportType.WebSockets,
-  accessTokenFactory: () => {
-    // Thêm tiền tố "Bearer " trước token
-    const formattedToken = token.startsWith("Bearer ") ? token : `Bearer ${token}`;
-    console.log("Getting token for SignalR: ", formattedToken);
-    return formattedToken;
-  },
-  // Thử thêm headers
-  headers: {
-    "Authorization": `Bearer ${token}`,
-    "Content-Type": "application/json"
-  }
-})
-.withAutomaticReconnect([0, 2000, 10000, 30000])
-.configureLogging(signalR.LogLevel.Debug)
-.build();
-      // Handle received messages
-      this._connection.on("ReceiveMessage", (message: Message) => {
-        console.log("SignalR message received:", message.id);
-        const callbacks = this.callbacks.get("messageReceived") || [];
-        callbacks.forEach((callback) => callback(message));
-      });
-
-      // Handle message sent confirmations
-      this._connection.on("MessageSent", (message: Message) => {
-        console.log("SignalR message sent confirmation:", message.id);
-        const callbacks = this.callbacks.get("messageSent") || [];
-        callbacks.forEach((callback) => callback(message));
-      });
-
-      // Handle reconnecting
-      this._connection.onreconnecting((error) => {
-        console.log("SignalR reconnecting:", error);
-        this.isReconnecting = true;
-      });
-
-      // Handle reconnected
-      this._connection.onreconnected((connectionId) => {
-        console.log("SignalR reconnected successfully with connectionId:", connectionId);
-        this.isReconnecting = false;
-        this.reconnectAttempts = 0;
-      });
-
-      // Handle connection closure - only define once
-      this._connection.onclose((error) => {
-      
-        this._connection = null;
-        
-        if (!this.isReconnecting && error) {
-          this.scheduleReconnect(formattedToken);
-        }
-      });
-
-      // Start connection with timeout
-      const connectionPromise = this._connection.start();
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error("Connection timeout after 15 seconds")), 15000);
-      });
-      
-      await Promise.race([connectionPromise, timeoutPromise]);
-      console.log("SignalR connected successfully");
-      this.reconnectAttempts = 0;
-
-    } catch (error) {
-      console.error("SignalR connection error:", error);
-      this._connection = null;
-      this.scheduleReconnect(token);
-      throw error;
-    }
+    return this.hub.isConnected();
   }
 
-  private scheduleReconnect(token: string) {
-    // Only schedule reconnect if we haven't exceeded max attempts
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-      
-      console.log(`Scheduling reconnect attempt ${this.reconnectAttempts} in ${delay}ms`);
-      
-      this.reconnectTimer = setTimeout(async () => {
-        try {
-          await this.startConnection(token);
-        } catch (error) {
-          console.error("Scheduled reconnect failed:", error);
-        }
-      }, delay);
-    } else {
-      console.log("Maximum reconnect attempts reached. Will try on next app foreground.");
-      this.reconnectAttempts = 0;
-    }
+  // Connect to chatHub with the current user's token
+  public startConnection(): Promise<void> {
+    return this.hub.start();
   }
 
   // Stop SignalR connection
-  public async stopConnection(): Promise<void> {
-    try {
-      if (this.reconnectTimer) {
-        clearTimeout(this.reconnectTimer);
-        this.reconnectTimer = null;
-      }
-      
-      if (this._connection) {
-        await this._connection.stop();
-        console.log("SignalR connection stopped");
-        this._connection = null;
-      }
-    } catch (error) {
-      console.error("Error stopping SignalR connection:", error);
-    }
+  public stopConnection(): Promise<void> {
+    return this.hub.stop();
   }
 
   // Send a message
@@ -216,13 +74,9 @@ this._connection = new signalR.HubConnectionBuilder()
       console.log(`Preparing to send message from ${senderId} to ${receiverId}`);
 
       // Check connection
-      if (!this._connection || this._connection.state !== signalR.HubConnectionState.Connected) {
-        console.log("Connection not established. Getting token and connecting...");
-        const token = await getToken();
-        if (!token) {
-          throw new Error("Authentication token not found");
-        }
-        await this.startConnection(token);
+      if (!this.isConnected()) {
+        console.log("Connection not established. Connecting...");
+        await this.startConnection();
       }
 
       // Validate data
@@ -249,7 +103,7 @@ this._connection = new signalR.HubConnectionBuilder()
 
       // Send the message
       onProgress && onProgress(50);
-      const messageId = await this.connection.invoke<string>(
+      const messageId = await this.hub.invoke<string>(
         "SendMessage", 
         receiverId, 
         messageText, 
@@ -267,41 +121,21 @@ this._connection = new signalR.HubConnectionBuilder()
     }
   }
 
-  // Callback registration methods
-  public onMessageReceived(callback: Function): void {
-    const callbacks = this.callbacks.get("messageReceived") || [];
-    if (!callbacks.includes(callback)) {
-      this.callbacks.set("messageReceived", [...callbacks, callback]);
-      console.log(`Message received handler registered. Total handlers: ${callbacks.length + 1}`);
-    }
+  // Event subscriptions; each returns its unsubscribe function
+  public onMessageReceived(callback: (message: Message) => void): () => void {
+    return this.hub.on("ReceiveMessage", callback);
   }
 
-  public offMessageReceived(callback: Function): void {
-    const callbacks = this.callbacks.get("messageReceived") || [];
-    const index = callbacks.indexOf(callback);
-    if (index !== -1) {
-      callbacks.splice(index, 1);
-      this.callbacks.set("messageReceived", callbacks);
-      console.log(`Message received handler removed. Remaining handlers: ${callbacks.length}`);
-    }
+  public onMessageSent(callback: (message: Message) => void): () => void {
+    return this.hub.on("MessageSent", callback);
   }
 
-  public onMessageSent(callback: Function): void {
-    const callbacks = this.callbacks.get("messageSent") || [];
-    if (!callbacks.includes(callback)) {
-      this.callbacks.set("messageSent", [...callbacks, callback]);
-      console.log(`Message sent handler registered. Total handlers: ${callbacks.length + 1}`);
-    }
+  public onMessagesRead(callback: (receipt: IReadReceipt) => void): () => void {
+    return this.hub.on("MessagesRead", callback);
   }
 
-  public offMessageSent(callback: Function): void {
-    const callbacks = this.callbacks.get("messageSent") || [];
-    const index = callbacks.indexOf(callback);
-    if (index !== -1) {
-      callbacks.splice(index, 1);
-      this.callbacks.set("messageSent", callbacks);
-      console.log(`Message sent handler removed. Remaining handlers: ${callbacks.length}`);
-    }
+  public onContactsUpdated(callback: (contacts: IContact[]) => void): () => void {
+    return this.hub.on("ContactsUpdated", callback);
   }
  
   // Check auth status and handle logout
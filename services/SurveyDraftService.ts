@@ -0,0 +1,177 @@
+// SurveyDraftService.ts - Auto-saved survey form drafts, one per decor service
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getUserIdFromToken } from "@/services/auth";
+
+// Storage key prefix; drafts are stored per signed-in user
+const DRAFTS_KEY_PREFIX = "@survey_drafts";
+
+// Drafts untouched for this long are dropped on load
+const DRAFT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface ISurveyDraftImage {
+  id: string;
+  uri: string;
+  type?: string;
+  fileName?: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
+}
+
+// Step 1 of the booking flow (app/booking/[id].tsx)
+export interface ISurveyDraftBooking {
+  addressId: number;
+  surveyDate: string;
+  note?: string;
+}
+
+// Step 2 (app/booking/survey-form.tsx)
+export interface ISurveyDraftForm {
+  budget: string;
+  roomSize: string;
+  specialRequirements: string;
+  selectedPropertyType: string;
+  selectedPrimaryUser: string;
+  selectedColorIds: number[];
+  selectedDesignId: number | null;
+  selectedScopeIds: number[];
+  uploadedImages: ISurveyDraftImage[];
+}
+
+export interface ISurveyDraft {
+  decorServiceId: number;
+  serviceName?: string;
+  booking?: ISurveyDraftBooking;
+  form: ISurveyDraftForm;
+  updatedAt: number;
+}
+
+type DraftListener = (drafts: ISurveyDraft[]) => void;
+
+// Nothing worth resuming yet
+export const isSurveyDraftEmpty = (form: ISurveyDraftForm): boolean =>
+  !form.budget.trim() &&
+  !form.roomSize.trim() &&
+  !form.specialRequirements.trim() &&
+  !form.selectedPropertyType &&
+  !form.selectedPrimaryUser &&
+  form.selectedColorIds.length === 0 &&
+  form.selectedDesignId === null &&
+  form.selectedScopeIds.length === 0 &&
+  form.uploadedImages.length === 0;
+
+/**
+ * Count the filled-in survey fields, for "3 of 9 answered" style progress
+ */
+export const getSurveyDraftProgress = (form: ISurveyDraftForm): { answered: number; total: number } => {
+  const answers = [
+    !!form.budget.trim(),
+    !!form.roomSize.trim(),
+    !!form.selectedPropertyType,
+    !!form.selectedPrimaryUser,
+    form.selectedDesignId !== null,
+    form.selectedColorIds.length > 0,
+    form.selectedScopeIds.length > 0,
+  ];
+  return { answered: answers.filter(Boolean).length, total: answers.length };
+};
+
+class SurveyDraftService {
+  private drafts: ISurveyDraft[] = [];
+  private storageKey: string | null = null;
+  private loadPromise: Promise<ISurveyDraft[]> | null = null;
+  private listeners = new Set<DraftListener>();
+
+  /**
+   * Load drafts for the signed-in user. Re-reads storage when the user changed.
+   */
+  async load(): Promise<ISurveyDraft[]> {
+    const userId = await getUserIdFromToken();
+    const storageKey = `${DRAFTS_KEY_PREFIX}:${userId ?? "guest"}`;
+
+    if (storageKey === this.storageKey && this.loadPromise) {
+      return this.loadPromise;
+    }
+
+    this.storageKey = storageKey;
+    this.loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(storageKey);
+        const parsed: ISurveyDraft[] = stored ? JSON.parse(stored) : [];
+        const cutoff = Date.now() - DRAFT_MAX_AGE_MS;
+        this.drafts = Array.isArray(parsed) ? parsed.filter((draft) => draft.updatedAt >= cutoff) : [];
+      } catch (error) {
+        console.error("🔴 Error loading survey drafts:", error);
+        this.drafts = [];
+      }
+      this.notify();
+      return this.drafts;
+    })();
+
+    return this.loadPromise;
+  }
+
+  async getDrafts(): Promise<ISurveyDraft[]> {
+    await this.load();
+    return [...this.drafts].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getDraft(decorServiceId: number): Promise<ISurveyDraft | null> {
+    await this.load();
+    return this.drafts.find((draft) => draft.decorServiceId === decorServiceId) ?? null;
+  }
+
+  /**
+   * Create or replace the draft for a decor service. Empty forms remove the draft instead.
+   */
+  async saveDraft(draft: Omit<ISurveyDraft, "updatedAt">): Promise<void> {
+    await this.load();
+
+    if (isSurveyDraftEmpty(draft.form)) {
+      await this.removeDraft(draft.decorServiceId);
+      return;
+    }
+
+    const next: ISurveyDraft = { ...draft, updatedAt: Date.now() };
+    this.drafts = [next, ...this.drafts.filter((item) => item.decorServiceId !== draft.decorServiceId)];
+    await this.persist();
+  }
+
+  async removeDraft(decorServiceId: number): Promise<void> {
+    await this.load();
+    if (!this.drafts.some((draft) => draft.decorServiceId === decorServiceId)) return;
+
+    this.drafts = this.drafts.filter((draft) => draft.decorServiceId !== decorServiceId);
+    await this.persist();
+  }
+
+  /**
+   * Listen for draft changes; returns an unsubscribe function
+   */
+  subscribe(listener: DraftListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async persist(): Promise<void> {
+    this.notify();
+    if (!this.storageKey) return;
+
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(this.drafts));
+    } catch (error) {
+      console.error("🔴 Error saving survey drafts:", error);
+    }
+  }
+
+  private notify() {
+    const drafts = [...this.drafts].sort((a, b) => b.updatedAt - a.updatedAt);
+    this.listeners.forEach((listener) => listener(drafts));
+  }
+}
+
+// Create and export a singleton instance
+const surveyDrafts = new SurveyDraftService();
+export default surveyDrafts;
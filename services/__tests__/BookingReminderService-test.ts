@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { subscribeLogout } from '@/services/auth';
+import { IBooking } from '@/utils/bookingAPI';
+import { BookingStatus } from '@/utils/bookingStatus';
+import bookingReminders from '../BookingReminderService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-notifications', () => ({
+  getPermissionsAsync: jest.fn().mockResolvedValue({ granted: true }),
+  requestPermissionsAsync: jest.fn(),
+  setNotificationChannelAsync: jest.fn(),
+  scheduleNotificationAsync: jest.fn().mockResolvedValue('notification-1'),
+  cancelScheduledNotificationAsync: jest.fn().mockResolvedValue(undefined),
+  AndroidImportance: { HIGH: 4 },
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+jest.mock('@/utils/paymentAPI', () => ({ getFinalPaymentAPI: jest.fn() }));
+jest.mock('@/services/auth', () => ({ subscribeLogout: jest.fn() }));
+
+// Captured when the singleton was created
+const onLogout = (subscribeLogout as jest.Mock).mock.calls[0][0];
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('BookingReminderService', () => {
+  it('cancels scheduled reminders on logout', async () => {
+    const booking = {
+      bookingCode: 'BKG-1',
+      status: BookingStatus.Pending,
+      surveyDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
+    } as unknown as IBooking;
+    await bookingReminders.syncBookings([booking]);
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+
+    await onLogout();
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('notification-1');
+    expect(JSON.parse((await AsyncStorage.getItem('@booking_reminders'))!)).toEqual({});
+  });
+});
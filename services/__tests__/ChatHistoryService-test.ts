@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { subscribeLogout } from '@/services/auth';
+import { getChatHistoryAPI } from '@/utils/chatAPI';
+import chatHistoryStore from '../ChatHistoryService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@/utils/chatAPI', () => ({ getChatHistoryAPI: jest.fn() }));
+jest.mock('@/services/auth', () => ({ getUserIdFromToken: jest.fn().mockResolvedValue(1), subscribeLogout: jest.fn() }));
+jest.mock('../SignalRService', () => ({
+  signalRService: {
+    onMessageReceived: jest.fn(),
+    onMessageSent: jest.fn(),
+    presence: { onReadReceipt: jest.fn() },
+  },
+}));
+
+// Captured when the singleton was created
+const onLogout = (subscribeLogout as jest.Mock).mock.calls[0][0];
+
+const message = (id: number, text: string) => ({
+  id,
+  senderId: 7,
+  senderName: 'Provider',
+  receiverId: 1,
+  receiverName: 'Me',
+  message: text,
+  sentTime: '2026-10-19T08:00:00Z',
+  isRead: false,
+  files: [],
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ChatHistoryService', () => {
+  it('forgets every stored conversation on logout', async () => {
+    (getChatHistoryAPI as jest.Mock).mockResolvedValue([message(1, 'Survey moved to Friday')]);
+    await chatHistoryStore.sync(7);
+    expect(await chatHistoryStore.search('friday')).toHaveLength(1);
+
+    await onLogout();
+
+    expect(await chatHistoryStore.search('friday')).toEqual([]);
+    expect((await chatHistoryStore.getLatestPage(7)).messages).toEqual([]);
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+});
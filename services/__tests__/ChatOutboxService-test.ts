@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUserIdFromToken, subscribeLogout } from '@/services/auth';
+import { signalRService } from '../SignalRService';
+import chatOutbox from '../ChatOutboxService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-file-system', () => ({ readAsStringAsync: jest.fn(), EncodingType: { Base64: 'base64' } }));
+jest.mock('@/services/auth', () => ({ getUserIdFromToken: jest.fn(), subscribeLogout: jest.fn() }));
+jest.mock('../SignalRService', () => ({
+  signalRService: {
+    hub: { subscribeState: jest.fn() },
+    presence: { onReadReceipt: jest.fn() },
+    onMessageSent: jest.fn(),
+    isConnected: jest.fn(),
+    sendMessage: jest.fn(),
+  },
+}));
+
+const OUTBOX_KEY = '@chat_outbox';
+
+const hub = signalRService as unknown as Record<'isConnected' | 'sendMessage', jest.Mock>;
+const currentUser = getUserIdFromToken as jest.Mock;
+
+// Captured when the singleton was created
+const onLogout = (subscribeLogout as jest.Mock).mock.calls[0][0];
+
+const draft = (senderId: number, message: string) => ({ senderId, receiverId: 9, message });
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  hub.isConnected.mockReturnValue(false);
+  hub.sendMessage.mockReset().mockResolvedValue(101);
+  currentUser.mockResolvedValue(1);
+  await chatOutbox.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ChatOutboxService', () => {
+  it('sends the signed-in user\'s messages once connected', async () => {
+    await chatOutbox.enqueue(draft(1, 'See you at 9'));
+    expect(hub.sendMessage).not.toHaveBeenCalled();
+
+    hub.isConnected.mockReturnValue(true);
+    await chatOutbox.flush();
+
+    expect(hub.sendMessage).toHaveBeenCalledWith(9, 'See you at 9', [], expect.any(Function));
+    expect((await chatOutbox.getEntries())[0].status).toBe('sent');
+  });
+
+  it('drops messages another account left behind instead of sending them', async () => {
+    await chatOutbox.enqueue(draft(1, 'From the previous account'));
+    await chatOutbox.flush(); // the offline pass started by enqueue
+
+    currentUser.mockResolvedValue(2);
+    await chatOutbox.enqueue(draft(2, 'Mine'));
+    await chatOutbox.flush();
+    hub.isConnected.mockReturnValue(true);
+    await chatOutbox.flush();
+
+    expect(hub.sendMessage).toHaveBeenCalledTimes(1);
+    expect(hub.sendMessage.mock.calls[0][1]).toBe('Mine');
+    expect((await chatOutbox.getEntries()).map((entry) => entry.senderId)).toEqual([2]);
+  });
+
+  it('sends nothing while signed out', async () => {
+    await chatOutbox.enqueue(draft(1, 'Later'));
+    await chatOutbox.flush();
+
+    currentUser.mockResolvedValue(null);
+    hub.isConnected.mockReturnValue(true);
+    await chatOutbox.flush();
+
+    expect(hub.sendMessage).not.toHaveBeenCalled();
+    expect(await chatOutbox.getEntries()).toHaveLength(1);
+  });
+
+  it('empties the outbox on logout', async () => {
+    await chatOutbox.enqueue(draft(1, 'Unsent'));
+
+    await onLogout();
+
+    expect(await chatOutbox.getEntries()).toEqual([]);
+    expect(JSON.parse((await AsyncStorage.getItem(OUTBOX_KEY))!)).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+import { ChatPresenceService } from '../ChatPresenceService';
+import { HubConnectionManager, IHubTransport } from '../HubConnectionManager';
+import type { ChatHubEvents } from '../SignalRService';
+import { TYPING_IDLE_MS, TYPING_THROTTLE_MS, TYPING_TIMEOUT_MS } from '@/utils/chatPresence';
+
+const ME = 1;
+const PROVIDER = 2;
+
+// In-memory stand-in for chatHub
+class FakeTransport implements IHubTransport {
+  handlers = new Map<string, ((...args: any[]) => void)[]>();
+  invoked: any[][] = [];
+  private closeCallback?: (error?: Error) => void;
+
+  start() {
+    return Promise.resolve();
+  }
+
+  stop() {
+    return Promise.resolve();
+  }
+
+  invoke(method: string, ...args: any[]) {
+    this.invoked.push([method, ...args]);
+    return Promise.resolve(undefined as any);
+  }
+
+  on(event: string, handler: (...args: any[]) => void) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+  }
+
+  onclose(callback: (error?: Error) => void) {
+    this.closeCallback = callback;
+  }
+
+  emit(event: string, ...args: any[]) {
+    this.handlers.get(event)?.forEach((handler) => handler(...args));
+  }
+
+  drop(error = new Error('socket closed')) {
+    this.closeCallback?.(error);
+  }
+}
+
+const setup = async () => {
+  const transport = new FakeTransport();
+  const hub = new HubConnectionManager<ChatHubEvents>({
+    name: 'ChatHub',
+    hubPath: '/chatHub',
+    getBaseUrl: () => 'https://api.test',
+    getAccessToken: () => Promise.resolve('Bearer token-1'),
+    createTransport: () => transport,
+    random: () => 0.5,
+    reconnectOnForeground: false,
+  });
+  const presence = new ChatPresenceService(hub, () => Promise.resolve(ME));
+  const changes = jest.fn();
+  presence.subscribe(changes);
+  await hub.start();
+  return { hub, transport, presence, changes };
+};
+
+// Handlers that look up the current user finish on the next ticks
+const flush = async () => {
+  for (let i = 0; i < 3; i++) await Promise.resolve();
+};
+
+const message = (id: number, senderId = PROVIDER, receiverId = ME) => ({
+  id,
+  senderId,
+  receiverId,
+  message: `Message ${id}`,
+  sentTime: '2026-03-10T03:00:00.000Z',
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('ChatPresenceService', () => {
+  it('follows contacts going online and offline', async () => {
+    const { transport, presence, changes } = await setup();
+
+    transport.emit('UserOnline', PROVIDER);
+    expect(presence.getSnapshot().online[PROVIDER]).toBe(true);
+    transport.emit('UserOffline', PROVIDER);
+    expect(presence.getSnapshot().online[PROVIDER]).toBe(false);
+    expect(changes).toHaveBeenCalledTimes(2);
+  });
+
+  it('takes presence and unread counts from pushed contact lists', async () => {
+    const { transport, presence } = await setup();
+
+    transport.emit('ContactsUpdated', [{ contactId: PROVIDER, contactName: 'Decor Studio', isOnline: true, unreadCount: 2 }]);
+
+    expect(presence.getSnapshot().online[PROVIDER]).toBe(true);
+    expect(presence.getSnapshot().unread[PROVIDER]).toBe(2);
+  });
+
+  it('shows a typing indicator until it times out', async () => {
+    const { transport, presence } = await setup();
+
+    transport.emit('UserTyping', PROVIDER, true);
+    expect(PROVIDER in presence.getSnapshot().typing).toBe(true);
+
+    jest.advanceTimersByTime(TYPING_TIMEOUT_MS);
+    expect(presence.getSnapshot().typing).toEqual({});
+  });
+
+  it('counts unread messages and clears them when read on another device', async () => {
+    const { transport, presence } = await setup();
+
+    transport.emit('ReceiveMessage', message(1));
+    transport.emit('ReceiveMessage', message(2));
+    await flush();
+    expect(presence.getSnapshot().unread[PROVIDER]).toBe(2);
+
+    const receipts = jest.fn();
+    presence.onReadReceipt(receipts);
+    transport.emit('MessagesRead', { readerId: ME, senderId: PROVIDER });
+    await flush();
+
+    expect(presence.getSnapshot().unread[PROVIDER]).toBe(0);
+    expect(receipts).toHaveBeenCalledWith({ readerId: ME, senderId: PROVIDER });
+    expect(transport.invoked).toEqual([]);
+  });
+
+  it('reads the open conversation as messages arrive', async () => {
+    const { transport, presence } = await setup();
+    transport.emit('ContactsUpdated', [{ contactId: PROVIDER, contactName: 'Decor Studio', unreadCount: 3 }]);
+
+    presence.setActiveConversation(PROVIDER);
+    expect(presence.getSnapshot().unread[PROVIDER]).toBe(0);
+    expect(transport.invoked).toEqual([['MarkAsRead', PROVIDER]]);
+
+    transport.emit('ReceiveMessage', message(3));
+    await flush();
+    expect(presence.getSnapshot().unread[PROVIDER]).toBe(0);
+    expect(transport.invoked).toEqual([
+      ['MarkAsRead', PROVIDER],
+      ['MarkAsRead', PROVIDER],
+    ]);
+
+    presence.setActiveConversation(null);
+    transport.emit('ReceiveMessage', message(4));
+    await flush();
+    expect(presence.getSnapshot().unread[PROVIDER]).toBe(1);
+  });
+
+  it('ignores the echo of my own messages', async () => {
+    const { transport, presence } = await setup();
+
+    transport.emit('ReceiveMessage', message(5, ME, PROVIDER));
+    await flush();
+
+    expect(presence.getSnapshot().unread).toEqual({});
+  });
+
+  it('sends typing throttled and stops after a pause', async () => {
+    const { transport, presence } = await setup();
+
+    presence.notifyTyping(PROVIDER);
+    presence.notifyTyping(PROVIDER);
+    expect(transport.invoked).toEqual([['SendTyping', PROVIDER, true]]);
+
+    jest.advanceTimersByTime(TYPING_IDLE_MS - 1);
+    presence.notifyTyping(PROVIDER);
+    jest.advanceTimersByTime(TYPING_THROTTLE_MS - TYPING_IDLE_MS + 1);
+    presence.notifyTyping(PROVIDER);
+    expect(transport.invoked).toEqual([
+      ['SendTyping', PROVIDER, true],
+      ['SendTyping', PROVIDER, true],
+    ]);
+
+    jest.advanceTimersByTime(TYPING_IDLE_MS);
+    expect(transport.invoked[transport.invoked.length - 1]).toEqual(['SendTyping', PROVIDER, false]);
+
+    presence.stopTyping(PROVIDER);
+    expect(transport.invoked).toHaveLength(3);
+  });
+
+  it('forgets presence and typing when the connection drops', async () => {
+    const { transport, presence } = await setup();
+    transport.emit('UserTyping', PROVIDER, true);
+
+    transport.drop();
+
+    expect(presence.getSnapshot().online).toEqual({});
+    expect(presence.getSnapshot().typing).toEqual({});
+  });
+});
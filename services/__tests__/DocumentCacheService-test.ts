@@ -0,0 +1,60 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { subscribeLogout } from '@/services/auth';
+import documentCache from '../DocumentCacheService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  getInfoAsync: jest.fn().mockResolvedValue({ exists: true, md5: 'abc', size: 10 }),
+  makeDirectoryAsync: jest.fn(),
+  downloadAsync: jest.fn().mockResolvedValue({ status: 200 }),
+  moveAsync: jest.fn(),
+  deleteAsync: jest.fn(),
+}));
+jest.mock('@/services/auth', () => ({ subscribeLogout: jest.fn() }));
+
+const fileSystem = FileSystem as unknown as { deleteAsync: jest.Mock };
+
+// Captured when the singleton was created
+const onLogout = (subscribeLogout as jest.Mock).mock.calls[0][0];
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await documentCache.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('DocumentCacheService', () => {
+  it('names attachment files after a hash of their URL', async () => {
+    const url = `https://files.example.com/chat/${'a'.repeat(400)}/quotation.pdf`;
+    const first = await documentCache.saveDocument('attachment', url, url);
+    const other = await documentCache.saveDocument('attachment', `${url}?v=2`, `${url}?v=2`);
+
+    const fileName = first.localUri.split('/').pop()!;
+    expect(fileName).toMatch(/^attachment-[a-z0-9]+-v1\.pdf$/);
+    expect(fileName.length).toBeLessThan(40);
+    expect(other.localUri).not.toBe(first.localUri);
+  });
+
+  it('keeps readable file names for contracts', async () => {
+    const document = await documentCache.saveDocument('contract', 'CTR-1', 'https://files.example.com/CTR-1.pdf');
+    expect(document.localUri).toBe('file:///docs/documents/contract-CTR-1-v1.pdf');
+  });
+
+  it('drops cached documents on logout', async () => {
+    await documentCache.saveDocument('contract', 'CTR-1', 'https://files.example.com/CTR-1.pdf');
+    fileSystem.deleteAsync.mockClear();
+
+    await onLogout();
+
+    expect(fileSystem.deleteAsync).toHaveBeenCalledWith('file:///docs/documents/', { idempotent: true });
+    expect(await documentCache.getDocuments()).toEqual([]);
+    expect(JSON.parse((await AsyncStorage.getItem('@document_cache_index'))!)).toEqual({});
+  });
+});
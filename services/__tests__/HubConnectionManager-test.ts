@@ -0,0 +1,256 @@
+import {
+  computeBackoffDelay,
+  DEFAULT_BACKOFF,
+  HubConnectionManager,
+  HubConnectionStatus,
+  IHubConnectionOptions,
+  IHubTransport,
+} from '../HubConnectionManager';
+
+// In-memory stand-in for a SignalR connection
+class FakeTransport implements IHubTransport {
+  handlers = new Map<string, ((...args: any[]) => void)[]>();
+  invoked: any[][] = [];
+  stopped = false;
+  private closeCallback?: (error?: Error) => void;
+
+  constructor(public url: string, public accessTokenFactory: () => Promise<string>, private fail: boolean) {}
+
+  start() {
+    return this.fail ? Promise.reject(new Error('negotiate failed')) : Promise.resolve();
+  }
+
+  stop() {
+    this.stopped = true;
+    return Promise.resolve();
+  }
+
+  invoke(method: string, ...args: any[]) {
+    this.invoked.push([method, ...args]);
+    return Promise.resolve(`${method}-result` as any);
+  }
+
+  on(event: string, handler: (...args: any[]) => void) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+  }
+
+  onclose(callback: (error?: Error) => void) {
+    this.closeCallback = callback;
+  }
+
+  emit(event: string, ...args: any[]) {
+    this.handlers.get(event)?.forEach((handler) => handler(...args));
+  }
+
+  drop(error = new Error('socket closed')) {
+    this.closeCallback?.(error);
+  }
+}
+
+type TestEvents = {
+  ReceiveMessage: (message: { id: number }) => void;
+  Ping: () => void;
+};
+
+const setup = (overrides: Partial<IHubConnectionOptions> = {}, failures = 0) => {
+  const transports: FakeTransport[] = [];
+  let remainingFailures = failures;
+  const getAccessToken = jest.fn().mockResolvedValue('Bearer token-1');
+  const hub = new HubConnectionManager<TestEvents>({
+    name: 'TestHub',
+    hubPath: '/testHub',
+    getBaseUrl: () => 'https://api.test',
+    getAccessToken,
+    createTransport: (url, accessTokenFactory) => {
+      const transport = new FakeTransport(url, accessTokenFactory, remainingFailures-- > 0);
+      transports.push(transport);
+      return transport;
+    },
+    random: () => 0.5,
+    reconnectOnForeground: false,
+    ...overrides,
+  });
+  const states: HubConnectionStatus[] = [];
+  hub.subscribeState((status) => states.push(status));
+  return { hub, transports, states, getAccessToken };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('computeBackoffDelay', () => {
+  it('doubles up to the cap without jitter at the midpoint', () => {
+    expect([1, 2, 3, 4, 5, 6, 7].map((attempt) => computeBackoffDelay(attempt, DEFAULT_BACKOFF, () => 0.5))).toEqual([
+      1000, 2000, 4000, 8000, 16000, 30000, 30000,
+    ]);
+  });
+
+  it('spreads the delay by the jitter share either way', () => {
+    expect(computeBackoffDelay(2, DEFAULT_BACKOFF, () => 0)).toBe(1400);
+    expect(computeBackoffDelay(2, DEFAULT_BACKOFF, () => 1)).toBe(2600);
+    expect(computeBackoffDelay(10, DEFAULT_BACKOFF, () => 1)).toBe(30000);
+  });
+});
+
+describe('HubConnectionManager', () => {
+  it('connects to the hub url and publishes its state', async () => {
+    const { hub, transports, states } = setup();
+
+    await hub.start();
+
+    expect(transports).toHaveLength(1);
+    expect(transports[0].url).toBe('https://api.test/testHub');
+    expect(hub.isConnected()).toBe(true);
+    expect(states).toEqual(['connecting', 'connected']);
+  });
+
+  it('shares one attempt between concurrent starts', async () => {
+    const { hub, transports } = setup();
+
+    await Promise.all([hub.start(), hub.start()]);
+    await hub.start();
+
+    expect(transports).toHaveLength(1);
+  });
+
+  it('delivers typed events until unsubscribed', async () => {
+    const { hub, transports } = setup();
+    const received: number[] = [];
+    const unsubscribe = hub.on('ReceiveMessage', (message) => received.push(message.id));
+
+    await hub.start();
+    transports[0].emit('ReceiveMessage', { id: 1 });
+    unsubscribe();
+    transports[0].emit('ReceiveMessage', { id: 2 });
+
+    expect(received).toEqual([1]);
+  });
+
+  it('attaches handlers subscribed after connecting', async () => {
+    const { hub, transports } = setup();
+    const ping = jest.fn();
+
+    await hub.start();
+    hub.on('Ping', ping);
+    transports[0].emit('Ping');
+
+    expect(ping).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps one failing handler from breaking the others', async () => {
+    const { hub, transports } = setup();
+    const second = jest.fn();
+    hub.on('Ping', () => {
+      throw new Error('boom');
+    });
+    hub.on('Ping', second);
+
+    await hub.start();
+    transports[0].emit('Ping');
+
+    expect(second).toHaveBeenCalled();
+  });
+
+  it('reconnects with backoff after the connection drops and keeps handlers', async () => {
+    const { hub, transports, states } = setup();
+    const received: number[] = [];
+    hub.on('ReceiveMessage', (message) => received.push(message.id));
+    await hub.start();
+
+    transports[0].drop();
+    expect(hub.getState()).toBe('reconnecting');
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(transports).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(transports).toHaveLength(2);
+    expect(hub.isConnected()).toBe(true);
+    transports[1].emit('ReceiveMessage', { id: 7 });
+    expect(received).toEqual([7]);
+    expect(states).toEqual(['connecting', 'connected', 'reconnecting', 'connected']);
+  });
+
+  it('backs off further on each failed attempt and gives up after the limit', async () => {
+    const { hub, transports } = setup({ maxReconnectAttempts: 3 }, 10);
+
+    await expect(hub.start()).rejects.toThrow('negotiate failed');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(transports).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(transports).toHaveLength(3);
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(transports).toHaveLength(4);
+
+    expect(hub.getState()).toBe('disconnected');
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(transports).toHaveLength(4);
+  });
+
+  it('resets the backoff once connected again', async () => {
+    const { hub, transports } = setup({}, 1);
+
+    await expect(hub.start()).rejects.toThrow();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(hub.isConnected()).toBe(true);
+
+    transports[1].drop();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(transports).toHaveLength(3);
+    expect(hub.isConnected()).toBe(true);
+  });
+
+  it('does not retry while signed out', async () => {
+    const { hub, transports, getAccessToken } = setup();
+    getAccessToken.mockResolvedValue(null);
+
+    await expect(hub.start()).rejects.toThrow('No authentication token available for TestHub');
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(transports).toHaveLength(0);
+    expect(hub.getState()).toBe('disconnected');
+  });
+
+  it('asks for a fresh token on every negotiate', async () => {
+    const { hub, transports, getAccessToken } = setup();
+    await hub.start();
+
+    getAccessToken.mockResolvedValue('Bearer token-2');
+
+    await expect(transports[0].accessTokenFactory()).resolves.toBe('Bearer token-2');
+  });
+
+  it('stays down after stop and refuses invokes', async () => {
+    const { hub, transports } = setup();
+    await hub.start();
+    await expect(hub.invoke('SendMessage', 2, 'hi')).resolves.toBe('SendMessage-result');
+
+    await hub.stop();
+    transports[0].drop();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(transports[0].stopped).toBe(true);
+    expect(transports).toHaveLength(1);
+    expect(hub.getState()).toBe('disconnected');
+    await expect(hub.invoke('SendMessage', 2, 'hi')).rejects.toThrow('TestHub is not connected');
+  });
+
+  it('ignores closes from a connection it already replaced', async () => {
+    const { hub, transports } = setup();
+    await hub.start();
+    transports[0].drop();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    transports[0].drop();
+
+    expect(hub.isConnected()).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { initApiClient } from '@/config/axiosConfig';
+import { subscribeLogout } from '@/services/auth';
+import { IDEMPOTENCY_HEADER, isQueuedMutation, OfflineQueueService, toQueuedMutation } from '../OfflineQueueService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn(), addEventListener: jest.fn() },
+}));
+jest.mock('@/config/axiosConfig', () => ({ initApiClient: jest.fn() }));
+jest.mock('@/services/apiClient', () => ({ connectionStatus: {} }));
+jest.mock('@/services/auth', () => ({ subscribeLogout: jest.fn() }));
+
+const OUTBOX_KEY = '@offline_outbox';
+
+const netInfo = NetInfo as unknown as { fetch: jest.Mock; addEventListener: jest.Mock };
+const client = { request: jest.fn() };
+
+let online = true;
+let netInfoListener: (state: any) => void = () => undefined;
+
+const goOnline = async (queue: OfflineQueueService) => {
+  online = true;
+  netInfoListener({ isConnected: true, isInternetReachable: true });
+  await queue.flush();
+};
+
+const cartUpdate = (quantity: number) => ({
+  method: 'put' as const,
+  url: '/api/Cart/updateQuantity/1',
+  params: { productId: 5, quantity },
+});
+
+const sentKeys = () => client.request.mock.calls.map(([config]) => config.headers[IDEMPOTENCY_HEADER]);
+
+beforeEach(async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  await AsyncStorage.clear();
+  online = true;
+  netInfo.fetch.mockImplementation(() => Promise.resolve({ isConnected: online, isInternetReachable: online }));
+  netInfo.addEventListener.mockImplementation((listener) => {
+    netInfoListener = listener;
+    return () => undefined;
+  });
+  client.request.mockReset().mockResolvedValue({ success: true });
+  (initApiClient as jest.Mock).mockResolvedValue(client);
+  (subscribeLogout as jest.Mock).mockClear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('OfflineQueueService', () => {
+  it('sends right away while online', async () => {
+    const queue = new OfflineQueueService();
+
+    const sent = await queue.sendOrQueue(cartUpdate(2), 'Update quantity');
+
+    expect(sent).toEqual({ queued: false, response: { success: true } });
+    expect(client.request).toHaveBeenCalledWith(expect.objectContaining({ method: 'put', params: { productId: 5, quantity: 2 } }));
+    expect(await queue.getPendingEntries()).toEqual([]);
+  });
+
+  it('queues while offline and replays in order once back online', async () => {
+    online = false;
+    const queue = new OfflineQueueService();
+
+    const first = await queue.sendOrQueue(cartUpdate(2), 'Update quantity to 2');
+    const second = await queue.sendOrQueue(cartUpdate(3), 'Update quantity to 3');
+    expect(first.queued && second.queued).toBe(true);
+    expect(client.request).not.toHaveBeenCalled();
+    expect(JSON.parse((await AsyncStorage.getItem(OUTBOX_KEY))!)).toHaveLength(2);
+
+    await goOnline(queue);
+
+    expect(client.request.mock.calls.map(([config]) => config.params.quantity)).toEqual([2, 3]);
+    expect(await queue.getPendingEntries()).toEqual([]);
+    expect(JSON.parse((await AsyncStorage.getItem(OUTBOX_KEY))!)).toEqual([]);
+  });
+
+  it('replays a request cut off by the connection with the same idempotency key', async () => {
+    const queue = new OfflineQueueService();
+    client.request.mockImplementationOnce(() => {
+      online = false;
+      return Promise.reject(new Error('Network Error'));
+    });
+
+    const sent = await queue.sendOrQueue(cartUpdate(2), 'Update quantity');
+    expect(sent.queued).toBe(true);
+
+    await goOnline(queue);
+
+    const [live, replay] = sentKeys();
+    expect(replay).toBe(live);
+    expect(sent.queued && sent.entry.id).toBe(live);
+  });
+
+  it('rethrows server errors instead of queueing them', async () => {
+    const queue = new OfflineQueueService();
+    client.request.mockRejectedValueOnce({ message: 'Out of stock' });
+
+    await expect(queue.sendOrQueue(cartUpdate(99), 'Update quantity')).rejects.toEqual({ message: 'Out of stock' });
+    expect(await queue.getPendingEntries()).toEqual([]);
+  });
+
+  it('drops a replay the server keeps rejecting after three attempts', async () => {
+    online = false;
+    const queue = new OfflineQueueService();
+    await queue.sendOrQueue(cartUpdate(2), 'Update quantity');
+    client.request.mockRejectedValue({ message: 'Bad request' });
+
+    await goOnline(queue);
+    await queue.flush();
+    expect((await queue.getPendingEntries())[0].attempts).toBe(2);
+
+    await queue.flush();
+    expect(await queue.getPendingEntries()).toEqual([]);
+    expect(client.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits for replay handlers that are not ready', async () => {
+    online = false;
+    const queue = new OfflineQueueService();
+    await queue.enqueue('chat', { text: 'Hi' }, 'Send message');
+    const handler = jest.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    queue.registerReplayHandler('chat', handler);
+    await goOnline(queue);
+    expect(await queue.getPendingEntries()).toHaveLength(1);
+
+    await queue.flush();
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls[0][1]).toBe(handler.mock.calls[1][1]);
+    expect(await queue.getPendingEntries()).toEqual([]);
+  });
+
+  it('replays other mutations while a hub action waits for its hub', async () => {
+    online = false;
+    const queue = new OfflineQueueService();
+    await queue.enqueue('notification:markAsRead', { notificationId: '1' }, 'Mark as read');
+    await queue.enqueue('notification:markAsRead', { notificationId: '2' }, 'Mark as read');
+    await queue.sendOrQueue(cartUpdate(2), 'Update quantity');
+    const markAsRead = jest.fn().mockResolvedValue(false);
+    queue.registerReplayHandler('notification:markAsRead', markAsRead);
+
+    await goOnline(queue);
+
+    expect(client.request).toHaveBeenCalledTimes(1);
+    expect(markAsRead).toHaveBeenCalledTimes(1);
+    expect((await queue.getPendingEntries()).map((entry) => entry.payload.notificationId)).toEqual(['1', '2']);
+  });
+
+  it('restores the stored outbox', async () => {
+    online = false;
+    await new OfflineQueueService().sendOrQueue(cartUpdate(2), 'Update quantity');
+
+    const restarted = new OfflineQueueService();
+    expect(await restarted.getPendingEntries()).toHaveLength(1);
+  });
+
+  it('drops queued mutations on logout', async () => {
+    online = false;
+    const queue = new OfflineQueueService();
+    await queue.sendOrQueue(cartUpdate(2), 'Update quantity');
+
+    const onLogout = (subscribeLogout as jest.Mock).mock.lastCall[0];
+    await onLogout();
+    await goOnline(queue);
+
+    expect(client.request).not.toHaveBeenCalled();
+    expect(JSON.parse((await AsyncStorage.getItem(OUTBOX_KEY))!)).toEqual([]);
+  });
+
+  it('marks queued results for the screens', () => {
+    const marker = toQueuedMutation({ id: 'key-1', action: 'http', payload: {}, label: 'x', createdAt: 0, attempts: 0 });
+    expect(marker).toEqual({ queued: true, mutationId: 'key-1' });
+    expect(isQueuedMutation(marker)).toBe(true);
+    expect(isQueuedMutation({ success: true })).toBe(false);
+  });
+});
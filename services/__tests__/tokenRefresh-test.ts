@@ -0,0 +1,138 @@
+import authService from '../auth';
+import {
+  isTokenRefreshError,
+  retryWithTokenRefresh,
+  shouldRefreshToken,
+  TokenRefreshError,
+  waitForTokenRefresh,
+} from '../tokenRefresh';
+
+// The real auth service needs AsyncStorage and the backend
+jest.mock('../auth', () => ({
+  __esModule: true,
+  default: {
+    refreshAuthToken: jest.fn(),
+    getToken: jest.fn(),
+    handleSessionExpired: jest.fn(),
+  },
+}));
+
+const auth = authService as unknown as Record<'refreshAuthToken' | 'getToken' | 'handleSessionExpired', jest.Mock>;
+
+const request = (url: string, token = 'old-token') =>
+  ({ url, headers: { Authorization: `Bearer ${token}` } }) as any;
+
+// Replays answer with the token they were sent with
+const createClient = () => ({
+  request: jest.fn((config: any) => Promise.resolve({ url: config.url, authorization: config.headers.Authorization })),
+});
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  auth.refreshAuthToken.mockReset();
+  auth.getToken.mockReset().mockResolvedValue('new-token');
+  auth.handleSessionExpired.mockReset().mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('shouldRefreshToken', () => {
+  it('refreshes signed-in requests once', () => {
+    expect(shouldRefreshToken(request('/api/Booking/list'))).toBe(true);
+    expect(shouldRefreshToken({ ...request('/api/Booking/list'), _retry: true })).toBe(false);
+  });
+
+  it('leaves auth endpoints and guest requests alone', () => {
+    expect(shouldRefreshToken(request('/api/Auth/login'))).toBe(false);
+    expect(shouldRefreshToken({ url: '/api/Product/list', headers: {} } as any)).toBe(false);
+    expect(shouldRefreshToken(undefined)).toBe(false);
+  });
+});
+
+describe('retryWithTokenRefresh', () => {
+  it('shares one refresh between concurrent 401s and replays each request', async () => {
+    const refresh = deferred<boolean>();
+    auth.refreshAuthToken.mockReturnValue(refresh.promise);
+    const client = createClient();
+
+    const first = retryWithTokenRefresh(client as any, request('/api/Cart/get'));
+    const second = retryWithTokenRefresh(client as any, request('/api/Favorite/list'));
+    const waiting = waitForTokenRefresh();
+    refresh.resolve(true);
+
+    await expect(Promise.all([first, second, waiting])).resolves.toEqual([
+      { url: '/api/Cart/get', authorization: 'Bearer new-token' },
+      { url: '/api/Favorite/list', authorization: 'Bearer new-token' },
+      undefined,
+    ]);
+    expect(auth.refreshAuthToken).toHaveBeenCalledTimes(1);
+    expect(client.request).toHaveBeenCalledTimes(2);
+    expect(client.request.mock.calls[0][0]._retry).toBe(true);
+    expect(auth.handleSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('rejects every queued request when the refresh fails', async () => {
+    const refresh = deferred<boolean>();
+    auth.refreshAuthToken.mockReturnValue(refresh.promise);
+    const client = createClient();
+
+    const requests = [
+      retryWithTokenRefresh(client as any, request('/api/Cart/get')),
+      retryWithTokenRefresh(client as any, request('/api/Favorite/list')),
+      retryWithTokenRefresh(client as any, request('/api/Wallet/get')),
+    ];
+    refresh.resolve(false);
+    const results = await Promise.allSettled(requests);
+
+    expect(results.every((result) => result.status === 'rejected' && isTokenRefreshError(result.reason))).toBe(true);
+    expect(client.request).not.toHaveBeenCalled();
+    expect(auth.handleSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a throwing refresh as a TokenRefreshError', async () => {
+    auth.refreshAuthToken.mockRejectedValue(new Error('Network Error'));
+
+    await expect(retryWithTokenRefresh(createClient() as any, request('/api/Cart/get'))).rejects.toBeInstanceOf(
+      TokenRefreshError
+    );
+    expect(auth.handleSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a new refresh after the previous one finished', async () => {
+    auth.refreshAuthToken.mockResolvedValue(true);
+    const client = createClient();
+
+    await retryWithTokenRefresh(client as any, request('/api/Cart/get'));
+    await retryWithTokenRefresh(client as any, request('/api/Cart/get'));
+
+    expect(auth.refreshAuthToken).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('waitForTokenRefresh', () => {
+  it('returns right away when no refresh is running', async () => {
+    await expect(waitForTokenRefresh()).resolves.toBeUndefined();
+  });
+
+  it('lets held requests go out even when the refresh fails', async () => {
+    const refresh = deferred<boolean>();
+    auth.refreshAuthToken.mockReturnValue(refresh.promise);
+
+    const failed = retryWithTokenRefresh(createClient() as any, request('/api/Cart/get')).catch((error) => error);
+    const waiting = waitForTokenRefresh();
+    refresh.resolve(false);
+
+    await expect(waiting).resolves.toBeUndefined();
+    expect(isTokenRefreshError(await failed)).toBe(true);
+  });
+});
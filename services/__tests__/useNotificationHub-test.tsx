@@ -0,0 +1,86 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+import { notificationService, Notification } from '@/services/NotificationHubService';
+import notificationPreferences from '@/services/NotificationPreferencesService';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/utils/notificationPreferences';
+import { useNotification } from '../useNotificationHub';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// No hub in tests; the hook only needs to register its handlers
+jest.mock('@/services/NotificationHubService', () => ({
+  notificationService: {
+    isConnected: jest.fn(() => false),
+    onNotificationReceived: jest.fn(() => () => undefined),
+    onNotificationRead: jest.fn(() => () => undefined),
+    onNotificationsUpdated: jest.fn(() => () => undefined),
+    hub: { subscribeState: jest.fn(() => () => undefined) },
+  },
+}));
+
+const hub = notificationService as unknown as { onNotificationReceived: jest.Mock };
+
+const incoming = (type: Notification['type']): Notification => ({
+  id: `${type}-1`,
+  title: `${type} update`,
+  content: 'Your booking was confirmed',
+  createdAt: '2026-10-19T08:00:00Z',
+  isRead: false,
+  type,
+});
+
+const Listener = ({ onNotificationReceived }: { onNotificationReceived: (notification: Notification) => void }) => {
+  useNotification({ onNotificationReceived });
+  return null;
+};
+
+// Mount the hook and push a notification through its hub handler
+const receive = async (notification: Notification) => {
+  const onNotificationReceived = jest.fn();
+  let tree: renderer.ReactTestRenderer;
+  await act(async () => {
+    tree = renderer.create(<Listener onNotificationReceived={onNotificationReceived} />);
+  });
+  const [handler] = hub.onNotificationReceived.mock.lastCall;
+  await act(async () => {
+    handler(notification);
+  });
+  act(() => tree.unmount());
+  return onNotificationReceived;
+};
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  await notificationPreferences.updatePreferences({
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    types: { ...DEFAULT_NOTIFICATION_PREFERENCES.types, GENERAL: 'muted' },
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('useNotification alerts', () => {
+  it('passes incoming notifications on to the in-app alert', async () => {
+    const notification = incoming('BOOKING');
+    expect(await receive(notification)).toHaveBeenCalledWith(notification);
+  });
+
+  it('stays quiet for muted types', async () => {
+    expect(await receive(incoming('GENERAL'))).not.toHaveBeenCalled();
+  });
+
+  it('stays quiet during quiet hours for types that respect them', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 23, 30) });
+    await notificationPreferences.updatePreferences({
+      types: { ...DEFAULT_NOTIFICATION_PREFERENCES.types, ORDER: 'quietHours' },
+      quietHours: { enabled: true, start: '22:00', end: '07:00' },
+    });
+
+    expect(await receive(incoming('ORDER'))).not.toHaveBeenCalled();
+    expect(await receive(incoming('CONTRACT'))).toHaveBeenCalledTimes(1);
+  });
+});
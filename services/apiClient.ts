@@ -1,7 +1,8 @@
 // src/services/apiClient.ts
 import axios, { AxiosInstance, AxiosError } from "axios";
-import { BASE_URL } from "../config/apiConfig";
+import { getBaseUrl, subscribeApiProfile } from "../config/apiConfig";
 import { getToken } from "@/services/auth"; // Token handling
+import { isTokenRefreshError, retryWithTokenRefresh, shouldRefreshToken, waitForTokenRefresh } from "@/services/tokenRefresh";
 import { Platform } from "react-native";
 
 let apiClient: AxiosInstance | null = null;
@@ -10,9 +11,17 @@ let apiClient: AxiosInstance | null = null;
 export const connectionStatus = {
   isConnected: false,
   lastError: null as string | null,
-  baseUrl: BASE_URL,
+  baseUrl: getBaseUrl(),
 };
 
+// Keep the client on the active environment profile
+subscribeApiProfile((profile) => {
+  connectionStatus.baseUrl = profile.baseUrl;
+  if (apiClient) {
+    apiClient.defaults.baseURL = profile.baseUrl;
+  }
+});
+
 // Initialize Axios client
 export const initApiClient = async (force = false): Promise<AxiosInstance> => {
   if (apiClient && !force) return apiClient;
@@ -20,8 +29,8 @@ export const initApiClient = async (force = false): Promise<AxiosInstance> => {
   try {
     console.log("Initializing API client...");
     
-    // Use the BASE_URL from config
-    const baseURL = BASE_URL;
+    // Use the active environment profile from config
+    const baseURL = getBaseUrl();
     connectionStatus.baseUrl = baseURL;
     
     // Create new client
@@ -40,6 +49,8 @@ export const initApiClient = async (force = false): Promise<AxiosInstance> => {
     apiClient.interceptors.request.use(
       async (config) => {
         try {
+          // Hold the request while an expired token is being refreshed
+          await waitForTokenRefresh();
           const token = await getToken();
           if (token) {
             config.headers["Authorization"] = `Bearer ${token}`;
@@ -74,8 +85,15 @@ export const initApiClient = async (force = false): Promise<AxiosInstance> => {
         const { status, data } = error.response;
         console.error(`❌ API Error [${status}]:`, data);
         
-        if (status === 401) {
-          console.warn("⚠️ Token expired, logging out...");
+        if (status === 401 && shouldRefreshToken(error.config)) {
+          console.warn("⚠️ Token expired, refreshing...");
+          try {
+            return await retryWithTokenRefresh(apiClient!, error.config);
+          } catch (retryError) {
+            if (!isTokenRefreshError(retryError)) {
+              return Promise.reject(retryError);
+            }
+          }
         }
         
         return Promise.reject(data);
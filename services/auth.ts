@@ -3,9 +3,14 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Alert } from "react-native";
 import { router } from "expo-router";
 import { jwtDecode } from "jwt-decode";
+import axios from "axios";
+import { getBaseUrl } from "@/config/apiConfig";
+import { normalizeApiResponse } from "@/utils/apiResult";
 
 // Storage key constants
 const APP_TOKEN_KEY = "@app_token";
+const APP_REFRESH_TOKEN_KEY = "@app_refresh_token";
+const REFRESH_TOKEN_URL = "/api/Auth/refresh-token";
 
 // Cached token to prevent multiple AsyncStorage reads
 let cachedToken: string | null = null;
@@ -24,6 +29,9 @@ let debugLogging = false; // Set to false in production
 // Promise cache to avoid duplicate requests in flight
 const pendingPromises: Record<string, Promise<any>> = {};
 
+// Per-account data to drop whenever the token is removed (logout or expired session)
+const logoutListeners = new Set<() => Promise<void> | void>();
+
 // Helper function for controlled logging
 const logDebug = (message: string, ...args: any[]) => {
   if (debugLogging) {
@@ -113,18 +121,23 @@ class AuthService {
 
   /**
    * Set authentication token
-   * - Stores in AsyncStorage
+   * - Stores in AsyncStorage (plus the refresh token when the backend issues one)
    * - Updates in-memory cache
    */
-  async setToken(token: string): Promise<boolean> {
+  async setToken(token: string, refreshToken?: string | null): Promise<boolean> {
     try {
       logDebug("🟡 Setting token");
       
       // Store token in AsyncStorage
       await AsyncStorage.setItem(APP_TOKEN_KEY, token);
+      if (refreshToken) {
+        await AsyncStorage.setItem(APP_REFRESH_TOKEN_KEY, refreshToken);
+      }
       
       // Update cache immediately without verification to reduce calls
       cachedToken = token;
+      // A new token invalidates whatever was decoded from the previous one
+      decodedTokenData = null;
       // Decode and cache the token data
       this.decodeToken(token);
       cachedAuthState.isAuthenticated = true; // Update auth state
@@ -143,7 +156,7 @@ class AuthService {
    */
   async removeToken(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(APP_TOKEN_KEY);
+      await AsyncStorage.multiRemove([APP_TOKEN_KEY, APP_REFRESH_TOKEN_KEY]);
       
       // Clear all caches
       this.clearCache();
@@ -153,6 +166,22 @@ class AuthService {
     } catch (error) {
       console.error("🔴 Error removing token:", error);
     }
+    await this.notifyLogout();
+  }
+
+  /**
+   * Let every store drop what belonged to the signed-out account
+   * @private
+   */
+  private async notifyLogout(): Promise<void> {
+    const results = await Promise.allSettled(
+      Array.from(logoutListeners, (listener) => Promise.resolve().then(listener))
+    );
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        console.error("🔴 Error clearing account data on logout:", result.reason);
+      }
+    });
   }
 
   /**
@@ -295,13 +324,36 @@ class AuthService {
    * - Shows alert
    * - Redirects to login
    */
+  async handleSessionExpired(): Promise<void> {
+    // Several requests can fail at once; only the first one logs the user out
+    if ('handleSessionExpired' in pendingPromises) {
+      logDebug("🔄 Session expiry already being handled");
+      return pendingPromises['handleSessionExpired'];
+    }
 
+    try {
+      pendingPromises['handleSessionExpired'] = this._handleSessionExpiredInternal();
+      await pendingPromises['handleSessionExpired'];
+    } finally {
+      delete pendingPromises['handleSessionExpired'];
+    }
+  }
 
   /**
    * Internal method for handling expired sessions
    * @private
    */
-  
+  private async _handleSessionExpiredInternal(): Promise<void> {
+    try {
+      await this.removeToken();
+      Alert.alert("Session Expired", "Your session has expired. Please log in again.");
+    } catch (error) {
+      console.error("🔴 Error handling expired session:", error);
+    } finally {
+      this.redirectToLogin();
+    }
+  }
+
   /**
    * Redirect to login screen
    * @private
@@ -418,15 +470,24 @@ class AuthService {
       const currentToken = await this.getToken();
       if (!currentToken) return false;
       
-      // TODO: Add your API call for token refresh
-      // const response = await apiClient.post('/api/auth/refresh', { token: currentToken });
-      // if (response.success && response.token) {
-      //   await this.setToken(response.token);
-      //   return true;
-      // }
+      const refreshToken = await AsyncStorage.getItem(APP_REFRESH_TOKEN_KEY);
       
-      logDebug("🔄 Token refresh functionality not implemented yet");
-      return false;
+      // Plain axios on purpose: the shared clients would route a 401 here back into the refresh flow
+      const response = await axios.post(
+        `${getBaseUrl()}${REFRESH_TOKEN_URL}`,
+        { token: currentToken, refreshToken },
+        { headers: { "Content-Type": "application/json", Accept: "application/json" }, timeout: 15000 }
+      );
+      
+      const result = normalizeApiResponse<{ token?: string; refreshToken?: string }>(response);
+      if (!result.success || !result.data?.token) {
+        logDebug("🔴 Token refresh rejected by server");
+        return false;
+      }
+      
+      await this.setToken(result.data.token, result.data.refreshToken);
+      logDebug("🟢 Token refreshed");
+      return true;
     } catch (error) {
       console.error("🔴 Error refreshing token:", error);
       return false;
@@ -634,19 +695,34 @@ export default authService;
 
 // Export individual methods for backward compatibility
 export const getToken = () => authService.getToken();
-export const setToken = (token: string) => authService.setToken(token);
+export const setToken = (token: string, refreshToken?: string | null) => authService.setToken(token, refreshToken);
 export const removeToken = () => authService.removeToken();
 export const getUserIdFromToken = () => authService.getUserId();
 export const checkAuthStatus = () => authService.checkAuthStatus();
 export const refreshAuthToken = () => authService.refreshAuthToken();
+export const handleSessionExpired = () => authService.handleSessionExpired();
 export const checkIsAuthenticated = () => authService.isUserAuthenticated();
 
+/**
+ * Clear per-account data whenever the token is removed, on logout or when the
+ * session expires. Returns the unsubscribe function.
+ */
+export const subscribeLogout = (listener: () => Promise<void> | void): (() => void) => {
+  logoutListeners.add(listener);
+  return () => {
+    logoutListeners.delete(listener);
+  };
+};
+
 // Helper to toggle debug logging
 export const setAuthDebugLogging = (enabled: boolean) => authService.setDebugLogging(enabled);
 
 // New exports for SignalR support
 export const getFormattedToken = () => authService.getFormattedToken();
 export const verifyTokenForSignalR = () => authService.verifyTokenForSignalR();
+// Token for a hub connection, refreshed first when it has expired; null when signed out
+export const acquireSignalRToken = async (): Promise<string | null> =>
+  (await authService.verifyTokenForSignalR()) ? authService.getFormattedToken() : null;
 export const getUserIdForSignalR = () => authService.getUserIdForSignalR();
 export const isTokenExpired = () => authService.isTokenExpired();
 export const getTokenExpiryTime = () => authService.getTokenExpiryTime();
@@ -0,0 +1,104 @@
+// services/tokenRefresh.ts
+// Shared 401 handling for the axios clients (config/axiosConfig.ts and services/apiClient.ts).
+// The first 401 triggers a single token refresh; every request that fails or is sent
+// while the refresh is running waits for it and is then replayed with the new token.
+import { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import authService from "@/services/auth";
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+interface QueuedRequest {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Auth endpoints answer 401 for bad credentials, not for an expired session
+const AUTH_URL_PATTERN = /\/api\/auth\//i;
+
+let isRefreshing = false;
+let refreshQueue: QueuedRequest[] = [];
+
+/**
+ * Thrown when the refresh itself fails, so interceptors can tell it apart
+ * from an error raised by the replayed request
+ */
+export class TokenRefreshError extends Error {
+  constructor(message = "Your session has expired. Please log in again.") {
+    super(message);
+    this.name = "TokenRefreshError";
+  }
+}
+
+export const isTokenRefreshError = (error: unknown): error is TokenRefreshError =>
+  error instanceof TokenRefreshError;
+
+const flushQueue = (error: unknown, token: string | null) => {
+  const queued = refreshQueue;
+  refreshQueue = [];
+  queued.forEach(({ resolve, reject }) => (error || !token ? reject(error) : resolve(token)));
+};
+
+const enqueue = (): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    refreshQueue.push({ resolve, reject });
+  });
+
+const refreshToken = async (): Promise<string> => {
+  isRefreshing = true;
+  try {
+    const refreshed = await authService.refreshAuthToken();
+    const token = refreshed ? await authService.getToken() : null;
+    if (!token) {
+      throw new TokenRefreshError();
+    }
+    console.log("🔄 Token refreshed, replaying queued requests:", refreshQueue.length);
+    flushQueue(null, token);
+    return token;
+  } catch (error) {
+    const refreshError = isTokenRefreshError(error) ? error : new TokenRefreshError();
+    flushQueue(refreshError, null);
+    // Only log out once the refresh has really failed
+    await authService.handleSessionExpired();
+    throw refreshError;
+  } finally {
+    isRefreshing = false;
+  }
+};
+
+/**
+ * Used by request interceptors: hold outgoing requests while a refresh is
+ * in flight so they go out with the new token instead of failing with 401
+ */
+export const waitForTokenRefresh = async (): Promise<void> => {
+  if (!isRefreshing) return;
+  try {
+    await enqueue();
+  } catch {
+    // The request goes out anyway and the response interceptor reports the failure
+  }
+};
+
+/**
+ * Whether a failed request should go through the refresh flow
+ */
+export const shouldRefreshToken = (config?: RetriableRequestConfig): config is RetriableRequestConfig => {
+  if (!config || config._retry) return false;
+  if (config.url && AUTH_URL_PATTERN.test(config.url)) return false;
+  // Guest requests have no session to refresh
+  return !!config.headers?.Authorization;
+};
+
+/**
+ * Refresh the token (or wait for the refresh already running) and replay
+ * the request once. Rejects with TokenRefreshError if the refresh fails.
+ */
+export const retryWithTokenRefresh = async <T = any>(
+  client: AxiosInstance,
+  config: RetriableRequestConfig
+): Promise<T> => {
+  const token = isRefreshing ? await enqueue() : await refreshToken();
+
+  config._retry = true;
+  config.headers["Authorization"] = `Bearer ${token}`;
+  return client.request(config);
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 import { notificationService, Notification } from './NotificationHubService';
+import notificationPreferences from './NotificationPreferencesService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Key for storing current user ID in AsyncStorage
@@ -97,7 +98,7 @@ export function useNotification({
       
       // Implementation depends on your API
       // This is just a placeholder - replace with your actual API call
-      const response = await fetch(`${BASE_URL}/api/notifications`, {
+      const response = await fetch(`${getBaseUrl()}/api/notifications`, {
         headers: {
           'Authorization': await getFormattedToken() || '',
           'Content-Type': 'application/json'
@@ -220,9 +221,13 @@ export function useNotification({
       // Update unread count
       setUnreadCount(prev => prev + 1);
       
-      // Call user's callback if provided
+      // Call user's callback (in-app alert) unless the type is muted or in quiet hours
       if (onNotificationReceived) {
-        onNotificationReceived(notification);
+        notificationPreferences.shouldAlert(notification.type).then(shouldAlert => {
+          if (shouldAlert) {
+            onNotificationReceived(notification);
+          }
+        });
       }
     };
     
@@ -268,9 +273,11 @@ export function useNotification({
     };
     
     // Register handlers
-    notificationService.onNotificationReceived(handleNotificationReceived);
-    notificationService.onNotificationRead(handleNotificationRead);
-    notificationService.onNotificationsUpdated(handleNotificationsUpdated);
+    const unsubscribers = [
+      notificationService.onNotificationReceived(handleNotificationReceived),
+      notificationService.onNotificationRead(handleNotificationRead),
+      notificationService.onNotificationsUpdated(handleNotificationsUpdated),
+    ];
     
     // Connect to NotificationHub if userId is provided
     if (userId) {
@@ -281,31 +288,19 @@ export function useNotification({
     
     // Cleanup
     return () => {
-      notificationService.offNotificationReceived(handleNotificationReceived);
-      notificationService.offNotificationRead(handleNotificationRead);
-      notificationService.offNotificationsUpdated(handleNotificationsUpdated);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
       
       // Don't disconnect here as other components might still be using the connection
     };
   }, [connect, userId, onNotificationReceived, onNotificationRead, onNotificationsUpdated, notifications]);
   
-  // Check connection status periodically
-// Cập nhật trạng thái kết nối
-useEffect(() => {
-  const checkConnection = () => {
-    const connected = notificationService.isConnected();
-    setIsConnected(connected === true);  };
-  
-  // Kiểm tra kết nối ban đầu
-  checkConnection();
-  
-  // Kiểm tra kết nối mỗi 5 giây
-  const interval = setInterval(checkConnection, 5000);
-  
-  return () => {
-    clearInterval(interval);
-  };
-}, []);
+  // Cập nhật trạng thái kết nối theo hub
+  useEffect(() => {
+    setIsConnected(notificationService.isConnected());
+    return notificationService.hub.subscribeState(status => {
+      setIsConnected(status === 'connected');
+    });
+  }, []);
   
   return {
     notifications,
@@ -323,5 +318,5 @@ useEffect(() => {
 
 // Import needed for fetchNotifications
 // Add these at the top of the file
-import { BASE_URL } from '@/config/apiConfig';
+import { getBaseUrl } from '@/config/apiConfig';
 import { getFormattedToken } from './auth';
\ No newline at end of file
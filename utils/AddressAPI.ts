@@ -1,5 +1,12 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken } from "@/services/auth";
+import {
+  ApiResult,
+  getApiErrorMessage,
+  normalizeApiResponse,
+  toApiErrorResult,
+  unwrapApiResult,
+} from "./apiResult";
 // import { LogBox } from "react-native";
 
 // Ignore specific warnings related to Axios error codes
@@ -18,37 +25,6 @@ export interface IAddress {
   detail: string;
 }
 
-export interface IApiResponse<T = any> {
-  success: boolean;
-  errors?: string[];
-  data?: T;
-  message?: string;
-}
-
-// Improved helper function for API calls
-const handleApiRequest = async <T>(request: Promise<any>): Promise<T> => {
-  try {
-    const response = await request;
-    const responseData = response.data;
-
-    // Check if the response has the expected structure
-    if (responseData && typeof responseData.success === 'boolean') {
-      if (responseData.success && responseData.data) {
-        return responseData.data;
-      } else {
-        const errorMessage = responseData.errors?.join(", ") || responseData.message || "An unknown error occurred.";
-        throw new Error(errorMessage);
-      }
-    } else {
-      // For responses without the standard structure, return the raw data
-      return response.data;
-    }
-  } catch (error: any) {
-    console.error("API Request Error:", error);
-    throw new Error(error?.message || "An error occurred during the request.");
-  }
-};
-
 // GET /api/Address: Retrieve all addresses
 export const getAddressesAPI = async (): Promise<IAddress[]> => {   
   try {     
@@ -62,15 +38,14 @@ export const getAddressesAPI = async (): Promise<IAddress[]> => {
       }     
     });
           
-    // Trả về trực tiếp response.data thay vì response.data.data
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse<IAddress[]>(response)) || [];
   } catch (error) {     
     console.error("Error fetching addresses:", error);     
     return [];   
   } 
 };
 
-export const createAddressAPI = async (address: any): Promise<IApiResponse> => {
+export const createAddressAPI = async (address: any): Promise<ApiResult<IAddress>> => {
   try {
     const token = await getToken();
     if (!token) throw new Error("No token found!");
@@ -84,17 +59,10 @@ export const createAddressAPI = async (address: any): Promise<IApiResponse> => {
       },
     });
     
-    console.log("Raw API response:", response.data);
-    
-    // Simply return the response data without modifying it
-    return response.data;
+    return normalizeApiResponse<IAddress>(response, "Address created successfully");
   } catch (error: any) {
     console.error("Error in createAddressAPI:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to create address",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to create address");
   }
 };
 // PUT /api/Address/{id}: Update an address by ID
@@ -110,27 +78,9 @@ export const updateAddressAPI = async (id: string, address: IAddress): Promise<I
       }
     });
     
-    console.log('Full Update Response:', JSON.stringify(response.data, null, 2));
-    
-    // Check for success in response
-    if (response.data && response.data.success) {
-      return response.data.data || address;
-    } else {
-      // Log specific error message if available
-      const errorMessage = response.data?.message || 
-                           response.data?.errors?.join(', ') || 
-                           "Unknown error occurred";
-      throw new Error(errorMessage);
-    }
+    return unwrapApiResult(normalizeApiResponse<IAddress>(response)) || address;
   } catch (error: any) {
-
-    
-    // Throw a more informative error
-    throw new Error(
-      error.response?.data?.message || 
-      error.message || 
-      "Failed to update address"
-    );
+    throw new Error(getApiErrorMessage(error, "Failed to update address"));
   }
 };
 
@@ -147,7 +97,7 @@ export const deleteAddressAPI = async (id: string): Promise<boolean> => {
       }
     });
     
-    return response.data?.success === true;
+    return normalizeApiResponse(response).success;
   } catch (error: any) {
     console.error("Error deleting address:", error);
     throw new Error("Failed to delete address");
@@ -165,9 +115,7 @@ export const setDefaultAddressAPI = async (id: string): Promise<IAddress> => {
       }
     });
     
-    // Directly return the response data since it's already the address object
-    console.log('Set Default Address Response:', response.data);
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse<IAddress>(response));
   } catch (error: any) {
     console.error("Error setting default address:", error);
     throw new Error("Failed to set default address");
@@ -0,0 +1,129 @@
+import {
+  flattenApiErrors,
+  getApiErrorMessage,
+  normalizeApiResponse,
+  slicePage,
+  toApiErrorResult,
+  toPaginatedResult,
+  unwrapApiResult,
+} from '../apiResult';
+
+describe('flattenApiErrors', () => {
+  it('reads strings, string arrays and error objects', () => {
+    expect(flattenApiErrors('Not found')).toEqual(['Not found']);
+    expect(flattenApiErrors(['A', { message: 'B' }, { description: 'C' }, { code: 1 }, ''])).toEqual(['A', 'B', 'C']);
+  });
+
+  it('flattens ASP.NET validation errors', () => {
+    expect(flattenApiErrors({ Email: ['Email is required'], Phone: ['Too short', 'Digits only'] })).toEqual([
+      'Email is required',
+      'Too short',
+      'Digits only',
+    ]);
+  });
+
+  it('returns nothing for empty or unknown values', () => {
+    expect(flattenApiErrors(undefined)).toEqual([]);
+    expect(flattenApiErrors(null)).toEqual([]);
+    expect(flattenApiErrors(42)).toEqual([]);
+  });
+});
+
+describe('normalizeApiResponse', () => {
+  it('reads the success envelope', () => {
+    expect(normalizeApiResponse({ success: true, message: 'OK', errors: [], data: { id: 1 } })).toEqual({
+      success: true,
+      data: { id: 1 },
+      message: 'OK',
+      errors: [],
+      fieldErrors: undefined,
+    });
+  });
+
+  it('reports failed envelopes with their errors', () => {
+    const result = normalizeApiResponse({ success: false, errors: { Email: ['Email is taken'] } });
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Email is taken');
+    expect(result.fieldErrors).toEqual({ Email: ['Email is taken'] });
+  });
+
+  it('keeps extra envelope fields when there is no data', () => {
+    const result = normalizeApiResponse({ success: true, message: 'Logged in', token: 'abc', role: 2 });
+    expect(result.data).toEqual({ token: 'abc', role: 2 });
+  });
+
+  it('accepts bare arrays, bare objects and empty bodies', () => {
+    expect(normalizeApiResponse([1, 2])).toMatchObject({ success: true, data: [1, 2] });
+    expect(normalizeApiResponse({ id: 3 })).toMatchObject({ success: true, data: { id: 3 } });
+    expect(normalizeApiResponse('', 'Deleted')).toEqual({ success: true, data: undefined, message: 'Deleted', errors: [] });
+  });
+
+  it('unwraps a full axios response', () => {
+    const response = { data: { success: true, data: [1] }, status: 200, headers: {}, config: {} };
+    expect(normalizeApiResponse(response).data).toEqual([1]);
+  });
+
+  it('reads paged lists in either shape', () => {
+    const nested = normalizeApiResponse({
+      success: true,
+      data: { data: [1, 2], totalCount: 12, pageIndex: '2', pageSize: 2 },
+    });
+    expect(nested.data).toEqual([1, 2]);
+    expect(nested.pagination).toEqual({ totalCount: 12, pageIndex: 2, pageSize: 2, totalPages: 6 });
+
+    const items = normalizeApiResponse({ items: ['a'], totalCount: 1, pageNumber: 1, pageSize: 10 });
+    expect(items.data).toEqual(['a']);
+    expect(items.pagination).toEqual({ totalCount: 1, pageIndex: 1, pageSize: 10, totalPages: 1 });
+  });
+
+  it('leaves pagination out of plain envelope lists', () => {
+    expect(normalizeApiResponse({ success: true, data: [1, 2] }).pagination).toBeUndefined();
+  });
+});
+
+describe('errors', () => {
+  it('reads the message of bodies, axios errors and plain errors', () => {
+    expect(getApiErrorMessage({ message: 'Body message' }, 'Fallback')).toBe('Body message');
+    expect(getApiErrorMessage({ response: { data: { errors: ['From server'] } } }, 'Fallback')).toBe('From server');
+    expect(getApiErrorMessage(new Error('Network Error'), 'Fallback')).toBe('Network Error');
+    expect(getApiErrorMessage(undefined, 'Fallback')).toBe('Fallback');
+  });
+
+  it('turns a rejection into a failed result', () => {
+    expect(toApiErrorResult({ title: 'Validation failed', errors: { Name: ['Required'] } }, 'Fallback')).toEqual({
+      success: false,
+      data: undefined,
+      message: 'Required',
+      errors: ['Required'],
+      fieldErrors: { Name: ['Required'] },
+    });
+  });
+
+  it('throws the message of a failed result', () => {
+    expect(unwrapApiResult({ success: true, data: 5, message: '', errors: [] })).toBe(5);
+    expect(() => unwrapApiResult({ success: false, message: 'Nope', errors: [] })).toThrow('Nope');
+  });
+});
+
+describe('paging', () => {
+  it('fills in pagination for unpaged list results', () => {
+    const result = toPaginatedResult({ success: true, data: [1, 2, 3], message: '', errors: [] }, 1, 2);
+    expect(result.pagination).toEqual({ totalCount: 3, pageIndex: 1, pageSize: 2, totalPages: 2 });
+    expect(toPaginatedResult({ success: false, message: 'Failed', errors: [] }).data).toEqual([]);
+  });
+
+  it('keeps pagination from the server', () => {
+    const pagination = { totalCount: 40, pageIndex: 3, pageSize: 10, totalPages: 4 };
+    expect(toPaginatedResult({ success: true, data: [1], message: '', errors: [], pagination }).pagination).toBe(pagination);
+  });
+
+  it('slices one page out of a full list', () => {
+    const items = Array.from({ length: 25 }, (_, index) => index + 1);
+    expect(slicePage(items, 3, 10)).toMatchObject({
+      success: true,
+      data: [21, 22, 23, 24, 25],
+      pagination: { totalCount: 25, pageIndex: 3, pageSize: 10, totalPages: 3 },
+    });
+    expect(slicePage(items, 4, 10).data).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  buildBookingCalendarEvents,
+  escapeICalText,
+  foldICalLine,
+  isActiveCalendarBooking,
+  parseCalendarDate,
+  toICalendar,
+} from '../bookingCalendar';
+import { BookingStatus } from '../bookingStatus';
+
+const booking = (overrides: Record<string, any> = {}) => ({
+  bookingCode: 'BKG-0001',
+  status: BookingStatus.Planning,
+  address: '12 Lê Lợi, Quận 1, TP.HCM',
+  decorService: { style: 'Tết Mai Vàng' },
+  provider: { businessName: 'Decor House', phone: '0901234567' },
+  ...overrides,
+});
+
+describe('parseCalendarDate', () => {
+  it.each([
+    ['2026-03-14', true],
+    ['2026-03-14T00:00:00', true],
+    ['2026-03-14T00:00:00Z', true],
+    ['2026-03-14T09:30:00', false],
+  ])('reads %s', (value, allDay) => {
+    const parsed = parseCalendarDate(value)!;
+    expect(parsed.allDay).toBe(allDay);
+    expect(parsed.date.getDate()).toBe(14);
+  });
+
+  it('ignores missing and invalid dates', () => {
+    expect(parseCalendarDate(undefined)).toBeNull();
+    expect(parseCalendarDate('soon')).toBeNull();
+  });
+});
+
+describe('buildBookingCalendarEvents', () => {
+  it('blocks an hour for a survey with a time slot', () => {
+    const [survey] = buildBookingCalendarEvents(
+      booking({ surveyDate: '2026-03-20', timeSlots: [{ surveyDate: '2026-03-14T09:30:00' }] })
+    );
+    expect(survey.kind).toBe('survey');
+    expect(survey.allDay).toBe(false);
+    expect(survey.end.getTime() - survey.start.getTime()).toBe(60 * 60 * 1000);
+    expect(survey.uid).toBe('BKG-0001-survey@seasondecor.app');
+    expect(survey.location).toBe('12 Lê Lợi, Quận 1, TP.HCM');
+    expect(survey.url).toBe('com.baymaxphan.seasondecormobileapp://booking/booking-detail/BKG-0001');
+  });
+
+  it('spans the construction window through the expected completion', () => {
+    const events = buildBookingCalendarEvents(
+      booking({ status: BookingStatus.Progressing, surveyDate: '2026-03-14', expectedCompletion: '2026-03-25T00:00:00' }),
+      { constructionDate: '2026-03-22T08:00:00' }
+    );
+    expect(events.map((event) => event.kind)).toEqual(['survey', 'construction']);
+    expect(events[1].allDay).toBe(true);
+    expect(events[1].start).toEqual(new Date(2026, 2, 22));
+    expect(events[1].end).toEqual(new Date(2026, 2, 26));
+  });
+
+  it('marks only the completion day when the construction start is unknown', () => {
+    const events = buildBookingCalendarEvents(booking({ expectedCompletion: '2026-03-25' }));
+    expect(events.map((event) => event.kind)).toEqual(['completion']);
+    expect(events[0].end).toEqual(new Date(2026, 2, 26));
+  });
+
+  it('has no events for cancelled bookings', () => {
+    expect(buildBookingCalendarEvents(booking({ status: BookingStatus.Canceled, surveyDate: '2026-03-14' }))).toEqual([]);
+  });
+});
+
+describe('isActiveCalendarBooking', () => {
+  it.each([
+    [BookingStatus.Pending, true],
+    [BookingStatus.ConstructionPayment, true],
+    [BookingStatus.Completed, false],
+    [BookingStatus.Rejected, false],
+  ])('status %s -> %s', (status, expected) => {
+    expect(isActiveCalendarBooking({ status })).toBe(expected);
+  });
+});
+
+describe('iCalendar output', () => {
+  it('escapes text values', () => {
+    expect(escapeICalText('a, b; c\\d\nnext')).toBe('a\\, b\\; c\\\\d\\nnext');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldICalLine(`SUMMARY:${'Tết '.repeat(30)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${'Tết '.repeat(30)}`);
+  });
+
+  it('writes a calendar with date and date-time events', () => {
+    const events = buildBookingCalendarEvents(
+      booking({ timeSlots: [{ surveyDate: '2026-03-14T02:30:00Z' }], expectedCompletion: '2026-03-25' })
+    );
+    const ics = toICalendar(events, new Date('2026-03-01T10:00:00Z'));
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines).toContain('DTSTAMP:20260301T100000Z');
+    expect(lines).toContain('DTSTART:20260314T023000Z');
+    expect(lines).toContain('DTEND:20260314T033000Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260325');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260326');
+    expect(lines).toContain('LOCATION:12 Lê Lợi\\, Quận 1\\, TP.HCM');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { deriveBookingReminders, IBookingReminder, planReminderChanges, toDaytime } from '../bookingReminders';
+import { BookingStatus } from '../bookingStatus';
+
+const at = (value: string) => new Date(value).getTime();
+const NOW = at('2026-03-10T12:00:00');
+
+const booking = (status: BookingStatus, overrides: Record<string, any> = {}) => ({
+  bookingCode: 'BKG-0001',
+  status,
+  createdAt: '2026-03-01T08:00:00',
+  ...overrides,
+});
+
+describe('toDaytime', () => {
+  it.each([
+    ['2026-03-10T06:30:00', '2026-03-10T09:00:00'],
+    ['2026-03-10T14:15:00', '2026-03-10T14:15:00'],
+    ['2026-03-10T21:00:00', '2026-03-11T09:00:00'],
+  ])('moves %s into waking hours', (input, expected) => {
+    expect(toDaytime(at(input))).toBe(at(expected));
+  });
+});
+
+describe('deriveBookingReminders', () => {
+  it('reminds the day before the survey', () => {
+    const [reminder] = deriveBookingReminders(booking(BookingStatus.Planning, { surveyDate: '2026-03-14T10:00:00' }), {}, NOW);
+    expect(reminder.kind).toBe('survey');
+    expect(reminder.title).toBe('Survey tomorrow');
+    expect(reminder.triggerAt).toBe(at('2026-03-13T10:00:00'));
+    expect(reminder.url).toBe('/booking/booking-detail/BKG-0001');
+  });
+
+  it('prefers the booked time slot and falls back to a same-day reminder', () => {
+    const [reminder] = deriveBookingReminders(
+      booking(BookingStatus.Pending, {
+        surveyDate: '2026-03-20T10:00:00',
+        timeSlots: [{ surveyDate: '2026-03-10T20:00:00' }],
+      }),
+      {},
+      NOW
+    );
+    expect(reminder.title).toBe('Survey today');
+    expect(reminder.triggerAt).toBe(at('2026-03-10T18:00:00'));
+  });
+
+  it('skips surveys that are past or too close', () => {
+    expect(deriveBookingReminders(booking(BookingStatus.Planning, { surveyDate: '2026-03-09T10:00:00' }), {}, NOW)).toEqual([]);
+    expect(deriveBookingReminders(booking(BookingStatus.Planning, { surveyDate: '2026-03-10T13:00:00' }), {}, NOW)).toEqual([]);
+    expect(deriveBookingReminders(booking(BookingStatus.Planning), {}, NOW)).toEqual([]);
+  });
+
+  it('reminds about the deposit a day after the contract was confirmed', () => {
+    const [reminder] = deriveBookingReminders(
+      booking(BookingStatus.Confirm, { updatedAt: '2026-03-09T21:30:00' }),
+      {},
+      NOW
+    );
+    expect(reminder.kind).toBe('deposit');
+    expect(reminder.triggerAt).toBe(at('2026-03-11T09:00:00'));
+    expect(reminder.body).toContain('The deposit for BKG-0001 is waiting');
+  });
+
+  it('drops the final payment reminder once it is paid', () => {
+    const waiting = booking(BookingStatus.ConstructionPayment, { updatedAt: '2026-03-09T10:00:00' });
+    const [reminder] = deriveBookingReminders(waiting, { finalPaymentAmount: 500000 }, NOW);
+    expect(reminder.kind).toBe('finalPayment');
+    expect(reminder.body).toContain('500.000');
+    expect(deriveBookingReminders(waiting, { isFinalPaid: true }, NOW)).toEqual([]);
+  });
+
+  it('asks for a review after completion unless already reviewed', () => {
+    const [reminder] = deriveBookingReminders(booking(BookingStatus.Completed, { updatedAt: '2026-03-09T15:00:00' }), {}, NOW);
+    expect(reminder.kind).toBe('review');
+    expect(reminder.triggerAt).toBe(at('2026-03-10T15:00:00'));
+    expect(deriveBookingReminders(booking(BookingStatus.Completed, { isReviewed: true }), {}, NOW)).toEqual([]);
+  });
+
+  it.each([BookingStatus.Quoting, BookingStatus.Progressing, BookingStatus.Canceled])('has no reminders in status %s', (status) => {
+    expect(deriveBookingReminders(booking(status, { surveyDate: '2026-03-14T10:00:00' }), {}, NOW)).toEqual([]);
+  });
+
+  it('keeps the same fingerprint between syncs', () => {
+    const confirmed = booking(BookingStatus.Confirm, { updatedAt: '2026-03-09T10:00:00' });
+    const [first] = deriveBookingReminders(confirmed, {}, NOW);
+    const [later] = deriveBookingReminders(confirmed, {}, NOW + 60 * 60 * 1000);
+    expect(later.fingerprint).toBe(first.fingerprint);
+  });
+});
+
+describe('planReminderChanges', () => {
+  const reminder = (id: string, fingerprint: string) => ({ id, fingerprint }) as IBookingReminder;
+
+  it('schedules new and changed reminders and cancels stale ones', () => {
+    const plan = planReminderChanges(
+      [reminder('BKG-1:survey', 'a'), reminder('BKG-2:deposit', 'b2'), reminder('BKG-3:review', 'c')],
+      { 'BKG-1:survey': 'a', 'BKG-2:deposit': 'b1', 'BKG-4:finalPayment': 'd' }
+    );
+    expect(plan.schedule.map((r) => r.id)).toEqual(['BKG-2:deposit', 'BKG-3:review']);
+    expect(plan.cancel).toEqual(['BKG-2:deposit', 'BKG-4:finalPayment']);
+  });
+
+  it('does nothing when everything is up to date', () => {
+    expect(planReminderChanges([reminder('BKG-1:survey', 'a')], { 'BKG-1:survey': 'a' })).toEqual({ schedule: [], cancel: [] });
+  });
+});
@@ -0,0 +1,198 @@
+import {
+  BOOKING_FLOW,
+  BOOKING_STATES,
+  BOOKING_STATUS_CODES,
+  BookingAction,
+  BookingStatus,
+  BookingStatusCode,
+  canCancelBooking,
+  canConfirmContract,
+  canMakeCommitDeposit,
+  canOpenTracking,
+  canPayDeposit,
+  canPayFinal,
+  canPerformAction,
+  canRateBooking,
+  canTransition,
+  canViewQuotation,
+  getAllowedActions,
+  getBookingStatusCategory,
+  getBookingStatusColor,
+  getBookingStatusIcon,
+  getBookingStatusLabel,
+  getBookingStatusStage,
+  isBookingStatus,
+  isCancelledStatus,
+  isTerminalStatus,
+} from '../bookingStatus';
+
+const S = BookingStatus;
+
+// Every transition the backend may make; anything not listed is forbidden
+const ALLOWED_TRANSITIONS: [BookingStatusCode, BookingStatusCode][] = [
+  [S.Pending, S.Planning],
+  [S.Pending, S.PendingCancellation],
+  [S.Pending, S.Canceled],
+  [S.Pending, S.Rejected],
+  [S.Planning, S.Quoting],
+  [S.Planning, S.PendingCancellation],
+  [S.Planning, S.Canceled],
+  [S.Quoting, S.Contracting],
+  [S.Quoting, S.Canceled],
+  [S.Contracting, S.Confirm],
+  [S.Contracting, S.Canceled],
+  [S.Confirm, S.DepositPaid],
+  [S.Confirm, S.Canceled],
+  [S.DepositPaid, S.Preparing],
+  [S.Preparing, S.InTransit],
+  [S.InTransit, S.Progressing],
+  [S.Progressing, S.ConstructionPayment],
+  [S.ConstructionPayment, S.Completed],
+  [S.PendingCancellation, S.Canceled],
+  [S.PendingCancellation, S.Pending],
+  [S.PendingCancellation, S.Planning],
+];
+
+// Actions available per status once flags allow everything
+const EXPECTED_ACTIONS: Record<BookingStatusCode, BookingAction[]> = {
+  [S.Pending]: ['cancel'],
+  [S.Planning]: ['cancel', 'payCommitDeposit'],
+  [S.Quoting]: ['viewQuotation'],
+  [S.Contracting]: ['viewQuotation', 'confirmContract'],
+  [S.Confirm]: ['viewQuotation', 'payDeposit'],
+  [S.DepositPaid]: ['viewQuotation'],
+  [S.Preparing]: ['viewQuotation'],
+  [S.InTransit]: ['viewQuotation'],
+  [S.Progressing]: ['openTracking'],
+  [S.ConstructionPayment]: ['openTracking', 'payFinal'],
+  [S.Completed]: ['openTracking', 'rate'],
+  [S.PendingCancellation]: [],
+  [S.Canceled]: [],
+  [S.Rejected]: [],
+};
+
+const ALL_ACTIONS: BookingAction[] = [
+  'cancel',
+  'payCommitDeposit',
+  'viewQuotation',
+  'confirmContract',
+  'payDeposit',
+  'openTracking',
+  'payFinal',
+  'rate',
+];
+
+const isAllowed = (from: number, to: number) =>
+  ALLOWED_TRANSITIONS.some(([allowedFrom, allowedTo]) => allowedFrom === from && allowedTo === to);
+
+describe('booking states', () => {
+  it('defines every status code from 0 to 13', () => {
+    expect(BOOKING_STATUS_CODES).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13]);
+    BOOKING_STATUS_CODES.forEach((status) => {
+      expect(BOOKING_STATES[status].status).toBe(status);
+      expect(getBookingStatusLabel(status)).toBe(S[status]);
+    });
+  });
+
+  it('only references known statuses as next states', () => {
+    BOOKING_STATUS_CODES.forEach((status) => {
+      BOOKING_STATES[status].next.forEach((next) => expect(isBookingStatus(next)).toBe(true));
+    });
+  });
+
+  it('walks the happy path one transition at a time', () => {
+    BOOKING_FLOW.slice(1).forEach((status, index) => {
+      expect(canTransition(BOOKING_FLOW[index], status)).toBe(true);
+    });
+  });
+
+  it('rejects unknown status codes', () => {
+    [-1, 14, 1.5, NaN].forEach((status) => {
+      expect(isBookingStatus(status)).toBe(false);
+      expect(getBookingStatusLabel(status)).toBe('Unknown');
+      expect(getBookingStatusColor(status)).toBe('#8e8e93');
+      expect(getBookingStatusIcon(status)).toBe('help-circle-outline');
+      expect(getBookingStatusStage(status)).toBe('');
+      expect(getBookingStatusCategory(status)).toBe('unknown');
+      expect(getAllowedActions({ status })).toEqual([]);
+      expect(canTransition(status, S.Pending)).toBe(false);
+      expect(canTransition(S.Pending, status)).toBe(false);
+    });
+  });
+});
+
+describe('canTransition', () => {
+  BOOKING_STATUS_CODES.forEach((from) => {
+    BOOKING_STATUS_CODES.forEach((to) => {
+      const allowed = isAllowed(from, to);
+      it(`${allowed ? 'allows' : 'forbids'} ${S[from]} -> ${S[to]}`, () => {
+        expect(canTransition(from, to)).toBe(allowed);
+      });
+    });
+  });
+
+  it('treats Completed, Canceled and Rejected as terminal', () => {
+    const terminal = BOOKING_STATUS_CODES.filter(isTerminalStatus);
+    expect(terminal).toEqual([S.Completed, S.Canceled, S.Rejected]);
+  });
+});
+
+describe('allowed actions', () => {
+  const ready = { isCommitDepositPaid: false, isReviewed: false };
+
+  BOOKING_STATUS_CODES.forEach((status) => {
+    it(`matches the expected actions for ${S[status]}`, () => {
+      expect(getAllowedActions({ status, ...ready })).toEqual(EXPECTED_ACTIONS[status]);
+      ALL_ACTIONS.forEach((action) => {
+        expect(canPerformAction({ status, ...ready }, action)).toBe(EXPECTED_ACTIONS[status].includes(action));
+      });
+    });
+  });
+
+  it('hides the early deposit once it is paid or unknown', () => {
+    expect(canMakeCommitDeposit({ status: S.Planning, isCommitDepositPaid: false })).toBe(true);
+    expect(canMakeCommitDeposit({ status: S.Planning, isCommitDepositPaid: true })).toBe(false);
+    expect(canMakeCommitDeposit({ status: S.Planning })).toBe(false);
+    expect(canMakeCommitDeposit({ status: S.Pending, isCommitDepositPaid: false })).toBe(false);
+  });
+
+  it('hides rating once the booking is reviewed or unknown', () => {
+    expect(canRateBooking({ status: S.Completed, isReviewed: false })).toBe(true);
+    expect(canRateBooking({ status: S.Completed, isReviewed: true })).toBe(false);
+    expect(canRateBooking({ status: S.Completed })).toBe(false);
+    expect(canRateBooking({ status: S.ConstructionPayment, isReviewed: false })).toBe(false);
+  });
+});
+
+describe('status guards', () => {
+  const guards: [string, (status: number) => boolean, BookingAction][] = [
+    ['canCancelBooking', canCancelBooking, 'cancel'],
+    ['canViewQuotation', canViewQuotation, 'viewQuotation'],
+    ['canConfirmContract', canConfirmContract, 'confirmContract'],
+    ['canPayDeposit', canPayDeposit, 'payDeposit'],
+    ['canOpenTracking', canOpenTracking, 'openTracking'],
+    ['canPayFinal', canPayFinal, 'payFinal'],
+  ];
+
+  guards.forEach(([name, guard, action]) => {
+    it(`${name} follows the state table`, () => {
+      BOOKING_STATUS_CODES.forEach((status) => {
+        expect(guard(status)).toBe(EXPECTED_ACTIONS[status].includes(action));
+      });
+    });
+  });
+
+  it('groups cancelled statuses together', () => {
+    expect(BOOKING_STATUS_CODES.filter(isCancelledStatus)).toEqual([S.PendingCancellation, S.Canceled, S.Rejected]);
+  });
+
+  it('assigns every status to a filter category', () => {
+    expect(BOOKING_STATUS_CODES.map(getBookingStatusCategory)).toEqual([
+      'initial', 'initial',
+      'agreement', 'agreement', 'agreement',
+      'construction', 'construction', 'construction', 'construction', 'construction',
+      'completed',
+      'cancelled', 'cancelled', 'cancelled',
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  buildChatCardMessage,
+  fromChatShareParams,
+  getChatCardUrl,
+  parseChatMessage,
+  toChatShareParams,
+} from '../chatCards';
+import { APP_SCHEME, resolveDeepLink } from '../deepLinks';
+
+describe('getChatCardUrl', () => {
+  it('builds app links the deep link table resolves', () => {
+    expect(resolveDeepLink(getChatCardUrl('booking', 'BKG-0001'))).toMatchObject({
+      name: 'booking',
+      params: { code: 'BKG-0001' },
+    });
+    expect(resolveDeepLink(getChatCardUrl('quotation', 'QUO-0002'))).toMatchObject({
+      name: 'quotation',
+      params: { code: 'QUO-0002' },
+    });
+    expect(resolveDeepLink(getChatCardUrl('product', '42'))).toMatchObject({ name: 'product', params: { id: '42' } });
+  });
+});
+
+describe('shared cards', () => {
+  const card = {
+    type: 'booking' as const,
+    code: 'BKG-0001',
+    title: 'Christmas living room',
+    subtitle: 'BKG-0001 · Pending',
+  };
+
+  it('round-trips through message text', () => {
+    const message = buildChatCardMessage(card);
+    expect(message).toBe(`Christmas living room\nBKG-0001 · Pending\n${APP_SCHEME}://booking/booking-detail/BKG-0001`);
+
+    const parsed = parseChatMessage(message);
+    expect(parsed.isCard).toBe(true);
+    expect(parsed.text).toBe('');
+    expect(parsed.cards).toEqual([{ ...card, url: getChatCardUrl('booking', 'BKG-0001') }]);
+  });
+
+  it('falls back to a default title', () => {
+    const parsed = parseChatMessage(getChatCardUrl('product', '42'));
+    expect(parsed.isCard).toBe(true);
+    expect(parsed.cards[0]).toMatchObject({ type: 'product', code: '42', title: 'Product #42' });
+  });
+
+  it('treats a link to another screen as text', () => {
+    const message = `Look\n${APP_SCHEME}://cart`;
+    expect(parseChatMessage(message)).toEqual({ text: message, cards: [], isCard: false });
+  });
+});
+
+describe('codes in text', () => {
+  it('previews pasted booking and quotation codes', () => {
+    const message = 'Hi, my booking is BKG-0001 and the quote is quo-0002.';
+    const parsed = parseChatMessage(message);
+    expect(parsed.isCard).toBe(false);
+    expect(parsed.text).toBe(message);
+    expect(parsed.cards.map((c) => [c.type, c.code, c.title])).toEqual([
+      ['booking', 'BKG-0001', 'Booking BKG-0001'],
+      ['quotation', 'quo-0002', 'Quotation quo-0002'],
+    ]);
+  });
+
+  it('lists each code once, links included', () => {
+    const message = `BKG-0001 again: ${getChatCardUrl('booking', 'BKG-0001')} and bkg-0001`;
+    expect(parseChatMessage(message).cards).toHaveLength(1);
+  });
+
+  it('ignores look-alikes', () => {
+    expect(parseChatMessage('XBKG-0001 or BKG- or BOOKING-1').cards).toEqual([]);
+    expect(parseChatMessage('').cards).toEqual([]);
+  });
+});
+
+describe('share params', () => {
+  it('round-trips a card through route params', () => {
+    const card = { type: 'quotation' as const, code: 'QUO-0001', title: 'Tết facade', subtitle: '12.000.000 ₫' };
+    expect(fromChatShareParams(toChatShareParams(card))).toEqual(card);
+  });
+
+  it('rejects unknown types and missing codes', () => {
+    expect(fromChatShareParams({})).toBeNull();
+    expect(fromChatShareParams({ shareType: 'toString', shareCode: 'x' })).toBeNull();
+    expect(fromChatShareParams({ shareType: 'booking', shareCode: ' ' })).toBeNull();
+  });
+
+  it('fills in a missing title', () => {
+    expect(fromChatShareParams({ shareType: ['booking'], shareCode: ['BKG-0009'] })).toEqual({
+      type: 'booking',
+      code: 'BKG-0009',
+      title: 'Booking BKG-0009',
+      subtitle: undefined,
+    });
+  });
+});
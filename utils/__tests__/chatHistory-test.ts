@@ -0,0 +1,175 @@
+import type { IMessage } from '../chatAPI';
+import {
+  buildSnippet,
+  foldSearchText,
+  getMessagePage,
+  getMessagesFrom,
+  getSyncCursor,
+  mergeMessages,
+  searchConversations,
+} from '../chatHistory';
+
+const ME = 1;
+const PROVIDER = 2;
+
+const message = (id: number, overrides: Partial<IMessage> = {}): IMessage => ({
+  id,
+  senderId: PROVIDER,
+  senderName: 'Decor Studio',
+  receiverId: ME,
+  receiverName: 'Lan',
+  message: `Message ${id}`,
+  sentTime: new Date(Date.UTC(2026, 2, 10, 3, id)).toISOString(),
+  isRead: true,
+  files: [],
+  ...overrides,
+});
+
+const conversation = (count: number): IMessage[] => Array.from({ length: count }, (_, index) => message(index + 1));
+
+describe('mergeMessages', () => {
+  it('keeps one copy per id, in sent order', () => {
+    const merged = mergeMessages([message(1), message(3)], [message(2), message(3)]);
+    expect(merged.map((m) => m.id)).toEqual([1, 2, 3]);
+  });
+
+  it('lets fetched messages replace stored ones', () => {
+    const merged = mergeMessages([message(1, { isRead: false })], [message(1, { isRead: true })]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].isRead).toBe(true);
+  });
+
+  it('orders by sent time, then id', () => {
+    const sameTime = '2026-03-10T03:00:00.000Z';
+    const merged = mergeMessages(
+      [message(9, { sentTime: sameTime }), message(4, { sentTime: '2026-03-10T04:00:00.000Z' })],
+      [message(5, { sentTime: sameTime })]
+    );
+    expect(merged.map((m) => m.id)).toEqual([5, 9, 4]);
+  });
+
+  it('keeps only the newest messages past the limit', () => {
+    expect(mergeMessages(conversation(5), [], 3).map((m) => m.id)).toEqual([3, 4, 5]);
+  });
+
+  it('skips messages without an id', () => {
+    expect(mergeMessages([], [message(1), { ...message(2), id: null as any }])).toHaveLength(1);
+  });
+});
+
+describe('getSyncCursor', () => {
+  it('fetches everything for a new conversation', () => {
+    expect(getSyncCursor([], PROVIDER)).toBeNull();
+  });
+
+  it('starts after the newest stored message', () => {
+    expect(getSyncCursor(conversation(5), PROVIDER)).toBe(5);
+  });
+
+  it('starts before my oldest recent message the contact hasn\'t read', () => {
+    const messages = [
+      message(1),
+      message(2),
+      message(3, { senderId: ME, receiverId: PROVIDER, isRead: false }),
+      message(4),
+    ];
+    expect(getSyncCursor(messages, PROVIDER)).toBe(2);
+  });
+
+  it('fetches everything when the first message is still unread', () => {
+    expect(getSyncCursor([message(1, { senderId: ME, receiverId: PROVIDER, isRead: false })], PROVIDER)).toBeNull();
+  });
+
+  it('ignores unread messages outside the recent page', () => {
+    const messages = [message(1, { senderId: ME, receiverId: PROVIDER, isRead: false }), ...conversation(40).slice(1)];
+    expect(getSyncCursor(messages, PROVIDER)).toBe(40);
+  });
+});
+
+describe('getMessagePage', () => {
+  const messages = conversation(70);
+
+  it('returns the newest page', () => {
+    const page = getMessagePage(messages, 30);
+    expect(page.messages.map((m) => m.id)).toEqual(Array.from({ length: 30 }, (_, i) => i + 41));
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('pages back from a message', () => {
+    const page = getMessagePage(messages, 30, 41);
+    expect(page.messages[0].id).toBe(11);
+    expect(page.messages[page.messages.length - 1].id).toBe(40);
+    expect(page.hasMore).toBe(true);
+
+    const last = getMessagePage(messages, 30, 11);
+    expect(last.messages.map((m) => m.id)).toEqual(Array.from({ length: 10 }, (_, i) => i + 1));
+    expect(last.hasMore).toBe(false);
+  });
+
+  it('returns nothing for a message that is no longer stored', () => {
+    expect(getMessagePage(messages, 30, 999)).toEqual({ messages: [], hasMore: false });
+  });
+});
+
+describe('getMessagesFrom', () => {
+  it('returns everything from the first loaded message', () => {
+    const page = getMessagesFrom(conversation(50), 11);
+    expect(page.messages).toHaveLength(40);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('falls back to the newest page', () => {
+    const page = getMessagesFrom(conversation(50), null, 20);
+    expect(page.messages[0].id).toBe(31);
+    expect(getMessagesFrom(conversation(50), 999, 20).messages[0].id).toBe(31);
+  });
+});
+
+describe('search', () => {
+  it('folds case and Vietnamese diacritics', () => {
+    expect(foldSearchText('Trang Trí TẾT Đẹp')).toBe('trang tri tet dep');
+  });
+
+  it('builds snippets around the match', () => {
+    const text = 'a'.repeat(60) + 'match' + 'b'.repeat(60);
+    expect(buildSnippet(text, 60, 5, 10)).toBe(`…${'a'.repeat(10)}match${'b'.repeat(10)}…`);
+    expect(buildSnippet('short match', 6, 5)).toBe('short match');
+  });
+
+  it('finds messages with every word, across conversations, newest first', () => {
+    const conversations = new Map<number, IMessage[]>([
+      [PROVIDER, [message(1, { message: 'Chúng tôi sẽ khảo sát vào thứ Bảy' }), message(3, { message: 'Khảo sát xong' })]],
+      [
+        7,
+        [
+          message(2, { senderId: 7, message: 'Lịch khảo sát: thứ bảy 9h' }),
+          message(4, { senderId: 7, message: 'Trang trí Tết' }),
+        ],
+      ],
+    ]);
+
+    const results = searchConversations(conversations, 'khao sat thu bay');
+    expect(results.map((r) => [r.contactId, r.message.id])).toEqual([
+      [7, 2],
+      [PROVIDER, 1],
+    ]);
+    expect(searchConversations(conversations, 'TET')[0].message.id).toBe(4);
+  });
+
+  it('points the snippet at the original text', () => {
+    const conversations = new Map([[PROVIDER, [message(1, { message: 'Giá trang trí Tết là 5 triệu' })]]]);
+    expect(searchConversations(conversations, 'tet')[0].snippet).toBe('Giá trang trí Tết là 5 triệu');
+  });
+
+  it('ignores HTML and empty queries', () => {
+    const conversations = new Map([[PROVIDER, [message(1, { message: '<p>Hello&nbsp;there</p>' })]]]);
+    expect(searchConversations(conversations, 'hello there')[0].snippet).toBe('Hello there');
+    expect(searchConversations(conversations, 'p')).toEqual([]);
+    expect(searchConversations(conversations, '   ')).toEqual([]);
+  });
+
+  it('caps the results', () => {
+    const conversations = new Map([[PROVIDER, conversation(10)]]);
+    expect(searchConversations(conversations, 'message', 3).map((r) => r.message.id)).toEqual([10, 9, 8]);
+  });
+});
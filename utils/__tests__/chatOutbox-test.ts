@@ -0,0 +1,145 @@
+import {
+  advanceDeliveryStatus,
+  applySendFailure,
+  ChatDeliveryStatus,
+  createClientMessageId,
+  DELIVERED_RETENTION_MS,
+  findConfirmedEntry,
+  getChatImageResize,
+  getDeliveryStatus,
+  getSendProgress,
+  getUnconfirmedMessages,
+  IOutgoingChatMessage,
+  MAX_SEND_ATTEMPTS,
+  pruneOutbox,
+} from '../chatOutbox';
+
+const NOW = Date.UTC(2026, 2, 10, 3, 0);
+
+const entry = (overrides: Partial<IOutgoingChatMessage> = {}): IOutgoingChatMessage => ({
+  clientId: 'c_1',
+  senderId: 1,
+  receiverId: 2,
+  message: 'Can you come at 9?',
+  files: [],
+  createdAt: '2026-03-10T03:00:00.000Z',
+  status: 'queued',
+  attempts: 0,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+describe('advanceDeliveryStatus', () => {
+  it.each<[ChatDeliveryStatus, ChatDeliveryStatus, ChatDeliveryStatus]>([
+    ['queued', 'sending', 'sending'],
+    ['sending', 'sent', 'sent'],
+    ['sent', 'delivered', 'delivered'],
+    ['delivered', 'read', 'read'],
+    ['read', 'delivered', 'read'],
+    ['sending', 'read', 'read'],
+    ['sent', 'failed', 'sent'],
+    ['sending', 'failed', 'failed'],
+    ['failed', 'sent', 'failed'],
+    ['failed', 'queued', 'queued'],
+  ])('%s + %s -> %s', (current, next, expected) => {
+    expect(advanceDeliveryStatus(current, next)).toBe(expected);
+  });
+});
+
+describe('applySendFailure', () => {
+  it('requeues without counting when the hub is down', () => {
+    expect(applySendFailure(entry({ status: 'sending' }), 'offline', false, NOW)).toMatchObject({
+      status: 'queued',
+      attempts: 0,
+    });
+  });
+
+  it('fails the message after repeated errors while connected', () => {
+    let current = entry({ status: 'sending' });
+    for (let attempt = 1; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+      current = applySendFailure(current, 'server error', true, NOW);
+      expect(current.status).toBe('queued');
+    }
+    expect(applySendFailure(current, 'server error', true, NOW)).toMatchObject({
+      status: 'failed',
+      attempts: MAX_SEND_ATTEMPTS,
+      error: 'server error',
+    });
+  });
+});
+
+describe('findConfirmedEntry', () => {
+  const message = { id: 55, senderId: 1, receiverId: 2, message: ' Can you come at 9? ' };
+
+  it('matches by server id first', () => {
+    const entries = [entry({ clientId: 'a', status: 'sending' }), entry({ clientId: 'b', status: 'sent', serverId: 55 })];
+    expect(findConfirmedEntry(entries, message)?.clientId).toBe('b');
+  });
+
+  it('falls back to an in-flight message with the same text', () => {
+    const entries = [entry({ clientId: 'a', status: 'queued' }), entry({ clientId: 'b', status: 'sending' })];
+    expect(findConfirmedEntry(entries, message)?.clientId).toBe('b');
+  });
+
+  it('ignores messages from someone else', () => {
+    expect(findConfirmedEntry([entry({ status: 'sending' })], { ...message, senderId: 2, receiverId: 1 })).toBeUndefined();
+  });
+});
+
+describe('pruneOutbox', () => {
+  it('keeps pending messages and drops old sent ones', () => {
+    const old = NOW - DELIVERED_RETENTION_MS - 1;
+    const entries = [
+      entry({ clientId: 'pending', status: 'failed', updatedAt: old }),
+      entry({ clientId: 'old', status: 'read', updatedAt: old }),
+      entry({ clientId: 'recent', status: 'delivered' }),
+    ];
+    expect(pruneOutbox(entries, NOW).map((item) => item.clientId)).toEqual(['pending', 'recent']);
+  });
+});
+
+describe('conversation helpers', () => {
+  const entries = [
+    entry({ clientId: 'c_2', createdAt: '2026-03-10T03:05:00.000Z', status: 'failed' }),
+    entry({ clientId: 'c_1', status: 'delivered', serverId: 10 }),
+    entry({ clientId: 'c_3', receiverId: 3 }),
+  ];
+
+  it('reads delivery state from the outbox, then from isRead', () => {
+    const history = { senderId: 1, receiverId: 2, message: 'hi' };
+    expect(getDeliveryStatus({ ...history, id: 10 }, entries)).toBe('delivered');
+    expect(getDeliveryStatus({ ...history, id: 10, isRead: true }, entries)).toBe('read');
+    expect(getDeliveryStatus({ ...history, id: 'c_2' }, entries)).toBe('failed');
+    expect(getDeliveryStatus({ ...history, id: 99 }, entries)).toBe('sent');
+  });
+
+  it('lists outbox messages the history does not have yet, oldest first', () => {
+    expect(getUnconfirmedMessages(entries, 2, []).map((item) => item.clientId)).toEqual(['c_1', 'c_2']);
+    expect(getUnconfirmedMessages(entries, 2, [{ id: 10, senderId: 1, receiverId: 2, message: 'hi' }]).map((item) => item.clientId)).toEqual(['c_2']);
+  });
+
+  it('creates distinct client ids', () => {
+    expect(createClientMessageId(NOW, () => 0.25)).not.toBe(createClientMessageId(NOW, () => 0.5));
+  });
+});
+
+describe('attachments', () => {
+  it('scales the longest side of large images down', () => {
+    expect(getChatImageResize(4000, 3000)).toEqual({ width: 1600 });
+    expect(getChatImageResize(3000, 4000)).toEqual({ height: 1600 });
+    expect(getChatImageResize(1200, 800)).toBeNull();
+    expect(getChatImageResize(undefined, 800)).toBeNull();
+  });
+
+  it('reports reading attachments, then the hub send', () => {
+    expect(getSendProgress(0, 2)).toBe(0);
+    expect(getSendProgress(1, 2)).toBe(20);
+    expect(getSendProgress(2, 2)).toBe(40);
+    expect(getSendProgress(2, 2, 50)).toBe(70);
+    expect(getSendProgress(2, 2, 100)).toBe(100);
+  });
+
+  it('uses the hub progress alone without attachments', () => {
+    expect(getSendProgress(0, 0, 50)).toBe(50);
+  });
+});
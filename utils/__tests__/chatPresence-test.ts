@@ -0,0 +1,115 @@
+import type { IContact } from '../contactAPI';
+import {
+  applyContacts,
+  applyIncomingMessage,
+  applyReadReceipt,
+  EMPTY_PRESENCE,
+  getTotalUnread,
+  isTyping,
+  markConversationRead,
+  markMessagesRead,
+  pruneTyping,
+  setOnline,
+  setTyping,
+  shouldSendTyping,
+  TYPING_THROTTLE_MS,
+  TYPING_TIMEOUT_MS,
+} from '../chatPresence';
+
+const ME = 1;
+const PROVIDER = 2;
+const NOW = 1_000_000;
+
+const contact = (contactId: number, overrides: Partial<IContact> = {}): IContact => ({
+  contactId,
+  contactName: `Contact ${contactId}`,
+  ...overrides,
+});
+
+describe('presence', () => {
+  it('takes online state and unread counts from the contact list', () => {
+    const state = applyContacts(EMPTY_PRESENCE, [
+      contact(PROVIDER, { isOnline: true, unreadCount: 3 }),
+      contact(7, { isOnline: false, unreadCount: -1 }),
+      contact(8),
+    ]);
+    expect(state.online).toEqual({ [PROVIDER]: true, 7: false });
+    expect(state.unread).toEqual({ [PROVIDER]: 3, 7: 0 });
+    expect(getTotalUnread(state)).toBe(3);
+  });
+
+  it('returns the same state when nothing changes', () => {
+    const online = setOnline(EMPTY_PRESENCE, PROVIDER, true);
+    expect(setOnline(online, PROVIDER, true)).toBe(online);
+    expect(setTyping(online, PROVIDER, false)).toBe(online);
+    expect(markConversationRead(online, PROVIDER)).toBe(online);
+  });
+
+  it('stops the typing indicator of a contact going offline', () => {
+    const typing = setTyping(EMPTY_PRESENCE, PROVIDER, true, NOW);
+    expect(typing.online[PROVIDER]).toBe(true);
+    expect(setOnline(typing, PROVIDER, false).typing).toEqual({});
+  });
+});
+
+describe('typing', () => {
+  it('expires unless refreshed', () => {
+    const state = setTyping(EMPTY_PRESENCE, PROVIDER, true, NOW);
+    expect(isTyping(state, PROVIDER, NOW + TYPING_TIMEOUT_MS - 1)).toBe(true);
+    expect(isTyping(state, PROVIDER, NOW + TYPING_TIMEOUT_MS)).toBe(false);
+
+    expect(pruneTyping(state, NOW + 1)).toBe(state);
+    expect(pruneTyping(state, NOW + TYPING_TIMEOUT_MS).typing).toEqual({});
+  });
+
+  it('ends when the contact\'s message arrives', () => {
+    const state = applyIncomingMessage(setTyping(EMPTY_PRESENCE, PROVIDER, true, NOW), PROVIDER, false);
+    expect(state.typing).toEqual({});
+  });
+
+  it('is sent again at most once per throttle window', () => {
+    expect(shouldSendTyping(null, NOW)).toBe(true);
+    expect(shouldSendTyping(NOW, NOW + TYPING_THROTTLE_MS - 1)).toBe(false);
+    expect(shouldSendTyping(NOW, NOW + TYPING_THROTTLE_MS)).toBe(true);
+  });
+});
+
+describe('unread counts', () => {
+  it('count messages unless the conversation is open', () => {
+    const once = applyIncomingMessage(EMPTY_PRESENCE, PROVIDER, false);
+    const twice = applyIncomingMessage(once, PROVIDER, false);
+    expect(twice.unread[PROVIDER]).toBe(2);
+    expect(applyIncomingMessage(twice, PROVIDER, true).unread[PROVIDER]).toBe(0);
+  });
+
+  it('clear when I read the conversation, on this device or another', () => {
+    const state = applyContacts(EMPTY_PRESENCE, [contact(PROVIDER, { unreadCount: 4 })]);
+    expect(applyReadReceipt(state, { readerId: ME, senderId: PROVIDER }, ME).unread[PROVIDER]).toBe(0);
+  });
+
+  it('ignore receipts for my own messages', () => {
+    const state = applyContacts(EMPTY_PRESENCE, [contact(PROVIDER, { unreadCount: 4 })]);
+    expect(applyReadReceipt(state, { readerId: PROVIDER, senderId: ME }, ME)).toBe(state);
+    expect(applyReadReceipt(state, { readerId: ME, senderId: PROVIDER }, null)).toBe(state);
+  });
+});
+
+describe('markMessagesRead', () => {
+  const messages = [
+    { id: 1, senderId: ME, receiverId: PROVIDER, isRead: false },
+    { id: 2, senderId: PROVIDER, receiverId: ME, isRead: false },
+    { id: 3, senderId: ME, receiverId: PROVIDER, isRead: true },
+  ];
+
+  it('marks what the reader received from the sender', () => {
+    const read = markMessagesRead(messages, { readerId: PROVIDER, senderId: ME });
+    expect(read.map((m) => m.isRead)).toEqual([true, false, true]);
+    expect(read[2]).toBe(messages[2]);
+  });
+
+  it('returns the same array when nothing changes', () => {
+    const read = markMessagesRead(messages, { readerId: ME, senderId: PROVIDER });
+    expect(markMessagesRead(read, { readerId: ME, senderId: PROVIDER })).toBe(read);
+    expect(markMessagesRead(messages, { readerId: 9, senderId: ME })).toBe(messages);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  DEFAULT_DECOR_FILTERS,
+  applyDecorFilters,
+  countActiveDecorFilters,
+  hasServerSideFilters,
+  parseDecorFilters,
+  serializeDecorFilters,
+  toDecorSearchParams,
+  toDecorShareParams,
+} from '../decorSearch';
+import { IDecor } from '../decorserviceAPI';
+
+const service = (overrides: Partial<IDecor>): IDecor =>
+  ({
+    id: 1,
+    style: 'Tết living room',
+    basePrice: 5000000,
+    province: 'TP. Hồ Chí Minh',
+    accountId: 2,
+    favoriteCount: 0,
+    rate: 4,
+    createAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }) as IDecor;
+
+describe('decor search route params', () => {
+  it('round-trips filters through the route query', () => {
+    const filters = {
+      query: 'living',
+      season: 'Tết',
+      minPrice: 1000000,
+      maxPrice: 6000000,
+      minRating: 4.5,
+      province: 'hcmc',
+      providerId: 2,
+      favoritesOnly: true,
+      sort: 'rating' as const,
+    };
+
+    expect(parseDecorFilters(serializeDecorFilters(filters))).toEqual(filters);
+  });
+
+  it('falls back to defaults for malformed values', () => {
+    const filters = parseDecorFilters({
+      minPrice: 'abc',
+      minRating: '9',
+      province: 'atlantis',
+      sort: 'cheapest',
+      favorites: 'yes',
+    });
+
+    expect(filters).toEqual({
+      ...DEFAULT_DECOR_FILTERS,
+      minPrice: undefined,
+      maxPrice: undefined,
+      minRating: undefined,
+      province: undefined,
+      providerId: undefined,
+    });
+  });
+
+  it('swaps a reversed price range and reads the first of repeated keys', () => {
+    const filters = parseDecorFilters({ minPrice: '900', maxPrice: '100', season: ['Winter', 'Summer'] });
+
+    expect(filters).toMatchObject({ minPrice: 100, maxPrice: 900, season: 'Winter' });
+  });
+
+  it('clears removed filters but leaves them out of share links', () => {
+    const params = serializeDecorFilters({ ...DEFAULT_DECOR_FILTERS, season: 'Tết' });
+
+    expect(params).toHaveProperty('minPrice', undefined);
+    expect(toDecorShareParams({ ...DEFAULT_DECOR_FILTERS, season: 'Tết' })).toEqual({ season: 'Tết' });
+  });
+
+  it('maps filters onto search endpoint params', () => {
+    const filters = { ...DEFAULT_DECOR_FILTERS, query: ' noel ', province: 'hanoi', sort: 'newest' as const };
+
+    expect(hasServerSideFilters(filters)).toBe(true);
+    expect(hasServerSideFilters({ ...DEFAULT_DECOR_FILTERS, favoritesOnly: true })).toBe(false);
+    expect(toDecorSearchParams(filters)).toMatchObject({ style: 'noel', province: 'Hà Nội', sortBy: 'newest' });
+    expect(countActiveDecorFilters(filters)).toBe(2);
+  });
+});
+
+describe('applyDecorFilters', () => {
+  const services = [
+    service({ id: 1, basePrice: 5000000, rate: 4.8, favoriteCount: 42, createAt: '2025-01-02T00:00:00Z' }),
+    service({ id: 2, basePrice: 8000000, rate: 4.5, favoriteCount: 17, province: 'Hà Nội', accountId: 3 }),
+    service({ id: 3, basePrice: 3500000, rate: 4.2, favoriteCount: 5, createAt: '2025-04-10T00:00:00Z' }),
+  ];
+
+  it('filters by price, rating, province and provider', () => {
+    const ids = (filters: Partial<typeof DEFAULT_DECOR_FILTERS>) =>
+      applyDecorFilters(services, { ...DEFAULT_DECOR_FILTERS, ...filters }).map((item) => item.id);
+
+    expect(ids({ minPrice: 4000000, maxPrice: 8000000 })).toEqual([1, 2]);
+    expect(ids({ minRating: 4.5 })).toEqual([1, 2]);
+    expect(ids({ province: 'hanoi' })).toEqual([2]);
+    expect(ids({ providerId: 2 })).toEqual([1, 3]);
+  });
+
+  it('keeps only favorites when favoritesOnly is set', () => {
+    const result = applyDecorFilters(services, { ...DEFAULT_DECOR_FILTERS, favoritesOnly: true }, new Set([3]));
+
+    expect(result.map((item) => item.id)).toEqual([3]);
+  });
+
+  it('sorts without mutating the input', () => {
+    const sortIds = (sort: typeof DEFAULT_DECOR_FILTERS.sort) =>
+      applyDecorFilters(services, { ...DEFAULT_DECOR_FILTERS, sort }).map((item) => item.id);
+
+    expect(sortIds('newest')).toEqual([3, 1, 2]);
+    expect(sortIds('mostFavorited')).toEqual([1, 2, 3]);
+    expect(sortIds('rating')).toEqual([1, 2, 3]);
+    expect(services.map((item) => item.id)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,84 @@
+import { APP_SCHEME, parseDeepLinkUrl, resolveDeepLink, toDeepLinkHref } from '../deepLinks';
+
+const app = (path: string) => `${APP_SCHEME}://${path}`;
+
+describe('parseDeepLinkUrl', () => {
+  it.each([
+    [app('quotation/QUO-0001?tab=items'), '/quotation/QUO-0001', { tab: 'items' }],
+    ['https://seasondecor.com/quotation/QUO-0001/', '/quotation/QUO-0001', {}],
+    ['exp://192.168.1.2:8081/--/bookings/BKG-0001', '/bookings/BKG-0001', {}],
+    ['quotation/list', '/quotation/list', {}],
+    ['/screens/Bookings?note=hello%20world&note=ignored', '/screens/Bookings', { note: 'hello world' }],
+  ])('parses %s', (url, path, query) => {
+    expect(parseDeepLinkUrl(url)).toMatchObject({ path, query });
+  });
+
+  it('ignores links that are not app links', () => {
+    expect(parseDeepLinkUrl('mailto:support@seasondecor.com')).toBeNull();
+    expect(parseDeepLinkUrl('')).toBeNull();
+  });
+});
+
+describe('resolveDeepLink', () => {
+  it.each([
+    [app('signature_success?token=abc.def.ghi'), 'signature', '/signature_success', { token: 'abc.def.ghi' }, false],
+    [
+      app('signature_success?success=true&contractCode=CTR-0001'),
+      'signatureResult',
+      '/screens/Bookings',
+      { success: 'true', contractCode: 'CTR-0001' },
+      true,
+    ],
+    [app('signature_success?verified=false&error=Expired'), 'signatureResult', '/screens/Bookings', { success: 'false', error: 'Expired' }, true],
+    [
+      app('payment/return?vnp_ResponseCode=00&vnp_TransactionStatus=00&vnp_TxnRef=TX1'),
+      'paymentResult',
+      '/screens/payment/success',
+      { responseCode: '00', transactionRef: 'TX1' },
+      true,
+    ],
+    [app('wallet?vnp_ResponseCode=24'), 'paymentResult', '/screens/payment/failure', { responseCode: '24' }, true],
+    [app('screens/payment/success'), 'paymentResult', '/screens/payment/success', {}, true],
+    [app('contract/CTR-0001'), 'contract', '/quotation/contract/[code]', { code: 'CTR-0001' }, true],
+    ['/quotation/contract/CTR-0001', 'contract', '/quotation/contract/[code]', { code: 'CTR-0001' }, true],
+    ['https://seasondecor.com/quotation/QUO-0001', 'quotation', '/quotation/quotation-detail/[code]', { code: 'QUO-0001' }, true],
+    ['/quotation/revisions/QUO-0001', 'quotationRevisions', '/quotation/revisions/[code]', { code: 'QUO-0001' }, true],
+    ['/quotation/list', 'quotationList', '/quotation/list', {}, true],
+    [app('bookings/BKG-0001'), 'booking', '/booking/booking-detail', { code: 'BKG-0001' }, true],
+    ['/product/product-detail/12', 'product', '/product/product-detail/[id]', { id: '12' }, false],
+    [app('decor/7'), 'decor', '/decor/[id]', { id: '7' }, false],
+    [app('provider/tet-decor'), 'provider', '/provider/[slug]', { slug: 'tet-decor' }, false],
+    ['/chat/15', 'chat', '/chat/[userId]', { userId: '15' }, true],
+    ['/cart', 'cart', '/cart', {}, true],
+    ['/screens/bookings', 'screen', '/screens/Bookings', {}, true],
+    ['/screens/payment/transactions', 'screen', '/screens/payment/transactions', {}, true],
+  ])('routes %s to %s', (url, name, pathname, params, requiresAuth) => {
+    expect(resolveDeepLink(url)).toEqual({ name, pathname, params, requiresAuth, url });
+  });
+
+  it.each([
+    [app('signature_success?token=x')], // token too short
+    [app('signature_success')],
+    [app('quotation/QUO 1')],
+    [app('quotation/contract/../../etc')],
+    ['/product/product-detail/abc'],
+    ['/chat/me'],
+    ['/screens/DeveloperMenu'],
+    ['/booking/request'],
+    ['https://example.com/unknown'],
+  ])('rejects %s', (url) => {
+    expect(resolveDeepLink(url)).toBeNull();
+  });
+});
+
+describe('toDeepLinkHref', () => {
+  it('fills dynamic segments and keeps the other params as query', () => {
+    expect(toDeepLinkHref({ pathname: '/quotation/contract/[code]', params: { code: 'CTR-0001' } })).toBe(
+      '/quotation/contract/CTR-0001'
+    );
+    expect(toDeepLinkHref({ pathname: '/screens/Bookings', params: { success: 'false', error: 'Link expired' } })).toBe(
+      '/screens/Bookings?success=false&error=Link%20expired'
+    );
+    expect(toDeepLinkHref({ pathname: '/cart', params: {} })).toBe('/cart');
+  });
+});
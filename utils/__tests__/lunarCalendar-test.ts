@@ -0,0 +1,56 @@
+import { formatLunarDate, formatLunarDay, fromLunarDate, getLunarYearName, toLunarDate } from '../lunarCalendar';
+
+const day = (value: string) => {
+  const [year, month, date] = value.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+const key = (date: Date | null) =>
+  date && `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+describe('toLunarDate', () => {
+  it.each([
+    ['2025-01-29', { day: 1, month: 1, year: 2025, leap: false }],
+    ['2026-02-16', { day: 29, month: 12, year: 2025, leap: false }],
+    ['2026-02-17', { day: 1, month: 1, year: 2026, leap: false }],
+    ['2026-09-25', { day: 15, month: 8, year: 2026, leap: false }],
+    ['2025-07-25', { day: 1, month: 6, year: 2025, leap: true }],
+  ])('%s', (date, lunar) => {
+    expect(toLunarDate(day(date))).toEqual(lunar);
+  });
+
+  it('uses Vietnam time, so Tết 2027 is a day before the Chinese New Year', () => {
+    expect(toLunarDate(day('2027-02-06'))).toMatchObject({ day: 1, month: 1, year: 2027 });
+  });
+});
+
+describe('fromLunarDate', () => {
+  it('converts back to the Gregorian day', () => {
+    expect(key(fromLunarDate({ day: 10, month: 3, year: 2027, leap: false }))).toBe('2027-04-16');
+    expect(key(fromLunarDate({ day: 1, month: 6, year: 2025, leap: true }))).toBe('2025-07-25');
+  });
+
+  it('round-trips every day of a year', () => {
+    for (let offset = 0; offset < 366; offset++) {
+      const date = new Date(2025, 0, 1 + offset);
+      expect(key(fromLunarDate(toLunarDate(date)))).toBe(key(date));
+    }
+  });
+
+  it('returns null for leap months a year does not have and days past the month end', () => {
+    expect(fromLunarDate({ day: 1, month: 6, year: 2026, leap: true })).toBeNull();
+    expect(fromLunarDate({ day: 31, month: 1, year: 2026, leap: false })).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('names lunar years by Can Chi', () => {
+    expect(getLunarYearName(2026)).toBe('Bính Ngọ');
+    expect(getLunarYearName(2025)).toBe('Ất Tỵ');
+  });
+
+  it('shows the month on the first day only', () => {
+    expect(formatLunarDay({ day: 1, month: 8, year: 2026, leap: false })).toBe('1/8');
+    expect(formatLunarDay({ day: 15, month: 8, year: 2026, leap: false })).toBe('15');
+    expect(formatLunarDate({ day: 1, month: 6, year: 2025, leap: true })).toBe('1/6 nhuận Ất Tỵ');
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  buildNotificationSections,
+  getNotificationActions,
+  getNotificationTarget,
+  groupNotifications,
+} from '../notificationCenter';
+
+const notification = (id: number, overrides: Record<string, any> = {}) => ({
+  id: String(id),
+  title: 'Update',
+  content: '',
+  isRead: false,
+  createdAt: '2026-01-15T09:00:00',
+  ...overrides,
+});
+
+describe('getNotificationTarget', () => {
+  it.each([
+    ['/quotation/contract/CTR-0001', { kind: 'contract', code: 'CTR-0001' }],
+    ['/quotation/quotation-detail/QUO-0001', { kind: 'quotation', code: 'QUO-0001' }],
+    ['/quotation/revisions/QUO-0001', { kind: 'quotation', code: 'QUO-0001' }],
+    ['/bookings/BKG-0001', { kind: 'booking', code: 'BKG-0001' }],
+    ['/product/product-detail/12', { kind: 'product', code: '12' }],
+    ['/screens/Bookings?bookingCode=BKG-0002', { kind: 'booking', code: 'BKG-0002' }],
+    ['/orders/ORD-0001', { kind: 'order', code: 'ORD-0001' }],
+    ['/quotation/list', null],
+    [null, null],
+  ])('reads %s', (url, expected) => {
+    expect(getNotificationTarget({ url })).toEqual(expected);
+  });
+});
+
+describe('groupNotifications', () => {
+  it('groups by target, newest first, and counts unread', () => {
+    const groups = groupNotifications([
+      notification(1, { url: '/bookings/BKG-0001', createdAt: '2026-01-14T09:00:00', isRead: true }),
+      notification(2, { url: '/quotation/list', createdAt: '2026-01-15T08:00:00' }),
+      notification(3, { url: '/booking/booking-detail/BKG-0001', createdAt: '2026-01-15T10:00:00' }),
+      notification(4, { createdAt: '2026-01-13T10:00:00' }),
+    ]);
+
+    expect(groups.map((group) => group.key)).toEqual(['booking:BKG-0001', 'notification:2', 'notification:4']);
+    expect(groups[0].notifications.map((item) => item.id)).toEqual(['3', '1']);
+    expect(groups[0].latest.id).toBe('3');
+    expect(groups[0].unreadCount).toBe(1);
+  });
+});
+
+describe('buildNotificationSections', () => {
+  it('splits groups into day sections', () => {
+    const now = new Date('2026-01-15T12:00:00');
+    const sections = buildNotificationSections(
+      [
+        notification(1, { createdAt: '2026-01-15T09:00:00' }),
+        notification(2, { notifiedAt: '2026-01-14T20:00:00' }),
+        notification(3, { createdAt: '2026-01-10T09:00:00' }),
+        notification(4, { createdAt: '2025-12-31T09:00:00' }),
+      ],
+      now
+    );
+
+    expect(sections.map((section) => section.title)).toEqual([
+      'Today',
+      'Yesterday',
+      'Saturday, Jan 10',
+      'Wednesday, Dec 31, 2025',
+    ]);
+    expect(sections[0].data[0].latest.id).toBe('1');
+  });
+});
+
+describe('getNotificationActions', () => {
+  const keys = (overrides: Record<string, any>) => getNotificationActions(notification(1, overrides)).map((action) => action.key);
+
+  it('offers deposit payment and the contract for contract notices', () => {
+    const actions = getNotificationActions(
+      notification(1, { title: 'Contract signed', content: 'Please pay the deposit', url: '/quotation/contract/CTR-0001' })
+    );
+    expect(actions.map((action) => action.label)).toEqual(['Pay deposit', 'Sign contract']);
+    expect(actions[0].params).toEqual({ contractCode: 'CTR-0001' });
+  });
+
+  it('offers rating for completed bookings', () => {
+    expect(keys({ content: 'Booking BKG-0001 has been completed', url: '/bookings/BKG-0001?bookingId=12' })).toEqual([
+      'rate',
+      'viewBooking',
+    ]);
+    expect(getNotificationActions(notification(1, { content: 'completed', url: '/bookings/BKG-0001' }))[0].pathname).toBe(
+      '/screens/Bookings'
+    );
+  });
+
+  it('offers the final payment for bookings awaiting it', () => {
+    expect(keys({ content: 'Final payment is due', url: '/bookings/BKG-0001' })).toEqual(['payFinal', 'viewBooking']);
+  });
+
+  it('links quotation lists and has no actions without a target', () => {
+    expect(keys({ url: '/quotation/list' })).toEqual(['viewQuotations']);
+    expect(keys({ url: '/quotation/QUO-0001' })).toEqual(['viewQuotation']);
+    expect(keys({})).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  filterVisibleNotifications,
+  isWithinQuietHours,
+  normalizeNotificationPreferences,
+  shouldAlertNotification,
+} from '../notificationPreferences';
+
+const at = (time: string) => new Date(`2026-01-15T${time}:00`);
+
+const preferences = normalizeNotificationPreferences({
+  types: { GENERAL: 'muted', ORDER: 'quietHours' },
+  quietHours: { enabled: true, start: '22:00', end: '07:00' },
+});
+
+describe('normalizeNotificationPreferences', () => {
+  it('falls back to defaults for missing or invalid values', () => {
+    expect(normalizeNotificationPreferences(null)).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+    expect(
+      normalizeNotificationPreferences({
+        types: { ORDER: 'sometimes', BOOKING: 'muted' },
+        quietHours: { enabled: 'yes', start: '25:00', end: '06:30' },
+      })
+    ).toEqual({
+      types: { ...DEFAULT_NOTIFICATION_PREFERENCES.types, BOOKING: 'muted' },
+      quietHours: { enabled: false, start: '22:00', end: '06:30' },
+    });
+  });
+});
+
+describe('isWithinQuietHours', () => {
+  it.each([
+    ['21:59', false],
+    ['22:00', true],
+    ['03:00', true],
+    ['06:59', true],
+    ['07:00', false],
+    ['12:00', false],
+  ])('overnight window at %s is %s', (time, expected) => {
+    expect(isWithinQuietHours(preferences.quietHours, at(time))).toBe(expected);
+  });
+
+  it('handles windows within a day and disabled or empty windows', () => {
+    const afternoon = { enabled: true, start: '13:00', end: '15:00' };
+    expect(isWithinQuietHours(afternoon, at('14:00'))).toBe(true);
+    expect(isWithinQuietHours(afternoon, at('15:00'))).toBe(false);
+    expect(isWithinQuietHours({ ...afternoon, enabled: false }, at('14:00'))).toBe(false);
+    expect(isWithinQuietHours({ enabled: true, start: '08:00', end: '08:00' }, at('08:00'))).toBe(false);
+  });
+});
+
+describe('shouldAlertNotification', () => {
+  it('never alerts muted types', () => {
+    expect(shouldAlertNotification(preferences, 'GENERAL', at('12:00'))).toBe(false);
+  });
+
+  it('holds quiet hours types back at night only', () => {
+    expect(shouldAlertNotification(preferences, 'ORDER', at('23:30'))).toBe(false);
+    expect(shouldAlertNotification(preferences, 'ORDER', at('09:00'))).toBe(true);
+    expect(shouldAlertNotification(preferences, 'CONTRACT', at('23:30'))).toBe(true);
+  });
+
+  it('treats notifications without a type as GENERAL', () => {
+    expect(shouldAlertNotification(preferences, undefined, at('12:00'))).toBe(false);
+  });
+});
+
+describe('filterVisibleNotifications', () => {
+  it('drops muted types and keeps quiet hours types', () => {
+    const notifications = [
+      { id: 1, type: 'GENERAL' },
+      { id: 2, type: 'ORDER' },
+      { id: 3, type: 'BOOKING' },
+      { id: 4 },
+    ];
+    expect(filterVisibleNotifications(preferences, notifications).map((item) => item.id)).toEqual([2, 3]);
+  });
+});
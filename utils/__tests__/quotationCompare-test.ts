@@ -0,0 +1,95 @@
+import { buildQuotationComparison, getBestIndexes, toQuotationCompareColumn } from '../quotationCompare';
+
+const providerA = { id: 1, businessName: 'Tết Decor Studio' };
+const providerB = { id: 2, businessName: 'Noel House' };
+
+const quotationA = {
+  quotationCode: 'QUO-A',
+  materialCost: 3000000,
+  constructionCost: 2000000,
+  depositPercentage: 30,
+  constructionDate: '2026-01-20T08:00:00Z',
+  provider: providerA,
+};
+
+const quotationB = {
+  quotationCode: 'QUO-B',
+  materialCost: 3500000,
+  constructionCost: 1000000,
+  productCost: 500000,
+  depositPercentage: 20,
+  constructionDate: '2026-01-15T08:00:00Z',
+  provider: providerB,
+};
+
+describe('toQuotationCompareColumn', () => {
+  it('derives totals, deposit amount and booking ratings', () => {
+    const column = toQuotationCompareColumn({
+      quotation: quotationA,
+      booking: { surveyDate: '2026-01-10T09:00:00Z', decorService: { rate: 4.8, totalRating: 25 } },
+    });
+
+    expect(column).toMatchObject({
+      providerName: 'Tết Decor Studio',
+      totalCost: 5000000,
+      depositAmount: 1500000,
+      surveyDate: '2026-01-10T09:00:00Z',
+      rating: 4.8,
+      ratingCount: 25,
+    });
+  });
+
+  it('falls back to line items when summary costs are missing', () => {
+    const column = toQuotationCompareColumn({
+      quotation: {
+        quotationCode: 'QUO-C',
+        materials: [{ materialName: 'Hoa mai', quantity: 4, cost: 500000 }],
+        constructionTasks: [{ taskName: 'Lắp đặt', cost: 800000, unit: 'm2', area: 30 }],
+        productDetails: [{ productId: 1, totalPrice: 300000 }],
+      },
+    });
+
+    expect(column.materialCost).toBe(2000000);
+    expect(column.constructionCost).toBe(800000);
+    expect(column.productCost).toBe(300000);
+    expect(column.rating).toBeUndefined();
+  });
+});
+
+describe('getBestIndexes', () => {
+  it('marks every tied best value', () => {
+    expect(getBestIndexes([3, 1, 1, 2], 'min')).toEqual([1, 2]);
+    expect(getBestIndexes([4.2, undefined, 4.8], 'max')).toEqual([2]);
+  });
+
+  it('skips rows with no difference or a single value', () => {
+    expect(getBestIndexes([5, 5], 'min')).toEqual([]);
+    expect(getBestIndexes([undefined, 4.5], 'max')).toEqual([]);
+    expect(getBestIndexes([1, 2], undefined)).toEqual([]);
+  });
+});
+
+describe('buildQuotationComparison', () => {
+  it('highlights the cheapest, earliest and highest rated cells', () => {
+    const { columns, rows } = buildQuotationComparison([
+      { quotation: quotationA, booking: { decorService: { rate: 4.8 } } },
+      { quotation: quotationB, booking: { decorService: { rate: 4.5 } } },
+    ]);
+    const row = (key: string) => rows.find((item) => item.key === key)!;
+
+    expect(columns.map((column) => column.quotationCode)).toEqual(['QUO-A', 'QUO-B']);
+    expect(row('deposit').bestIndexes).toEqual([1]);
+    expect(row('deposit').captions).toEqual(['30%', '20%']);
+    expect(row('materialCost').bestIndexes).toEqual([0]);
+    expect(row('constructionCost').bestIndexes).toEqual([1]);
+    expect(row('totalCost').bestIndexes).toEqual([]);
+    expect(row('constructionDate').bestIndexes).toEqual([1]);
+    expect(row('rating').bestIndexes).toEqual([0]);
+  });
+
+  it('drops rows no quotation has a value for', () => {
+    const { rows } = buildQuotationComparison([{ quotation: quotationA }, { quotation: { ...quotationA, quotationCode: 'QUO-A2' } }]);
+
+    expect(rows.map((row) => row.key)).toEqual(['deposit', 'materialCost', 'constructionCost', 'totalCost', 'constructionDate']);
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  diffQuotations,
+  getSnapshotFingerprint,
+  summarizeQuotationDiff,
+  toQuotationSnapshot,
+} from '../quotationDiff';
+
+const baseQuotation = {
+  quotationCode: 'QUO-0001',
+  status: 0,
+  materialCost: 3000000,
+  constructionCost: 2000000,
+  productCost: 0,
+  depositPercentage: 20,
+  materialDetails: [
+    { id: 1, materialName: 'Đèn lồng đỏ', quantity: 10, cost: 150000, totalCost: 1500000, note: '' },
+    { id: 2, materialName: 'Hoa mai giả', quantity: 5, cost: 300000, totalCost: 1500000, note: '' },
+  ],
+  constructionDetails: [
+    { id: 1, taskName: 'Lắp đặt', cost: 100000, unit: 'm2', area: 20, note: '' },
+  ],
+  productDetails: [],
+};
+
+describe('toQuotationSnapshot', () => {
+  it('reads legacy field names and derives the total', () => {
+    const snapshot = toQuotationSnapshot({
+      quotationCode: 'QUO-0002',
+      materialCost: 100,
+      constructionCost: 50,
+      materials: [{ materialName: ' Ribbon ', quantity: 2, cost: 50 }],
+      constructionTasks: [{ taskName: 'Setup', cost: 50, unit: 'm2', area: 1 }],
+    });
+
+    expect(snapshot.totals.totalCost).toBe(150);
+    expect(snapshot.materials).toEqual([{ materialName: 'Ribbon', quantity: 2, cost: 50, totalCost: 100, note: undefined }]);
+    expect(snapshot.construction).toHaveLength(1);
+  });
+
+  it('ignores status in the fingerprint', () => {
+    const pending = toQuotationSnapshot(baseQuotation);
+    const confirmed = toQuotationSnapshot({ ...baseQuotation, status: 1 });
+
+    expect(getSnapshotFingerprint(pending)).toBe(getSnapshotFingerprint(confirmed));
+  });
+});
+
+describe('diffQuotations', () => {
+  it('reports added, removed and changed lines with field changes', () => {
+    const before = toQuotationSnapshot(baseQuotation);
+    const after = toQuotationSnapshot({
+      ...baseQuotation,
+      materialCost: 2700000,
+      materialDetails: [
+        // Recreated row with a new id still matches by name
+        { id: 7, materialName: 'đèn lồng đỏ', quantity: 12, cost: 100000, totalCost: 1200000, note: '' },
+        { id: 8, materialName: 'Câu đối', quantity: 3, cost: 500000, totalCost: 1500000, note: '' },
+      ],
+    });
+
+    const diff = diffQuotations(before, after);
+
+    expect(diff.materials.map((line) => [line.name, line.status])).toEqual([
+      ['đèn lồng đỏ', 'changed'],
+      ['Câu đối', 'added'],
+      ['Hoa mai giả', 'removed'],
+    ]);
+    expect(diff.materials[0].changes.map((change) => [change.field, change.before, change.after])).toEqual([
+      ['quantity', 10, 12],
+      ['cost', 150000, 100000],
+      ['totalCost', 1500000, 1200000],
+    ]);
+    expect(diff.construction[0].status).toBe('unchanged');
+    expect(diff.totals.find((total) => total.field === 'totalCost')).toMatchObject({
+      before: 5000000,
+      after: 4700000,
+      delta: -300000,
+    });
+    expect(summarizeQuotationDiff(diff)).toEqual({ added: 1, removed: 1, changed: 1 });
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('pairs duplicate names in order and matches products by id', () => {
+    const before = toQuotationSnapshot({
+      ...baseQuotation,
+      constructionDetails: [
+        { taskName: 'Lắp đặt', cost: 100000, unit: 'm2', area: 20 },
+        { taskName: 'Lắp đặt', cost: 100000, unit: 'm2', area: 5 },
+      ],
+      productDetails: [{ productId: 3, productName: 'Cây thông', quantity: 1, unitPrice: 900000, totalPrice: 900000 }],
+    });
+    const after = toQuotationSnapshot({
+      ...baseQuotation,
+      constructionDetails: [
+        { taskName: 'Lắp đặt', cost: 100000, unit: 'm2', area: 20 },
+        { taskName: 'Lắp đặt', cost: 100000, unit: 'm2', area: 8 },
+      ],
+      productDetails: [{ productId: 3, productName: 'Cây thông (renamed)', quantity: 2, unitPrice: 900000, totalPrice: 1800000 }],
+    });
+
+    const diff = diffQuotations(before, after);
+
+    expect(diff.construction.map((line) => line.status)).toEqual(['unchanged', 'changed']);
+    expect(diff.construction[1].changes).toEqual([{ field: 'area', label: 'Area', before: 5, after: 8 }]);
+    expect(diff.products[0]).toMatchObject({ status: 'changed', name: 'Cây thông (renamed)' });
+  });
+
+  it('has no changes between identical revisions', () => {
+    const snapshot = toQuotationSnapshot(baseQuotation);
+
+    expect(diffQuotations(snapshot, snapshot).hasChanges).toBe(false);
+  });
+});
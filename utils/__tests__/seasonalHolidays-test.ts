@@ -0,0 +1,61 @@
+import { getHolidayOccurrences, getHolidaysOn, getUpcomingHolidays, suggestUpcomingSeasons } from '../seasonalHolidays';
+
+const day = (value: string) => {
+  const [year, month, date] = value.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+describe('getHolidayOccurrences', () => {
+  it('places solar and lunar holidays in date order', () => {
+    const occurrences = getHolidayOccurrences(2026);
+    const dates = Object.fromEntries(occurrences.map((occurrence) => [occurrence.holiday.key, occurrence.date]));
+
+    expect(dates).toMatchObject({
+      valentine: '2026-02-14',
+      tet: '2026-02-17',
+      lantern: '2026-03-03',
+      midAutumn: '2026-09-25',
+      christmas: '2026-12-25',
+    });
+    expect(occurrences.map((occurrence) => occurrence.date)).toEqual([...occurrences.map((occurrence) => occurrence.date)].sort());
+  });
+
+  it('keeps the lunar date on lunar holidays', () => {
+    const midAutumn = getHolidayOccurrences(2026).find((occurrence) => occurrence.holiday.key === 'midAutumn');
+    expect(midAutumn?.lunar).toMatchObject({ day: 15, month: 8 });
+  });
+});
+
+describe('getHolidaysOn / getUpcomingHolidays', () => {
+  it('finds the holidays of a day', () => {
+    expect(getHolidaysOn(day('2026-02-17')).map((occurrence) => occurrence.holiday.key)).toEqual(['tet']);
+    expect(getHolidaysOn(day('2026-02-18'))).toEqual([]);
+  });
+
+  it('looks into next year near the year end', () => {
+    expect(getUpcomingHolidays(day('2026-12-20'), 20).map((occurrence) => occurrence.date)).toEqual([
+      '2026-12-25',
+      '2027-01-01',
+    ]);
+  });
+});
+
+describe('suggestUpcomingSeasons', () => {
+  const seasons = ['Spring', 'Summer', 'Autumn', 'Winter', 'Tết'];
+
+  it('suggests a season once its booking window opens', () => {
+    expect(suggestUpcomingSeasons(seasons, day('2026-12-01'))).toEqual([
+      expect.objectContaining({ seasonName: 'Winter', daysUntil: 24, date: '2026-12-25' }),
+    ]);
+  });
+
+  it('matches season names without diacritics and uses the catalogue spelling', () => {
+    const [suggestion] = suggestUpcomingSeasons(seasons, day('2027-01-10'));
+    expect(suggestion).toMatchObject({ seasonName: 'Tết', daysUntil: 27 });
+    expect(suggestion.holiday.key).toBe('tet');
+  });
+
+  it('skips holidays the catalogue has no season for', () => {
+    expect(suggestUpcomingSeasons(['Summer'], day('2026-12-01'))).toEqual([]);
+  });
+});
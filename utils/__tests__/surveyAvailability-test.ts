@@ -0,0 +1,107 @@
+import {
+  applySlotTime,
+  getDayAvailability,
+  getPublicHolidays,
+  getTimeSlots,
+  isDaySelectable,
+  IServiceAvailability,
+  toDateKey,
+} from '../surveyAvailability';
+
+const availability: IServiceAvailability = {
+  decorServiceId: 1,
+  slotTimes: ['14:00', '08:00', '10:00'],
+  busyDates: ['2026-03-12'],
+  bookedSlots: [
+    { date: '2026-03-10', time: '08:00' },
+    { date: '2026-03-11', time: '08:00' },
+    { date: '2026-03-11', time: '10:00' },
+    { date: '2026-03-11', time: '14:00' },
+  ],
+};
+const source = { availability };
+const day = (value: string) => {
+  const [year, month, date] = value.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+describe('getPublicHolidays', () => {
+  it('blocks Tết from New Year\'s Eve through the 4th day', () => {
+    const tet = getPublicHolidays(2026).filter((holiday) => holiday.name.startsWith('Tết'));
+    expect(tet.map((holiday) => holiday.date)).toEqual([
+      '2026-02-16',
+      '2026-02-17',
+      '2026-02-18',
+      '2026-02-19',
+      '2026-02-20',
+    ]);
+  });
+
+  it('includes fixed-date and Hùng Kings holidays', () => {
+    const dates = getPublicHolidays(2027).map((holiday) => holiday.date);
+    expect(dates).toEqual(expect.arrayContaining(['2027-01-01', '2027-04-16', '2027-04-30', '2027-05-01', '2027-09-02']));
+  });
+
+  it('computes lunar holidays for any year', () => {
+    const holidays = getPublicHolidays(2040);
+    expect(holidays.find((holiday) => holiday.name === 'Tết Nguyên Đán')?.date).toBe('2040-02-12');
+    expect(holidays.map((holiday) => holiday.date)).toContain('2040-09-01');
+  });
+});
+
+describe('getDayAvailability', () => {
+  it.each([
+    ['2026-03-09', 'available', 3],
+    ['2026-03-10', 'limited', 2],
+    ['2026-03-11', 'full', 0],
+    ['2026-03-12', 'busy', 0],
+    ['2026-04-30', 'holiday', 0],
+  ])('%s is %s', (date, status, free) => {
+    const info = getDayAvailability(day(date), source);
+    expect(info.status).toBe(status);
+    expect(info.freeSlots).toHaveLength(free);
+    expect(info.totalSlots).toBe(3);
+  });
+
+  it('names the holiday', () => {
+    expect(getDayAvailability(day('2026-02-17'), source).holiday).toBe('Tết Nguyên Đán');
+  });
+
+  it('marks days before the minimum date as past', () => {
+    expect(getDayAvailability(day('2026-03-09'), source, day('2026-03-10')).status).toBe('past');
+  });
+
+  it('uses default slots until availability is loaded', () => {
+    const info = getDayAvailability(day('2026-03-11'), {});
+    expect(info.status).toBe('available');
+    expect(info.freeSlots).toEqual(['08:00', '10:00', '14:00', '16:00']);
+  });
+
+  it('accepts a custom holiday list', () => {
+    const info = getDayAvailability(day('2026-03-09'), { ...source, holidays: [{ date: '2026-03-09', name: 'Local festival' }] });
+    expect(info).toMatchObject({ status: 'holiday', holiday: 'Local festival' });
+    expect(isDaySelectable(info)).toBe(false);
+  });
+});
+
+describe('getTimeSlots', () => {
+  it('lists slots in time order with what is still free', () => {
+    expect(getTimeSlots(day('2026-03-10'), source)).toEqual([
+      { time: '08:00', available: false },
+      { time: '10:00', available: true },
+      { time: '14:00', available: true },
+    ]);
+  });
+
+  it('has no free slots on unavailable days', () => {
+    expect(getTimeSlots(day('2026-03-12'), source).every((slot) => !slot.available)).toBe(true);
+  });
+});
+
+describe('date helpers', () => {
+  it('formats local date keys and applies slot times', () => {
+    const date = applySlotTime(day('2026-03-10'), '14:30');
+    expect(toDateKey(date)).toBe('2026-03-10');
+    expect([date.getHours(), date.getMinutes()]).toEqual([14, 30]);
+  });
+});
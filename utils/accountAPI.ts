@@ -1,6 +1,7 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken } from "@/services/auth"; // Your utility to get and set the token
 import { jwtDecode } from "jwt-decode";
+import { normalizeApiResponse, unwrapApiResult } from "./apiResult";
 
 // Get Account Details by User ID
 export const getAccountDetails = async (): Promise<any> => {
@@ -17,7 +18,7 @@ export const getAccountDetails = async (): Promise<any> => {
     const response = await apiClient.get(`/api/AccountProfile/${userId}`);
     
     // Return the user account data from API
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse(response));
   } catch (error) {
     console.error("Error fetching account details: ", error);
     throw error;
@@ -34,7 +35,7 @@ export const getAccountDetailsById = async (userId: string | number): Promise<an
     const response = await apiClient.get(`/api/AccountProfile/${userId}`);
     
     // Return the user account data from API
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse(response));
   } catch (error) {
     console.error(`Error fetching account details for user ${userId}: `, error);
     throw error;
@@ -67,7 +68,7 @@ export const updateAccountDetails = async (userData: any): Promise<any> => {
       }
     });
     
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse(response));
   } catch (error) {
     console.error("Error updating account details: ", error);
     throw error;
@@ -101,7 +102,7 @@ export const updateAvatar = async (formData: FormData): Promise<any> => {
       timeout: 30000, // 30 seconds timeout
     });
     
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse(response));
   } catch (error: any) {
     // Improve error message for network issues
     if (error.message === 'Network Error') {
@@ -0,0 +1,224 @@
+// Shared response envelope used by every utils/*API.ts module.
+// The backend answers in several shapes ({ success, data, errors }, bare arrays,
+// bare objects, { data: { data, totalCount } }, { items, totalCount }) and the
+// axios interceptor may hand us either the body or the full AxiosResponse.
+// Everything goes through normalizeApiResponse so screens only see ApiResult<T>.
+
+export interface ApiPagination {
+  totalCount: number;
+  pageIndex: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface ApiResult<T = any> {
+  success: boolean;
+  data?: T;
+  message: string;
+  errors: string[];
+  // ASP.NET validation errors keyed by field name, when the backend sends them
+  fieldErrors?: Record<string, string[]>;
+  pagination?: ApiPagination;
+}
+
+export type ApiPaginatedResult<T> = ApiResult<T[]> & { data: T[]; pagination: ApiPagination };
+
+const ENVELOPE_KEYS = ["success", "message", "errors", "data"];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// The axios interceptor already unwraps response.data, but direct axios
+// instances and fetch wrappers may still pass the full response object.
+const isAxiosResponseLike = (value: unknown): value is { data: unknown; status: number } =>
+  isPlainObject(value) && "status" in value && "headers" in value && "config" in value && "data" in value;
+
+/**
+ * Flatten the different error shapes the backend returns
+ * (string[], ASP.NET validation { field: string[] }, single string) into string[]
+ */
+export const flattenApiErrors = (errors: unknown): string[] => {
+  if (!errors) return [];
+  if (typeof errors === "string") return [errors];
+  if (Array.isArray(errors)) {
+    return errors
+      .map((error) => (typeof error === "string" ? error : error?.message || error?.description))
+      .filter((error): error is string => typeof error === "string" && error.length > 0);
+  }
+  if (isPlainObject(errors)) {
+    return Object.values(errors).flatMap((value) => flattenApiErrors(value));
+  }
+  return [];
+};
+
+const readFieldErrors = (errors: unknown): Record<string, string[]> | undefined => {
+  if (!isPlainObject(errors)) return undefined;
+  return Object.keys(errors).reduce<Record<string, string[]>>(
+    (acc, field) => ({ ...acc, [field]: flattenApiErrors(errors[field]) }),
+    {}
+  );
+};
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === "string" ? parseInt(value, 10) : value;
+  return typeof parsed === "number" && !isNaN(parsed) ? parsed : fallback;
+};
+
+const readPagination = (source: Record<string, any>, itemCount: number): ApiPagination => {
+  const pageSize = toNumber(source.pageSize, itemCount);
+  const totalCount = toNumber(source.totalCount ?? source.totalItems, itemCount);
+  return {
+    totalCount,
+    pageIndex: toNumber(source.pageIndex ?? source.pageNumber, 1),
+    pageSize,
+    totalPages: toNumber(source.totalPages, pageSize > 0 ? Math.ceil(totalCount / pageSize) : 0),
+  };
+};
+
+// { data: [...], totalCount } or { items: [...], totalCount }
+const extractPage = (value: unknown): { items: any[]; source: Record<string, any> } | null => {
+  if (!isPlainObject(value)) return null;
+  if (Array.isArray(value.items)) return { items: value.items, source: value };
+  if (Array.isArray(value.data) && ("totalCount" in value || "pageIndex" in value || "totalPages" in value)) {
+    return { items: value.data, source: value };
+  }
+  return null;
+};
+
+/**
+ * Normalize any backend response into an ApiResult
+ */
+export const normalizeApiResponse = <T = any>(raw: unknown, fallbackMessage = ""): ApiResult<T> => {
+  const body = isAxiosResponseLike(raw) ? raw.data : raw;
+
+  // 2xx with an empty body (PUT/DELETE endpoints)
+  if (body === null || body === undefined || body === "") {
+    return { success: true, data: undefined, message: fallbackMessage, errors: [] };
+  }
+
+  if (Array.isArray(body)) {
+    return { success: true, data: body as unknown as T, message: fallbackMessage, errors: [] };
+  }
+
+  if (!isPlainObject(body)) {
+    return { success: true, data: body as T, message: fallbackMessage, errors: [] };
+  }
+
+  const hasEnvelope = typeof body.success === "boolean";
+
+  // Envelope without data (e.g. login returns { success, token })
+  let payload: unknown = body.data;
+  if (hasEnvelope && (body.data === undefined || body.data === null)) {
+    const rest = Object.keys(body).filter((key) => !ENVELOPE_KEYS.includes(key));
+    payload = rest.length > 0
+      ? rest.reduce<Record<string, any>>((acc, key) => ({ ...acc, [key]: body[key] }), {})
+      : body.data ?? undefined;
+  } else if (!hasEnvelope) {
+    payload = body;
+  }
+
+  const errors = flattenApiErrors(body.errors);
+  const fieldErrors = readFieldErrors(body.errors);
+  const success = hasEnvelope ? body.success : errors.length === 0 || !!body.data;
+  const message = (typeof body.message === "string" && body.message) || errors.join(", ") || fallbackMessage;
+
+  const page = extractPage(payload) || (hasEnvelope && Array.isArray(payload) ? { items: payload, source: body } : null);
+  if (page) {
+    const hasPagingFields = ["totalCount", "pageIndex", "totalPages"].some((key) => key in page.source);
+    return {
+      success,
+      data: page.items as unknown as T,
+      message,
+      errors,
+      ...(fieldErrors && { fieldErrors }),
+      pagination: hasPagingFields ? readPagination(page.source, page.items.length) : undefined,
+    };
+  }
+
+  return { success, data: payload as T, message, errors, ...(fieldErrors && { fieldErrors }) };
+};
+
+/**
+ * Read a human-readable message from whatever was thrown or rejected.
+ * The interceptor rejects with the response body, so this covers bodies,
+ * AxiosErrors and plain Errors alike.
+ */
+export const getApiErrorMessage = (error: unknown, fallbackMessage: string): string => {
+  if (!error) return fallbackMessage;
+  if (typeof error === "string") return error;
+
+  const source: any = (error as any)?.response?.data ?? error;
+  if (typeof source === "string" && source.length > 0) return source;
+
+  const errors = flattenApiErrors(source?.errors);
+  return source?.message || errors.join(", ") || source?.title || (error as any)?.message || fallbackMessage;
+};
+
+/**
+ * Convert a thrown error or rejected response body into a failed ApiResult
+ */
+export const toApiErrorResult = <T = any>(error: unknown, fallbackMessage: string): ApiResult<T> => {
+  const source: any = (error as any)?.response?.data ?? error;
+  const fieldErrors = readFieldErrors(source?.errors);
+  return {
+    success: false,
+    data: undefined,
+    message: getApiErrorMessage(error, fallbackMessage),
+    errors: flattenApiErrors(source?.errors),
+    ...(fieldErrors && { fieldErrors }),
+  };
+};
+
+/**
+ * Return the payload of a successful result or throw with its message
+ */
+export const unwrapApiResult = <T>(result: ApiResult<T>, fallbackMessage = "An unknown error occurred."): T => {
+  if (!result.success) {
+    throw new Error(result.message || fallbackMessage);
+  }
+  return result.data as T;
+};
+
+/**
+ * Return a successful result unchanged or throw with its message
+ */
+export const assertApiSuccess = <T>(result: ApiResult<T>, fallbackMessage = "An unknown error occurred."): ApiResult<T> => {
+  unwrapApiResult(result, fallbackMessage);
+  return result;
+};
+
+/**
+ * Guarantee list results always carry an array and pagination metadata
+ */
+export const toPaginatedResult = <T>(result: ApiResult<T[]>, pageIndex = 1, pageSize = 10): ApiPaginatedResult<T> => {
+  const data = Array.isArray(result.data) ? result.data : [];
+  return {
+    ...result,
+    data,
+    pagination: result.pagination ?? {
+      totalCount: data.length,
+      pageIndex,
+      pageSize,
+      totalPages: pageSize > 0 ? Math.ceil(data.length / pageSize) : 0,
+    },
+  };
+};
+
+/**
+ * Cut one page out of a full list, for endpoints that ignore paging parameters
+ */
+export const slicePage = <T>(items: T[], pageIndex = 1, pageSize = 10): ApiPaginatedResult<T> => {
+  const start = (pageIndex - 1) * pageSize;
+  return {
+    success: true,
+    message: "",
+    errors: [],
+    data: items.slice(start, start + pageSize),
+    pagination: {
+      totalCount: items.length,
+      pageIndex,
+      pageSize,
+      totalPages: pageSize > 0 ? Math.ceil(items.length / pageSize) : 0,
+    },
+  };
+};
@@ -1,24 +1,71 @@
 import {initApiClient} from "@/config/axiosConfig";
 import { LogBox } from "react-native";
+import { ApiResult, getApiErrorMessage, normalizeApiResponse } from "./apiResult";
 
 // ✅ Ẩn lỗi Axios 400 từ LogBox
 LogBox.ignoreLogs(["AxiosError: Request failed with status code 400"]);
 
-interface IBackendRes<T> {
-  success?: boolean;
-  token?: string;
-  errors?: string[];
-  requiresTwoFactor?: boolean;
-  data?: T;
-}
-
 interface ILoginResponse {
   success?: any;
   token: string;
+  // Only issued when the backend supports token refresh
+  refreshToken?: string;
   requiresTwoFactor: boolean;
   errors?: string[];
 }
 
+// Auth endpoints always reply with the { success, errors } envelope
+const readAuthResult = <T>(response: unknown, failureMessage: string): ApiResult<T> => {
+  console.log("🟢 Full API Response:", response);
+
+  // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
+  if (!response || typeof (response as any).success === "undefined") {
+    console.error("🔴 API Response không hợp lệ:", response);
+    throw new Error("Invalid response from server.");
+  }
+
+  const result = normalizeApiResponse<T>(response);
+
+  // ✅ Kiểm tra nếu API trả về lỗi
+  if (!result.success) {
+    console.error("🔴 Auth request failed:", result);
+    throw new Error(result.errors.join(", ") || failureMessage);
+  }
+
+  return result;
+};
+
+// Errors thrown by readAuthResult are already user-facing; rejected bodies still need a message
+const toAuthError = (error: any, failureMessage: string): Error => {
+  // ✅ Nếu lỗi là mất kết nối
+  if (error?.message?.includes("Network Error")) {
+    return new Error("⚠️ Cannot connect to server. Please check your internet connection.");
+  }
+
+  if (error instanceof Error) {
+    return error;
+  }
+
+  return new Error(getApiErrorMessage(error, failureMessage));
+};
+
+// Login-style responses carry the token next to the envelope rather than inside data
+const readLoginToken = (result: ApiResult<Partial<ILoginResponse>>, failureMessage: string): ILoginResponse => {
+  // ✅ Kiểm tra nếu cần 2FA (Có thể bỏ nếu không dùng)
+  if (result.data?.requiresTwoFactor) {
+    console.warn("⚠️ Requires Two-Factor Authentication!");
+    throw new Error("Requires two-factor authentication.");
+  }
+
+  // ✅ Trả về token nếu có
+  if (result.data?.token) {
+    console.log("🔵 API Token:", result.data.token);
+    return { token: result.data.token, refreshToken: result.data.refreshToken, requiresTwoFactor: false };
+  }
+
+  throw new Error(failureMessage);
+};
+
 export const loginAPI = async (email: string, password: string): Promise<ILoginResponse> => {
   const url = "/api/Auth/login";
 
@@ -26,53 +73,16 @@ export const loginAPI = async (email: string, password: string): Promise<ILoginR
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<ILoginResponse> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       email: email,
       password: password,
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // ✅ Kiểm tra nếu API trả về lỗi
-    if (!response.success) {
-      console.error("🔴 Login failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "Invalid email or password."));
-    }
-
-    // ✅ Kiểm tra nếu cần 2FA (Có thể bỏ nếu không dùng)
-    if (response.requiresTwoFactor) {
-      console.warn("⚠️ Requires Two-Factor Authentication!");
-      return Promise.reject(new Error("Requires two-factor authentication."));
-    }
-
-    // ✅ Trả về token nếu có
-    if (response.token) {
-      console.log("🔵 API Token:", response.token);
-      return { token: response.token, requiresTwoFactor: false };
-    }
-
-    return Promise.reject(new Error("Login failed: No token received."));
+    const result = readAuthResult<Partial<ILoginResponse>>(response, "Invalid email or password.");
+    return readLoginToken(result, "Login failed: No token received.");
   } catch (error: any) {
     console.error("🔴 Login API Error:", error);
-
-    // ✅ Nếu lỗi là mất kết nối
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // ✅ Nếu lỗi là do API trả về mã 400 (Sai email/mật khẩu)
-    if (error.response?.status === 400) {
-      return Promise.reject(new Error("Invalid email or password."));
-    }
-
-    // ✅ Nếu lỗi do mất kết nối hoặc lỗi server
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(toAuthError(error, "Invalid email or password."));
   }
 };
 export const googleLoginAPI = async (idToken: string): Promise<ILoginResponse> => {
@@ -82,52 +92,15 @@ export const googleLoginAPI = async (idToken: string): Promise<ILoginResponse> =
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<ILoginResponse> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       idToken: idToken, // Gửi idToken từ Google
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // ✅ Kiểm tra nếu API trả về lỗi
-    if (!response.success) {
-      console.error("🔴 Google login failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "Google login failed."));
-    }
-
-    // ✅ Kiểm tra nếu cần 2FA
-    if (response.requiresTwoFactor) {
-      console.warn("⚠️ Requires Two-Factor Authentication!");
-      return Promise.reject(new Error("Requires two-factor authentication."));
-    }
-
-    // ✅ Trả về token nếu có
-    if (response.token) {
-      console.log("🔵 API Token:", response.token);
-      return { token: response.token, requiresTwoFactor: false };
-    }
-
-    return Promise.reject(new Error("Google login failed: No token received."));
+    const result = readAuthResult<Partial<ILoginResponse>>(response, "Google login failed.");
+    return readLoginToken(result, "Google login failed: No token received.");
   } catch (error: any) {
     console.error("🔴 Google Login API Error:", error);
-
-    // ✅ Nếu lỗi là mất kết nối
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // ✅ Nếu lỗi là do API trả về mã 400 (Sai token)
-    if (error.response?.status === 400) {
-      return Promise.reject(new Error("Invalid Google token."));
-    }
-
-    // ✅ Nếu lỗi do mất kết nối hoặc lỗi server
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(toAuthError(error, "Invalid Google token."));
   }
 };
 export const registerCustomerAPI = async (
@@ -145,7 +118,7 @@ export const registerCustomerAPI = async (
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<any> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       email,
       password,
       firstName,
@@ -155,46 +128,11 @@ export const registerCustomerAPI = async (
       gender
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // Check if API response is valid
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // Check if API returned an error
-    if (!response.success) {
-      console.error("🔴 Registration failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "Registration failed."));
-    }
-
     // Return success response
-    return response.data;
+    return readAuthResult(response, "Registration failed.").data;
   } catch (error: any) {
     console.error("🔴 Registration API Error:", error);
-
-    // Network connection error
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // Handle specific error codes
-    if (error.response?.status === 400) {
-      // Parse validation errors if available
-      const errorData = error.response?.data;
-      if (errorData?.errors && Array.isArray(errorData.errors)) {
-        return Promise.reject(new Error(errorData.errors.join(", ")));
-      }
-      return Promise.reject(new Error("Invalid registration data."));
-    }
-
-    if (error.response?.status === 409) {
-      return Promise.reject(new Error("Email or username already exists."));
-    }
-
-    // General network or server error
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(toAuthError(error, "Invalid registration data."));
   }
 };
 export const verifyEmailAPI = async (email: string, otp: string): Promise<any> => {
@@ -204,55 +142,16 @@ export const verifyEmailAPI = async (email: string, otp: string): Promise<any> =
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<any> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       email,
       OTP: otp // Đổi tên trường từ verificationCode sang OTP theo yêu cầu API
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // ✅ Kiểm tra nếu API trả về lỗi
-    if (!response.success) {
-      console.error("🔴 Verification failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "Verification failed."));
-    }
-
     // ✅ Trả về dữ liệu
-    return response.data;
+    return readAuthResult(response, "Verification failed.").data;
   } catch (error: any) {
-    console.error("🔴 Email Verification API Error:", error.response?.data || error);
-
-    // ✅ Nếu lỗi là mất kết nối
-    if (error.message?.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // ✅ Nếu lỗi là do API trả về mã 400
-    if (error.response?.status === 400) {
-      const errorData = error.response?.data;
-      
-      // Xử lý lỗi validation cụ thể từ API
-      if (errorData?.errors) {
-        const errorMessages = [];
-        for (const field in errorData.errors) {
-          errorMessages.push(...errorData.errors[field]);
-        }
-        if (errorMessages.length > 0) {
-          return Promise.reject(new Error(errorMessages.join(", ")));
-        }
-      }
-      
-      return Promise.reject(new Error("Invalid verification code."));
-    }
-
-    // ✅ Nếu lỗi do mất kết nối hoặc lỗi server
-    return Promise.reject(new Error("Network error, please try again."));
+    console.error("🔴 Email Verification API Error:", error);
+    return Promise.reject(toAuthError(error, "Invalid verification code."));
   }
 };
 export const resendVerificationCodeAPI = async (email: string): Promise<any> => {
@@ -262,44 +161,15 @@ export const resendVerificationCodeAPI = async (email: string): Promise<any> =>
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<any> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       email
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // ✅ Kiểm tra nếu API trả về lỗi
-    if (!response.success) {
-      console.error("🔴 Resend verification failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "Failed to resend verification code."));
-    }
-
     // ✅ Trả về dữ liệu
-    return response.data;
+    return readAuthResult(response, "Failed to resend verification code.").data;
   } catch (error: any) {
     console.error("🔴 Resend Verification API Error:", error);
-
-    // ✅ Nếu lỗi là mất kết nối
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // ✅ Nếu lỗi là do API trả về mã 400
-    if (error.response?.status === 400) {
-      const errorMsg = error.response?.data?.errors ? 
-        error.response.data.errors.join(", ") : 
-        "Invalid email address.";
-      return Promise.reject(new Error(errorMsg));
-    }
-
-    // ✅ Nếu lỗi do mất kết nối hoặc lỗi server
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(toAuthError(error, "Invalid email address."));
   }
 };
 export const verifyOtpAPI = async (email: string, otp: string): Promise<any> => {
@@ -309,45 +179,16 @@ export const verifyOtpAPI = async (email: string, otp: string): Promise<any> =>
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<any> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       email,
       otp
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // ✅ Kiểm tra nếu API trả về lỗi
-    if (!response.success) {
-      console.error("🔴 OTP verification failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "OTP verification failed."));
-    }
-
     // ✅ Trả về dữ liệu
-    return response.data;
+    return readAuthResult(response, "OTP verification failed.").data;
   } catch (error: any) {
     console.error("🔴 OTP Verification API Error:", error);
-
-    // ✅ Nếu lỗi là mất kết nối
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // ✅ Nếu lỗi là do API trả về mã 400 (OTP không hợp lệ)
-    if (error.response?.status === 400) {
-      const errorMsg = error.response?.data?.errors ? 
-        error.response.data.errors.join(", ") : 
-        "The OTP field is required.";
-      return Promise.reject(new Error(errorMsg));
-    }
-
-    // ✅ Nếu lỗi do mất kết nối hoặc lỗi server
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(toAuthError(error, "The OTP field is required."));
   }
 };
 
@@ -358,44 +199,15 @@ export const forgotPasswordAPI = async (email: string): Promise<any> => {
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<any> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       email
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // ✅ Kiểm tra nếu API trả về lỗi
-    if (!response.success) {
-      console.error("🔴 Forgot password request failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "Failed to send password reset email."));
-    }
-
     // ✅ Trả về dữ liệu
-    return response.data;
+    return readAuthResult(response, "Failed to send password reset email.").data;
   } catch (error: any) {
     console.error("🔴 Forgot Password API Error:", error);
-
-    // ✅ Nếu lỗi là mất kết nối
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // ✅ Nếu lỗi là do API trả về mã 400
-    if (error.response?.status === 400) {
-      const errorMsg = error.response?.data?.errors ? 
-        error.response.data.errors.join(", ") : 
-        "Invalid email address.";
-      return Promise.reject(new Error(errorMsg));
-    }
-
-    // ✅ Nếu lỗi do mất kết nối hoặc lỗi server
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(toAuthError(error, "Invalid email address."));
   }
 };
 
@@ -406,58 +218,23 @@ export const resetPasswordAPI = async (otp: string, newPassword: string): Promis
   console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url);
 
   try {
-    const response: IBackendRes<any> = await apiClient.post(url, {
+    const response = await apiClient.post(url, {
       otp,
       newPassword
     });
 
-    console.log("🟢 Full API Response:", response);
-
-    // ✅ Kiểm tra nếu API không phản hồi đúng định dạng
-    if (!response || typeof response.success === "undefined") {
-      console.error("🔴 API Response không hợp lệ:", response);
-      return Promise.reject(new Error("Invalid response from server."));
-    }
-
-    // ✅ Kiểm tra nếu API trả về lỗi
-    if (!response.success) {
-      console.error("🔴 Reset password failed:", response);
-      return Promise.reject(new Error(response.errors?.join(", ") || "Failed to reset password."));
-    }
+    const result = readAuthResult<any>(response, "Failed to reset password.");
 
     // ✅ Trả về thông tin login nếu có
-    if (response.token) {
-      console.log("🔵 API Token:", response.token);
-      return { token: response.token, requiresTwoFactor: false };
+    if (result.data?.token) {
+      console.log("🔵 API Token:", result.data.token);
+      return { token: result.data.token, requiresTwoFactor: false };
     }
 
     // ✅ Trả về thành công nếu không có token
-    return response.data;
+    return result.data;
   } catch (error: any) {
     console.error("🔴 Reset Password API Error:", error);
-
-    // ✅ Nếu lỗi là mất kết nối
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    // ✅ Nếu lỗi là do API trả về mã 400 (OTP không hợp lệ hoặc mật khẩu không đạt yêu cầu)
-    if (error.response?.status === 400) {
-      const errorData = error.response?.data;
-      if (errorData?.errors) {
-        const errorMessages = [];
-        for (const field in errorData.errors) {
-          errorMessages.push(...errorData.errors[field]);
-        }
-        if (errorMessages.length > 0) {
-          return Promise.reject(new Error(errorMessages.join(", ")));
-        }
-      }
-      
-      return Promise.reject(new Error("Invalid OTP or password requirements not met."));
-    }
-
-    // ✅ Nếu lỗi do mất kết nối hoặc lỗi server
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(toAuthError(error, "Invalid OTP or password requirements not met."));
   }
-};
\ No newline at end of file
+};
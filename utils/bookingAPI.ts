@@ -1,9 +1,18 @@
 import { AxiosResponse } from 'axios';
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken } from "@/services/auth";
+import {
+  ApiPaginatedResult,
+  ApiResult,
+  normalizeApiResponse,
+  toApiErrorResult,
+  toPaginatedResult,
+} from "./apiResult";
 
-// Define booking status type
-export type BookingStatusCode = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13;
+import { BookingStatusCode } from "./bookingStatus";
+
+// Booking status codes and their allowed transitions live in bookingStatus.ts
+export type { BookingStatusCode };
 
 // Booking interface
 export interface IBooking {
@@ -76,13 +85,7 @@ export interface IBookingRequest {
 }
 
 // Response interfaces
-export interface IBookingResponse {
-  success: boolean;
-  booking?: IBooking;
-  message?: string;
-  errors?: string[] | Record<string, string[]>; // Allow both array and object formats
-  data?: IBooking;
-}
+export type IBookingResponse = ApiResult<IBooking>;
 
 export interface IBookingListResponse {
   success: boolean;
@@ -91,23 +94,7 @@ export interface IBookingListResponse {
   message?: string;
 }
 
-export interface IPaginatedBookingsResponse {
-  success?: boolean;
-  message?: string;
-  errors?: any[];
-  data?: {
-    data: IBooking[];
-    totalCount: number;
-    pageIndex?: number;
-    pageSize?: number;
-    totalPages?: number;
-  };
-  items?: IBooking[];
-  totalCount?: number;
-  pageIndex?: number;
-  pageSize?: number;
-  totalPages?: number;
-}
+export type IPaginatedBookingsResponse = ApiPaginatedResult<IBooking>;
 
 export interface IBookingFilterOptions {
   Status?: number;
@@ -126,12 +113,7 @@ export interface ICancelType {
   isActive?: boolean;
 }
 
-export interface ICancelTypeResponse {
-  success: boolean;
-  message?: string;
-  errors?: string[];
-  data?: ICancelType[];
-}
+export type ICancelTypeResponse = ApiResult<ICancelType[]>;
 
 /**
  * Helper function to handle multiple theme colors
@@ -239,16 +221,11 @@ export const createBookingAPI = async (bookingData: IBookingRequest): Promise<IB
     const responseData = await response.json();
     console.log("Raw booking API response:", responseData);
     
-    // Return the response data directly
-    return responseData;
+    return normalizeApiResponse<IBooking>(responseData);
     
   } catch (error: any) {
     console.error("Error in createBookingAPI:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to create booking",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to create booking");
   }
 };
 
@@ -331,15 +308,11 @@ export const createBookingAPIAlternative = async (bookingData: IBookingRequest):
     const responseData = await response.json();
     console.log("📥 Alternative format response:", responseData);
     
-    return responseData;
+    return normalizeApiResponse<IBooking>(responseData);
     
   } catch (error: any) {
     console.error("❌ Error in createBookingAPIAlternative:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to create booking with alternative format",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to create booking with alternative format");
   }
 };
 
@@ -415,15 +388,11 @@ export const createBookingAPIAxios = async (bookingData: IBookingRequest): Promi
     });
     
     console.log("Fresh axios response:", response.data);
-    return response.data;
+    return normalizeApiResponse<IBooking>(response);
     
   } catch (error: any) {
     console.error("Error in createBookingAPIAxios:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to create booking",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to create booking");
   }
 };
 
@@ -464,23 +433,15 @@ export const getPaginatedBookingsForCustomerAPI = async (
       }
     });
     
-    return response.data || {
-      items: [],
-      totalCount: 0,
-      pageIndex: PageIndex,
-      pageSize: PageSize,
-      totalPages: 0
-    };
+    return toPaginatedResult(normalizeApiResponse<IBooking[]>(response), PageIndex, PageSize);
     
   } catch (error: any) {
     console.error("Error fetching bookings:", error);
-    return {
-      items: [],
-      totalCount: 0,
-      pageIndex: 1,
-      pageSize: 10,
-      totalPages: 0
-    };
+    return toPaginatedResult(
+      toApiErrorResult<IBooking[]>(error, "Failed to fetch bookings"),
+      options.PageIndex ?? 1,
+      options.PageSize ?? 10
+    );
   }
 };
 
@@ -508,18 +469,11 @@ export const requestCancelBookingAPI = async (
       }
     });
     
-    return response.data || {
-      success: true,
-      message: "Booking cancellation requested successfully"
-    };
+    return normalizeApiResponse<IBooking>(response, "Booking cancellation requested successfully");
     
   } catch (error: any) {
     console.error("Error requesting cancellation:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to request cancellation",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to request cancellation");
   }
 };
 
@@ -538,18 +492,11 @@ export const confirmBookingAPI = async (bookingCode: string): Promise<IBookingRe
       }
     });
     
-    return response.data || {
-      success: true,
-      message: "Booking confirmed successfully"
-    };
+    return normalizeApiResponse<IBooking>(response, "Booking confirmed successfully");
     
   } catch (error: any) {
     console.error("Error confirming booking:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to confirm booking",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to confirm booking");
   }
 };
 
@@ -571,18 +518,11 @@ export const makeBookingDepositAPI = async (
       }
     });
     
-    return response.data || {
-      success: false,
-      message: "Failed to make deposit"
-    };
+    return normalizeApiResponse<IBooking>(response);
     
   } catch (error: any) {
     console.error("Error making deposit:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to make deposit",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to make deposit");
   }
 };
 
@@ -601,26 +541,11 @@ export const getAllCancelTypesAPI = async (): Promise<ICancelTypeResponse> => {
       }
     });
     
-    // Handle different response formats
-    if (response.data) {
-      if (response.data.success !== undefined) {
-        return response.data;
-      } else if (Array.isArray(response.data)) {
-        return { success: true, data: response.data };
-      } else if (response.data.data && Array.isArray(response.data.data)) {
-        return { success: true, data: response.data.data };
-      }
-    }
-    
-    return response.data;
+    return normalizeApiResponse<ICancelType[]>(response);
     
   } catch (error: any) {
     console.error("Error fetching cancel types:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to retrieve cancellation types",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to retrieve cancellation types");
   }
 };
 
@@ -639,21 +564,14 @@ export const processCommitDepositAPI = async (bookingCode: string): Promise<IBoo
       }
     });
     
-    return response.data || {
-      success: true,
-      message: "Deposit processed successfully"
-    };
+    return normalizeApiResponse<IBooking>(response, "Deposit processed successfully");
     
   } catch (error: any) {
     console.error("Error processing deposit:", error);
-    return {
-      success: false,
-      message: error.message || "Failed to process deposit",
-      errors: []
-    };
+    return toApiErrorResult(error, "Failed to process deposit");
   }
 };
-export const getAddedProductAPI = async (serviceId: number): Promise<any> => {
+export const getAddedProductAPI = async (serviceId: number): Promise<ApiResult<any[]>> => {
   try {
     const apiClient = await initApiClient();
     const token = await getToken();
@@ -680,28 +598,12 @@ export const getAddedProductAPI = async (serviceId: number): Promise<any> => {
       }
     );
   
-    return response.data;
+    return normalizeApiResponse<any[]>(response);
     
   } catch (error: any) {
     console.error("🔴 Get Added Products API Error:", error);
     
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to get added products",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    return {
-      success: false,
-      message: error.message || "Failed to get added products",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to get added products");
   }
 };
 
@@ -719,7 +621,7 @@ export const getPaginatedRelatedProductAPI = async (
     sortBy?: string;
     descending?: boolean;
   } = {}
-): Promise<any> => {
+): Promise<ApiResult<any[]>> => {
   try {
     const apiClient = await initApiClient();
     const token = await getToken();
@@ -762,29 +664,12 @@ export const getPaginatedRelatedProductAPI = async (
       }
     );
   
-    // Return the API response
-    return response.data;
+    return toPaginatedResult(normalizeApiResponse<any[]>(response), options.pageIndex, options.pageSize);
     
   } catch (error: any) {
     console.error("🔴 Get Related Products API Error:", error);
     
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to get related products",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    return {
-      success: false,
-      message: error.message || "Failed to get related products",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to get related products");
   }
 };
 
@@ -796,7 +681,7 @@ export const addProductToServiceHolderAPI = async (
   serviceId: number,
   productId: number,
   quantity: number
-): Promise<any> => {
+): Promise<ApiResult> => {
   try {
     console.log(`🔍 Adding product ${productId} (quantity: ${quantity}) to service ${serviceId}`);
     const apiClient = await initApiClient();
@@ -839,28 +724,12 @@ export const addProductToServiceHolderAPI = async (
       }
     );
     
-    return response.data;
+    return normalizeApiResponse(response);
     
   } catch (error: any) {
     console.error("🔴 Add Product To Service Holder API Error:", error);
     
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to add product to service",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    return {
-      success: false,
-      message: error.message || "Failed to add product to service",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to add product to service");
   }
 };
 
@@ -871,7 +740,7 @@ export const addProductToServiceHolderAPI = async (
 export const removeProductFromServiceHolderAPI = async (
   serviceId: number, 
   productId: number
-): Promise<any> => {
+): Promise<ApiResult> => {
   try {
     console.log(`🔍 Removing product ${productId} from service ${serviceId}`);
     const apiClient = await initApiClient();
@@ -903,27 +772,11 @@ export const removeProductFromServiceHolderAPI = async (
       }
     );
     
-    return response.data;
+    return normalizeApiResponse(response);
     
   } catch (error: any) {
     console.error("🔴 Remove Product From Service Holder API Error:", error);
     
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to remove product from service",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    return {
-      success: false,
-      message: error.message || "Failed to remove product from service",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to remove product from service");
   }
 };
\ No newline at end of file
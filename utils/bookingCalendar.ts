@@ -0,0 +1,238 @@
+// Booking schedule as calendar events (survey visit, construction window, expected completion)
+// and their iCalendar (.ics, RFC 5545) form. Device calendar writes live in
+// services/CalendarExportService.ts; this module has no native dependencies.
+import { APP_SCHEME } from "./deepLinks";
+import { getBookingStatusCategory } from "./bookingStatus";
+
+export type BookingCalendarEventKind = "survey" | "construction" | "completion";
+
+export interface IBookingCalendarEvent {
+  uid: string; // Stable per booking and kind, so re-importing updates instead of duplicating
+  kind: BookingCalendarEventKind;
+  bookingCode: string;
+  title: string;
+  start: Date;
+  end: Date; // Exclusive; for all-day events the day after the last day
+  allDay: boolean;
+  location?: string;
+  notes: string;
+  url: string;
+}
+
+// The booking fields the calendar export depends on
+export interface ICalendarBooking {
+  bookingCode: string;
+  status: number;
+  address?: string;
+  surveyDate?: string;
+  timeSlots?: { surveyDate: string }[];
+  expectedCompletion?: string;
+  decorService?: { style?: string };
+  provider?: { businessName?: string; phone?: string };
+}
+
+export interface ICalendarBookingExtras {
+  constructionDate?: string; // From the booking's quotation / contract
+}
+
+// Surveys have no end time in the API; block an hour
+export const SURVEY_DURATION_MS = 60 * 60 * 1000;
+
+const PRODUCT_ID = "-//Season Decor//Bookings//EN";
+const UID_DOMAIN = "seasondecor.app";
+// RFC 5545 lines are at most 75 octets, continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+interface ICalendarDate {
+  date: Date;
+  allDay: boolean;
+}
+
+/**
+ * Dates without a time of day (`2026-03-14`, or midnight as the backend sends them) become
+ * all-day dates on that calendar day; anything else is a point in time
+ */
+export const parseCalendarDate = (value?: string): ICalendarDate | null => {
+  if (!value) return null;
+
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T00:00(?::00(?:\.0+)?)?Z?)?$/);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    return { date: new Date(year, month - 1, day), allDay: true };
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : { date, allDay: false };
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const serviceName = (booking: ICalendarBooking): string => booking.decorService?.style || booking.bookingCode;
+
+const bookingUrl = (booking: ICalendarBooking): string =>
+  `${APP_SCHEME}://booking/booking-detail/${encodeURIComponent(booking.bookingCode)}`;
+
+const describe = (booking: ICalendarBooking, lines: string[]): string =>
+  [
+    ...lines,
+    `Booking: ${booking.bookingCode}`,
+    booking.provider?.businessName ? `Provider: ${booking.provider.businessName}` : "",
+    booking.provider?.phone ? `Phone: ${booking.provider.phone}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+const makeEvent = (
+  booking: ICalendarBooking,
+  kind: BookingCalendarEventKind,
+  fields: Pick<IBookingCalendarEvent, "title" | "start" | "end" | "allDay" | "notes">
+): IBookingCalendarEvent => ({
+  uid: `${booking.bookingCode}-${kind}@${UID_DOMAIN}`,
+  kind,
+  bookingCode: booking.bookingCode,
+  location: booking.address || undefined,
+  url: bookingUrl(booking),
+  ...fields,
+});
+
+/**
+ * Calendar events for one booking. Cancelled bookings have none; the survey uses the booked
+ * time slot when there is one, and the construction window runs from the construction date
+ * to the expected completion (or just marks the completion day when the start is unknown).
+ */
+export const buildBookingCalendarEvents = (
+  booking: ICalendarBooking,
+  extras: ICalendarBookingExtras = {}
+): IBookingCalendarEvent[] => {
+  if (getBookingStatusCategory(booking.status) === "cancelled") return [];
+
+  const events: IBookingCalendarEvent[] = [];
+  const name = serviceName(booking);
+
+  const survey = parseCalendarDate(booking.timeSlots?.[0]?.surveyDate) ?? parseCalendarDate(booking.surveyDate);
+  if (survey) {
+    events.push(
+      makeEvent(booking, "survey", {
+        title: `Decor survey: ${name}`,
+        start: survey.date,
+        end: survey.allDay ? addDays(survey.date, 1) : new Date(survey.date.getTime() + SURVEY_DURATION_MS),
+        allDay: survey.allDay,
+        notes: describe(booking, ["The provider visits to measure the space and discuss the design."]),
+      })
+    );
+  }
+
+  const constructionStart = parseCalendarDate(extras.constructionDate);
+  const completion = parseCalendarDate(booking.expectedCompletion);
+
+  if (constructionStart) {
+    const firstDay = startOfDay(constructionStart.date);
+    const lastDay = completion && completion.date >= firstDay ? startOfDay(completion.date) : firstDay;
+    events.push(
+      makeEvent(booking, "construction", {
+        title: `Decor installation: ${name}`,
+        start: firstDay,
+        end: addDays(lastDay, 1),
+        allDay: true,
+        notes: describe(booking, ["Decoration installation. Please keep the space accessible."]),
+      })
+    );
+  } else if (completion) {
+    const day = startOfDay(completion.date);
+    events.push(
+      makeEvent(booking, "completion", {
+        title: `Decor completion: ${name}`,
+        start: day,
+        end: addDays(day, 1),
+        allDay: true,
+        notes: describe(booking, ["Expected completion of the decoration."]),
+      })
+    );
+  }
+
+  return events;
+};
+
+/**
+ * Bookings still worth putting in a calendar: not cancelled and not completed
+ */
+export const isActiveCalendarBooking = (booking: Pick<ICalendarBooking, "status">): boolean => {
+  const category = getBookingStatusCategory(booking.status);
+  return category !== "cancelled" && category !== "completed";
+};
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const formatDateValue = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatUtcDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export const escapeICalText = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const octets = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+export const foldICalLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = octets(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const dateProperty = (name: string, date: Date, allDay: boolean): string =>
+  allDay ? `${name};VALUE=DATE:${formatDateValue(date)}` : `${name}:${formatUtcDateTime(date)}`;
+
+/**
+ * Serialize events as an iCalendar document (CRLF line endings)
+ */
+export const toICalendar = (events: IBookingCalendarEvent[], now: Date = new Date()): string => {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      dateProperty("DTSTART", event.start, event.allDay),
+      dateProperty("DTEND", event.end, event.allDay),
+      `SUMMARY:${escapeICalText(event.title)}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+    lines.push(`DESCRIPTION:${escapeICalText(event.notes)}`, `URL:${event.url}`, "END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+};
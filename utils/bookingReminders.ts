@@ -0,0 +1,197 @@
+// Local reminders derived from bookings: the day before the survey, deposit and final
+// payment due, and a review prompt after completion. Scheduling lives in
+// services/BookingReminderService.ts; this module only decides what should be pending.
+import { BookingStatus } from "./bookingStatus";
+
+export type BookingReminderKind = "survey" | "deposit" | "finalPayment" | "review";
+
+export interface IBookingReminder {
+  id: string; // `${bookingCode}:${kind}`, stable across syncs
+  kind: BookingReminderKind;
+  bookingCode: string;
+  title: string;
+  body: string;
+  triggerAt: number; // epoch ms
+  // Changes whenever the inputs of the reminder change, so it is rescheduled
+  fingerprint: string;
+  url: string; // Deep link opened when the reminder is tapped
+}
+
+// The booking fields reminders depend on
+export interface IReminderBooking {
+  bookingCode: string;
+  status: number;
+  surveyDate?: string;
+  timeSlots?: { surveyDate: string }[];
+  expectedCompletion?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  isReviewed?: boolean;
+  decorService?: { style?: string };
+}
+
+// Extra payment details fetched for bookings waiting on the final payment
+export interface IReminderPaymentInfo {
+  finalPaymentAmount?: number;
+  isFinalPaid?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Payment and review reminders go out a day after the booking reached that status
+export const PAYMENT_REMINDER_DELAY_MS = DAY_MS;
+export const REVIEW_REMINDER_DELAY_MS = DAY_MS;
+// When the day-before reminder is already past, remind a few hours before instead
+const SURVEY_LAST_CALL_MS = 2 * HOUR_MS;
+// Reminders that are not tied to an appointment are moved into waking hours
+const DAYTIME_START_HOUR = 9;
+const DAYTIME_END_HOUR = 20;
+
+const toTime = (value?: string): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("vi-VN", { style: "currency", currency: "VND" }).format(amount);
+
+/**
+ * Move a time into waking hours (09:00–20:00 local); later times go to 09:00 the next day
+ */
+export const toDaytime = (time: number): number => {
+  const date = new Date(time);
+  if (date.getHours() < DAYTIME_START_HOUR) {
+    date.setHours(DAYTIME_START_HOUR, 0, 0, 0);
+  } else if (date.getHours() >= DAYTIME_END_HOUR) {
+    date.setDate(date.getDate() + 1);
+    date.setHours(DAYTIME_START_HOUR, 0, 0, 0);
+  }
+  return date.getTime();
+};
+
+// The booked time slot wins over the requested survey date
+const getSurveyTime = (booking: IReminderBooking): number | null =>
+  toTime(booking.timeSlots?.[0]?.surveyDate) ?? toTime(booking.surveyDate);
+
+// When the booking last changed, i.e. roughly when it entered its current status
+const getStatusTime = (booking: IReminderBooking): number | null =>
+  toTime(booking.updatedAt) ?? toTime(booking.createdAt);
+
+const serviceName = (booking: IReminderBooking): string =>
+  booking.decorService?.style ? `"${booking.decorService.style}"` : booking.bookingCode;
+
+const surveyReminder = (booking: IReminderBooking, now: number): IBookingReminder | null => {
+  const surveyTime = getSurveyTime(booking);
+  if (surveyTime === null || surveyTime <= now) return null;
+
+  const dayBefore = surveyTime - DAY_MS;
+  const triggerAt = dayBefore > now ? dayBefore : surveyTime - SURVEY_LAST_CALL_MS;
+  if (triggerAt <= now) return null;
+
+  const when = new Date(surveyTime).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return {
+    id: `${booking.bookingCode}:survey`,
+    kind: "survey",
+    bookingCode: booking.bookingCode,
+    title: dayBefore > now ? "Survey tomorrow" : "Survey today",
+    body: `The provider visits for ${serviceName(booking)} on ${when}. Please make sure someone is home.`,
+    triggerAt,
+    fingerprint: `survey:${surveyTime}`,
+    url: `/booking/booking-detail/${booking.bookingCode}`,
+  };
+};
+
+const paymentReminder = (
+  booking: IReminderBooking,
+  kind: "deposit" | "finalPayment",
+  amount: number | undefined,
+  now: number
+): IBookingReminder => {
+  const statusTime = getStatusTime(booking);
+  const label = kind === "deposit" ? "deposit" : "final payment";
+  const amountText = amount ? ` of ${formatCurrency(amount)}` : "";
+
+  return {
+    id: `${booking.bookingCode}:${kind}`,
+    kind,
+    bookingCode: booking.bookingCode,
+    title: kind === "deposit" ? "Deposit due" : "Final payment due",
+    body: `The ${label}${amountText} for ${serviceName(booking)} is waiting. Pay it to keep your booking on schedule.`,
+    triggerAt: toDaytime((statusTime ?? now) + PAYMENT_REMINDER_DELAY_MS),
+    fingerprint: `${kind}:${statusTime ?? ""}:${amount ?? ""}`,
+    url: `/booking/booking-detail/${booking.bookingCode}`,
+  };
+};
+
+const reviewReminder = (booking: IReminderBooking, now: number): IBookingReminder => {
+  const completedAt = toTime(booking.updatedAt) ?? toTime(booking.expectedCompletion) ?? getStatusTime(booking);
+
+  return {
+    id: `${booking.bookingCode}:review`,
+    kind: "review",
+    bookingCode: booking.bookingCode,
+    title: "How did it go?",
+    body: `Your decoration ${serviceName(booking)} is complete. Rate the provider to help other customers.`,
+    triggerAt: toDaytime((completedAt ?? now) + REVIEW_REMINDER_DELAY_MS),
+    fingerprint: `review:${completedAt ?? ""}`,
+    url: "/screens/Bookings",
+  };
+};
+
+/**
+ * Reminders a booking should have pending right now. Payment and review reminders may
+ * lie in the past; the scheduler delivers those once instead of dropping them.
+ */
+export const deriveBookingReminders = (
+  booking: IReminderBooking,
+  payment: IReminderPaymentInfo = {},
+  now: number = Date.now()
+): IBookingReminder[] => {
+  switch (booking.status) {
+    case BookingStatus.Pending:
+    case BookingStatus.Planning: {
+      const reminder = surveyReminder(booking, now);
+      return reminder ? [reminder] : [];
+    }
+    case BookingStatus.Confirm:
+      return [paymentReminder(booking, "deposit", undefined, now)];
+    case BookingStatus.ConstructionPayment:
+      return payment.isFinalPaid ? [] : [paymentReminder(booking, "finalPayment", payment.finalPaymentAmount, now)];
+    case BookingStatus.Completed:
+      return booking.isReviewed ? [] : [reviewReminder(booking, now)];
+    default:
+      return [];
+  }
+};
+
+export interface IReminderPlan {
+  schedule: IBookingReminder[];
+  cancel: string[]; // ids of reminders that are no longer wanted or changed
+}
+
+/**
+ * Compare wanted reminders with what was scheduled before (id -> fingerprint).
+ * Unchanged reminders are left alone, even if they already fired.
+ */
+export const planReminderChanges = (
+  wanted: IBookingReminder[],
+  scheduled: Record<string, string>
+): IReminderPlan => {
+  const wantedIds = new Set(wanted.map((reminder) => reminder.id));
+
+  const schedule = wanted.filter((reminder) => scheduled[reminder.id] !== reminder.fingerprint);
+  const cancel = Object.keys(scheduled).filter(
+    (id) => !wantedIds.has(id) || schedule.some((reminder) => reminder.id === id)
+  );
+
+  return { schedule, cancel };
+};
@@ -0,0 +1,287 @@
+// Booking state machine shared by the booking screens.
+// Status codes come from the backend BookingStatus enum; every screen should ask
+// this module what a booking can do instead of comparing raw status numbers.
+
+export enum BookingStatus {
+  Pending = 0,             // Khi khách hàng tạo booking
+  Planning = 1,            // Provider đã xác nhận và sắp xếp khảo sát
+  Quoting = 2,             // Provider báo giá
+  Contracting = 3,         // Provider soạn hợp đồng
+  Confirm = 4,             // Khi customer đồng ý các điều khoản và chốt hợp đồng
+  DepositPaid = 5,         // Đã thanh toán đặt cọc
+  Preparing = 6,           // Chuẩn bị nguyên liệu
+  InTransit = 7,           // Nguyên liệu được chuyển đến chỗ khách hàng
+  Progressing = 8,         // Đang tiến hành thi công (theo dạng Tracking service)
+  ConstructionPayment = 9, // Thanh toán thi công
+  Completed = 10,          // Dự án hoàn thành
+  PendingCancellation = 11,// Chờ provider duyệt hủy
+  Canceled = 12,           // Booking bị hủy
+  Rejected = 13,           // Booking bị từ chối
+}
+
+export type BookingStatusCode = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13;
+
+// Actions a customer can take on a booking
+export type BookingAction =
+  | 'cancel'
+  | 'payCommitDeposit'
+  | 'viewQuotation'
+  | 'confirmContract'
+  | 'payDeposit'
+  | 'openTracking'
+  | 'payFinal'
+  | 'rate';
+
+export type BookingStatusCategory = 'initial' | 'agreement' | 'construction' | 'completed' | 'cancelled';
+
+export interface IBookingStateDefinition {
+  status: BookingStatusCode;
+  label: string;
+  category: BookingStatusCategory;
+  stage: string;
+  color: string;
+  icon: string; // Ionicons name
+  next: BookingStatusCode[];
+  actions: BookingAction[];
+}
+
+// Flags some actions depend on besides the status
+export interface IBookingGuardContext {
+  status: number;
+  isCommitDepositPaid?: boolean;
+  isReviewed?: boolean;
+}
+
+export const BOOKING_STATES: Record<BookingStatusCode, IBookingStateDefinition> = {
+  [BookingStatus.Pending]: {
+    status: BookingStatus.Pending,
+    label: 'Pending',
+    category: 'initial',
+    stage: 'Initial Stage',
+    color: '#ff9500', // Orange
+    icon: 'time-outline',
+    next: [BookingStatus.Planning, BookingStatus.PendingCancellation, BookingStatus.Canceled, BookingStatus.Rejected],
+    actions: ['cancel'],
+  },
+  [BookingStatus.Planning]: {
+    status: BookingStatus.Planning,
+    label: 'Planning',
+    category: 'initial',
+    stage: 'Initial Stage',
+    color: '#007aff', // Blue
+    icon: 'calendar-outline',
+    next: [BookingStatus.Quoting, BookingStatus.PendingCancellation, BookingStatus.Canceled],
+    actions: ['cancel', 'payCommitDeposit'],
+  },
+  [BookingStatus.Quoting]: {
+    status: BookingStatus.Quoting,
+    label: 'Quoting',
+    category: 'agreement',
+    stage: 'Agreement Stage',
+    color: '#5856d6', // Purple
+    icon: 'cash-outline',
+    next: [BookingStatus.Contracting, BookingStatus.Canceled],
+    actions: ['viewQuotation'],
+  },
+  [BookingStatus.Contracting]: {
+    status: BookingStatus.Contracting,
+    label: 'Contracting',
+    category: 'agreement',
+    stage: 'Agreement Stage',
+    color: '#007aff', // Blue
+    icon: 'document-text-outline',
+    next: [BookingStatus.Confirm, BookingStatus.Canceled],
+    actions: ['viewQuotation', 'confirmContract'],
+  },
+  [BookingStatus.Confirm]: {
+    status: BookingStatus.Confirm,
+    label: 'Confirm',
+    category: 'agreement',
+    stage: 'Agreement Stage',
+    color: '#5856d6', // Purple
+    icon: 'checkmark-circle-outline',
+    next: [BookingStatus.DepositPaid, BookingStatus.Canceled],
+    actions: ['viewQuotation', 'payDeposit'],
+  },
+  [BookingStatus.DepositPaid]: {
+    status: BookingStatus.DepositPaid,
+    label: 'DepositPaid',
+    category: 'construction',
+    stage: 'Preparation Stage',
+    color: '#5ac8fa', // Light blue
+    icon: 'wallet-outline',
+    next: [BookingStatus.Preparing],
+    actions: ['viewQuotation'],
+  },
+  [BookingStatus.Preparing]: {
+    status: BookingStatus.Preparing,
+    label: 'Preparing',
+    category: 'construction',
+    stage: 'Preparation Stage',
+    color: '#34c759', // Green
+    icon: 'construct-outline',
+    next: [BookingStatus.InTransit],
+    actions: ['viewQuotation'],
+  },
+  [BookingStatus.InTransit]: {
+    status: BookingStatus.InTransit,
+    label: 'InTransit',
+    category: 'construction',
+    stage: 'Preparation Stage',
+    color: '#34c759', // Green
+    icon: 'car-outline',
+    next: [BookingStatus.Progressing],
+    actions: ['viewQuotation'],
+  },
+  [BookingStatus.Progressing]: {
+    status: BookingStatus.Progressing,
+    label: 'Progressing',
+    category: 'construction',
+    stage: 'Construction Stage',
+    color: '#34c759', // Green
+    icon: 'hammer-outline',
+    next: [BookingStatus.ConstructionPayment],
+    actions: ['openTracking'],
+  },
+  [BookingStatus.ConstructionPayment]: {
+    status: BookingStatus.ConstructionPayment,
+    label: 'ConstructionPayment',
+    category: 'construction',
+    stage: 'Construction Stage',
+    color: '#5ac8fa', // Light blue
+    icon: 'cash-outline',
+    next: [BookingStatus.Completed],
+    actions: ['openTracking', 'payFinal'],
+  },
+  [BookingStatus.Completed]: {
+    status: BookingStatus.Completed,
+    label: 'Completed',
+    category: 'completed',
+    stage: 'Final Stage',
+    color: '#4caf50', // Green
+    icon: 'checkmark-done-circle-outline',
+    next: [],
+    actions: ['openTracking', 'rate'],
+  },
+  [BookingStatus.PendingCancellation]: {
+    status: BookingStatus.PendingCancellation,
+    label: 'PendingCancellation',
+    category: 'cancelled',
+    stage: 'Cancelled',
+    color: '#ff9500', // Orange
+    icon: 'hourglass-outline',
+    // Provider approves the cancellation or declines it and the booking resumes
+    next: [BookingStatus.Canceled, BookingStatus.Pending, BookingStatus.Planning],
+    actions: [],
+  },
+  [BookingStatus.Canceled]: {
+    status: BookingStatus.Canceled,
+    label: 'Canceled',
+    category: 'cancelled',
+    stage: 'Cancelled',
+    color: '#ff3b30', // Red
+    icon: 'close-circle-outline',
+    next: [],
+    actions: [],
+  },
+  [BookingStatus.Rejected]: {
+    status: BookingStatus.Rejected,
+    label: 'Rejected',
+    category: 'cancelled',
+    stage: 'Cancelled',
+    color: '#ff3b30', // Red
+    icon: 'close-circle-outline',
+    next: [],
+    actions: [],
+  },
+};
+
+export const BOOKING_STATUS_CODES = Object.keys(BOOKING_STATES).map(Number) as BookingStatusCode[];
+
+// The happy path, in order, as shown in the booking timeline
+export const BOOKING_FLOW: BookingStatusCode[] = [
+  BookingStatus.Pending,
+  BookingStatus.Planning,
+  BookingStatus.Quoting,
+  BookingStatus.Contracting,
+  BookingStatus.Confirm,
+  BookingStatus.DepositPaid,
+  BookingStatus.Preparing,
+  BookingStatus.InTransit,
+  BookingStatus.Progressing,
+  BookingStatus.ConstructionPayment,
+  BookingStatus.Completed,
+];
+
+const UNKNOWN_COLOR = '#8e8e93'; // Gray
+const UNKNOWN_ICON = 'help-circle-outline';
+
+export const isBookingStatus = (status: unknown): status is BookingStatusCode =>
+  typeof status === 'number' && status in BOOKING_STATES;
+
+export const getBookingState = (status: number): IBookingStateDefinition | undefined =>
+  isBookingStatus(status) ? BOOKING_STATES[status] : undefined;
+
+export const getBookingStatusLabel = (status: number): string => getBookingState(status)?.label ?? 'Unknown';
+
+export const getBookingStatusColor = (status: number): string => getBookingState(status)?.color ?? UNKNOWN_COLOR;
+
+export const getBookingStatusIcon = (status: number): string => getBookingState(status)?.icon ?? UNKNOWN_ICON;
+
+export const getBookingStatusStage = (status: number): string => getBookingState(status)?.stage ?? '';
+
+export const getBookingStatusCategory = (status: number): BookingStatusCategory | 'unknown' =>
+  getBookingState(status)?.category ?? 'unknown';
+
+/**
+ * Whether the backend may move a booking from one status to another
+ */
+export const canTransition = (from: number, to: number): boolean =>
+  !!getBookingState(from)?.next.includes(to as BookingStatusCode);
+
+export const isTerminalStatus = (status: number): boolean => getBookingState(status)?.next.length === 0;
+
+export const isCancelledStatus = (status: number): boolean => getBookingStatusCategory(status) === 'cancelled';
+
+/**
+ * Actions available to the customer for a booking.
+ * Status decides which actions exist; flags rule out ones already done.
+ */
+export const getAllowedActions = (booking: IBookingGuardContext): BookingAction[] => {
+  const state = getBookingState(booking.status);
+  if (!state) return [];
+
+  return state.actions.filter((action) => {
+    switch (action) {
+      case 'payCommitDeposit':
+        // Chỉ đặt cọc sớm khi chưa thanh toán đặt cọc sớm
+        return booking.isCommitDepositPaid === false;
+      case 'rate':
+        // Chỉ đánh giá khi chưa được đánh giá
+        return booking.isReviewed === false;
+      default:
+        return true;
+    }
+  });
+};
+
+export const canPerformAction = (booking: IBookingGuardContext, action: BookingAction): boolean =>
+  getAllowedActions(booking).includes(action);
+
+// Guards used by the booking screens
+export const canCancelBooking = (status: number): boolean => canPerformAction({ status }, 'cancel');
+
+export const canViewQuotation = (status: number): boolean => canPerformAction({ status }, 'viewQuotation');
+
+export const canConfirmContract = (status: number): boolean => canPerformAction({ status }, 'confirmContract');
+
+export const canPayDeposit = (status: number): boolean => canPerformAction({ status }, 'payDeposit');
+
+export const canOpenTracking = (status: number): boolean => canPerformAction({ status }, 'openTracking');
+
+export const canPayFinal = (status: number): boolean => canPerformAction({ status }, 'payFinal');
+
+export const canMakeCommitDeposit = (booking: IBookingGuardContext): boolean =>
+  canPerformAction(booking, 'payCommitDeposit');
+
+export const canRateBooking = (booking: IBookingGuardContext): boolean => canPerformAction(booking, 'rate');
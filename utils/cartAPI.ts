@@ -1,6 +1,8 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken, getUserIdFromToken } from "@/services/auth";
 import { Alert } from "react-native";
+import { getApiErrorMessage, normalizeApiResponse, unwrapApiResult } from "./apiResult";
+import offlineQueue, { toQueuedMutation } from "@/services/OfflineQueueService";
 
 // Create Cart API
 export const createCartAPI = async () => {
@@ -19,16 +21,16 @@ export const createCartAPI = async () => {
       { headers: { Authorization: `Bearer ${token}` } }
     );
 
-    console.log("🟢 Cart Created:", response.data);
-    return response.data.id; // Return the created cartId for further use
+    const cart = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Cart Created:", cart);
+    return cart?.id; // Return the created cartId for further use
   } catch (error: any) {
-    console.error("🔴 Create Cart API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to create cart.");
+    console.error("🔴 Create Cart API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to create cart."));
   }
 };
 // Add Product to Cart API
 export const addToCartAPI = async (accountId: number, productId: number, quantity: number) => {
-  const apiClient = await initApiClient();
   const token = await getToken();
   
   if (!token) {
@@ -37,30 +39,28 @@ export const addToCartAPI = async (accountId: number, productId: number, quantit
   
   try {
     console.log(`Adding product ID ${productId} to cart for account ID ${accountId} with quantity ${quantity}`);
-    const response = await apiClient.post(
-      `/api/Cart/addToCart/${accountId}`, // accountId from token in the path
-      null, // No request body
+    // Queued while offline and replayed on reconnect
+    const sent = await offlineQueue.sendOrQueue(
       {
+        method: "post",
+        url: `/api/Cart/addToCart/${accountId}`, // accountId from token in the path
         params: { 
           productId: productId, // Product ID from your product data
           quantity: quantity 
         },
-        headers: { Authorization: `Bearer ${token}` }
-      }
+      },
+      `Add product ${productId} to cart`
     );
-    
-    console.log("🟢 Product Added to Cart:", response.data);
-    return response.data;
-  } catch (error: any) {
-    console.error("🔴 Add to Cart API Error:", error.response?.data);
-    
-    // More detailed error logging
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
+    if (sent.queued) {
+      return toQueuedMutation(sent.entry);
     }
     
-    throw new Error("Failed to add product to cart. Please try again.");
+    const cart = unwrapApiResult(normalizeApiResponse(sent.response));
+    console.log("🟢 Product Added to Cart:", cart);
+    return cart;
+  } catch (error: any) {
+    console.error("🔴 Add to Cart API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to add product to cart. Please try again."));
   }
 };
 
@@ -68,13 +68,10 @@ export const getCartAPI = async (userId: number) => {
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(`/api/Cart/getCart/${userId}`);
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse(response));
   } catch (error: any) {
-    console.error("🔴 Get Cart API Error:", error.response?.status, error.response?.data);
-    if (error.response) {
-      console.error("Error details:", error.response.data);
-    }
-    throw new Error(error.response?.data?.message || "Failed to fetch cart.");
+    console.error("🔴 Get Cart API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch cart."));
   }
 };
 
@@ -82,26 +79,24 @@ export const removeProductFromCartAPI = async (userId: number, productId: number
   const apiClient = await initApiClient();
   const url = `/api/Cart/removeProduct/${userId}?productId=${productId}`;
 
- 
-    const response = await apiClient.delete<{
-      success: boolean;
-      message: string;
-      data: {
-        cartItems: any[]; // Updated cart items list after removal
-        totalItem: number;
-        totalPrice: number;
-      };
-    }>(url);
-
-    console.log("🟢 Remove Product Response:", response.data);
+  try {
     console.log("Removing product with URL:", url);
+    const response = await apiClient.delete(url);
+    const cart = unwrapApiResult(normalizeApiResponse<{
+      cartItems: any[]; // Updated cart items list after removal
+      totalItem: number;
+      totalPrice: number;
+    }>(response));
 
-    // Validate the response structure
-    
+    console.log("🟢 Remove Product Response:", cart);
+    return cart;
+  } catch (error: any) {
+    console.error("🔴 Remove Product API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to remove product from cart."));
+  }
 };
 // Update Product Quantity in Cart API
 export const updateQuantityAPI = async (userId: number, productId: number, quantity: number) => {
-  const apiClient = await initApiClient();
   const token = await getToken();
   
   if (!token) {
@@ -111,29 +106,27 @@ export const updateQuantityAPI = async (userId: number, productId: number, quant
   try {
     console.log(`Updating quantity for product ID ${productId} in cart for user ID ${userId} to ${quantity}`);
     
-    const response = await apiClient.put(
-      `/api/Cart/updateQuantity/${userId}`,
-      null, // No request body
+    // Queued while offline and replayed on reconnect
+    const sent = await offlineQueue.sendOrQueue(
       {
+        method: "put",
+        url: `/api/Cart/updateQuantity/${userId}`,
         params: {
           productId: productId,
           quantity: quantity
         },
-        headers: { Authorization: `Bearer ${token}` }
-      }
+      },
+      `Update quantity of product ${productId} to ${quantity}`
     );
-    
-    console.log("🟢 Quantity Updated:", response.data);
-    return response.data;
-  } catch (error: any) {
-    console.error("🔴 Update Quantity API Error:", error.response?.data);
-    
-    // More detailed error logging
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
+    if (sent.queued) {
+      return toQueuedMutation(sent.entry);
     }
     
-    throw new Error("Failed to update product quantity. Please try again.");
+    const cart = unwrapApiResult(normalizeApiResponse(sent.response));
+    console.log("🟢 Quantity Updated:", cart);
+    return cart;
+  } catch (error: any) {
+    console.error("🔴 Update Quantity API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to update product quantity. Please try again."));
   }
 };
\ No newline at end of file
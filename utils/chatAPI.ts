@@ -1,5 +1,6 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { LogBox } from "react-native";
+import { normalizeApiResponse, unwrapApiResult } from "./apiResult";
 
 // Ignoring Axios 400 Errors for cleaner logs
 LogBox.ignoreLogs(["AxiosError: Request failed with status code 400"]);
@@ -25,20 +26,26 @@ export interface ChatFileResponse {
 }
 
 // API to fetch all chat conversations (chat list)
-export const getChatHistoryAPI = async (userId: number): Promise<IMessage[]> => {
+// With afterMessageId only newer messages are asked for; a backend that ignores it sends
+// the whole conversation, which the local history merges just the same
+export const getChatHistoryAPI = async (
+  userId: number,
+  options: { afterMessageId?: number | null } = {}
+): Promise<IMessage[]> => {
   const url = `/api/Chat/chat-history/${userId}`; // Ensure the correct endpoint with userId
+  const params = options.afterMessageId ? { afterMessageId: options.afterMessageId } : undefined;
   
-  console.log("🔍 Fetching chat history for userId:", userId); // Log userId for debugging
+  console.log("🔍 Fetching chat history for userId:", userId, params ?? ""); // Log userId for debugging
   
   const apiClient = await initApiClient();
   try {
-    const response = await apiClient.get<IMessage[]>(url);
-    console.log("🟢 Full API Response:", response.data); // Log full response for debugging
+    const response = await apiClient.get<IMessage[]>(url, { params });
+    const messages = unwrapApiResult(normalizeApiResponse<IMessage[]>(response));
     
     // Check if the response contains valid data
-    if (Array.isArray(response.data) && response.data.length > 0) {
+    if (Array.isArray(messages) && messages.length > 0) {
       // Filter messages where the user is either the sender or the receiver
-      const filteredMessages = response.data.filter(
+      const filteredMessages = messages.filter(
         (message) => message.senderId === userId || message.receiverId === userId
       );
       
@@ -60,13 +67,13 @@ export const getUnreadMessagesAPI = async (): Promise<IMessage[]> => {
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get<IMessage[]>(url);
-    console.log("🟢 Full API Response:", response.data);
+    const messages = unwrapApiResult(normalizeApiResponse<IMessage[]>(response));
     
-    if (Array.isArray(response.data) && response.data.length > 0) {
-      return response.data; // Trả về danh sách tin nhắn chưa đọc
+    if (Array.isArray(messages) && messages.length > 0) {
+      return messages; // Trả về danh sách tin nhắn chưa đọc
     }
     
-    console.error("🔴 API Response is invalid or empty:", response.data);
+    console.error("🔴 API Response is invalid or empty:", messages);
     return Promise.reject(new Error("Invalid response from server."));
   } catch (error: any) {
     console.error("🔴 Error fetching unread messages:", error);
@@ -0,0 +1,145 @@
+// Cards in chat: a booking, quotation or product shared into a conversation and shown as a
+// tappable preview. A card travels as ordinary message text ending with its app link, so
+// the web app still shows something readable; booking and quotation codes pasted as plain
+// text get a preview too. Links are resolved with the deep link table in deepLinks.ts.
+import { APP_SCHEME, resolveDeepLink } from "./deepLinks";
+
+export type ChatCardType = "booking" | "quotation" | "product";
+
+export interface IChatCardDraft {
+  type: ChatCardType;
+  code: string; // Booking / quotation code, or product id
+  title: string;
+  subtitle?: string;
+}
+
+export interface IChatCard extends IChatCardDraft {
+  url: string; // App link the card opens
+}
+
+export interface IParsedChatMessage {
+  text: string; // What's left to show as text; empty for a shared card
+  cards: IChatCard[];
+  isCard: boolean; // The whole message is a shared card
+}
+
+export const CHAT_CARD_LABELS: Record<ChatCardType, string> = {
+  booking: "Booking",
+  quotation: "Quotation",
+  product: "Product",
+};
+
+// Codes as the backend issues them, e.g. BKG-0001, QUO-0001
+const CODE_PATTERN = /\b(BKG|QUO)-[A-Z0-9]+(?:-[A-Z0-9]+)*\b/gi;
+const CODE_PREFIX_TYPES: Record<string, ChatCardType> = { BKG: "booking", QUO: "quotation" };
+
+const APP_LINK_PREFIX = `${APP_SCHEME}://`;
+const APP_LINK_PATTERN = new RegExp(`${APP_SCHEME.replace(/\./g, "\\.")}://\\S+`, "g");
+
+/**
+ * App link a card opens, in the form resolveDeepLink accepts
+ */
+export const getChatCardUrl = (type: ChatCardType, code: string): string => {
+  const encoded = encodeURIComponent(code);
+  switch (type) {
+    case "booking":
+      return `${APP_LINK_PREFIX}booking/booking-detail/${encoded}`;
+    case "quotation":
+      return `${APP_LINK_PREFIX}quotation/quotation-detail/${encoded}`;
+    case "product":
+      return `${APP_LINK_PREFIX}product/product-detail/${encoded}`;
+  }
+};
+
+const defaultTitle = (type: ChatCardType, code: string): string =>
+  `${CHAT_CARD_LABELS[type]} ${type === "product" ? `#${code}` : code}`;
+
+// Card a link points at; links to other screens aren't cards
+const cardFromUrl = (url: string): IChatCard | null => {
+  const match = resolveDeepLink(url);
+  if (match?.name === "booking" || match?.name === "quotation") {
+    const code = match.params.code;
+    return { type: match.name, code, title: defaultTitle(match.name, code), url };
+  }
+  if (match?.name === "product") {
+    const code = match.params.id;
+    return { type: "product", code, title: defaultTitle("product", code), url };
+  }
+  return null;
+};
+
+/**
+ * Message text for a shared card: title, optional subtitle and the card's app link
+ */
+export const buildChatCardMessage = (card: IChatCardDraft): string =>
+  [card.title.trim(), card.subtitle?.trim(), getChatCardUrl(card.type, card.code)].filter(Boolean).join("\n");
+
+/**
+ * Split a message into text and cards: a shared card (up to two lines and its link), or
+ * ordinary text with the cards of the app links and codes in it
+ */
+export const parseChatMessage = (message: string): IParsedChatMessage => {
+  const text = message || "";
+  const lines = text.trim().split("\n").map((line) => line.trim());
+  const lastLine = lines[lines.length - 1];
+
+  if (lines.length <= 3 && lastLine.startsWith(APP_LINK_PREFIX) && !/\s/.test(lastLine)) {
+    const shared = cardFromUrl(lastLine);
+    if (shared) {
+      const [title, subtitle] = lines.slice(0, -1);
+      return {
+        text: "",
+        cards: [{ ...shared, title: title || shared.title, subtitle: subtitle || undefined }],
+        isCard: true,
+      };
+    }
+  }
+
+  const cards: IChatCard[] = [];
+  const seen = new Set<string>();
+  const addCard = (card: IChatCard | null) => {
+    const key = card && `${card.type}:${card.code.toUpperCase()}`;
+    if (!card || !key || seen.has(key)) return;
+    seen.add(key);
+    cards.push(card);
+  };
+
+  (text.match(APP_LINK_PATTERN) ?? []).forEach((url) => addCard(cardFromUrl(url)));
+  for (const match of text.matchAll(CODE_PATTERN)) {
+    const type = CODE_PREFIX_TYPES[match[1].toUpperCase()];
+    addCard({ type, code: match[0], title: defaultTitle(type, match[0]), url: getChatCardUrl(type, match[0]) });
+  }
+
+  return { text, cards, isCard: false };
+};
+
+/**
+ * Route params that open a conversation with a card ready to send
+ */
+export const toChatShareParams = (card: IChatCardDraft): Record<string, string> => ({
+  shareType: card.type,
+  shareCode: card.code,
+  shareTitle: card.title,
+  ...(card.subtitle ? { shareSubtitle: card.subtitle } : {}),
+});
+
+/**
+ * The card to send from a conversation's route params, if any
+ */
+export const fromChatShareParams = (params: Record<string, string | string[] | undefined>): IChatCardDraft | null => {
+  const value = (key: string) => {
+    const raw = params[key];
+    return (Array.isArray(raw) ? raw[0] : raw)?.trim() || "";
+  };
+
+  const type = value("shareType") as ChatCardType;
+  const code = value("shareCode");
+  if (!Object.keys(CHAT_CARD_LABELS).includes(type) || !code) return null;
+
+  return {
+    type,
+    code,
+    title: value("shareTitle") || defaultTitle(type, code),
+    subtitle: value("shareSubtitle") || undefined,
+  };
+};
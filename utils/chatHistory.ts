@@ -0,0 +1,151 @@
+// Chat messages kept on the device, one conversation per contact.
+// services/ChatHistoryService.ts persists them and asks the server only for what's newer
+// than the stored messages; this module merges, pages and searches conversations.
+import type { IMessage } from "./chatAPI";
+
+// Messages shown when a conversation opens, and loaded per scroll to older ones
+export const CHAT_PAGE_SIZE = 30;
+
+// Newest messages kept per conversation
+export const MAX_STORED_MESSAGES = 1000;
+
+export const MAX_SEARCH_RESULTS = 50;
+
+export interface IChatMessagePage {
+  messages: IMessage[]; // Oldest first
+  hasMore: boolean; // Older messages are stored
+}
+
+export interface IChatSearchResult {
+  contactId: number;
+  message: IMessage;
+  snippet: string;
+}
+
+const timeOf = (message: IMessage): number => {
+  const time = new Date(message.sentTime).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+// Conversation order: by sent time, ids break ties
+export const compareMessages = (a: IMessage, b: IMessage): number => timeOf(a) - timeOf(b) || a.id - b.id;
+
+/**
+ * Merge fetched messages into a conversation: one copy per id (the fetched one wins, so
+ * isRead updates land), oldest first, keeping the newest `limit`
+ */
+export const mergeMessages = (
+  existing: IMessage[],
+  incoming: IMessage[],
+  limit: number = MAX_STORED_MESSAGES
+): IMessage[] => {
+  const byId = new Map<number, IMessage>();
+  [...existing, ...incoming].forEach((message) => {
+    if (message && typeof message.id === "number") byId.set(message.id, message);
+  });
+  const merged = Array.from(byId.values()).sort(compareMessages);
+  return merged.length > limit ? merged.slice(merged.length - limit) : merged;
+};
+
+/**
+ * Where an incremental sync starts: after the newest stored message, or before the oldest
+ * recent message to the contact that isn't read yet, so its read state is refreshed too.
+ * Null means fetch everything.
+ */
+export const getSyncCursor = (messages: IMessage[], contactId: number): number | null => {
+  if (messages.length === 0) return null;
+
+  const recentStart = Math.max(0, messages.length - CHAT_PAGE_SIZE);
+  const firstUnread = messages.findIndex(
+    (message, index) => index >= recentStart && message.receiverId === contactId && !message.isRead
+  );
+  if (firstUnread === -1) return Math.max(...messages.map((message) => message.id));
+  return firstUnread === 0 ? null : messages[firstUnread - 1].id;
+};
+
+/**
+ * Up to `limit` messages before `beforeId`, or the newest ones without it
+ */
+export const getMessagePage = (
+  messages: IMessage[],
+  limit: number = CHAT_PAGE_SIZE,
+  beforeId: number | null = null
+): IChatMessagePage => {
+  const end = beforeId === null ? messages.length : messages.findIndex((message) => message.id === beforeId);
+  if (end === -1) return { messages: [], hasMore: false };
+  const start = Math.max(0, end - limit);
+  return { messages: messages.slice(start, end), hasMore: start > 0 };
+};
+
+/**
+ * Messages from `fromId` to the newest: what a conversation screen has loaded so far.
+ * Falls back to the newest page when that message is no longer stored.
+ */
+export const getMessagesFrom = (
+  messages: IMessage[],
+  fromId: number | null,
+  limit: number = CHAT_PAGE_SIZE
+): IChatMessagePage => {
+  const start = fromId === null ? -1 : messages.findIndex((message) => message.id === fromId);
+  if (start === -1) return getMessagePage(messages, limit);
+  return { messages: messages.slice(start), hasMore: start > 0 };
+};
+
+// Search ignores case and Vietnamese diacritics: "tet" finds "Tết"
+const foldChar = (char: string): string =>
+  char.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d").toLowerCase();
+
+export const foldSearchText = (value: string): string => Array.from(value).map(foldChar).join("");
+
+// Folded text plus, for each folded character, its index in the original
+const foldWithPositions = (value: string): { folded: string; positions: number[] } => {
+  let folded = "";
+  const positions: number[] = [];
+  for (let index = 0; index < value.length; index++) {
+    for (const char of foldChar(value[index])) {
+      folded += char;
+      positions.push(index);
+    }
+  }
+  return { folded, positions };
+};
+
+const toPlainText = (message: string): string =>
+  (message || "").replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ").replace(/\s+/g, " ").trim();
+
+/**
+ * The part of a message around a match, e.g. "…hẹn khảo sát vào thứ bảy…"
+ */
+export const buildSnippet = (text: string, start: number, length: number, radius: number = 40): string => {
+  const from = Math.max(0, start - radius);
+  const to = Math.min(text.length, start + length + radius);
+  return `${from > 0 ? "…" : ""}${text.slice(from, to).trim()}${to < text.length ? "…" : ""}`;
+};
+
+/**
+ * Messages containing every word of the query, newest first
+ */
+export const searchConversations = (
+  conversations: Map<number, IMessage[]>,
+  query: string,
+  limit: number = MAX_SEARCH_RESULTS
+): IChatSearchResult[] => {
+  const terms = foldSearchText(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: IChatSearchResult[] = [];
+  conversations.forEach((messages, contactId) => {
+    messages.forEach((message) => {
+      const text = toPlainText(message.message);
+      const { folded, positions } = foldWithPositions(text);
+      if (!terms.every((term) => folded.includes(term))) return;
+
+      const matchAt = folded.indexOf(terms[0]);
+      const start = positions[matchAt];
+      const end = positions[matchAt + terms[0].length - 1] + 1;
+      results.push({ contactId, message, snippet: buildSnippet(text, start, end - start) });
+    });
+  });
+
+  return results.sort((a, b) => compareMessages(b.message, a.message)).slice(0, limit);
+};
@@ -0,0 +1,190 @@
+// Outgoing chat messages and their delivery lifecycle:
+// queued -> sending -> sent -> delivered -> read, or failed after repeated send errors.
+// services/ChatOutboxService.ts persists them and sends them over chatHub; this module only
+// decides how a message moves between states and how it shows up in a conversation.
+
+export type ChatDeliveryStatus = "queued" | "sending" | "sent" | "delivered" | "read" | "failed";
+
+// Attachments are kept as local files and read when the message is sent, so the outbox
+// doesn't hold base64 images in storage
+export interface IOutgoingChatFile {
+  fileName: string;
+  contentType: string;
+  uri: string;
+}
+
+export interface IOutgoingChatMessage {
+  clientId: string;
+  senderId: number;
+  receiverId: number;
+  message: string;
+  files: IOutgoingChatFile[];
+  createdAt: string; // ISO, when the customer pressed send
+  status: ChatDeliveryStatus;
+  attempts: number; // Failed sends while connected
+  serverId?: number | string;
+  error?: string;
+  progress?: number; // 0-100 while sending
+  updatedAt: number;
+}
+
+// Subset of a chat history / hub message the outbox needs
+export interface IChatMessageLike {
+  id: number | string | null;
+  senderId: number;
+  receiverId: number;
+  message: string;
+  isRead?: boolean;
+}
+
+// Send errors while the hub is connected before a message is marked failed
+export const MAX_SEND_ATTEMPTS = 3;
+
+// Attachments per message, and the longest side images are scaled down to before sending
+export const MAX_CHAT_ATTACHMENTS = 5;
+export const CHAT_IMAGE_MAX_DIMENSION = 1600;
+export const CHAT_IMAGE_QUALITY = 0.7;
+
+// Share of the progress bar spent reading attachments before SendMessage
+const FILE_READ_PROGRESS = 40;
+
+// Sent messages are kept this long for their delivered / read ticks
+export const DELIVERED_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+const STATUS_RANK: Record<ChatDeliveryStatus, number> = {
+  failed: 0,
+  queued: 1,
+  sending: 2,
+  sent: 3,
+  delivered: 4,
+  read: 5,
+};
+
+export const DELIVERY_STATUS_LABELS: Record<ChatDeliveryStatus, string> = {
+  queued: "Waiting for connection",
+  sending: "Sending...",
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+  failed: "Not sent",
+};
+
+export const createClientMessageId = (now: number = Date.now(), random: () => number = Math.random): string =>
+  `c_${now.toString(36)}_${random().toString(36).slice(2, 10)}`;
+
+export const isPendingStatus = (status: ChatDeliveryStatus): boolean =>
+  status === "queued" || status === "sending" || status === "failed";
+
+/**
+ * Size to scale a picked image to so its longest side fits CHAT_IMAGE_MAX_DIMENSION, or
+ * null when it already fits
+ */
+export const getChatImageResize = (
+  width: number | undefined,
+  height: number | undefined,
+  maxDimension: number = CHAT_IMAGE_MAX_DIMENSION
+): { width: number } | { height: number } | null => {
+  if (!width || !height || Math.max(width, height) <= maxDimension) return null;
+  return width >= height ? { width: maxDimension } : { height: maxDimension };
+};
+
+/**
+ * Progress of a send: attachments read so far, then SendMessage's own onProgress
+ */
+export const getSendProgress = (filesRead: number, fileCount: number, hubProgress: number = 0): number => {
+  if (fileCount === 0) return Math.round(hubProgress);
+  const readShare = (FILE_READ_PROGRESS * Math.min(filesRead, fileCount)) / fileCount;
+  return Math.round(readShare + ((100 - FILE_READ_PROGRESS) * hubProgress) / 100);
+};
+
+/**
+ * Next status of a message. Confirmations arrive out of order (a read receipt can beat the
+ * SendMessage result), so a message never moves back; only a retry leaves "failed".
+ */
+export const advanceDeliveryStatus = (
+  current: ChatDeliveryStatus,
+  next: ChatDeliveryStatus
+): ChatDeliveryStatus => {
+  if (current === "failed") return next === "queued" || next === "sending" ? next : current;
+  if (next === "failed") return isPendingStatus(current) ? next : current;
+  return STATUS_RANK[next] > STATUS_RANK[current] ? next : current;
+};
+
+/**
+ * A send that threw. Without a connection the message just waits for the next one;
+ * errors while connected count towards MAX_SEND_ATTEMPTS.
+ */
+export const applySendFailure = (
+  entry: IOutgoingChatMessage,
+  error: string,
+  connected: boolean,
+  now: number = Date.now()
+): IOutgoingChatMessage => {
+  if (!connected) return { ...entry, status: "queued", error, updatedAt: now };
+  const attempts = entry.attempts + 1;
+  return {
+    ...entry,
+    attempts,
+    status: attempts >= MAX_SEND_ATTEMPTS ? "failed" : "queued",
+    error,
+    updatedAt: now,
+  };
+};
+
+/**
+ * The outbox entry a server message confirms: by server id, else the oldest in-flight
+ * message to the same receiver with the same text
+ */
+export const findConfirmedEntry = (
+  entries: IOutgoingChatMessage[],
+  message: IChatMessageLike
+): IOutgoingChatMessage | undefined => {
+  if (message.id !== null && message.id !== undefined) {
+    const byId = entries.find((entry) => entry.serverId !== undefined && String(entry.serverId) === String(message.id));
+    if (byId) return byId;
+  }
+  return entries.find(
+    (entry) =>
+      entry.serverId === undefined &&
+      (entry.status === "sending" || entry.status === "sent") &&
+      entry.senderId === message.senderId &&
+      entry.receiverId === message.receiverId &&
+      entry.message.trim() === (message.message ?? "").trim()
+  );
+};
+
+/**
+ * Drop sent messages past their retention; pending ones stay until sent or discarded
+ */
+export const pruneOutbox = (entries: IOutgoingChatMessage[], now: number = Date.now()): IOutgoingChatMessage[] =>
+  entries.filter((entry) => isPendingStatus(entry.status) || now - entry.updatedAt < DELIVERED_RETENTION_MS);
+
+/**
+ * Delivery status of a message of mine in the conversation: from the outbox when it
+ * went through it, else from the history's isRead flag
+ */
+export const getDeliveryStatus = (
+  message: IChatMessageLike,
+  entries: IOutgoingChatMessage[]
+): ChatDeliveryStatus => {
+  const entry = entries.find(
+    (item) => item.clientId === message.id || (item.serverId !== undefined && String(item.serverId) === String(message.id))
+  );
+  const status = entry?.status ?? "sent";
+  return message.isRead ? advanceDeliveryStatus(status, "read") : status;
+};
+
+/**
+ * Outbox messages of a conversation that aren't in its history yet, oldest first
+ */
+export const getUnconfirmedMessages = (
+  entries: IOutgoingChatMessage[],
+  receiverId: number,
+  history: IChatMessageLike[]
+): IOutgoingChatMessage[] => {
+  const historyIds = new Set(history.map((message) => String(message.id)));
+  return entries
+    .filter((entry) => entry.receiverId === receiverId)
+    .filter((entry) => entry.serverId === undefined || !historyIds.has(String(entry.serverId)))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
@@ -0,0 +1,136 @@
+// Who is online, who is typing and how many messages are unread, per contact.
+// services/ChatPresenceService.ts feeds chatHub events through these functions; the state
+// is replaced on every change so screens can read it with useSyncExternalStore.
+import type { IContact } from "./contactAPI";
+
+export interface IChatPresenceState {
+  online: Record<number, boolean>;
+  typing: Record<number, number>; // Contact id -> when the indicator expires
+  unread: Record<number, number>;
+}
+
+// chatHub's MessagesRead: `readerId` has read what `senderId` sent them. Also pushed to the
+// reader's other devices, which is how unread counts follow a read elsewhere.
+export interface IReadReceipt {
+  readerId: number;
+  senderId: number;
+  readAt?: string;
+}
+
+// A typing indicator disappears unless refreshed within this time
+export const TYPING_TIMEOUT_MS = 6000;
+// While typing, "typing" is sent again at most this often
+export const TYPING_THROTTLE_MS = 3000;
+// A pause this long counts as having stopped typing
+export const TYPING_IDLE_MS = 2500;
+
+export const EMPTY_PRESENCE: IChatPresenceState = { online: {}, typing: {}, unread: {} };
+
+const without = (record: Record<number, number>, key: number): Record<number, number> => {
+  if (!(key in record)) return record;
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+};
+
+export const setOnline = (state: IChatPresenceState, userId: number, online: boolean): IChatPresenceState => {
+  if (!!state.online[userId] === online) return state;
+  return {
+    ...state,
+    online: { ...state.online, [userId]: online },
+    // Nobody types while offline
+    typing: online ? state.typing : without(state.typing, userId),
+  };
+};
+
+/**
+ * The contact list is the server's word on presence and unread counts
+ */
+export const applyContacts = (state: IChatPresenceState, contacts: IContact[]): IChatPresenceState => {
+  const online = { ...state.online };
+  const unread = { ...state.unread };
+  contacts.forEach((contact) => {
+    if (typeof contact.isOnline === "boolean") online[contact.contactId] = contact.isOnline;
+    if (typeof contact.unreadCount === "number") unread[contact.contactId] = Math.max(0, contact.unreadCount);
+  });
+  return { ...state, online, unread };
+};
+
+export const setTyping = (
+  state: IChatPresenceState,
+  contactId: number,
+  isTyping: boolean,
+  now: number = Date.now()
+): IChatPresenceState => {
+  if (!isTyping) {
+    const typing = without(state.typing, contactId);
+    return typing === state.typing ? state : { ...state, typing };
+  }
+  return {
+    ...state,
+    online: state.online[contactId] ? state.online : { ...state.online, [contactId]: true },
+    typing: { ...state.typing, [contactId]: now + TYPING_TIMEOUT_MS },
+  };
+};
+
+export const isTyping = (state: IChatPresenceState, contactId: number, now: number = Date.now()): boolean =>
+  (state.typing[contactId] ?? 0) > now;
+
+/**
+ * Drop typing indicators that weren't refreshed in time
+ */
+export const pruneTyping = (state: IChatPresenceState, now: number = Date.now()): IChatPresenceState => {
+  const expired = Object.keys(state.typing)
+    .map(Number)
+    .filter((contactId) => state.typing[contactId] <= now);
+  if (expired.length === 0) return state;
+  return { ...state, typing: expired.reduce(without, state.typing) };
+};
+
+/**
+ * A message from a contact: unread unless their conversation is open, and they've
+ * stopped typing
+ */
+export const applyIncomingMessage = (
+  state: IChatPresenceState,
+  senderId: number,
+  conversationOpen: boolean
+): IChatPresenceState => ({
+  ...state,
+  typing: without(state.typing, senderId),
+  unread: { ...state.unread, [senderId]: conversationOpen ? 0 : (state.unread[senderId] ?? 0) + 1 },
+});
+
+export const markConversationRead = (state: IChatPresenceState, contactId: number): IChatPresenceState =>
+  state.unread[contactId] ? { ...state, unread: { ...state.unread, [contactId]: 0 } } : state;
+
+/**
+ * A read receipt for messages to me (read here or on another device) clears the
+ * conversation's unread count; receipts for my own messages don't change it
+ */
+export const applyReadReceipt = (
+  state: IChatPresenceState,
+  receipt: IReadReceipt,
+  currentUserId: number | null
+): IChatPresenceState =>
+  currentUserId !== null && receipt.readerId === currentUserId ? markConversationRead(state, receipt.senderId) : state;
+
+export const getTotalUnread = (state: IChatPresenceState): number =>
+  Object.values(state.unread).reduce((total, count) => total + count, 0);
+
+/**
+ * Whether to tell the contact I'm typing again, given when it was last sent
+ */
+export const shouldSendTyping = (lastSentAt: number | null, now: number = Date.now()): boolean =>
+  lastSentAt === null || now - lastSentAt >= TYPING_THROTTLE_MS;
+
+/**
+ * Messages with `isRead` set for what the receipt covers; the same array when nothing changes
+ */
+export const markMessagesRead = <T extends { senderId: number; receiverId: number; isRead?: boolean }>(
+  messages: T[],
+  receipt: IReadReceipt
+): T[] => {
+  const covered = (message: T) =>
+    !message.isRead && message.senderId === receipt.senderId && message.receiverId === receipt.readerId;
+  return messages.some(covered) ? messages.map((message) => (covered(message) ? { ...message, isRead: true } : message)) : messages;
+};
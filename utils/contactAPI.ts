@@ -1,17 +1,11 @@
 import { initApiClient } from "@/config/axiosConfig"; // Assuming your axiosConfig is correctly set up
+import { ApiResult, normalizeApiResponse, toApiErrorResult } from "./apiResult";
+import type { IReadReceipt } from "./chatPresence";
 // import { LogBox } from "react-native";
 
 // Ignoring Axios 400 Errors for cleaner logs
 // LogBox.ignoreLogs(["AxiosError: Request failed with status code 400"]);
 
-
-interface IAddContactResponse {
-  success: boolean;
-  message?: string;
-  alreadyExists?: boolean;
-  [key: string]: any; // Allows any additional properties
-}
-
 // types.ts - Create this file to centralize your type definitions
 
 // Interface for Contact in the contact list
@@ -52,8 +46,8 @@ export interface ISignalRService {
   sendMessage(receiverId: number, message: string, files?: any[], onProgress?: (progress: number) => void): Promise<void>;
   onMessageReceived(callback: (message: IMessage) => void): void;
   offMessageReceived(callback: Function): void;
-  onMessagesRead?(callback: (receiverId: number) => void): void;
-  onContactsUpdated?(callback: (contacts: IContact[]) => void): void;
+  onMessagesRead?(callback: (receipt: IReadReceipt) => void): () => void;
+  onContactsUpdated?(callback: (contacts: IContact[]) => void): () => void;
 }
 // API to fetch all contacts
 export const getContactsAPI = async (): Promise<IContact[]> => {
@@ -62,9 +56,10 @@ export const getContactsAPI = async (): Promise<IContact[]> => {
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(url); // Fetching the data
+    const result = normalizeApiResponse<IContact[]>(response);
 
-    if (response && Array.isArray(response.data)) {
-      return response.data; // Return the valid array of contacts
+    if (result.success && Array.isArray(result.data)) {
+      return result.data; // Return the valid array of contacts
     } else {
       console.error("🔴 API Response is invalid:", response);
       return Promise.reject(new Error("Invalid response format from the server."));
@@ -80,15 +75,8 @@ export const getContactsAPI = async (): Promise<IContact[]> => {
     return Promise.reject(new Error("Failed to fetch contacts from the server."));
   }
 };
-// First, update the interface to match the actual API responses
-interface IAddContactResponse {
-  success: boolean;
-  message?: string;
-  errors?: string[];
-}
-
 // Improved addContactAPI that handles both successful and "already exists" cases
-export const addContactAPI = async (receiverId: number): Promise<IAddContactResponse> => {
+export const addContactAPI = async (receiverId: number): Promise<ApiResult> => {
   const url = `/api/contact/add/${receiverId}`;
   
   const apiClient = await initApiClient();
@@ -96,15 +84,11 @@ export const addContactAPI = async (receiverId: number): Promise<IAddContactResp
     // Make POST request to the API
     const response = await apiClient.post(url);
     
-    // Just return the response data directly
-    return response.data;
+    return normalizeApiResponse(response, "Contact added successfully");
   } catch (error: any) {
     console.log("Error in contact addition:", error.message);
-    // Return a generic response instead of throwing
-    return {
-      success: false,
-      message: "Failed to add contact"
-    };
+    // Return a failed result instead of throwing
+    return toApiErrorResult(error, "Failed to add contact");
   }
 };
 
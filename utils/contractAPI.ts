@@ -1,16 +1,11 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken } from "@/services/auth";
+import { ApiResult, normalizeApiResponse, toApiErrorResult } from "./apiResult";
 
 // Types for contract operations
-export interface IContractResponse {
-  success: boolean;
-  message?: string;
-  errors?: any[];
-  data?: any;
-}
+export type IContractResponse = ApiResult;
 
 export interface IContractContent {
-  success: boolean;
   contractId: number;
   contractCode: string;
   content: string;
@@ -18,30 +13,44 @@ export interface IContractContent {
   status: number;
   isSigned: boolean;
   createdAt: string;
-  message?: string;
-}
-// Define the response type for getContractFileAPI
-export interface IContractFileResponse {
-  success: boolean;
-  message?: string;
-  errors?: string[];
-  data?: IContractDetail | null;
 }
 
 // Interface matching the API response for contract details
 export interface IContractDetail {
   contractCode: string;
+  quotationCode: string;
   status: number;
   isSigned: boolean;
-  // ...other properties
+  isDeposited: boolean;
+  isFinalPaid: boolean;
+  isTerminatable: boolean;
+  fileUrl: string;
+  bookingCode: string;
+  note?: string;
+  surveyDate: string;
+  constructionDate: string;
+  signedDate: string;
+  cancelDate?: string;
+  completeDate?: string;
+  totalPrice: number;
+  depositAmount: number;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  businessName: string;
+  providerName: string;
+  providerEmail: string;
+  providerPhone: string;
 }
 
+export type IContractFileResponse = ApiResult<IContractDetail>;
+
 /**
  * Get contract content by contract code
  * @param contractCode The code of the contract to retrieve
  * @returns Promise with the contract content information
  */
-export const getContractContentAPI = async (contractCode: string): Promise<IContractContent> => {
+export const getContractContentAPI = async (contractCode: string): Promise<ApiResult<IContractContent>> => {
   try {
     const apiClient = await initApiClient();
     
@@ -49,38 +58,10 @@ export const getContractContentAPI = async (contractCode: string): Promise<ICont
       `/api/Contract/getContractContent/${contractCode}`
     );
     
-    if (response && response.data) {
-      return response.data;
-    } else {
-      console.log("Invalid contract content response:", response);
-      return {
-        success: false,
-        contractId: 0,
-        contractCode: "",
-        content: "",
-        status: 0,
-        isSigned: false,
-        createdAt: new Date().toISOString(),
-        message: "Failed to retrieve contract content"
-      };
-    }
+    return normalizeApiResponse<IContractContent>(response);
   } catch (error: any) {
     console.log("Error fetching contract content:", error);
-    
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
-    return {
-      success: false,
-      contractId: 0,
-      contractCode: "",
-      content: "",
-      status: 0,
-      isSigned: false,
-      createdAt: new Date().toISOString(),
-      message: "Failed to connect to contract service"
-    };
+    return toApiErrorResult(error, "Failed to connect to contract service");
   }
 };
 
@@ -100,26 +81,18 @@ export const requestSignatureAPI = async (contractCode: string): Promise<IContra
       null // No request body needed
     );
     
-    console.log("Signature API raw response:", response.data);
-    
-    // Even if response.data is null, the API call succeeded
+    // Even if the body is empty, the API call succeeded
     // We can assume the email was sent if we didn't get an error
+    const result = normalizeApiResponse(response);
     return {
-      success: true,
-      message: "Signature request has been sent to your email. Please check your inbox.",
-      data: null
+      ...result,
+      message: result.success
+        ? "Signature request has been sent to your email. Please check your inbox."
+        : result.message
     };
   } catch (error: any) {
     console.log("Error requesting signature:", error);
-    
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
-    return {
-      success: false,
-      message: error.response?.data?.message || "Failed to request signature"
-    };
+    return toApiErrorResult(error, "Failed to request signature");
   }
 };
 export const verifySignatureAPI = async (token: string): Promise<IContractResponse> => {
@@ -139,27 +112,11 @@ export const verifySignatureAPI = async (token: string): Promise<IContractRespon
       }
     );
     
-    if (response && response.data) {
-      console.log("Verification response:", response.data);
-      return response.data;
-    } else {
-      console.log("Invalid signature verification response:", response);
-      return {
-        success: false,
-        message: "Failed to verify signature"
-      };
-    }
+    console.log("Verification response:", response);
+    return normalizeApiResponse(response, "Signature verified successfully");
   } catch (error: any) {
     console.log("Error verifying signature:", error);
-    
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
-    return {
-      success: false,
-      message: error.response?.data?.message || "Failed to verify signature"
-    };
+    return toApiErrorResult(error, "Failed to verify signature");
   }
 };
 /**
@@ -167,7 +124,7 @@ export const verifySignatureAPI = async (token: string): Promise<IContractRespon
  * @param quotationCode The code of the quotation to get contract for
  * @returns Promise with the contract information
  */
-export const getContractByQuotationAPI = async (quotationCode: string): Promise<IContractContent> => {
+export const getContractByQuotationAPI = async (quotationCode: string): Promise<ApiResult<IContractContent>> => {
   try {
     const apiClient = await initApiClient();
     
@@ -175,76 +132,33 @@ export const getContractByQuotationAPI = async (quotationCode: string): Promise<
       `/api/Contract/getContractByQuotation/${quotationCode}`
     );
     
-    if (response && response.data) {
-      return response.data;
-    } else {
-      console.log("Invalid contract response:", response);
-      return {
-        success: false,
-        contractId: 0,
-        contractCode: "",
-        content: "",
-        status: 0,
-        isSigned: false,
-        createdAt: new Date().toISOString(),
-        message: "Failed to retrieve contract"
-      };
-    }
+    return normalizeApiResponse<IContractContent>(response, "Failed to retrieve contract");
   } catch (error: any) {
     console.log("Error fetching contract:", error);
-    
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
-    return {
-      success: false,
-      contractId: 0,
-      contractCode: "",
-      content: "",
-      status: 0,
-      isSigned: false,
-      createdAt: new Date().toISOString(),
-      message: "Failed to connect to contract service"
-    };
+    return toApiErrorResult(error, "Failed to connect to contract service");
   }
 };
 
-export const getContractFileAPI = async (quotationCode: string) => {
+export const getContractFileAPI = async (quotationCode: string): Promise<IContractFileResponse> => {
   try {
     const apiClient = await initApiClient();
     
     // Use the endpoint
     const response = await apiClient.get(`/api/Contract/getContractFile/${quotationCode}`);
+    const result = normalizeApiResponse<IContractDetail>(response, "Contract file URL retrieved successfully");
     
-    if (response && response.data) {
-      // The API returns the data directly, not wrapped in a data property
-      return {
-        success: true,
-        message: "Contract file URL retrieved successfully",
-        data: response.data  // Return the data directly
-      };
-    } else {
+    if (result.success && !result.data) {
       console.log("Invalid contract file response:", response);
-      return {
-        success: false,
-        message: "Failed to retrieve contract file"
-      };
+      return { ...result, success: false, message: "Failed to retrieve contract file" };
     }
+    
+    return result;
   } catch (error: any) {
     console.log("Error fetching contract file:", error);
-    
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
-    return {
-      success: false,
-      message: error.response?.data?.message || "Failed to retrieve contract file"
-    };
+    return toApiErrorResult(error, "Failed to retrieve contract file");
   }
 };
-export const requestTerminationOtpAPI = async (contractCode: string): Promise<any> => {
+export const requestTerminationOtpAPI = async (contractCode: string): Promise<ApiResult> => {
   try {
     console.log(`🔍 Requesting termination OTP for contract: ${contractCode}`);
     const apiClient = await initApiClient();
@@ -275,31 +189,14 @@ export const requestTerminationOtpAPI = async (contractCode: string): Promise<an
       }
     );
     
-    console.log(`🟢 Request termination OTP response status: ${response.status}`);
-    console.log(`🟢 Request termination OTP data:`, response.data);
+    console.log(`🟢 Request termination OTP response:`, response);
     
-    return response.data;
+    return normalizeApiResponse(response);
     
   } catch (error: any) {
     console.error("🔴 Request Termination OTP API Error:", error);
     
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to request termination OTP",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    return {
-      success: false,
-      message: error.message || "Failed to request termination OTP",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to request termination OTP");
   }
 };
 
@@ -310,7 +207,7 @@ export const requestTerminationOtpAPI = async (contractCode: string): Promise<an
 export const terminateContractAPI = async (
   contractCode: string, 
   otp: string
-): Promise<any> => {
+): Promise<ApiResult> => {
   try {
     console.log(`🔍 Terminating contract: ${contractCode} with OTP`);
     const apiClient = await initApiClient();
@@ -349,30 +246,13 @@ export const terminateContractAPI = async (
       }
     );
     
-    console.log(`🟢 Terminate contract response status: ${response.status}`);
-    console.log(`🟢 Terminate contract data:`, response.data);
+    console.log(`🟢 Terminate contract response:`, response);
     
-    return response.data;
+    return normalizeApiResponse(response);
     
   } catch (error: any) {
     console.error("🔴 Terminate Contract API Error:", error);
     
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to terminate contract",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    return {
-      success: false,
-      message: error.message || "Failed to terminate contract",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to terminate contract");
   }
 };
\ No newline at end of file
@@ -0,0 +1,197 @@
+// Filter model for the decor service search screen.
+// Filters live in the route query (/decor?season=Tết&minPrice=...&sort=rating) so a
+// filtered search can be shared as a link and restored when the screen reopens.
+import { locations } from "@/data/provincesData";
+import { IDecor, IDecorSearchParams } from "./decorserviceAPI";
+
+export type DecorSortOrder = "relevance" | "newest" | "mostFavorited" | "rating";
+
+export interface DecorSearchFilters {
+  query: string;
+  season: string | null;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  // Province slug from data/provincesData.ts (e.g. "hcmc")
+  province?: string;
+  providerId?: number;
+  favoritesOnly: boolean;
+  sort: DecorSortOrder;
+}
+
+export const DEFAULT_DECOR_FILTERS: DecorSearchFilters = {
+  query: "",
+  season: null,
+  favoritesOnly: false,
+  sort: "relevance",
+};
+
+export const DECOR_SORT_OPTIONS: { value: DecorSortOrder; label: string }[] = [
+  { value: "relevance", label: "Relevance" },
+  { value: "newest", label: "Newest" },
+  { value: "mostFavorited", label: "Most favorited" },
+  { value: "rating", label: "Top rated" },
+];
+
+export const DECOR_RATING_OPTIONS = [3, 4, 4.5];
+
+type RouteParams = Record<string, string | string[] | undefined>;
+
+const readParam = (params: RouteParams, key: string): string | undefined => {
+  const value = params[key];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const readNumber = (params: RouteParams, key: string): number | undefined => {
+  const value = readParam(params, key);
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const isSortOrder = (value: unknown): value is DecorSortOrder =>
+  DECOR_SORT_OPTIONS.some((option) => option.value === value);
+
+/**
+ * Read filters back from route params; unknown or malformed values fall back to defaults
+ */
+export const parseDecorFilters = (params: RouteParams): DecorSearchFilters => {
+  const sort = readParam(params, "sort");
+  const province = readParam(params, "province");
+  let minPrice = readNumber(params, "minPrice");
+  let maxPrice = readNumber(params, "maxPrice");
+
+  // A swapped range in a hand-edited link still means "between these two"
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    [minPrice, maxPrice] = [maxPrice, minPrice];
+  }
+
+  const minRating = readNumber(params, "minRating");
+
+  return {
+    query: readParam(params, "q") ?? "",
+    season: readParam(params, "season") || null,
+    minPrice,
+    maxPrice,
+    minRating: minRating !== undefined && minRating <= 5 ? minRating : undefined,
+    province: province && locations.some((location) => location.value === province) ? province : undefined,
+    providerId: readNumber(params, "provider"),
+    favoritesOnly: readParam(params, "favorites") === "1",
+    sort: isSortOrder(sort) ? sort : DEFAULT_DECOR_FILTERS.sort,
+  };
+};
+
+/**
+ * Turn filters into route params. Every key is present so router.setParams also
+ * clears filters that were removed; undefined means "not set".
+ */
+export const serializeDecorFilters = (filters: DecorSearchFilters): Record<string, string | undefined> => ({
+  q: filters.query.trim() || undefined,
+  season: filters.season ?? undefined,
+  minPrice: filters.minPrice?.toString(),
+  maxPrice: filters.maxPrice?.toString(),
+  minRating: filters.minRating?.toString(),
+  province: filters.province,
+  provider: filters.providerId?.toString(),
+  favorites: filters.favoritesOnly ? "1" : undefined,
+  sort: filters.sort === DEFAULT_DECOR_FILTERS.sort ? undefined : filters.sort,
+});
+
+/**
+ * Only the params that are set, for building a shareable link
+ */
+export const toDecorShareParams = (filters: DecorSearchFilters): Record<string, string> => {
+  const params = serializeDecorFilters(filters);
+  return Object.keys(params).reduce<Record<string, string>>((acc, key) => {
+    const value = params[key];
+    return value ? { ...acc, [key]: value } : acc;
+  }, {});
+};
+
+export const getProvinceLabel = (value?: string): string | undefined =>
+  locations.find((location) => location.value === value)?.label;
+
+// Number of filter-sheet filters in use (search text and season have their own controls)
+export const countActiveDecorFilters = (filters: DecorSearchFilters): number =>
+  [
+    filters.minPrice !== undefined || filters.maxPrice !== undefined,
+    filters.minRating !== undefined,
+    !!filters.province,
+    filters.providerId !== undefined,
+    filters.favoritesOnly,
+    filters.sort !== DEFAULT_DECOR_FILTERS.sort,
+  ].filter(Boolean).length;
+
+/**
+ * Filters that need the search endpoint rather than the full service list
+ */
+export const hasServerSideFilters = (filters: DecorSearchFilters): boolean =>
+  !!filters.query.trim() ||
+  !!filters.season ||
+  filters.minPrice !== undefined ||
+  filters.maxPrice !== undefined ||
+  filters.minRating !== undefined ||
+  !!filters.province ||
+  filters.providerId !== undefined;
+
+export const toDecorSearchParams = (filters: DecorSearchFilters): IDecorSearchParams => ({
+  style: filters.query.trim() || undefined,
+  seasonNames: filters.season ? [filters.season] : undefined,
+  province: getProvinceLabel(filters.province),
+  minPrice: filters.minPrice,
+  maxPrice: filters.maxPrice,
+  minRating: filters.minRating,
+  providerId: filters.providerId,
+  sortBy: filters.sort === "relevance" ? undefined : filters.sort,
+});
+
+// "TP. Hồ Chí Minh" and "tp. ho chi minh" should match
+const normalizeText = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .trim();
+
+const getServicePrice = (service: IDecor): number => service.basePrice ?? service.price ?? 0;
+
+const getServiceProviderId = (service: IDecor): number | undefined => service.provider?.id ?? service.accountId;
+
+const getTime = (value?: string): number => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+};
+
+const SORTERS: Record<Exclude<DecorSortOrder, "relevance">, (a: IDecor, b: IDecor) => number> = {
+  newest: (a, b) => getTime(b.createAt) - getTime(a.createAt),
+  mostFavorited: (a, b) => (b.favoriteCount ?? 0) - (a.favoriteCount ?? 0),
+  rating: (a, b) => (b.rate ?? 0) - (a.rate ?? 0) || (b.totalRating ?? 0) - (a.totalRating ?? 0),
+};
+
+/**
+ * Apply price, rating, province, provider and favorites filters plus the sort order.
+ * The search endpoint may ignore the newer parameters, so results are always filtered here too.
+ */
+export const applyDecorFilters = (
+  services: IDecor[],
+  filters: DecorSearchFilters,
+  favoriteServiceIds?: Set<number>
+): IDecor[] => {
+  const provinceLabel = getProvinceLabel(filters.province);
+  const province = provinceLabel ? normalizeText(provinceLabel) : null;
+
+  const filtered = services.filter((service) => {
+    const price = getServicePrice(service);
+    if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+    if (filters.minRating !== undefined && (service.rate ?? 0) < filters.minRating) return false;
+    if (province && !normalizeText(service.province || "").includes(province)) return false;
+    if (filters.providerId !== undefined && getServiceProviderId(service) !== filters.providerId) return false;
+    if (filters.favoritesOnly && !favoriteServiceIds?.has(service.id)) return false;
+    return true;
+  });
+
+  return filters.sort === "relevance" ? filtered : [...filtered].sort(SORTERS[filters.sort]);
+};
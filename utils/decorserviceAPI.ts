@@ -1,5 +1,15 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { IProvider } from "./productAPI";
+import {
+  ApiPaginatedResult,
+  ApiResult,
+  getApiErrorMessage,
+  normalizeApiResponse,
+  slicePage,
+  toApiErrorResult,
+  unwrapApiResult,
+} from "./apiResult";
+import type { IServiceAvailability } from "./surveyAvailability";
 
 // Decor service interface
 // Update your IDecor interface to match the actual API response:
@@ -14,7 +24,7 @@ export interface IDecor {
   decorCategoryId: number;
   favoriteCount: number;
   images: string[]; // Changed to string[] to match your API response
-  seasons: string[] | Array<{id: number; name: string; seasonName?: string;}>;
+  seasons: string[] | {id: number; name: string; seasonName?: string;}[];
   provider?: IProvider;
   categoryName?: string;
   sublocation?: string;
@@ -43,12 +53,7 @@ export interface IStyleColorData {
   designs: IDesign[];
 }
 
-export interface IStyleColorResponse {
-  success: boolean;
-  message: string;
-  data: IStyleColorData | null;
-  errors?: string[];
-}
+export type IStyleColorResponse = ApiResult<IStyleColorData>;
 
 // Interface for Scope of Work
 export interface IScopeOfWork {
@@ -57,30 +62,26 @@ export interface IScopeOfWork {
   description?: string;
 }
 
-export interface IScopeOfWorkResponse {
-  success: boolean;
-  message: string;
-  data: IScopeOfWork[] | null;
-  errors?: string[];
-}
+export type IScopeOfWorkResponse = ApiResult<IScopeOfWork[]>;
 
 // NEW API: Get Style Colors and Designs by Service ID
-export const getStyleColorByServiceIdAPI = async (serviceId: number): Promise<any> => {
+export const getStyleColorByServiceIdAPI = async (serviceId: number): Promise<IStyleColorData> => {
   const apiClient = await initApiClient();
 
   try {
     console.log(`🔍 Fetching style colors for service ID: ${serviceId}`);
     
     const response = await apiClient.get(`/api/DecorService/getStyleNColorByServiceId/${serviceId}`);
+    const styleColors = unwrapApiResult(normalizeApiResponse<IStyleColorData>(response));
     
-    if (response.data) {
-      return response.data; // Return response trực tiếp
+    if (styleColors) {
+      return styleColors;
     } else {
       throw new Error("Invalid response format");
     }
   } catch (error: any) {
-    console.error("🔴 Get Style Color Error:", error.response?.data || error.message);
-    throw error;
+    console.error("🔴 Get Style Color Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch styles and colors."));
   }
 };
 
@@ -92,24 +93,17 @@ export const getScopeOfWorkAPI = async (): Promise<IScopeOfWork[]> => {
     console.log("🔍 Fetching scope of work list");
     
     const response = await apiClient.get("/api/ScopeOfWork/getList");
+    const scopes = unwrapApiResult(normalizeApiResponse<IScopeOfWork[]>(response));
     
-    if (response.data) {
+    if (Array.isArray(scopes)) {
       console.log("✅ Scope of work fetched successfully");
-      
-      // Handle different response formats
-      if (response.data.success && response.data.data) {
-        return response.data.data; // If wrapped in success/data structure
-      } else if (Array.isArray(response.data)) {
-        return response.data; // If direct array
-      } else {
-        return response.data; // Return as is
-      }
+      return scopes;
     } else {
       console.warn("⚠️ No scope of work data received");
       return [];
     }
   } catch (error: any) {
-    console.error("🔴 Get Scope of Work Error:", error.response?.data || error.message);
+    console.error("🔴 Get Scope of Work Error:", error);
     
     // Return empty array instead of throwing to prevent app crash
     console.log("📝 Returning empty scope of work array");
@@ -125,10 +119,11 @@ export const getDecorServicesAPI = async (): Promise<IDecor[]> => {
   try {
     // Make GET request to the correct endpoint with no parameters
     const response = await apiClient.get("/api/DecorService");
+    const services = unwrapApiResult(normalizeApiResponse<IDecor[]>(response));
 
     // Check if response contains data and ensure images are valid URIs
-    if (response.data && Array.isArray(response.data)) {
-      const decorServices = response.data.map((service: IDecor) => {
+    if (Array.isArray(services)) {
+      const decorServices = services.map((service: IDecor) => {
         // Ensure that the images array contains valid image URLs
         const validImages = service.images.map((image: any) => {
           // Check if image is an object and extract the imageURL property
@@ -151,8 +146,8 @@ export const getDecorServicesAPI = async (): Promise<IDecor[]> => {
       throw new Error("Failed to fetch decor services: Invalid response format.");
     }
   } catch (error: any) {
-    console.error("🔴 Fetch Decor Services Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to fetch decor services.");
+    console.error("🔴 Fetch Decor Services Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch decor services."));
   }
 };
 
@@ -162,7 +157,8 @@ export const getDecorServiceByIdAPI = async (id: number): Promise<IDecor | null>
      
   try {
     const response = await apiClient.get(`/api/DecorService/${id}`);
-    const service = response.data;
+    const result = normalizeApiResponse<any>(response);
+    const service = result.success ? result.data : null;
     
     // Kiểm tra nếu không có dữ liệu service
     if (!service) {
@@ -226,6 +222,27 @@ export const getDecorServiceByIdAPI = async (id: number): Promise<IDecor | null>
   }
 };
 
+/**
+ * Survey availability of the service's provider between two dates (yyyy-mm-dd):
+ * offered slot times, days off and slots other customers already booked
+ */
+export const getServiceAvailabilityAPI = async (
+  decorServiceId: number,
+  fromDate: string,
+  toDate: string
+): Promise<ApiResult<IServiceAvailability>> => {
+  try {
+    const apiClient = await initApiClient();
+    const response = await apiClient.get(`/api/DecorService/getAvailability/${decorServiceId}`, {
+      params: { FromDate: fromDate, ToDate: toDate },
+    });
+    return normalizeApiResponse<IServiceAvailability>(response);
+  } catch (error) {
+    console.error("🔴 Error fetching service availability:", error);
+    return toApiErrorResult<IServiceAvailability>(error, "Failed to load provider availability");
+  }
+};
+
 export const getDecorServiceByProviderAPI = async (slug: string): Promise<any> => {
   try {
     // Log the slug being used to ensure it's correct
@@ -246,18 +263,17 @@ export const getDecorServiceByProviderAPI = async (slug: string): Promise<any> =
 
     try {
       const response = await apiClient.get(endpoint);
-      
-      // More comprehensive response logging
+      const data = unwrapApiResult(normalizeApiResponse<any>(response));
 
       // Handle empty arrays or null/undefined response data
-      if (!response.data || (Array.isArray(response.data) && response.data.length === 0)) {
+      if (!data || (Array.isArray(data) && data.length === 0)) {
         // Return empty array instead of throwing an error
         console.log("ℹ️ No decor services found for this provider");
         return []; // Return empty array instead of throwing error
       }
 
       // Process single object or array of objects
-      const services = Array.isArray(response.data) ? response.data : [response.data];
+      const services: any[] = Array.isArray(data) ? data : [data];
       
       // Process each service
       return services.map(service => {
@@ -284,18 +300,14 @@ export const getDecorServiceByProviderAPI = async (slug: string): Promise<any> =
 
     } catch (apiError: any) {
       // Special handling for 404 (Not Found) responses
-      if (apiError.response?.status === 404) {
+      if (apiError?.status === 404 || apiError.response?.status === 404) {
         console.log("ℹ️ No decor services found for this provider (404 response)");
         return []; // Return empty array for 404 responses
       }
       
-      console.error("🔴 API Request Error:", {
-        status: apiError.response?.status,
-        data: apiError.response?.data,
-        message: apiError.message
-      });
+      console.error("🔴 API Request Error:", apiError);
       
-      throw new Error(apiError.response?.data?.message || "Failed to fetch decor services");
+      throw new Error(getApiErrorMessage(apiError, "Failed to fetch decor services"));
     }
 
   } catch (error: any) {
@@ -306,14 +318,49 @@ export const getDecorServiceByProviderAPI = async (slug: string): Promise<any> =
   }
 };
 
+// List cards expect image URLs and season names (both string[] and object[] formats are returned)
+const normalizeDecorListItem = (service: IDecor): IDecor => {
+  const validImages = Array.isArray(service.images) 
+    ? service.images.map((image: any) => {
+        return typeof image === 'string' 
+          ? image 
+          : (image && image.imageURL) 
+            ? image.imageURL 
+            : 'https://via.placeholder.com/150';
+      })
+    : ['https://via.placeholder.com/150'];
+
+  const validSeasons = Array.isArray(service.seasons)
+    ? service.seasons.map((season: any) => {
+        if (typeof season === 'string') return season;
+        return season.seasonName || season.name || "No Season";
+      })
+    : ["No Season"];
+
+  return {
+    ...service,
+    images: validImages,
+    seasons: validSeasons,
+  };
+};
+
+// Search parameters; filters after seasonNames are newer and may be ignored by older backends
+export interface IDecorSearchParams {
+  style?: string;
+  sublocation?: string;
+  categoryName?: string;
+  seasonNames?: string[];
+  province?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  providerId?: number;
+  sortBy?: "newest" | "mostFavorited" | "rating";
+}
+
 // Search decor services with filter parameters
 export const searchDecorServicesAPI = async (
-  params: {
-    style?: string;
-    sublocation?: string;
-    categoryName?: string;
-    seasonNames?: string[];
-  }
+  params: IDecorSearchParams
 ): Promise<IDecor[]> => {
   const apiClient = await initApiClient();
   
@@ -332,65 +379,92 @@ export const searchDecorServicesAPI = async (
         queryParams.append('SeasonNames', season);
       });
     }
+
+    if (params.province) queryParams.append('Province', params.province);
+    if (params.minPrice !== undefined) queryParams.append('MinPrice', params.minPrice.toString());
+    if (params.maxPrice !== undefined) queryParams.append('MaxPrice', params.maxPrice.toString());
+    if (params.minRating !== undefined) queryParams.append('MinRating', params.minRating.toString());
+    if (params.providerId !== undefined) queryParams.append('ProviderId', params.providerId.toString());
+    if (params.sortBy) {
+      queryParams.append('SortBy', params.sortBy);
+      queryParams.append('Descending', 'true');
+    }
     
     // Make the GET request with query parameters
     const url = `/api/DecorService/search?${queryParams.toString()}`;
     console.log("🔍 Searching decor services with URL:", url);
     
     const response = await apiClient.get(url);
+    const services = unwrapApiResult(normalizeApiResponse<IDecor[]>(response));
     
     // Handle response data
-    if (response.data && Array.isArray(response.data)) {
-      // Process each decor service
-      const decorServices = response.data.map((service: IDecor) => {
-        // Process images (handle both string[] and object[] formats)
-        const validImages = Array.isArray(service.images) 
-          ? service.images.map((image: any) => {
-              return typeof image === 'string' 
-                ? image 
-                : (image && image.imageURL) 
-                  ? image.imageURL 
-                  : 'https://via.placeholder.com/150';
-            })
-          : ['https://via.placeholder.com/150'];
-        
-        // Process seasons (handle both string[] and object[] formats)
-        const validSeasons = Array.isArray(service.seasons)
-          ? service.seasons.map((season: any) => {
-              if (typeof season === 'string') return season;
-              return season.seasonName || season.name || "No Season";
-            })
-          : ["No Season"];
-        
-        // Return processed service
-        return {
-          ...service,
-          images: validImages,
-          seasons: validSeasons,
-        };
-      });
+    if (Array.isArray(services)) {
+      const decorServices = services.map(normalizeDecorListItem);
       
       return decorServices;
     } else {
-      // If response.data is not an array, return an empty array
+      // If the payload is not an array, return an empty array
       console.log("ℹ️ No matching decor services found");
       return [];
     }
   } catch (error: any) {
     // Log error details
-    console.error("🔴 Search Decor Services Error:", {
-      status: error.response?.status,
-      data: error.response?.data,
-      message: error.message
-    });
+    console.error("🔴 Search Decor Services Error:", error);
     
     // Return empty array for 404 (Not Found) responses
-    if (error.response?.status === 404) {
+    if (error?.status === 404 || error.response?.status === 404) {
       console.log("ℹ️ No matching decor services found (404 response)");
       return [];
     }
     
     // Throw error for other errors
-    throw new Error(error.response?.data?.message || "Failed to search decor services.");
+    throw new Error(getApiErrorMessage(error, "Failed to search decor services."));
   }
-};
\ No newline at end of file
+};
+
+export interface IDecorPageParams {
+  pageIndex?: number;
+  pageSize?: number;
+  sortBy?: IDecorSearchParams["sortBy"];
+}
+
+// Fetches one page of decor services for infinite scrolling
+export const getPaginatedDecorServicesAPI = async ({
+  pageIndex = 1,
+  pageSize = 10,
+  sortBy,
+}: IDecorPageParams = {}): Promise<ApiPaginatedResult<IDecor>> => {
+  const apiClient = await initApiClient();
+
+  try {
+    const response = await apiClient.get("/api/DecorService/getPaginatedList", {
+      params: {
+        PageIndex: pageIndex,
+        PageSize: pageSize,
+        ...(sortBy && { SortBy: sortBy, Descending: true }),
+      },
+    });
+    const result = normalizeApiResponse<IDecor[]>(response);
+    const services = unwrapApiResult(result, "Failed to fetch decor services.");
+
+    if (!Array.isArray(services)) {
+      throw new Error("Failed to fetch decor services: Invalid response format.");
+    }
+
+    // Without pagination metadata the server sent the whole list, so page it here
+    if (!result.pagination) {
+      return slicePage(services.map(normalizeDecorListItem), pageIndex, pageSize);
+    }
+
+    return { ...result, data: services.map(normalizeDecorListItem), pagination: result.pagination };
+  } catch (error: any) {
+    // Backends without the paginated endpoint still serve the full list
+    if (error?.status === 404 || error?.response?.status === 404) {
+      console.log("ℹ️ Paginated decor endpoint not found, paging the full list locally");
+      return slicePage(await getDecorServicesAPI(), pageIndex, pageSize);
+    }
+
+    console.error("🔴 Fetch Paginated Decor Services Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch decor services."));
+  }
+};
@@ -0,0 +1,317 @@
+// Deep link registry: maps incoming URLs (app scheme, https, Expo dev URLs and the
+// relative `url` field of notifications) to expo-router routes with validated params.
+// Navigation and auth gating live in services/DeepLinkService.ts; this module is pure
+// so the URL table can be unit tested.
+
+export const APP_SCHEME = "com.baymaxphan.seasondecormobileapp";
+
+export type DeepLinkName =
+  | "signature"
+  | "signatureResult"
+  | "paymentResult"
+  | "oauthRedirect"
+  | "booking"
+  | "quotation"
+  | "quotationList"
+  | "quotationRevisions"
+  | "contract"
+  | "decor"
+  | "product"
+  | "provider"
+  | "chat"
+  | "support"
+  | "cart"
+  | "notifications"
+  | "screen";
+
+export interface IParsedDeepLink {
+  path: string; // Always starts with "/", no trailing slash
+  segments: string[];
+  query: Record<string, string>;
+}
+
+export interface IDeepLinkMatch {
+  name: DeepLinkName;
+  pathname: string;
+  params: Record<string, string>;
+  requiresAuth: boolean;
+  url: string;
+}
+
+type ParamRule = RegExp;
+
+// Booking / quotation / contract codes, e.g. BKG-0001, QUO-0001
+const CODE: ParamRule = /^[A-Za-z0-9][A-Za-z0-9_-]{1,63}$/;
+const NUMERIC_ID: ParamRule = /^\d{1,10}$/;
+const SLUG: ParamRule = /^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/;
+// Signature tokens from the verification email (JWT or base64url)
+const TOKEN: ParamRule = /^[A-Za-z0-9._~+/=-]{8,4096}$/;
+
+// Profile screens that may be opened by a link, as /screens/<name>
+const LINKABLE_SCREENS = [
+  "Bookings",
+  "Orders",
+  "Favorites",
+  "Following",
+  "Reviews",
+  "Account",
+  "Addresses",
+  "Support",
+  "SurveyDrafts",
+  "NotificationSettings",
+  "payment/transactions",
+  "payment/add-funds",
+];
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+};
+
+// URLSearchParams in React Native only partially implements reading, so parse by hand
+const parseQuery = (search: string): Record<string, string> =>
+  search
+    .split("&")
+    .filter(Boolean)
+    .reduce<Record<string, string>>((query, pair) => {
+      const [rawKey, ...rest] = pair.split("=");
+      const key = safeDecode(rawKey);
+      if (key && !(key in query)) {
+        query[key] = safeDecode(rest.join("="));
+      }
+      return query;
+    }, {});
+
+/**
+ * Split a URL into a normalized path and query. Handles
+ * `com.baymaxphan.seasondecormobileapp://quotation/QUO-1`, `https://host/quotation/QUO-1`,
+ * `exp://192.168.1.2:8081/--/quotation/QUO-1` and bare paths like `quotation/QUO-1`.
+ */
+export const parseDeepLinkUrl = (url: string): IParsedDeepLink | null => {
+  const trimmed = (url || "").trim();
+  if (!trimmed) return null;
+
+  const withoutFragment = trimmed.split("#")[0];
+  const queryIndex = withoutFragment.indexOf("?");
+  const base = queryIndex >= 0 ? withoutFragment.slice(0, queryIndex) : withoutFragment;
+  const search = queryIndex >= 0 ? withoutFragment.slice(queryIndex + 1) : "";
+
+  let path: string;
+  const schemeMatch = base.match(/^([a-z][a-z0-9+.-]*):\/\/([^/]*)(.*)$/i);
+  if (schemeMatch) {
+    const [, scheme, authority, rest] = schemeMatch;
+    const lowerScheme = scheme.toLowerCase();
+    if (lowerScheme === "http" || lowerScheme === "https") {
+      path = rest;
+    } else if (rest.includes("/--/")) {
+      // Expo Go / dev client URLs put the app path after "/--/"
+      path = rest.slice(rest.indexOf("/--/") + 3);
+    } else {
+      // Custom scheme: the "host" is the first path segment
+      path = `/${authority}${rest}`;
+    }
+  } else if (/^[a-z][a-z0-9+.-]*:/i.test(base) && !base.startsWith("/")) {
+    // mailto:, tel: and similar are not app links
+    return null;
+  } else {
+    path = base.startsWith("/") ? base : `/${base}`;
+  }
+
+  const segments = path.split("/").filter(Boolean).map(safeDecode);
+  return {
+    path: `/${segments.join("/")}`,
+    segments,
+    query: parseQuery(search),
+  };
+};
+
+interface IRouteResult {
+  pathname: string;
+  params?: Record<string, string>;
+}
+
+interface IDeepLinkRoute {
+  name: DeepLinkName;
+  requiresAuth: boolean;
+  match: (link: IParsedDeepLink) => IRouteResult | null;
+}
+
+/**
+ * Match a path pattern such as "/quotation/:code" and validate each parameter.
+ * Returns null when the shape matches but a parameter is invalid.
+ */
+const matchPattern = (
+  link: IParsedDeepLink,
+  pattern: string,
+  rules: Record<string, ParamRule> = {}
+): Record<string, string> | null => {
+  const parts = pattern.split("/").filter(Boolean);
+  if (parts.length !== link.segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < parts.length; index++) {
+    const part = parts[index];
+    const segment = link.segments[index];
+
+    if (part.startsWith(":")) {
+      const name = part.slice(1);
+      const rule = rules[name];
+      if (rule && !rule.test(segment)) return null;
+      params[name] = segment;
+    } else if (part.toLowerCase() !== segment.toLowerCase()) {
+      return null;
+    }
+  }
+  return params;
+};
+
+const pathRoute = (
+  name: DeepLinkName,
+  patterns: string[],
+  pathname: string,
+  rules: Record<string, ParamRule>,
+  requiresAuth: boolean
+): IDeepLinkRoute => ({
+  name,
+  requiresAuth,
+  match: (link) => {
+    for (const pattern of patterns) {
+      const params = matchPattern(link, pattern, rules);
+      if (params) return { pathname, params };
+    }
+    return null;
+  },
+});
+
+const isPaymentReturn = (link: IParsedDeepLink): boolean =>
+  "vnp_ResponseCode" in link.query ||
+  /^\/(screens\/)?payment\/(success|failure|return)$/i.test(link.path);
+
+// Order matters: the first route that matches wins
+const DEEP_LINK_ROUTES: IDeepLinkRoute[] = [
+  {
+    // VNPay returns to any path with vnp_* params; 00/00 means paid
+    name: "paymentResult",
+    requiresAuth: true,
+    match: (link) => {
+      if (!isPaymentReturn(link)) return null;
+
+      const responseCode = link.query.vnp_ResponseCode;
+      const transactionStatus = link.query.vnp_TransactionStatus ?? responseCode;
+      const succeeded =
+        responseCode !== undefined
+          ? responseCode === "00" && transactionStatus === "00"
+          : /success$/i.test(link.path);
+
+      const params: Record<string, string> = {};
+      if (responseCode !== undefined) params.responseCode = responseCode;
+      if (link.query.vnp_TxnRef) params.transactionRef = link.query.vnp_TxnRef;
+
+      return { pathname: succeeded ? "/screens/payment/success" : "/screens/payment/failure", params };
+    },
+  },
+  {
+    // Link in the signature email: verify the token, works without being logged in
+    name: "signature",
+    requiresAuth: false,
+    match: (link) => {
+      if (!matchPattern(link, "/signature_success") || link.query.token === undefined) return null;
+      return TOKEN.test(link.query.token) ? { pathname: "/signature_success", params: { token: link.query.token } } : null;
+    },
+  },
+  {
+    // Return from the web verification page with the outcome
+    name: "signatureResult",
+    requiresAuth: true,
+    match: (link) => {
+      if (!matchPattern(link, "/signature_success")) return null;
+      const { success, verified, contractCode, error } = link.query;
+      if (success === undefined && verified === undefined) return null;
+
+      const params: Record<string, string> = { success: String(success === "true" || verified === "true") };
+      if (contractCode && CODE.test(contractCode)) params.contractCode = contractCode;
+      if (error) params.error = error.slice(0, 200);
+      return { pathname: "/screens/Bookings", params };
+    },
+  },
+  pathRoute("oauthRedirect", ["/oauthredirect"], "/oauthredirect", {}, false),
+  pathRoute(
+    "contract",
+    ["/quotation/contract/:code", "/contract/:code"],
+    "/quotation/contract/[code]",
+    { code: CODE },
+    true
+  ),
+  pathRoute("quotationRevisions", ["/quotation/revisions/:code"], "/quotation/revisions/[code]", { code: CODE }, true),
+  pathRoute("quotationList", ["/quotation/list", "/quotations"], "/quotation/list", {}, true),
+  pathRoute(
+    "quotation",
+    ["/quotation/quotation-detail/:code", "/quotation/:code"],
+    "/quotation/quotation-detail/[code]",
+    { code: CODE },
+    true
+  ),
+  pathRoute("booking", ["/booking/booking-detail/:code", "/bookings/:code"], "/booking/booking-detail", { code: CODE }, true),
+  pathRoute("decor", ["/decor/:id"], "/decor/[id]", { id: NUMERIC_ID }, false),
+  pathRoute("product", ["/product/product-detail/:id", "/product/:id"], "/product/product-detail/[id]", { id: NUMERIC_ID }, false),
+  pathRoute("provider", ["/provider/:slug"], "/provider/[slug]", { slug: SLUG }, false),
+  pathRoute("chat", ["/chat/:userId"], "/chat/[userId]", { userId: NUMERIC_ID }, true),
+  pathRoute("support", ["/support/:id"], "/support/[id]", { id: NUMERIC_ID }, true),
+  pathRoute("cart", ["/cart"], "/cart", {}, true),
+  pathRoute("notifications", ["/notifications"], "/notifications", {}, true),
+  {
+    name: "screen",
+    requiresAuth: true,
+    match: (link) => {
+      const screen = link.segments[0]?.toLowerCase() === "screens" ? link.segments.slice(1).join("/") : "";
+      const known = LINKABLE_SCREENS.find((name) => name.toLowerCase() === screen.toLowerCase());
+      return known ? { pathname: `/screens/${known}` } : null;
+    },
+  },
+];
+
+/**
+ * Resolve a URL to a route, or null when no route accepts it (unknown path or
+ * parameters that fail validation).
+ */
+export const resolveDeepLink = (url: string): IDeepLinkMatch | null => {
+  const link = parseDeepLinkUrl(url);
+  if (!link) return null;
+
+  for (const route of DEEP_LINK_ROUTES) {
+    const result = route.match(link);
+    if (result) {
+      return {
+        name: route.name,
+        pathname: result.pathname,
+        params: result.params ?? {},
+        requiresAuth: route.requiresAuth,
+        url,
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Concrete path for a match: dynamic segments filled in, remaining params as query
+ * string. Used where expo-router expects a plain path (+native-intent.tsx).
+ */
+export const toDeepLinkHref = (match: Pick<IDeepLinkMatch, "pathname" | "params">): string => {
+  const query: string[] = [];
+  const used = new Set<string>();
+
+  const path = match.pathname.replace(/\[([^\]]+)\]/g, (_, name: string) => {
+    used.add(name);
+    return encodeURIComponent(match.params[name] ?? "");
+  });
+
+  Object.entries(match.params).forEach(([key, value]) => {
+    if (!used.has(key)) query.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+  });
+
+  return query.length > 0 ? `${path}?${query.join("&")}` : path;
+};
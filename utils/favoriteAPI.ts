@@ -1,5 +1,7 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken, getUserIdFromToken } from "@/services/auth";
+import { ApiResult, assertApiSuccess, getApiErrorMessage, normalizeApiResponse, unwrapApiResult } from "./apiResult";
+import offlineQueue, { IQueuedMutation, toQueuedMutation } from "@/services/OfflineQueueService";
 
 // ============================
 // Favorite Product API
@@ -18,16 +20,16 @@ export const getFavoriteProductListAPI = async () => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Favorite Product List:", response.data);
-    return response.data;
+    const favorites = unwrapApiResult(normalizeApiResponse<any[]>(response));
+    console.log("🟢 Favorite Product List:", favorites);
+    return favorites;
   } catch (error: any) {
-    console.error("🔴 Get Favorite Product List API Error:", error.response?.data);
-    throw new Error(error.response?.data?.message || "Failed to fetch favorite products.");
+    console.error("🔴 Get Favorite Product List API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch favorite products."));
   }
 };
 
-export const addFavoriteProductAPI = async (productId: number) => {
-  const apiClient = await initApiClient();
+export const addFavoriteProductAPI = async (productId: number): Promise<ApiResult | (ApiResult & IQueuedMutation)> => {
   const token = await getToken();
 
   if (!token) {
@@ -35,21 +37,32 @@ export const addFavoriteProductAPI = async (productId: number) => {
   }
 
   try {
-    const response = await apiClient.post(`/api/FavoriteProduct/${productId}`, null, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
+    // Queued while offline and replayed on reconnect
+    const sent = await offlineQueue.sendOrQueue(
+      { method: "post", url: `/api/FavoriteProduct/${productId}` },
+      `Add product ${productId} to favorites`
+    );
+    if (sent.queued) {
+      return {
+        success: true,
+        message: "Saved offline. It will sync when you are back online.",
+        errors: [],
+        ...toQueuedMutation(sent.entry),
+      };
+    }
 
-    console.log("🟢 Added Favorite Product:", response.data);
-    return response.data;
+    const result = normalizeApiResponse(sent.response);
+    console.log("🟢 Added Favorite Product:", result);
+    return assertApiSuccess(result);
   } catch (error: any) {
-    console.error("🔴 Add Favorite Product API Error:", error.response?.data);
+    console.error("🔴 Add Favorite Product API Error:", error);
     
     // Kiểm tra nếu là lỗi "đã tồn tại trong danh sách yêu thích"
-    if (error.response?.data?.message?.includes("already in favorite")) {
+    if (getApiErrorMessage(error, "").includes("already in favorite")) {
       throw new Error("Product is already in favorite list.");
     }
     
-    throw new Error(error.response?.data?.message || "Failed to add favorite product.");
+    throw new Error(getApiErrorMessage(error, "Failed to add favorite product."));
   }
 };
 export const removeFavoriteProductAPI = async (productId: number) => {
@@ -65,11 +78,12 @@ export const removeFavoriteProductAPI = async (productId: number) => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Removed Favorite Product:", response.data);
-    return response.data;
+    const result = normalizeApiResponse(response);
+    console.log("🟢 Removed Favorite Product:", result);
+    return assertApiSuccess(result);
   } catch (error: any) {
-    console.error("🔴 Remove Favorite Product API Error:", error.response?.data);
-    throw new Error(error.response?.data?.message || "Failed to remove favorite product.");
+    console.error("🔴 Remove Favorite Product API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to remove favorite product."));
   }
 };
 
@@ -90,11 +104,12 @@ export const getFavoriteServiceListAPI = async () => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Favorite Service List:", response.data);
-    return response.data;
+    const favorites = unwrapApiResult(normalizeApiResponse<any[]>(response));
+    console.log("🟢 Favorite Service List:", favorites);
+    return favorites;
   } catch (error: any) {
-    console.error("🔴 Get Favorite Service List API Error:", error.response?.data);
-    throw new Error(error.response?.data?.message || "Failed to fetch favorite services.");
+    console.error("🔴 Get Favorite Service List API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch favorite services."));
   }
 };
 
@@ -111,11 +126,12 @@ export const addFavoriteServiceAPI = async (decorServiceId: number) => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Added Favorite Service:", response.data);
-    return response.data;
+    const result = normalizeApiResponse(response);
+    console.log("🟢 Added Favorite Service:", result);
+    return assertApiSuccess(result);
   } catch (error: any) {
-    console.error("🔴 Add Favorite Service API Error:", error.response?.data);
-    throw new Error(error.response?.data?.message || "Failed to add favorite service.");
+    console.error("🔴 Add Favorite Service API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to add favorite service."));
   }
 };
 
@@ -132,10 +148,11 @@ export const removeFavoriteServiceAPI = async (decorServiceId: number) => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Removed Favorite Service:", response.data);
-    return response.data;
+    const result = normalizeApiResponse(response);
+    console.log("🟢 Removed Favorite Service:", result);
+    return assertApiSuccess(result);
   } catch (error: any) {
-    console.error("🔴 Remove Favorite Service API Error:", error.response?.data);
-    throw new Error(error.response?.data?.message || "Failed to remove favorite service.");
+    console.error("🔴 Remove Favorite Service API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to remove favorite service."));
   }
 };
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { LogBox } from "react-native";
+import { ApiResult, flattenApiErrors, getApiErrorMessage, normalizeApiResponse, unwrapApiResult } from "./apiResult";
+import offlineQueue from "@/services/OfflineQueueService";
 
 // Ignoring Axios 400 Errors for cleaner logs
 LogBox.ignoreLogs(["AxiosError: Request failed with status code 400"]);
@@ -20,19 +22,18 @@ export interface IFollowCounts {
   following: number;
 }
 
-// Response interfaces
-interface IFollowResponse {
-  success: boolean;
-  message?: string;
-  // Add optional properties for special cases
+// Follow mutations add flags for the idempotent "already (not) following" cases
+export type IFollowResponse = ApiResult & {
   alreadyFollowing?: boolean;
   alreadyNotFollowing?: boolean;
-}
+  // Saved in the offline outbox; the server has not seen it yet
+  queued?: boolean;
+};
+
+// Errors come back as the rejected response body from the interceptor
+const hasApiError = (error: any, text: string): boolean =>
+  flattenApiErrors((error?.response?.data ?? error)?.errors).some((message) => message.includes(text));
 
-// OR you can use a more flexible approach if needed:
-interface IExtendedFollowResponse extends IFollowResponse {
-  [key: string]: any; // Allows any additional properties
-}
 /**
  * Follow a user
  * POST /api/follow/follow
@@ -42,7 +43,7 @@ interface IExtendedFollowResponse extends IFollowResponse {
  * DELETE /api/follow/unfollow
  */
 // Corrected unfollowUserAPI function with proper endpoint
-export const unfollowUserAPI = async (followingId: number): Promise<any> => {
+export const unfollowUserAPI = async (followingId: number): Promise<IFollowResponse> => {
   // The correct URL format with query parameter
   const url = `/api/Follow/unfollow?followingId=${followingId}`;
   
@@ -50,21 +51,19 @@ export const unfollowUserAPI = async (followingId: number): Promise<any> => {
     const apiClient = await initApiClient();
     // Use DELETE method without a body
     const response = await apiClient.delete(url);
-    return response.data;
+    return normalizeApiResponse(response, "Successfully unfollowed user");
   } catch (error: any) {
-    console.error("🔴 Unfollow User API Error:", error.response?.data || error);
+    console.error("🔴 Unfollow User API Error:", error);
     
     // Check if it's the specific "relationship doesn't exist" error
-    const errorData = error.response?.data;
-    if (errorData && 
-        Array.isArray(errorData.errors) && 
-        errorData.errors.some((e: string) => e.includes("relationship does not exist") || 
-                                           e.includes("Follow relationship does not exist"))) {
+    if (hasApiError(error, "relationship does not exist")) {
       // Return a fake success response - don't throw
       console.log("Relationship doesn't exist - returning success anyway");
       return { 
         success: true, 
-        message: "Already not following"
+        message: "Already not following",
+        errors: [],
+        alreadyNotFollowing: true
       };
     }
     
@@ -78,13 +77,13 @@ export const getFollowersAPI = async (userId?: number): Promise<IFollowUser[]> =
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(url);
+    const users = unwrapApiResult(normalizeApiResponse<IFollowUser[]>(response));
     
     // Log the full response for debugging
-    console.log("Followers API Response:", response);
+    console.log("Followers API Response:", users);
     
-    // Check if response contains 'data' and it's an array
-    if (response && Array.isArray(response.data)) {
-      return response.data;
+    if (Array.isArray(users)) {
+      return users;
     } else {
       return Promise.reject(new Error("Invalid response format from the server."));
     }
@@ -92,10 +91,6 @@ export const getFollowersAPI = async (userId?: number): Promise<IFollowUser[]> =
     // Log the error for troubleshooting
     console.error("🔴 Error fetching followers:", error);
     
-    if (error.response) {
-      console.error("API Error Response:", error.response.data);
-    }
-    
     return Promise.reject(new Error("Failed to fetch followers from the server."));
   }
 };
@@ -110,13 +105,13 @@ export const getFollowingsAPI = async (userId?: number): Promise<IFollowUser[]>
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(url);
+    const users = unwrapApiResult(normalizeApiResponse<IFollowUser[]>(response));
     
     // Log the full response for debugging
-    console.log("Followings API Response:", response);
+    console.log("Followings API Response:", users);
     
-    // Check if response contains 'data' and it's an array
-    if (response && Array.isArray(response.data)) {
-      return response.data;
+    if (Array.isArray(users)) {
+      return users;
     } else {
       return Promise.reject(new Error("Invalid response format from the server."));
     }
@@ -124,10 +119,6 @@ export const getFollowingsAPI = async (userId?: number): Promise<IFollowUser[]>
     // Log the error for troubleshooting
     console.error("🔴 Error fetching followings:", error);
     
-    if (error.response) {
-      console.error("API Error Response:", error.response.data);
-    }
-    
     return Promise.reject(new Error("Failed to fetch followings from the server."));
   }
 };
@@ -142,14 +133,13 @@ export const getFollowCountsAPI = async (userId?: number): Promise<IFollowCounts
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(url);
-    
-    // Log the full response for debugging
+    const counts = unwrapApiResult(normalizeApiResponse<IFollowCounts>(response));
     
     // Check if response contains the expected data structure
-    if (response && response.data && 
-        typeof response.data.followers === 'number' && 
-        typeof response.data.following === 'number') {
-      return response.data;
+    if (counts && 
+        typeof counts.followers === 'number' && 
+        typeof counts.following === 'number') {
+      return counts;
     } else {
       console.error("🔴 API Response is invalid:", response);
       return Promise.reject(new Error("Invalid response format from the server."));
@@ -158,10 +148,6 @@ export const getFollowCountsAPI = async (userId?: number): Promise<IFollowCounts
     // Log the error for troubleshooting
     console.error("🔴 Error fetching follow counts:", error);
     
-    if (error.response) {
-      console.error("API Error Response:", error.response.data);
-    }
-    
     return Promise.reject(new Error("Failed to fetch follow counts from the server."));
   }
 };
@@ -171,43 +157,48 @@ export const getFollowCountsAPI = async (userId?: number): Promise<IFollowCounts
  * GET /api/follow/is-following
  */
 // Updated followUserAPI to properly handle the "already following" case
-export const followUserAPI = async (followingId: number): Promise<any> => {
+export const followUserAPI = async (followingId: number): Promise<IFollowResponse> => {
   const url = `/api/follow/follow?followingId=${followingId}`;
   
-  const apiClient = await initApiClient();
   try {
-    const response = await apiClient.post(url);
-    
-    // Success response is the follow relationship object
-    if (response.data && response.data.id) {
+    // Queued while offline and replayed on reconnect
+    const sent = await offlineQueue.sendOrQueue({ method: "post", url }, `Follow user ${followingId}`);
+    if (sent.queued) {
       return {
         success: true,
-        data: response.data,
-        message: "Successfully followed user"
+        message: "Saved offline. It will sync when you are back online.",
+        errors: [],
+        queued: true
       };
+    }
+    
+    const result = normalizeApiResponse(sent.response, "Successfully followed user");
+    
+    // Success response is the follow relationship object
+    if (result.success && result.data?.id) {
+      return result;
     } 
     // Some APIs might return success: false directly
-    else if (response.data && response.data.success === false) {
-      throw new Error(response.data.message || "Failed to follow user");
+    else if (!result.success) {
+      throw new Error(result.message || "Failed to follow user");
     }
     else {
       throw new Error("Invalid response format from server.");
     }
   } catch (error: any) {
     // Special handling for "already following" error
-    if (error.response?.data?.errors?.some((err: string) => 
-      err.includes("You are already following this user.")
-    )) {
+    if (hasApiError(error, "You are already following this user.")) {
       // Return success true since the user is already being followed
       return {
         success: true,
         message: "Already following this user",
+        errors: [],
         alreadyFollowing: true
       };
     }
     
-    console.error("🔴 Follow User API Error:", error.response?.data?.message || error.message);
-    throw new Error(error.response?.data?.message || "Failed to follow user. Please try again.");
+    console.error("🔴 Follow User API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to follow user. Please try again."));
   }
 };
 
@@ -218,10 +209,11 @@ export const checkIsFollowingAPI = async (targetUserId: number): Promise<boolean
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(url);
+    const status = normalizeApiResponse<{ isFollowing: boolean }>(response).data;
     
     // Check if response contains the expected data structure
-    if (response && response.data && typeof response.data.isFollowing === 'boolean') {
-      return response.data.isFollowing;
+    if (status && typeof status.isFollowing === 'boolean') {
+      return status.isFollowing;
     } else {
       return false; // Default to false instead of rejecting
     }
@@ -229,14 +221,8 @@ export const checkIsFollowingAPI = async (targetUserId: number): Promise<boolean
     // Log the error for troubleshooting
     console.error("🔴 Error checking follow status:", error);
     
-    if (error.response) {
-      console.error("API Error Response:", error.response.data);
-    }
-    
     // Check if error indicates "already following"
-    if (error.response?.data?.errors?.some((err: string) => 
-      err.includes("You are already following this user.")
-    )) {
+    if (hasApiError(error, "You are already following this user.")) {
       return true; // Return true since the user is already following
     }
     
@@ -0,0 +1,210 @@
+// Vietnamese lunar calendar (âm lịch) conversion, after Hồ Ngọc Đức's astronomical
+// algorithm. Vietnam computes new moons and solar terms in UTC+7, which is why some
+// years (e.g. 2027) start on a different day than the Chinese calendar.
+
+export interface ILunarDate {
+  day: number;
+  month: number;
+  year: number;
+  leap: boolean; // Intercalary (nhuận) month
+}
+
+export const VIETNAM_TIME_ZONE = 7;
+
+const CAN = ["Giáp", "Ất", "Bính", "Đinh", "Mậu", "Kỷ", "Canh", "Tân", "Nhâm", "Quý"];
+const CHI = ["Tý", "Sửu", "Dần", "Mão", "Thìn", "Tỵ", "Ngọ", "Mùi", "Thân", "Dậu", "Tuất", "Hợi"];
+
+// Julian day number of a Gregorian date (Julian calendar before 15 Oct 1582)
+const jdFromDate = (day: number, month: number, year: number): number => {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  let jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+  if (jd < 2299161) {
+    jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+  }
+  return jd;
+};
+
+const jdToDate = (jd: number): [number, number, number] => {
+  let b: number;
+  let c: number;
+  if (jd > 2299160) {
+    const a = jd + 32044;
+    b = Math.floor((4 * a + 3) / 146097);
+    c = a - Math.floor((b * 146097) / 4);
+  } else {
+    b = 0;
+    c = jd + 32082;
+  }
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  const day = e - Math.floor((153 * m + 2) / 5) + 1;
+  const month = m + 3 - 12 * Math.floor(m / 10);
+  const year = b * 100 + d - 4800 + Math.floor(m / 10);
+  return [day, month, year];
+};
+
+// Julian day (fractional) of the k-th new moon after 1 Jan 1900
+const newMoon = (k: number): number => {
+  const T = k / 1236.85;
+  const T2 = T * T;
+  const T3 = T2 * T;
+  const dr = Math.PI / 180;
+  let Jd1 = 2415020.75933 + 29.53058868 * k + 0.0001178 * T2 - 0.000000155 * T3;
+  Jd1 += 0.00033 * Math.sin((166.56 + 132.87 * T - 0.009173 * T2) * dr);
+  const M = 359.2242 + 29.10535608 * k - 0.0000333 * T2 - 0.00000347 * T3;
+  const Mpr = 306.0253 + 385.81691806 * k + 0.0107306 * T2 + 0.00001236 * T3;
+  const F = 21.2964 + 390.67050646 * k - 0.0016528 * T2 - 0.00000239 * T3;
+  let C1 = (0.1734 - 0.000393 * T) * Math.sin(M * dr) + 0.0021 * Math.sin(2 * dr * M);
+  C1 = C1 - 0.4068 * Math.sin(Mpr * dr) + 0.0161 * Math.sin(dr * 2 * Mpr);
+  C1 = C1 - 0.0004 * Math.sin(dr * 3 * Mpr);
+  C1 = C1 + 0.0104 * Math.sin(dr * 2 * F) - 0.0051 * Math.sin(dr * (M + Mpr));
+  C1 = C1 - 0.0074 * Math.sin(dr * (M - Mpr)) + 0.0004 * Math.sin(dr * (2 * F + M));
+  C1 = C1 - 0.0004 * Math.sin(dr * (2 * F - M)) - 0.0006 * Math.sin(dr * (2 * F + Mpr));
+  C1 = C1 + 0.001 * Math.sin(dr * (2 * F - Mpr)) + 0.0005 * Math.sin(dr * (2 * Mpr + M));
+  const deltat =
+    T < -11
+      ? 0.001 + 0.000839 * T + 0.0002261 * T2 - 0.00000845 * T3 - 0.000000081 * T * T3
+      : -0.000278 + 0.000265 * T + 0.000262 * T2;
+  return Jd1 + C1 - deltat;
+};
+
+// Sun longitude in radians at a Julian day number
+const sunLongitude = (jdn: number): number => {
+  const T = (jdn - 2451545.0) / 36525;
+  const T2 = T * T;
+  const dr = Math.PI / 180;
+  const M = 357.5291 + 35999.0503 * T - 0.0001559 * T2 - 0.00000048 * T * T2;
+  const L0 = 280.46645 + 36000.76983 * T + 0.0003032 * T2;
+  let DL = (1.9146 - 0.004817 * T - 0.000014 * T2) * Math.sin(dr * M);
+  DL = DL + (0.019993 - 0.000101 * T) * Math.sin(dr * 2 * M) + 0.00029 * Math.sin(dr * 3 * M);
+  let L = (L0 + DL) * dr;
+  L = L - Math.PI * 2 * Math.floor(L / (Math.PI * 2));
+  return L;
+};
+
+const getNewMoonDay = (k: number, timeZone: number): number => Math.floor(newMoon(k) + 0.5 + timeZone / 24);
+
+// Solar term index (0..11) of the day
+const getSunLongitude = (dayNumber: number, timeZone: number): number =>
+  Math.floor((sunLongitude(dayNumber - 0.5 - timeZone / 24) / Math.PI) * 6);
+
+// Start of the lunar month containing the winter solstice (month 11) of a year
+const getLunarMonth11 = (year: number, timeZone: number): number => {
+  const off = jdFromDate(31, 12, year) - 2415021;
+  const k = Math.floor(off / 29.530588853);
+  let nm = getNewMoonDay(k, timeZone);
+  if (getSunLongitude(nm, timeZone) >= 9) {
+    nm = getNewMoonDay(k - 1, timeZone);
+  }
+  return nm;
+};
+
+// Which month after month 11 is the leap month (the first one without a solar term)
+const getLeapMonthOffset = (a11: number, timeZone: number): number => {
+  const k = Math.floor((a11 - 2415021.076998695) / 29.530588853 + 0.5);
+  let last: number;
+  let i = 1;
+  let arc = getSunLongitude(getNewMoonDay(k + i, timeZone), timeZone);
+  do {
+    last = arc;
+    i++;
+    arc = getSunLongitude(getNewMoonDay(k + i, timeZone), timeZone);
+  } while (arc !== last && i < 14);
+  return i - 1;
+};
+
+/**
+ * Lunar date of a calendar day (the local date components of `date`)
+ */
+export const toLunarDate = (date: Date, timeZone: number = VIETNAM_TIME_ZONE): ILunarDate => {
+  const dayNumber = jdFromDate(date.getDate(), date.getMonth() + 1, date.getFullYear());
+  const k = Math.floor((dayNumber - 2415021.076998695) / 29.530588853);
+  let monthStart = getNewMoonDay(k + 1, timeZone);
+  if (monthStart > dayNumber) {
+    monthStart = getNewMoonDay(k, timeZone);
+  }
+
+  let a11 = getLunarMonth11(date.getFullYear(), timeZone);
+  let b11 = a11;
+  let year: number;
+  if (a11 >= monthStart) {
+    year = date.getFullYear();
+    a11 = getLunarMonth11(date.getFullYear() - 1, timeZone);
+  } else {
+    year = date.getFullYear() + 1;
+    b11 = getLunarMonth11(date.getFullYear() + 1, timeZone);
+  }
+
+  const day = dayNumber - monthStart + 1;
+  const diff = Math.floor((monthStart - a11) / 29);
+  let leap = false;
+  let month = diff + 11;
+  if (b11 - a11 > 365) {
+    const leapMonthDiff = getLeapMonthOffset(a11, timeZone);
+    if (diff >= leapMonthDiff) {
+      month = diff + 10;
+      if (diff === leapMonthDiff) leap = true;
+    }
+  }
+  if (month > 12) month -= 12;
+  if (month >= 11 && diff < 4) year -= 1;
+
+  return { day, month, year, leap };
+};
+
+/**
+ * Gregorian date (local midnight) of a lunar date, or null when it doesn't exist
+ * (a leap month that year doesn't have, or day 30 of a 29-day month)
+ */
+export const fromLunarDate = (lunar: ILunarDate, timeZone: number = VIETNAM_TIME_ZONE): Date | null => {
+  let a11: number;
+  let b11: number;
+  if (lunar.month < 11) {
+    a11 = getLunarMonth11(lunar.year - 1, timeZone);
+    b11 = getLunarMonth11(lunar.year, timeZone);
+  } else {
+    a11 = getLunarMonth11(lunar.year, timeZone);
+    b11 = getLunarMonth11(lunar.year + 1, timeZone);
+  }
+
+  const k = Math.floor(0.5 + (a11 - 2415021.076998695) / 29.530588853);
+  let off = lunar.month - 11;
+  if (off < 0) off += 12;
+
+  if (b11 - a11 > 365) {
+    const leapOff = getLeapMonthOffset(a11, timeZone);
+    let leapMonth = leapOff - 2;
+    if (leapMonth < 0) leapMonth += 12;
+    if (lunar.leap && lunar.month !== leapMonth) return null;
+    if (lunar.leap || off >= leapOff) off += 1;
+  } else if (lunar.leap) {
+    return null;
+  }
+
+  const monthStart = getNewMoonDay(k + off, timeZone);
+  const nextMonthStart = getNewMoonDay(k + off + 1, timeZone);
+  if (lunar.day < 1 || lunar.day > nextMonthStart - monthStart) return null;
+
+  const [day, month, year] = jdToDate(monthStart + lunar.day - 1);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Can Chi name of a lunar year, e.g. 2026 -> "Bính Ngọ"
+ */
+export const getLunarYearName = (year: number): string => `${CAN[(year + 6) % 10]} ${CHI[(year + 8) % 12]}`;
+
+/**
+ * Short label for a calendar cell: "1/8" on the first of a month, otherwise the day
+ */
+export const formatLunarDay = (lunar: ILunarDate): string =>
+  lunar.day === 1 ? `${lunar.day}/${lunar.month}${lunar.leap ? "N" : ""}` : String(lunar.day);
+
+/**
+ * Full label, e.g. "15/8 Bính Ngọ" or "1/6 nhuận Giáp Thìn"
+ */
+export const formatLunarDate = (lunar: ILunarDate): string =>
+  `${lunar.day}/${lunar.month}${lunar.leap ? " nhuận" : ""} ${getLunarYearName(lunar.year)}`;
@@ -0,0 +1,266 @@
+// Notification center helpers: find what a notification is about (booking, quotation,
+// contract or order code from its `url`), group notifications about the same thing,
+// split them into day sections and derive the inline actions shown on each card.
+import { parseDeepLinkUrl, resolveDeepLink } from "./deepLinks";
+
+export type NotificationTargetKind = "booking" | "quotation" | "contract" | "order" | "product";
+
+export interface INotificationTarget {
+  kind: NotificationTargetKind;
+  code: string;
+}
+
+export interface INotificationAction {
+  key: string;
+  label: string;
+  icon: string; // Ionicons name
+  pathname: string;
+  params?: Record<string, string>;
+}
+
+// The fields used here, shared by the hub `Notification` and the REST `INotification`
+export interface INotificationLike {
+  id: string | number;
+  title: string;
+  content: string;
+  url?: string | null;
+  type?: string;
+  isRead: boolean;
+  createdAt?: string;
+  notifiedAt?: string;
+}
+
+export interface INotificationGroup<T extends INotificationLike> {
+  key: string;
+  target: INotificationTarget | null;
+  notifications: T[]; // Newest first
+  latest: T;
+  unreadCount: number;
+}
+
+export interface INotificationSection<T extends INotificationLike> {
+  key: string; // yyyy-mm-dd in local time
+  title: string;
+  data: INotificationGroup<T>[];
+}
+
+const CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{1,63}$/;
+
+// Codes the backend sometimes passes as query params instead of in the path
+const QUERY_TARGETS: [string, NotificationTargetKind][] = [
+  ["contractCode", "contract"],
+  ["quotationCode", "quotation"],
+  ["bookingCode", "booking"],
+  ["orderCode", "order"],
+];
+
+const TARGET_BY_ROUTE: Partial<Record<string, NotificationTargetKind>> = {
+  contract: "contract",
+  quotation: "quotation",
+  quotationRevisions: "quotation",
+  booking: "booking",
+  product: "product",
+};
+
+/**
+ * What a notification is about, or null for announcements without a target
+ */
+export const getNotificationTarget = (notification: Pick<INotificationLike, "url">): INotificationTarget | null => {
+  if (!notification.url) return null;
+
+  const match = resolveDeepLink(notification.url);
+  const routeKind = match ? TARGET_BY_ROUTE[match.name] : undefined;
+  if (match && routeKind) {
+    return { kind: routeKind, code: match.params.code ?? match.params.id };
+  }
+
+  const link = parseDeepLinkUrl(notification.url);
+  if (!link) return null;
+
+  for (const [param, kind] of QUERY_TARGETS) {
+    const code = link.query[param];
+    if (code && CODE_PATTERN.test(code)) return { kind, code };
+  }
+
+  // Order pages have no detail route yet, e.g. /orders/ORD-0001
+  const [section, code] = link.segments;
+  if (/^orders?$/i.test(section ?? "") && code && CODE_PATTERN.test(code)) {
+    return { kind: "order", code };
+  }
+  return null;
+};
+
+const getNotificationTime = (notification: INotificationLike): number => {
+  const time = new Date(notification.notifiedAt || notification.createdAt || 0).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const getDayTitle = (date: Date, now: Date): string => {
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+
+  if (toDayKey(date) === toDayKey(now)) return "Today";
+  if (toDayKey(date) === toDayKey(yesterday)) return "Yesterday";
+  return date.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    ...(date.getFullYear() !== now.getFullYear() ? { year: "numeric" } : {}),
+  });
+};
+
+/**
+ * Collapse notifications about the same booking / quotation / contract / order into one
+ * group. Groups are ordered by their newest notification.
+ */
+export const groupNotifications = <T extends INotificationLike>(notifications: T[]): INotificationGroup<T>[] => {
+  const groups = new Map<string, INotificationGroup<T>>();
+  const sorted = [...notifications].sort((a, b) => getNotificationTime(b) - getNotificationTime(a));
+
+  sorted.forEach((notification) => {
+    const target = getNotificationTarget(notification);
+    const key = target ? `${target.kind}:${target.code}` : `notification:${notification.id}`;
+    const group = groups.get(key);
+
+    if (group) {
+      group.notifications.push(notification);
+      if (!notification.isRead) group.unreadCount++;
+    } else {
+      groups.set(key, {
+        key,
+        target,
+        notifications: [notification],
+        latest: notification,
+        unreadCount: notification.isRead ? 0 : 1,
+      });
+    }
+  });
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Day sections ("Today", "Yesterday", "Monday, Jan 12"); a group is listed under the
+ * day of its newest notification
+ */
+export const buildNotificationSections = <T extends INotificationLike>(
+  notifications: T[],
+  now: Date = new Date()
+): INotificationSection<T>[] => {
+  const sections: INotificationSection<T>[] = [];
+
+  groupNotifications(notifications).forEach((group) => {
+    const date = new Date(getNotificationTime(group.latest));
+    const key = toDayKey(date);
+    const section = sections[sections.length - 1];
+
+    if (section?.key === key) {
+      section.data.push(group);
+    } else {
+      sections.push({ key, title: getDayTitle(date, now), data: [group] });
+    }
+  });
+
+  return sections;
+};
+
+const mentions = (notification: INotificationLike, pattern: RegExp): boolean =>
+  pattern.test(`${notification.title} ${notification.content}`);
+
+// Matched against title + content; the backend writes notices in English or Vietnamese
+const DEPOSIT_PATTERN = /deposit|đặt cọc/i;
+const FINAL_PAYMENT_PATTERN = /final payment|thanh toán cuối|thanh toán còn lại/i;
+const SIGN_PATTERN = /\bsign|ký/i;
+const COMPLETED_PATTERN = /complet|hoàn thành/i;
+
+/**
+ * Buttons shown on a notification card, most relevant first
+ */
+export const getNotificationActions = (notification: INotificationLike): INotificationAction[] => {
+  const target = getNotificationTarget(notification);
+  const actions: INotificationAction[] = [];
+
+  switch (target?.kind) {
+    case "contract":
+      if (mentions(notification, DEPOSIT_PATTERN)) {
+        actions.push({
+          key: "payDeposit",
+          label: "Pay deposit",
+          icon: "wallet-outline",
+          pathname: "/booking/deposit-payment",
+          params: { contractCode: target.code },
+        });
+      }
+      actions.push({
+        key: "viewContract",
+        label: mentions(notification, SIGN_PATTERN) ? "Sign contract" : "View contract",
+        icon: "document-text-outline",
+        pathname: "/quotation/contract/[code]",
+        params: { code: target.code },
+      });
+      break;
+
+    case "quotation":
+      actions.push({
+        key: "viewQuotation",
+        label: "View quotation",
+        icon: "calculator-outline",
+        pathname: "/quotation/quotation-detail/[code]",
+        params: { code: target.code },
+      });
+      break;
+
+    case "booking": {
+      if (mentions(notification, FINAL_PAYMENT_PATTERN)) {
+        actions.push({
+          key: "payFinal",
+          label: "Pay final payment",
+          icon: "wallet-outline",
+          pathname: "/booking/final-payment",
+          params: { bookingCode: target.code },
+        });
+      }
+      // The rating screen needs the numeric booking id; without it the list has a rate button
+      const bookingId = parseDeepLinkUrl(notification.url ?? "")?.query.bookingId;
+      if (mentions(notification, COMPLETED_PATTERN)) {
+        actions.push(
+          bookingId && /^\d+$/.test(bookingId)
+            ? { key: "rate", label: "Rate booking", icon: "star-outline", pathname: "/booking/rate-booking", params: { bookingId } }
+            : { key: "rate", label: "Rate booking", icon: "star-outline", pathname: "/screens/Bookings" }
+        );
+      }
+      actions.push({
+        key: "viewBooking",
+        label: "View booking",
+        icon: "calendar-outline",
+        pathname: "/booking/booking-detail",
+        params: { code: target.code },
+      });
+      break;
+    }
+
+    case "order":
+      actions.push({ key: "viewOrders", label: "View order", icon: "cart-outline", pathname: "/screens/Orders" });
+      break;
+
+    case "product":
+      actions.push({
+        key: "viewProduct",
+        label: "View product",
+        icon: "pricetag-outline",
+        pathname: "/product/product-detail/[id]",
+        params: { id: target.code },
+      });
+      break;
+
+    default:
+      if (resolveDeepLink(notification.url ?? "")?.name === "quotationList") {
+        actions.push({ key: "viewQuotations", label: "View quotations", icon: "calculator-outline", pathname: "/quotation/list" });
+      }
+  }
+
+  return actions;
+};
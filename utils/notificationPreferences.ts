@@ -0,0 +1,113 @@
+// Notification preferences: per-type delivery (always, silent during quiet hours, muted)
+// and the quiet hours window. Storage lives in services/NotificationPreferencesService.ts.
+
+export type NotificationType = "CONTRACT" | "BOOKING" | "QUOTATION" | "GENERAL" | "ORDER" | "SYSTEM";
+
+// "all": list + alert, "quietHours": list, alert only outside quiet hours, "muted": neither
+export type NotificationDelivery = "all" | "quietHours" | "muted";
+
+export interface IQuietHours {
+  enabled: boolean;
+  start: string; // "HH:mm", local time
+  end: string; // "HH:mm"; earlier than start means the window runs past midnight
+}
+
+export interface INotificationPreferences {
+  types: Record<NotificationType, NotificationDelivery>;
+  quietHours: IQuietHours;
+}
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string; description: string }[] = [
+  { type: "CONTRACT", label: "Contracts", description: "Contracts ready to sign and signature updates" },
+  { type: "BOOKING", label: "Bookings", description: "Survey appointments and booking status changes" },
+  { type: "QUOTATION", label: "Quotations", description: "New and revised quotations from providers" },
+  { type: "ORDER", label: "Orders", description: "Product order and delivery updates" },
+  { type: "GENERAL", label: "General", description: "Promotions and announcements" },
+  { type: "SYSTEM", label: "System", description: "Account and security notices" },
+];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: INotificationPreferences = {
+  types: {
+    CONTRACT: "all",
+    BOOKING: "all",
+    QUOTATION: "all",
+    GENERAL: "all",
+    ORDER: "all",
+    SYSTEM: "all",
+  },
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DELIVERIES: NotificationDelivery[] = ["all", "quietHours", "muted"];
+
+const toMinutes = (time: string): number => {
+  const [, hours, minutes] = time.match(TIME_PATTERN)!;
+  return Number(hours) * 60 + Number(minutes);
+};
+
+/**
+ * Fill in defaults for anything missing or malformed, e.g. preferences stored by an
+ * older version or types added since
+ */
+export const normalizeNotificationPreferences = (value: any): INotificationPreferences => {
+  const defaults = DEFAULT_NOTIFICATION_PREFERENCES;
+  const types = { ...defaults.types };
+
+  (Object.keys(types) as NotificationType[]).forEach((type) => {
+    const delivery = value?.types?.[type];
+    if (DELIVERIES.includes(delivery)) types[type] = delivery;
+  });
+
+  const quietHours = value?.quietHours ?? {};
+  return {
+    types,
+    quietHours: {
+      enabled: typeof quietHours.enabled === "boolean" ? quietHours.enabled : defaults.quietHours.enabled,
+      start: TIME_PATTERN.test(quietHours.start) ? quietHours.start : defaults.quietHours.start,
+      end: TIME_PATTERN.test(quietHours.end) ? quietHours.end : defaults.quietHours.end,
+    },
+  };
+};
+
+// Notifications without a type come from older backend versions
+const getDelivery = (preferences: INotificationPreferences, type?: string): NotificationDelivery =>
+  preferences.types[(type as NotificationType) || "GENERAL"] ?? "all";
+
+export const isWithinQuietHours = (quietHours: IQuietHours, date: Date = new Date()): boolean => {
+  if (!quietHours.enabled || !TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end)) {
+    return false;
+  }
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+/**
+ * Whether a notification of this type appears in the notifications list and badge
+ */
+export const isNotificationVisible = (preferences: INotificationPreferences, type?: string): boolean =>
+  getDelivery(preferences, type) !== "muted";
+
+/**
+ * Whether a notification arriving now should pop up in the app
+ */
+export const shouldAlertNotification = (
+  preferences: INotificationPreferences,
+  type?: string,
+  date: Date = new Date()
+): boolean => {
+  const delivery = getDelivery(preferences, type);
+  if (delivery === "muted") return false;
+  if (delivery === "quietHours") return !isWithinQuietHours(preferences.quietHours, date);
+  return true;
+};
+
+export const filterVisibleNotifications = <T extends { type?: string }>(
+  preferences: INotificationPreferences,
+  notifications: T[]
+): T[] => notifications.filter((notification) => isNotificationVisible(preferences, notification.type));
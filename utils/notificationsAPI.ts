@@ -1,5 +1,7 @@
 import { initApiClient } from "@/config/axiosConfig"; // Assuming your axiosConfig is correctly set up
 import { LogBox } from "react-native";
+import { normalizeApiResponse, unwrapApiResult } from "./apiResult";
+import type { Notification } from "@/services/NotificationHubService";
 
 // Ignoring Axios 400 Errors for cleaner logs
 LogBox.ignoreLogs(["AxiosError: Request failed with status code 400"]);
@@ -15,14 +17,6 @@ export interface INotification {
   type?: 'CONTRACT' | 'BOOKING' | 'QUOTATION' | 'GENERAL' | 'ORDER' | 'SYSTEM';
 }
 
-// Interface for API response
-export interface ApiResponse<T> {
-  success: boolean;
-  message: string;
-  errors: string[];
-  data: T;
-}
-
 /**
  * Fetches all notifications from the API - using the exact same code that works in your component
  * @returns Promise with array of notifications
@@ -35,14 +29,11 @@ export const getAllNotificationsAPI = async (): Promise<INotification[]> => {
     const apiClient = await initApiClient();
     const response = await apiClient.get(url);
     
-    console.log("📡 Response status:", response.status);
+    const result = normalizeApiResponse<INotification[]>(response);
     
-    if (response.data && response.data.success === true && Array.isArray(response.data.data)) {
-      console.log("✅ Successfully fetched", response.data.data.length, "notifications");
-      return response.data.data;
-    } else if (Array.isArray(response.data)) {
-      console.log("✅ Successfully fetched", response.data.length, "notifications (direct array)");
-      return response.data;
+    if (result.success && Array.isArray(result.data)) {
+      console.log("✅ Successfully fetched", result.data.length, "notifications");
+      return result.data;
     } else {
       console.error("❌ Unexpected API response format");
       return [];
@@ -64,14 +55,11 @@ export const getUnreadNotificationsAPI = async (): Promise<INotification[]> => {
     const apiClient = await initApiClient();
     const response = await apiClient.get(url);
     
-    console.log("📡 Unread response status:", response.status);
+    const result = normalizeApiResponse<INotification[]>(response);
     
-    if (response.data && response.data.success === true && Array.isArray(response.data.data)) {
-      console.log("✅ Successfully fetched", response.data.data.length, "unread notifications");
-      return response.data.data;
-    } else if (Array.isArray(response.data)) {
-      console.log("✅ Successfully fetched", response.data.length, "unread notifications (direct array)");
-      return response.data;
+    if (result.success && Array.isArray(result.data)) {
+      console.log("✅ Successfully fetched", result.data.length, "unread notifications");
+      return result.data;
     } else {
       console.error("❌ Unexpected API response format for unread");
       return [];
@@ -80,4 +68,39 @@ export const getUnreadNotificationsAPI = async (): Promise<INotification[]> => {
     console.error("❌ Error fetching unread notifications:", error);
     return [];
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Fetches all or unread notifications in the shape the notification hub pushes.
+ * Unlike the helpers above this throws on failure so callers can show an error state.
+ * @returns Promise with array of notifications
+ */
+export const getNotificationsAPI = async (filter: 'all' | 'unread'): Promise<Notification[]> => {
+  const url = filter === 'all'
+    ? `/api/Notification/getAllNotifications`
+    : `/api/Notification/getUnreadNotification`;
+
+  const apiClient = await initApiClient();
+  const response = await apiClient.get(url);
+
+  const notifications = unwrapApiResult(
+    normalizeApiResponse<Notification[]>(response),
+    `Unable to load ${filter} notifications. Please try again later.`
+  );
+  return Array.isArray(notifications) ? notifications : [];
+};
+
+/**
+ * Deletes a notification for the current user
+ * @returns true when the backend removed it
+ */
+export const deleteNotificationAPI = async (notificationId: string | number): Promise<boolean> => {
+  try {
+    const apiClient = await initApiClient();
+    const response = await apiClient.delete(`/api/Notification/${notificationId}`);
+    return normalizeApiResponse(response).success;
+  } catch (error) {
+    console.error(`❌ Error deleting notification ${notificationId}:`, error);
+    return false;
+  }
+};
@@ -1,6 +1,7 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken, getUserIdFromToken } from "@/services/auth";
 import { Alert } from "react-native";
+import { ApiPaginatedResult, getApiErrorMessage, normalizeApiResponse, toPaginatedResult, unwrapApiResult } from "./apiResult";
 
 // Get Order List
 export const getOrderListAPI = async () => {
@@ -16,16 +17,17 @@ export const getOrderListAPI = async () => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Order List:", response.data);
-    return response.data;
+    const data = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Order List:", data);
+    return data;
   } catch (error: any) {
-    console.error("🔴 Get Order List API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to fetch order list.");
+    console.error("🔴 Get Order List API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch order list."));
   }
 };
 
 // Get Paginated Order List
-export const getPaginatedOrderListAPI = async (page: number = 1, pageSize: number = 10) => {
+export const getPaginatedOrderListAPI = async (page: number = 1, pageSize: number = 10): Promise<ApiPaginatedResult<any>> => {
   const apiClient = await initApiClient();
   const token = await getToken();
 
@@ -39,11 +41,12 @@ export const getPaginatedOrderListAPI = async (page: number = 1, pageSize: numbe
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Paginated Order List:", response.data);
-    return response.data;
+    const result = toPaginatedResult(normalizeApiResponse<any[]>(response), page, pageSize);
+    console.log("🟢 Paginated Order List:", result.pagination);
+    return result;
   } catch (error: any) {
-    console.error("🔴 Get Paginated Order List API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to fetch paginated order list.");
+    console.error("🔴 Get Paginated Order List API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch paginated order list."));
   }
 };
 
@@ -61,11 +64,12 @@ export const getOrderByIdAPI = async (orderId: number) => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Order Details:", response.data);
-    return response.data;
+    const data = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Order Details:", data);
+    return data;
   } catch (error: any) {
-    console.error("🔴 Get Order by ID API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to fetch order details.");
+    console.error("🔴 Get Order by ID API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch order details."));
   }
 };
 // Create Order
@@ -88,11 +92,12 @@ export const createOrderAPI = async (cartId: number, addressId: number, orderDet
       }
     );
 
-    console.log("🟢 Order Created:", response.data);
-    return response.data;
+    const data = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Order Created:", data);
+    return data;
   } catch (error: any) {
-    console.error("🔴 Create Order API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to create order.");
+    console.error("🔴 Create Order API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to create order."));
   }
 };
 export const updateOrderStatusAPI = async (orderId: number, status: string) => {
@@ -109,11 +114,12 @@ export const updateOrderStatusAPI = async (orderId: number, status: string) => {
       { headers: { Authorization: `Bearer ${token}` } }
     );
 
-    console.log("🟢 Order Status Updated:", response.data);
-    return response.data;
+    const data = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Order Status Updated:", data);
+    return data;
   } catch (error: any) {
-    console.error("🔴 Update Order Status API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to update order status.");
+    console.error("🔴 Update Order Status API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to update order status."));
   }
 };
 
@@ -131,11 +137,12 @@ export const cancelOrderAPI = async (orderId: number) => {
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Order Cancelled:", response.data);
-    return response.data;
+    const data = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Order Cancelled:", data);
+    return data;
   } catch (error: any) {
-    console.error("🔴 Cancel Order API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to cancel order.");
+    console.error("🔴 Cancel Order API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to cancel order."));
   }
 };
 
@@ -153,11 +160,12 @@ export const processOrderPaymentAPI = async (orderId: number, paymentDetails: an
       headers: { Authorization: `Bearer ${token}` }
     });
 
-    console.log("🟢 Order Payment Processed:", response.data);
-    return response.data;
+    const data = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Order Payment Processed:", data);
+    return data;
   } catch (error: any) {
-    console.error("🔴 Order Payment API Error:", error.response?.data || error.message);
-    throw new Error(error.response?.data?.message || "Failed to process order payment.");
+    console.error("🔴 Order Payment API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to process order payment."));
   }
 };
 
@@ -177,16 +185,17 @@ export const payOrderWithWalletAPI = async (orderId: number) => {
       { headers: { Authorization: `Bearer ${token}` } }
     );
 
-    console.log("🟢 Order Paid with Wallet:", response.data);
-    return response.data;
+    const data = unwrapApiResult(normalizeApiResponse(response));
+    console.log("🟢 Order Paid with Wallet:", data);
+    return data;
   } catch (error: any) {
-    console.error("🔴 Wallet Payment API Error:", error.response?.data || error.message);
+    console.error("🔴 Wallet Payment API Error:", error);
     
     // Check for specific error types
-    if (error.response?.status === 400 && error.response?.data?.message?.includes("insufficient")) {
+    if (getApiErrorMessage(error, "").toLowerCase().includes("insufficient")) {
       throw new Error("Insufficient wallet balance. Please add funds to your wallet.");
     }
     
-    throw new Error(error.response?.data?.message || "Failed to process payment.");
+    throw new Error(getApiErrorMessage(error, "Failed to process payment."));
   }
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getUserIdFromToken } from "@/services/auth";
+import { ApiResult, normalizeApiResponse, toApiErrorResult } from "./apiResult";
 
 export interface TopUpRequest {
   amount: number;
@@ -8,50 +9,54 @@ export interface TopUpRequest {
   customerId: number;
 }
 
-// Define response type for the API
-interface TopUpResponse {
-  success?: boolean;
-  message?: string;
-  customerId?: number;
+// Payment payloads returned inside ApiResult.data
+export interface ITopUpPayment {
   paymentUrl?: string;
-  data?: {
-    paymentUrl?: string;
-    customerId?: number;
-    [key: string]: any;
-  } | string;
+  customerId?: number;
+  [key: string]: any;
 }
-interface IFinalPaymentResponse {
-  success?: boolean;
-  message?: string;
+
+export interface IFinalPayment {
   paymentUrl?: string;
   bookingCode?: string;
-  errors?: any[]
   customerAddress?: string;
   customerEmail?: string;
   customerName?: string;
   customerPhone?: string | null;
   finalPaymentAmount?: number;
-    providerAddress?: string;
+  providerAddress?: string;
   providerEmail?: string;
   providerName?: string;
   providerPhone?: string;
   quotationCode?: string;
-  data?: any | null;
   isFinalPaid?: boolean;
 }
-// Define response type for deposit payment API
-export interface IDepositPaymentResponse {
-  success: boolean;
-  message?: string;
+
+export interface IDepositPayment {
+  amount?: number;
   paymentUrl?: string;
-  errors?: any[]
-    data?: {
-    amount?: number;
-    paymentUrl?: string;
-    [key: string]: any;
-  } | null;
+  contractCode?: string;
+  customerAddress?: string;
+  customerEmail?: string;
+  customerName?: string;
+  customerPhone?: string | null;
+  depositAmount?: number;
+  providerAddress?: string;
+  providerEmail?: string;
+  providerName?: string;
+  providerPhone?: string;
+  quotationCode?: string;
 }
 
+type TopUpResponse = ApiResult<ITopUpPayment>;
+type IFinalPaymentResponse = ApiResult<IFinalPayment>;
+export type IDepositPaymentResponse = ApiResult<IDepositPayment>;
+
+const userNotFoundResult = <T>(): ApiResult<T> => ({
+  success: false,
+  message: "Unable to identify user. Please log in again.",
+  errors: []
+});
 
 /**
  * Add funds to wallet (top-up)
@@ -71,10 +76,7 @@ export const topUpWalletAPI = async (amount: number): Promise<TopUpResponse> =>
     
     if (!userId) {
       console.error("❌ User ID not found");
-      return {
-        success: false,
-        message: "Unable to identify user. Please log in again."
-      };
+      return userNotFoundResult();
     }
     
     const payload: TopUpRequest = {
@@ -90,54 +92,27 @@ export const topUpWalletAPI = async (amount: number): Promise<TopUpResponse> =>
       const response = await apiClient.post(url, payload);
       
       // Log the ENTIRE backend response
-      console.log("📘 COMPLETE BACKEND RESPONSE:", 
-        JSON.stringify({
-          status: response.status,
-          headers: response.headers,
-          data: response.data
-        }, null, 2)
-      );
+      console.log("📘 COMPLETE BACKEND RESPONSE:", JSON.stringify(response, null, 2));
       
-      // Additional detailed logging
-      console.log("📘 Response Status:", response.status);
-      console.log("📘 Response Headers:", JSON.stringify(response.headers, null, 2));
-      console.log("📘 Response Data:", JSON.stringify(response.data, null, 2));
+      const result = normalizeApiResponse<ITopUpPayment>(response);
       
-      if (response && response.data) {
+      if (result.success && result.data) {
         console.log("📘 Top-Up Successful");
-        return response.data;
+        return result;
       } else {
         console.error("🔴 Invalid top-up response");
-        return {
-          success: false,
-          message: "Failed to process payment"
-        };
+        return { ...result, success: false, message: result.message || "Failed to process payment" };
       }
     } catch (apiError: any) {
       // Log full error response if available
-      console.error("🔴 COMPLETE API ERROR:", 
-        JSON.stringify({
-          message: apiError.message,
-          response: apiError.response ? {
-            status: apiError.response.status,
-            data: apiError.response.data,
-            headers: apiError.response.headers
-          } : null
-        }, null, 2)
-      );
+      console.error("🔴 COMPLETE API ERROR:", JSON.stringify(apiError, null, 2));
       
-      return {
-        success: false,
-        message: apiError.response?.data?.message || "Failed to connect to payment service",
-      };
+      return toApiErrorResult(apiError, "Failed to connect to payment service");
     }
   } catch (error: any) {
     console.error("🔴 Unexpected Error:", JSON.stringify(error, null, 2));
     
-    return {
-      success: false,
-      message: error.message || "Unexpected error occurred"
-    };
+    return toApiErrorResult(error, "Unexpected error occurred");
   }
 };
 
@@ -159,10 +134,7 @@ export const getDepositPaymentAPI = async (contractCode: string): Promise<IDepos
     
     if (!userId) {
       console.error("❌ User ID not found");
-      return {
-        success: false,
-        message: "Unable to identify user. Please log in again."
-      };
+      return userNotFoundResult();
     }
     
     console.log("📘 Getting deposit payment URL for contract:", contractCode);
@@ -171,57 +143,27 @@ export const getDepositPaymentAPI = async (contractCode: string): Promise<IDepos
       const response = await apiClient.get(url);
       
       // Log the ENTIRE backend response
-      console.log("📘 COMPLETE BACKEND RESPONSE:", 
-        JSON.stringify({
-          status: response.status,
-          headers: response.headers,
-          data: response.data
-        }, null, 2)
-      );
+      console.log("📘 COMPLETE BACKEND RESPONSE:", JSON.stringify(response, null, 2));
       
-      // Additional detailed logging
-      console.log("📘 Response Status:", response.status);
-      console.log("📘 Response Headers:", JSON.stringify(response.headers, null, 2));
-      console.log("📘 Response Data:", JSON.stringify(response.data, null, 2));
+      const result = normalizeApiResponse<IDepositPayment>(response);
       
-      if (response && response.data) {
+      if (result.success && result.data) {
         console.log("📘 Retrieved Payment URL Successfully");
-        return {
-          success: true,
-          ...response.data,
-        };
+        return result;
       } else {
         console.error("🔴 Invalid payment URL response");
-        return {
-          success: false,
-          message: "Failed to retrieve payment information"
-        };
+        return { ...result, success: false, message: result.message || "Failed to retrieve payment information" };
       }
     } catch (apiError: any) {
       // Log full error response if available
-      console.error("🔴 COMPLETE API ERROR:", 
-        JSON.stringify({
-          message: apiError.message,
-          response: apiError.response ? {
-            status: apiError.response.status,
-            data: apiError.response.data,
-            headers: apiError.response.headers
-          } : null
-        }, null, 2)
-      );
+      console.error("🔴 COMPLETE API ERROR:", JSON.stringify(apiError, null, 2));
       
-      return {
-        success: false,
-        message: apiError.response?.data?.message || "Failed to connect to payment service",
-      };
+      return toApiErrorResult(apiError, "Failed to connect to payment service");
     }
   } catch (error: any) {
     console.error("🔴 Unexpected Error:", JSON.stringify(error, null, 2));
     
-    return {
-      success: false,
-      message: error.message || "Unexpected error occurred"
-    };
+    return toApiErrorResult(error, "Unexpected error occurred");
   }
 };
 
@@ -247,7 +189,7 @@ export const makeDirectDepositPaymentAPI = async (
       
       // Log response if successful (for debugging only)
       console.log("📘 Deposit payment API call completed successfully");
-      console.log("📘 Response status:", response?.status);
+      console.log("📘 Response:", normalizeApiResponse(response).message);
     } catch (apiError) {
       // Just log the error, don't do anything else
       console.log("⚠️ API error occurred but continuing:", apiError);
@@ -261,8 +203,7 @@ export const makeDirectDepositPaymentAPI = async (
   return {
     success: true,
     message: "Deposit payment successful",
-    errors: [],
-    data: null
+    errors: []
   };
 };
 /**
@@ -283,10 +224,7 @@ export const getFinalPaymentAPI = async (bookingCode: string): Promise<IFinalPay
     
     if (!userId) {
       console.error("❌ User ID not found");
-      return {
-        success: false,
-        message: "Unable to identify user. Please log in again."
-      };
+      return userNotFoundResult();
     }
     
     console.log("📘 Getting final payment info for booking:", bookingCode);
@@ -295,57 +233,27 @@ export const getFinalPaymentAPI = async (bookingCode: string): Promise<IFinalPay
       const response = await apiClient.get(url);
       
       // Log the complete backend response
-      console.log("📘 COMPLETE BACKEND RESPONSE:", 
-        JSON.stringify({
-          status: response.status,
-          headers: response.headers,
-          data: response.data
-        }, null, 2)
-      );
+      console.log("📘 COMPLETE BACKEND RESPONSE:", JSON.stringify(response, null, 2));
       
-      // Additional detailed logging
-      console.log("📘 Response Status:", response.status);
-      console.log("📘 Response Headers:", JSON.stringify(response.headers, null, 2));
-      console.log("📘 Response Data:", JSON.stringify(response.data, null, 2));
+      const result = normalizeApiResponse<IFinalPayment>(response);
       
-      if (response && response.data) {
+      if (result.success && result.data) {
         console.log("📘 Retrieved Final Payment Info Successfully");
-        return {
-          success: true,
-          ...response.data,
-        };
+        return result;
       } else {
         console.error("🔴 Invalid payment info response");
-        return {
-          success: false,
-          message: "Failed to retrieve payment information"
-        };
+        return { ...result, success: false, message: result.message || "Failed to retrieve payment information" };
       }
     } catch (apiError: any) {
       // Log full error response if available
-      console.error("🔴 COMPLETE API ERROR:", 
-        JSON.stringify({
-          message: apiError.message,
-          response: apiError.response ? {
-            status: apiError.response.status,
-            data: apiError.response.data,
-            headers: apiError.response.headers
-          } : null
-        }, null, 2)
-      );
+      console.error("🔴 COMPLETE API ERROR:", JSON.stringify(apiError, null, 2));
       
-      return {
-        success: false,
-        message: apiError.response?.data?.message || "Failed to connect to payment service",
-      };
+      return toApiErrorResult(apiError, "Failed to connect to payment service");
     }
   } catch (error: any) {
     console.error("🔴 Unexpected Error:", JSON.stringify(error, null, 2));
     
-    return {
-      success: false,
-      message: error.message || "Unexpected error occurred"
-    };
+    return toApiErrorResult(error, "Unexpected error occurred");
   }
 };
 
@@ -381,10 +289,8 @@ export const getFinalPaymentAPI = async (bookingCode: string): Promise<IFinalPay
       
       // Ghi log kết quả (chỉ để debug)
       console.log("📘 COMPLETE PAYMENT REQUEST:", url);
-      if (response) {
-        console.log("📘 PAYMENT RESPONSE STATUS:", response.status);
-        console.log("📘 PAYMENT RESPONSE DATA:", JSON.stringify(response.data, null, 2));
-      }
+      const result = normalizeApiResponse<IFinalPayment>(response);
+      console.log("📘 PAYMENT RESPONSE DATA:", JSON.stringify(result.data, null, 2));
       
       // Luôn trả về thành công khi API call thành công
       console.log("📘 Final Payment Successful");
@@ -392,27 +298,17 @@ export const getFinalPaymentAPI = async (bookingCode: string): Promise<IFinalPay
         success: true,
         message: "Payment processed successfully",
         errors: [],
-        data: response?.data || null
+        data: result.data
       };
     } catch (apiError: any) {
       // Ghi log lỗi API (chỉ để debug)
-      console.error("🔴 PAYMENT API ERROR DETAILS:",
-        JSON.stringify({
-          message: apiError.message,
-          response: apiError.response ? {
-            status: apiError.response.status,
-            data: apiError.response.data,
-            headers: apiError.response.headers
-          } : null
-        }, null, 2)
-      );
+      console.error("🔴 PAYMENT API ERROR DETAILS:", JSON.stringify(apiError, null, 2));
       
       // Luôn trả về thành công dù có lỗi API
       return {
         success: true,
         message: "Payment processed successfully",
-        errors: [],
-        data: null
+        errors: []
       };
     }
   } catch (error: any) {
@@ -423,8 +319,7 @@ export const getFinalPaymentAPI = async (bookingCode: string): Promise<IFinalPay
     return {
       success: true,
       message: "Payment processed successfully", 
-      errors: [],
-      data: null
+      errors: []
     };
   }
 };
\ No newline at end of file
@@ -0,0 +1,324 @@
+// HTML page for viewing a PDF inside a WebView with pdf.js.
+// The document can come from its URL or from a cached local copy (base64); with the
+// cached pdf.js scripts inlined as well, the page renders without any network.
+import type { IPdfViewerScripts } from "@/services/DocumentCacheService";
+
+const PDF_JS_CDN = "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120";
+
+export interface IPdfViewerOptions {
+  title: string;
+  url: string; // Used for the download link, and for loading when there is no local copy
+  base64?: string | null;
+  scripts?: IPdfViewerScripts | null;
+}
+
+// Inline script content must not close the surrounding <script> tag
+const escapeScript = (source: string): string => source.replace(/<\/script/gi, "<\\/script");
+
+/**
+ * Build the viewer page. Posts 'close_modal' to React Native when the close button is tapped.
+ */
+export const createPdfViewerHtml = ({ title, url, base64, scripts }: IPdfViewerOptions): string => {
+  const libraryTag = scripts
+    ? `<script>${escapeScript(scripts.library)}</script>`
+    : `<script src="${PDF_JS_CDN}/pdf.min.js"></script>`;
+  const workerSetup = scripts
+    ? `pdfjsLib.GlobalWorkerOptions.workerSrc = URL.createObjectURL(new Blob([${escapeScript(
+        JSON.stringify(scripts.worker)
+      )}], { type: 'text/javascript' }));`
+    : `pdfjsLib.GlobalWorkerOptions.workerSrc = '${PDF_JS_CDN}/pdf.worker.min.js';`;
+  const documentSource = base64
+    ? `{ data: Uint8Array.from(atob("${base64}"), function(c) { return c.charCodeAt(0); }) }`
+    : JSON.stringify(url);
+  const downloadUrl = url;
+
+  return `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=yes" />
+    <style>
+      body, html { 
+        top: 50;
+        margin: 0; 
+        padding: 0; 
+        width: 100%; 
+        height: 100%; 
+        background-color: #f5f5f5; 
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+      }
+      header {
+        position: fixed;
+        top: 50px;
+        left: 0;
+        right: 0;
+        height: 60px;
+        background-color: white;
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        padding: 0 15px;
+        border-bottom: 1px solid #e1e1e1;
+        z-index: 1000;
+      }
+      .header-title {
+        font-size: 18px;
+        font-weight: 600;
+        text-align: center;
+        flex: 1;
+      }
+      .close-btn {
+        color: #000;
+        font-size: 24px;
+        font-weight: 400;
+        background: transparent;
+        border: none;
+        padding: 8px;
+        cursor: pointer;
+      }
+      .download-btn {
+        padding: 8px 12px;
+        color: #34c759;
+        text-decoration: none;
+        font-weight: 500;
+        font-size: 16px;
+        display: flex;
+        align-items: center;
+      }
+      .download-icon {
+        margin-right: 5px;
+      }
+      #pdfViewer { 
+        width: 100%; 
+        padding-top: 70px;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+      }
+      canvas {
+        margin: 0 auto;
+        max-width: 100% !important;
+        height: auto !important;
+        box-shadow: 0 2px 5px rgba(0,0,0,0.2);
+        margin-bottom: 10px;
+        background-color: white;
+      }
+      .error-message {
+        color: red;
+        padding: 20px;
+        text-align: center;
+      }
+      .page {
+        margin-bottom: 10px;
+        box-shadow: 0 2px 5px rgba(0,0,0,0.2);
+        background-color: white;
+      }
+      .controls {
+        position: fixed;
+        bottom: 20px;
+        left: 50%;
+        transform: translateX(-50%);
+        background: rgba(0,0,0,0.7);
+        padding: 8px 15px;
+        border-radius: 20px;
+        display: flex;
+        align-items: center;
+        z-index: 100;
+      }
+      .controls button {
+        background: transparent;
+        border: none;
+        color: white;
+        font-size: 18px;
+        margin: 0 10px;
+        cursor: pointer;
+        padding: 5px 10px;
+      }
+      .controls button:disabled {
+        opacity: 0.5;
+      }
+      .pageNum {
+        color: white;
+        margin: 0 10px;
+        font-size: 16px;
+      }
+      .loading {
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        height: 100px;
+        width: 100%;
+        margin-top: 80px;
+      }
+    </style>
+    ${libraryTag}
+  </head>
+  <body>
+    <header>
+      <button class="close-btn" id="closeBtn">×</button>
+      <div class="header-title">${title}</div>
+      <a href="${downloadUrl}" download class="download-btn" id="downloadBtn">
+        <span class="download-icon">⬇️</span> Download
+      </a>
+    </header>
+    
+    <div id="pdfViewer"></div>
+    
+    <div class="controls" id="controls" style="display:none;">
+      <button id="prev">◀</button>
+      <span class="pageNum" id="pageNum">1</span>
+      <button id="next">▶</button>
+      <button id="zoomIn">+</button>
+      <button id="zoomOut">-</button>
+    </div>
+    
+    <script>
+      ${workerSetup}
+      
+      const pdfSource = ${documentSource};
+      const container = document.getElementById('pdfViewer');
+      const controls = document.getElementById('controls');
+      const pageNumSpan = document.getElementById('pageNum');
+      const prevButton = document.getElementById('prev');
+      const nextButton = document.getElementById('next');
+      const zoomInButton = document.getElementById('zoomIn');
+      const zoomOutButton = document.getElementById('zoomOut');
+      const closeBtn = document.getElementById('closeBtn');
+      
+      let currentPage = 1;
+      let pageCount = 0;
+      let scale = 1.0;
+      let pdf = null;
+      
+      const loadingDiv = document.createElement('div');
+      loadingDiv.className = 'loading';
+      loadingDiv.innerHTML = 'Loading document...';
+      container.appendChild(loadingDiv);
+      
+      closeBtn.addEventListener('click', function() {
+        window.ReactNativeWebView.postMessage('close_modal');
+      });
+      
+      async function renderPage(pageNumber) {
+        if (!pdf) return;
+        
+        const existingPage = document.getElementById('page-' + currentPage);
+        if (existingPage) {
+          existingPage.style.display = 'none';
+        }
+        
+        let pageDiv = document.getElementById('page-' + pageNumber);
+        if (!pageDiv) {
+          try {
+            const page = await pdf.getPage(pageNumber);
+            const viewport = page.getViewport({ scale });
+            
+            pageDiv = document.createElement('div');
+            pageDiv.className = 'page';
+            pageDiv.id = 'page-' + pageNumber;
+            container.appendChild(pageDiv);
+            
+            const canvas = document.createElement('canvas');
+            pageDiv.appendChild(canvas);
+            
+            const context = canvas.getContext('2d');
+            canvas.height = viewport.height;
+            canvas.width = viewport.width;
+            
+            await page.render({
+              canvasContext: context,
+              viewport: viewport
+            }).promise;
+          } catch (error) {
+            console.error('Error rendering page:', error);
+            pageDiv = document.createElement('div');
+            pageDiv.className = 'page';
+            pageDiv.id = 'page-' + pageNumber;
+            pageDiv.innerHTML = '<div class="error-message">Error loading page ' + pageNumber + '</div>';
+            container.appendChild(pageDiv);
+          }
+        } else {
+          pageDiv.style.display = 'block';
+        }
+        
+        currentPage = pageNumber;
+        pageNumSpan.textContent = currentPage;
+        
+        prevButton.disabled = currentPage <= 1;
+        nextButton.disabled = currentPage >= pageCount;
+        
+        pageDiv.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      }
+      
+      function zoom(delta) {
+        scale += delta;
+        scale = Math.max(0.5, Math.min(3, scale));
+        
+        for (let i = 1; i <= pageCount; i++) {
+          const pageDiv = document.getElementById('page-' + i);
+          if (pageDiv) {
+            container.removeChild(pageDiv);
+          }
+        }
+        
+        renderPage(currentPage);
+      }
+      
+      async function loadPDF() {
+        try {
+          pdf = await pdfjsLib.getDocument(pdfSource).promise;
+          pageCount = pdf.numPages;
+          
+          controls.style.display = 'flex';
+          container.removeChild(loadingDiv);
+          
+          await renderPage(1);
+          
+          if (pageCount > 1) {
+            setTimeout(() => {
+              for (let i = 2; i <= Math.min(3, pageCount); i++) {
+                renderPage(i);
+              }
+            }, 500);
+          }
+        } catch (error) {
+          console.error('Error loading PDF:', error);
+          container.innerHTML = '<div class="error-message">Could not load PDF document. Error: ' + error.message + '</div>';
+        }
+      }
+      
+      prevButton.addEventListener('click', function() {
+        if (currentPage > 1) {
+          renderPage(currentPage - 1);
+        }
+      });
+      
+      nextButton.addEventListener('click', function() {
+        if (currentPage < pageCount) {
+          renderPage(currentPage + 1);
+        }
+      });
+      
+      zoomInButton.addEventListener('click', function() { zoom(0.2); });
+      zoomOutButton.addEventListener('click', function() { zoom(-0.2); });
+      
+      function makeTouchable(element) {
+        element.addEventListener('touchstart', function(e) {
+          e.target.click();
+          e.preventDefault();
+          e.stopPropagation();
+        }, false);
+      }
+      
+      makeTouchable(prevButton);
+      makeTouchable(nextButton);
+      makeTouchable(zoomInButton);
+      makeTouchable(zoomOutButton);
+      makeTouchable(closeBtn);
+      
+      loadPDF();
+    </script>
+  </body>
+  </html>
+  `;
+};
@@ -1,5 +1,6 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { LogBox } from "react-native";
+import { ApiPaginatedResult, normalizeApiResponse, slicePage, toPaginatedResult, unwrapApiResult } from "./apiResult";
 
 // ✅ Ẩn lỗi Axios 400 từ LogBox
 LogBox.ignoreLogs(["AxiosError: Request failed with status code 400"]);
@@ -63,10 +64,11 @@ export const getProductsAPI = async (): Promise<IProduct[]> => {
 
   try {
     const response = await apiClient.get<IProduct[]>(url); // ✅ API trả về mảng
+    const products = unwrapApiResult(normalizeApiResponse<IProduct[]>(response));
 
     // ✅ Nếu API trả về một mảng, trả về luôn
-    if (Array.isArray(response.data)) {
-      return response.data;
+    if (Array.isArray(products)) {
+      return products;
     }
 
     return Promise.reject(new Error("Invalid response from server."));
@@ -81,6 +83,47 @@ export const getProductsAPI = async (): Promise<IProduct[]> => {
   }
 };
 
+// ✅ API GET danh sách sản phẩm có phân trang (infinite scroll)
+export const getPaginatedProductsAPI = async (
+  pageIndex: number = 1,
+  pageSize: number = 10
+): Promise<ApiPaginatedResult<IProduct>> => {
+  const url = "/api/Product/getPaginatedList";
+
+  const apiClient = await initApiClient();
+  console.log("🟡 API Endpoint:", apiClient.defaults.baseURL + url, { pageIndex, pageSize });
+
+  try {
+    const response = await apiClient.get(url, {
+      params: { PageIndex: pageIndex, PageSize: pageSize },
+    });
+    const result = normalizeApiResponse<IProduct[]>(response);
+    const products = unwrapApiResult(result);
+
+    if (!Array.isArray(products)) {
+      return Promise.reject(new Error("Invalid response from server."));
+    }
+
+    // ✅ Không có thông tin phân trang nghĩa là server trả về toàn bộ danh sách
+    return result.pagination
+      ? toPaginatedResult(result, pageIndex, pageSize)
+      : slicePage(products, pageIndex, pageSize);
+  } catch (error: any) {
+    // ✅ Backend cũ chưa có endpoint phân trang: phân trang trên danh sách đầy đủ
+    if (error?.status === 404 || error?.response?.status === 404) {
+      return slicePage(await getProductsAPI(), pageIndex, pageSize);
+    }
+
+    console.error("🔴 Get Paginated Products API Error:", error);
+
+    if (error.message?.includes("Network Error")) {
+      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
+    }
+
+    return Promise.reject(new Error("Network error, please try again."));
+  }
+};
+
 // ✅ API GET chi tiết sản phẩm theo ID
 export const getProductDetailAPI = async (id: number): Promise<IProduct> => {
   const url = `/api/Product/getById/${id}`;
@@ -90,10 +133,11 @@ export const getProductDetailAPI = async (id: number): Promise<IProduct> => {
 
   try {
     const response = await apiClient.get<IProduct>(url); // ✅ API trả về object trực tiếp
+    const product = unwrapApiResult(normalizeApiResponse<IProduct>(response));
 
     // ✅ API trả về một object, trả về luôn
-    if (response.data && typeof response.data === "object") {
-      return response.data;
+    if (product && typeof product === "object") {
+      return product;
     }
 
     return Promise.reject(new Error("Invalid response from server."));
@@ -134,30 +178,19 @@ export const getProductsByProviderAPI = async (
     });
     
     
-    // ✅ Handle the actual response structure with data and totalCount
-    if (response.data && typeof response.data === "object") {
-      // Check if response has data array
-      if (Array.isArray(response.data.data)) {
-        const totalItems = response.data.totalCount || response.data.data.length;
-        const totalPages = Math.ceil(totalItems / pageSize);
-        
-        return {
-          items: response.data.data,
-          totalItems: totalItems,
-          totalPages: totalPages,
-          currentPage: page
-        };
-      }
-      
-      // Handle case where data itself is an array
-      if (Array.isArray(response.data)) {
-        return {
-          items: response.data,
-          totalItems: response.data.length,
-          totalPages: Math.ceil(response.data.length / pageSize),
-          currentPage: page
-        };
-      }
+    const result = normalizeApiResponse<IProduct[]>(response);
+
+    // ✅ Handle both { data: [...], totalCount } and bare arrays
+    if (result.success && Array.isArray(result.data)) {
+      const { data, pagination } = toPaginatedResult(result, page, pageSize);
+      const totalItems = pagination.totalCount || data.length;
+
+      return {
+        items: data,
+        totalItems: totalItems,
+        totalPages: Math.ceil(totalItems / pageSize),
+        currentPage: page
+      };
     }
     
     return Promise.reject(new Error("Invalid response from server."));
@@ -169,7 +202,7 @@ export const getProductsByProviderAPI = async (
     }
     
     // Handle 404 specifically
-    if (error.response && error.response.status === 404) {
+    if (error?.status === 404 || error?.response?.status === 404) {
       return {
         items: [],
         totalItems: 0,
@@ -1,5 +1,6 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { LogBox } from "react-native";
+import { normalizeApiResponse, unwrapApiResult } from "./apiResult";
 
 // ✅ Ẩn lỗi Axios 400 từ LogBox
 LogBox.ignoreLogs(["AxiosError: Request failed with status code 400"]);
@@ -50,9 +51,10 @@ export const getProvidersAPI = async (): Promise<IProvider[]> => {
 
   try {
     const response = await apiClient.get<IProvider[]>(url);
+    const providers = unwrapApiResult(normalizeApiResponse<IProvider[]>(response));
 
-    if (Array.isArray(response.data)) {
-      return response.data;
+    if (Array.isArray(providers)) {
+      return providers;
     }
 
     return Promise.reject(new Error("Invalid response from server."));
@@ -76,13 +78,14 @@ export const getProviderDetailAPI = async (slug: string): Promise<IProvider> =>
 
   try {
     const response = await apiClient.get<IProvider>(url);
+    const provider = unwrapApiResult(normalizeApiResponse<IProvider>(response));
 
-    if (response.data && typeof response.data === "object") {
+    if (provider && typeof provider === "object") {
       return {
-        ...response.data,
-        providerVerified: response.data.providerVerified || false, // Default to false if missing
-        followersCount: response.data.followersCount || 0, // Default to 0 if missing
-        followingsCount: response.data.followingsCount || 0, // Default to 0 if missing
+        ...provider,
+        providerVerified: provider.providerVerified || false, // Default to false if missing
+        followersCount: provider.followersCount || 0, // Default to 0 if missing
+        followingsCount: provider.followingsCount || 0, // Default to 0 if missing
       };
     }
 
@@ -105,10 +108,11 @@ export const getProductsByProviderAPI = async (slug: string): Promise<IProduct[]
 
   try {
     const response = await apiClient.get<IProduct[]>(url);
+    const products = unwrapApiResult(normalizeApiResponse<IProduct[]>(response));
 
-    if (Array.isArray(response.data)) {
+    if (Array.isArray(products)) {
       // Ensuring the returned products adhere to the IProduct interface with default values for missing fields
-      return response.data.map((product) => ({
+      return products.map((product) => ({
         ...product,
         rate: product.rate || 0, // Default rate to 0 if missing
         totalRate: product.totalRate || 0, // Default totalRate to 0 if missing
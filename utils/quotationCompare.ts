@@ -0,0 +1,192 @@
+// Normalized side-by-side table for comparing quotations from different providers.
+// Quotations don't carry a rating or schedule themselves, so both are read from the
+// booking the quotation belongs to when the screen has it.
+
+export const MIN_COMPARE_QUOTATIONS = 2;
+export const MAX_COMPARE_QUOTATIONS = 4;
+
+export interface IQuotationCompareInput {
+  quotation: any;
+  booking?: any;
+}
+
+export interface IQuotationCompareColumn {
+  quotationCode: string;
+  providerName: string;
+  providerAvatar?: string;
+  style?: string;
+  status?: number;
+  materialCost: number;
+  constructionCost: number;
+  productCost: number;
+  totalCost: number;
+  depositPercentage: number;
+  depositAmount: number;
+  surveyDate?: string;
+  constructionDate?: string;
+  rating?: number;
+  ratingCount?: number;
+}
+
+// "min" highlights the cheapest / earliest cell, "max" the highest rated
+export type CompareHighlight = "min" | "max";
+
+export type CompareRowFormat = "currency" | "rating" | "date";
+
+export interface IQuotationCompareRow {
+  key: string;
+  label: string;
+  format: CompareRowFormat;
+  values: (number | undefined)[];
+  bestIndexes: number[];
+  // Extra text under a value, e.g. "30%" under the deposit amount
+  captions?: (string | undefined)[];
+}
+
+interface IRowSpec {
+  key: string;
+  label: string;
+  format: CompareRowFormat;
+  highlight?: CompareHighlight;
+  getValue: (column: IQuotationCompareColumn) => number | undefined;
+  getCaption?: (column: IQuotationCompareColumn) => string | undefined;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : 0;
+};
+
+const toOptionalNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : undefined;
+};
+
+const toTimestamp = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+};
+
+const sumLines = (lines: any[] | undefined, getTotal: (line: any) => number): number =>
+  (lines || []).reduce((sum, line) => sum + getTotal(line), 0);
+
+/**
+ * Reduce a quotation (list item or detail) and its booking to comparable numbers.
+ * Totals fall back to the line items when the summary fields are missing.
+ */
+export const toQuotationCompareColumn = ({ quotation, booking }: IQuotationCompareInput): IQuotationCompareColumn => {
+  const materials = quotation?.materialDetails || quotation?.materials;
+  const construction = quotation?.constructionDetails || quotation?.constructionTasks;
+
+  const materialCost =
+    toOptionalNumber(quotation?.materialCost) ??
+    sumLines(materials, (line) => toNumber(line.totalCost ?? toNumber(line.cost) * toNumber(line.quantity)));
+  const constructionCost =
+    toOptionalNumber(quotation?.constructionCost) ??
+    sumLines(construction, (line) => toNumber(line.cost));
+  const productCost =
+    toOptionalNumber(quotation?.productCost) ??
+    sumLines(quotation?.productDetails, (line) => toNumber(line.totalPrice));
+  const totalCost = materialCost + constructionCost + productCost;
+  const depositPercentage = toNumber(quotation?.depositPercentage);
+
+  const decorService = booking?.decorService;
+  const provider = quotation?.provider || booking?.provider || decorService?.provider;
+
+  return {
+    quotationCode: quotation?.quotationCode ?? "",
+    providerName: provider?.businessName || provider?.name || "Unknown provider",
+    providerAvatar: provider?.avatar,
+    style: quotation?.style || decorService?.style,
+    status: quotation?.status,
+    materialCost,
+    constructionCost,
+    productCost,
+    totalCost,
+    depositPercentage,
+    depositAmount: Math.round((totalCost * depositPercentage) / 100),
+    surveyDate: booking?.surveyDate,
+    constructionDate: quotation?.constructionDate || booking?.constructionDate,
+    rating: toOptionalNumber(provider?.rate ?? provider?.averageRating ?? decorService?.rate),
+    ratingCount: toOptionalNumber(provider?.totalRating ?? decorService?.totalRating),
+  };
+};
+
+const ROWS: IRowSpec[] = [
+  {
+    key: "deposit",
+    label: "Deposit",
+    format: "currency",
+    highlight: "min",
+    getValue: (column) => column.depositAmount,
+    getCaption: (column) => `${column.depositPercentage}%`,
+  },
+  { key: "materialCost", label: "Materials", format: "currency", highlight: "min", getValue: (column) => column.materialCost },
+  {
+    key: "constructionCost",
+    label: "Construction",
+    format: "currency",
+    highlight: "min",
+    getValue: (column) => column.constructionCost,
+  },
+  { key: "productCost", label: "Products", format: "currency", highlight: "min", getValue: (column) => column.productCost },
+  { key: "totalCost", label: "Total", format: "currency", highlight: "min", getValue: (column) => column.totalCost },
+  { key: "surveyDate", label: "Survey date", format: "date", getValue: (column) => toTimestamp(column.surveyDate) },
+  {
+    key: "constructionDate",
+    label: "Construction date",
+    format: "date",
+    highlight: "min",
+    getValue: (column) => toTimestamp(column.constructionDate),
+  },
+  {
+    key: "rating",
+    label: "Provider rating",
+    format: "rating",
+    highlight: "max",
+    getValue: (column) => column.rating,
+    getCaption: (column) => (column.ratingCount !== undefined ? `${column.ratingCount} reviews` : undefined),
+  },
+];
+
+/**
+ * Indexes of the best value in a row. Nothing is highlighted when fewer than two
+ * columns have a value or when every value is the same.
+ */
+export const getBestIndexes = (values: (number | undefined)[], highlight?: CompareHighlight): number[] => {
+  if (!highlight) return [];
+
+  const present = values.filter((value): value is number => value !== undefined);
+  if (present.length < 2) return [];
+
+  const best = highlight === "min" ? Math.min(...present) : Math.max(...present);
+  if (present.every((value) => value === best)) return [];
+
+  return values.reduce<number[]>((indexes, value, index) => (value === best ? [...indexes, index] : indexes), []);
+};
+
+/**
+ * Build the comparison table. Rows where every column is empty (e.g. no
+ * quotation has products) are left out.
+ */
+export const buildQuotationComparison = (
+  inputs: IQuotationCompareInput[]
+): { columns: IQuotationCompareColumn[]; rows: IQuotationCompareRow[] } => {
+  const columns = inputs.map(toQuotationCompareColumn);
+
+  const rows = ROWS.map((spec) => {
+    const values = columns.map(spec.getValue);
+    return {
+      key: spec.key,
+      label: spec.label,
+      format: spec.format,
+      values,
+      bestIndexes: getBestIndexes(values, spec.highlight),
+      captions: spec.getCaption ? columns.map(spec.getCaption) : undefined,
+    };
+  }).filter((row) => row.values.some((value) => value !== undefined && (row.format !== "currency" || value !== 0)));
+
+  return { columns, rows };
+};
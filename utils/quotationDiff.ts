@@ -0,0 +1,273 @@
+// Snapshots and line-item diffs between revisions of the same quotation.
+// Line items are matched by name (materials, construction tasks) or productId,
+// since providers often recreate rows with new ids when they revise a quotation.
+
+export interface IQuotationMaterialLine {
+  materialName: string;
+  quantity: number;
+  cost: number;
+  totalCost: number;
+  note?: string;
+}
+
+export interface IQuotationConstructionLine {
+  taskName: string;
+  cost: number;
+  unit: string;
+  area: number;
+  note?: string;
+}
+
+export interface IQuotationProductLine {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface IQuotationTotals {
+  materialCost: number;
+  constructionCost: number;
+  productCost: number;
+  totalCost: number;
+  depositPercentage: number;
+}
+
+export interface IQuotationSnapshot {
+  quotationCode: string;
+  status?: number;
+  totals: IQuotationTotals;
+  materials: IQuotationMaterialLine[];
+  construction: IQuotationConstructionLine[];
+  products: IQuotationProductLine[];
+}
+
+export type LineChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface IFieldChange {
+  field: string;
+  label: string;
+  before: number | string | undefined;
+  after: number | string | undefined;
+}
+
+export interface ILineDiff {
+  key: string;
+  name: string;
+  status: LineChangeStatus;
+  changes: IFieldChange[];
+}
+
+export interface ITotalDiff {
+  field: keyof IQuotationTotals;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface IQuotationDiff {
+  materials: ILineDiff[];
+  construction: ILineDiff[];
+  products: ILineDiff[];
+  totals: ITotalDiff[];
+  hasChanges: boolean;
+}
+
+type FieldSpec<T> = { field: keyof T & string; label: string };
+
+const MATERIAL_FIELDS: FieldSpec<IQuotationMaterialLine>[] = [
+  { field: "quantity", label: "Quantity" },
+  { field: "cost", label: "Unit price" },
+  { field: "totalCost", label: "Total" },
+  { field: "note", label: "Note" },
+];
+
+const CONSTRUCTION_FIELDS: FieldSpec<IQuotationConstructionLine>[] = [
+  { field: "area", label: "Area" },
+  { field: "unit", label: "Unit" },
+  { field: "cost", label: "Unit price" },
+  { field: "note", label: "Note" },
+];
+
+const PRODUCT_FIELDS: FieldSpec<IQuotationProductLine>[] = [
+  { field: "quantity", label: "Quantity" },
+  { field: "unitPrice", label: "Unit price" },
+  { field: "totalPrice", label: "Total" },
+];
+
+const TOTAL_FIELDS: { field: keyof IQuotationTotals; label: string }[] = [
+  { field: "materialCost", label: "Material cost" },
+  { field: "constructionCost", label: "Construction cost" },
+  { field: "productCost", label: "Product cost" },
+  { field: "totalCost", label: "Total cost" },
+  { field: "depositPercentage", label: "Deposit %" },
+];
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : 0;
+};
+
+const toText = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const normalizeKey = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Reduce a quotation detail response to the fields that matter for comparison
+ */
+export const toQuotationSnapshot = (quotation: any): IQuotationSnapshot => {
+  const materials: IQuotationMaterialLine[] = (quotation?.materialDetails || quotation?.materials || []).map(
+    (material: any) => ({
+      materialName: toText(material.materialName),
+      quantity: toNumber(material.quantity),
+      cost: toNumber(material.cost),
+      totalCost: toNumber(material.totalCost ?? toNumber(material.cost) * toNumber(material.quantity)),
+      note: toText(material.note) || undefined,
+    })
+  );
+
+  const construction: IQuotationConstructionLine[] = (
+    quotation?.constructionDetails ||
+    quotation?.constructionTasks ||
+    []
+  ).map((task: any) => ({
+    taskName: toText(task.taskName),
+    cost: toNumber(task.cost),
+    unit: toText(task.unit),
+    area: toNumber(task.area),
+    note: toText(task.note) || undefined,
+  }));
+
+  const products: IQuotationProductLine[] = (quotation?.productDetails || []).map((product: any) => ({
+    productId: toNumber(product.productId),
+    productName: toText(product.productName),
+    quantity: toNumber(product.quantity),
+    unitPrice: toNumber(product.unitPrice),
+    totalPrice: toNumber(product.totalPrice),
+  }));
+
+  const materialCost = toNumber(quotation?.materialCost);
+  const constructionCost = toNumber(quotation?.constructionCost);
+  const productCost = toNumber(quotation?.productCost);
+
+  return {
+    quotationCode: quotation?.quotationCode ?? "",
+    status: quotation?.status,
+    totals: {
+      materialCost,
+      constructionCost,
+      productCost,
+      totalCost: toNumber(quotation?.totalCost) || materialCost + constructionCost + productCost,
+      depositPercentage: toNumber(quotation?.depositPercentage),
+    },
+    materials,
+    construction,
+    products,
+  };
+};
+
+/**
+ * Stable string for "did anything change"; ignores status so a status update alone is not a revision
+ */
+export const getSnapshotFingerprint = (snapshot: IQuotationSnapshot): string =>
+  JSON.stringify([snapshot.totals, snapshot.materials, snapshot.construction, snapshot.products]);
+
+// Same-named rows get an occurrence suffix so duplicates still pair up in order
+const keyLines = <T>(lines: T[], getKey: (line: T) => string): Map<string, T> => {
+  const keyed = new Map<string, T>();
+  const seen = new Map<string, number>();
+  lines.forEach((line) => {
+    const base = getKey(line);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    keyed.set(count > 1 ? `${base}#${count}` : base, line);
+  });
+  return keyed;
+};
+
+const diffLines = <T>(
+  before: T[],
+  after: T[],
+  getKey: (line: T) => string,
+  getName: (line: T) => string,
+  fields: FieldSpec<T>[]
+): ILineDiff[] => {
+  const beforeLines = keyLines(before, getKey);
+  const afterLines = keyLines(after, getKey);
+  const diffs: ILineDiff[] = [];
+
+  afterLines.forEach((line, key) => {
+    const previous = beforeLines.get(key);
+    if (!previous) {
+      diffs.push({ key, name: getName(line), status: "added", changes: [] });
+      return;
+    }
+
+    const changes = fields
+      .filter(({ field }) => (previous as any)[field] !== (line as any)[field])
+      .map(({ field, label }) => ({ field, label, before: (previous as any)[field], after: (line as any)[field] }));
+    diffs.push({ key, name: getName(line), status: changes.length > 0 ? "changed" : "unchanged", changes });
+  });
+
+  beforeLines.forEach((line, key) => {
+    if (!afterLines.has(key)) {
+      diffs.push({ key, name: getName(line), status: "removed", changes: [] });
+    }
+  });
+
+  return diffs;
+};
+
+/**
+ * Compare two revisions of a quotation line by line
+ */
+export const diffQuotations = (before: IQuotationSnapshot, after: IQuotationSnapshot): IQuotationDiff => {
+  const materials = diffLines(
+    before.materials,
+    after.materials,
+    (line) => normalizeKey(line.materialName),
+    (line) => line.materialName,
+    MATERIAL_FIELDS
+  );
+  const construction = diffLines(
+    before.construction,
+    after.construction,
+    (line) => normalizeKey(line.taskName),
+    (line) => line.taskName,
+    CONSTRUCTION_FIELDS
+  );
+  const products = diffLines(
+    before.products,
+    after.products,
+    (line) => String(line.productId),
+    (line) => line.productName,
+    PRODUCT_FIELDS
+  );
+  const totals = TOTAL_FIELDS.map(({ field, label }) => ({
+    field,
+    label,
+    before: before.totals[field],
+    after: after.totals[field],
+    delta: after.totals[field] - before.totals[field],
+  }));
+
+  const hasChanges =
+    [...materials, ...construction, ...products].some((line) => line.status !== "unchanged") ||
+    totals.some((total) => total.delta !== 0);
+
+  return { materials, construction, products, totals, hasChanges };
+};
+
+/**
+ * Counts for a one-line summary, e.g. "2 added · 1 removed · 3 changed"
+ */
+export const summarizeQuotationDiff = (diff: IQuotationDiff): Record<Exclude<LineChangeStatus, "unchanged">, number> => {
+  const lines = [...diff.materials, ...diff.construction, ...diff.products];
+  return {
+    added: lines.filter((line) => line.status === "added").length,
+    removed: lines.filter((line) => line.status === "removed").length,
+    changed: lines.filter((line) => line.status === "changed").length,
+  };
+};
@@ -1,5 +1,15 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken, getUserIdFromToken } from "@/services/auth";
+import {
+  ApiPaginatedResult,
+  ApiResult,
+  getApiErrorMessage,
+  normalizeApiResponse,
+  toApiErrorResult,
+  toPaginatedResult,
+  unwrapApiResult,
+} from "./apiResult";
+
 export interface ICancelType {
   id: number;
   type: string;
@@ -8,17 +18,20 @@ export interface ICancelType {
   isActive?: boolean;
 }
 
-export interface ICancelTypeResponse {
-  success: boolean;
-  message?: string;
-  errors?: string[];
-  data?: ICancelType[];
+export type ICancelTypeResponse = ApiResult<ICancelType[]>;
+
+// Payload returned after removing a product from a quotation
+export interface IQuotationProductChange {
+  removedProduct?: any;
+  productCost?: number;
+  [key: string]: any;
 }
+
 /**
  * Get paginated quotations for the current customer
  */
 // Updated API function that works without parameters
-interface PaginationParams {
+export interface PaginationParams {
   quotationCode?: string;
   status?: number;
   pageIndex?: number;
@@ -27,7 +40,7 @@ interface PaginationParams {
   descending?: boolean;
 }
 
-export const getPaginatedQuotationsForCustomerAPI = async (params: PaginationParams = {}) => {
+export const getPaginatedQuotationsForCustomerAPI = async (params: PaginationParams = {}): Promise<ApiPaginatedResult<any>> => {
   try {
     const apiClient = await initApiClient();
         
@@ -67,16 +80,16 @@ export const getPaginatedQuotationsForCustomerAPI = async (params: PaginationPar
     );
 
     console.log('✅ API response received successfully');
-    return response.data || { success: false, data: [], message: "No data received from API" };
+    return toPaginatedResult(normalizeApiResponse<any[]>(response), pageIndex, pageSize);
     
   } catch (error: any) {
     console.error("🔴 Get Paginated Quotations API Error:", error);
         
-    return { 
-      success: false,
-      data: [],
-      message: error.response?.data?.message || "Failed to retrieve quotations."
-    };
+    return toPaginatedResult(
+      toApiErrorResult<any[]>(error, "Failed to retrieve quotations."),
+      params.pageIndex ?? 1,
+      params.pageSize ?? 100
+    );
   }
 };
 export const getQuotationDetailByCustomerAPI = async (quotationCode: string) => {
@@ -96,42 +109,25 @@ export const getQuotationDetailByCustomerAPI = async (quotationCode: string) =>
       { headers: { Authorization: `Bearer ${token}` } }
     );
     
-    console.log("🟢 Quotation detail response received:", response.status);
-    console.log("🟢 Response data:", JSON.stringify(response.data).substring(0, 200) + "...");
+    const quotation = unwrapApiResult(normalizeApiResponse<any>(response));
+    console.log("🟢 Response data:", JSON.stringify(quotation).substring(0, 200) + "...");
     
-    // Direct data response (no success/data wrapper)
-    if (response.data && typeof response.data === 'object') {
-      // Check if the response data has the expected properties of a quotation
-      if (response.data.quotationCode) {
-        console.log("🟢 API returned quotation data directly");
-        
-        // Map field names if needed
-        if (response.data.quotationFilePath && !response.data.filePath) {
-          response.data.filePath = response.data.quotationFilePath;
-        }
-        
-        if (response.data.materials && !response.data.materialDetails) {
-          response.data.materialDetails = response.data.materials;
-        }
-        
-        if (response.data.constructionTasks && !response.data.constructionDetails) {
-          response.data.constructionDetails = response.data.constructionTasks;
-        }
-        
-        return response.data;
+    // Check if the response data has the expected properties of a quotation
+    if (quotation && typeof quotation === 'object' && quotation.quotationCode) {
+      // Map field names if needed
+      if (quotation.quotationFilePath && !quotation.filePath) {
+        quotation.filePath = quotation.quotationFilePath;
       }
       
-      // Handle nested data structure
-      if (response.data.success === true && response.data.data) {
-        console.log("🟢 API returned success/data structure");
-        return response.data.data;
+      if (quotation.materials && !quotation.materialDetails) {
+        quotation.materialDetails = quotation.materials;
       }
       
-      // Log what properties we got for debugging
-      if (typeof response.data === 'object') {
-        console.log("🟡 Received response but data structure not as expected:", 
-          Object.keys(response.data));
+      if (quotation.constructionTasks && !quotation.constructionDetails) {
+        quotation.constructionDetails = quotation.constructionTasks;
       }
+      
+      return quotation;
     }
     
     // If we got here, we couldn't find usable data
@@ -141,17 +137,7 @@ export const getQuotationDetailByCustomerAPI = async (quotationCode: string) =>
   } catch (error: any) {
     console.error("🔴 Get Quotation Detail API Error:", error);
     
-    // Log details about the error
-    if (error.response) {
-      console.error("🔴 Error status:", error.response.status);
-      console.error("🔴 Error data:", error.response.data);
-    } else if (error.request) {
-      console.error("🔴 No response received:", error.request);
-    } else {
-      console.error("🔴 Error message:", error.message);
-    }
-    
-    throw error; // Re-throw to be handled by the component
+    throw new Error(getApiErrorMessage(error, "Failed to load quotation details")); // Re-throw to be handled by the component
   }
 };
 export const createQuotationByBookingCodeAPI = async (bookingCode: string, quotationData: any) => {
@@ -169,10 +155,10 @@ export const createQuotationByBookingCodeAPI = async (bookingCode: string, quota
       { headers: { Authorization: `Bearer ${token}` } }
     );
 
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse(response));
   } catch (error: any) {
     console.error("Error creating quotation:", error);
-    throw new Error(error.response?.data?.message || "Failed to create quotation");
+    throw new Error(getApiErrorMessage(error, "Failed to create quotation"));
   }
 };
 
@@ -199,17 +185,17 @@ export const uploadQuotationFileByBookingCodeAPI = async (bookingCode: string, f
       }
     );
 
-    return response.data;
+    return unwrapApiResult(normalizeApiResponse(response));
   } catch (error: any) {
     console.error("Error uploading quotation file:", error);
-    throw new Error(error.response?.data?.message || "Failed to upload quotation file");
+    throw new Error(getApiErrorMessage(error, "Failed to upload quotation file"));
   }
 };
 
 /**
  * Confirm a quotation by its code
  */
-export const confirmQuotationAPI = async (quotationCode: string): Promise<any> => {
+export const confirmQuotationAPI = async (quotationCode: string): Promise<ApiResult> => {
   try {
     const apiClient = await initApiClient();
     const token = await getToken();
@@ -218,7 +204,8 @@ export const confirmQuotationAPI = async (quotationCode: string): Promise<any> =
       console.error("No authentication token found");
       return {
         success: false,
-        message: "Unauthorized: Please log in."
+        message: "Unauthorized: Please log in.",
+        errors: []
       };
     }
     
@@ -237,82 +224,23 @@ export const confirmQuotationAPI = async (quotationCode: string): Promise<any> =
       }
     );
     
-    console.log(`🔍 Confirm quotation response:`, response.data);
-    
-    // Handle different response scenarios
-    
-    // 1. If response data is null/undefined but status is success (200-299)
-    if ((response.data === null || response.data === undefined) && 
-        response.status >= 200 && response.status < 300) {
-      return {
-        success: true,
-        message: "Quotation confirmed successfully"
-      };
-    }
-    
-    // 2. If we got a proper response object
-    if (response.data) {
-      // If the API returns a standard format with success property
-      if (typeof response.data === 'object' && 'success' in response.data) {
-        return response.data;
-      }
-      
-      // Otherwise assume success if we have a response with status 2xx
-      if (response.status >= 200 && response.status < 300) {
-        return {
-          success: true,
-          message: "Quotation confirmed successfully",
-          data: response.data
-        };
-      }
-    }
+    console.log(`🔍 Confirm quotation response:`, response);
     
-    // If we reach here, something unexpected happened but no error was thrown
-    return {
-      success: false,
-      message: "Unable to confirm quotation. Unexpected response format."
-    };
+    return normalizeApiResponse(response, "Quotation confirmed successfully");
   } catch (error: any) {
     console.error("🔴 Error confirming quotation:", error);
     
-    // If the error contains a response from the server
-    if (error.response) {
-      console.log("🔴 Server error response status:", error.response.status);
-      console.log("🔴 Server error response data:", error.response.data);
-      
-      // Handle different error formats
-      if (error.response.data) {
-        if (typeof error.response.data === 'object' && 'message' in error.response.data) {
-          return {
-            success: false,
-            message: error.response.data.message
-          };
-        }
-        
-        if (typeof error.response.data === 'string') {
-          return {
-            success: false,
-            message: error.response.data
-          };
-        }
-      }
-    }
-    
-    // Default error response for network errors or unexpected formats
-    return {
-      success: false,
-      message: error.message || "Failed to confirm quotation. Please try again."
-    };
+    return toApiErrorResult(error, "Failed to confirm quotation. Please try again.");
   }
 };
 
-export const testQuotationAPI = async () => {
+export const testQuotationAPI = async (): Promise<ApiResult> => {
   try {
     const apiClient = await initApiClient();
     const token = await getToken();
     
     if (!token) {
-      return { success: false, message: "No authentication token available" };
+      return { success: false, message: "No authentication token available", errors: [] };
     }
     
     const response = await apiClient.get(
@@ -326,15 +254,10 @@ export const testQuotationAPI = async () => {
       }
     );
     
-    return response.data || { success: false, message: "No data received" };
+    return normalizeApiResponse(response);
   } catch (error: any) {
     console.error("API test error:", error);
-    return { 
-      success: false, 
-      error: error.message,
-      status: error.response?.status,
-      data: error.response?.data
-    };
+    return toApiErrorResult(error, "No data received");
   }
 };
 /**
@@ -343,7 +266,10 @@ export const testQuotationAPI = async () => {
  * @param productId The ID of the product to remove
  * @returns API response
  */
-export const removeProductFromQuotationAPI = async (quotationCode: string, productId: number): Promise<any> => {
+export const removeProductFromQuotationAPI = async (
+  quotationCode: string,
+  productId: number
+): Promise<ApiResult<IQuotationProductChange>> => {
   try {
     // More detailed logging for debugging
     console.log(`🔍 Removing product ${productId} from quotation ${quotationCode}`);
@@ -384,30 +310,14 @@ export const removeProductFromQuotationAPI = async (quotationCode: string, produ
       }
     );
     
-    console.log(`🟢 Product removal response status: ${response.status}`);
-    console.log(`🟢 Product removal response data:`, response.data);
+    console.log(`🟢 Product removal response data:`, response);
     
-    // Return the API response directly
-    return response.data;
+    return normalizeApiResponse<IQuotationProductChange>(response);
     
   } catch (error: any) {
     console.error("🔴 Remove Product From Quotation API Error:", error);
     
-    // Log more details about the error
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      // Return the error response from the server
-      return error.response.data;
-    } 
-    
-    // For network errors or other issues
-    return {
-      success: false,
-      message: error.message || "Failed to remove product from quotation",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to remove product from quotation");
   }
 };
 export const getPaginatedRelatedProductAPI = async (
@@ -420,7 +330,7 @@ export const getPaginatedRelatedProductAPI = async (
     sortBy?: string;
     descending?: boolean;
   } = {}
-): Promise<any> => {
+): Promise<ApiResult<any[]>> => {
   try {
     console.log(`🔍 Getting related products for quotation: ${quotationCode}`);
     const apiClient = await initApiClient();
@@ -465,42 +375,12 @@ export const getPaginatedRelatedProductAPI = async (
       }
     );
     
-    console.log(`🟢 Related products response status: ${response.status}`);
-    
-    // Return the API response
-    if (response.data) {
-      return response.data;
-    } else {
-      return {
-        success: false,
-        message: "No data received from API",
-        data: null
-      };
-    }
+    return toPaginatedResult(normalizeApiResponse<any[]>(response), options.pageIndex, options.pageSize);
     
   } catch (error: any) {
-    console.error("🔴 Get Related Products API Error:", error.response?.data || error);
+    console.error("🔴 Get Related Products API Error:", error);
     
-    // Log more details about the error
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      // Return the error response from the server
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to get related products",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    // For network errors or other issues
-    return {
-      success: false,
-      message: error.message || "Failed to get related products",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to get related products");
   }
 };
 
@@ -508,7 +388,7 @@ export const addProductToQuotationAPI = async (
   quotationCode: string,
   productId: number,
   quantity: number
-): Promise<any> => {
+): Promise<ApiResult> => {
   try {
     console.log(`🔍 Adding product ${productId} (quantity: ${quantity}) to quotation ${quotationCode}`);
     const apiClient = await initApiClient();
@@ -551,35 +431,14 @@ export const addProductToQuotationAPI = async (
       }
     );
     
-    console.log(`🟢 Add product response status: ${response.status}`);
-    console.log(`🟢 Add product response data:`, response.data);
+    console.log(`🟢 Add product response data:`, response);
     
-    // Return the API response
-    return response.data;
+    return normalizeApiResponse(response);
     
   } catch (error: any) {
     console.error("🔴 Add Product To Quotation API Error:", error);
     
-    // Log more details about the error
-    if (error.response) {
-      console.error(`🔴 API Error [${error.response.status}]:`, error.response.data);
-      
-      // Return the error response from the server
-      return {
-        success: false,
-        message: error.response.data?.message || "Failed to add product to quotation",
-        errors: error.response.data?.errors || [],
-        data: null
-      };
-    } 
-    
-    // For network errors or other issues
-    return {
-      success: false,
-      message: error.message || "Failed to add product to quotation",
-      errors: [],
-      data: null
-    };
+    return toApiErrorResult(error, "Failed to add product to quotation");
   }
 };
 // ✅ Thêm các API này vào file quotationsAPI.ts
@@ -588,7 +447,7 @@ export const addProductToQuotationAPI = async (
 export const requestToChangeQuotationAPI = async (
   quotationCode: string,
   changeReason: string
-): Promise<any> => {  // Changed from specific type to any to handle different response formats
+): Promise<ApiResult> => {
   const url = `/api/Quotation/requestToChangeQuotation/${quotationCode}`;
 
   const apiClient = await initApiClient();
@@ -613,103 +472,21 @@ export const requestToChangeQuotationAPI = async (
       }
     });
 
-    console.log("✅ Request Change Quotation Response:", response.data);
-    console.log("✅ Response Status:", response.status);
-    console.log("✅ Response Headers:", response.headers);
-    console.log("✅ Full Response Object:", response);
-
-    // Check if response is already transformed (has success property directly)
-    if (response && typeof response === 'object' && 'success' in response) {
-      console.log("🎯 Detected transformed response object");
-      return response; // Return the transformed response directly
-    }
-
-    // Standard Axios response handling
-    if (response.status === 200) {
-      console.log("🎯 Status 200 detected, checking data...");
-      
-      // If response.data exists, return it
-      if (response.data) {
-        console.log("📦 Response data exists:", response.data);
-        return response.data;
-      }
-      
-      // If response.data is null but status is 200, assume success
-      console.log("📦 Response data is null, creating success object");
-      return {
-        success: true,
-        message: "Change request submitted successfully",
-        errors: [],
-        data: null
-      };
-    }
+    console.log("✅ Request Change Quotation Response:", response);
 
-    console.log("⚠️ Non-200 status code:", response.status);
-    // Fallback for unexpected response format
-    return {
-      success: false,
-      message: "Failed to submit change request"
-    };
+    return normalizeApiResponse(response, "Change request submitted successfully");
 
   } catch (error: any) {
     console.error("🔴 Request Change Quotation API Error:", error);
-    console.error("🔴 Error type:", typeof error);
-    console.error("🔴 Error message:", error.message);
-    console.error("🔴 Error response:", error.response);
-    console.error("🔴 Error response status:", error.response?.status);
-    console.error("🔴 Error response data:", error.response?.data);
-
-    if (error.response) {
-      // Server responded with error status
-      const statusCode = error.response.status;
-      const errorMessage = error.response.data?.message || error.response.data || "Unknown error";
-
-      console.log("🔴 Server error response - Status:", statusCode);
-      console.log("🔴 Server error response - Data:", error.response.data);
-
-      // Handle successful status codes that might be in error block
-      if (statusCode === 200) {
-        console.log("🎯 Status 200 in error block - checking data...");
-        
-        if (error.response.data) {
-          console.log("📦 Returning error response data as success:", error.response.data);
-          return error.response.data;
-        }
-        
-        return {
-          success: true,
-          message: "Change request submitted successfully",
-          errors: [],
-          data: null
-        };
-      }
-
-      switch (statusCode) {
-        case 401:
-          return Promise.reject(new Error("Unauthorized. Please login again."));
-        case 403:
-          return Promise.reject(new Error("You don't have permission to perform this action."));
-        case 404:
-          return Promise.reject(new Error("Quotation not found."));
-        case 400:
-          return Promise.reject(new Error(`Bad request: ${errorMessage}`));
-        default:
-          return Promise.reject(new Error(`Server error: ${errorMessage}`));
-      }
-    }
-
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
 
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(new Error(getApiErrorMessage(error, "Network error, please try again.")));
   }
 };
 export const requestToCancelQuotationAPI = async (
   quotationCode: string,
   cancelTypeId: number,
   cancelReason: string
-): Promise<any> => {  // Changed from specific type to any to handle different response formats
+): Promise<ApiResult> => {
   const url = `/api/Quotation/requestCancelQuotation/${quotationCode}`;  // Double check: no "To" in URL
   
   console.log("🔍 URL being constructed:", url);
@@ -743,69 +520,13 @@ export const requestToCancelQuotationAPI = async (
       }
     });
 
-    console.log("✅ Request Cancel Quotation Response:", response.data);
-    console.log("✅ Response Status:", response.status);
-    console.log("✅ Full Response Object:", response);
+    console.log("✅ Request Cancel Quotation Response:", response);
 
-    // Check if response is already transformed (has success property directly)
-    if (response && typeof response === 'object' && 'success' in response) {
-      console.log("🎯 Detected transformed response object");
-      return response; // Return the transformed response directly
-    }
-
-    // Standard Axios response handling
-    if (response.status === 200) {
-      console.log("🎯 Status 200 detected, checking data...");
-      
-      // If response.data exists, return it
-      if (response.data) {
-        console.log("📦 Response data exists:", response.data);
-        return response.data;
-      }
-      
-      // If response.data is null but status is 200, assume success
-      console.log("📦 Response data is null, creating success object");
-      return {
-        success: true,
-        message: "Cancellation request submitted successfully",
-        errors: [],
-        data: null
-      };
-    }
-
-    console.log("⚠️ Non-200 status code:", response.status);
-    // Fallback for unexpected response format
-    return {
-      success: false,
-      message: "Failed to submit cancellation request"
-    };
+    return normalizeApiResponse(response, "Cancellation request submitted successfully");
 
   } catch (error: any) {
     console.error("🔴 Request Cancel Quotation API Error:", error);
 
-    if (error.response) {
-      // Server responded with error status
-      const statusCode = error.response.status;
-      const errorMessage = error.response.data?.message || error.response.data || "Unknown error";
-
-      switch (statusCode) {
-        case 401:
-          return Promise.reject(new Error("Unauthorized. Please login again."));
-        case 403:
-          return Promise.reject(new Error("You don't have permission to perform this action."));
-        case 404:
-          return Promise.reject(new Error("Quotation not found."));
-        case 400:
-          return Promise.reject(new Error(`Bad request: ${errorMessage}`));
-        default:
-          return Promise.reject(new Error(`Server error: ${errorMessage}`));
-      }
-    }
-
-    if (error.message.includes("Network Error")) {
-      return Promise.reject(new Error("⚠️ Cannot connect to server. Please check your internet connection."));
-    }
-
-    return Promise.reject(new Error("Network error, please try again."));
+    return Promise.reject(new Error(getApiErrorMessage(error, "Network error, please try again.")));
   }
 };
\ No newline at end of file
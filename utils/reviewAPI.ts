@@ -1,5 +1,14 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken, getUserIdFromToken } from "@/services/auth";
+import {
+  ApiPaginatedResult,
+  assertApiSuccess,
+  getApiErrorMessage,
+  normalizeApiResponse,
+  toApiErrorResult,
+  toPaginatedResult,
+  unwrapApiResult,
+} from "./apiResult";
 
 // Define interfaces for the API response structure
 export interface IReview {
@@ -20,24 +29,6 @@ export interface IReview {
   serviceName?: string;
   serviceImage?: string;
 }
-interface RateCount {
-  [key: string]: number; // For dynamic keys like "5": 1
-}
-
-interface ReviewData {
-  averageRate: number;
-  rateCount: RateCount;
-  data: IReview[]; // The array of reviews
-  totalCount: number;
-}
-
-interface ReviewResponse {
-  success: boolean;
-  message: string;
-  errors: string[];
-  data: ReviewData | null;
-}
-
 // Create Product Review API
 export const createProductReviewAPI = async (
   rate: number,
@@ -100,18 +91,11 @@ export const createProductReviewAPI = async (
       }
     );
     
-    console.log("🟢 Review Created:", response.data);
-    return response.data;
+    console.log("🟢 Review Created:", response);
+    return assertApiSuccess(normalizeApiResponse<IReview>(response));
   } catch (error: any) {
-    console.error("🔴 Create Review API Error:", error.response?.data);
-    
-    // More detailed error logging
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
-    }
-    
-    throw new Error(error.response?.data?.message || "Failed to create product review. Please try again.");
+    console.error("🔴 Create Review API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to create product review. Please try again."));
   }
 };
 
@@ -172,17 +156,11 @@ export const createServiceReviewAPI = async (
       }
     );
     
-    console.log("🟢 Service Review Created:", response.data);
-    return response.data;
+    console.log("🟢 Service Review Created:", response);
+    return assertApiSuccess(normalizeApiResponse<IReview>(response));
   } catch (error: any) {
-    console.error("🔴 Create Service Review API Error:", error.response?.data);
-    
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
-    }
-    
-    throw new Error(error.response?.data?.message || "Failed to create service review. Please try again.");
+    console.error("🔴 Create Service Review API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to create service review. Please try again."));
   }
 };
 
@@ -201,11 +179,11 @@ export const getUserReviewsAPI = async () => {
       headers: { Authorization: `Bearer ${token}` }
     });
     
-    console.log("🟢 User Reviews Retrieved:", response.data);
-    return response.data;
+    console.log("🟢 User Reviews Retrieved:", response);
+    return unwrapApiResult(normalizeApiResponse<IReview[]>(response));
   } catch (error: any) {
-    console.error("🔴 Get User Reviews API Error:", error.response?.data);
-    throw new Error("Failed to fetch your reviews. Please try again.");
+    console.error("🔴 Get User Reviews API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to fetch your reviews. Please try again."));
   }
 };
 
@@ -223,11 +201,11 @@ export const deleteReviewAPI = async (reviewId: number) => {
       headers: { Authorization: `Bearer ${token}` }
     });
     
-    console.log("🟢 Review Deleted:", response.data);
-    return response.data;
+    console.log("🟢 Review Deleted:", response);
+    return assertApiSuccess(normalizeApiResponse<IReview>(response));
   } catch (error: any) {
-    console.error("🔴 Delete Review API Error:", error.response?.data);
-    throw new Error("Failed to delete review. Please try again.");
+    console.error("🔴 Delete Review API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to delete review. Please try again."));
   }
 };
 
@@ -276,17 +254,11 @@ export const updateProductReviewAPI = async (
       }
     );
     
-    console.log("🟢 Product Review Updated:", response.data);
-    return response.data;
+    console.log("🟢 Product Review Updated:", response);
+    return assertApiSuccess(normalizeApiResponse<IReview>(response));
   } catch (error: any) {
-    console.error("🔴 Update Product Review API Error:", error.response?.data);
-    
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
-    }
-    
-    throw new Error(error.response?.data?.message || "Failed to update product review. Please try again.");
+    console.error("🔴 Update Product Review API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to update product review. Please try again."));
   }
 };
 
@@ -335,17 +307,11 @@ export const updateServiceReviewAPI = async (
       }
     );
     
-    console.log("🟢 Service Review Updated:", response.data);
-    return response.data;
+    console.log("🟢 Service Review Updated:", response);
+    return assertApiSuccess(normalizeApiResponse<IReview>(response));
   } catch (error: any) {
-    console.error("🔴 Update Service Review API Error:", error.response?.data);
-    
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
-    }
-    
-    throw new Error(error.response?.data?.message || "Failed to update service review. Please try again.");
+    console.error("🔴 Update Service Review API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to update service review. Please try again."));
   }
 };
 
@@ -404,72 +370,34 @@ export const createServiceReviewByBookingCodeAPI = async (
       }
     );
     
-    console.log("🟢 Service Review Created:", response.data);
-    return response.data;
+    console.log("🟢 Service Review Created:", response);
+    return assertApiSuccess(normalizeApiResponse<IReview>(response));
   } catch (error: any) {
-    console.error("🔴 Create Service Review API Error:", error.response?.data);
-    
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
-    }
-    
-    throw new Error(error.response?.data?.message || "Failed to create service review. Please try again.");
+    console.error("🔴 Create Service Review API Error:", error);
+    throw new Error(getApiErrorMessage(error, "Failed to create service review. Please try again."));
   }
 };
 
 // Get Reviews by Service ID API - FIXED
-export const getReviewByServiceIdAPI = async (serviceId: number | string) => {
+export const getReviewByServiceIdAPI = async (serviceId: number | string): Promise<IReview[]> => {
   const apiClient = await initApiClient();
   
   try {
-  
     const response = await apiClient.get(`/api/Review/getReviewByService/${serviceId}`);
+    const result = normalizeApiResponse<IReview[]>(response);
     
-    // Log the raw response for debugging
-    
-    // Handle successful response
-    if (response.data) {
-      // More detailed logging of what we received
-      if (Array.isArray(response.data)) {
-      } else {
-        // If it's an object with data property, try to extract the array
-        if (typeof response.data === 'object' && response.data.data && Array.isArray(response.data.data)) {
-          return response.data.data;
-        }
-      }
-      
-      // Make sure we always return an array
-      return Array.isArray(response.data) ? response.data : [];
-    } else {
-      console.log("🟡 Service Reviews Retrieved: No reviews found, response data was null or undefined");
-      return [];
+    // Make sure we always return an array
+    if (!Array.isArray(result.data) || result.data.length === 0) {
+      console.log("🟡 Service Reviews Retrieved: No reviews found");
     }
+    return toPaginatedResult(result).data;
   } catch (error: any) {
-    // Enhanced error logging
-    console.error("🔴 Get Service Review API Error:", error.message);
-    
-    // Detailed error logging based on error type
-    if (error.response) {
-      console.error(`Status: ${error.response.status} - ${error.response.statusText}`);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
-      
-      const errorMessage = error.response.data?.message || 
-                          error.response.data?.error || 
-                          `Server error (${error.response.status})`;
-      
-      throw new Error(`Review fetch failed: ${errorMessage}`);
-    } else if (error.request) {
-      console.error("No response received:", error.request);
-      throw new Error("Network error: No response from server. Please check your connection.");
-    } else {
-      console.error("Error setting up request:", error.message);
-      throw new Error(`Request setup error: ${error.message}`);
-    }
+    console.error("🔴 Get Service Review API Error:", error);
+    throw new Error(`Review fetch failed: ${getApiErrorMessage(error, "No response from server. Please check your connection.")}`);
   }
 };
 // Get Reviews by Product ID API - FIXED
-export const getReviewByProductIdAPI = async (productId: number | string): Promise<ReviewResponse> => {
+export const getReviewByProductIdAPI = async (productId: number | string): Promise<ApiPaginatedResult<IReview>> => {
   const apiClient = await initApiClient();
   
   try {
@@ -478,41 +406,26 @@ export const getReviewByProductIdAPI = async (productId: number | string): Promi
     
     // Make API call
     const response = await apiClient.get(`/api/Review/getReviewByProduct/${productId}`);
+    const result = toPaginatedResult(normalizeApiResponse<IReview[]>(response));
     
     // Log the success
-    if (response.data && response.data.success && response.data.data) {
-      const reviewCount = response.data.data.data ? response.data.data.data.length : 0;
-      const totalCount = response.data.data.totalCount || 0;
-      console.log(`🟢 Product Reviews Retrieved: ${reviewCount} reviews found (Total: ${totalCount})`);
+    if (result.success) {
+      console.log(`🟢 Product Reviews Retrieved: ${result.data.length} reviews found (Total: ${result.pagination.totalCount})`);
     } else {
       console.log("🟡 Product Reviews Retrieved: No reviews or invalid response format");
     }
     
-    return response.data;
+    return result;
   } catch (error: any) {
     // Error logging
-    console.error("🔴 Get Product Review API Error:", error.message);
-    
-    if (error.response) {
-      console.error("Status code:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
-    } else if (error.request) {
-      console.error("No response received:", error.request);
-    } else {
-      console.error("Error setting up request:", error.message);
-    }
+    console.error("🔴 Get Product Review API Error:", error);
     
     // Return a properly structured error response
-    return {
-      success: false,
-      message: "Failed to fetch reviews",
-      errors: [error.message || "Unknown error"],
-      data: null
-    };
+    return toPaginatedResult(toApiErrorResult<IReview[]>(error, "Failed to fetch reviews"));
   }
 };
 // Direct endpoint call without parameters
-export const getReviewByAccountDirectAPI = async () => {
+export const getReviewByAccountDirectAPI = async (): Promise<IReview[]> => {
   const apiClient = await initApiClient();
   
   try {
@@ -523,7 +436,7 @@ export const getReviewByAccountDirectAPI = async () => {
     
     // If we get here, the call was successful
     console.log(`✅ Successfully fetched reviews without parameters`);
-    return response.data;
+    return toPaginatedResult(normalizeApiResponse<IReview[]>(response)).data;
   } catch (firstError) {
     // First approach failed, try another approach with parameters
     try {
@@ -538,9 +451,10 @@ export const getReviewByAccountDirectAPI = async () => {
       });
       
       console.log(`✅ Successfully fetched reviews with parameters`);
-      return response.data;
+      return toPaginatedResult(normalizeApiResponse<IReview[]>(response)).data;
     } catch (secondError) {
-   
+      console.error("🔴 Get Account Reviews API Error:", secondError);
+      return [];
     }
   }
 };
@@ -1,4 +1,5 @@
 import { initApiClient } from "@/config/axiosConfig";
+import { ApiResult, getApiErrorMessage, normalizeApiResponse } from "./apiResult";
 
 export interface ISeason {
   id: number;
@@ -47,12 +48,16 @@ export interface IServerSeason {
   description: string;
 }
 
-export interface IServerResponse {
-  success: boolean;
-  message: string;
-  errors: any[];
-  data: IServerSeason | IServerSeason[];
-}
+export type IServerResponse = ApiResult<IServerSeason | IServerSeason[]>;
+
+const EMPTY_SEASON: ISeason = {
+  id: 0,
+  name: "",
+  startDate: "",
+  endDate: "",
+  status: "completed",
+  description: ""
+};
 
 /**
  * Map server season format to client format
@@ -75,18 +80,11 @@ export const getSeasonsAPI = async () => {
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(url);
+    const result = normalizeApiResponse<any[]>(response);
     
-    // Handle different response formats but return just the seasons array
-    if (response && response.data) {
-      // Case 1: Response is directly an array of seasons
-      if (Array.isArray(response.data)) {
-        return response.data;
-      }
-      
-      // Case 2: Response follows the {success, data} format
-      if (response.data.success && Array.isArray(response.data.data)) {
-        return response.data.data;
-      }
+    // Return just the seasons array
+    if (result.success && Array.isArray(result.data)) {
+      return result.data;
     }
     
     console.log("Invalid seasons response:", response);
@@ -103,56 +101,29 @@ export const createSeasonAPI = async (seasonData: ICreateSeasonRequest): Promise
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.post(url, seasonData);
+    const result = normalizeApiResponse<IServerSeason>(response);
     
-    if (response && response.data) {
-      if (response.data.id) {
-        return {
-          success: true,
-          season: mapSeason(response.data),
-          message: "Season created successfully"
-        };
-      }
-      
-      if (response.data.success && response.data.data) {
-        return {
-          success: true,
-          season: mapSeason(response.data.data),
-          message: response.data.message || "Season created successfully"
-        };
-      }
+    if (result.success && result.data?.id) {
+      return {
+        success: true,
+        season: mapSeason(result.data),
+        message: result.message || "Season created successfully"
+      };
     }
     
     console.log("Invalid season creation response:", response);
     return {
       success: false,
-      season: {
-        id: 0,
-        name: "",
-        startDate: "",
-        endDate: "",
-        status: "completed",
-        description: ""
-      },
-      message: "Failed to create season"
+      season: EMPTY_SEASON,
+      message: result.message || "Failed to create season"
     };
   } catch (error: any) {
     console.log("Error creating season:", error);
     
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
     return {
       success: false,
-      season: {
-        id: 0,
-        name: "",
-        startDate: "",
-        endDate: "",
-        status: "completed",
-        description: ""
-      },
-      message: "Failed to connect to season service"
+      season: EMPTY_SEASON,
+      message: getApiErrorMessage(error, "Failed to connect to season service")
     };
   }
 };
@@ -164,56 +135,29 @@ export const updateSeasonAPI = async (id: number, seasonData: IUpdateSeasonReque
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.put(url, seasonData);
+    const result = normalizeApiResponse<IServerSeason>(response);
     
-    if (response && response.data) {
-      if (response.data.id) {
-        return {
-          success: true,
-          season: mapSeason(response.data),
-          message: "Season updated successfully"
-        };
-      }
-      
-      if (response.data.success && response.data.data) {
-        return {
-          success: true,
-          season: mapSeason(response.data.data),
-          message: response.data.message || "Season updated successfully"
-        };
-      }
+    if (result.success && result.data?.id) {
+      return {
+        success: true,
+        season: mapSeason(result.data),
+        message: result.message || "Season updated successfully"
+      };
     }
     
     console.log("Invalid season update response:", response);
     return {
       success: false,
-      season: {
-        id: 0,
-        name: "",
-        startDate: "",
-        endDate: "",
-        status: "completed",
-        description: ""
-      },
-      message: "Failed to update season"
+      season: EMPTY_SEASON,
+      message: result.message || "Failed to update season"
     };
   } catch (error: any) {
     console.log("Error updating season:", error);
     
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
     return {
       success: false,
-      season: {
-        id: 0,
-        name: "",
-        startDate: "",
-        endDate: "",
-        status: "completed",
-        description: ""
-      },
-      message: "Failed to connect to season service"
+      season: EMPTY_SEASON,
+      message: getApiErrorMessage(error, "Failed to connect to season service")
     };
   }
 };
@@ -224,35 +168,22 @@ export const deleteSeasonAPI = async (id: number): Promise<{success: boolean, me
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.delete(url);
+    const result = normalizeApiResponse(response, "Season deleted successfully");
     
-    if (response && response.data) {
-      if (response.data.success !== undefined) {
-        return {
-          success: response.data.success,
-          message: response.data.message || "Season deleted successfully"
-        };
-      }
-            return {
-        success: true,
-        message: "Season deleted successfully"
-      };
+    if (!result.success) {
+      console.log("Invalid season deletion response:", response);
     }
     
-    console.log("Invalid season deletion response:", response);
     return {
-      success: false,
-      message: "Failed to delete season"
+      success: result.success,
+      message: result.message || (result.success ? "Season deleted successfully" : "Failed to delete season")
     };
   } catch (error: any) {
     console.log("Error deleting season:", error);
     
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
     return {
       success: false,
-      message: "Failed to connect to season service"
+      message: getApiErrorMessage(error, "Failed to connect to season service")
     };
   }
 };
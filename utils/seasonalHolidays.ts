@@ -0,0 +1,248 @@
+// Holidays customers decorate for, on the solar or the lunar calendar, and the decor
+// seasons they belong to. Used by CalendarPicker to mark holidays, by the booking flow to
+// block public holidays, and by the decor tab to suggest services for the next season.
+import { fromLunarDate, ILunarDate, toLunarDate } from "./lunarCalendar";
+
+export interface ISeasonalHoliday {
+  key: string;
+  name: string;
+  localName: string;
+  calendar: "solar" | "lunar";
+  month: number;
+  day: number;
+  // Public holiday (ngày nghỉ lễ): providers don't take surveys
+  isPublicHoliday: boolean;
+  // Decor season names (as in /api/Season) whose services fit this holiday
+  seasonNames: string[];
+  // How long before the holiday customers start booking decor
+  leadDays: number;
+}
+
+export interface IHolidayOccurrence {
+  holiday: ISeasonalHoliday;
+  date: string; // yyyy-mm-dd, Gregorian
+  lunar?: ILunarDate;
+}
+
+export interface ISeasonSuggestion {
+  holiday: ISeasonalHoliday;
+  date: string;
+  daysUntil: number;
+  seasonName: string; // The matching season name as the backend spells it
+}
+
+export const SEASONAL_HOLIDAYS: ISeasonalHoliday[] = [
+  {
+    key: "newYear",
+    name: "New Year's Day",
+    localName: "Tết Dương lịch",
+    calendar: "solar",
+    month: 1,
+    day: 1,
+    isPublicHoliday: true,
+    seasonNames: ["New Year", "Winter"],
+    leadDays: 21,
+  },
+  {
+    key: "valentine",
+    name: "Valentine's Day",
+    localName: "Lễ Tình nhân",
+    calendar: "solar",
+    month: 2,
+    day: 14,
+    isPublicHoliday: false,
+    seasonNames: ["Valentine"],
+    leadDays: 21,
+  },
+  {
+    key: "tet",
+    name: "Lunar New Year",
+    localName: "Tết Nguyên Đán",
+    calendar: "lunar",
+    month: 1,
+    day: 1,
+    isPublicHoliday: true,
+    seasonNames: ["Tết", "Tet", "Lunar New Year", "Spring"],
+    leadDays: 45,
+  },
+  {
+    key: "lantern",
+    name: "Lantern Festival",
+    localName: "Tết Nguyên Tiêu",
+    calendar: "lunar",
+    month: 1,
+    day: 15,
+    isPublicHoliday: false,
+    seasonNames: ["Tết", "Tet"],
+    leadDays: 14,
+  },
+  {
+    key: "hungKings",
+    name: "Hùng Kings' Festival",
+    localName: "Giỗ Tổ Hùng Vương",
+    calendar: "lunar",
+    month: 3,
+    day: 10,
+    isPublicHoliday: true,
+    seasonNames: [],
+    leadDays: 0,
+  },
+  {
+    key: "reunification",
+    name: "Reunification Day",
+    localName: "Ngày Giải phóng miền Nam",
+    calendar: "solar",
+    month: 4,
+    day: 30,
+    isPublicHoliday: true,
+    seasonNames: [],
+    leadDays: 0,
+  },
+  {
+    key: "labour",
+    name: "Labour Day",
+    localName: "Quốc tế Lao động",
+    calendar: "solar",
+    month: 5,
+    day: 1,
+    isPublicHoliday: true,
+    seasonNames: [],
+    leadDays: 0,
+  },
+  {
+    key: "midAutumn",
+    name: "Mid-Autumn Festival",
+    localName: "Tết Trung Thu",
+    calendar: "lunar",
+    month: 8,
+    day: 15,
+    isPublicHoliday: false,
+    seasonNames: ["Mid-Autumn", "Trung Thu", "Autumn"],
+    leadDays: 30,
+  },
+  {
+    key: "nationalDay",
+    name: "National Day",
+    localName: "Quốc khánh",
+    calendar: "solar",
+    month: 9,
+    day: 2,
+    isPublicHoliday: true,
+    seasonNames: [],
+    leadDays: 0,
+  },
+  {
+    key: "halloween",
+    name: "Halloween",
+    localName: "Halloween",
+    calendar: "solar",
+    month: 10,
+    day: 31,
+    isPublicHoliday: false,
+    seasonNames: ["Halloween"],
+    leadDays: 21,
+  },
+  {
+    key: "christmas",
+    name: "Christmas",
+    localName: "Giáng sinh",
+    calendar: "solar",
+    month: 12,
+    day: 25,
+    isPublicHoliday: false,
+    seasonNames: ["Christmas", "Noel", "Winter"],
+    leadDays: 30,
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// "Tết", "tet" and "TET" name the same season
+const normalizeSeasonName = (value: string): string =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/gi, "d").toLowerCase().trim();
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Gregorian date of a holiday in a given Gregorian year
+ */
+const getHolidayDate = (holiday: ISeasonalHoliday, year: number): Date | null => {
+  if (holiday.calendar === "solar") {
+    return new Date(year, holiday.month - 1, holiday.day);
+  }
+  // Lunar months 1-10 fall in the same Gregorian year as their lunar year
+  return fromLunarDate({ day: holiday.day, month: holiday.month, year, leap: false });
+};
+
+/**
+ * Every holiday of a Gregorian year, in date order
+ */
+export const getHolidayOccurrences = (year: number, holidays: ISeasonalHoliday[] = SEASONAL_HOLIDAYS): IHolidayOccurrence[] =>
+  holidays
+    .map((holiday): IHolidayOccurrence | null => {
+      const date = getHolidayDate(holiday, year);
+      if (!date) return null;
+      return {
+        holiday,
+        date: toDateKey(date),
+        lunar: holiday.calendar === "lunar" ? toLunarDate(date) : undefined,
+      };
+    })
+    .filter((occurrence): occurrence is IHolidayOccurrence => occurrence !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Holidays falling on a calendar day
+ */
+export const getHolidaysOn = (date: Date): IHolidayOccurrence[] => {
+  const key = toDateKey(date);
+  return getHolidayOccurrences(date.getFullYear()).filter((occurrence) => occurrence.date === key);
+};
+
+/**
+ * Holidays from today up to `withinDays` ahead, nearest first
+ */
+export const getUpcomingHolidays = (from: Date = new Date(), withinDays: number = 90): IHolidayOccurrence[] => {
+  const start = startOfDay(from);
+  const startKey = toDateKey(start);
+  const endKey = toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + withinDays));
+
+  return [start.getFullYear(), start.getFullYear() + 1]
+    .flatMap((year) => getHolidayOccurrences(year))
+    .filter((occurrence) => occurrence.date >= startKey && occurrence.date <= endKey);
+};
+
+const daysBetween = (from: Date, dateKey: string): number => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Math.round((new Date(year, month - 1, day).getTime() - startOfDay(from).getTime()) / DAY_MS);
+};
+
+/**
+ * Seasons worth suggesting now: holidays whose booking window (leadDays before the day)
+ * has opened, matched against the season names the catalogue actually has
+ */
+export const suggestUpcomingSeasons = (availableSeasonNames: string[], from: Date = new Date()): ISeasonSuggestion[] => {
+  const available = new Map(availableSeasonNames.map((name) => [normalizeSeasonName(name), name]));
+  const suggestions: ISeasonSuggestion[] = [];
+  const seen = new Set<string>();
+
+  getUpcomingHolidays(from, 120).forEach((occurrence) => {
+    const daysUntil = daysBetween(from, occurrence.date);
+    if (daysUntil > occurrence.holiday.leadDays) return;
+
+    const seasonName = occurrence.holiday.seasonNames
+      .map((name) => available.get(normalizeSeasonName(name)))
+      .find((name): name is string => !!name);
+    if (!seasonName || seen.has(seasonName)) return;
+
+    seen.add(seasonName);
+    suggestions.push({ holiday: occurrence.holiday, date: occurrence.date, daysUntil, seasonName });
+  });
+
+  return suggestions;
+};
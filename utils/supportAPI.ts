@@ -1,5 +1,12 @@
 import { initApiClient } from "@/config/axiosConfig";
 import { getToken } from "@/services/auth";
+import {
+  ApiPaginatedResult,
+  ApiResult,
+  normalizeApiResponse,
+  toApiErrorResult,
+  toPaginatedResult,
+} from "./apiResult";
 
 export interface ISupportTicket {
   id?: string;
@@ -13,20 +20,9 @@ export interface ISupportTicket {
   updatedAt?: string;
 }
 
-export interface IPaginatedSupportTickets {
-  data: ISupportTicket[];
-  totalCount: number;
-  pageIndex: number;
-  pageSize: number;
-  totalPages: number;
-}
+export type IPaginatedSupportTickets = ApiPaginatedResult<ISupportTicket>;
 
-export interface IApiResponse<T = any> {
-  success: boolean;
-  errors?: string[];
-  data?: T;
-  message?: string;
-}
+export type IApiResponse<T = any> = ApiResult<T>;
 
 export interface ISupportTicketParams {
   bookingCode?: string;
@@ -38,42 +34,11 @@ export interface ISupportTicketParams {
   descending?: boolean;
 }
 
-interface APIResponse<T> {
-  success: boolean;
-  message: string;
-  errors: string[];
-  data: T;
-}
-
 export interface ITicketType {
   id: number;
   type: string;
 }
 
-// Improved helper function for API calls
-const handleApiRequest = async <T>(request: Promise<any>): Promise<T> => {
-  try {
-    const response = await request;
-    const responseData = response.data;
-
-    // Check if the response has the expected structure
-    if (responseData && typeof responseData.success === 'boolean') {
-      if (responseData.success && responseData.data) {
-        return responseData.data;
-      } else {
-        const errorMessage = responseData.errors?.join(", ") || responseData.message || "An unknown error occurred.";
-        throw new Error(errorMessage);
-      }
-    } else {
-      // For responses without the standard structure, return the raw data
-      return response.data;
-    }
-  } catch (error: any) {
-    console.error("API Request Error:", error);
-    throw new Error(error?.message || "An error occurred during the request.");
-  }
-};
-
 // POST /api/Support/createTicket: Create a new support ticket
 // Fixed createSupportTicketAPI - use fetch like createBookingAPI
 export const createSupportTicketAPI = async (ticketData: ISupportTicket): Promise<IApiResponse> => {
@@ -141,46 +106,12 @@ export const createSupportTicketAPI = async (ticketData: ISupportTicket): Promis
     const responseData = await response.json();
     console.log("📥 Raw API response:", responseData);
     
-    // Handle response similar to createBookingAPI
-    if (responseData && typeof responseData === 'object') {
-      // Check if response has success field
-      if ('success' in responseData) {
-        return {
-          success: responseData.success,
-          message: responseData.message || (responseData.success ? "Ticket created successfully" : "Failed to create ticket"),
-          errors: responseData.errors || [],
-          data: responseData.data
-        };
-      }
-      
-      // If response is direct ticket data (has id field)
-      if ('id' in responseData) {
-        console.log("✅ Ticket created successfully - direct data response");
-        return {
-          success: true,
-          message: "Ticket created successfully",
-          errors: [],
-          data: responseData
-        };
-      }
-    }
-    
-    // Fallback - assume success if we got some data
-    return {
-      success: true,
-      message: "Ticket created successfully",
-      errors: [],
-      data: responseData
-    };
+    return normalizeApiResponse<ISupportTicket>(responseData, "Ticket created successfully");
     
   } catch (error: any) {
     console.error("❌ Error in createSupportTicketAPI:", error);
     
-    return {
-      success: false,
-      message: error.message || "Failed to create support ticket",
-      errors: [error.message || "Unknown error occurred"]
-    };
+    return toApiErrorResult(error, "Failed to create support ticket");
   }
 };
 
@@ -220,8 +151,8 @@ export const testAttachmentUpload = async (attachment: any) => {
       },
     });
     
-    console.log("🧪 Test response:", response.data);
-    return response.data;
+    console.log("🧪 Test response:", response);
+    return normalizeApiResponse<ISupportTicket>(response);
     
   } catch (error: any) {
     console.error("🧪 Test failed:", error);
@@ -241,15 +172,10 @@ export const getTicketTypesAPI = async (): Promise<ITicketType[]> => {
       }
     });
     
-    console.log("Ticket types response:", response.data);
+    console.log("Ticket types response:", response);
     
-    // Check if response has the standard API structure
-    if (response.data && response.data.success && response.data.data) {
-      return response.data.data;
-    }
-    
-    // If not, return the data directly (fallback)
-    return response.data || [];
+    const result = normalizeApiResponse<ITicketType[]>(response);
+    return result.success && Array.isArray(result.data) ? result.data : [];
   } catch (error: any) {
     console.error("Error fetching ticket types:", error);
     return [];
@@ -269,15 +195,10 @@ export const getSupportByIdAPI = async (supportId: string): Promise<ISupportTick
       }
     });
     
-    console.log("Support ticket by ID response:", response.data);
-    
-    // Check if response has the standard API structure
-    if (response.data && response.data.success && response.data.data) {
-      return response.data.data;
-    }
+    console.log("Support ticket by ID response:", response);
     
-    // If not, return the data directly (fallback)
-    return response.data || null;
+    const result = normalizeApiResponse<ISupportTicket>(response);
+    return result.success ? result.data ?? null : null;
   } catch (error: any) {
     console.error("Error fetching support ticket by ID:", error);
     return null;
@@ -297,7 +218,8 @@ export const getSupportTicketByIdAPI = async (id: string): Promise<ISupportTicke
       }
     });
     
-    return response.data;
+    const result = normalizeApiResponse<ISupportTicket>(response);
+    return result.success ? result.data ?? null : null;
   } catch (error: any) {
     console.error("Error fetching support ticket:", error);
     return null;
@@ -330,120 +252,21 @@ export const getPaginatedSupportTicketsAPI = async (
       }
     });
     
-   
-    // Check if response structure is valid
-    if (!response) {
-      console.error("❌ No response object received");
-      throw new Error("No response received from API");
-    }
-    
-   
-    // Handle the response data
-    const responseData = response.data;
-    
-    if (responseData === null) {
-      console.log("ℹ️ API returned null - might be normal for empty results");
-      return {
-        data: [],
-        totalCount: 0,
-        pageIndex: params.pageIndex || 0,
-        pageSize: params.pageSize || 10,
-        totalPages: 0
-      };
-    }
     
-    if (responseData === undefined) {
-      console.error("❌ API returned undefined data");
-      throw new Error("API returned undefined data");
-    }
-    
-  
-    // Handle different response formats
-    if (responseData && typeof responseData === 'object') {
-      // Format 1: { success: true, data: { data: [...], totalCount: N } }
-      if (responseData.success && responseData.data) {
-        console.log("✅ Found success + data structure");
-        const ticketsContainer = responseData.data;
-        const tickets = ticketsContainer.data || [];
-        const totalCount = ticketsContainer.totalCount || 0;
-        
-        console.log("📋 Extracted tickets:", {
-          ticketsCount: tickets.length,
-          totalCount: totalCount,
-          firstTicket: tickets[0] || 'No tickets'
-        });
-        
-        return {
-          data: tickets,
-          totalCount: totalCount,
-          pageIndex: params.pageIndex || 0,
-          pageSize: params.pageSize || 10,
-          totalPages: Math.ceil(totalCount / (params.pageSize || 10))
-        };
-      }
-      
-      // Format 2: Direct array of tickets
-      if (Array.isArray(responseData)) {
-        console.log("✅ Found direct array format");
-        return {
-          data: responseData,
-          totalCount: responseData.length,
-          pageIndex: params.pageIndex || 0,
-          pageSize: params.pageSize || 10,
-          totalPages: Math.ceil(responseData.length / (params.pageSize || 10))
-        };
-      }
-      
-      // Format 3: { data: [...], totalCount: N } (without success wrapper)
-      if (responseData.data && Array.isArray(responseData.data)) {
-        console.log("✅ Found data + totalCount structure");
-        return {
-          data: responseData.data,
-          totalCount: responseData.totalCount || responseData.data.length,
-          pageIndex: params.pageIndex || 0,
-          pageSize: params.pageSize || 10,
-          totalPages: Math.ceil((responseData.totalCount || responseData.data.length) / (params.pageSize || 10))
-        };
-      }
-    }
-    
-    console.warn("⚠️ Unrecognized response format:", responseData);
-    return {
-      data: [],
-      totalCount: 0,
-      pageIndex: params.pageIndex || 0,
-      pageSize: params.pageSize || 10,
-      totalPages: 0
-    };
+    return toPaginatedResult(
+      normalizeApiResponse<ISupportTicket[]>(response),
+      params.pageIndex || 0,
+      params.pageSize || 10
+    );
     
   } catch (error: any) {
-    console.error("❌ Complete error details:", {
-      errorMessage: error.message,
-      errorName: error.name,
-      errorStack: error.stack,
-      hasResponse: !!error.response,
-      responseStatus: error.response?.status,
-      responseStatusText: error.response?.statusText,
-      responseData: error.response?.data,
-      responseHeaders: error.response?.headers,
-      requestConfig: {
-        url: error.config?.url,
-        method: error.config?.method,
-        baseURL: error.config?.baseURL,
-        headers: error.config?.headers
-      },
-      networkError: error.code === 'NETWORK_ERROR',
-      timeoutError: error.code === 'TIMEOUT',
-      abortError: error.code === 'ABORTED'
-    });
+    console.error("❌ Complete error details:", error);
     
-    return {
-      data: [],
-      totalCount: 0,
-      pageIndex: params.pageIndex || 0,
-      pageSize: params.pageSize || 10,
-      totalPages: 0
-    };
+    return toPaginatedResult(
+      toApiErrorResult<ISupportTicket[]>(error, "Failed to fetch support tickets"),
+      params.pageIndex || 0,
+      params.pageSize || 10
+    );
   }
 };
 export const getSupportTicketsByBookingCodeAPI = async (
@@ -469,13 +292,7 @@ export const getSupportTicketsByBookingCodeAPI = async (
     
   } catch (error: any) {
     console.error("❌ Error searching tickets by booking code:", error);
-    return {
-      data: [],
-      totalCount: 0,
-      pageIndex: 0,
-      pageSize: 50,
-      totalPages: 0
-    };
+    return toPaginatedResult(toApiErrorResult<ISupportTicket[]>(error, "Failed to search support tickets"), 0, 50);
   }
 };
 
@@ -0,0 +1,153 @@
+// Survey date availability for the booking screen: provider busy days, survey slots that
+// are already booked and Vietnamese public holidays. CalendarPicker and TimePicker ask
+// this module which days and times can be picked, so customers stop choosing dates the
+// provider then rejects.
+import { getHolidayOccurrences } from "./seasonalHolidays";
+
+// yyyy-mm-dd / HH:mm, in Vietnam time like the rest of the booking flow
+export interface IBookedSlot {
+  date: string;
+  time: string;
+}
+
+// GET /api/DecorService/getAvailability/{decorServiceId}
+export interface IServiceAvailability {
+  decorServiceId: number;
+  slotTimes: string[]; // Survey start times the provider offers each day
+  busyDates: string[]; // Days the provider does not take surveys
+  bookedSlots: IBookedSlot[];
+}
+
+export interface IPublicHoliday {
+  date: string;
+  name: string;
+}
+
+export interface IAvailabilitySource {
+  availability?: IServiceAvailability | null;
+  holidays?: IPublicHoliday[];
+}
+
+export type DayAvailabilityStatus = "available" | "limited" | "full" | "busy" | "holiday" | "past";
+
+export interface IDayAvailability {
+  status: DayAvailabilityStatus;
+  freeSlots: string[];
+  totalSlots: number;
+  holiday?: string;
+}
+
+// Used until the provider's own slots are known
+export const DEFAULT_SLOT_TIMES = ["08:00", "10:00", "14:00", "16:00"];
+
+export const DAY_STATUS_LABELS: Record<DayAvailabilityStatus, string> = {
+  available: "Available",
+  limited: "Few slots left",
+  full: "Fully booked",
+  busy: "Provider unavailable",
+  holiday: "Public holiday",
+  past: "Not available",
+};
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const addDays = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return toDateKey(new Date(year, month - 1, day + days));
+};
+
+/**
+ * Public holidays in a year, from the seasonal holiday dataset. Tết blocks New Year's Eve
+ * through the 4th day and National Day the day before 2/9, when providers don't do surveys.
+ */
+export const getPublicHolidays = (year: number): IPublicHoliday[] => {
+  const holidays: IPublicHoliday[] = [];
+
+  getHolidayOccurrences(year)
+    .filter(({ holiday }) => holiday.isPublicHoliday)
+    .forEach(({ holiday, date }) => {
+      if (holiday.key === "tet") {
+        holidays.push({ date: addDays(date, -1), name: "Tết (New Year's Eve)" });
+        for (let day = 0; day < 4; day++) {
+          holidays.push({ date: addDays(date, day), name: holiday.localName });
+        }
+        return;
+      }
+      if (holiday.key === "nationalDay") {
+        holidays.push({ date: addDays(date, -1), name: holiday.name });
+      }
+      holidays.push({ date, name: holiday.name });
+    });
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * What a day looks like in the picker. Days before `minDate` are "past"; with no
+ * availability loaded yet every other non-holiday day counts as available.
+ */
+export const getDayAvailability = (date: Date, source: IAvailabilitySource = {}, minDate?: Date): IDayAvailability => {
+  const key = toDateKey(date);
+  const { availability } = source;
+  const slotTimes = availability?.slotTimes.length ? availability.slotTimes : DEFAULT_SLOT_TIMES;
+  const unavailable = (status: DayAvailabilityStatus, holiday?: string): IDayAvailability => ({
+    status,
+    freeSlots: [],
+    totalSlots: slotTimes.length,
+    holiday,
+  });
+
+  if (minDate && key < toDateKey(minDate)) return unavailable("past");
+
+  const holidays = source.holidays ?? getPublicHolidays(date.getFullYear());
+  const holiday = holidays.find((item) => item.date === key);
+  if (holiday) return unavailable("holiday", holiday.name);
+
+  if (availability?.busyDates.includes(key)) return unavailable("busy");
+
+  const booked = new Set((availability?.bookedSlots ?? []).filter((slot) => slot.date === key).map((slot) => slot.time));
+  const freeSlots = slotTimes.filter((time) => !booked.has(time)).sort((a, b) => toMinutes(a) - toMinutes(b));
+
+  if (freeSlots.length === 0) return { status: "full", freeSlots, totalSlots: slotTimes.length };
+  return {
+    status: freeSlots.length < slotTimes.length ? "limited" : "available",
+    freeSlots,
+    totalSlots: slotTimes.length,
+  };
+};
+
+export const isDaySelectable = (availability: IDayAvailability): boolean =>
+  availability.status === "available" || availability.status === "limited";
+
+/**
+ * Survey start times of a day with whether each can still be booked
+ */
+export const getTimeSlots = (
+  date: Date,
+  source: IAvailabilitySource = {},
+  minDate?: Date
+): { time: string; available: boolean }[] => {
+  const slotTimes = source.availability?.slotTimes.length ? source.availability.slotTimes : DEFAULT_SLOT_TIMES;
+  const { freeSlots } = getDayAvailability(date, source, minDate);
+  return [...slotTimes]
+    .sort((a, b) => toMinutes(a) - toMinutes(b))
+    .map((time) => ({ time, available: freeSlots.includes(time) }));
+};
+
+/**
+ * The date with its time of day set to a slot ("HH:mm")
+ */
+export const applySlotTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
@@ -1,4 +1,5 @@
 import { initApiClient } from "@/config/axiosConfig";
+import { getApiErrorMessage, normalizeApiResponse } from "./apiResult";
 
 // Types for tracking operations
 export interface ITrackingImage {
@@ -59,30 +60,20 @@ export const getTrackingByBookingCodeAPI = async (bookingCode: string): Promise<
       params: { bookingCode }
     });
     
-    // Handle case where response.data is directly an array of tracking items
-    if (response && response.data && Array.isArray(response.data)) {
-      const trackingItems = response.data.map(mapTrackingItem);
-      
-      return {
-        success: true,
-        trackingItems,
-        message: "Tracking history retrieved successfully"
-      };
-    }
+    const result = normalizeApiResponse<IServerTrackingItem[]>(response);
     
-    // Handle case where response.data has a nested data array
-    if (response?.data?.success && Array.isArray(response.data.data)) {
-      const trackingItems = response.data.data.map(mapTrackingItem);
+    if (result.success && Array.isArray(result.data)) {
+      const trackingItems = result.data.map(mapTrackingItem);
       
       return {
         success: true,
         trackingItems,
-        message: response.data.message
+        message: result.message || "Tracking history retrieved successfully"
       };
     }
     
     // Log the response format for debugging
-    console.log("Response data format:", JSON.stringify(response.data));
+    console.log("Response data format:", JSON.stringify(response));
     
     // Handle case where no tracking data was found
     return {
@@ -94,14 +85,10 @@ export const getTrackingByBookingCodeAPI = async (bookingCode: string): Promise<
   } catch (error: any) {
     console.log("Error fetching tracking history:", error);
     
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
     return {
       success: false,
       trackingItems: [],
-      message: "Failed to retrieve tracking information"
+      message: getApiErrorMessage(error, "Failed to retrieve tracking information")
     };
   }
 };
@@ -143,28 +130,19 @@ export const addTrackingEntryAPI = async (
       }
     });
     
-    if (response && response.data) {
-      return {
-        success: response.data.success || true,
-        message: response.data.message || "Tracking entry added successfully"
-      };
-    }
+    const result = normalizeApiResponse(response, "Tracking entry added successfully");
     
     return {
-      success: false,
-      message: "Failed to add tracking entry"
+      success: result.success,
+      message: result.message || (result.success ? "Tracking entry added successfully" : "Failed to add tracking entry")
     };
     
   } catch (error: any) {
     console.log("Error adding tracking entry:", error);
     
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
     return {
       success: false,
-      message: error.response?.data?.message || "Error occurred while adding tracking entry"
+      message: getApiErrorMessage(error, "Error occurred while adding tracking entry")
     };
   }
 };
@@ -183,28 +161,19 @@ export const deleteTrackingEntryAPI = async (
   try {
     const response = await apiClient.delete(url);
     
-    if (response && response.data) {
-      return {
-        success: response.data.success || true,
-        message: response.data.message || "Tracking entry deleted successfully"
-      };
-    }
+    const result = normalizeApiResponse(response, "Tracking entry deleted successfully");
     
     return {
-      success: false,
-      message: "Failed to delete tracking entry"
+      success: result.success,
+      message: result.message || (result.success ? "Tracking entry deleted successfully" : "Failed to delete tracking entry")
     };
     
   } catch (error: any) {
     console.log("Error deleting tracking entry:", error);
     
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
     return {
       success: false,
-      message: error.response?.data?.message || "Error occurred while deleting tracking entry"
+      message: getApiErrorMessage(error, "Error occurred while deleting tracking entry")
     };
   }
 };
\ No newline at end of file
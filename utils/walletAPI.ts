@@ -1,4 +1,5 @@
 import { initApiClient } from "@/config/axiosConfig";
+import { ApiResult, getApiErrorMessage, normalizeApiResponse } from "./apiResult";
 
 // Types for wallet operations
 export interface IWalletBalance {
@@ -25,12 +26,7 @@ export interface IServerTransaction {
 }
 
 // Exact API response structure
-export interface IServerResponse {
-  success: boolean;
-  message: string;
-  errors: any[];
-  data: IServerTransaction[];
-}
+export type IServerResponse = ApiResult<IServerTransaction[]>;
 
 // Interface for UI
 export interface ITransaction {
@@ -59,11 +55,16 @@ export const getWalletBalanceAPI = async (): Promise<IWalletBalance> => {
   const apiClient = await initApiClient();
   try {
     const response = await apiClient.get(url);
+    const result = normalizeApiResponse<WalletData>(response);
     
-    // Add this line to debug
-    
-    if (response && response.data) {
-      return response.data;
+    if (result.success && result.data) {
+      return {
+        success: true,
+        currency: "VND",
+        lastUpdated: new Date().toISOString(),
+        ...result.data,
+        message: result.message
+      };
     } else {
       console.log("Invalid wallet balance response:", response);
       return {
@@ -77,16 +78,12 @@ export const getWalletBalanceAPI = async (): Promise<IWalletBalance> => {
   } catch (error: any) {
     console.log("Error fetching wallet balance:", error);
     
-    if (error.response) {
-      console.log("API Error Response:", error.response.data);
-    }
-    
     return {
       success: false,
       balance: 0,
       currency: "VND",
       lastUpdated: new Date().toISOString(),
-      message: "Failed to connect to wallet service"
+      message: getApiErrorMessage(error, "Failed to connect to wallet service")
     };
   }
 };
@@ -123,27 +120,16 @@ export const getTransactionsDetailsAPI = async (): Promise<ITransactionsResponse
     const apiClient = await initApiClient();
     const response = await apiClient.get("/api/wallet/getTransactionsDetails");
     
-    // Check if response.data is an array
-    if (response && response.data && Array.isArray(response.data)) {
-      const transactions = response.data.map(mapTransaction);
-      
-      return {
-        success: true,
-        transactions,
-        totalCount: transactions.length,
-        message: "Transactions retrieved successfully"
-      };
-    }
+    const result = normalizeApiResponse<IServerTransaction[]>(response);
     
-    // Check if response.data is an object with a data property that is an array
-    if (response?.data?.success && Array.isArray(response.data.data)) {
-      const transactions = response.data.data.map(mapTransaction);
+    if (result.success && Array.isArray(result.data)) {
+      const transactions = result.data.map(mapTransaction);
       
       return {
         success: true,
         transactions,
         totalCount: transactions.length,
-        message: response.data.message
+        message: result.message || "Transactions retrieved successfully"
       };
     }
     